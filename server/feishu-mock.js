@@ -0,0 +1,184 @@
+/**
+ * 飞书开放平台 Bitable 接口的本地 mock（无依赖）
+ *
+ * 实现飞书同步用到的接口，行为与开放平台一致：
+ * POST /open-apis/auth/v3/tenant_access_token/internal
+ * POST /open-apis/bitable/v1/apps/:app_token/tables/:table_id/records/search   （分页、automatic_fields、修改时间过滤）
+ * POST /open-apis/bitable/v1/apps/:app_token/tables/:table_id/records/batch_update
+ *
+ * 另提供 POST /mock/tables/:table_id/records/:record_id 直接修改记录（模拟飞书侧编辑），GET /mock/tables 查看全部数据。
+ *
+ * 环境变量：PORT（默认 4100）、FEISHU_APP_ID / FEISHU_APP_SECRET（默认 cli_mock / mock_secret）、TOKEN_TTL（秒，默认 7200）
+ * 内置 app_token 为 bascnMockApp，表 tblProjects / tblTasks / tblMembers / tblBays。
+ */
+import http from 'node:http';
+import crypto from 'node:crypto';
+
+const PORT = Number(process.env.PORT) || 4100;
+const APP_ID = process.env.FEISHU_APP_ID || 'cli_mock';
+const APP_SECRET = process.env.FEISHU_APP_SECRET || 'mock_secret';
+const TOKEN_TTL = Number(process.env.TOKEN_TTL) || 7200;
+const APP_TOKEN = 'bascnMockApp';
+
+const day = (date) => new Date(`${date}T00:00:00`).getTime();
+let clock = Date.now() - 60 * 60 * 1000;
+const tick = () => (clock = Math.max(clock + 1, Date.now()));
+
+const record = (id, fields) => {
+    const time = tick();
+    return { record_id: id, fields, created_time: time, last_modified_time: time };
+};
+
+const tables = {
+    tblProjects: [
+        record('recP001', {
+            项目名称: '企业数字化转型一期', 项目编号: 'FS-001', 状态: '进行中', 优先级: 'P0',
+            开始日期: day('2026-01-05'), 结束日期: day('2026-06-30'), 项目经理: [{ name: '张三' }], 预算: 1200000, 进度: 0.35
+        }),
+        record('recP002', {
+            项目名称: '移动端体验升级', 项目编号: 'FS-002', 状态: '规划中', 优先级: 'P1',
+            开始日期: day('2026-03-01'), 结束日期: day('2026-08-31'), 项目经理: [{ name: '李四' }], 预算: 450000, 进度: 0
+        })
+    ],
+    tblTasks: [
+        record('recT001', {
+            所属项目: { link_record_ids: ['recP001'] }, 任务名称: [{ type: 'text', text: '现状调研' }], 状态: '已完成',
+            开始日期: day('2026-01-05'), 结束日期: day('2026-01-31'), 进度: 1
+        }),
+        record('recT002', {
+            所属项目: { link_record_ids: ['recP001'] }, 任务名称: [{ type: 'text', text: '架构设计' }], 状态: '进行中',
+            开始日期: day('2026-02-01'), 结束日期: day('2026-03-15'), 进度: 0.4
+        }),
+        record('recT003', {
+            所属项目: 'FS-002', 任务名称: [{ type: 'text', text: '交互原型' }], 状态: '规划中',
+            开始日期: day('2026-03-01'), 结束日期: day('2026-03-31'), 进度: 0
+        })
+    ],
+    tblMembers: [
+        record('recM001', { 姓名: '王五', 角色: '前端开发', 所属团队: '前端团队', 邮箱: 'wangwu@example.com', 可用率: 80 })
+    ],
+    tblBays: [
+        record('recB001', { 名称: 'Bay-FS-01', 尺寸: 'L', 状态: '空闲', 健康度: 92, 上次维保: day('2026-01-10'), 下次维保: day('2026-04-10') })
+    ]
+};
+
+const tokens = new Map(); // token -> expiresAt
+
+const send = (res, status, body) => {
+    res.writeHead(status, {
+        'Content-Type': 'application/json; charset=utf-8',
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization'
+    });
+    res.end(body === undefined ? undefined : JSON.stringify(body));
+};
+
+const readBody = (req) =>
+    new Promise((resolve, reject) => {
+        const chunks = [];
+        req.on('data', (chunk) => chunks.push(chunk));
+        req.on('end', () => {
+            try {
+                resolve(chunks.length ? JSON.parse(Buffer.concat(chunks).toString('utf8')) : {});
+            } catch (error) {
+                reject(error);
+            }
+        });
+        req.on('error', reject);
+    });
+
+const checkToken = (req) => {
+    const token = (req.headers.authorization || '').replace(/^Bearer /, '');
+    const expiresAt = tokens.get(token);
+    if (!expiresAt) return { code: 99991661, msg: 'Missing access token for authorization' };
+    if (expiresAt < Date.now()) return { code: 99991663, msg: 'tenant access token expired' };
+    return null;
+};
+
+// 只支持同步用到的条件：修改时间字段 isGreater ExactDate
+const matchesFilter = (item, filter) => {
+    if (!filter || !Array.isArray(filter.conditions)) return true;
+    return filter.conditions.every((condition) => {
+        if (condition.operator === 'isGreater') return item.last_modified_time > Number(condition.value?.[1]);
+        return true;
+    });
+};
+
+const searchRecords = (tableId, url, body) => {
+    const pageSize = Math.min(Number(url.searchParams.get('page_size')) || 20, 500);
+    const offset = Number(url.searchParams.get('page_token')) || 0;
+    const items = tables[tableId].filter((item) => matchesFilter(item, body.filter));
+    const page = items.slice(offset, offset + pageSize).map((item) => ({
+        record_id: item.record_id,
+        fields: item.fields,
+        ...(body.automatic_fields ? { created_time: item.created_time, last_modified_time: item.last_modified_time } : {})
+    }));
+    const hasMore = offset + pageSize < items.length;
+    return { items: page, has_more: hasMore, page_token: hasMore ? String(offset + pageSize) : undefined, total: items.length };
+};
+
+const updateRecord = (tableId, recordId, fields) => {
+    const item = tables[tableId].find((r) => r.record_id === recordId);
+    if (!item) return null;
+    Object.entries(fields || {}).forEach(([name, value]) => {
+        if (value === null) delete item.fields[name];
+        else item.fields[name] = value;
+    });
+    item.last_modified_time = tick();
+    return item;
+};
+
+const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+    if (req.method === 'OPTIONS') return send(res, 204);
+
+    try {
+        if (req.method === 'POST' && url.pathname === '/open-apis/auth/v3/tenant_access_token/internal') {
+            const { app_id: appId, app_secret: appSecret } = await readBody(req);
+            if (appId !== APP_ID || appSecret !== APP_SECRET) {
+                return send(res, 200, { code: 10014, msg: 'app secret invalid' });
+            }
+            const token = `t-${crypto.randomBytes(12).toString('hex')}`;
+            tokens.set(token, Date.now() + TOKEN_TTL * 1000);
+            return send(res, 200, { code: 0, msg: 'ok', tenant_access_token: token, expire: TOKEN_TTL });
+        }
+
+        const recordsMatch = url.pathname.match(/^\/open-apis\/bitable\/v1\/apps\/([^/]+)\/tables\/([^/]+)\/records\/(search|batch_update)$/);
+        if (req.method === 'POST' && recordsMatch) {
+            const tokenError = checkToken(req);
+            if (tokenError) return send(res, 200, tokenError);
+
+            const [, appToken, tableId, action] = recordsMatch;
+            if (appToken !== APP_TOKEN) return send(res, 200, { code: 91402, msg: 'NOTEXIST' });
+            if (!tables[tableId]) return send(res, 200, { code: 1254004, msg: 'WrongTableId' });
+
+            const body = await readBody(req);
+            if (action === 'search') return send(res, 200, { code: 0, msg: 'success', data: searchRecords(tableId, url, body) });
+
+            if (!Array.isArray(body.records) || body.records.length > 500) {
+                return send(res, 200, { code: 1254001, msg: 'WrongRequestBody' });
+            }
+            const updated = body.records.map((r) => updateRecord(tableId, r.record_id, r.fields));
+            if (updated.some((r) => !r)) return send(res, 200, { code: 1254043, msg: 'RecordIdNotFound' });
+            return send(res, 200, { code: 0, msg: 'success', data: { records: updated } });
+        }
+
+        const mockMatch = url.pathname.match(/^\/mock\/tables\/([^/]+)\/records\/([^/]+)$/);
+        if (req.method === 'POST' && mockMatch) {
+            const updated = tables[mockMatch[1]] && updateRecord(mockMatch[1], mockMatch[2], (await readBody(req)).fields);
+            return updated ? send(res, 200, updated) : send(res, 404, { error: 'Not found' });
+        }
+
+        if (req.method === 'GET' && url.pathname === '/mock/tables') return send(res, 200, tables);
+
+        send(res, 404, { code: 404, msg: 'Not found' });
+    } catch (error) {
+        console.error('[feishu-mock]', error);
+        send(res, 400, { code: 1254001, msg: error.message });
+    }
+});
+
+server.listen(PORT, () => {
+    console.log(`Feishu mock listening on http://localhost:${PORT} (app_id ${APP_ID}, app_token ${APP_TOKEN})`);
+});
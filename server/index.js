@@ -0,0 +1,461 @@
+/**
+ * Visorq 本地存储服务
+ *
+ * 用 SQLite 文件模拟生产后端，供 REST 存储适配器（src/services/storage/restAdapter.ts）使用。
+ *
+ * GET  /api/health
+ * POST /api/auth/login               -> { user, token, expiresAt }（REST 认证提供方使用）
+ * GET  /api/collections/:collection  -> StoredEntity[]
+ * POST /api/entities/batch           -> { saved, conflicts, rejected }
+ * POST /api/feishu/open-apis/bitable/v1/apps/:app_token/tables/:table_id/records/(search|batch_update)
+ *                                    -> 飞书开放平台原始响应（代为获取租户令牌，需 settings:manage）
+ *
+ * 实体接口要求 Authorization: Bearer <token>（登录时签发的 HMAC 签名会话令牌），
+ * 写入按账号角色的权限逐条校验，无权限的变更放入 rejected 返回、不会写入。
+ * 审计日志（audit-storage/changeLog）只允许新增条目，修改与删除一律拒绝。
+ *
+ * 环境变量：
+ * - PORT（默认 4000）、DB_FILE（默认 server/data/visorq.db）、ADMIN_PASSWORD（首次启动创建 admin 账号）
+ * - AUTH_SECRET：会话令牌签名密钥，未设置时每次启动随机生成（重启后需重新登录）
+ * - SESSION_TTL_HOURS：会话有效期（默认 12 小时）
+ * - CORS_ORIGIN：允许跨域访问的前端地址，多个以逗号分隔（默认 http://localhost:5173）
+ * - FEISHU_APP_ID / FEISHU_APP_SECRET：飞书自建应用凭证，仅保存在服务端；FEISHU_API_BASE 默认 https://open.feishu.cn
+ *
+ * 添加账号：node index.js add-user <username> <password> <role> [name] [memberId]
+ */
+import http from 'node:http';
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import Database from 'better-sqlite3';
+
+const PORT = Number(process.env.PORT) || 4000;
+const DB_FILE = process.env.DB_FILE || path.join(path.dirname(fileURLToPath(import.meta.url)), 'data', 'visorq.db');
+const AUTH_SECRET = process.env.AUTH_SECRET || crypto.randomBytes(32).toString('hex');
+const SESSION_TTL_MS = (Number(process.env.SESSION_TTL_HOURS) || 12) * 60 * 60 * 1000;
+const CORS_ORIGINS = (process.env.CORS_ORIGIN || 'http://localhost:5173').split(',').map((origin) => origin.trim()).filter(Boolean);
+
+fs.mkdirSync(path.dirname(DB_FILE), { recursive: true });
+const db = new Database(DB_FILE);
+db.pragma('journal_mode = WAL');
+db.exec(`
+    CREATE TABLE IF NOT EXISTS entities (
+        collection TEXT NOT NULL,
+        id TEXT NOT NULL,
+        data TEXT,
+        version INTEGER NOT NULL,
+        updated_at TEXT NOT NULL,
+        deleted INTEGER NOT NULL DEFAULT 0,
+        PRIMARY KEY (collection, id)
+    );
+    CREATE TABLE IF NOT EXISTS users (
+        username TEXT PRIMARY KEY,
+        password_hash TEXT NOT NULL,
+        salt TEXT NOT NULL,
+        role TEXT NOT NULL,
+        name TEXT,
+        email TEXT,
+        member_id TEXT
+    );
+`);
+
+const ROLES = ['admin', 'pmo', 'manager', 'user', 'readonly'];
+
+const hashPassword = (password, salt) => crypto.scryptSync(password, salt, 64).toString('hex');
+
+const insertUser = db.prepare(`
+    INSERT OR REPLACE INTO users (username, password_hash, salt, role, name, email, member_id)
+    VALUES (@username, @passwordHash, @salt, @role, @name, @email, @memberId)
+`);
+const selectUser = db.prepare('SELECT * FROM users WHERE username = ?');
+
+const addUser = ({ username, password, role, name = null, email = null, memberId = null }) => {
+    if (!ROLES.includes(role)) throw new Error(`role must be one of ${ROLES.join(', ')}`);
+    const salt = crypto.randomBytes(16).toString('hex');
+    insertUser.run({ username, passwordHash: hashPassword(password, salt), salt, role, name, email, memberId });
+};
+
+const [command, ...args] = process.argv.slice(2);
+if (command === 'add-user') {
+    const [username, password, role, name, memberId] = args;
+    if (!username || !password || !role) {
+        console.error('Usage: node index.js add-user <username> <password> <role> [name] [memberId]');
+        process.exit(1);
+    }
+    addUser({ username, password, role, name, memberId });
+    console.log(`User ${username} (${role}) saved`);
+    process.exit(0);
+}
+
+if (db.prepare('SELECT COUNT(*) AS count FROM users').get().count === 0) {
+    const password = process.env.ADMIN_PASSWORD || crypto.randomBytes(9).toString('base64url');
+    addUser({ username: 'admin', password, role: 'admin', name: 'Administrator' });
+    console.log(`Created initial account admin / ${process.env.ADMIN_PASSWORD ? '(ADMIN_PASSWORD)' : password}`);
+}
+
+const toUser = (row) => ({
+    id: `u-${row.username}`,
+    username: row.username,
+    role: row.role,
+    name: row.name || row.username,
+    email: row.email || undefined,
+    memberId: row.member_id || undefined
+});
+
+const authenticate = (username, password) => {
+    const row = typeof username === 'string' && typeof password === 'string' ? selectUser.get(username.trim()) : undefined;
+    if (!row) return null;
+
+    const expected = Buffer.from(row.password_hash, 'hex');
+    const actual = Buffer.from(hashPassword(password, row.salt), 'hex');
+    if (!crypto.timingSafeEqual(expected, actual)) return null;
+
+    return toUser(row);
+};
+
+// ---------- 会话令牌 ----------
+
+const sign = (payload) => crypto.createHmac('sha256', AUTH_SECRET).update(payload).digest('base64url');
+
+/**
+ * 签发会话令牌：base64url(JSON{ sub, exp }).签名
+ */
+const issueToken = (username) => {
+    const expiresAt = Date.now() + SESSION_TTL_MS;
+    const payload = Buffer.from(JSON.stringify({ sub: username, exp: expiresAt })).toString('base64url');
+    return { token: `${payload}.${sign(payload)}`, expiresAt: new Date(expiresAt).toISOString() };
+};
+
+/**
+ * 校验请求携带的令牌，返回当前账号（角色以数据库为准，修改角色后立即生效）
+ */
+const getSessionUser = (req) => {
+    const match = (req.headers.authorization || '').match(/^Bearer (.+)$/);
+    if (!match) return null;
+
+    const [payload, signature] = match[1].split('.');
+    if (!payload || !signature) return null;
+    const expected = Buffer.from(sign(payload));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) return null;
+
+    try {
+        const { sub, exp } = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+        if (typeof exp !== 'number' || exp < Date.now()) return null;
+        const row = selectUser.get(sub);
+        return row ? toUser(row) : null;
+    } catch {
+        return null;
+    }
+};
+
+// ---------- 权限（与 src/utils/permissions.ts 保持一致） ----------
+
+const ROLE_PERMISSIONS = {
+    admin: [
+        'project:create', 'project:edit', 'project:delete', 'task:edit',
+        'changeRequest:submit', 'changeRequest:approve', 'requirement:manage', 'workflow:approve',
+        'resource:manage', 'environment:manage', 'environment:book', 'bay:book',
+        'maintenance:request', 'maintenance:approve', 'simulation:manage', 'settings:manage',
+        'role:switch', 'audit:view', 'escalation:handle'
+    ],
+    pmo: [
+        'project:create', 'project:edit', 'project:delete', 'task:edit',
+        'changeRequest:submit', 'changeRequest:approve', 'requirement:manage', 'workflow:approve',
+        'resource:manage', 'environment:manage', 'environment:book', 'bay:book',
+        'maintenance:request', 'maintenance:approve', 'simulation:manage', 'settings:manage',
+        'audit:view', 'escalation:handle'
+    ],
+    manager: [
+        'project:create', 'project:edit', 'task:edit',
+        'changeRequest:submit', 'changeRequest:approve', 'requirement:manage', 'workflow:approve',
+        'environment:book', 'bay:book', 'maintenance:request'
+    ],
+    user: [
+        'task:edit', 'changeRequest:submit', 'environment:book', 'bay:book', 'maintenance:request'
+    ],
+    readonly: []
+};
+
+const PORTFOLIO_ROLES = ['admin', 'pmo'];
+
+const PROJECT_EDIT_PERMISSIONS = [
+    'project:edit', 'task:edit', 'changeRequest:submit', 'changeRequest:approve', 'requirement:manage',
+    'environment:book', 'bay:book', 'workflow:approve', 'escalation:handle'
+];
+
+// 审计日志只追加：能修改数据的权限都会产生审计记录，可写入新条目；已有条目不能修改或删除
+const AUDIT_COLLECTION = 'audit-storage/changeLog';
+const AUDIT_APPEND_PERMISSIONS = ROLE_PERMISSIONS.admin.filter((permission) => !['role:switch', 'audit:view'].includes(permission));
+
+// 集合 -> 写入所需权限（具备其一即可）；未列出的集合（提醒、store 文档等）要求角色至少具备一项权限
+const COLLECTION_PERMISSIONS = {
+    [AUDIT_COLLECTION]: AUDIT_APPEND_PERMISSIONS,
+    'visorq-storage/programs': ['project:create'],
+    'visorq-storage/lessonsLearned': ['project:edit'],
+    'visorq-storage/factorDefinitions': ['settings:manage'],
+    'visorq-storage/factorWeightSets': ['settings:manage'],
+    'visorq-storage/projectTemplates': ['settings:manage'],
+    'visorq-storage/keyTaskDefinitions': ['settings:manage'],
+    'visorq-storage/projectTypeDefinitions': ['settings:manage'],
+    'visorq-storage/workingCalendars': ['settings:manage'],
+    'visorq-storage/calendarExceptions': ['settings:manage'],
+    'visorq-storage/resourcePool': ['resource:manage'],
+    'visorq-storage/physicalBays': ['resource:manage', 'bay:book', 'maintenance:request', 'maintenance:approve'],
+    'visorq-storage/physicalMachines': ['resource:manage', 'bay:book', 'maintenance:request', 'maintenance:approve'],
+    'visorq-storage/bayMachineCompatibility': ['resource:manage'],
+    'visorq-storage/softwareBaselines': ['resource:manage'],
+    'visorq-storage/rolloutCampaigns': ['resource:manage'],
+    'pmo-storage/changeRequests': ['changeRequest:submit', 'changeRequest:approve', 'project:edit'],
+    'pmo-storage/environmentResources': ['environment:manage', 'environment:book'],
+    'pmo-storage/requirements': ['requirement:manage'],
+    'pmo-storage/simulations': ['simulation:manage']
+};
+
+const PROJECTS_COLLECTION = 'visorq-storage/projects';
+
+const can = (user, permission) => (ROLE_PERMISSIONS[user.role] || []).includes(permission);
+
+const isProjectMember = (user, project) =>
+    !!project && (project.managerId === user.id ||
+        (!!user.memberId && (project.pdsgMembers || []).some((member) => member.id === user.memberId)));
+
+/**
+ * 项目以整体实体存储，无法区分修改了哪些字段：新建需 project:create，删除需 project:delete，
+ * 修改需任一项目级权限；非 PMO 角色还须是项目成员（跨项目审批的 workflow:approve 除外）
+ */
+const canWriteProject = (user, change, current) => {
+    if (!current || current.deleted) return can(user, 'project:create');
+
+    const permissions = change.deleted ? ['project:delete'] : PROJECT_EDIT_PERMISSIONS;
+    if (!permissions.some((permission) => can(user, permission))) return false;
+    if (PORTFOLIO_ROLES.includes(user.role)) return true;
+    if (!change.deleted && can(user, 'workflow:approve')) return true;
+    return isProjectMember(user, current.data);
+};
+
+const canWrite = (user, change, current) => {
+    if (change.collection === PROJECTS_COLLECTION) return canWriteProject(user, change, current);
+    if (change.collection === AUDIT_COLLECTION && (current || change.deleted)) return false;
+    const required = COLLECTION_PERMISSIONS[change.collection];
+    return required
+        ? required.some((permission) => can(user, permission))
+        : (ROLE_PERMISSIONS[user.role] || []).length > 0;
+};
+
+const selectCollection = db.prepare('SELECT * FROM entities WHERE collection = ?');
+const selectEntity = db.prepare('SELECT * FROM entities WHERE collection = ? AND id = ?');
+const upsertEntity = db.prepare(`
+    INSERT INTO entities (collection, id, data, version, updated_at, deleted)
+    VALUES (@collection, @id, @data, @version, @updatedAt, @deleted)
+    ON CONFLICT (collection, id) DO UPDATE SET
+        data = excluded.data,
+        version = excluded.version,
+        updated_at = excluded.updated_at,
+        deleted = excluded.deleted
+`);
+
+const toEntity = (row) => ({
+    collection: row.collection,
+    id: row.id,
+    data: row.data === null ? null : JSON.parse(row.data),
+    version: row.version,
+    updatedAt: row.updated_at,
+    deleted: row.deleted ? true : undefined
+});
+
+/**
+ * 与前端 applyVersionedChanges 相同的规则：baseVersion 与当前版本一致才写入，否则返回冲突。
+ * 当前账号无权写入的变更放入 rejected。整批在一个事务内完成，避免并发请求交错。
+ */
+const saveEntities = db.transaction((user, changes) => {
+    const now = new Date().toISOString();
+    const saved = [];
+    const conflicts = [];
+    const rejected = [];
+
+    changes.forEach((change) => {
+        const row = selectEntity.get(change.collection, change.id);
+        const current = row ? toEntity(row) : null;
+        const currentVersion = current ? current.version : 0;
+
+        if (!canWrite(user, change, current)) {
+            rejected.push(change);
+            return;
+        }
+
+        if (currentVersion !== change.baseVersion) {
+            conflicts.push({ change, current });
+            return;
+        }
+
+        const entity = {
+            collection: change.collection,
+            id: change.id,
+            data: change.deleted ? (current ? current.data : null) : change.data,
+            version: currentVersion + 1,
+            updatedAt: now,
+            deleted: change.deleted || undefined
+        };
+        upsertEntity.run({
+            collection: entity.collection,
+            id: entity.id,
+            data: entity.data === undefined ? null : JSON.stringify(entity.data),
+            version: entity.version,
+            updatedAt: now,
+            deleted: entity.deleted ? 1 : 0
+        });
+        saved.push(entity);
+    });
+
+    return { saved, conflicts, rejected };
+});
+
+// ---------- 飞书开放平台代理 ----------
+
+// App Secret 只保存在服务端：浏览器经此代理读写多维表格，租户令牌由服务端获取与缓存
+const FEISHU_APP_ID = process.env.FEISHU_APP_ID;
+const FEISHU_APP_SECRET = process.env.FEISHU_APP_SECRET;
+const FEISHU_API_BASE = (process.env.FEISHU_API_BASE || 'https://open.feishu.cn').replace(/\/$/, '');
+// 令牌无效 / 过期
+const FEISHU_TOKEN_ERROR_CODES = [99991661, 99991663, 99991668];
+// 只转发同步用到的记录接口
+const FEISHU_PROXY_PATH = /^\/api\/feishu(\/open-apis\/bitable\/v1\/apps\/[\w-]+\/tables\/[\w-]+\/records\/(?:search|batch_update))$/;
+
+let feishuToken = null;
+
+const postFeishu = async (pathWithQuery, body, accessToken) => {
+    const response = await fetch(`${FEISHU_API_BASE}${pathWithQuery}`, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {})
+        },
+        body: JSON.stringify(body)
+    });
+    return { status: response.status, result: await response.json().catch(() => null) };
+};
+
+/**
+ * 获取租户令牌（提前一分钟刷新）；失败时返回开放平台的错误响应
+ */
+const getFeishuToken = async (forceRefresh = false) => {
+    if (!forceRefresh && feishuToken && feishuToken.expiresAt > Date.now()) return { value: feishuToken.value };
+
+    const { result } = await postFeishu('/open-apis/auth/v3/tenant_access_token/internal', {
+        app_id: FEISHU_APP_ID,
+        app_secret: FEISHU_APP_SECRET
+    });
+    if (!result || result.code !== 0 || !result.tenant_access_token) {
+        return { failure: result || { code: -1, msg: 'Invalid token response' } };
+    }
+    feishuToken = { value: result.tenant_access_token, expiresAt: Date.now() + ((result.expire ?? 7200) - 60) * 1000 };
+    return { value: feishuToken.value };
+};
+
+/**
+ * 附带租户令牌转发请求，令牌失效时刷新并重试一次；原样返回开放平台响应
+ */
+const forwardFeishu = async (pathWithQuery, body, retried = false) => {
+    const token = await getFeishuToken(retried);
+    if (token.failure) return { status: 502, result: token.failure };
+
+    const response = await postFeishu(pathWithQuery, body, token.value);
+    if (response.result && FEISHU_TOKEN_ERROR_CODES.includes(response.result.code) && !retried) {
+        return forwardFeishu(pathWithQuery, body, true);
+    }
+    return response;
+};
+
+const isValidChange = (change) =>
+    change && typeof change.collection === 'string' && typeof change.id === 'string' && Number.isInteger(change.baseVersion);
+
+const setCorsHeaders = (req, res) => {
+    const origin = req.headers.origin;
+    res.setHeader('Vary', 'Origin');
+    if (origin && CORS_ORIGINS.includes(origin)) {
+        res.setHeader('Access-Control-Allow-Origin', origin);
+        res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+        res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+    }
+};
+
+const send = (res, status, body) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(body === undefined ? undefined : JSON.stringify(body));
+};
+
+const readBody = (req) =>
+    new Promise((resolve, reject) => {
+        const chunks = [];
+        req.on('data', (chunk) => chunks.push(chunk));
+        req.on('end', () => {
+            try {
+                resolve(chunks.length ? JSON.parse(Buffer.concat(chunks).toString('utf8')) : {});
+            } catch (error) {
+                reject(error);
+            }
+        });
+        req.on('error', reject);
+    });
+
+const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+
+    setCorsHeaders(req, res);
+    if (req.method === 'OPTIONS') return send(res, 204);
+
+    try {
+        if (req.method === 'GET' && url.pathname === '/api/health') {
+            return send(res, 200, { status: 'ok' });
+        }
+
+        if (req.method === 'POST' && url.pathname === '/api/auth/login') {
+            const { username, password } = await readBody(req);
+            const user = authenticate(username, password);
+            return user ? send(res, 200, { user, ...issueToken(user.username) }) : send(res, 401, { error: 'Invalid username or password' });
+        }
+
+        const collectionMatch = url.pathname.match(/^\/api\/collections\/(.+)$/);
+        const isBatch = url.pathname === '/api/entities/batch';
+        const feishuMatch = url.pathname.match(FEISHU_PROXY_PATH);
+        if (!collectionMatch && !isBatch && !feishuMatch) return send(res, 404, { error: 'Not found' });
+
+        const user = getSessionUser(req);
+        if (!user) return send(res, 401, { error: 'Authentication required' });
+
+        // 飞书同步的配置与回写属于系统配置
+        if (req.method === 'POST' && feishuMatch) {
+            if (!can(user, 'settings:manage')) return send(res, 403, { error: 'Permission denied: settings:manage' });
+            if (!FEISHU_APP_ID || !FEISHU_APP_SECRET) {
+                return send(res, 503, { error: 'Feishu integration is not configured (FEISHU_APP_ID / FEISHU_APP_SECRET)' });
+            }
+            const { status, result } = await forwardFeishu(`${feishuMatch[1]}${url.search}`, await readBody(req));
+            return send(res, status, result ?? { error: 'Invalid response from Feishu' });
+        }
+
+        if (req.method === 'GET' && collectionMatch) {
+            const collection = decodeURIComponent(collectionMatch[1]);
+            return send(res, 200, selectCollection.all(collection).map(toEntity));
+        }
+
+        if (req.method === 'POST' && isBatch) {
+            const body = await readBody(req);
+            if (!Array.isArray(body.changes) || !body.changes.every(isValidChange)) {
+                return send(res, 400, { error: 'changes must be an array of { collection, id, baseVersion }' });
+            }
+            return send(res, 200, saveEntities(user, body.changes));
+        }
+
+        send(res, 404, { error: 'Not found' });
+    } catch (error) {
+        console.error('[storage-server]', error);
+        send(res, error instanceof SyntaxError ? 400 : 500, { error: error.message });
+    }
+});
+
+server.listen(PORT, () => {
+    console.log(`Visorq storage server listening on http://localhost:${PORT}/api (db: ${DB_FILE})`);
+    if (!process.env.AUTH_SECRET) console.warn('AUTH_SECRET is not set; sessions will not survive a restart');
+});
@@ -4,6 +4,7 @@ import Layout from './components/Layout';
 import ErrorBoundary from './components/ErrorBoundary';
 import KeyboardShortcutsHelp from './components/KeyboardShortcutsHelp';
 import PerformanceMonitor from './components/PerformanceMonitor';
+import { useUser, useHasHydrated } from './store/useStore';
 
 // Eager load critical routes
 import Login from './pages/Login';
@@ -28,10 +29,13 @@ const TemplateManager = lazy(() => import('./pages/TemplateManager'));
 const BatchImport = lazy(() => import('./pages/BatchImport'));
 const DeliveryEfficiency = lazy(() => import('./pages/DeliveryEfficiency'));
 const RiskManagement = lazy(() => import('./pages/RiskManagement'));
+const RaidLog = lazy(() => import('./pages/RaidLog'));
 const EVMAnalysis = lazy(() => import('./pages/EVMAnalysis'));
 const EnvironmentManagement = lazy(() => import('./pages/EnvironmentManagement'));
 const RequirementTraceabilityMatrix = lazy(() => import('./pages/RequirementTraceabilityMatrix'));
 const BayMachineResource = lazy(() => import('./pages/BayMachineResource'));
+const AuditTrail = lazy(() => import('./pages/AuditTrail'));
+const LessonsLearned = lazy(() => import('./pages/LessonsLearned'));
 
 import SkeletonLoader from './components/SkeletonLoader';
 
@@ -42,14 +46,22 @@ const PageLoader = () => (
   </div>
 );
 
-// Layout wrapper with Suspense (without protection)
-const LayoutRoute: React.FC<{ children: React.ReactNode }> = ({ children }) => (
-  <Layout>
-    <Suspense fallback={<PageLoader />}>
-      {children}
-    </Suspense>
-  </Layout>
-);
+// Layout wrapper with Suspense; requires a signed-in user once persisted state has loaded
+const LayoutRoute: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const user = useUser();
+  const hasHydrated = useHasHydrated();
+
+  if (!hasHydrated) return <PageLoader />;
+  if (!user) return <Navigate to="/login" replace />;
+
+  return (
+    <Layout>
+      <Suspense fallback={<PageLoader />}>
+        {children}
+      </Suspense>
+    </Layout>
+  );
+};
 
 function App() {
   return (
@@ -60,12 +72,14 @@ function App() {
         <Routes>
           {/* Public Routes */}
           <Route path="/login" element={<Login />} />
+
+          {/* Protected Routes */}
           <Route path="/pmo" element={<LayoutRoute><PMODashboard /></LayoutRoute>} />
           <Route path="/pmo/monitor" element={<LayoutRoute><ProjectMonitorCenter /></LayoutRoute>} />
           <Route path="/pmo/dependencies" element={<LayoutRoute><DependencyAnalysis /></LayoutRoute>} />
+          <Route path="/pmo/audit" element={<LayoutRoute><AuditTrail /></LayoutRoute>} />
+          <Route path="/pmo/lessons" element={<LayoutRoute><LessonsLearned /></LayoutRoute>} />
           <Route path="/simulation" element={<LayoutRoute><WhatIfSimulation /></LayoutRoute>} />
-
-          {/* Protected Routes */}
           <Route path="/" element={<LayoutRoute><Home /></LayoutRoute>} />
           <Route path="/dashboard" element={<LayoutRoute><Dashboard /></LayoutRoute>} />
 
@@ -73,6 +87,7 @@ function App() {
           <Route path="/projects" element={<LayoutRoute><Projects /></LayoutRoute>} />
           <Route path="/projects/:projectId" element={<LayoutRoute><ProjectDetailEnhanced /></LayoutRoute>} />
           <Route path="/projects/:projectId/risks" element={<LayoutRoute><RiskManagement /></LayoutRoute>} />
+          <Route path="/projects/:projectId/raid" element={<LayoutRoute><RaidLog /></LayoutRoute>} />
           <Route path="/projects/templates" element={<LayoutRoute><TemplateManager /></LayoutRoute>} />
           <Route path="/projects/import" element={<LayoutRoute><BatchImport /></LayoutRoute>} />
 
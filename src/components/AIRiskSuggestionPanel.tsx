@@ -1,26 +1,29 @@
 import React, { useMemo } from 'react';
 import { motion } from 'framer-motion';
-import { Sparkles, TrendingUp, AlertCircle, CheckCircle, Plus } from 'lucide-react';
-import type { Project, Risk } from '../types';
+import { Sparkles, TrendingUp, AlertCircle, CheckCircle, Plus, History } from 'lucide-react';
+import type { LessonLearned, Project, Risk } from '../types';
 import { suggestRisks, getRiskInsights } from '../utils/aiRiskSuggestion';
+import type { RiskTemplate } from '../utils/riskTemplates';
 import { getRiskCategoryInfo } from '../utils/riskManagement';
 
 interface AIRiskSuggestionPanelProps {
     project: Project;
     allProjects: Project[];
     existingRisks: Risk[];
-    onAcceptSuggestion: (templateId: string) => void;
+    lessons?: LessonLearned[];
+    onAcceptSuggestion: (template: RiskTemplate) => void;
 }
 
 const AIRiskSuggestionPanel: React.FC<AIRiskSuggestionPanelProps> = ({
     project,
     allProjects,
     existingRisks,
+    lessons = [],
     onAcceptSuggestion,
 }) => {
     const suggestions = useMemo(() => {
-        return suggestRisks(project, allProjects);
-    }, [project, allProjects]);
+        return suggestRisks(project, allProjects, lessons);
+    }, [project, allProjects, lessons]);
 
     const insights = useMemo(() => {
         return getRiskInsights(existingRisks);
@@ -111,9 +114,15 @@ const AIRiskSuggestionPanel: React.FC<AIRiskSuggestionPanelProps> = ({
                                             >
                                                 置信度: {getConfidenceLabel(suggestion.confidence)}
                                             </span>
+                                            {suggestion.historical && (
+                                                <span className="flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-200">
+                                                    <History size={12} />
+                                                    同类项目已发生
+                                                </span>
+                                            )}
                                         </div>
                                         <button
-                                            onClick={() => onAcceptSuggestion(suggestion.template.id)}
+                                            onClick={() => onAcceptSuggestion(suggestion.template)}
                                             className="flex items-center gap-1 px-3 py-1.5 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors opacity-0 group-hover:opacity-100"
                                         >
                                             <Plus size={14} />
@@ -182,7 +191,7 @@ const AIRiskSuggestionPanel: React.FC<AIRiskSuggestionPanelProps> = ({
                 {suggestions.length > 0 && (
                     <div className="mt-4 p-3 bg-slate-50 dark:bg-slate-900/50 rounded-lg">
                         <p className="text-xs text-slate-600 dark:text-slate-400">
-                            💡 <strong>提示:</strong> AI 建议基于项目特征、历史数据和行业最佳实践生成。
+                            💡 <strong>提示:</strong> AI 建议基于项目特征、同类型项目实际发生的风险与经验教训以及行业最佳实践生成。
                             您可以根据实际情况选择性采纳，并进一步自定义风险详情。
                         </p>
                     </div>
@@ -11,7 +11,7 @@ interface AddEnvironmentModalProps {
         type: EnvironmentType;
         status: EnvironmentStatus;
         description?: string;
-        capacity?: number;
+        maxConcurrentUsers?: number;
         location?: string;
         tags?: string[];
     }) => void;
@@ -76,7 +76,7 @@ const AddEnvironmentModal: React.FC<AddEnvironmentModalProps> = ({ isOpen, onClo
             type: formData.type,
             status: formData.status,
             description: formData.description.trim() || undefined,
-            capacity: formData.capacity || undefined,
+            maxConcurrentUsers: formData.capacity || undefined,
             location: formData.location.trim() || undefined,
             tags: tags.length > 0 ? tags : undefined,
         });
@@ -219,7 +219,7 @@ const AddEnvironmentModal: React.FC<AddEnvironmentModalProps> = ({ isOpen, onClo
                         {/* Capacity */}
                         <div>
                             <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
-                                容量
+                                最大并发预约数
                             </label>
                             <input
                                 type="number"
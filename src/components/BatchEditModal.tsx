@@ -2,6 +2,7 @@ import React, { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { X, Check, Edit3, AlertCircle } from 'lucide-react';
 import type { Project } from '../types';
+import { undoHistory } from '../services/undoHistory';
 
 interface BatchEditModalProps {
     isOpen: boolean;
@@ -47,7 +48,8 @@ const BatchEditModal: React.FC<BatchEditModalProps> = ({
         }
 
         if (Object.keys(updates).length > 0) {
-            onBatchUpdate(updates);
+            // 多个项目的更新作为一步撤销
+            undoHistory.transaction(`批量编辑 ${selectedProjects.length} 个项目`, () => onBatchUpdate(updates));
             onClose();
         }
     };
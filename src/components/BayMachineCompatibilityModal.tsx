@@ -0,0 +1,207 @@
+import React, { useMemo, useState } from 'react';
+import { X, Plus, Trash2, Pencil, Check } from 'lucide-react';
+import { Button, Badge } from './ui';
+import { useStore, useBayMachineCompatibility } from '../store/useStore';
+import { BAY_SIZES, getCompatibleBaySizes } from '../utils/bayMachineCompatibility';
+import type { BayMachineCompatibilityRule, BaySize, MachineResource } from '../types';
+
+interface BayMachineCompatibilityModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    machines: MachineResource[];
+    canEdit: boolean;
+}
+
+interface RuleDraft {
+    name: string;
+    baySizes: BaySize[];
+    machineModels: string;
+    platforms: string;
+    softwareVersions: string;
+    notes: string;
+}
+
+const EMPTY_DRAFT: RuleDraft = { name: '', baySizes: ['L'], machineModels: '', platforms: '', softwareVersions: '', notes: '' };
+
+const splitList = (value: string) => value.split(/[,，]/).map(v => v.trim()).filter(Boolean);
+
+const toDraft = (rule: BayMachineCompatibilityRule): RuleDraft => ({
+    name: rule.name,
+    baySizes: rule.baySizes,
+    machineModels: (rule.machineModels || []).join(', '),
+    platforms: (rule.platforms || []).join(', '),
+    softwareVersions: (rule.softwareVersions || []).join(', '),
+    notes: rule.notes || ''
+});
+
+const inputClass = 'w-full bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-xl px-3 py-2 text-xs outline-none focus:ring-2 focus:ring-blue-500';
+
+/**
+ * Bay–机器兼容性矩阵配置：规则按 Bay 尺寸 × 机型/平台 × 软件版本匹配，任一规则命中即兼容
+ */
+const BayMachineCompatibilityModal: React.FC<BayMachineCompatibilityModalProps> = ({ isOpen, onClose, machines, canEdit }) => {
+    const rules = useBayMachineCompatibility();
+    const { addCompatibilityRule, updateCompatibilityRule, deleteCompatibilityRule } = useStore();
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [draft, setDraft] = useState<RuleDraft>(EMPTY_DRAFT);
+
+    // 按当前机器（及其软件版本）展开的兼容矩阵
+    const matrix = useMemo(() => {
+        const rows = new Map<string, { model: string; version?: string; sizes: BaySize[] }>();
+        machines.forEach(m => {
+            const key = `${m.model}|${m.softwareVersion || ''}`;
+            if (!rows.has(key)) rows.set(key, { model: m.model, version: m.softwareVersion, sizes: getCompatibleBaySizes(m, rules) });
+        });
+        return Array.from(rows.values()).sort((a, b) => a.model.localeCompare(b.model));
+    }, [machines, rules]);
+
+    if (!isOpen) return null;
+
+    const startEdit = (rule?: BayMachineCompatibilityRule) => {
+        setEditingId(rule ? rule.id : 'new');
+        setDraft(rule ? toDraft(rule) : EMPTY_DRAFT);
+    };
+
+    const handleSave = () => {
+        if (!draft.name.trim() || draft.baySizes.length === 0) return;
+        const rule = {
+            name: draft.name.trim(),
+            baySizes: BAY_SIZES.filter(size => draft.baySizes.includes(size)),
+            machineModels: splitList(draft.machineModels),
+            platforms: splitList(draft.platforms),
+            softwareVersions: splitList(draft.softwareVersions),
+            notes: draft.notes.trim() || undefined
+        };
+        if (editingId === 'new') addCompatibilityRule(rule);
+        else if (editingId) updateCompatibilityRule(editingId, rule);
+        setEditingId(null);
+    };
+
+    const toggleSize = (size: BaySize) => setDraft({
+        ...draft,
+        baySizes: draft.baySizes.includes(size) ? draft.baySizes.filter(s => s !== size) : [...draft.baySizes, size]
+    });
+
+    return (
+        <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-md">
+            <div className="relative w-full max-w-4xl max-h-[90vh] bg-white dark:bg-slate-900 rounded-[40px] shadow-2xl overflow-hidden border border-slate-100 dark:border-slate-800 flex flex-col">
+                <div className="p-8 pb-4 flex justify-between items-center">
+                    <div>
+                        <h3 className="text-xl font-black">Bay–机器兼容性矩阵</h3>
+                        <p className="text-xs text-slate-400 font-bold mt-1">任一规则命中即可配对；机型、平台、版本留空表示不限，版本支持 V2.* 前缀匹配</p>
+                    </div>
+                    <button onClick={onClose} className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-full transition-colors"><X size={20} /></button>
+                </div>
+
+                <div className="p-8 pt-2 space-y-6 overflow-y-auto">
+                    <div className="space-y-3">
+                        {rules.length === 0 && (
+                            <p className="text-xs text-slate-400 font-bold py-4 text-center">未配置规则：任意 Bay 与机器均可配对</p>
+                        )}
+                        {rules.map(rule => editingId === rule.id ? null : (
+                            <div key={rule.id} className="p-4 bg-slate-50 dark:bg-slate-800/50 rounded-2xl border border-slate-100 dark:border-slate-700 flex items-start justify-between gap-4">
+                                <div className="space-y-1 text-xs">
+                                    <div className="flex items-center gap-2">
+                                        <span className="font-black text-slate-800 dark:text-slate-100">{rule.name}</span>
+                                        {rule.baySizes.map(size => <Badge key={size} variant="info" size="sm">{size} 型</Badge>)}
+                                    </div>
+                                    <div className="text-slate-500">机型: {rule.machineModels?.length ? rule.machineModels.join('、') : '不限'}</div>
+                                    <div className="text-slate-500">平台: {rule.platforms?.length ? rule.platforms.join('、') : '不限'} · 版本: {rule.softwareVersions?.length ? rule.softwareVersions.join('、') : '不限'}</div>
+                                    {rule.notes && <div className="text-slate-400 italic">{rule.notes}</div>}
+                                </div>
+                                {canEdit && (
+                                    <div className="flex gap-1 shrink-0">
+                                        <button onClick={() => startEdit(rule)} className="p-2 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg text-slate-400" title="编辑"><Pencil size={14} /></button>
+                                        <button onClick={() => deleteCompatibilityRule(rule.id)} className="p-2 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg text-red-400" title="删除"><Trash2 size={14} /></button>
+                                    </div>
+                                )}
+                            </div>
+                        ))}
+
+                        {editingId && (
+                            <div className="p-5 bg-blue-50/30 dark:bg-blue-900/10 rounded-3xl border border-blue-100 dark:border-blue-900/30 space-y-3">
+                                <div className="grid grid-cols-2 gap-3">
+                                    <div>
+                                        <label className="text-[10px] font-black text-slate-400 uppercase ml-1">规则名称 *</label>
+                                        <input className={inputClass} value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} placeholder="如: 高端机型" />
+                                    </div>
+                                    <div>
+                                        <label className="text-[10px] font-black text-slate-400 uppercase ml-1">Bay 尺寸 *</label>
+                                        <div className="flex gap-2 mt-1">
+                                            {BAY_SIZES.map(size => (
+                                                <button
+                                                    key={size}
+                                                    onClick={() => toggleSize(size)}
+                                                    className={`flex-1 py-2 rounded-xl text-xs font-black border transition-all ${draft.baySizes.includes(size) ? 'bg-blue-600 text-white border-blue-600' : 'bg-white dark:bg-slate-900 text-slate-500 border-slate-200 dark:border-slate-700'}`}
+                                                >
+                                                    {size}
+                                                </button>
+                                            ))}
+                                        </div>
+                                    </div>
+                                    <div className="col-span-2">
+                                        <label className="text-[10px] font-black text-slate-400 uppercase ml-1">机型（逗号分隔）</label>
+                                        <input className={inputClass} value={draft.machineModels} onChange={(e) => setDraft({ ...draft, machineModels: e.target.value })} placeholder="如: uCT 960+, uCT 968" list="compat-models" />
+                                        <datalist id="compat-models">
+                                            {Array.from(new Set(machines.map(m => m.model))).map(model => <option key={model} value={model} />)}
+                                        </datalist>
+                                    </div>
+                                    <div>
+                                        <label className="text-[10px] font-black text-slate-400 uppercase ml-1">平台（逗号分隔）</label>
+                                        <input className={inputClass} value={draft.platforms} onChange={(e) => setDraft({ ...draft, platforms: e.target.value })} placeholder="如: Falcon, Titan" />
+                                    </div>
+                                    <div>
+                                        <label className="text-[10px] font-black text-slate-400 uppercase ml-1">软件版本（逗号分隔）</label>
+                                        <input className={inputClass} value={draft.softwareVersions} onChange={(e) => setDraft({ ...draft, softwareVersions: e.target.value })} placeholder="如: V2.*, V3.0.1" />
+                                    </div>
+                                    <div className="col-span-2">
+                                        <label className="text-[10px] font-black text-slate-400 uppercase ml-1">备注</label>
+                                        <input className={inputClass} value={draft.notes} onChange={(e) => setDraft({ ...draft, notes: e.target.value })} />
+                                    </div>
+                                </div>
+                                <div className="flex justify-end gap-2">
+                                    <Button variant="ghost" size="sm" onClick={() => setEditingId(null)}>取消</Button>
+                                    <Button size="sm" icon={Check} disabled={!draft.name.trim() || draft.baySizes.length === 0} onClick={handleSave}>保存规则</Button>
+                                </div>
+                            </div>
+                        )}
+
+                        {canEdit && !editingId && (
+                            <Button variant="outline" size="sm" icon={Plus} onClick={() => startEdit()}>新增规则</Button>
+                        )}
+                    </div>
+
+                    <div>
+                        <h4 className="text-[10px] font-black uppercase tracking-widest text-slate-400 mb-3">当前机器兼容矩阵</h4>
+                        <table className="w-full text-xs">
+                            <thead className="text-[10px] font-black uppercase tracking-widest text-slate-400 text-left">
+                                <tr>
+                                    <th className="py-2">机型</th>
+                                    <th className="py-2">软件版本</th>
+                                    {BAY_SIZES.map(size => <th key={size} className="py-2 text-center">{size} 型 Bay</th>)}
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
+                                {matrix.map(row => (
+                                    <tr key={`${row.model}|${row.version || ''}`} className="font-bold text-slate-700 dark:text-slate-300">
+                                        <td className="py-2">{row.model}</td>
+                                        <td className="py-2 text-slate-400">{row.version || '-'}</td>
+                                        {BAY_SIZES.map(size => (
+                                            <td key={size} className="py-2 text-center">
+                                                {row.sizes.includes(size)
+                                                    ? <span className="text-emerald-500">✓</span>
+                                                    : <span className="text-slate-300">—</span>}
+                                            </td>
+                                        ))}
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default BayMachineCompatibilityModal;
@@ -1,8 +1,15 @@
-import React, { useState } from 'react';
-import { X, Calendar, AlertCircle } from 'lucide-react';
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, Calendar, AlertCircle, AlertTriangle, ArrowRight } from 'lucide-react';
 import type { EnvironmentResource } from '../types';
 import { Button } from './ui';
 import { useStore } from '../store/useStore';
+import { usePMOStore } from '../store/usePMOStore';
+import {
+    findAlternativeEnvironments,
+    getEnvironmentCapacity,
+    isBookingHolding,
+    type EnvironmentBookingCheck
+} from '../utils/environmentBooking';
 
 interface BookEnvironmentModalProps {
     isOpen: boolean;
@@ -18,7 +25,7 @@ interface BookEnvironmentModalProps {
         endDate: string;
         purpose: string;
         status: 'reserved' | 'active';
-    }) => void;
+    }) => EnvironmentBookingCheck | null | void;
 }
 
 const BookEnvironmentModal: React.FC<BookEnvironmentModalProps> = ({
@@ -28,15 +35,46 @@ const BookEnvironmentModal: React.FC<BookEnvironmentModalProps> = ({
     onBook,
 }) => {
     const { projects, user } = useStore();
+    const environmentResources = usePMOStore((state) => state.environmentResources);
     const [formData, setFormData] = useState({
         projectId: '',
         startDate: '',
         endDate: '',
         purpose: '',
     });
+    // 可改约到同类型的替代环境
+    const [targetId, setTargetId] = useState(environment?.id);
 
     const [errors, setErrors] = useState<Record<string, string>>({});
 
+    useEffect(() => {
+        setTargetId(environment?.id);
+    }, [environment?.id]);
+
+    const target = environmentResources.find((env) => env.id === targetId) || environment;
+    const selectedPriority = projects.find((p) => p.id === formData.projectId)?.priority;
+
+    // 实时校验：容量、维护窗口、冻结期与抢占
+    const check = useMemo(() => {
+        if (!target || !formData.startDate || !formData.endDate) return null;
+        return usePMOStore.getState().checkEnvironmentBooking({
+            environmentId: target.id,
+            projectId: formData.projectId,
+            startDate: formData.startDate,
+            endDate: formData.endDate,
+        });
+    }, [target, formData.projectId, formData.startDate, formData.endDate, projects]);
+
+    const alternatives = useMemo(() => {
+        if (!target || !check || check.allowed) return [];
+        return findAlternativeEnvironments(environmentResources, target, {
+            projectId: formData.projectId,
+            priority: selectedPriority,
+            startDate: formData.startDate,
+            endDate: formData.endDate,
+        });
+    }, [check, target, environmentResources, formData.projectId, formData.startDate, formData.endDate, selectedPriority]);
+
     const validate = () => {
         const newErrors: Record<string, string> = {};
 
@@ -71,7 +109,7 @@ const BookEnvironmentModal: React.FC<BookEnvironmentModalProps> = ({
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
 
-        if (!validate() || !environment) return;
+        if (!validate() || !target || (check && !check.allowed)) return;
 
         const selectedProject = projects.find((p) => p.id === formData.projectId);
         if (!selectedProject) return;
@@ -80,8 +118,8 @@ const BookEnvironmentModal: React.FC<BookEnvironmentModalProps> = ({
         const startDate = new Date(formData.startDate);
         const status = startDate <= now ? 'active' : 'reserved';
 
-        onBook({
-            environmentId: environment.id,
+        const result = onBook({
+            environmentId: target.id,
             projectId: formData.projectId,
             projectName: selectedProject.name,
             bookedBy: user?.id || 'unknown',
@@ -91,6 +129,7 @@ const BookEnvironmentModal: React.FC<BookEnvironmentModalProps> = ({
             purpose: formData.purpose.trim(),
             status,
         });
+        if (result && !result.allowed) return;
 
         // Reset form
         setFormData({
@@ -115,20 +154,9 @@ const BookEnvironmentModal: React.FC<BookEnvironmentModalProps> = ({
         }
     };
 
-    if (!isOpen || !environment) return null;
+    if (!isOpen || !environment || !target) return null;
 
-    // Check for conflicts
-    const hasConflict = environment.bookings.some((booking) => {
-        if (booking.status === 'cancelled' || booking.status === 'completed') return false;
-        if (!formData.startDate || !formData.endDate) return false;
-
-        const bookingStart = new Date(booking.startDate);
-        const bookingEnd = new Date(booking.endDate);
-        const newStart = new Date(formData.startDate);
-        const newEnd = new Date(formData.endDate);
-
-        return newStart < bookingEnd && newEnd > bookingStart;
-    });
+    const hasConflict = !!check && !check.allowed;
 
     return (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
@@ -140,7 +168,8 @@ const BookEnvironmentModal: React.FC<BookEnvironmentModalProps> = ({
                             预约环境资源
                         </h2>
                         <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">
-                            {environment.name} - {environment.type}
+                            {target.name} - {target.type}
+                            {getEnvironmentCapacity(target) > 1 && ` · 最多 ${getEnvironmentCapacity(target)} 个并发预约`}
                         </p>
                     </div>
                     <button
@@ -222,15 +251,70 @@ const BookEnvironmentModal: React.FC<BookEnvironmentModalProps> = ({
                     </div>
 
                     {/* Conflict Warning */}
-                    {hasConflict && (
+                    {hasConflict && check && (
                         <div className="flex items-start gap-2 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
                             <AlertCircle className="w-5 h-5 text-red-600 dark:text-red-400 flex-shrink-0 mt-0.5" />
-                            <div className="flex-1">
+                            <div className="flex-1 space-y-2">
                                 <p className="text-sm font-medium text-red-800 dark:text-red-200">
-                                    时间冲突
+                                    无法预约该时段
+                                </p>
+                                <ul className="text-sm text-red-700 dark:text-red-300 list-disc pl-4 space-y-1">
+                                    {check.reasons.map((reason, index) => (
+                                        <li key={index}>{reason.message}</li>
+                                    ))}
+                                </ul>
+
+                                {check.suggestions.length > 0 && (
+                                    <div>
+                                        <p className="text-xs text-red-700 dark:text-red-300 mb-1">最近的可用时段：</p>
+                                        <div className="flex flex-wrap gap-2">
+                                            {check.suggestions.map((slot) => (
+                                                <button
+                                                    key={slot.startDate}
+                                                    type="button"
+                                                    onClick={() => setFormData((prev) => ({ ...prev, ...slot }))}
+                                                    className="px-2 py-1 text-xs rounded border border-red-300 dark:border-red-700 bg-white dark:bg-slate-900 text-red-700 dark:text-red-300 hover:bg-red-100 dark:hover:bg-red-900/40"
+                                                >
+                                                    {slot.startDate} ~ {slot.endDate}
+                                                </button>
+                                            ))}
+                                        </div>
+                                    </div>
+                                )}
+
+                                {alternatives.length > 0 && (
+                                    <div>
+                                        <p className="text-xs text-red-700 dark:text-red-300 mb-1">同时段可用的其他环境：</p>
+                                        <div className="flex flex-wrap gap-2">
+                                            {alternatives.map((env) => (
+                                                <button
+                                                    key={env.id}
+                                                    type="button"
+                                                    onClick={() => setTargetId(env.id)}
+                                                    className="px-2 py-1 text-xs rounded border border-red-300 dark:border-red-700 bg-white dark:bg-slate-900 text-red-700 dark:text-red-300 hover:bg-red-100 dark:hover:bg-red-900/40 flex items-center gap-1"
+                                                >
+                                                    <ArrowRight className="w-3 h-3" />
+                                                    {env.name}
+                                                </button>
+                                            ))}
+                                        </div>
+                                    </div>
+                                )}
+                            </div>
+                        </div>
+                    )}
+
+                    {/* Preemption Warning */}
+                    {check?.allowed && check.preemptions.length > 0 && (
+                        <div className="flex items-start gap-2 p-4 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg">
+                            <AlertTriangle className="w-5 h-5 text-amber-600 dark:text-amber-400 flex-shrink-0 mt-0.5" />
+                            <div className="flex-1">
+                                <p className="text-sm font-medium text-amber-800 dark:text-amber-200">
+                                    将抢占低优先级预约
                                 </p>
-                                <p className="text-sm text-red-700 dark:text-red-300 mt-1">
-                                    所选时间段与现有预约存在冲突，请选择其他时间段
+                                <p className="text-sm text-amber-700 dark:text-amber-300 mt-1">
+                                    {selectedPriority} 项目优先，以下预约将被释放：
+                                    {check.preemptions.map((b) => `${b.projectName}（${b.priority || '未定级'}）`).join('、')}
                                 </p>
                             </div>
                         </div>
@@ -257,22 +341,24 @@ const BookEnvironmentModal: React.FC<BookEnvironmentModalProps> = ({
                     </div>
 
                     {/* Current Bookings */}
-                    {environment.bookings.filter((b) => b.status !== 'cancelled' && b.status !== 'completed')
-                        .length > 0 && (
+                    {target.bookings.filter(isBookingHolding).length > 0 && (
                             <div className="bg-blue-50 dark:bg-blue-900/20 rounded-lg p-4">
                                 <h4 className="text-sm font-medium text-blue-900 dark:text-blue-100 mb-2 flex items-center gap-2">
                                     <Calendar className="w-4 h-4" />
                                     现有预约
                                 </h4>
                                 <div className="space-y-2">
-                                    {environment.bookings
-                                        .filter((b) => b.status !== 'cancelled' && b.status !== 'completed')
+                                    {target.bookings
+                                        .filter(isBookingHolding)
                                         .map((booking) => (
                                             <div
                                                 key={booking.id}
                                                 className="text-sm text-blue-800 dark:text-blue-200"
                                             >
                                                 <span className="font-medium">{booking.projectName}</span>
+                                                {booking.priority && (
+                                                    <span className="ml-1 text-xs text-blue-500 dark:text-blue-400">{booking.priority}</span>
+                                                )}
                                                 <span className="text-blue-600 dark:text-blue-300 ml-2">
                                                     {new Date(booking.startDate).toLocaleDateString()} -{' '}
                                                     {new Date(booking.endDate).toLocaleDateString()}
@@ -294,7 +380,7 @@ const BookEnvironmentModal: React.FC<BookEnvironmentModalProps> = ({
                         onClick={() => handleSubmit({} as React.FormEvent)}
                         disabled={hasConflict}
                     >
-                        {hasConflict ? '存在冲突' : '确认预约'}
+                        {hasConflict ? '无法预约' : check?.preemptions.length ? '确认抢占预约' : '确认预约'}
                     </Button>
                 </div>
             </div>
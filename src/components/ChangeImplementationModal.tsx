@@ -0,0 +1,123 @@
+import React, { useMemo } from 'react';
+import { X, GitCommit, ArrowRight } from 'lucide-react';
+import type { ChangeRequest, Project, WorkingCalendar } from '../types';
+import { proposeChangeDelta, type PlanSnapshot } from '../utils/changeImplementation';
+
+interface ChangeImplementationModalProps {
+    project: Project;
+    changeRequest: ChangeRequest;
+    calendar?: WorkingCalendar;
+    onConfirm: () => void;
+    onCancel: () => void;
+}
+
+const formatCurrency = (val: number) => `¥${Math.round(val).toLocaleString()}`;
+
+const ROWS: { key: keyof PlanSnapshot; label: string; format: (value: PlanSnapshot[keyof PlanSnapshot]) => string }[] = [
+    { key: 'endDate', label: '完成日期', format: (v) => String(v) },
+    { key: 'budget', label: '预算', format: (v) => formatCurrency(Number(v)) },
+    { key: 'plannedHours', label: '计划工时', format: (v) => `${Math.round(Number(v))}h` },
+];
+
+/**
+ * 实施变更预览：对照当前基线展示变更带来的计划增量（任务顺延、完成日期、预算、新增工时），确认后应用并重新设定基线
+ */
+const ChangeImplementationModal: React.FC<ChangeImplementationModalProps> = ({
+    project,
+    changeRequest,
+    calendar,
+    onConfirm,
+    onCancel,
+}) => {
+    const delta = useMemo(() => proposeChangeDelta(project, changeRequest, calendar), [project, changeRequest, calendar]);
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+            <div className="bg-white dark:bg-slate-800 rounded-xl shadow-2xl max-w-3xl w-full max-h-[90vh] overflow-hidden flex flex-col">
+                <div className="flex items-center justify-between p-6 border-b border-slate-200 dark:border-slate-700">
+                    <div>
+                        <h2 className="text-xl font-bold text-slate-800 dark:text-slate-100 flex items-center gap-2">
+                            <GitCommit size={20} className="text-blue-600" />
+                            实施变更：{changeRequest.title}
+                        </h2>
+                        <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">
+                            应用后将以「变更：{changeRequest.title}」自动创建新基线并设为当前基线
+                        </p>
+                    </div>
+                    <button onClick={onCancel} className="p-2 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-colors">
+                        <X size={20} />
+                    </button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto p-6 space-y-6">
+                    <table className="w-full text-sm">
+                        <thead className="text-xs text-slate-500 dark:text-slate-400 text-left">
+                            <tr>
+                                <th className="py-2">指标</th>
+                                <th className="py-2 text-right">当前基线{delta.baseline ? `（${delta.baseline.name}）` : ''}</th>
+                                <th className="py-2 text-right">当前计划</th>
+                                <th className="py-2 text-right">实施后</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+                            {ROWS.map(row => {
+                                const changed = delta.proposed[row.key] !== delta.current[row.key];
+                                return (
+                                    <tr key={row.key} className="text-slate-700 dark:text-slate-200">
+                                        <td className="py-2">{row.label}</td>
+                                        <td className="py-2 text-right text-slate-500">{delta.baseline ? row.format(delta.baseline[row.key]) : '—'}</td>
+                                        <td className="py-2 text-right">{row.format(delta.current[row.key])}</td>
+                                        <td className={`py-2 text-right font-semibold ${changed ? 'text-orange-600' : ''}`}>
+                                            {row.format(delta.proposed[row.key])}
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+
+                    {delta.addedTask && (
+                        <div className="p-3 rounded-lg bg-blue-50 dark:bg-blue-900/20 text-sm text-blue-800 dark:text-blue-200">
+                            新增任务「{delta.addedTask.name}」：{delta.addedTask.startDate} ~ {delta.addedTask.endDate}，计划工时 {delta.addedTask.plannedHours}h
+                        </div>
+                    )}
+
+                    <div>
+                        <h4 className="text-sm font-semibold text-slate-700 dark:text-slate-200 mb-2">
+                            顺延任务（{delta.shiftedTasks.length}）
+                        </h4>
+                        {delta.shiftedTasks.length === 0 ? (
+                            <p className="text-sm text-slate-400">无任务需要顺延</p>
+                        ) : (
+                            <div className="space-y-1 text-xs max-h-60 overflow-y-auto">
+                                {delta.shiftedTasks.map(shift => (
+                                    <div key={shift.taskId} className="flex items-center gap-3 text-slate-600 dark:text-slate-300">
+                                        <span className="flex-1 truncate">{shift.name}</span>
+                                        <span className="text-slate-400">{shift.startDate} ~ {shift.endDate}</span>
+                                        <ArrowRight size={12} className="text-slate-400" />
+                                        <span className="font-medium">{shift.newStartDate} ~ {shift.newEndDate}</span>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                </div>
+
+                <div className="flex items-center justify-end gap-3 p-6 border-t border-slate-200 dark:border-slate-700">
+                    <button
+                        type="button"
+                        onClick={onCancel}
+                        className="px-4 py-2 text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-colors"
+                    >
+                        取消
+                    </button>
+                    <button onClick={onConfirm} className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors">
+                        应用变更并重新设定基线
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ChangeImplementationModal;
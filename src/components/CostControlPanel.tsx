@@ -1,7 +1,9 @@
 import React, { useMemo } from 'react';
-import { DollarSign, TrendingUp, AlertTriangle, Target, Activity } from 'lucide-react';
+import { DollarSign, TrendingUp, AlertTriangle, Target, Activity, PiggyBank } from 'lucide-react';
 import type { Project, Task } from '../types';
 import { calculateEVM, generateCostTrend } from '../utils/costControl';
+import { calculateProjectEMV, getRiskReserveStatus } from '../utils/riskReserve';
+import { useResolvedCalendar, useResourcePool } from '../store/useStore';
 
 interface CostControlPanelProps {
     project: Project;
@@ -9,8 +11,17 @@ interface CostControlPanelProps {
 }
 
 const CostControlPanel: React.FC<CostControlPanelProps> = ({ project, tasks }) => {
-    const metrics = useMemo(() => calculateEVM(project, tasks), [project, tasks]);
+    const calendar = useResolvedCalendar(project.calendarId);
+    const resourcePool = useResourcePool();
+    const metrics = useMemo(() => calculateEVM(project, tasks, { calendar, resourcePool }), [project, tasks, calendar, resourcePool]);
     const trendData = useMemo(() => generateCostTrend(metrics), [metrics]);
+    const projectEMV = useMemo(() => calculateProjectEMV(project.risks || []), [project.risks]);
+    const reserveStatus = useMemo(
+        () => project.riskReserve && getRiskReserveStatus(project.riskReserve, project.risks || []),
+        [project.riskReserve, project.risks]
+    );
+    // 含应急储备的预算上限：已释放的储备不再可用，已支取部分已计入实际成本
+    const budgetWithReserve = metrics.bac + (reserveStatus ? reserveStatus.reserve - reserveStatus.released : 0);
 
     const formatCurrency = (val: number) => `¥${Math.round(val).toLocaleString()}`;
 
@@ -69,6 +80,50 @@ const CostControlPanel: React.FC<CostControlPanelProps> = ({ project, tasks }) =
                 </div>
             </div>
 
+            {/* 风险储备 */}
+            <div className="bg-white rounded-lg border border-slate-200 p-6">
+                <h3 className="font-semibold text-slate-900 mb-4 flex items-center gap-2">
+                    <PiggyBank size={20} className="text-emerald-600" />
+                    风险应急储备
+                </h3>
+                {reserveStatus ? (
+                    <div className="grid grid-cols-2 md:grid-cols-6 gap-4 text-sm">
+                        <div>
+                            <div className="text-slate-500">应急储备 (P{project.riskReserve!.confidenceLevel})</div>
+                            <div className="text-lg font-bold text-slate-900">{formatCurrency(reserveStatus.reserve)}</div>
+                        </div>
+                        <div>
+                            <div className="text-slate-500">已支取</div>
+                            <div className="text-lg font-bold text-red-600">{formatCurrency(reserveStatus.drawn)}</div>
+                        </div>
+                        <div>
+                            <div className="text-slate-500">已释放</div>
+                            <div className="text-lg font-bold text-blue-600">{formatCurrency(reserveStatus.released)}</div>
+                        </div>
+                        <div>
+                            <div className="text-slate-500">剩余储备</div>
+                            <div className={`text-lg font-bold ${reserveStatus.remaining >= reserveStatus.required ? 'text-green-600' : 'text-yellow-600'}`}>
+                                {formatCurrency(reserveStatus.remaining)}
+                            </div>
+                            <div className="text-xs text-slate-500">当前所需 {formatCurrency(reserveStatus.required)}</div>
+                        </div>
+                        <div>
+                            <div className="text-slate-500">含储备预算</div>
+                            <div className="text-lg font-bold text-slate-900">{formatCurrency(budgetWithReserve)}</div>
+                            <div className="text-xs text-slate-500">BAC + 可用储备</div>
+                        </div>
+                        <div>
+                            <div className="text-slate-500">未关闭风险 EMV</div>
+                            <div className="text-lg font-bold text-slate-900">{formatCurrency(reserveStatus.openEMV)}</div>
+                        </div>
+                    </div>
+                ) : (
+                    <p className="text-sm text-slate-500">
+                        尚未设定应急储备。未关闭风险的 EMV 合计 {formatCurrency(projectEMV)}，可在风险管理页按置信度设定储备。
+                    </p>
+                )}
+            </div>
+
             {/* 预测分析 */}
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
                 {/* 预测详情 */}
@@ -120,7 +175,7 @@ const CostControlPanel: React.FC<CostControlPanelProps> = ({ project, tasks }) =
                     </div>
                 </div>
 
-                {/* 趋势图表 (模拟) */}
+                {/* 趋势图表 */}
                 <div className="lg:col-span-2 bg-white rounded-lg border border-slate-200 p-6 flex flex-col">
                     <h3 className="font-semibold text-slate-900 mb-4">成本趋势预测</h3>
                     <div className="flex-1 flex items-end gap-4 min-h-[200px] relative pt-8">
@@ -173,6 +228,9 @@ const CostControlPanel: React.FC<CostControlPanelProps> = ({ project, tasks }) =
                         <h4 className="font-medium text-red-900 mb-1">成本超支预警</h4>
                         <p className="text-sm text-red-700 mb-2">
                             按照当前绩效 (CPI = {metrics.cpi.toFixed(2)})，项目预计将超支 {formatCurrency(Math.abs(metrics.vac))}。
+                            {reserveStatus && (metrics.eac <= budgetWithReserve
+                                ? ` 超支部分可由应急储备覆盖（含储备预算 ${formatCurrency(budgetWithReserve)}）。`
+                                : ` 已超出含储备预算 ${formatCurrency(budgetWithReserve)}。`)}
                         </p>
                         <div className="flex gap-2">
                             <button className="px-3 py-1 bg-red-100 text-red-700 rounded text-xs font-medium hover:bg-red-200 transition-colors">
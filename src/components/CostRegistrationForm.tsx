@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import type { CostEntry } from '../types';
+import type { CostEntry, Task } from '../types';
 import { X, Plus, DollarSign, FileText } from 'lucide-react';
 import { PieChart, Pie, Cell, ResponsiveContainer, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend } from 'recharts';
 
@@ -8,6 +8,7 @@ interface CostRegistrationFormProps {
     projectName: string;
     budget?: number;
     existingCosts?: CostEntry[];
+    tasks?: Task[]; // 可关联的任务，实际成本据此计入任务挣值
     onSave: (costs: CostEntry[], budget?: number) => void;
     onClose: () => void;
 }
@@ -16,6 +17,7 @@ const CostRegistrationForm: React.FC<CostRegistrationFormProps> = ({
     projectName,
     budget: initialBudget,
     existingCosts = [],
+    tasks = [],
     onSave,
     onClose
 }) => {
@@ -28,6 +30,8 @@ const CostRegistrationForm: React.FC<CostRegistrationFormProps> = ({
         description: ''
     });
 
+    const workTasks = tasks.filter(t => t.type === 'task');
+
     const categories = [
         { id: 'labor', label: '人力成本', color: '#3b82f6' },
         { id: 'equipment', label: '设备成本', color: '#8b5cf6' },
@@ -70,7 +74,8 @@ const CostRegistrationForm: React.FC<CostRegistrationFormProps> = ({
                 date: newCost.date!,
                 amount: newCost.amount,
                 category: newCost.category as CostEntry['category'],
-                description: newCost.description
+                description: newCost.description,
+                taskId: newCost.taskId || undefined
             };
             setCosts([...costs, cost]);
             setNewCost({
@@ -201,6 +206,23 @@ const CostRegistrationForm: React.FC<CostRegistrationFormProps> = ({
                                             ))}
                                         </select>
                                     </div>
+                                    {workTasks.length > 0 && (
+                                        <div>
+                                            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                                                关联任务
+                                            </label>
+                                            <select
+                                                value={newCost.taskId || ''}
+                                                onChange={(e) => setNewCost({ ...newCost, taskId: e.target.value || undefined })}
+                                                className="w-full px-3 py-2 rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                            >
+                                                <option value="">不关联（项目级成本）</option>
+                                                {workTasks.map(task => (
+                                                    <option key={task.id} value={task.id}>{task.name}</option>
+                                                ))}
+                                            </select>
+                                        </div>
+                                    )}
                                     <div>
                                         <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
                                             说明
@@ -255,6 +277,11 @@ const CostRegistrationForm: React.FC<CostRegistrationFormProps> = ({
                                                                         {category?.label}
                                                                     </span>
                                                                     <span className="text-xs text-slate-400">{cost.date}</span>
+                                                                    {cost.taskId && (
+                                                                        <span className="text-xs text-slate-500">
+                                                                            · {tasks.find(t => t.id === cost.taskId)?.name || '已删除任务'}
+                                                                        </span>
+                                                                    )}
                                                                 </div>
                                                                 <p className="text-sm text-slate-700 dark:text-slate-300 mb-1">
                                                                     {cost.description}
@@ -10,21 +10,32 @@ import {
 } from 'recharts';
 import type { Project } from '../types';
 import {
-    calculateEVM,
+    createEVMModel,
+    deriveEVMMetrics,
     generateEVMTimeSeries,
     getEVMStatus,
     formatCurrency,
     formatPerformanceIndex,
     getPerformanceIndexColor
 } from '../utils/evmCalculations';
+import { useResolvedCalendar, useResourcePool } from '../store/useStore';
 
 interface EVMChartsProps {
     project: Project;
 }
 
 const EVMCharts: React.FC<EVMChartsProps> = ({ project }) => {
-    const evmMetrics = useMemo(() => calculateEVM(project), [project]);
-    const evmTimeSeries = useMemo(() => generateEVMTimeSeries(project, 12), [project]);
+    const calendar = useResolvedCalendar(project.calendarId);
+    const resourcePool = useResourcePool();
+    const evmModel = useMemo(() => createEVMModel(project, { calendar, resourcePool }), [project, calendar, resourcePool]);
+    const evmMetrics = useMemo(
+        () => deriveEVMMetrics(project.id, evmModel.asOf, evmModel.budgetAtCompletion, evmModel.valuesAt(evmModel.asOf)),
+        [project.id, evmModel]
+    );
+    const evmTimeSeries = useMemo(
+        () => generateEVMTimeSeries(project, { calendar, resourcePool, dataPoints: 12 }),
+        [project, calendar, resourcePool]
+    );
     const evmStatus = useMemo(() => getEVMStatus(evmMetrics), [evmMetrics]);
 
     const MetricCard: React.FC<{
@@ -190,7 +201,7 @@ const EVMCharts: React.FC<EVMChartsProps> = ({ project }) => {
                             labelFormatter={(label) => new Date(label).toLocaleDateString('zh-CN')}
                         />
                         <Legend />
-                        <ReferenceLine y={project.budget || 0} stroke="#94a3b8" strokeDasharray="3 3" label="预算" />
+                        <ReferenceLine y={evmMetrics.budgetAtCompletion} stroke="#94a3b8" strokeDasharray="3 3" label="预算" />
                         <Line
                             type="monotone"
                             dataKey="pv"
@@ -281,6 +292,53 @@ const EVMCharts: React.FC<EVMChartsProps> = ({ project }) => {
                     </div>
                 </div>
             </div>
+
+            {/* Task Cost Breakdown */}
+            {evmModel.tasks.length > 0 && (
+                <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 p-6">
+                    <h3 className="text-lg font-bold text-slate-900 dark:text-slate-100 mb-1">
+                        任务成本分解
+                    </h3>
+                    <p className="text-xs text-slate-500 dark:text-slate-400 mb-4">
+                        预算 = 计划工时 × 时薪 + 固定成本；未填成本的任务按工期分摊项目剩余预算
+                    </p>
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-sm">
+                            <thead className="text-left text-xs text-slate-500 dark:text-slate-400 border-b border-slate-200 dark:border-slate-700">
+                                <tr>
+                                    <th className="py-2 pr-4">任务</th>
+                                    <th className="py-2 pr-4 text-right">工时</th>
+                                    <th className="py-2 pr-4 text-right">时薪</th>
+                                    <th className="py-2 pr-4 text-right">预算 (BAC)</th>
+                                    <th className="py-2 pr-4 text-right">PV</th>
+                                    <th className="py-2 pr-4 text-right">EV</th>
+                                    <th className="py-2 text-right">AC</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+                                {evmModel.tasks.map(task => (
+                                    <tr key={task.taskId} className="text-slate-700 dark:text-slate-300">
+                                        <td className="py-2 pr-4">
+                                            {task.taskName}
+                                            {task.budgetSource === 'allocated' && (
+                                                <span className="ml-2 text-xs text-slate-400">分摊</span>
+                                            )}
+                                        </td>
+                                        <td className="py-2 pr-4 text-right">{task.plannedHours || '—'}</td>
+                                        <td className="py-2 pr-4 text-right">{task.hourlyRate ? formatCurrency(task.hourlyRate) : '—'}</td>
+                                        <td className="py-2 pr-4 text-right font-medium">{formatCurrency(Math.round(task.budget))}</td>
+                                        <td className="py-2 pr-4 text-right">{formatCurrency(Math.round(task.plannedValue))}</td>
+                                        <td className="py-2 pr-4 text-right">{formatCurrency(Math.round(task.earnedValue))}</td>
+                                        <td className={`py-2 text-right ${task.actualCost > task.earnedValue ? 'text-red-600 dark:text-red-400' : ''}`}>
+                                            {formatCurrency(Math.round(task.actualCost))}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            )}
         </div>
     );
 };
@@ -21,6 +21,7 @@ import {
 import { TrendingUp, TrendingDown, DollarSign, Calendar } from 'lucide-react';
 import type { Project, Task } from '../types';
 import { calculateEVM, generateCostTrend } from '../utils/costControl';
+import { useResolvedCalendar, useResourcePool } from '../store/useStore';
 import { format } from 'date-fns';
 
 interface Props {
@@ -32,25 +33,24 @@ const EnhancedCostTrendVisualization: React.FC<Props> = ({ project, tasks }) =>
     const [timeRange, setTimeRange] = useState<'all' | '3m' | '6m' | '1y'>('all');
     const [showPrediction, setShowPrediction] = useState(true);
 
+    const calendar = useResolvedCalendar(project.calendarId);
+    const resourcePool = useResourcePool();
+
     // 计算 EVM 数据
     const evmData = useMemo(() => {
-        return calculateEVM(project, tasks);
-    }, [project, tasks]);
+        return calculateEVM(project, tasks, { calendar, resourcePool });
+    }, [project, tasks, calendar, resourcePool]);
 
     // 生成趋势数据
     const trendData = useMemo(() => {
         const data = generateCostTrend(evmData);
 
-        // 根据时间范围过滤
-        if (timeRange === '3m') {
-            return data.slice(-12); // 最近3个月（假设每周一个数据点）
-        } else if (timeRange === '6m') {
-            return data.slice(-24);
-        } else if (timeRange === '1y') {
-            return data.slice(-52);
-        }
-        return data;
-    }, [project, tasks, timeRange]);
+        // 根据时间范围过滤历史月份（当前点与预测保留）
+        const rangeMonths = { all: 0, '3m': 3, '6m': 6, '1y': 12 }[timeRange];
+        if (rangeMonths === 0) return data;
+        const history = data.filter(d => d.type === 'history');
+        return [...history.slice(-rangeMonths), ...data.filter(d => d.type !== 'history')];
+    }, [evmData, timeRange]);
 
     // 计算趋势指标
     const trendMetrics = useMemo(() => {
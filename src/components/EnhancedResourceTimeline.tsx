@@ -3,6 +3,7 @@ import { format, parseISO, startOfDay, endOfDay, startOfWeek, endOfWeek, startOf
 import { ChevronLeft, ChevronRight, AlertTriangle } from 'lucide-react';
 import type { Project, ResourcePoolItem } from '../types';
 import { calculateResourceLoad } from '../utils/resourcePlanning';
+import { useWorkingCalendars, useCalendarExceptions } from '../store/useStore';
 import clsx from 'clsx';
 
 interface EnhancedResourceTimelineProps {
@@ -19,6 +20,8 @@ const EnhancedResourceTimeline: React.FC<EnhancedResourceTimelineProps> = ({
     onProjectClick
 }) => {
     const [granularity, setGranularity] = useState<Granularity>('month');
+    const calendars = useWorkingCalendars();
+    const calendarExceptions = useCalendarExceptions();
     const [page, setPage] = useState(0);
     const scrollContainerRef = useRef<HTMLDivElement>(null);
 
@@ -72,8 +75,8 @@ const EnhancedResourceTimeline: React.FC<EnhancedResourceTimelineProps> = ({
 
     // Calculate loads for conflict detection
     const resourceLoads = useMemo(() => {
-        return calculateResourceLoad(projects, resources, buckets, granularity);
-    }, [projects, resources, buckets, granularity]);
+        return calculateResourceLoad(projects, resources, buckets, granularity, { calendars, exceptions: calendarExceptions });
+    }, [projects, resources, buckets, granularity, calendars, calendarExceptions]);
 
     // Helper to check if a project is in a bucket
     const isProjectInBucket = (project: Project, bucketDate: Date) => {
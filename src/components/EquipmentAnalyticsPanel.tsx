@@ -0,0 +1,200 @@
+import React, { useMemo, useState } from 'react';
+import { Activity, Download, Gauge } from 'lucide-react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { Card, Badge, Button } from './ui';
+import { buildEquipmentAnalytics, type AnalyticsGranularity, type EquipmentAnalytics } from '../utils/equipmentAnalytics';
+import type { BayResource, MachineResource } from '../types';
+import { subMonths } from 'date-fns';
+
+interface EquipmentAnalyticsPanelProps {
+    bays: BayResource[];
+    machines: MachineResource[];
+    onExport: (analytics: EquipmentAnalytics) => void;
+}
+
+type KindFilter = 'all' | 'bay' | 'machine';
+
+const RANGE_OPTIONS = [3, 6, 12];
+
+const pct = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const oeeVariant = (oee: number): 'success' | 'warning' | 'danger' =>
+    oee >= 0.65 ? 'success' : oee >= 0.4 ? 'warning' : 'danger';
+
+const utilizationColor = (value: number) =>
+    value >= 0.7 ? 'bg-emerald-500' : value >= 0.4 ? 'bg-amber-400' : value > 0 ? 'bg-blue-300' : 'bg-slate-200 dark:bg-slate-700';
+
+/**
+ * 设备利用率与 OEE 分析：按周/月统计 Bay 与机器的计划与实际使用、空闲、爽约，并按平台/尺寸分组
+ */
+const EquipmentAnalyticsPanel: React.FC<EquipmentAnalyticsPanelProps> = ({ bays, machines, onExport }) => {
+    const [granularity, setGranularity] = useState<AnalyticsGranularity>('month');
+    const [rangeMonths, setRangeMonths] = useState(6);
+    const [kind, setKind] = useState<KindFilter>('all');
+
+    const analytics = useMemo(() => {
+        const to = new Date();
+        return buildEquipmentAnalytics(
+            kind === 'machine' ? [] : bays,
+            kind === 'bay' ? [] : machines,
+            { from: subMonths(to, rangeMonths), to, granularity }
+        );
+    }, [bays, machines, kind, rangeMonths, granularity]);
+
+    // 各周期所有设备的计划与实际工时
+    const chartData = useMemo(() => analytics.buckets.map((bucket, index) => ({
+        bucket: bucket.label,
+        计划: Math.round(analytics.resources.reduce((sum, r) => sum + r.buckets[index].plannedHours, 0)),
+        实际: Math.round(analytics.resources.reduce((sum, r) => sum + r.buckets[index].actualHours, 0))
+    })), [analytics]);
+
+    const toggleClass = (active: boolean) =>
+        `px-3 py-1.5 rounded-lg text-[10px] font-black transition-all ${active ? 'bg-white dark:bg-slate-700 shadow text-violet-600' : 'text-slate-500'}`;
+
+    return (
+        <div className="space-y-8">
+            <div className="flex flex-wrap items-center gap-3">
+                <div className="bg-slate-100 dark:bg-slate-800 p-1 rounded-xl flex">
+                    {(['all', 'bay', 'machine'] as KindFilter[]).map(k => (
+                        <button key={k} onClick={() => setKind(k)} className={toggleClass(kind === k)}>
+                            {k === 'all' ? '全部' : k === 'bay' ? 'Bay' : '机器'}
+                        </button>
+                    ))}
+                </div>
+                <div className="bg-slate-100 dark:bg-slate-800 p-1 rounded-xl flex">
+                    {(['week', 'month'] as AnalyticsGranularity[]).map(g => (
+                        <button key={g} onClick={() => setGranularity(g)} className={toggleClass(granularity === g)}>
+                            {g === 'week' ? '按周' : '按月'}
+                        </button>
+                    ))}
+                </div>
+                <div className="bg-slate-100 dark:bg-slate-800 p-1 rounded-xl flex">
+                    {RANGE_OPTIONS.map(months => (
+                        <button key={months} onClick={() => setRangeMonths(months)} className={toggleClass(rangeMonths === months)}>
+                            近 {months} 个月
+                        </button>
+                    ))}
+                </div>
+                <Button variant="outline" size="sm" icon={Download} className="ml-auto" onClick={() => onExport(analytics)}>
+                    导出分析 Excel
+                </Button>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
+                <Card className="p-6 md:col-span-2 bg-gradient-to-br from-violet-500 to-indigo-600 text-white border-none shadow-xl rounded-[32px]">
+                    <div className="text-[10px] font-black uppercase tracking-widest opacity-70">综合 OEE</div>
+                    <div className="text-4xl font-black mt-2">{pct(analytics.oee.oee)}</div>
+                    <div className="text-[11px] font-bold opacity-70 mt-1">
+                        可用 {pct(analytics.oee.availability)} × 性能 {pct(analytics.oee.performance)} × 质量 {pct(analytics.oee.quality)}
+                    </div>
+                </Card>
+                {[
+                    { label: '利用率', value: pct(analytics.totals.utilization) },
+                    { label: '空闲工时', value: `${Math.round(analytics.totals.idleHours)}h` },
+                    { label: '停机工时', value: `${Math.round(analytics.totals.downtimeHours)}h` },
+                    { label: '爽约 / 预约', value: `${analytics.totals.noShows} / ${analytics.totals.bookings}` }
+                ].map(card => (
+                    <Card key={card.label} className="p-6 bg-white/60 dark:bg-slate-900/60 backdrop-blur-xl border-none shadow-xl rounded-[32px]">
+                        <div className="text-[10px] font-black uppercase tracking-widest text-slate-400">{card.label}</div>
+                        <div className="text-3xl font-black mt-2 text-slate-800 dark:text-slate-100">{card.value}</div>
+                    </Card>
+                ))}
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-5 gap-8">
+                <Card className="p-8 lg:col-span-3 bg-white/60 dark:bg-slate-900/60 backdrop-blur-xl border-none shadow-xl rounded-[40px]">
+                    <h4 className="font-black flex items-center gap-3 mb-6">
+                        <div className="p-2 bg-violet-500/10 rounded-xl">
+                            <Activity size={16} className="text-violet-600" />
+                        </div>
+                        计划 vs 实际使用工时
+                    </h4>
+                    <div className="h-72">
+                        <ResponsiveContainer width="100%" height="100%">
+                            <BarChart data={chartData}>
+                                <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                                <XAxis dataKey="bucket" tick={{ fontSize: 10 }} />
+                                <YAxis tick={{ fontSize: 10 }} unit="h" />
+                                <Tooltip />
+                                <Legend />
+                                <Bar dataKey="计划" fill="#c4b5fd" radius={[4, 4, 0, 0]} />
+                                <Bar dataKey="实际" fill="#7c3aed" radius={[4, 4, 0, 0]} />
+                            </BarChart>
+                        </ResponsiveContainer>
+                    </div>
+                </Card>
+
+                <Card className="p-8 lg:col-span-2 bg-white/60 dark:bg-slate-900/60 backdrop-blur-xl border-none shadow-xl rounded-[40px]">
+                    <h4 className="font-black flex items-center gap-3 mb-6">
+                        <div className="p-2 bg-indigo-500/10 rounded-xl">
+                            <Gauge size={16} className="text-indigo-600" />
+                        </div>
+                        分组 OEE（机器按平台，Bay 按尺寸）
+                    </h4>
+                    <table className="w-full text-xs">
+                        <thead className="text-[10px] font-black uppercase tracking-widest text-slate-400 text-left">
+                            <tr>
+                                <th className="py-2">分组</th>
+                                <th className="py-2 text-right">利用率</th>
+                                <th className="py-2 text-right">A</th>
+                                <th className="py-2 text-right">P</th>
+                                <th className="py-2 text-right">Q</th>
+                                <th className="py-2 text-right">OEE</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
+                            {analytics.groups.map(g => (
+                                <tr key={`${g.kind}|${g.group}`} className="font-bold text-slate-700 dark:text-slate-300">
+                                    <td className="py-2">
+                                        {g.group}
+                                        <span className="text-[10px] text-slate-400 ml-1">({g.resourceCount})</span>
+                                    </td>
+                                    <td className="py-2 text-right">{pct(g.totals.utilization)}</td>
+                                    <td className="py-2 text-right text-slate-400">{pct(g.oee.availability)}</td>
+                                    <td className="py-2 text-right text-slate-400">{pct(g.oee.performance)}</td>
+                                    <td className="py-2 text-right text-slate-400">{pct(g.oee.quality)}</td>
+                                    <td className="py-2 text-right"><Badge variant={oeeVariant(g.oee.oee)} size="sm">{pct(g.oee.oee)}</Badge></td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </Card>
+            </div>
+
+            <Card className="p-8 bg-white/60 dark:bg-slate-900/60 backdrop-blur-xl border-none shadow-xl rounded-[40px] overflow-x-auto">
+                <h4 className="font-black mb-6">设备利用率明细</h4>
+                <table className="w-full text-xs">
+                    <thead className="text-[10px] font-black uppercase tracking-widest text-slate-400 text-left">
+                        <tr>
+                            <th className="py-2 pr-4">设备</th>
+                            {analytics.buckets.map(b => <th key={b.label} className="py-2 px-1 text-center whitespace-nowrap">{b.label}</th>)}
+                            <th className="py-2 px-2 text-right">爽约</th>
+                            <th className="py-2 px-2 text-right">OEE</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
+                        {analytics.resources.map(r => (
+                            <tr key={r.resourceId} className="font-bold text-slate-700 dark:text-slate-300">
+                                <td className="py-2 pr-4 whitespace-nowrap">
+                                    {r.resourceName}
+                                    <span className="text-[10px] text-slate-400 ml-1">{r.group}</span>
+                                </td>
+                                {r.buckets.map(b => (
+                                    <td key={b.bucket} className="py-2 px-1" title={`${b.bucket}: 计划 ${Math.round(b.plannedHours)}h / 实际 ${Math.round(b.actualHours)}h / 停机 ${Math.round(b.downtimeHours)}h`}>
+                                        <div className={`h-6 rounded-md flex items-center justify-center text-[9px] ${utilizationColor(b.utilization)} ${b.utilization >= 0.4 ? 'text-white' : 'text-slate-500'}`}>
+                                            {b.utilization > 0 ? `${Math.round(b.utilization * 100)}%` : ''}
+                                        </div>
+                                    </td>
+                                ))}
+                                <td className={`py-2 px-2 text-right ${r.totals.noShows > 0 ? 'text-red-500' : 'text-slate-400'}`}>{r.totals.noShows}</td>
+                                <td className="py-2 px-2 text-right">{pct(r.oee.oee)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </Card>
+        </div>
+    );
+};
+
+export default EquipmentAnalyticsPanel;
@@ -17,7 +17,7 @@ interface State {
 }
 
 class ErrorBoundary extends Component<Props, State> {
-    private resetTimeout?: number;
+    private resetTimeout?: ReturnType<typeof setTimeout>;
 
     constructor(props: Props) {
         super(props);
@@ -0,0 +1,302 @@
+import React, { useMemo, useState } from 'react';
+import { ResponsiveContainer, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ReferenceLine } from 'recharts';
+import { Scale, History, TrendingUp, CheckCircle2, AlertTriangle } from 'lucide-react';
+import { format } from 'date-fns';
+import { useStore, useFactorWeightSets } from '../store/useStore';
+import {
+    SAATY_SCALE,
+    CONSISTENCY_THRESHOLD,
+    analyzeWeightSensitivity,
+    calculateAHPWeights,
+    comparisonKey,
+    getWeightSetAt,
+    rankProjectsWithWeightSet,
+    toPercentWeights
+} from '../utils/factorWeighting';
+import type { FactorDefinition } from '../types';
+
+const LINE_COLORS = ['#3b82f6', '#8b5cf6', '#10b981', '#f59e0b', '#ef4444', '#0ea5e9', '#ec4899', '#64748b'];
+const MAX_SENSITIVITY_PROJECTS = 8;
+
+// 与当前权重比值最接近的 Saaty 标度，作为两两比较的初始值
+const nearestScale = (ratio: number) =>
+    SAATY_SCALE.reduce((best, s) => Math.abs(Math.log(s.value) - Math.log(ratio)) < Math.abs(Math.log(best.value) - Math.log(ratio)) ? s : best).value;
+
+const initialComparisons = (definitions: FactorDefinition[], saved?: Record<string, number>) => {
+    const comparisons: Record<string, number> = {};
+    definitions.forEach((a, i) => definitions.slice(i + 1).forEach(b => {
+        const key = comparisonKey(a.id, b.id);
+        comparisons[key] = saved?.[key] ?? (a.weight > 0 && b.weight > 0 ? nearestScale(a.weight / b.weight) : 1);
+    }));
+    return comparisons;
+};
+
+/**
+ * 评分因子权重治理：AHP 两两比较与一致性检验、权重敏感性分析、权重版本与历史排名回溯
+ */
+const FactorWeightingPanel: React.FC = () => {
+    const { factorDefinitions, projects, publishFactorWeights, addNotification } = useStore();
+    const weightSets = useFactorWeightSets();
+    const latestAHP = [...weightSets].reverse().find(s => s.method === 'ahp');
+
+    const [comparisons, setComparisons] = useState<Record<string, number>>(() => initialComparisons(factorDefinitions, latestAHP?.comparisons));
+    const [notes, setNotes] = useState('');
+    const [sensitivityFactorId, setSensitivityFactorId] = useState(factorDefinitions[0]?.id || '');
+    const [replayAt, setReplayAt] = useState(format(new Date(), "yyyy-MM-dd'T'HH:mm"));
+
+    const factorIds = factorDefinitions.map(f => f.id);
+    const ahp = useMemo(() => calculateAHPWeights(factorIds, comparisons), [factorIds.join(','), comparisons]);
+    const ahpPercent = useMemo(() => toPercentWeights(ahp.weights), [ahp]);
+
+    const sensitivity = useMemo(() => analyzeWeightSensitivity(projects, factorDefinitions), [projects, factorDefinitions]);
+    const selectedSensitivity = sensitivity.find(s => s.factorId === sensitivityFactorId) || sensitivity[0];
+    const trackedProjects = useMemo(
+        () => [...projects].sort((a, b) => (a.rank || 0) - (b.rank || 0)).slice(0, MAX_SENSITIVITY_PROJECTS),
+        [projects]
+    );
+    const sensitivityData = selectedSensitivity?.points.map(p => ({
+        share: p.share,
+        ...Object.fromEntries(trackedProjects.map(proj => [proj.name, p.ranks[proj.id]]))
+    })) || [];
+
+    const latestSet = weightSets[weightSets.length - 1];
+    const hasUnpublishedChanges = !latestSet || factorDefinitions.some(f => (latestSet.weights[f.id] ?? 0) !== f.weight);
+
+    const replaySet = getWeightSetAt(weightSets, (replayAt ? new Date(replayAt) : new Date()).toISOString());
+    const replayRanking = useMemo(
+        () => replaySet ? rankProjectsWithWeightSet(projects, factorDefinitions, replaySet) : [],
+        [replaySet, projects, factorDefinitions]
+    );
+
+    const handlePublishAHP = () => {
+        const published = publishFactorWeights(ahpPercent, {
+            method: 'ahp',
+            comparisons,
+            consistencyRatio: ahp.consistencyRatio,
+            notes: notes.trim() || undefined
+        });
+        if (published) {
+            addNotification({ type: 'success', message: `已发布 ${published.name}（AHP，CR=${ahp.consistencyRatio.toFixed(3)}），项目排名已更新` });
+            setNotes('');
+        }
+    };
+
+    const handlePublishManual = () => {
+        const published = publishFactorWeights(
+            Object.fromEntries(factorDefinitions.map(f => [f.id, f.weight])),
+            { method: 'manual', notes: notes.trim() || undefined }
+        );
+        if (published) {
+            addNotification({ type: 'success', message: `已将当前手动权重发布为 ${published.name}` });
+            setNotes('');
+        }
+    };
+
+    return (
+        <div className="bg-white dark:bg-slate-800 p-8 rounded-2xl shadow-sm border border-slate-100 dark:border-slate-700 space-y-10">
+            {/* AHP pairwise comparison */}
+            <div>
+                <div className="mb-6 flex items-center justify-between">
+                    <div>
+                        <h2 className="text-xl font-bold text-slate-800 dark:text-slate-100 flex items-center gap-2"><Scale size={20} /> AHP 两两比较定权</h2>
+                        <p className="text-slate-500 dark:text-slate-400">逐对判断“左侧因子相对右侧因子的重要程度”，按判断矩阵主特征向量计算权重</p>
+                    </div>
+                    <div className={`px-4 py-2 rounded-xl font-bold flex items-center gap-2 ${ahp.consistent ? 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300' : 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300'}`}>
+                        {ahp.consistent ? <CheckCircle2 size={16} /> : <AlertTriangle size={16} />}
+                        CR = {ahp.consistencyRatio.toFixed(3)}
+                    </div>
+                </div>
+
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+                    <div className="space-y-2">
+                        {factorDefinitions.map((a, i) => factorDefinitions.slice(i + 1).map(b => {
+                            const key = comparisonKey(a.id, b.id);
+                            return (
+                                <div key={key} className="flex items-center gap-3 p-3 bg-slate-50 dark:bg-slate-700/30 rounded-xl border border-slate-100 dark:border-slate-600 text-sm">
+                                    <span className="flex-1 font-bold text-slate-700 dark:text-slate-300 truncate">{a.name}</span>
+                                    <select
+                                        value={SAATY_SCALE.findIndex(s => Math.abs(s.value - (comparisons[key] ?? 1)) < 1e-6)}
+                                        onChange={(e) => setComparisons({ ...comparisons, [key]: SAATY_SCALE[Number(e.target.value)].value })}
+                                        className="p-2 rounded-lg border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 text-xs font-bold"
+                                    >
+                                        {SAATY_SCALE.map((s, index) => (
+                                            <option key={s.label} value={index}>{s.label}（{s.value >= 1 ? s.value : `1/${Math.round(1 / s.value)}`}）</option>
+                                        ))}
+                                    </select>
+                                    <span className="flex-1 font-bold text-slate-700 dark:text-slate-300 truncate text-right">{b.name}</span>
+                                </div>
+                            );
+                        }))}
+                    </div>
+
+                    <div className="space-y-4">
+                        {factorDefinitions.map(f => (
+                            <div key={f.id}>
+                                <div className="flex justify-between text-sm font-bold text-slate-700 dark:text-slate-300 mb-1">
+                                    <span>{f.name}</span>
+                                    <span>{ahpPercent[f.id]?.toFixed(1)}% <span className="text-slate-400 font-medium">（当前 {f.weight}%）</span></span>
+                                </div>
+                                <div className="h-2 bg-slate-100 dark:bg-slate-700 rounded-full overflow-hidden">
+                                    <div className="h-full bg-blue-600 rounded-full" style={{ width: `${ahpPercent[f.id] || 0}%` }} />
+                                </div>
+                            </div>
+                        ))}
+                        <div className="text-xs text-slate-500 dark:text-slate-400 grid grid-cols-3 gap-2 pt-2">
+                            <span>λmax = {ahp.lambdaMax.toFixed(3)}</span>
+                            <span>CI = {ahp.consistencyIndex.toFixed(3)}</span>
+                            <span>CR 阈值 ≤ {CONSISTENCY_THRESHOLD}</span>
+                        </div>
+                        {!ahp.consistent && (
+                            <p className="text-xs font-bold text-red-600 dark:text-red-400">判断矩阵不一致（例如 A&gt;B、B&gt;C 却 C&gt;A），请调整后再发布。</p>
+                        )}
+                        <input
+                            type="text"
+                            placeholder="版本说明（如：2026 Q4 战略委员会评审）"
+                            className="w-full p-3 rounded-xl border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            value={notes}
+                            onChange={(e) => setNotes(e.target.value)}
+                        />
+                        <div className="flex gap-3">
+                            <button
+                                onClick={handlePublishAHP}
+                                disabled={!ahp.consistent || factorDefinitions.length < 2}
+                                className="flex-1 px-6 py-3 bg-blue-600 text-white font-bold rounded-xl hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                            >
+                                发布 AHP 权重
+                            </button>
+                            <button
+                                onClick={handlePublishManual}
+                                disabled={!hasUnpublishedChanges}
+                                className="px-6 py-3 bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-200 font-bold rounded-xl hover:bg-slate-200 dark:hover:bg-slate-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                                title="把滑块设置的权重记为一个新版本"
+                            >
+                                发布手动权重
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            </div>
+
+            {/* Sensitivity */}
+            <div className="pt-8 border-t border-slate-100 dark:border-slate-700">
+                <div className="mb-6 flex items-center justify-between">
+                    <div>
+                        <h2 className="text-xl font-bold text-slate-800 dark:text-slate-100 flex items-center gap-2"><TrendingUp size={20} /> 权重敏感性分析</h2>
+                        <p className="text-slate-500 dark:text-slate-400">将一个因子的权重占比从 0 调到 100%（其余因子按比例分配），观察排名前 {MAX_SENSITIVITY_PROJECTS} 的项目排名变化</p>
+                    </div>
+                    <select
+                        value={selectedSensitivity?.factorId || ''}
+                        onChange={(e) => setSensitivityFactorId(e.target.value)}
+                        className="p-2 rounded-xl border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 text-sm font-bold"
+                    >
+                        {factorDefinitions.map(f => <option key={f.id} value={f.id}>{f.name}</option>)}
+                    </select>
+                </div>
+
+                {selectedSensitivity ? (
+                    <>
+                        <div className="h-[320px]">
+                            <ResponsiveContainer width="100%" height="100%">
+                                <LineChart data={sensitivityData} margin={{ top: 10, right: 20, left: 0, bottom: 10 }}>
+                                    <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                                    <XAxis dataKey="share" type="number" domain={[0, 100]} tickFormatter={(v) => `${v}%`} tick={{ fontSize: 11 }} />
+                                    <YAxis reversed allowDecimals={false} domain={[1, 'dataMax']} tick={{ fontSize: 11 }} />
+                                    <Tooltip labelFormatter={(v) => `${selectedSensitivity.factorName} 占比 ${v}%`} formatter={(value: number) => [`第 ${value} 名`]} />
+                                    <Legend />
+                                    <ReferenceLine x={Math.round(selectedSensitivity.currentShare * 10) / 10} stroke="#64748b" strokeDasharray="4 4" label={{ value: '当前', fontSize: 10 }} />
+                                    {trackedProjects.map((p, i) => (
+                                        <Line key={p.id} type="stepAfter" dataKey={p.name} stroke={LINE_COLORS[i % LINE_COLORS.length]} strokeWidth={2} dot={false} />
+                                    ))}
+                                </LineChart>
+                            </ResponsiveContainer>
+                        </div>
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-4 text-sm">
+                            {sensitivity.map(s => (
+                                <div key={s.factorId} className={`p-3 rounded-xl border ${s.factorId === selectedSensitivity.factorId ? 'border-blue-300 bg-blue-50 dark:bg-blue-900/20' : 'border-slate-100 dark:border-slate-700 bg-slate-50 dark:bg-slate-700/30'}`}>
+                                    <div className="font-bold text-slate-700 dark:text-slate-200">{s.factorName}</div>
+                                    <div className="text-xs text-slate-500 dark:text-slate-400">
+                                        当前 {s.currentShare.toFixed(1)}%，排名保持不变区间 {s.stableRange[0]}% ~ {s.stableRange[1]}%
+                                    </div>
+                                    <div className="text-xs text-slate-500 dark:text-slate-400">
+                                        {s.topChangesAt !== undefined ? `占比到 ${s.topChangesAt}% 时第一名易主` : '任意占比下第一名不变'}
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    </>
+                ) : (
+                    <p className="text-sm text-slate-400">暂无项目或因子权重合计为 0</p>
+                )}
+            </div>
+
+            {/* Versions & replay */}
+            <div className="pt-8 border-t border-slate-100 dark:border-slate-700">
+                <div className="mb-6 flex items-center justify-between">
+                    <div>
+                        <h2 className="text-xl font-bold text-slate-800 dark:text-slate-100 flex items-center gap-2"><History size={20} /> 权重版本与排名回溯</h2>
+                        <p className="text-slate-500 dark:text-slate-400">
+                            每次发布生成不可变版本；选择历史时间点，以当时生效的权重重现排名（项目因子打分取当前值）
+                            {hasUnpublishedChanges && <span className="text-orange-600 dark:text-orange-400 font-bold"> · 当前权重尚未发布</span>}
+                        </p>
+                    </div>
+                    <input
+                        type="datetime-local"
+                        value={replayAt}
+                        onChange={(e) => setReplayAt(e.target.value)}
+                        className="p-2 rounded-xl border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 text-sm"
+                    />
+                </div>
+
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+                    <div className="space-y-2 max-h-[360px] overflow-y-auto">
+                        {weightSets.length === 0 && <p className="text-sm text-slate-400">尚未发布任何权重版本</p>}
+                        {[...weightSets].reverse().map(set => (
+                            <div key={set.id} className={`p-3 rounded-xl border text-sm ${set.id === replaySet?.id ? 'border-blue-300 bg-blue-50 dark:bg-blue-900/20' : 'border-slate-100 dark:border-slate-700 bg-slate-50 dark:bg-slate-700/30'}`}>
+                                <div className="flex justify-between font-bold text-slate-700 dark:text-slate-200">
+                                    <span>{set.name} · {set.method === 'ahp' ? `AHP（CR=${set.consistencyRatio?.toFixed(3)}）` : '手动'}</span>
+                                    <span className="text-xs text-slate-400">{format(new Date(set.effectiveFrom), 'yyyy-MM-dd HH:mm')} · {set.createdBy}</span>
+                                </div>
+                                <div className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+                                    {Object.entries(set.weights).map(([id, w]) => `${set.factorNames[id] || id} ${w}%`).join('，')}
+                                </div>
+                                {set.notes && <div className="text-xs text-slate-400 italic mt-1">{set.notes}</div>}
+                            </div>
+                        ))}
+                    </div>
+
+                    <div>
+                        {replaySet ? (
+                            <table className="w-full text-sm">
+                                <thead className="text-xs font-bold text-slate-400 text-left">
+                                    <tr>
+                                        <th className="py-2">{replaySet.name} 排名</th>
+                                        <th className="py-2">项目</th>
+                                        <th className="py-2 text-right">得分</th>
+                                        <th className="py-2 text-right">当前排名</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+                                    {replayRanking.map(p => {
+                                        const current = projects.find(c => c.id === p.id)?.rank;
+                                        return (
+                                            <tr key={p.id} className="text-slate-700 dark:text-slate-300">
+                                                <td className="py-2 font-bold">#{p.rank}</td>
+                                                <td className="py-2">{p.name}</td>
+                                                <td className="py-2 text-right">{p.score?.toFixed(2)}</td>
+                                                <td className={`py-2 text-right font-bold ${current !== p.rank ? 'text-orange-600 dark:text-orange-400' : 'text-slate-400'}`}>#{current}</td>
+                                            </tr>
+                                        );
+                                    })}
+                                </tbody>
+                            </table>
+                        ) : (
+                            <p className="text-sm text-slate-400">该时间点之前没有已发布的权重版本</p>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default FactorWeightingPanel;
@@ -0,0 +1,241 @@
+import React, { useState } from 'react';
+import { RefreshCw, CheckCircle, AlertTriangle, Link as LinkIcon, Save, ChevronDown, ChevronRight } from 'lucide-react';
+import { usePMOStore } from '../store/usePMOStore';
+import { useFeishuSync } from '../hooks/useFeishuSync';
+import {
+    DEFAULT_TABLE_MAPPINGS,
+    ENTITY_FIELDS,
+    ENTITY_LABELS,
+    type FeishuEntityType,
+    type FeishuSyncConfig,
+    type FeishuTableMapping
+} from '../services/feishu';
+
+const ENTITIES = Object.keys(ENTITY_LABELS) as FeishuEntityType[];
+
+const inputClass = 'w-full p-2.5 rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100 focus:ring-2 focus:ring-purple-500 focus:outline-none';
+
+const createDraft = (config: FeishuSyncConfig | null): FeishuSyncConfig => ({
+    appToken: config?.appToken || '',
+    defaultTeamId: config?.defaultTeamId,
+    tables: ENTITIES.map(entity => config?.tables.find(t => t.entity === entity) || { ...DEFAULT_TABLE_MAPPINGS[entity], tableId: '' })
+});
+
+const formatValue = (value: unknown) => value === undefined || value === null || value === '' ? '（空）' : String(value);
+
+/**
+ * 飞书多维表格连接配置、字段映射、同步与冲突处理
+ */
+const FeishuIntegrationPanel: React.FC = () => {
+    const setFeishuConfig = usePMOStore((state) => state.setFeishuConfig);
+    const { config, syncState, isSyncing, lastResult, sync, resolveConflict } = useFeishuSync();
+    const [draft, setDraft] = useState<FeishuSyncConfig>(() => createDraft(config));
+    const [expanded, setExpanded] = useState<FeishuEntityType | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const isDirty = JSON.stringify(createDraft(config)) !== JSON.stringify(draft);
+    const canSync = !!config?.appToken && config.tables.some(t => t.tableId) && !isDirty;
+
+    const updateTable = (entity: FeishuEntityType, updates: Partial<FeishuTableMapping>) => {
+        setDraft({ ...draft, tables: draft.tables.map(t => t.entity === entity ? { ...t, ...updates } : t) });
+    };
+
+    const handleSave = () => {
+        setFeishuConfig({ ...draft, tables: draft.tables.map(t => ({ ...t, tableId: t.tableId.trim() })) });
+    };
+
+    const handleSync = async () => {
+        setError(null);
+        try {
+            await sync();
+        } catch (e) {
+            setError(e instanceof Error ? e.message : String(e));
+        }
+    };
+
+    const handleResolve = async (index: number, keep: 'remote' | 'local') => {
+        setError(null);
+        try {
+            await resolveConflict(syncState.conflicts[index], keep);
+        } catch (e) {
+            setError(e instanceof Error ? e.message : String(e));
+        }
+    };
+
+    return (
+        <div className="bg-slate-50 dark:bg-slate-700/30 p-6 rounded-xl border border-slate-200 dark:border-slate-600 space-y-6">
+            <div className="flex items-start justify-between">
+                <div className="flex items-center gap-4">
+                    <div className="w-12 h-12 bg-white dark:bg-slate-600 rounded-lg flex items-center justify-center shadow-sm">
+                        <LinkIcon className="text-blue-500" size={24} />
+                    </div>
+                    <div>
+                        <h3 className="font-bold text-slate-900 dark:text-slate-100 text-lg">Feishu / Lark Integration</h3>
+                        <p className="text-sm text-slate-500 dark:text-slate-400">
+                            Two-way sync of projects, tasks, team members and bays with Feishu Bitable.
+                        </p>
+                    </div>
+                </div>
+                {syncState.lastSyncedAt && (
+                    <span className="text-xs text-green-600 dark:text-green-400 font-medium bg-green-50 dark:bg-green-900/20 px-3 py-1 rounded-full border border-green-100 dark:border-green-900/30 flex items-center gap-1">
+                        <CheckCircle size={12} /> Last synced: {new Date(syncState.lastSyncedAt).toLocaleString()}
+                    </span>
+                )}
+            </div>
+
+            {/* Connection */}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                    <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-1">Bitable App Token</label>
+                    <input
+                        type="text"
+                        placeholder="bascnXXXXXXXXXXXX"
+                        value={draft.appToken}
+                        onChange={(e) => setDraft({ ...draft, appToken: e.target.value })}
+                        className={inputClass}
+                    />
+                </div>
+                <p className="text-xs text-slate-500 dark:text-slate-400 self-end">
+                    App ID / App Secret 只在存储服务端配置（FEISHU_APP_ID / FEISHU_APP_SECRET），同步经服务端代理访问飞书开放平台。
+                </p>
+            </div>
+
+            {/* Tables & field mapping */}
+            <div className="space-y-2">
+                <h4 className="text-sm font-semibold text-slate-700 dark:text-slate-300">Tables & Field Mapping</h4>
+                {draft.tables.map(table => (
+                    <div key={table.entity} className="bg-white dark:bg-slate-800 rounded-lg border border-slate-200 dark:border-slate-600">
+                        <div className="flex items-center gap-3 p-3">
+                            <button
+                                onClick={() => setExpanded(expanded === table.entity ? null : table.entity)}
+                                className="flex items-center gap-1 w-32 text-sm font-medium text-slate-700 dark:text-slate-200"
+                            >
+                                {expanded === table.entity ? <ChevronDown size={16} /> : <ChevronRight size={16} />}
+                                {ENTITY_LABELS[table.entity]}
+                            </button>
+                            <input
+                                type="text"
+                                placeholder="Table ID (tblXXXX)，留空则不同步"
+                                value={table.tableId}
+                                onChange={(e) => updateTable(table.entity, { tableId: e.target.value })}
+                                className={`${inputClass} flex-1 p-2 text-sm`}
+                            />
+                            {(lastResult?.stats[table.entity]) && (
+                                <span className="text-xs text-slate-500 whitespace-nowrap">
+                                    读取 {lastResult.stats[table.entity]!.fetched} · 新增 {lastResult.stats[table.entity]!.created} · 更新 {lastResult.stats[table.entity]!.updated} · 回写 {lastResult.stats[table.entity]!.pushed}
+                                </span>
+                            )}
+                        </div>
+
+                        {expanded === table.entity && (
+                            <div className="border-t border-slate-100 dark:border-slate-700 p-3 space-y-3">
+                                <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                                    {Object.keys(ENTITY_FIELDS[table.entity]).map(field => (
+                                        <label key={field} className="flex items-center gap-2 text-xs">
+                                            <span className="w-28 font-mono text-slate-500">{field}</span>
+                                            <input
+                                                type="text"
+                                                placeholder="不同步"
+                                                value={table.fields[field] || ''}
+                                                onChange={(e) => {
+                                                    const fields = { ...table.fields, [field]: e.target.value };
+                                                    if (!e.target.value) delete fields[field];
+                                                    updateTable(table.entity, { fields });
+                                                }}
+                                                className={`${inputClass} p-1.5 text-xs`}
+                                            />
+                                            {table.writeBackFields?.includes(field) && (
+                                                <span className="text-[10px] text-purple-600 whitespace-nowrap">回写</span>
+                                            )}
+                                        </label>
+                                    ))}
+                                </div>
+                                <label className="flex items-center gap-2 text-xs">
+                                    <span className="w-28 text-slate-500">修改时间字段</span>
+                                    <input
+                                        type="text"
+                                        placeholder="可选，配置后由飞书按修改时间过滤"
+                                        value={table.modifiedTimeField || ''}
+                                        onChange={(e) => updateTable(table.entity, { modifiedTimeField: e.target.value || undefined })}
+                                        className={`${inputClass} p-1.5 text-xs`}
+                                    />
+                                </label>
+                            </div>
+                        )}
+                    </div>
+                ))}
+            </div>
+
+            <div className="flex justify-end gap-3">
+                <button
+                    onClick={handleSave}
+                    disabled={!isDirty}
+                    className="flex items-center gap-2 px-5 py-2.5 rounded-lg font-semibold border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-200 hover:bg-white dark:hover:bg-slate-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+                >
+                    <Save size={18} />
+                    Save Configuration
+                </button>
+                <button
+                    onClick={handleSync}
+                    disabled={isSyncing || !canSync}
+                    className={`
+                        flex items-center gap-2 px-5 py-2.5 rounded-lg font-semibold text-white transition-all
+                        ${isSyncing
+                            ? 'bg-purple-400 cursor-wait'
+                            : !canSync ? 'bg-slate-300 dark:bg-slate-700 cursor-not-allowed' : 'bg-purple-600 hover:bg-purple-700 shadow-md hover:shadow-lg'}
+                    `}
+                >
+                    <RefreshCw size={18} className={isSyncing ? 'animate-spin' : ''} />
+                    {isSyncing ? 'Syncing...' : 'Sync Data Now'}
+                </button>
+            </div>
+
+            {(error || (lastResult && lastResult.errors.length > 0)) && (
+                <div className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-100 dark:border-red-900/30 text-sm text-red-700 dark:text-red-300 space-y-1">
+                    {error && <div>{error}</div>}
+                    {lastResult?.errors.map((message, i) => <div key={i}>{message}</div>)}
+                </div>
+            )}
+
+            {/* Conflicts */}
+            {syncState.conflicts.length > 0 && (
+                <div className="space-y-2">
+                    <h4 className="text-sm font-semibold text-amber-600 flex items-center gap-2">
+                        <AlertTriangle size={16} />
+                        {syncState.conflicts.length} 条记录在本地和飞书同时被修改，解决前不会回写
+                    </h4>
+                    {syncState.conflicts.map((conflict, index) => (
+                        <div key={`${conflict.tableId}/${conflict.recordId}`} className="p-3 rounded-lg bg-amber-50 dark:bg-amber-900/20 border border-amber-100 dark:border-amber-900/30 text-sm">
+                            <div className="flex items-center justify-between mb-2">
+                                <span className="font-medium text-slate-800 dark:text-slate-100">
+                                    {ENTITY_LABELS[conflict.entity]} · {conflict.name}
+                                </span>
+                                <div className="flex gap-2">
+                                    <button
+                                        onClick={() => handleResolve(index, 'remote')}
+                                        className="px-3 py-1 text-xs rounded-md bg-white dark:bg-slate-700 border border-slate-200 dark:border-slate-600 hover:bg-slate-50"
+                                    >
+                                        保留飞书
+                                    </button>
+                                    <button
+                                        onClick={() => handleResolve(index, 'local')}
+                                        className="px-3 py-1 text-xs rounded-md bg-purple-600 text-white hover:bg-purple-700"
+                                    >
+                                        保留本地
+                                    </button>
+                                </div>
+                            </div>
+                            {conflict.fields.map(f => (
+                                <div key={f.field} className="text-xs text-slate-600 dark:text-slate-300">
+                                    <span className="font-mono">{f.field}</span>：本地 {formatValue(f.localValue)} / 飞书 {formatValue(f.remoteValue)}
+                                </div>
+                            ))}
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default FeishuIntegrationPanel;
@@ -7,7 +7,9 @@ import {
     format, addDays, differenceInDays, startOfWeek,
     parseISO, startOfMonth
 } from 'date-fns';
-import type { Task, Milestone } from '../types';
+import type { Task, Milestone, WorkingCalendar } from '../types';
+import { getTaskDependencies, calculateCriticalPath } from '../utils/taskDependency';
+import { undoHistory, useUndoHistory } from '../services/undoHistory';
 
 interface InteractiveGanttChartProps {
     tasks: Task[];
@@ -21,6 +23,7 @@ interface InteractiveGanttChartProps {
     onDependencyAdd?: (sourceId: string, targetId: string) => void;
     onDependencyDelete?: (sourceId: string, targetId: string) => void;
     onEditTask?: (task: Task) => void;
+    calendar?: WorkingCalendar;
 }
 
 type ViewMode = 'Day' | 'Week' | 'Month';
@@ -40,6 +43,7 @@ const InteractiveGanttChart: React.FC<InteractiveGanttChartProps> = ({
     onDependencyAdd,
     onDependencyDelete,
     onEditTask,
+    calendar,
 }) => {
     const containerRef = useRef<HTMLDivElement>(null);
     const sidebarRef = useRef<HTMLDivElement>(null);
@@ -56,6 +60,7 @@ const InteractiveGanttChart: React.FC<InteractiveGanttChartProps> = ({
     // Interaction states
     const [draggingTask, setDraggingTask] = useState<{ id: string, type: 'move' | 'resize-l' | 'resize-r', startX: number, status?: string } | null>(null);
     const [linkingState, setLinkingState] = useState<{ sourceId: string, endX: number, endY: number } | null>(null);
+    const { canUndo, canRedo, undoLabel, redoLabel } = useUndoHistory();
 
     // --- Auto Scroll to Today ---
     React.useEffect(() => {
@@ -92,6 +97,9 @@ const InteractiveGanttChart: React.FC<InteractiveGanttChartProps> = ({
         };
     }, [tasks]);
 
+    // Critical path (CPM, honours FS/SS/FF/SF links and lag)
+    const criticalTaskIds = useMemo(() => new Set(calculateCriticalPath(tasks, calendar).criticalPath), [tasks, calendar]);
+
     // Handle Zoom & View Mode
     const getBaseWidth = () => {
         switch (viewMode) {
@@ -110,6 +118,8 @@ const InteractiveGanttChart: React.FC<InteractiveGanttChartProps> = ({
 
     const handleTaskDragStart = (e: React.MouseEvent, task: Task, type: 'move' | 'resize-l' | 'resize-r') => {
         e.stopPropagation();
+        // 一次拖拽的连续更新合并为一步撤销
+        undoHistory.beginTransaction(type === 'move' ? '拖拽移动任务' : '拖拽调整工期');
         setDraggingTask({ id: task.id, type, startX: e.clientX });
     };
 
@@ -174,6 +184,7 @@ const InteractiveGanttChart: React.FC<InteractiveGanttChartProps> = ({
     };
 
     const handleMouseUp = () => {
+        if (draggingTask) undoHistory.commitTransaction();
         setIsDragging(false);
         setDraggingTask(null);
         setLinkingState(null);
@@ -304,8 +315,18 @@ const InteractiveGanttChart: React.FC<InteractiveGanttChartProps> = ({
                         <Target size={14} /> 跳转今天
                     </button>
                     <div className="w-px h-6 bg-slate-200 mx-1" />
-                    <button className="p-1.5 hover:bg-slate-100 rounded text-slate-600"><Undo2 size={18} /></button>
-                    <button className="p-1.5 hover:bg-slate-100 rounded text-slate-600"><Redo2 size={18} /></button>
+                    <button
+                        onClick={() => undoHistory.undo()}
+                        disabled={!canUndo}
+                        title={canUndo ? `撤销：${undoLabel}` : '没有可撤销的操作'}
+                        className="p-1.5 hover:bg-slate-100 rounded text-slate-600 disabled:opacity-40 disabled:hover:bg-transparent"
+                    ><Undo2 size={18} /></button>
+                    <button
+                        onClick={() => undoHistory.redo()}
+                        disabled={!canRedo}
+                        title={canRedo ? `重做：${redoLabel}` : '没有可重做的操作'}
+                        className="p-1.5 hover:bg-slate-100 rounded text-slate-600 disabled:opacity-40 disabled:hover:bg-transparent"
+                    ><Redo2 size={18} /></button>
                     <div className="w-px h-6 bg-slate-200 mx-1" />
                     <button className="p-1.5 hover:bg-slate-100 rounded text-slate-600"><Download size={18} /></button>
                 </div>
@@ -419,18 +440,26 @@ const InteractiveGanttChart: React.FC<InteractiveGanttChartProps> = ({
                                     </marker>
                                 </defs>
                                 {tasks.flatMap(task =>
-                                    (task.dependencies || []).map(depId => {
-                                        const targetTask = tasks.find(t => t.id === depId);
-                                        if (!targetTask) return null;
-                                        const startX = getXFromDate(task.endDate) + currentCellWidth;
-                                        const startY = tasks.findIndex(t => t.id === task.id) * ROW_HEIGHT + 20 + 16;
-                                        const endX = getXFromDate(targetTask.startDate);
-                                        const endY = tasks.findIndex(t => t.id === targetTask.id) * ROW_HEIGHT + 20 + 16;
+                                    getTaskDependencies(task).map(dep => {
+                                        const sourceTask = tasks.find(t => t.id === dep.taskId);
+                                        if (!sourceTask) return null;
+                                        // 前置任务的开始/完成端 -> 当前任务的开始/完成端
+                                        const fromStart = dep.type === 'SS' || dep.type === 'SF';
+                                        const toFinish = dep.type === 'FF' || dep.type === 'SF';
+                                        const startX = fromStart
+                                            ? getXFromDate(sourceTask.startDate)
+                                            : getXFromDate(sourceTask.endDate) + currentCellWidth;
+                                        const startY = tasks.findIndex(t => t.id === sourceTask.id) * ROW_HEIGHT + 20 + 16;
+                                        const endX = toFinish
+                                            ? getXFromDate(task.endDate) + currentCellWidth
+                                            : getXFromDate(task.startDate);
+                                        const endY = tasks.findIndex(t => t.id === task.id) * ROW_HEIGHT + 20 + 16;
+                                        const isCriticalLink = criticalTaskIds.has(sourceTask.id) && criticalTaskIds.has(task.id);
                                         return (
                                             <path
-                                                key={`${task.id}-${targetTask.id}`}
+                                                key={`${sourceTask.id}-${task.id}`}
                                                 d={`M ${startX} ${startY} C ${startX + 30} ${startY}, ${endX - 30} ${endY}, ${endX} ${endY}`}
-                                                stroke="#cbd5e1" strokeWidth="1.5" fill="none" markerEnd="url(#arrowhead)"
+                                                stroke={isCriticalLink ? '#ef4444' : '#cbd5e1'} strokeWidth={isCriticalLink ? 2 : 1.5} fill="none" markerEnd="url(#arrowhead)"
                                             />
                                         );
                                     })
@@ -453,6 +482,7 @@ const InteractiveGanttChart: React.FC<InteractiveGanttChartProps> = ({
                                     const width = Math.max(currentCellWidth, differenceInDays(parseISO(task.endDate), parseISO(task.startDate)) * currentCellWidth + currentCellWidth);
                                     const top = index * ROW_HEIGHT + 20;
                                     const isSelected = selectedTasks.has(task.id);
+                                    const isCritical = criticalTaskIds.has(task.id);
 
                                     if (task.type === 'milestone') {
                                         return (
@@ -476,8 +506,9 @@ const InteractiveGanttChart: React.FC<InteractiveGanttChartProps> = ({
                                     return (
                                         <motion.div
                                             key={task.id}
-                                            className={`absolute h-8 rounded-lg shadow-sm border border-black/5 flex items-center group overflow-hidden ${isSelected ? 'ring-2 ring-blue-500 z-30 shadow-md' : 'hover:shadow-md z-20'}`}
+                                            className={`absolute h-8 rounded-lg shadow-sm border border-black/5 flex items-center group overflow-hidden ${isSelected ? 'ring-2 ring-blue-500 z-30 shadow-md' : isCritical ? 'ring-2 ring-red-500 z-20' : 'hover:shadow-md z-20'}`}
                                             style={{ left: x, width, top, backgroundColor: task.color || '#3b82f6' }}
+                                            title={isCritical ? '关键路径任务' : undefined}
                                             onMouseDown={(e) => handleTaskDragStart(e, task, 'move')}
                                             onDoubleClick={() => onEditTask?.(task)}
                                             onContextMenu={(e) => {
@@ -19,6 +19,8 @@ const KeyboardShortcutsHelp: React.FC = () => {
         // Actions
         { key: 'Ctrl + N', description: 'New project', category: 'Actions' },
         { key: 'Ctrl + S', description: 'Save changes', category: 'Actions' },
+        { key: 'Ctrl + Z', description: 'Undo last change', category: 'Actions' },
+        { key: 'Ctrl + Shift + Z', description: 'Redo', category: 'Actions' },
         { key: 'Ctrl + F', description: 'Search/Filter', category: 'Actions' },
         { key: 'Ctrl + E', description: 'Export data', category: 'Actions' },
 
@@ -3,14 +3,18 @@ import { Link, useLocation, useNavigate } from 'react-router-dom';
 import {
     LayoutDashboard, FolderKanban, PieChart, Settings, Users, LogOut,
     Moon, Sun, Bell, Check, Trash2, Brain, FileText, Copy, Upload,
-    TrendingUp, Search, Shield, BarChart3, Briefcase, Box, Activity
+    TrendingUp, Search, Shield, ShieldCheck, BarChart3, Briefcase, Box, Activity, BookOpen
 } from 'lucide-react';
 import { checkDeadlines, checkResourceConflicts } from '../utils/notifications';
 import clsx from 'clsx';
 import { useStore } from '../store/useStore';
+import { canSwitchRole, ROLE_LABELS } from '../utils/permissions';
+import type { UserRole } from '../types';
 import { useDarkMode } from '../hooks/useDarkMode';
 import NotificationToast from './NotificationToast';
 import GlobalSearch from './GlobalSearch';
+import SyncStatusIndicator from './SyncStatusIndicator';
+import UndoRedoControls from './UndoRedoControls';
 
 interface LayoutProps {
     children: React.ReactNode;
@@ -22,17 +26,14 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
     const [isNotificationsOpen, setIsNotificationsOpen] = useState(false);
     const [isSearchOpen, setIsSearchOpen] = useState(false);
     const [isUserMenuOpen, setIsUserMenuOpen] = useState(false);
-    const { logout, login, user, updateUser, projects, resourcePool, alerts, addAlert, markAlertRead, clearAlerts } = useStore();
+    const { logout, user, switchRole, projects, resourcePool, alerts, addAlert, markAlertRead, clearAlerts } = useStore();
     const { isDark, toggleDarkMode } = useDarkMode();
 
-    const handleRoleSwitch = (role: 'admin' | 'manager' | 'user') => {
-        const name = role === 'admin' ? 'PMO 总监' : role === 'manager' ? '项目经理' : '普通用户';
-        if (user) {
-            updateUser({ role, name });
-        } else {
-            login(role, role); // 使用 role 作为用户名和角色进行初始化
-            updateUser({ name }); // 更新显示名称
-        }
+    // 仅管理员可切换视角预览其他角色；切换只改变生效角色，不改变用户身份
+    const canSwitch = canSwitchRole(user);
+    const handleRoleSwitch = (role: UserRole) => {
+        if (!canSwitch) return;
+        switchRole(role);
     };
 
     // Close menus on path change
@@ -156,6 +157,8 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
                 { label: '依赖图谱', path: '/pmo/dependencies', icon: Search, description: '跨项目拓扑' },
                 { label: '集成环境', path: '/environments', icon: Shield, description: '生产力资源' },
                 { label: 'What-If 推演', path: '/simulation', icon: Brain, description: '风险博弈' },
+                { label: '经验教训库', path: '/pmo/lessons', icon: BookOpen, description: '复盘沉淀' },
+                { label: '审计追踪', path: '/pmo/audit', icon: ShieldCheck, description: '变更记录' },
             ];
         }
 
@@ -266,6 +269,10 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
                         <Search size={20} />
                     </button>
 
+                    <UndoRedoControls />
+
+                    <SyncStatusIndicator />
+
                     {/* Notification Bell */}
                     <div className="relative notification-menu-container">
                         <button
@@ -344,7 +351,7 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
                     <div className="hidden sm:block h-6 w-px bg-slate-200 dark:bg-slate-700 mx-1"></div>
 
                     {/* Role Quick Switcher - More Compact on Zoom */}
-                    <div className="hidden min-[1100px]:flex bg-slate-100 dark:bg-slate-700 p-1 rounded-lg flex-shrink-0">
+                    {canSwitch && <div className="hidden min-[1100px]:flex bg-slate-100 dark:bg-slate-700 p-1 rounded-lg flex-shrink-0">
                         <button
                             onClick={() => handleRoleSwitch('admin')}
                             className={clsx(
@@ -379,14 +386,14 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
                         >
                             用户
                         </button>
-                    </div>
+                    </div>}
 
                     <div className="hidden lg:block h-6 w-px bg-slate-200 dark:bg-slate-700 mx-1"></div>
 
                     <div className="flex items-center gap-2 lg:gap-3 pl-2 flex-shrink-0">
                         <div className="text-right hidden sm:block">
                             <div className="text-sm font-bold text-slate-900 dark:text-slate-200 truncate max-w-[100px]">{user?.name || 'User'}</div>
-                            <div className="text-xs text-slate-500 dark:text-slate-400">{user?.role || 'Guest'}</div>
+                            <div className="text-xs text-slate-500 dark:text-slate-400">{user ? ROLE_LABELS[user.role] : 'Guest'}</div>
                         </div>
                         <div className="relative user-menu-container">
                             <button
@@ -402,7 +409,7 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
                                     <div className="py-1">
                                         <div className="sm:hidden px-4 py-2 border-b border-slate-100 dark:border-slate-700">
                                             <div className="text-sm font-bold text-slate-900 dark:text-slate-200">{user?.name || 'User'}</div>
-                                            <div className="text-xs text-slate-500 dark:text-slate-400">{user?.role || 'Guest'}</div>
+                                            <div className="text-xs text-slate-500 dark:text-slate-400">{user ? ROLE_LABELS[user.role] : 'Guest'}</div>
                                         </div>
                                         <Link to="/workbench" className="flex items-center gap-2 px-4 py-2 text-sm text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700">
                                             <Check size={16} /> 我的任务
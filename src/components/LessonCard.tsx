@@ -0,0 +1,82 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { Edit2, Trash2 } from 'lucide-react';
+import type { LessonLearned } from '../types';
+import { getRiskCategoryInfo } from '../utils/riskManagement';
+
+interface LessonCardProps {
+    lesson: LessonLearned;
+    projectTypeName?: string;
+    showProject?: boolean;
+    onEdit?: () => void;
+    onDelete?: () => void;
+}
+
+/**
+ * 单条经验教训：问题、根本原因与改进建议
+ */
+const LessonCard: React.FC<LessonCardProps> = ({ lesson, projectTypeName, showProject, onEdit, onDelete }) => {
+    const categoryInfo = getRiskCategoryInfo(lesson.category);
+
+    return (
+        <div className="border border-slate-200 dark:border-slate-700 rounded-lg p-4 group">
+            <div className="flex items-start justify-between gap-3 mb-2">
+                <div className="flex items-center gap-2 flex-wrap">
+                    <span className="text-lg">{categoryInfo.icon}</span>
+                    <h4 className="font-semibold text-slate-800 dark:text-slate-100">{lesson.title}</h4>
+                    <span className={`text-xs ${categoryInfo.color}`}>{categoryInfo.label}</span>
+                    {projectTypeName && (
+                        <span className="px-2 py-0.5 bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 rounded text-xs">
+                            {projectTypeName}
+                        </span>
+                    )}
+                </div>
+                {(onEdit || onDelete) && (
+                    <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                        {onEdit && (
+                            <button onClick={onEdit} className="p-1.5 text-slate-400 hover:text-blue-600 hover:bg-blue-50 rounded" title="编辑">
+                                <Edit2 size={14} />
+                            </button>
+                        )}
+                        {onDelete && (
+                            <button onClick={onDelete} className="p-1.5 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded" title="删除">
+                                <Trash2 size={14} />
+                            </button>
+                        )}
+                    </div>
+                )}
+            </div>
+
+            <div className="space-y-2 text-sm">
+                <p className="text-slate-700 dark:text-slate-200">
+                    <span className="font-medium text-slate-500 dark:text-slate-400">问题：</span>{lesson.whatWentWrong}
+                </p>
+                <p className="text-slate-700 dark:text-slate-200">
+                    <span className="font-medium text-slate-500 dark:text-slate-400">根本原因：</span>{lesson.rootCause}
+                </p>
+                {lesson.recommendation && (
+                    <p className="text-emerald-700 dark:text-emerald-300">
+                        <span className="font-medium">建议：</span>{lesson.recommendation}
+                    </p>
+                )}
+            </div>
+
+            <div className="flex items-center gap-2 flex-wrap mt-3 text-xs text-slate-400">
+                {showProject && (
+                    <Link to={`/projects/${lesson.projectId}`} className="text-blue-600 hover:underline">
+                        {lesson.projectName}
+                    </Link>
+                )}
+                <span>{lesson.createdAt.split('T')[0]}{lesson.createdBy ? ` · ${lesson.createdBy}` : ''}</span>
+                {(lesson.relatedRiskIds?.length || 0) > 0 && <span>· 关联 {lesson.relatedRiskIds!.length} 个已发生风险</span>}
+                {lesson.tags?.map(tag => (
+                    <span key={tag} className="px-2 py-0.5 bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 rounded">
+                        {tag}
+                    </span>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default LessonCard;
@@ -0,0 +1,165 @@
+import React, { useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import type { LessonLearned, Project, RiskCategory } from '../types';
+import { getRiskCategoryInfo } from '../utils/riskManagement';
+import { LESSON_CATEGORIES } from '../utils/lessonsLearned';
+
+interface LessonFormModalProps {
+    isOpen: boolean;
+    project: Project;
+    existingLesson?: LessonLearned | null;
+    onClose: () => void;
+    onSave: (lesson: Omit<LessonLearned, 'id' | 'createdAt' | 'createdBy'>) => void;
+}
+
+const inputClass = 'w-full px-3 py-2 border border-slate-200 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-800 dark:text-slate-100';
+const labelClass = 'block text-sm font-medium text-slate-700 dark:text-slate-200 mb-2';
+
+/**
+ * 收尾复盘：记录一条经验教训（问题、根本原因、类别、改进建议），可关联实际发生的风险
+ */
+const LessonFormModal: React.FC<LessonFormModalProps> = ({
+    isOpen,
+    project,
+    existingLesson,
+    onClose,
+    onSave,
+}) => {
+    const [form, setForm] = useState<Partial<LessonLearned>>({});
+    const [tagInput, setTagInput] = useState('');
+
+    useEffect(() => {
+        setForm(existingLesson ? { ...existingLesson } : { category: 'schedule', relatedRiskIds: [] });
+        setTagInput(existingLesson?.tags?.join(', ') || '');
+    }, [existingLesson, isOpen]);
+
+    if (!isOpen) return null;
+
+    const risks = project.risks || [];
+
+    const toggleRisk = (riskId: string) => {
+        const current = form.relatedRiskIds || [];
+        setForm({ ...form, relatedRiskIds: current.includes(riskId) ? current.filter(id => id !== riskId) : [...current, riskId] });
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!form.title?.trim() || !form.whatWentWrong?.trim() || !form.rootCause?.trim()) {
+            alert('请填写标题、问题描述与根本原因');
+            return;
+        }
+        onSave({
+            projectId: project.id,
+            projectName: project.name,
+            projectType: project.projectType,
+            category: form.category || 'schedule',
+            title: form.title.trim(),
+            whatWentWrong: form.whatWentWrong.trim(),
+            rootCause: form.rootCause.trim(),
+            recommendation: form.recommendation?.trim() || undefined,
+            relatedRiskIds: form.relatedRiskIds,
+            tags: tagInput.split(/[,，]/).map(t => t.trim()).filter(Boolean),
+        });
+        onClose();
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+            <div className="bg-white dark:bg-slate-800 rounded-xl shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-hidden flex flex-col">
+                <div className="flex items-center justify-between p-6 border-b border-slate-200 dark:border-slate-700">
+                    <div>
+                        <h2 className="text-xl font-bold text-slate-800 dark:text-slate-100">
+                            {existingLesson ? '编辑经验教训' : '记录经验教训'}
+                        </h2>
+                        <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">{project.name}</p>
+                    </div>
+                    <button onClick={onClose} className="p-2 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-colors">
+                        <X size={20} />
+                    </button>
+                </div>
+
+                <form onSubmit={handleSubmit} className="flex-1 overflow-y-auto p-6 space-y-4">
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                        <div className="md:col-span-2">
+                            <label className={labelClass}>标题 *</label>
+                            <input value={form.title || ''} onChange={(e) => setForm({ ...form, title: e.target.value })} className={inputClass} />
+                        </div>
+                        <div>
+                            <label className={labelClass}>类别</label>
+                            <select
+                                value={form.category}
+                                onChange={(e) => setForm({ ...form, category: e.target.value as RiskCategory })}
+                                className={inputClass}
+                            >
+                                {LESSON_CATEGORIES.map(category => (
+                                    <option key={category} value={category}>{getRiskCategoryInfo(category).label}</option>
+                                ))}
+                            </select>
+                        </div>
+                    </div>
+                    <div>
+                        <label className={labelClass}>哪里出了问题 *</label>
+                        <textarea value={form.whatWentWrong || ''} onChange={(e) => setForm({ ...form, whatWentWrong: e.target.value })} rows={3} className={inputClass} />
+                    </div>
+                    <div>
+                        <label className={labelClass}>根本原因 *</label>
+                        <textarea value={form.rootCause || ''} onChange={(e) => setForm({ ...form, rootCause: e.target.value })} rows={2} className={inputClass} />
+                    </div>
+                    <div>
+                        <label className={labelClass}>改进建议</label>
+                        <textarea
+                            value={form.recommendation || ''}
+                            onChange={(e) => setForm({ ...form, recommendation: e.target.value })}
+                            rows={2}
+                            placeholder="后续同类项目应如何预防或应对"
+                            className={inputClass}
+                        />
+                    </div>
+                    <div>
+                        <label className={labelClass}>标签</label>
+                        <input value={tagInput} onChange={(e) => setTagInput(e.target.value)} placeholder="用逗号分隔" className={inputClass} />
+                    </div>
+
+                    {risks.length > 0 && (
+                        <div>
+                            <label className={labelClass}>实际发生的风险</label>
+                            <p className="text-xs text-slate-500 dark:text-slate-400 mb-2">
+                                关联的风险将作为同类型新项目的风险建议
+                            </p>
+                            <div className="flex flex-wrap gap-2">
+                                {risks.map(risk => (
+                                    <button
+                                        key={risk.id}
+                                        type="button"
+                                        onClick={() => toggleRisk(risk.id)}
+                                        className={`px-2 py-1 rounded-full text-xs border transition-colors ${(form.relatedRiskIds || []).includes(risk.id)
+                                            ? 'bg-blue-600 text-white border-blue-600'
+                                            : 'bg-white dark:bg-slate-700 text-slate-600 dark:text-slate-300 border-slate-300 dark:border-slate-600 hover:border-blue-400'
+                                            }`}
+                                    >
+                                        {risk.title}{risk.realizedDate ? '（已发生）' : ''}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+                </form>
+
+                <div className="flex items-center justify-end gap-3 p-6 border-t border-slate-200 dark:border-slate-700">
+                    <button
+                        type="button"
+                        onClick={onClose}
+                        className="px-4 py-2 text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-colors"
+                    >
+                        取消
+                    </button>
+                    <button onClick={handleSubmit} className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors">
+                        {existingLesson ? '保存更改' : '保存'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default LessonFormModal;
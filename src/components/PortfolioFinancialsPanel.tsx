@@ -0,0 +1,143 @@
+import React from 'react';
+import { Landmark } from 'lucide-react';
+import clsx from 'clsx';
+import { Card } from './ui';
+import type { FinancialMetrics, FinancialRollup, PortfolioFinancials } from '../utils/financialModel';
+
+interface PortfolioFinancialsPanelProps {
+    financials: PortfolioFinancials;
+    discountRate: number;
+    onDiscountRateChange: (rate: number) => void;
+}
+
+const formatYears = (years?: number) => years === undefined ? '未回本' : `${years.toFixed(1)} 年`;
+const formatPercent = (value?: number) => value === undefined ? '—' : `${value.toFixed(1)}%`;
+
+const MetricCells: React.FC<{ metrics: FinancialMetrics }> = ({ metrics }) => (
+    <>
+        <td className="py-3 text-right">¥{metrics.investment.toFixed(0)}W</td>
+        <td className={clsx('py-3 text-right', metrics.npv >= 0 ? 'text-emerald-600' : 'text-rose-500')}>¥{metrics.npv.toFixed(0)}W</td>
+        <td className="py-3 text-right">{formatPercent(metrics.irr)}</td>
+        <td className="py-3 text-right">{formatYears(metrics.paybackYears)}</td>
+        <td className="py-3 text-right">{formatYears(metrics.discountedPaybackYears)}</td>
+        <td className="py-3 text-right">{metrics.profitabilityIndex === undefined ? '—' : metrics.profitabilityIndex.toFixed(2)}</td>
+    </>
+);
+
+const METRIC_HEADERS = ['投入', 'NPV', 'IRR', '回收期', '折现回收期', 'PI'];
+
+const RollupTable: React.FC<{ title: string; rows: FinancialRollup[] }> = ({ title, rows }) => (
+    <div className="overflow-x-auto">
+        <div className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2">{title}</div>
+        <table className="w-full text-xs">
+            <thead className="text-[10px] font-black uppercase tracking-widest text-slate-400 text-left">
+                <tr>
+                    <th className="py-3">分组</th>
+                    <th className="py-3 text-right">项目数</th>
+                    {METRIC_HEADERS.map(h => <th key={h} className="py-3 text-right">{h}</th>)}
+                </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100 dark:divide-slate-700/50">
+                {rows.map(row => (
+                    <tr key={row.key} className="font-bold text-slate-700 dark:text-slate-300">
+                        <td className="py-3">{row.key}</td>
+                        <td className="py-3 text-right">{row.projectCount}</td>
+                        <MetricCells metrics={row} />
+                    </tr>
+                ))}
+            </tbody>
+        </table>
+    </div>
+);
+
+/**
+ * 折现现金流财务模型：项目级 NPV / IRR / 回收期 / 盈利指数，按技术平台、项目类型与组合汇总
+ */
+const PortfolioFinancialsPanel: React.FC<PortfolioFinancialsPanelProps> = ({ financials, discountRate, onDiscountRateChange }) => {
+    const { portfolio } = financials;
+
+    return (
+        <Card className="lg:col-span-12 p-10 rounded-[48px] shadow-xl border-none bg-white dark:bg-slate-800/80">
+            <div className="flex flex-col lg:flex-row lg:items-end justify-between gap-6 mb-10">
+                <div className="space-y-1">
+                    <div className="flex items-center gap-3">
+                        <div className="p-2.5 bg-emerald-500 rounded-2xl text-white shadow-lg shadow-emerald-500/20">
+                            <Landmark size={20} />
+                        </div>
+                        <h3 className="text-2xl font-black text-slate-900 dark:text-white uppercase tracking-tighter">折现现金流财务模型</h3>
+                    </div>
+                    <p className="text-[11px] font-bold text-slate-400 uppercase tracking-widest">
+                        第 0 年为研发投入，其后为各年预期净现金流 | 项目未设置折现率时使用组合默认值
+                    </p>
+                </div>
+
+                <label className="space-y-1">
+                    <span className="block text-[10px] font-black text-slate-400 uppercase tracking-widest">默认折现率 (%)</span>
+                    <input
+                        type="number"
+                        min={0}
+                        step={0.5}
+                        value={discountRate}
+                        onChange={(e) => onDiscountRateChange(parseFloat(e.target.value) || 0)}
+                        className="w-28 bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-xl px-3 py-2 text-sm font-black outline-none focus:ring-2 focus:ring-emerald-500"
+                    />
+                </label>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-10">
+                <div className="p-5 bg-slate-50 dark:bg-slate-900/40 rounded-[24px]">
+                    <div className="text-[10px] font-black text-slate-400 uppercase tracking-widest">组合 NPV</div>
+                    <div className={clsx('text-2xl font-black mt-1', portfolio.npv >= 0 ? 'text-emerald-600' : 'text-rose-500')}>¥{portfolio.npv.toFixed(0)}W</div>
+                </div>
+                <div className="p-5 bg-slate-50 dark:bg-slate-900/40 rounded-[24px]">
+                    <div className="text-[10px] font-black text-slate-400 uppercase tracking-widest">组合 IRR</div>
+                    <div className="text-2xl font-black text-slate-900 dark:text-white mt-1">{formatPercent(portfolio.irr)}</div>
+                </div>
+                <div className="p-5 bg-slate-50 dark:bg-slate-900/40 rounded-[24px]">
+                    <div className="text-[10px] font-black text-slate-400 uppercase tracking-widest">回收期</div>
+                    <div className="text-2xl font-black text-slate-900 dark:text-white mt-1">{formatYears(portfolio.paybackYears)}</div>
+                </div>
+                <div className="p-5 bg-slate-50 dark:bg-slate-900/40 rounded-[24px]">
+                    <div className="text-[10px] font-black text-slate-400 uppercase tracking-widest">折现回收期</div>
+                    <div className="text-2xl font-black text-slate-900 dark:text-white mt-1">{formatYears(portfolio.discountedPaybackYears)}</div>
+                </div>
+                <div className="p-5 bg-slate-50 dark:bg-slate-900/40 rounded-[24px]">
+                    <div className="text-[10px] font-black text-slate-400 uppercase tracking-widest">盈利指数 PI</div>
+                    <div className="text-2xl font-black text-slate-900 dark:text-white mt-1">
+                        {portfolio.profitabilityIndex === undefined ? '—' : portfolio.profitabilityIndex.toFixed(2)}
+                    </div>
+                </div>
+            </div>
+
+            <div className="overflow-x-auto mb-10">
+                <table className="w-full text-xs">
+                    <thead className="text-[10px] font-black uppercase tracking-widest text-slate-400 text-left">
+                        <tr>
+                            <th className="py-3">项目</th>
+                            <th className="py-3">平台 / 类型</th>
+                            <th className="py-3 text-right">折现率</th>
+                            {METRIC_HEADERS.map(h => <th key={h} className="py-3 text-right">{h}</th>)}
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100 dark:divide-slate-700/50">
+                        {financials.projects.map(p => (
+                            <tr key={p.projectId} className="font-bold text-slate-700 dark:text-slate-300">
+                                <td className="py-3">{p.projectName}</td>
+                                <td className="py-3 text-slate-400 font-medium">{p.techPlatform} · {p.projectType}</td>
+                                <td className="py-3 text-right">{p.discountRate}%</td>
+                                <MetricCells metrics={p} />
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-10">
+                <RollupTable title="按技术平台汇总" rows={financials.byPlatform} />
+                <RollupTable title="按项目类型汇总" rows={financials.byProjectType} />
+            </div>
+        </Card>
+    );
+};
+
+export default PortfolioFinancialsPanel;
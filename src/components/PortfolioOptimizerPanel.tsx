@@ -0,0 +1,236 @@
+import React, { useMemo, useState } from 'react';
+import {
+    ResponsiveContainer, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ReferenceLine
+} from 'recharts';
+import { Scale, AlertTriangle } from 'lucide-react';
+import clsx from 'clsx';
+import { Card } from './ui';
+import { useStore } from '../store/useStore';
+import { hasPermission } from '../utils/permissions';
+import {
+    DEFAULT_ROLE_CAPACITIES,
+    PORTFOLIO_DECISION_LABELS,
+    PORTFOLIO_LOCK_LABELS,
+    buildEfficientFrontier,
+    getPortfolioAnnualBudget,
+    getPortfolioRoles,
+    optimizePortfolio,
+    type PortfolioDecision
+} from '../utils/portfolioOptimizer';
+import type { PortfolioLock, Project, ResourceCapacity } from '../types';
+
+interface PortfolioOptimizerPanelProps {
+    projects: Project[];
+}
+
+const DECISION_STYLES: Record<PortfolioDecision, string> = {
+    fund: 'bg-emerald-50 text-emerald-600 dark:bg-emerald-900/30 dark:text-emerald-400',
+    defer: 'bg-amber-50 text-amber-600 dark:bg-amber-900/30 dark:text-amber-400',
+    stop: 'bg-rose-50 text-rose-600 dark:bg-rose-900/30 dark:text-rose-400'
+};
+
+/**
+ * 组合选择优化：在年度预算与角色产能约束下给出投入 / 延后 / 终止建议，并展示预算有效前沿
+ */
+const PortfolioOptimizerPanel: React.FC<PortfolioOptimizerPanelProps> = ({ projects }) => {
+    const { factorDefinitions, updateProject, user } = useStore();
+    const canEdit = hasPermission(user, 'project:edit');
+
+    const [annualBudget, setAnnualBudget] = useState(() => getPortfolioAnnualBudget(projects));
+    const [capacities, setCapacities] = useState<ResourceCapacity[]>(() => getPortfolioRoles(projects, DEFAULT_ROLE_CAPACITIES));
+
+    const result = useMemo(
+        () => optimizePortfolio(projects, factorDefinitions, { annualBudget, capacities }),
+        [projects, factorDefinitions, annualBudget, capacities]
+    );
+    const frontier = useMemo(
+        () => buildEfficientFrontier(projects, factorDefinitions, { annualBudget, capacities }),
+        [projects, factorDefinitions, annualBudget, capacities]
+    );
+
+    const setLock = (project: Project, lock: PortfolioLock | '') => {
+        if (!project.pmoMetrics) return;
+        updateProject(project.id, { pmoMetrics: { ...project.pmoMetrics, portfolioLock: lock || undefined } });
+    };
+
+    const setCapacity = (roleId: string, capacity: number) =>
+        setCapacities(capacities.map(c => c.roleId === roleId ? { ...c, capacity } : c));
+
+    return (
+        <Card className="lg:col-span-12 p-10 rounded-[48px] shadow-xl border-none bg-white dark:bg-slate-800/80">
+            <div className="flex flex-col lg:flex-row lg:items-end justify-between gap-6 mb-10">
+                <div className="space-y-1">
+                    <div className="flex items-center gap-3">
+                        <div className="p-2.5 bg-violet-500 rounded-2xl text-white shadow-lg shadow-violet-500/20">
+                            <Scale size={20} />
+                        </div>
+                        <h3 className="text-2xl font-black text-slate-900 dark:text-white uppercase tracking-tighter">组合选择优化器</h3>
+                    </div>
+                    <p className="text-[11px] font-bold text-slate-400 uppercase tracking-widest">
+                        多维背包：最大化加权评分 | 约束: 年度预算 × 各角色月度产能 | 成本按剩余研发投入计
+                    </p>
+                </div>
+
+                <div className="flex flex-wrap gap-4">
+                    <label className="space-y-1">
+                        <span className="block text-[10px] font-black text-slate-400 uppercase tracking-widest">年度预算 (万)</span>
+                        <input
+                            type="number"
+                            min={0}
+                            value={annualBudget}
+                            onChange={(e) => setAnnualBudget(parseFloat(e.target.value) || 0)}
+                            className="w-28 bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-xl px-3 py-2 text-sm font-black outline-none focus:ring-2 focus:ring-violet-500"
+                        />
+                    </label>
+                    {capacities.map(c => (
+                        <label key={c.roleId} className="space-y-1">
+                            <span className="block text-[10px] font-black text-slate-400 uppercase tracking-widest">{c.roleName} (人月/月)</span>
+                            <input
+                                type="number"
+                                min={0}
+                                value={c.capacity || ''}
+                                placeholder="不限"
+                                onChange={(e) => setCapacity(c.roleId, parseFloat(e.target.value) || 0)}
+                                className="w-28 bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-xl px-3 py-2 text-sm font-black outline-none focus:ring-2 focus:ring-violet-500"
+                            />
+                        </label>
+                    ))}
+                </div>
+            </div>
+
+            {result.violations.length > 0 && (
+                <div className="mb-8 p-5 bg-rose-50 dark:bg-rose-900/20 rounded-3xl border border-rose-100 dark:border-rose-900/40 space-y-1">
+                    {result.violations.map(v => (
+                        <div key={v} className="flex items-center gap-2 text-xs font-bold text-rose-600 dark:text-rose-400">
+                            <AlertTriangle size={14} /> {v}
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-10">
+                <div className="lg:col-span-2 space-y-6">
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                        <div className="p-5 bg-slate-50 dark:bg-slate-900/40 rounded-[24px]">
+                            <div className="text-[10px] font-black text-slate-400 uppercase tracking-widest">组合总评分</div>
+                            <div className="text-2xl font-black text-violet-600 mt-1">{result.totalScore.toFixed(1)}</div>
+                        </div>
+                        <div className="p-5 bg-slate-50 dark:bg-slate-900/40 rounded-[24px]">
+                            <div className="text-[10px] font-black text-slate-400 uppercase tracking-widest">预算占用</div>
+                            <div className="text-2xl font-black text-slate-900 dark:text-white mt-1">
+                                ¥{result.totalCost.toFixed(0)}W
+                                <span className="text-xs text-slate-400 ml-1">/ {result.annualBudget.toFixed(0)}</span>
+                            </div>
+                        </div>
+                        {result.roleUsage.slice(0, 2).map(r => (
+                            <div key={r.roleId} className="p-5 bg-slate-50 dark:bg-slate-900/40 rounded-[24px]">
+                                <div className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{r.roleName} 峰值</div>
+                                <div className={clsx('text-2xl font-black mt-1', r.peakDemand > r.capacity ? 'text-rose-500' : 'text-slate-900 dark:text-white')}>
+                                    {r.peakDemand.toFixed(1)}
+                                    <span className="text-xs text-slate-400 ml-1">/ {r.capacity}{r.peakMonth ? ` · ${r.peakMonth}` : ''}</span>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-xs">
+                            <thead className="text-[10px] font-black uppercase tracking-widest text-slate-400 text-left">
+                                <tr>
+                                    <th className="py-3">项目</th>
+                                    <th className="py-3 text-right">评分</th>
+                                    <th className="py-3 text-right">剩余投入</th>
+                                    <th className="py-3 text-center">建议</th>
+                                    <th className="py-3 pl-4">依据</th>
+                                    <th className="py-3">约束</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-slate-100 dark:divide-slate-700/50">
+                                {result.decisions.map(d => {
+                                    const project = projects.find(p => p.id === d.projectId)!;
+                                    return (
+                                        <tr key={d.projectId} className="font-bold text-slate-700 dark:text-slate-300">
+                                            <td className="py-3">
+                                                {d.projectName}
+                                                <span className="text-[10px] text-slate-400 ml-2 uppercase">{d.status}</span>
+                                            </td>
+                                            <td className="py-3 text-right">{d.score.toFixed(1)}</td>
+                                            <td className="py-3 text-right">¥{d.cost.toFixed(0)}W</td>
+                                            <td className="py-3 text-center">
+                                                <span className={clsx('px-3 py-1 rounded-full text-[10px] font-black', DECISION_STYLES[d.decision])}>
+                                                    {PORTFOLIO_DECISION_LABELS[d.decision]}
+                                                </span>
+                                            </td>
+                                            <td className="py-3 pl-4 text-slate-400 font-medium">{d.reason}</td>
+                                            <td className="py-3">
+                                                <select
+                                                    value={d.lock || ''}
+                                                    disabled={!canEdit || !project.pmoMetrics}
+                                                    onChange={(e) => setLock(project, e.target.value as PortfolioLock | '')}
+                                                    className="bg-transparent border border-slate-200 dark:border-slate-700 rounded-lg px-2 py-1 text-[10px] font-black outline-none disabled:opacity-50"
+                                                >
+                                                    <option value="">由优化器决定</option>
+                                                    {(Object.keys(PORTFOLIO_LOCK_LABELS) as PortfolioLock[]).map(lock => (
+                                                        <option key={lock} value={lock}>{PORTFOLIO_LOCK_LABELS[lock]}</option>
+                                                    ))}
+                                                </select>
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    </div>
+                    {!result.exact && (
+                        <p className="text-[10px] font-bold text-amber-500">项目数量较多，搜索已在节点上限处截止，结果为当前找到的最优组合。</p>
+                    )}
+                </div>
+
+                <div className="space-y-4">
+                    <div className="text-[10px] font-black text-slate-400 uppercase tracking-widest">有效前沿：预算 → 可达最大总评分</div>
+                    <div className="h-[320px]">
+                        <ResponsiveContainer width="100%" height="100%">
+                            <LineChart data={frontier} margin={{ top: 10, right: 20, left: 0, bottom: 10 }}>
+                                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" strokeOpacity={0.4} />
+                                <XAxis
+                                    dataKey="budget"
+                                    type="number"
+                                    domain={['dataMin', 'dataMax']}
+                                    axisLine={false}
+                                    tickLine={false}
+                                    tick={{ fontSize: 10, fontWeight: '800', fill: '#94a3b8' }}
+                                    tickFormatter={(v) => `${v}W`}
+                                />
+                                <YAxis
+                                    axisLine={false}
+                                    tickLine={false}
+                                    tick={{ fontSize: 10, fontWeight: '800', fill: '#94a3b8' }}
+                                />
+                                <Tooltip
+                                    contentStyle={{ borderRadius: '20px', border: 'none', boxShadow: '0 20px 25px -5px rgb(0 0 0 / 0.1)' }}
+                                    formatter={(value: number, name: string) => [name === 'totalScore' ? value.toFixed(1) : value, name === 'totalScore' ? '总评分' : name]}
+                                    labelFormatter={(v) => `预算 ¥${v}W`}
+                                />
+                                <ReferenceLine x={annualBudget} stroke="#8b5cf6" strokeDasharray="4 4" label={{ value: '当前预算', fontSize: 10, fill: '#8b5cf6' }} />
+                                <Line type="stepAfter" dataKey="totalScore" stroke="#8b5cf6" strokeWidth={3} dot={{ r: 4 }} />
+                            </LineChart>
+                        </ResponsiveContainer>
+                    </div>
+                    <div className="space-y-2">
+                        {frontier.map(point => (
+                            <div key={point.budget} className={clsx(
+                                'flex justify-between text-[11px] font-bold px-3 py-1.5 rounded-xl',
+                                point.budget === annualBudget ? 'bg-violet-50 dark:bg-violet-900/30 text-violet-600' : 'text-slate-500'
+                            )}>
+                                <span>¥{point.budget}W</span>
+                                <span>{point.fundedCount} 个项目 · 评分 {point.totalScore.toFixed(1)}</span>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            </div>
+        </Card>
+    );
+};
+
+export default PortfolioOptimizerPanel;
@@ -0,0 +1,366 @@
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle, CheckCircle2, Flag, FolderKanban, Plus, Trash2, X } from 'lucide-react';
+import clsx from 'clsx';
+import { Card, Badge, Button } from './ui';
+import { useStore, usePermission } from '../store/useStore';
+import {
+    PROGRAM_MILESTONE_STATUS_LABELS,
+    buildProgramRollup,
+    getUnassignedProjects,
+    type ProgramMilestoneStatus,
+    type ProgramRollup
+} from '../utils/programRollup';
+import { getRAGColorClass } from '../utils/portfolioHealth';
+import { formatCurrency, formatPerformanceIndex, getPerformanceIndexColor } from '../utils/evmCalculations';
+import type { Program, ProgramMilestone, Project } from '../types';
+
+interface ProgramPanelProps {
+    projects: Project[];
+}
+
+const MILESTONE_STATUS_STYLES: Record<ProgramMilestoneStatus, string> = {
+    completed: 'text-emerald-600 bg-emerald-50 dark:bg-emerald-900/20',
+    on_track: 'text-blue-600 bg-blue-50 dark:bg-blue-900/20',
+    at_risk: 'text-amber-600 bg-amber-50 dark:bg-amber-900/20',
+    overdue: 'text-rose-600 bg-rose-50 dark:bg-rose-900/20'
+};
+
+const HEALTH_DIMENSIONS: { key: keyof ProgramRollup['health']; label: string }[] = [
+    { key: 'scheduleHealth', label: '进度' },
+    { key: 'budgetHealth', label: '预算' },
+    { key: 'scopeHealth', label: '范围' },
+    { key: 'qualityHealth', label: '质量' },
+    { key: 'riskHealth', label: '风险' }
+];
+
+const inputClass = 'w-full bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-xl px-3 py-2 text-sm font-bold outline-none focus:ring-2 focus:ring-indigo-500';
+
+/**
+ * 成员项目多选
+ */
+const ProjectPicker: React.FC<{ projects: Project[]; selected: string[]; onChange: (ids: string[]) => void }> = ({ projects, selected, onChange }) => (
+    <div className="flex flex-wrap gap-2">
+        {projects.map(p => (
+            <button
+                key={p.id}
+                type="button"
+                onClick={() => onChange(selected.includes(p.id) ? selected.filter(id => id !== p.id) : [...selected, p.id])}
+                className={clsx(
+                    'px-3 py-1.5 rounded-xl text-xs font-black border transition-all',
+                    selected.includes(p.id)
+                        ? 'bg-indigo-600 text-white border-indigo-600'
+                        : 'bg-white text-slate-500 border-slate-200 dark:bg-slate-800 dark:border-slate-700'
+                )}
+            >
+                {p.name}
+            </button>
+        ))}
+    </div>
+);
+
+/**
+ * 单个项目群卡片：汇总指标、成员健康度、项目群里程碑与重点风险
+ */
+const ProgramCard: React.FC<{ rollup: ProgramRollup; projects: Project[]; canEdit: boolean; onEdit: () => void }> = ({ rollup, projects, canEdit, onEdit }) => {
+    const { updateProgram, deleteProgram } = useStore();
+    const { program, evm, health } = rollup;
+    const [milestoneDraft, setMilestoneDraft] = useState<Omit<ProgramMilestone, 'id' | 'completed'> | null>(null);
+
+    const saveMilestone = () => {
+        if (!milestoneDraft?.name.trim() || !milestoneDraft.date) return;
+        updateProgram(program.id, {
+            milestones: [...program.milestones, { ...milestoneDraft, id: `pm-${Date.now()}`, completed: false }]
+        });
+        setMilestoneDraft(null);
+    };
+
+    const toggleMilestone = (id: string) => updateProgram(program.id, {
+        milestones: program.milestones.map(m => m.id === id ? { ...m, completed: !m.completed } : m)
+    });
+
+    const removeMilestone = (id: string) => updateProgram(program.id, {
+        milestones: program.milestones.filter(m => m.id !== id)
+    });
+
+    return (
+        <Card className="relative p-8 bg-white/60 dark:bg-slate-800/60 backdrop-blur-xl border-none shadow-xl rounded-[40px] overflow-hidden">
+            <div className={clsx('absolute left-0 top-0 bottom-0 w-2', {
+                'bg-emerald-500': health.overallHealth === 'green',
+                'bg-amber-500': health.overallHealth === 'amber',
+                'bg-rose-500': health.overallHealth === 'red'
+            })} />
+
+            <div className="flex justify-between items-start gap-4 mb-6">
+                <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                        <Badge variant="neutral" size="sm" className="text-[9px] font-black uppercase">{rollup.members.length} 个项目</Badge>
+                        {program.owner && <span className="text-[10px] font-black text-slate-400">负责人 {program.owner}</span>}
+                    </div>
+                    <h3 className="text-xl font-black text-slate-800 dark:text-slate-100">{program.name}</h3>
+                    {program.description && <p className="text-xs text-slate-400 font-medium">{program.description}</p>}
+                    <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">
+                        {rollup.startDate || '---'} → {rollup.endDate || '---'}
+                    </p>
+                </div>
+                <div className="flex items-center gap-2">
+                    <Badge className={clsx('font-black text-[10px]', getRAGColorClass(health.overallHealth, 'bg'), getRAGColorClass(health.overallHealth, 'text'))}>
+                        {health.overallHealth.toUpperCase()}
+                    </Badge>
+                    {canEdit && (
+                        <>
+                            <Button variant="ghost" size="sm" onClick={onEdit}>编辑</Button>
+                            <button
+                                onClick={() => window.confirm(`确定删除项目群「${program.name}」？成员项目不会被删除。`) && deleteProgram(program.id)}
+                                className="p-2 text-slate-400 hover:text-rose-500"
+                            >
+                                <Trash2 size={16} />
+                            </button>
+                        </>
+                    )}
+                </div>
+            </div>
+
+            <div className="space-y-2 mb-6">
+                <div className="flex justify-between text-[11px] font-black text-slate-400 uppercase tracking-widest">
+                    <span>加权进度</span>
+                    <span className="text-slate-700 dark:text-slate-200">{rollup.progress.toFixed(0)}%</span>
+                </div>
+                <div className="h-2.5 w-full bg-slate-100 dark:bg-slate-700 rounded-full overflow-hidden">
+                    <div className="h-full bg-indigo-500 rounded-full" style={{ width: `${Math.min(100, rollup.progress)}%` }} />
+                </div>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-6">
+                <div className="p-4 rounded-3xl bg-slate-50/50 dark:bg-slate-900/40">
+                    <div className="text-[9px] font-black text-slate-400 uppercase tracking-widest mb-1">预算 / 实际</div>
+                    <div className="text-sm font-black text-slate-700 dark:text-slate-200">{formatCurrency(rollup.budget)} / {formatCurrency(rollup.actualCost)}</div>
+                </div>
+                <div className="p-4 rounded-3xl bg-slate-50/50 dark:bg-slate-900/40">
+                    <div className="text-[9px] font-black text-slate-400 uppercase tracking-widest mb-1">CPI / SPI</div>
+                    <div className="text-sm font-black">
+                        <span className={getPerformanceIndexColor(evm.costPerformanceIndex)}>{formatPerformanceIndex(evm.costPerformanceIndex)}</span>
+                        <span className="text-slate-300 mx-1">/</span>
+                        <span className={getPerformanceIndexColor(evm.schedulePerformanceIndex)}>{formatPerformanceIndex(evm.schedulePerformanceIndex)}</span>
+                    </div>
+                </div>
+                <div className="p-4 rounded-3xl bg-slate-50/50 dark:bg-slate-900/40">
+                    <div className="text-[9px] font-black text-slate-400 uppercase tracking-widest mb-1">EAC / BAC</div>
+                    <div className="text-sm font-black text-slate-700 dark:text-slate-200">{formatCurrency(evm.estimateAtCompletion)} / {formatCurrency(evm.budgetAtCompletion)}</div>
+                </div>
+                <div className="p-4 rounded-3xl bg-slate-50/50 dark:bg-slate-900/40">
+                    <div className="text-[9px] font-black text-slate-400 uppercase tracking-widest mb-1">风险敞口</div>
+                    <div className="text-sm font-black text-slate-700 dark:text-slate-200">
+                        {formatCurrency(rollup.metrics.totalRiskExposure)}
+                        <span className="text-[10px] text-rose-500 ml-1">{rollup.metrics.criticalRisks} 严重</span>
+                    </div>
+                </div>
+            </div>
+
+            <div className="flex flex-wrap gap-2 mb-6">
+                {HEALTH_DIMENSIONS.map(d => (
+                    <span key={d.key} className={clsx('px-3 py-1 rounded-full text-[10px] font-black', getRAGColorClass(health[d.key], 'bg'), getRAGColorClass(health[d.key], 'text'))}>
+                        {d.label}
+                    </span>
+                ))}
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                <div className="space-y-2">
+                    <div className="text-[10px] font-black text-slate-400 uppercase tracking-widest">成员项目</div>
+                    {rollup.memberHealth.map(h => {
+                        const member = rollup.members.find(m => m.id === h.projectId)!;
+                        return (
+                            <div key={h.projectId} className="flex items-center justify-between text-xs font-bold text-slate-600 dark:text-slate-300">
+                                <span className="truncate">{h.projectName}</span>
+                                <span className="flex items-center gap-2">
+                                    <span className="text-slate-400">{member.progress || 0}%</span>
+                                    <span className={clsx('w-2 h-2 rounded-full', {
+                                        'bg-emerald-500': h.overallHealth === 'green',
+                                        'bg-amber-500': h.overallHealth === 'amber',
+                                        'bg-rose-500': h.overallHealth === 'red'
+                                    })} />
+                                </span>
+                            </div>
+                        );
+                    })}
+                    {rollup.members.length === 0 && <p className="text-xs text-slate-400">尚未关联项目</p>}
+                </div>
+
+                <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                        <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">项目群里程碑</span>
+                        {canEdit && !milestoneDraft && (
+                            <button
+                                onClick={() => setMilestoneDraft({ name: '', date: '', projectIds: [] })}
+                                className="text-[10px] font-black text-indigo-500 flex items-center gap-1"
+                            >
+                                <Plus size={12} /> 添加
+                            </button>
+                        )}
+                    </div>
+                    {rollup.milestones.map(({ milestone, status, blockers }) => (
+                        <div key={milestone.id} className="p-3 rounded-2xl bg-slate-50/50 dark:bg-slate-900/40 space-y-1">
+                            <div className="flex items-center justify-between gap-2">
+                                <button
+                                    disabled={!canEdit}
+                                    onClick={() => toggleMilestone(milestone.id)}
+                                    className="flex items-center gap-2 text-xs font-black text-slate-700 dark:text-slate-200 text-left"
+                                >
+                                    {milestone.completed ? <CheckCircle2 size={14} className="text-emerald-500" /> : <Flag size={14} className="text-slate-400" />}
+                                    {milestone.name}
+                                </button>
+                                <span className="flex items-center gap-1">
+                                    <span className={clsx('px-2 py-0.5 rounded-full text-[9px] font-black', MILESTONE_STATUS_STYLES[status])}>
+                                        {PROGRAM_MILESTONE_STATUS_LABELS[status]}
+                                    </span>
+                                    {canEdit && (
+                                        <button onClick={() => removeMilestone(milestone.id)} className="text-slate-300 hover:text-rose-500">
+                                            <X size={12} />
+                                        </button>
+                                    )}
+                                </span>
+                            </div>
+                            <div className="text-[10px] font-bold text-slate-400">
+                                {milestone.date}
+                                {blockers.length > 0 && <span className="text-amber-500 ml-2">受影响: {blockers.join('、')}</span>}
+                            </div>
+                        </div>
+                    ))}
+                    {milestoneDraft && (
+                        <div className="p-3 rounded-2xl border border-indigo-100 dark:border-indigo-900/40 space-y-2">
+                            <input
+                                className={inputClass}
+                                placeholder="里程碑名称"
+                                value={milestoneDraft.name}
+                                onChange={(e) => setMilestoneDraft({ ...milestoneDraft, name: e.target.value })}
+                            />
+                            <input
+                                type="date"
+                                className={inputClass}
+                                value={milestoneDraft.date}
+                                onChange={(e) => setMilestoneDraft({ ...milestoneDraft, date: e.target.value })}
+                            />
+                            <div className="text-[10px] font-black text-slate-400">依赖的成员项目</div>
+                            <ProjectPicker
+                                projects={projects.filter(p => program.projectIds.includes(p.id))}
+                                selected={milestoneDraft.projectIds}
+                                onChange={(projectIds) => setMilestoneDraft({ ...milestoneDraft, projectIds })}
+                            />
+                            <div className="flex justify-end gap-2">
+                                <Button variant="ghost" size="sm" onClick={() => setMilestoneDraft(null)}>取消</Button>
+                                <Button size="sm" onClick={saveMilestone} disabled={!milestoneDraft.name.trim() || !milestoneDraft.date}>保存</Button>
+                            </div>
+                        </div>
+                    )}
+                    {rollup.milestones.length === 0 && !milestoneDraft && <p className="text-xs text-slate-400">暂无项目群里程碑</p>}
+                </div>
+
+                <div className="space-y-2">
+                    <div className="text-[10px] font-black text-slate-400 uppercase tracking-widest">重点风险</div>
+                    {rollup.topRisks.map(({ risk, projectName }) => (
+                        <div key={risk.id} className="flex items-start gap-2 text-xs">
+                            <AlertTriangle size={14} className={clsx('mt-0.5 shrink-0', risk.priority === 'critical' || risk.priority === 'high' ? 'text-rose-500' : 'text-amber-500')} />
+                            <div>
+                                <div className="font-black text-slate-700 dark:text-slate-200">{risk.title}</div>
+                                <div className="text-[10px] font-bold text-slate-400">{projectName} · 评分 {risk.riskScore}</div>
+                            </div>
+                        </div>
+                    ))}
+                    {rollup.topRisks.length === 0 && <p className="text-xs text-slate-400">无未关闭风险</p>}
+                </div>
+            </div>
+        </Card>
+    );
+};
+
+/**
+ * 项目群视图：把多个项目编入项目群，查看汇总的进度、成本、健康度与风险
+ */
+const ProgramPanel: React.FC<ProgramPanelProps> = ({ projects }) => {
+    const { programs, workingCalendars, resourcePool, addProgram, updateProgram } = useStore();
+    const canEdit = usePermission('project:create');
+    const [draft, setDraft] = useState<(Omit<Program, 'id' | 'createdAt' | 'milestones'> & { id?: string }) | null>(null);
+
+    const rollups = useMemo(
+        () => programs.map(program => buildProgramRollup(program, projects, { calendars: workingCalendars, resourcePool })),
+        [programs, projects, workingCalendars, resourcePool]
+    );
+    const unassigned = useMemo(() => getUnassignedProjects(programs, projects), [programs, projects]);
+
+    const saveDraft = () => {
+        if (!draft?.name.trim()) return;
+        const { id, ...fields } = draft;
+        if (id) {
+            const current = programs.find(p => p.id === id);
+            // Keep milestones consistent with the (possibly reduced) member list
+            updateProgram(id, {
+                ...fields,
+                milestones: (current?.milestones || []).map(m => ({ ...m, projectIds: m.projectIds.filter(pid => fields.projectIds.includes(pid)) }))
+            });
+        } else {
+            addProgram({ ...fields, milestones: [] });
+        }
+        setDraft(null);
+    };
+
+    return (
+        <div className="space-y-8">
+            <div className="flex items-center justify-between">
+                <div className="flex items-center gap-3">
+                    <FolderKanban size={20} className="text-indigo-500" />
+                    <span className="text-sm font-black text-slate-700 dark:text-slate-200">项目群 {programs.length} 个</span>
+                    <span className="text-xs font-bold text-slate-400">未编入项目群的项目 {unassigned.length} 个</span>
+                </div>
+                {canEdit && !draft && (
+                    <Button icon={Plus} onClick={() => setDraft({ name: '', description: '', owner: '', projectIds: [] })}>新建项目群</Button>
+                )}
+            </div>
+
+            {draft && (
+                <Card className="p-8 border-none shadow-xl rounded-[32px] bg-white dark:bg-slate-800 space-y-4">
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                        <input className={inputClass} placeholder="项目群名称" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+                        <input className={inputClass} placeholder="负责人" value={draft.owner || ''} onChange={(e) => setDraft({ ...draft, owner: e.target.value })} />
+                        <input className={inputClass} placeholder="说明" value={draft.description || ''} onChange={(e) => setDraft({ ...draft, description: e.target.value })} />
+                    </div>
+                    <div className="text-[10px] font-black text-slate-400 uppercase tracking-widest">成员项目（一个项目只属于一个项目群）</div>
+                    <ProjectPicker
+                        projects={projects.filter(p => !programs.some(pg => pg.id !== draft.id && pg.projectIds.includes(p.id)))}
+                        selected={draft.projectIds}
+                        onChange={(projectIds) => setDraft({ ...draft, projectIds })}
+                    />
+                    <div className="flex justify-end gap-2">
+                        <Button variant="ghost" onClick={() => setDraft(null)}>取消</Button>
+                        <Button onClick={saveDraft} disabled={!draft.name.trim()}>保存</Button>
+                    </div>
+                </Card>
+            )}
+
+            <div className="grid grid-cols-1 2xl:grid-cols-2 gap-8">
+                {rollups.map(rollup => (
+                    <ProgramCard
+                        key={rollup.program.id}
+                        rollup={rollup}
+                        projects={projects}
+                        canEdit={canEdit}
+                        onEdit={() => setDraft({
+                            id: rollup.program.id,
+                            name: rollup.program.name,
+                            description: rollup.program.description,
+                            owner: rollup.program.owner,
+                            projectIds: rollup.program.projectIds
+                        })}
+                    />
+                ))}
+            </div>
+
+            {programs.length === 0 && !draft && (
+                <div className="py-16 text-center text-sm font-bold text-slate-400">
+                    尚未建立项目群。将跨硬件、软件、注册等多个项目的平台发布编为一个项目群，即可查看汇总的进度、成本与风险。
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ProgramPanel;
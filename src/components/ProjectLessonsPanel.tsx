@@ -0,0 +1,165 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { BookOpen, Lightbulb, Plus } from 'lucide-react';
+import type { LessonLearned, Project } from '../types';
+import { useStore, usePermission } from '../store/useStore';
+import { getMaterializedRiskPatterns, getRelevantLessons, isProjectClosing } from '../utils/lessonsLearned';
+import { getRiskCategoryInfo } from '../utils/riskManagement';
+import LessonCard from './LessonCard';
+import LessonFormModal from './LessonFormModal';
+
+interface ProjectLessonsPanelProps {
+    project: Project;
+    startCapture?: boolean; // 项目刚关闭时直接打开复盘表单
+    onCaptureStarted?: () => void;
+}
+
+/**
+ * 项目经验教训：收尾复盘记录本项目教训，并展示同类型项目的教训与实际发生过的风险
+ */
+const ProjectLessonsPanel: React.FC<ProjectLessonsPanelProps> = ({ project, startCapture = false, onCaptureStarted }) => {
+    const { projects, lessonsLearned, projectTypeDefinitions, addLesson, updateLesson, deleteLesson } = useStore();
+    const canEdit = usePermission('project:edit', project.id);
+    const [isFormOpen, setIsFormOpen] = useState(false);
+    const [editingLesson, setEditingLesson] = useState<LessonLearned | null>(null);
+
+    const ownLessons = useMemo(
+        () => lessonsLearned.filter(l => l.projectId === project.id).sort((a, b) => b.createdAt.localeCompare(a.createdAt)),
+        [lessonsLearned, project.id]
+    );
+    const relevantLessons = useMemo(() => getRelevantLessons(project, lessonsLearned), [project, lessonsLearned]);
+    const patterns = useMemo(() => getMaterializedRiskPatterns(project, projects, lessonsLearned), [project, projects, lessonsLearned]);
+    const projectType = projectTypeDefinitions.find(t => t.id === project.projectType);
+    const closing = isProjectClosing(project);
+
+    const openForm = (lesson: LessonLearned | null) => {
+        setEditingLesson(lesson);
+        setIsFormOpen(true);
+    };
+
+    useEffect(() => {
+        if (!startCapture) return;
+        if (canEdit) openForm(null);
+        onCaptureStarted?.();
+    }, [startCapture]);
+
+    const handleSave = (lesson: Omit<LessonLearned, 'id' | 'createdAt' | 'createdBy'>) => {
+        if (editingLesson) {
+            updateLesson(editingLesson.id, lesson);
+        } else {
+            addLesson(lesson);
+        }
+    };
+
+    const handleDelete = (lesson: LessonLearned) => {
+        if (confirm(`确定删除经验教训「${lesson.title}」吗？`)) {
+            deleteLesson(lesson.id);
+        }
+    };
+
+    return (
+        <div className="space-y-6">
+            <div className="bg-white dark:bg-slate-800 rounded-lg shadow-sm p-6">
+                <div className="flex items-center justify-between mb-4">
+                    <div>
+                        <h3 className="text-lg font-semibold text-slate-800 dark:text-slate-100 flex items-center gap-2">
+                            <BookOpen size={20} className="text-blue-600" />
+                            本项目经验教训
+                        </h3>
+                        <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">
+                            收尾复盘：记录哪里出了问题、根本原因和改进建议，沉淀到组合经验教训库
+                        </p>
+                    </div>
+                    {canEdit && (
+                        <button
+                            onClick={() => openForm(null)}
+                            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 transition-colors"
+                        >
+                            <Plus size={16} />
+                            记录经验教训
+                        </button>
+                    )}
+                </div>
+
+                {closing && ownLessons.length === 0 && (
+                    <div className="mb-4 p-3 rounded-lg bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 text-sm text-amber-800 dark:text-amber-200">
+                        项目已进入收尾，尚未记录经验教训。请在关闭前完成复盘，并关联实际发生的风险，供同类型新项目参考。
+                    </div>
+                )}
+
+                {ownLessons.length === 0 ? (
+                    <p className="text-sm text-slate-400 text-center py-6">暂无记录</p>
+                ) : (
+                    <div className="space-y-3">
+                        {ownLessons.map(lesson => (
+                            <LessonCard
+                                key={lesson.id}
+                                lesson={lesson}
+                                onEdit={canEdit ? () => openForm(lesson) : undefined}
+                                onDelete={canEdit ? () => handleDelete(lesson) : undefined}
+                            />
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            <div className="bg-white dark:bg-slate-800 rounded-lg shadow-sm p-6">
+                <div className="flex items-center justify-between mb-4">
+                    <h3 className="text-lg font-semibold text-slate-800 dark:text-slate-100 flex items-center gap-2">
+                        <Lightbulb size={20} className="text-amber-500" />
+                        同类型项目经验{projectType ? `（${projectType.name}）` : ''}
+                    </h3>
+                    {project.projectType && (
+                        <Link to={`/pmo/lessons?projectType=${project.projectType}`} className="text-sm text-blue-600 hover:underline">
+                            在经验教训库中查看
+                        </Link>
+                    )}
+                </div>
+
+                {!project.projectType ? (
+                    <p className="text-sm text-slate-400 text-center py-6">项目未设置项目类型，无法匹配同类项目经验</p>
+                ) : (
+                    <div className="space-y-6">
+                        {patterns.length > 0 && (
+                            <div>
+                                <h4 className="text-sm font-semibold text-slate-700 dark:text-slate-200 mb-2">已收尾项目中实际发生的风险</h4>
+                                <div className="space-y-1 text-sm">
+                                    {patterns.map(pattern => (
+                                        <div key={pattern.key} className="flex items-center gap-3 text-slate-700 dark:text-slate-200">
+                                            <span>{getRiskCategoryInfo(pattern.category).icon}</span>
+                                            <span className="flex-1 truncate">{pattern.title}</span>
+                                            <span className="text-xs text-slate-500">
+                                                {pattern.projects.length} 个项目 · {(pattern.frequency * 100).toFixed(0)}%
+                                            </span>
+                                        </div>
+                                    ))}
+                                </div>
+                                <p className="text-xs text-slate-400 mt-2">这些风险已作为风险管理页的 AI 风险建议</p>
+                            </div>
+                        )}
+
+                        {relevantLessons.length === 0 ? (
+                            <p className="text-sm text-slate-400 text-center py-6">同类型项目暂无经验教训</p>
+                        ) : (
+                            <div className="space-y-3">
+                                {relevantLessons.map(lesson => (
+                                    <LessonCard key={lesson.id} lesson={lesson} showProject />
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                )}
+            </div>
+
+            <LessonFormModal
+                isOpen={isFormOpen}
+                project={project}
+                existingLesson={editingLesson}
+                onClose={() => setIsFormOpen(false)}
+                onSave={handleSave}
+            />
+        </div>
+    );
+};
+
+export default ProjectLessonsPanel;
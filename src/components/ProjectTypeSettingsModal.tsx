@@ -1,18 +1,104 @@
 import React, { useState } from 'react';
-import { X, Plus, Trash2 } from 'lucide-react';
+import { X, Plus, Trash2, ShieldCheck } from 'lucide-react';
 import { useStore, useProjectTypeDefinitions } from '../store/useStore';
 import { Button } from './ui';
+import { DEFAULT_STAGE_GATES, STAGE_GATE_TEMPLATE_LABELS, getGateTemplate, getStageName } from '../utils/stageGateManagement';
+import type { ProjectTypeDefinition, StageGate } from '../types';
 
 interface ProjectTypeSettingsModalProps {
     isOpen: boolean;
     onClose: () => void;
 }
 
+/**
+ * 项目类型的阶段门径模板：可从预置模板套用，并调整各门径名称与检查清单
+ * 修改只影响之后按该类型实例化门径的项目
+ */
+const GateTemplateEditor: React.FC<{ type: ProjectTypeDefinition }> = ({ type }) => {
+    const { updateProjectTypeDefinition } = useStore();
+    const projectTypes = useProjectTypeDefinitions();
+    const gates = getGateTemplate(projectTypes, type.id);
+
+    const save = (gateTemplate: StageGate[]) => updateProjectTypeDefinition(type.id, { gateTemplate });
+    const updateGate = (gateId: string, update: (gate: StageGate) => StageGate) =>
+        save(gates.map(g => g.id === gateId ? update(g) : g));
+
+    return (
+        <div className="mt-3 space-y-3">
+            <div className="flex items-center gap-2">
+                <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">套用预置模板</span>
+                {Object.keys(DEFAULT_STAGE_GATES).map(key => (
+                    <button
+                        key={key}
+                        onClick={() => save(DEFAULT_STAGE_GATES[key])}
+                        className="px-2.5 py-1 rounded-lg text-[10px] font-bold bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 hover:border-blue-400"
+                    >
+                        {STAGE_GATE_TEMPLATE_LABELS[key] || key}
+                    </button>
+                ))}
+            </div>
+            {gates.map(gate => (
+                <div key={gate.id} className="p-3 bg-white dark:bg-slate-900 rounded-xl border border-slate-100 dark:border-slate-800 space-y-2">
+                    <div className="flex items-center gap-2">
+                        <span className="text-[10px] font-black text-blue-500 w-10 shrink-0">{getStageName(gate.stage)}</span>
+                        <input
+                            type="text"
+                            value={gate.name}
+                            onChange={(e) => updateGate(gate.id, g => ({ ...g, name: e.target.value }))}
+                            className="flex-1 bg-transparent border-none focus:ring-0 font-bold text-xs text-slate-700 dark:text-slate-200 p-0"
+                        />
+                    </div>
+                    {gate.requirements.map(req => (
+                        <div key={req.id} className="flex items-center gap-2 pl-12">
+                            <input
+                                type="text"
+                                value={req.description}
+                                onChange={(e) => updateGate(gate.id, g => ({
+                                    ...g,
+                                    requirements: g.requirements.map(r => r.id === req.id ? { ...r, description: e.target.value } : r)
+                                }))}
+                                className="flex-1 bg-transparent border-b border-slate-100 dark:border-slate-800 focus:ring-0 text-xs text-slate-600 dark:text-slate-300 px-0 py-1"
+                            />
+                            <label className="flex items-center gap-1 text-[10px] font-bold text-slate-400">
+                                <input
+                                    type="checkbox"
+                                    checked={req.required}
+                                    onChange={(e) => updateGate(gate.id, g => ({
+                                        ...g,
+                                        requirements: g.requirements.map(r => r.id === req.id ? { ...r, required: e.target.checked } : r)
+                                    }))}
+                                />
+                                必需
+                            </label>
+                            <button
+                                onClick={() => updateGate(gate.id, g => ({ ...g, requirements: g.requirements.filter(r => r.id !== req.id) }))}
+                                className="p-1 text-slate-300 hover:text-red-500"
+                            >
+                                <X size={12} />
+                            </button>
+                        </div>
+                    ))}
+                    <button
+                        onClick={() => updateGate(gate.id, g => ({
+                            ...g,
+                            requirements: [...g.requirements, { id: `req-${Date.now()}`, description: '新检查项', required: true, completed: false }]
+                        }))}
+                        className="ml-12 text-[10px] font-bold text-blue-500 flex items-center gap-1"
+                    >
+                        <Plus size={12} /> 添加检查项
+                    </button>
+                </div>
+            ))}
+        </div>
+    );
+};
+
 const ProjectTypeSettingsModal: React.FC<ProjectTypeSettingsModalProps> = ({ isOpen, onClose }) => {
     const projectTypes = useProjectTypeDefinitions();
     const { addProjectTypeDefinition, updateProjectTypeDefinition, deleteProjectTypeDefinition } = useStore();
     const [newName, setNewName] = useState('');
     const [newColor, setNewColor] = useState('#3b82f6');
+    const [editingGatesFor, setEditingGatesFor] = useState<string | null>(null);
 
     if (!isOpen) return null;
 
@@ -24,7 +110,7 @@ const ProjectTypeSettingsModal: React.FC<ProjectTypeSettingsModalProps> = ({ isO
 
     return (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-[60] backdrop-blur-sm">
-            <div className="bg-white dark:bg-slate-900 rounded-3xl w-full max-w-lg shadow-2xl overflow-hidden animate-in fade-in zoom-in duration-200">
+            <div className="bg-white dark:bg-slate-900 rounded-3xl w-full max-w-2xl shadow-2xl overflow-hidden animate-in fade-in zoom-in duration-200">
                 <div className="p-6 border-b border-slate-100 dark:border-slate-800 flex justify-between items-center bg-slate-50/50 dark:bg-slate-800/50">
                     <div>
                         <h2 className="text-xl font-bold text-slate-900 dark:text-slate-100">项目类型配置</h2>
@@ -39,25 +125,35 @@ const ProjectTypeSettingsModal: React.FC<ProjectTypeSettingsModalProps> = ({ isO
                     {/* List of existing types */}
                     <div className="space-y-3 max-h-[400px] overflow-y-auto pr-2 custom-scrollbar">
                         {projectTypes.map((type) => (
-                            <div key={type.id} className="flex items-center gap-3 p-3 bg-slate-50 dark:bg-slate-800/50 rounded-2xl border border-slate-100 dark:border-slate-800 group">
-                                <input
-                                    type="color"
-                                    value={type.color}
-                                    onChange={(e) => updateProjectTypeDefinition(type.id, { color: e.target.value })}
-                                    className="w-8 h-8 rounded-lg border-none bg-transparent cursor-pointer"
-                                />
-                                <input
-                                    type="text"
-                                    value={type.name}
-                                    onChange={(e) => updateProjectTypeDefinition(type.id, { name: e.target.value })}
-                                    className="flex-1 bg-transparent border-none focus:ring-0 font-bold text-sm text-slate-700 dark:text-slate-200"
-                                />
-                                <button
-                                    onClick={() => deleteProjectTypeDefinition(type.id)}
-                                    className="p-2 text-slate-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-xl transition-all opacity-0 group-hover:opacity-100"
-                                >
-                                    <Trash2 size={16} />
-                                </button>
+                            <div key={type.id} className="p-3 bg-slate-50 dark:bg-slate-800/50 rounded-2xl border border-slate-100 dark:border-slate-800 group">
+                                <div className="flex items-center gap-3">
+                                    <input
+                                        type="color"
+                                        value={type.color}
+                                        onChange={(e) => updateProjectTypeDefinition(type.id, { color: e.target.value })}
+                                        className="w-8 h-8 rounded-lg border-none bg-transparent cursor-pointer"
+                                    />
+                                    <input
+                                        type="text"
+                                        value={type.name}
+                                        onChange={(e) => updateProjectTypeDefinition(type.id, { name: e.target.value })}
+                                        className="flex-1 bg-transparent border-none focus:ring-0 font-bold text-sm text-slate-700 dark:text-slate-200"
+                                    />
+                                    <button
+                                        onClick={() => setEditingGatesFor(editingGatesFor === type.id ? null : type.id)}
+                                        className="flex items-center gap-1 px-2 py-1 text-[10px] font-bold text-slate-500 hover:text-blue-600 rounded-lg"
+                                        title="阶段门径模板"
+                                    >
+                                        <ShieldCheck size={14} /> 门径
+                                    </button>
+                                    <button
+                                        onClick={() => deleteProjectTypeDefinition(type.id)}
+                                        className="p-2 text-slate-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-xl transition-all opacity-0 group-hover:opacity-100"
+                                    >
+                                        <Trash2 size={16} />
+                                    </button>
+                                </div>
+                                {editingGatesFor === type.id && <GateTemplateEditor type={type} />}
                             </div>
                         ))}
                     </div>
@@ -0,0 +1,227 @@
+import React, { useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import type { ChangeRequest, IssueSeverity, Project, RaidItem, RaidItemFormValues, RaidKind } from '../types';
+import { ISSUE_SEVERITY_LABELS, RAID_KIND_LABELS, RAID_STATUS_LABELS, toRaidFormValues, type RaidItemDraft } from '../utils/raidLog';
+
+interface RaidItemFormModalProps {
+    isOpen: boolean;
+    kind: RaidKind;
+    project: Project;
+    changeRequests: ChangeRequest[];
+    existingItem?: RaidItem | null;
+    currentUser: { id: string; name: string };
+    onClose: () => void;
+    onSave: (submission: RaidItemFormValues) => void;
+}
+
+const DEFAULT_STATUS: { [K in RaidKind]: RaidItem['status'] } = {
+    issue: 'open',
+    assumption: 'unvalidated',
+    decision: 'proposed',
+    action: 'open'
+};
+
+const inputClass = 'w-full px-3 py-2 border border-slate-200 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-800 dark:text-slate-100';
+const labelClass = 'block text-sm font-medium text-slate-700 dark:text-slate-200 mb-2';
+
+/**
+ * 新建 / 编辑 RAID 条目（问题、假设、决策、行动项），可关联任务、风险与变更请求
+ */
+const RaidItemFormModal: React.FC<RaidItemFormModalProps> = ({
+    isOpen,
+    kind,
+    project,
+    changeRequests,
+    existingItem,
+    currentUser,
+    onClose,
+    onSave,
+}) => {
+    const [form, setForm] = useState<RaidItemDraft>({});
+
+    useEffect(() => {
+        setForm(existingItem
+            ? { ...existingItem }
+            : {
+                title: '',
+                status: DEFAULT_STATUS[kind],
+                owner: currentUser.id,
+                ownerName: currentUser.name,
+                ...(kind === 'issue' ? { severity: 'medium' as const } : {}),
+            });
+    }, [existingItem, kind, currentUser.id, currentUser.name, isOpen]);
+
+    if (!isOpen) return null;
+
+    const set = <F extends keyof RaidItemDraft>(field: F, value: RaidItemDraft[F]) =>
+        setForm({ ...form, [field]: value === '' ? undefined : value });
+
+    const toggleLink = (field: 'relatedTaskIds' | 'relatedRiskIds' | 'relatedChangeRequestIds', id: string) => {
+        const current = form[field] || [];
+        set(field, current.includes(id) ? current.filter(x => x !== id) : [...current, id]);
+    };
+
+    const owners = [
+        { id: currentUser.id, name: currentUser.name },
+        ...(project.pdsgMembers || []).filter(m => m.id !== currentUser.id).map(m => ({ id: m.id, name: m.name })),
+    ];
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!form.title?.trim()) {
+            alert('请填写标题');
+            return;
+        }
+        const submission = toRaidFormValues(kind, form);
+        if (!submission) {
+            alert('请选择负责人和状态');
+            return;
+        }
+        onSave(submission);
+        onClose();
+    };
+
+    const linkGroups = [
+        { field: 'relatedTaskIds' as const, label: '关联任务', options: (project.tasks || []).filter(t => t.type !== 'group').map(t => ({ id: t.id, name: t.name })) },
+        { field: 'relatedRiskIds' as const, label: '关联风险', options: (project.risks || []).map(r => ({ id: r.id, name: r.title })) },
+        { field: 'relatedChangeRequestIds' as const, label: '关联变更请求', options: changeRequests.map(cr => ({ id: cr.id, name: cr.title })) },
+    ].filter(group => group.options.length > 0);
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+            <div className="bg-white dark:bg-slate-800 rounded-xl shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-hidden flex flex-col">
+                <div className="flex items-center justify-between p-6 border-b border-slate-200 dark:border-slate-700">
+                    <h2 className="text-xl font-bold text-slate-800 dark:text-slate-100">
+                        {existingItem ? '编辑' : '新建'}{RAID_KIND_LABELS[kind]}
+                    </h2>
+                    <button onClick={onClose} className="p-2 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-colors">
+                        <X size={20} />
+                    </button>
+                </div>
+
+                <form onSubmit={handleSubmit} className="flex-1 overflow-y-auto p-6 space-y-4">
+                    <div>
+                        <label className={labelClass}>标题 *</label>
+                        <input value={form.title || ''} onChange={(e) => set('title', e.target.value)} className={inputClass} />
+                    </div>
+                    <div>
+                        <label className={labelClass}>描述</label>
+                        <textarea value={form.description || ''} onChange={(e) => set('description', e.target.value)} rows={3} className={inputClass} />
+                    </div>
+
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                        <div>
+                            <label className={labelClass}>状态</label>
+                            <select value={form.status} onChange={(e) => set('status', e.target.value)} className={inputClass}>
+                                {Object.entries(RAID_STATUS_LABELS[kind]).map(([value, label]) => (
+                                    <option key={value} value={value}>{label}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div>
+                            <label className={labelClass}>负责人</label>
+                            <select
+                                value={form.owner}
+                                onChange={(e) => setForm({ ...form, owner: e.target.value, ownerName: owners.find(o => o.id === e.target.value)?.name })}
+                                className={inputClass}
+                            >
+                                {!owners.some(o => o.id === form.owner) && form.owner && <option value={form.owner}>{form.ownerName || form.owner}</option>}
+                                {owners.map(o => <option key={o.id} value={o.id}>{o.name}</option>)}
+                            </select>
+                        </div>
+                        <div>
+                            <label className={labelClass}>截止日期</label>
+                            <input type="date" value={form.dueDate || ''} onChange={(e) => set('dueDate', e.target.value)} className={inputClass} />
+                        </div>
+                    </div>
+
+                    {kind === 'issue' && (
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                            <div>
+                                <label className={labelClass}>严重程度</label>
+                                <select value={form.severity} onChange={(e) => set('severity', e.target.value as IssueSeverity)} className={inputClass}>
+                                    {Object.entries(ISSUE_SEVERITY_LABELS).map(([value, label]) => (
+                                        <option key={value} value={value}>{label}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <div className="md:col-span-2">
+                                <label className={labelClass}>解决方案</label>
+                                <input value={form.resolution || ''} onChange={(e) => set('resolution', e.target.value)} className={inputClass} />
+                            </div>
+                        </div>
+                    )}
+
+                    {kind === 'assumption' && (
+                        <div>
+                            <label className={labelClass}>假设不成立时的影响</label>
+                            <textarea value={form.impactIfFalse || ''} onChange={(e) => set('impactIfFalse', e.target.value)} rows={2} className={inputClass} />
+                        </div>
+                    )}
+
+                    {kind === 'decision' && (
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            <div>
+                                <label className={labelClass}>决策依据</label>
+                                <textarea value={form.rationale || ''} onChange={(e) => set('rationale', e.target.value)} rows={2} className={inputClass} />
+                            </div>
+                            <div>
+                                <label className={labelClass}>备选方案</label>
+                                <textarea value={form.alternatives || ''} onChange={(e) => set('alternatives', e.target.value)} rows={2} className={inputClass} />
+                            </div>
+                        </div>
+                    )}
+
+                    {kind === 'action' && (
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            <div>
+                                <label className={labelClass}>来源</label>
+                                <input value={form.source || ''} onChange={(e) => set('source', e.target.value)} placeholder="如：指导委员会例会" className={inputClass} />
+                            </div>
+                            <div>
+                                <label className={labelClass}>会议日期</label>
+                                <input type="date" value={form.meetingDate || ''} onChange={(e) => set('meetingDate', e.target.value)} className={inputClass} />
+                            </div>
+                        </div>
+                    )}
+
+                    {linkGroups.map(group => (
+                        <div key={group.field}>
+                            <label className={labelClass}>{group.label}</label>
+                            <div className="flex flex-wrap gap-2">
+                                {group.options.map(option => (
+                                    <button
+                                        key={option.id}
+                                        type="button"
+                                        onClick={() => toggleLink(group.field, option.id)}
+                                        className={`px-2 py-1 rounded-full text-xs border transition-colors ${(form[group.field] || []).includes(option.id)
+                                            ? 'bg-blue-600 text-white border-blue-600'
+                                            : 'bg-white dark:bg-slate-700 text-slate-600 dark:text-slate-300 border-slate-300 dark:border-slate-600 hover:border-blue-400'
+                                            }`}
+                                    >
+                                        {option.name}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                    ))}
+                </form>
+
+                <div className="flex items-center justify-end gap-3 p-6 border-t border-slate-200 dark:border-slate-700">
+                    <button
+                        type="button"
+                        onClick={onClose}
+                        className="px-4 py-2 text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-colors"
+                    >
+                        取消
+                    </button>
+                    <button onClick={handleSubmit} className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors">
+                        {existingItem ? '保存更改' : '创建'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default RaidItemFormModal;
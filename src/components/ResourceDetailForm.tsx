@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import type { TeamMember } from '../types';
 import { X, Plus, Trash2, Save } from 'lucide-react';
+import { useWorkingCalendars } from '../store/useStore';
 
 interface ResourceDetailFormProps {
     member?: TeamMember;
@@ -9,6 +10,7 @@ interface ResourceDetailFormProps {
 }
 
 const ResourceDetailForm: React.FC<ResourceDetailFormProps> = ({ member, onSave, onClose }) => {
+    const workingCalendars = useWorkingCalendars();
     const [formData, setFormData] = useState<Partial<TeamMember>>({
         name: member?.name || '',
         gender: member?.gender || '男',
@@ -22,6 +24,7 @@ const ResourceDetailForm: React.FC<ResourceDetailFormProps> = ({ member, onSave,
         certifications: member?.certifications || [],
         availability: member?.availability || 40,
         hourlyRate: member?.hourlyRate || 0,
+        calendarId: member?.calendarId,
     });
 
     const [newSkill, setNewSkill] = useState('');
@@ -223,6 +226,21 @@ const ResourceDetailForm: React.FC<ResourceDetailFormProps> = ({ member, onSave,
                                         className="w-full px-4 py-2 rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
                                     />
                                 </div>
+                                <div>
+                                    <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                                        工作日历
+                                    </label>
+                                    <select
+                                        value={formData.calendarId || ''}
+                                        onChange={(e) => setFormData({ ...formData, calendarId: e.target.value || undefined })}
+                                        className="w-full px-4 py-2 rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                    >
+                                        <option value="">继承团队日历</option>
+                                        {workingCalendars.map(calendar => (
+                                            <option key={calendar.id} value={calendar.id}>{calendar.name}</option>
+                                        ))}
+                                    </select>
+                                </div>
                             </div>
                         </div>
 
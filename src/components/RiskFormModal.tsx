@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { X, Plus, Trash2 } from 'lucide-react';
 import { Risk, RiskCategory, RiskStatus, RiskMitigationAction } from '../types';
+import type { Task } from '../types';
 import { createRisk, getRiskCategoryInfo, getRiskStatusInfo } from '../utils/riskManagement';
 
 interface RiskFormModalProps {
@@ -11,6 +12,7 @@ interface RiskFormModalProps {
     projectId: string;
     existingRisk?: Risk | null;
     currentUserId: string;
+    tasks?: Task[]; // 可关联的项目任务（用于进度风险模拟）
 }
 
 const RiskFormModal: React.FC<RiskFormModalProps> = ({
@@ -20,6 +22,7 @@ const RiskFormModal: React.FC<RiskFormModalProps> = ({
     projectId,
     existingRisk,
     currentUserId,
+    tasks = [],
 }) => {
     const [formData, setFormData] = useState<Partial<Risk>>({
         title: '',
@@ -94,6 +97,8 @@ const RiskFormModal: React.FC<RiskFormModalProps> = ({
                 contingencyPlan: formData.contingencyPlan,
                 estimatedCostImpact: formData.estimatedCostImpact,
                 mitigationCost: formData.mitigationCost,
+                scheduleImpactDays: formData.scheduleImpactDays,
+                relatedTaskIds: formData.relatedTaskIds,
                 status: formData.status as RiskStatus,
                 mitigationActions: mitigationActions.map((action, idx) => ({
                     ...action,
@@ -128,6 +133,14 @@ const RiskFormModal: React.FC<RiskFormModalProps> = ({
         setMitigationActions(mitigationActions.filter((_, i) => i !== index));
     };
 
+    const toggleRelatedTask = (taskId: string) => {
+        const current = formData.relatedTaskIds || [];
+        setFormData({
+            ...formData,
+            relatedTaskIds: current.includes(taskId) ? current.filter(id => id !== taskId) : [...current, taskId],
+        });
+    };
+
     if (!isOpen) return null;
 
     return (
@@ -309,6 +322,50 @@ const RiskFormModal: React.FC<RiskFormModalProps> = ({
                             </div>
                         </div>
 
+                        {/* Schedule Impact */}
+                        {tasks.length > 0 && (
+                            <div className="space-y-3">
+                                <div>
+                                    <label className="block text-sm font-medium text-slate-700 dark:text-slate-200 mb-2">
+                                        进度影响 (天)
+                                    </label>
+                                    <input
+                                        type="number"
+                                        min="0"
+                                        value={formData.scheduleImpactDays || ''}
+                                        onChange={(e) =>
+                                            setFormData({
+                                                ...formData,
+                                                scheduleImpactDays: e.target.value ? parseFloat(e.target.value) : undefined,
+                                            })
+                                        }
+                                        className="w-full md:w-1/2 px-3 py-2 border border-slate-200 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-800 dark:text-slate-100"
+                                        placeholder="风险发生时关联任务的延误天数"
+                                    />
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-medium text-slate-700 dark:text-slate-200 mb-2">
+                                        关联任务
+                                    </label>
+                                    <div className="flex flex-wrap gap-2">
+                                        {tasks.filter(t => t.type !== 'group').map(task => (
+                                            <button
+                                                key={task.id}
+                                                type="button"
+                                                onClick={() => toggleRelatedTask(task.id)}
+                                                className={`px-2 py-1 rounded-full text-xs border transition-colors ${(formData.relatedTaskIds || []).includes(task.id)
+                                                    ? 'bg-blue-600 text-white border-blue-600'
+                                                    : 'bg-white dark:bg-slate-700 text-slate-600 dark:text-slate-300 border-slate-300 dark:border-slate-600 hover:border-blue-400'
+                                                    }`}
+                                            >
+                                                {task.name}
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
+                            </div>
+                        )}
+
                         {/* Mitigation Strategy */}
                         <div>
                             <label className="block text-sm font-medium text-slate-700 dark:text-slate-200 mb-2">
@@ -0,0 +1,198 @@
+import React, { useMemo, useState } from 'react';
+import { Calculator, PiggyBank } from 'lucide-react';
+import type { Project, RiskReserveDrawdownType } from '../types';
+import { useStore } from '../store/useStore';
+import {
+    DEFAULT_COST_SIMULATION_ITERATIONS,
+    DEFAULT_COST_SIMULATION_SEED,
+    DEFAULT_RESERVE_CONFIDENCE,
+    RESERVE_CONFIDENCE_OPTIONS,
+    calculateRiskEMV,
+    getQuantifiableRisks,
+    getRiskReserveStatus,
+    simulateRiskCost,
+    sizeRiskReserve
+} from '../utils/riskReserve';
+
+interface RiskReservePanelProps {
+    project: Project;
+}
+
+const formatCurrency = (val: number) => `¥${Math.round(val).toLocaleString()}`;
+
+/**
+ * 定量风险分析：逐风险 EMV、风险成本蒙特卡洛、按置信度设定应急储备并跟踪储备动用
+ */
+const RiskReservePanel: React.FC<RiskReservePanelProps> = ({ project }) => {
+    const { user, setRiskReserve, recordRiskReserveDrawdown } = useStore();
+    const [confidence, setConfidence] = useState(project.riskReserve?.confidenceLevel ?? DEFAULT_RESERVE_CONFIDENCE);
+    const [seed, setSeed] = useState(project.riskReserve?.seed ?? DEFAULT_COST_SIMULATION_SEED);
+
+    const risks = project.risks || [];
+    const emvs = useMemo(() => getQuantifiableRisks(risks).map(calculateRiskEMV).sort((a, b) => b.emv - a.emv), [risks]);
+    const simulation = useMemo(() => simulateRiskCost(risks, DEFAULT_COST_SIMULATION_ITERATIONS, seed), [risks, seed]);
+    const status = useMemo(() => project.riskReserve && getRiskReserveStatus(project.riskReserve, risks), [project.riskReserve, risks]);
+
+    const handleSetReserve = () => {
+        setRiskReserve(project.id, sizeRiskReserve(risks, confidence, DEFAULT_COST_SIMULATION_ITERATIONS, seed, user?.name));
+    };
+
+    const handleDrawdown = (riskId: string, type: RiskReserveDrawdownType, defaultAmount: number) => {
+        const input = prompt(type === 'realized' ? '风险已发生，输入实际成本 (¥)' : '风险已关闭，输入释放的储备 (¥)', String(Math.round(defaultAmount)));
+        if (input === null) return;
+        const amount = parseFloat(input);
+        if (isNaN(amount) || amount < 0) return;
+        recordRiskReserveDrawdown(project.id, riskId, type, amount);
+    };
+
+    return (
+        <div className="bg-white dark:bg-slate-800 rounded-lg shadow-sm p-6 space-y-6">
+            <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+                <div>
+                    <h3 className="text-lg font-semibold text-slate-800 dark:text-slate-100 flex items-center gap-2">
+                        <PiggyBank size={20} className="text-emerald-600" />
+                        风险储备金（EMV 与成本模拟）
+                    </h3>
+                    <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">
+                        EMV = 发生概率 × 成本影响；应急储备取 {DEFAULT_COST_SIMULATION_ITERATIONS} 次成本模拟在所选置信度下的分位数
+                    </p>
+                </div>
+                <div className="flex items-end gap-3">
+                    <label className="text-xs text-slate-500 dark:text-slate-400">
+                        置信度
+                        <select
+                            value={confidence}
+                            onChange={(e) => setConfidence(Number(e.target.value))}
+                            className="block mt-1 px-3 py-1.5 border border-slate-200 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-sm text-slate-800 dark:text-slate-100"
+                        >
+                            {RESERVE_CONFIDENCE_OPTIONS.map(c => <option key={c} value={c}>P{c}</option>)}
+                        </select>
+                    </label>
+                    <label className="text-xs text-slate-500 dark:text-slate-400">
+                        随机种子
+                        <input
+                            type="number"
+                            value={seed}
+                            onChange={(e) => setSeed(parseInt(e.target.value) || 0)}
+                            className="block w-32 mt-1 px-3 py-1.5 border border-slate-200 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-sm text-slate-800 dark:text-slate-100"
+                        />
+                    </label>
+                    <button
+                        onClick={handleSetReserve}
+                        disabled={emvs.length === 0}
+                        className="flex items-center gap-2 px-4 py-2 bg-emerald-600 text-white text-sm rounded-lg hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        <Calculator size={16} />
+                        {project.riskReserve ? '重新设定储备' : '设定储备'}
+                    </button>
+                </div>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
+                <div className="p-3 rounded-lg bg-slate-50 dark:bg-slate-700/50">
+                    <div className="text-xs text-slate-500 dark:text-slate-400">项目 EMV</div>
+                    <div className="text-lg font-bold text-slate-800 dark:text-slate-100">{formatCurrency(simulation.expectedValue)}</div>
+                </div>
+                {RESERVE_CONFIDENCE_OPTIONS.map(c => (
+                    <div key={c} className={`p-3 rounded-lg ${c === confidence ? 'bg-emerald-50 dark:bg-emerald-900/30 ring-1 ring-emerald-300' : 'bg-slate-50 dark:bg-slate-700/50'}`}>
+                        <div className="text-xs text-slate-500 dark:text-slate-400">P{c} 风险成本</div>
+                        <div className="text-lg font-bold text-slate-800 dark:text-slate-100">{formatCurrency(simulation.percentiles[c])}</div>
+                    </div>
+                ))}
+                <div className="p-3 rounded-lg bg-slate-50 dark:bg-slate-700/50">
+                    <div className="text-xs text-slate-500 dark:text-slate-400">最坏情况</div>
+                    <div className="text-lg font-bold text-slate-800 dark:text-slate-100">{formatCurrency(simulation.max)}</div>
+                </div>
+            </div>
+
+            {project.riskReserve && status && (
+                <div className="p-4 rounded-lg border border-emerald-200 dark:border-emerald-800 bg-emerald-50/50 dark:bg-emerald-900/10">
+                    <div className="flex flex-wrap items-center gap-x-8 gap-y-2 text-sm">
+                        <span className="text-slate-600 dark:text-slate-300">
+                            储备（P{project.riskReserve.confidenceLevel}）<b className="text-slate-900 dark:text-white">{formatCurrency(status.reserve)}</b>
+                        </span>
+                        <span className="text-slate-600 dark:text-slate-300">已支取 <b className="text-red-600">{formatCurrency(status.drawn)}</b></span>
+                        <span className="text-slate-600 dark:text-slate-300">已释放 <b className="text-blue-600">{formatCurrency(status.released)}</b></span>
+                        <span className="text-slate-600 dark:text-slate-300">
+                            剩余 <b className={status.remaining >= status.required ? 'text-emerald-600' : 'text-orange-600'}>{formatCurrency(status.remaining)}</b>
+                        </span>
+                        <span className="text-slate-600 dark:text-slate-300">当前所需 <b className="text-slate-900 dark:text-white">{formatCurrency(status.required)}</b></span>
+                        <span className="text-xs text-slate-400">
+                            设定于 {project.riskReserve.setAt.split('T')[0]}{project.riskReserve.setBy ? ` · ${project.riskReserve.setBy}` : ''} · 种子 {project.riskReserve.seed}
+                        </span>
+                    </div>
+                </div>
+            )}
+
+            <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                    <thead className="text-xs text-slate-500 dark:text-slate-400 text-left">
+                        <tr>
+                            <th className="py-2">风险</th>
+                            <th className="py-2 text-right">发生概率</th>
+                            <th className="py-2 text-right">成本影响</th>
+                            <th className="py-2 text-right">EMV</th>
+                            <th className="py-2 text-right">缓解成本</th>
+                            {project.riskReserve && <th className="py-2 text-right">储备动用</th>}
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+                        {emvs.length === 0 && (
+                            <tr>
+                                <td colSpan={6} className="py-6 text-center text-slate-400">暂无填写成本影响的未关闭风险</td>
+                            </tr>
+                        )}
+                        {emvs.map(item => (
+                            <tr key={item.risk.id} className="text-slate-700 dark:text-slate-200">
+                                <td className="py-2">{item.risk.title}</td>
+                                <td className="py-2 text-right">{(item.likelihood * 100).toFixed(0)}%</td>
+                                <td className="py-2 text-right">{formatCurrency(item.costImpact)}</td>
+                                <td className="py-2 text-right font-semibold">{formatCurrency(item.emv)}</td>
+                                <td className={`py-2 text-right ${item.mitigationWorthwhile === false ? 'text-orange-600' : ''}`}>
+                                    {item.risk.mitigationCost === undefined ? '—' : formatCurrency(item.risk.mitigationCost)}
+                                </td>
+                                {project.riskReserve && (
+                                    <td className="py-2 text-right space-x-2 whitespace-nowrap">
+                                        <button
+                                            onClick={() => handleDrawdown(item.risk.id, 'realized', item.costImpact)}
+                                            className="px-2 py-1 text-xs rounded bg-red-100 text-red-700 hover:bg-red-200"
+                                        >
+                                            已发生
+                                        </button>
+                                        <button
+                                            onClick={() => handleDrawdown(item.risk.id, 'retired', item.emv)}
+                                            className="px-2 py-1 text-xs rounded bg-blue-100 text-blue-700 hover:bg-blue-200"
+                                        >
+                                            已关闭
+                                        </button>
+                                    </td>
+                                )}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+
+            {project.riskReserve && project.riskReserve.drawdowns.length > 0 && (
+                <div>
+                    <h4 className="text-sm font-semibold text-slate-700 dark:text-slate-200 mb-2">储备动用记录</h4>
+                    <div className="space-y-1 text-xs">
+                        {[...project.riskReserve.drawdowns].reverse().map(d => (
+                            <div key={d.id} className="flex items-center gap-4 text-slate-600 dark:text-slate-300">
+                                <span className="w-24 text-slate-400">{d.date.split('T')[0]}</span>
+                                <span className={`w-12 font-semibold ${d.type === 'realized' ? 'text-red-600' : 'text-blue-600'}`}>
+                                    {d.type === 'realized' ? '支取' : '释放'}
+                                </span>
+                                <span className="flex-1 truncate">{d.riskTitle}</span>
+                                <span className="font-semibold">{formatCurrency(d.amount)}</span>
+                                {d.recordedBy && <span className="text-slate-400">{d.recordedBy}</span>}
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default RiskReservePanel;
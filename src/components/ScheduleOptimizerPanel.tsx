@@ -2,6 +2,18 @@ import React, { useState } from 'react';
 import { Calendar, Sliders, ArrowRight, CheckCircle, AlertTriangle, RefreshCw, BarChart2 } from 'lucide-react';
 import type { Project, Task, ResourcePoolItem } from '../types';
 import { optimizeSchedule } from '../utils/scheduleOptimizer';
+import { applyScheduleChanges } from '../utils/resourceLeveling';
+import type { ScheduleGenerationScheme, SchedulePriorityRule } from '../utils/resourceLeveling';
+import { useResolvedCalendar } from '../store/useStore';
+import { undoHistory } from '../services/undoHistory';
+
+const PRIORITY_RULES: { value: SchedulePriorityRule; label: string }[] = [
+    { value: 'minSlack', label: '最小总浮动' },
+    { value: 'latestStart', label: '最晚开始优先' },
+    { value: 'latestFinish', label: '最晚完成优先' },
+    { value: 'shortestDuration', label: '最短工期优先' },
+    { value: 'taskPriority', label: '任务优先级 (P0→P3)' },
+];
 
 interface ScheduleOptimizerPanelProps {
     project: Project;
@@ -18,23 +30,33 @@ const ScheduleOptimizerPanel: React.FC<ScheduleOptimizerPanelProps> = ({
 }) => {
     const [strategy, setStrategy] = useState<'smoothing' | 'leveling'>('smoothing');
     const [isOptimizing, setIsOptimizing] = useState(false);
+    const [scheme, setScheme] = useState<ScheduleGenerationScheme>('serial');
+    const [priorityRule, setPriorityRule] = useState<SchedulePriorityRule>('minSlack');
     const [result, setResult] = useState<ReturnType<typeof optimizeSchedule> | null>(null);
+    const [applyError, setApplyError] = useState<string | null>(null);
+    const calendar = useResolvedCalendar(project.calendarId);
 
     const handleOptimize = () => {
         setIsOptimizing(true);
+        setApplyError(null);
         // 使用 setTimeout 让 UI 有机会渲染 loading 状态
         setTimeout(() => {
-            const optimizationResult = optimizeSchedule(project, tasks, resourcePool, strategy);
+            const optimizationResult = optimizeSchedule(project, tasks, resourcePool, strategy, calendar, { scheme, priorityRule });
             setResult(optimizationResult);
             setIsOptimizing(false);
         }, 500);
     };
 
     const handleApply = () => {
-        if (result) {
-            onApplyChanges(result.optimizedTasks);
-            setResult(null);
+        if (!result) return;
+        // 以预览生成的 diff 为准整体应用；计划在预览后被修改则全部拒绝
+        const applied = applyScheduleChanges(tasks, result.changes);
+        if (!applied.success) {
+            setApplyError(`有 ${applied.staleTaskIds.length} 个任务在预览后已被修改，请重新计算优化方案`);
+            return;
         }
+        undoHistory.transaction('应用资源平衡方案', () => onApplyChanges(applied.tasks));
+        setResult(null);
     };
 
     return (
@@ -86,6 +108,32 @@ const ScheduleOptimizerPanel: React.FC<ScheduleOptimizerPanelProps> = ({
                     </button>
                 </div>
 
+                <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <label className="text-sm text-slate-600">
+                        <span className="block mb-1 font-medium">进度生成机制</span>
+                        <select
+                            value={scheme}
+                            onChange={(e) => setScheme(e.target.value as ScheduleGenerationScheme)}
+                            className="w-full px-3 py-2 border border-slate-200 rounded-lg bg-white"
+                        >
+                            <option value="serial">串行 (Serial SGS)：逐个任务安排到最早可行时间</option>
+                            <option value="parallel">并行 (Parallel SGS)：按时间推进，同一时刻择优开工</option>
+                        </select>
+                    </label>
+                    <label className="text-sm text-slate-600">
+                        <span className="block mb-1 font-medium">优先规则</span>
+                        <select
+                            value={priorityRule}
+                            onChange={(e) => setPriorityRule(e.target.value as SchedulePriorityRule)}
+                            className="w-full px-3 py-2 border border-slate-200 rounded-lg bg-white"
+                        >
+                            {PRIORITY_RULES.map(rule => (
+                                <option key={rule.value} value={rule.value}>{rule.label}</option>
+                            ))}
+                        </select>
+                    </label>
+                </div>
+
                 <div className="mt-6 flex justify-center">
                     <button
                         onClick={handleOptimize}
@@ -114,7 +162,7 @@ const ScheduleOptimizerPanel: React.FC<ScheduleOptimizerPanelProps> = ({
                         <h4 className="font-semibold text-slate-900">优化方案预览</h4>
                         <div className="flex gap-2">
                             <button
-                                onClick={() => setResult(null)}
+                                onClick={() => { setResult(null); setApplyError(null); }}
                                 className="px-3 py-1.5 text-slate-600 hover:text-slate-900 text-sm font-medium"
                             >
                                 放弃
@@ -147,15 +195,15 @@ const ScheduleOptimizerPanel: React.FC<ScheduleOptimizerPanelProps> = ({
                             </div>
                         </div>
                         <div className="bg-white p-4 rounded-lg border border-slate-200">
-                            <div className="text-sm text-slate-500 mb-1">解决冲突</div>
+                            <div className="text-sm text-slate-500 mb-1">消除超载</div>
                             <div className="text-xl font-bold text-green-600">
-                                {result.metrics.conflictsResolved} 个
+                                {result.metrics.conflictsResolved} 资源·天
                             </div>
                         </div>
                         <div className="bg-white p-4 rounded-lg border border-slate-200">
                             <div className="text-sm text-slate-500 mb-1">资源峰值削减</div>
                             <div className="text-xl font-bold text-blue-600">
-                                {result.metrics.resourcePeakReduced} 单位
+                                {result.metrics.resourcePeakReduced} FTE
                             </div>
                         </div>
                     </div>
@@ -171,21 +219,29 @@ const ScheduleOptimizerPanel: React.FC<ScheduleOptimizerPanelProps> = ({
                                     没有需要调整的任务，当前计划已是最优。
                                 </div>
                             ) : (
-                                result.changes.map((change, index) => (
-                                    <div key={index} className="p-4 hover:bg-slate-50 transition-colors">
+                                result.changes.map((change) => (
+                                    <div key={change.taskId} className="p-4 hover:bg-slate-50 transition-colors">
                                         <div className="flex items-center justify-between mb-1">
                                             <span className="font-medium text-slate-900 text-sm">
                                                 {change.taskName}
                                             </span>
-                                            <span className="text-xs px-2 py-0.5 bg-orange-100 text-orange-700 rounded">
-                                                推迟 {change.delay} 天
-                                            </span>
+                                            <div className="flex items-center gap-2">
+                                                <span className={`text-xs px-2 py-0.5 rounded ${change.cause === 'resource'
+                                                    ? 'bg-purple-100 text-purple-700'
+                                                    : 'bg-slate-100 text-slate-600'
+                                                    }`}>
+                                                    {change.cause === 'resource' ? '资源约束' : '依赖传导'}
+                                                </span>
+                                                <span className="text-xs px-2 py-0.5 bg-orange-100 text-orange-700 rounded">
+                                                    推迟 {change.delay} 天
+                                                </span>
+                                            </div>
                                         </div>
                                         <div className="flex items-center gap-2 text-xs text-slate-500">
                                             <Calendar size={12} />
-                                            <span>{change.originalStart}</span>
+                                            <span>{change.originalStart} ~ {change.originalEnd}</span>
                                             <ArrowRight size={12} />
-                                            <span className="text-slate-900 font-medium">{change.newStart}</span>
+                                            <span className="text-slate-900 font-medium">{change.newStart} ~ {change.newEnd}</span>
                                         </div>
                                         <div className="mt-1 text-xs text-slate-400">
                                             原因: {change.reason}
@@ -196,6 +252,29 @@ const ScheduleOptimizerPanel: React.FC<ScheduleOptimizerPanelProps> = ({
                         </div>
                     </div>
 
+                    {/* 未消解的冲突 */}
+                    {result.unresolved.length > 0 && (
+                        <div className="mt-4 p-3 bg-red-50 text-red-800 rounded-lg text-sm space-y-1">
+                            <div className="flex items-center gap-2 font-medium">
+                                <AlertTriangle size={16} />
+                                仍有 {result.unresolved.length} 项资源超载未能消解
+                            </div>
+                            {result.unresolved.map(conflict => (
+                                <p key={conflict.resourceKey} className="text-xs">
+                                    {conflict.resourceName}：需求峰值 {conflict.peakDemand} / 产能 {conflict.capacity}，
+                                    共 {conflict.dates.length} 天（{conflict.dates[0]} 起）
+                                </p>
+                            ))}
+                        </div>
+                    )}
+
+                    {applyError && (
+                        <div className="mt-4 flex items-start gap-2 p-3 bg-red-50 text-red-700 rounded-lg text-sm">
+                            <AlertTriangle size={16} className="mt-0.5 flex-shrink-0" />
+                            <p>{applyError}</p>
+                        </div>
+                    )}
+
                     {/* 警告信息 */}
                     {strategy === 'leveling' && result.metrics.newDuration > result.metrics.originalDuration && (
                         <div className="mt-4 flex items-start gap-2 p-3 bg-yellow-50 text-yellow-800 rounded-lg text-sm">
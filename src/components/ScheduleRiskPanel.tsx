@@ -0,0 +1,215 @@
+import React, { useState } from 'react';
+import { Dices, Play } from 'lucide-react';
+import { AreaChart, Area, BarChart, Bar, Cell, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import type { Project, WorkingCalendar } from '../types';
+import {
+    DEFAULT_SIMULATION_ITERATIONS,
+    DEFAULT_SIMULATION_SEED,
+    simulateSchedule,
+    type ScheduleSimulationResult
+} from '../utils/scheduleRiskSimulation';
+
+interface ScheduleRiskPanelProps {
+    project: Project;
+    calendar?: WorkingCalendar;
+}
+
+const formatProbability = (value?: number) => value === undefined ? '—' : `${(value * 100).toFixed(0)}%`;
+
+/**
+ * 进度风险蒙特卡洛模拟：三点估算 + 风险延误，输出 P50/P80/P95 完成日期、里程碑预测、任务关键度与进度驱动因素龙卷风图
+ */
+const ScheduleRiskPanel: React.FC<ScheduleRiskPanelProps> = ({ project, calendar }) => {
+    const [seed, setSeed] = useState(DEFAULT_SIMULATION_SEED);
+    const [iterations, setIterations] = useState(DEFAULT_SIMULATION_ITERATIONS);
+    const [result, setResult] = useState<ScheduleSimulationResult | null>(null);
+
+    const runSimulation = () => {
+        setResult(simulateSchedule(project.tasks || [], {
+            iterations,
+            seed,
+            calendar,
+            risks: project.risks || [],
+            targetDate: project.endDate
+        }));
+    };
+
+    const tornadoData = (result?.drivers || []).slice(0, 10).map(d => ({
+        id: d.id,
+        name: d.kind === 'risk' ? `⚠ ${d.name}` : d.name,
+        correlation: Number(d.correlation.toFixed(3)),
+        kind: d.kind
+    }));
+
+    return (
+        <div className="bg-white rounded-lg border border-slate-200 p-6 space-y-6">
+            <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+                <div>
+                    <h3 className="font-semibold text-slate-900 flex items-center gap-2">
+                        <Dices size={20} className="text-indigo-600" />
+                        进度风险模拟（蒙特卡洛）
+                    </h3>
+                    <p className="text-xs text-slate-500 mt-1">
+                        任务工期按三点估算抽样，关联风险按发生概率追加延误；相同种子可复现同一结果
+                    </p>
+                </div>
+                <div className="flex items-end gap-3">
+                    <label className="text-xs text-slate-500">
+                        迭代次数
+                        <input
+                            type="number"
+                            min={100}
+                            max={20000}
+                            step={100}
+                            value={iterations}
+                            onChange={(e) => setIterations(Math.max(1, parseInt(e.target.value) || DEFAULT_SIMULATION_ITERATIONS))}
+                            className="block w-28 mt-1 px-3 py-1.5 border border-slate-300 rounded-lg text-sm text-slate-900 outline-none focus:ring-2 focus:ring-indigo-500"
+                        />
+                    </label>
+                    <label className="text-xs text-slate-500">
+                        随机种子
+                        <input
+                            type="number"
+                            value={seed}
+                            onChange={(e) => setSeed(parseInt(e.target.value) || 0)}
+                            className="block w-32 mt-1 px-3 py-1.5 border border-slate-300 rounded-lg text-sm text-slate-900 outline-none focus:ring-2 focus:ring-indigo-500"
+                        />
+                    </label>
+                    <button
+                        onClick={runSimulation}
+                        disabled={(project.tasks || []).length === 0}
+                        className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white text-sm font-medium rounded-lg hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        <Play size={14} /> 运行模拟
+                    </button>
+                </div>
+            </div>
+
+            {!result && (
+                <div className="text-sm text-slate-400 text-center py-8">
+                    {(project.tasks || []).length === 0 ? '项目暂无任务，无法模拟' : '设置迭代次数与种子后运行模拟'}
+                </div>
+            )}
+
+            {result?.cycle && (
+                <div className="p-3 rounded-lg bg-red-50 border border-red-200 text-sm text-red-700">
+                    任务存在循环依赖，无法模拟：{result.cycle.map(id => (project.tasks || []).find(t => t.id === id)?.name || id).join(' → ')}
+                </div>
+            )}
+
+            {result && result.projectFinish && (
+                <>
+                    <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                        {[
+                            { label: '确定性完成', value: result.deterministicFinish || '—' },
+                            { label: 'P50 完成', value: result.projectFinish.p50 },
+                            { label: 'P80 完成', value: result.projectFinish.p80 },
+                            { label: 'P95 完成', value: result.projectFinish.p95 },
+                            { label: `按期概率（${project.endDate}）`, value: formatProbability(result.onTimeProbability) }
+                        ].map(item => (
+                            <div key={item.label} className="p-4 rounded-lg border border-slate-200 bg-slate-50">
+                                <div className="text-xs font-medium text-slate-500">{item.label}</div>
+                                <div className="text-lg font-bold text-slate-900 mt-1">{item.value}</div>
+                            </div>
+                        ))}
+                    </div>
+                    <div className="text-xs text-slate-400">
+                        {result.iterations} 次迭代 · 种子 {result.seed}
+                    </div>
+
+                    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                        <div>
+                            <h4 className="text-sm font-semibold text-slate-700 mb-2">完成日期累计概率（S 曲线）</h4>
+                            <ResponsiveContainer width="100%" height={260}>
+                                <AreaChart data={result.distribution.map(p => ({ ...p, cumulative: Math.round(p.cumulative * 100) }))}>
+                                    <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                                    <XAxis dataKey="date" tick={{ fontSize: 10 }} />
+                                    <YAxis unit="%" domain={[0, 100]} tick={{ fontSize: 10 }} />
+                                    <Tooltip formatter={(value: number) => [`${value}%`, '累计概率']} />
+                                    <ReferenceLine y={80} stroke="#f59e0b" strokeDasharray="4 4" />
+                                    <Area type="stepAfter" dataKey="cumulative" stroke="#6366f1" fill="#e0e7ff" />
+                                </AreaChart>
+                            </ResponsiveContainer>
+                        </div>
+                        <div>
+                            <h4 className="text-sm font-semibold text-slate-700 mb-2">进度驱动因素（龙卷风图）</h4>
+                            {tornadoData.length === 0 ? (
+                                <div className="text-sm text-slate-400 py-8 text-center">未填写三点估算或风险延误，完成日期没有波动</div>
+                            ) : (
+                                <ResponsiveContainer width="100%" height={260}>
+                                    <BarChart data={tornadoData} layout="vertical" margin={{ left: 20 }}>
+                                        <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                                        <XAxis type="number" domain={[-1, 1]} tick={{ fontSize: 10 }} />
+                                        <YAxis type="category" dataKey="name" width={120} tick={{ fontSize: 10 }} />
+                                        <Tooltip formatter={(value: number) => [value, '相关系数']} />
+                                        <ReferenceLine x={0} stroke="#94a3b8" />
+                                        <Bar dataKey="correlation">
+                                            {tornadoData.map(d => (
+                                                <Cell key={d.id} fill={d.kind === 'risk' ? '#ef4444' : '#6366f1'} />
+                                            ))}
+                                        </Bar>
+                                    </BarChart>
+                                </ResponsiveContainer>
+                            )}
+                        </div>
+                    </div>
+
+                    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                        <div>
+                            <h4 className="text-sm font-semibold text-slate-700 mb-2">里程碑完成预测</h4>
+                            {result.milestones.length === 0 ? (
+                                <div className="text-sm text-slate-400">项目没有里程碑任务</div>
+                            ) : (
+                                <table className="w-full text-xs">
+                                    <thead className="text-slate-500 text-left">
+                                        <tr>
+                                            <th className="py-2">里程碑</th>
+                                            <th className="py-2">计划</th>
+                                            <th className="py-2">P50</th>
+                                            <th className="py-2">P80</th>
+                                            <th className="py-2">P95</th>
+                                            <th className="py-2 text-right">按期概率</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody className="divide-y divide-slate-100">
+                                        {result.milestones.map(m => (
+                                            <tr key={m.taskId} className="text-slate-700">
+                                                <td className="py-2 font-medium">{m.name}</td>
+                                                <td className="py-2">{m.plannedDate}</td>
+                                                <td className="py-2">{m.p50}</td>
+                                                <td className="py-2">{m.p80}</td>
+                                                <td className="py-2">{m.p95}</td>
+                                                <td className={`py-2 text-right font-semibold ${m.onTimeProbability >= 0.8 ? 'text-green-600' : m.onTimeProbability >= 0.5 ? 'text-yellow-600' : 'text-red-600'}`}>
+                                                    {formatProbability(m.onTimeProbability)}
+                                                </td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            )}
+                        </div>
+                        <div>
+                            <h4 className="text-sm font-semibold text-slate-700 mb-2">任务关键度指数</h4>
+                            <div className="space-y-2 max-h-64 overflow-auto">
+                                {result.criticality.map(item => (
+                                    <div key={item.taskId} className="flex items-center gap-3 text-xs">
+                                        <span className="w-40 truncate text-slate-700">{item.name}</span>
+                                        <div className="flex-1 h-2 bg-slate-100 rounded-full overflow-hidden">
+                                            <div
+                                                className={`h-full ${item.criticalityIndex >= 0.8 ? 'bg-red-500' : item.criticalityIndex >= 0.4 ? 'bg-yellow-500' : 'bg-indigo-400'}`}
+                                                style={{ width: `${item.criticalityIndex * 100}%` }}
+                                            />
+                                        </div>
+                                        <span className="w-10 text-right font-semibold text-slate-600">{formatProbability(item.criticalityIndex)}</span>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default ScheduleRiskPanel;
@@ -1,6 +1,6 @@
 import React, { useState, useMemo } from 'react';
 import { Calendar, List, LayoutGrid, Zap, ChevronDown, ChevronRight, Plus, CheckCircle2, Circle, Clock, Download, Printer, Network, User } from 'lucide-react';
-import type { Task, TeamMember } from '../types';
+import type { Task, TeamMember, WorkingCalendar } from '../types';
 import { format, parseISO, addDays } from 'date-fns';
 
 import TaskEditModal from './TaskEditModal';
@@ -8,6 +8,7 @@ import TaskBoardView from './TaskBoardView';
 import TaskNetworkDiagram from './TaskNetworkDiagram';
 import InteractiveGanttChart from './InteractiveGanttChart';
 import { exportTasksToCSV, exportGanttToJSON, printGanttChart } from '../utils/exportUtils';
+import { detectCircularDependency, getTaskDependencies } from '../utils/taskDependency';
 
 interface SmartTaskViewProps {
     tasks: Task[];
@@ -16,6 +17,7 @@ interface SmartTaskViewProps {
     onTaskAdd: (task: Task) => void;
     onTaskDelete: (taskId: string) => void;
     pdsgMembers?: TeamMember[];
+    calendar?: WorkingCalendar; // Project working calendar for CPM
 }
 
 type ViewMode = 'gantt' | 'list' | 'board' | 'network';
@@ -27,7 +29,8 @@ const SmartTaskView: React.FC<SmartTaskViewProps> = ({
     onTaskUpdate,
     onTaskAdd,
     onTaskDelete,
-    pdsgMembers
+    pdsgMembers,
+    calendar
 }) => {
     const [viewMode, setViewMode] = useState<ViewMode>('gantt');
     const [groupBy, setGroupBy] = useState<GroupBy>('status');
@@ -154,9 +157,24 @@ const SmartTaskView: React.FC<SmartTaskViewProps> = ({
             <div className="h-full overflow-hidden">
                 <InteractiveGanttChart
                     tasks={tasks}
+                    calendar={calendar}
                     onTaskUpdate={onTaskUpdate}
                     onTaskDelete={onTaskDelete}
                     onEditTask={setEditingTask}
+                    onDependencyAdd={(sourceId, targetId) => {
+                        const targetTask = tasks.find(t => t.id === targetId);
+                        if (!targetTask) return;
+                        const currentDeps = getTaskDependencies(targetTask);
+                        if (currentDeps.some(dep => dep.taskId === sourceId)) return;
+                        if (detectCircularDependency(tasks, sourceId, targetId)) {
+                            alert('添加此依赖会形成循环！');
+                            return;
+                        }
+                        onTaskUpdate({
+                            ...targetTask,
+                            dependencies: [...currentDeps, { taskId: sourceId, type: 'FS', lag: 0 }]
+                        });
+                    }}
                     onTaskAdd={(partialTask) => {
                         const newTask: Task = {
                             id: Date.now().toString(),
@@ -390,7 +408,7 @@ const SmartTaskView: React.FC<SmartTaskViewProps> = ({
                     />
                 )}
                 {viewMode === 'network' && (
-                    <TaskNetworkDiagram tasks={tasks} />
+                    <TaskNetworkDiagram tasks={tasks} calendar={calendar} />
                 )}
             </div>
 
@@ -0,0 +1,363 @@
+import React, { useMemo, useState } from 'react';
+import { ShieldCheck, Rocket, Plus, Trash2, Check, X, CalendarDays } from 'lucide-react';
+import { Card, Badge, Button } from './ui';
+import { useStore, useSoftwareBaselines, useRolloutCampaigns } from '../store/useStore';
+import {
+    buildSoftwareDriftReport,
+    getBaselineForPlatform,
+    getMachinesNeedingRollout,
+    SOFTWARE_COMPLIANCE_LABELS,
+    type SoftwareComplianceStatus
+} from '../utils/softwareCompliance';
+import type { MachineResource, SoftwareRolloutCampaign, SoftwareRolloutSlot } from '../types';
+import { format, addDays } from 'date-fns';
+
+interface SoftwareCompliancePanelProps {
+    machines: MachineResource[];
+    canManage: boolean;
+}
+
+const STATUS_VARIANTS: Record<SoftwareComplianceStatus, 'success' | 'warning' | 'danger' | 'neutral' | 'info'> = {
+    compliant: 'success',
+    outdated: 'warning',
+    unapproved: 'danger',
+    missing: 'danger',
+    no_baseline: 'neutral'
+};
+
+const CAMPAIGN_STATUS_LABELS: Record<SoftwareRolloutCampaign['status'], string> = {
+    planned: '已排程',
+    in_progress: '进行中',
+    completed: '已完成',
+    cancelled: '已取消'
+};
+
+const SLOT_STATUS_LABELS: Record<SoftwareRolloutSlot['status'], string> = {
+    scheduled: '待升级',
+    done: '已升级',
+    failed: '升级失败',
+    unschedulable: '无空档'
+};
+
+const inputClass = 'w-full bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-xl px-3 py-2 text-xs outline-none focus:ring-2 focus:ring-blue-500';
+const labelClass = 'text-[10px] font-black text-slate-400 uppercase ml-1';
+
+/**
+ * 软件合规：按平台维护批准基线，查看版本漂移，并发起把升级排进空闲日期的升级活动
+ */
+const SoftwareCompliancePanel: React.FC<SoftwareCompliancePanelProps> = ({ machines, canManage }) => {
+    const baselines = useSoftwareBaselines();
+    const campaigns = useRolloutCampaigns();
+    const { saveSoftwareBaseline, deleteSoftwareBaseline, createRolloutCampaign, completeRolloutSlot, cancelRolloutCampaign, addNotification } = useStore();
+
+    const platforms = useMemo(
+        () => Array.from(new Set(machines.map(m => m.platform || 'General'))).sort(),
+        [machines]
+    );
+    const report = useMemo(() => buildSoftwareDriftReport(machines, baselines), [machines, baselines]);
+
+    const [onlyDrift, setOnlyDrift] = useState(true);
+    const [baselineDraft, setBaselineDraft] = useState<{ platform: string; targetVersion: string; approvedVersions: string; notes: string } | null>(null);
+    const [campaignDraft, setCampaignDraft] = useState<{ name: string; platform: string; startDate: string; endDate: string; maxPerDay: number } | null>(null);
+
+    // Machines already scheduled in an open campaign are not offered again
+    const scheduledMachineIds = useMemo(() => new Set(campaigns
+        .filter(c => c.status === 'planned' || c.status === 'in_progress')
+        .flatMap(c => c.slots.filter(s => s.status === 'scheduled').map(s => s.machineId))
+    ), [campaigns]);
+    const needingRollout = (platform: string) =>
+        getMachinesNeedingRollout(machines, baselines, platform).filter(m => !scheduledMachineIds.has(m.id));
+
+    const driftItems = onlyDrift ? report.items.filter(i => i.status !== 'compliant' && i.status !== 'no_baseline') : report.items;
+    const campaignBaseline = campaignDraft ? getBaselineForPlatform(baselines, campaignDraft.platform) : undefined;
+    const campaignMachines = useMemo(
+        () => campaignDraft ? getMachinesNeedingRollout(machines, baselines, campaignDraft.platform).filter(m => !scheduledMachineIds.has(m.id)) : [],
+        [campaignDraft, machines, baselines, scheduledMachineIds]
+    );
+
+    const editBaseline = (platform: string) => {
+        const existing = getBaselineForPlatform(baselines, platform);
+        setBaselineDraft({
+            platform,
+            targetVersion: existing?.targetVersion || '',
+            approvedVersions: (existing?.approvedVersions || []).join(', '),
+            notes: existing?.notes || ''
+        });
+    };
+
+    const handleSaveBaseline = () => {
+        if (!baselineDraft || !baselineDraft.targetVersion.trim()) return;
+        saveSoftwareBaseline({
+            platform: baselineDraft.platform,
+            targetVersion: baselineDraft.targetVersion.trim(),
+            approvedVersions: baselineDraft.approvedVersions.split(/[,，]/).map(v => v.trim()).filter(Boolean),
+            notes: baselineDraft.notes.trim() || undefined
+        });
+        setBaselineDraft(null);
+    };
+
+    const startCampaign = (platform: string) => setCampaignDraft({
+        name: '',
+        platform,
+        startDate: format(addDays(new Date(), 1), 'yyyy-MM-dd'),
+        endDate: format(addDays(new Date(), 14), 'yyyy-MM-dd'),
+        maxPerDay: 2
+    });
+
+    const handleCreateCampaign = () => {
+        if (!campaignDraft || !campaignBaseline || campaignMachines.length === 0) return;
+        const campaign = createRolloutCampaign({
+            name: campaignDraft.name.trim() || `${campaignDraft.platform} 升级至 ${campaignBaseline.targetVersion}`,
+            platform: campaignDraft.platform,
+            targetVersion: campaignBaseline.targetVersion,
+            startDate: campaignDraft.startDate,
+            endDate: campaignDraft.endDate,
+            maxPerDay: campaignDraft.maxPerDay,
+            machineIds: campaignMachines.map(m => m.id)
+        });
+        if (!campaign) return;
+
+        const unscheduled = campaign.slots.filter(s => s.status === 'unschedulable').length;
+        addNotification({
+            type: unscheduled > 0 ? 'warning' : 'success',
+            message: unscheduled > 0
+                ? `已排程 ${campaign.slots.length - unscheduled} 台，${unscheduled} 台在窗口内没有空闲日期`
+                : `已为 ${campaign.slots.length} 台机器排程升级`
+        });
+        setCampaignDraft(null);
+    };
+
+    return (
+        <div className="space-y-8">
+            <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
+                <Card className="p-6 md:col-span-2 bg-gradient-to-br from-indigo-500 to-purple-600 text-white border-none shadow-xl rounded-[32px]">
+                    <div className="text-[10px] font-black uppercase tracking-widest opacity-70">基线合规率</div>
+                    <div className="text-4xl font-black mt-2">{(report.complianceRate * 100).toFixed(0)}%</div>
+                    <div className="text-[11px] font-bold opacity-70 mt-1">有基线的 {machines.length - report.counts.no_baseline} 台机器</div>
+                </Card>
+                {(['unapproved', 'outdated', 'missing', 'no_baseline'] as SoftwareComplianceStatus[]).map(status => (
+                    <Card key={status} className="p-6 bg-white/60 dark:bg-slate-900/60 backdrop-blur-xl border-none shadow-xl rounded-[32px]">
+                        <div className="text-[10px] font-black uppercase tracking-widest text-slate-400">{SOFTWARE_COMPLIANCE_LABELS[status]}</div>
+                        <div className="text-3xl font-black mt-2 text-slate-800 dark:text-slate-100">{report.counts[status]}</div>
+                    </Card>
+                ))}
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-5 gap-8">
+                {/* Baselines */}
+                <Card className="p-8 lg:col-span-2 bg-white/60 dark:bg-slate-900/60 backdrop-blur-xl border-none shadow-xl rounded-[40px] space-y-4">
+                    <h4 className="font-black flex items-center gap-3">
+                        <div className="p-2 bg-indigo-500/10 rounded-xl">
+                            <ShieldCheck size={16} className="text-indigo-600" />
+                        </div>
+                        平台软件基线
+                    </h4>
+                    {platforms.map(platform => {
+                        const baseline = getBaselineForPlatform(baselines, platform);
+                        return (
+                            <div key={platform} className="p-4 bg-white/60 dark:bg-slate-800/60 rounded-3xl border border-white/40 dark:border-slate-700/40 space-y-1 text-xs">
+                                <div className="flex items-center justify-between">
+                                    <span className="font-black text-slate-800 dark:text-slate-100">{platform}</span>
+                                    {canManage && (
+                                        <div className="flex gap-1">
+                                            <button onClick={() => editBaseline(platform)} className="text-[10px] font-black text-blue-600 px-2">{baseline ? '修改' : '设定基线'}</button>
+                                            {baseline && (
+                                                <button onClick={() => deleteSoftwareBaseline(baseline.id)} className="p-1 text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg" title="删除基线"><Trash2 size={12} /></button>
+                                            )}
+                                        </div>
+                                    )}
+                                </div>
+                                {baseline ? (
+                                    <>
+                                        <div className="text-slate-500">目标版本: <span className="font-mono font-bold text-indigo-600">{baseline.targetVersion}</span></div>
+                                        <div className="text-slate-500">允许旧版本: {baseline.approvedVersions.length ? baseline.approvedVersions.join('、') : '无'}</div>
+                                        <div className="text-[10px] text-slate-400">{baseline.approvedBy} 批准于 {format(new Date(baseline.approvedAt), 'yyyy-MM-dd')}</div>
+                                    </>
+                                ) : (
+                                    <div className="text-slate-400 italic">未设定基线</div>
+                                )}
+                                {canManage && baseline && needingRollout(platform).length > 0 && (
+                                    <button onClick={() => startCampaign(platform)} className="text-[10px] font-black text-emerald-600 flex items-center gap-1 pt-1">
+                                        <Rocket size={12} /> 发起升级活动（{needingRollout(platform).length} 台待升级）
+                                    </button>
+                                )}
+                            </div>
+                        );
+                    })}
+
+                    {baselineDraft && (
+                        <div className="p-5 bg-blue-50/30 dark:bg-blue-900/10 rounded-3xl border border-blue-100 dark:border-blue-900/30 space-y-3">
+                            <div className="text-xs font-black">{baselineDraft.platform} 基线</div>
+                            <div>
+                                <label className={labelClass}>目标版本 *</label>
+                                <input className={inputClass} value={baselineDraft.targetVersion} onChange={(e) => setBaselineDraft({ ...baselineDraft, targetVersion: e.target.value })} placeholder="如: V2.6.0" />
+                            </div>
+                            <div>
+                                <label className={labelClass}>仍允许的旧版本（逗号分隔）</label>
+                                <input className={inputClass} value={baselineDraft.approvedVersions} onChange={(e) => setBaselineDraft({ ...baselineDraft, approvedVersions: e.target.value })} placeholder="如: V2.5.*" />
+                            </div>
+                            <div>
+                                <label className={labelClass}>备注</label>
+                                <input className={inputClass} value={baselineDraft.notes} onChange={(e) => setBaselineDraft({ ...baselineDraft, notes: e.target.value })} />
+                            </div>
+                            <div className="flex justify-end gap-2">
+                                <Button variant="ghost" size="sm" onClick={() => setBaselineDraft(null)}>取消</Button>
+                                <Button size="sm" icon={Check} disabled={!baselineDraft.targetVersion.trim()} onClick={handleSaveBaseline}>批准基线</Button>
+                            </div>
+                        </div>
+                    )}
+                </Card>
+
+                {/* Drift report */}
+                <Card className="p-8 lg:col-span-3 bg-white/60 dark:bg-slate-900/60 backdrop-blur-xl border-none shadow-xl rounded-[40px]">
+                    <div className="flex items-center justify-between mb-6">
+                        <h4 className="font-black">版本漂移报告</h4>
+                        <label className="flex items-center gap-2 text-[11px] font-bold text-slate-500">
+                            <input type="checkbox" checked={onlyDrift} onChange={(e) => setOnlyDrift(e.target.checked)} />
+                            仅显示不合规
+                        </label>
+                    </div>
+                    <div className="max-h-[480px] overflow-y-auto pr-2 scrollbar-hide">
+                        <table className="w-full text-xs">
+                            <thead className="text-[10px] font-black uppercase tracking-widest text-slate-400 text-left">
+                                <tr>
+                                    <th className="py-2">机器</th>
+                                    <th className="py-2">平台</th>
+                                    <th className="py-2">当前版本</th>
+                                    <th className="py-2">基线版本</th>
+                                    <th className="py-2 text-right">状态</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
+                                {driftItems.map(item => (
+                                    <tr key={item.machineId} className="font-bold text-slate-700 dark:text-slate-300">
+                                        <td className="py-2">{item.machineName}</td>
+                                        <td className="py-2">{item.platform}</td>
+                                        <td className="py-2 font-mono">{item.version || '-'}</td>
+                                        <td className="py-2 font-mono text-slate-400">{item.targetVersion || '-'}</td>
+                                        <td className="py-2 text-right">
+                                            <Badge variant={STATUS_VARIANTS[item.status]} size="sm">{SOFTWARE_COMPLIANCE_LABELS[item.status]}</Badge>
+                                        </td>
+                                    </tr>
+                                ))}
+                                {driftItems.length === 0 && (
+                                    <tr><td colSpan={5} className="py-8 text-center text-slate-400">所有受基线管理的机器均符合基线</td></tr>
+                                )}
+                            </tbody>
+                        </table>
+                    </div>
+                </Card>
+            </div>
+
+            {/* Rollout campaigns */}
+            <Card className="p-8 bg-white/60 dark:bg-slate-900/60 backdrop-blur-xl border-none shadow-xl rounded-[40px] space-y-4">
+                <h4 className="font-black flex items-center gap-3">
+                    <div className="p-2 bg-emerald-500/10 rounded-xl">
+                        <Rocket size={16} className="text-emerald-600" />
+                    </div>
+                    软件升级活动
+                    {canManage && !campaignDraft && platforms.some(p => getBaselineForPlatform(baselines, p)) && (
+                        <Button variant="outline" size="sm" icon={Plus} className="ml-auto" onClick={() => startCampaign(platforms.find(p => getBaselineForPlatform(baselines, p))!)}>
+                            新建活动
+                        </Button>
+                    )}
+                </h4>
+
+                {campaignDraft && (
+                    <div className="p-5 bg-emerald-50/30 dark:bg-emerald-900/10 rounded-3xl border border-emerald-100 dark:border-emerald-900/30 space-y-3">
+                        <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                            <div className="md:col-span-2">
+                                <label className={labelClass}>活动名称</label>
+                                <input className={inputClass} value={campaignDraft.name} onChange={(e) => setCampaignDraft({ ...campaignDraft, name: e.target.value })} placeholder={campaignBaseline ? `${campaignDraft.platform} 升级至 ${campaignBaseline.targetVersion}` : ''} />
+                            </div>
+                            <div>
+                                <label className={labelClass}>平台</label>
+                                <select className={inputClass} value={campaignDraft.platform} onChange={(e) => setCampaignDraft({ ...campaignDraft, platform: e.target.value })}>
+                                    {platforms.filter(p => getBaselineForPlatform(baselines, p)).map(p => <option key={p} value={p}>{p}</option>)}
+                                </select>
+                            </div>
+                            <div>
+                                <label className={labelClass}>窗口开始</label>
+                                <input type="date" className={inputClass} value={campaignDraft.startDate} onChange={(e) => setCampaignDraft({ ...campaignDraft, startDate: e.target.value })} />
+                            </div>
+                            <div>
+                                <label className={labelClass}>窗口结束</label>
+                                <input type="date" className={inputClass} value={campaignDraft.endDate} onChange={(e) => setCampaignDraft({ ...campaignDraft, endDate: e.target.value })} />
+                            </div>
+                            <div>
+                                <label className={labelClass}>每日最多台数</label>
+                                <input type="number" min={1} className={inputClass} value={campaignDraft.maxPerDay} onChange={(e) => setCampaignDraft({ ...campaignDraft, maxPerDay: Math.max(1, Number(e.target.value) || 1) })} />
+                            </div>
+                        </div>
+                        <p className="text-[11px] text-slate-500 font-bold">
+                            目标版本 {campaignBaseline?.targetVersion || '-'}，待升级 {campaignMachines.length} 台：{campaignMachines.map(m => m.name).join('、') || '无'}。
+                            每台机器排入窗口内第一个没有预约和维保的日期。
+                        </p>
+                        <div className="flex justify-end gap-2">
+                            <Button variant="ghost" size="sm" onClick={() => setCampaignDraft(null)}>取消</Button>
+                            <Button
+                                size="sm"
+                                icon={CalendarDays}
+                                disabled={!campaignBaseline || campaignMachines.length === 0 || campaignDraft.endDate < campaignDraft.startDate}
+                                onClick={handleCreateCampaign}
+                            >
+                                排程升级
+                            </Button>
+                        </div>
+                    </div>
+                )}
+
+                {campaigns.length === 0 && !campaignDraft && (
+                    <p className="text-xs text-slate-400 font-bold py-6 text-center">暂无升级活动</p>
+                )}
+                {campaigns.map(campaign => (
+                    <div key={campaign.id} className="p-5 bg-white/60 dark:bg-slate-800/60 rounded-3xl border border-white/40 dark:border-slate-700/40 space-y-3">
+                        <div className="flex items-center justify-between gap-4">
+                            <div>
+                                <div className="flex items-center gap-2">
+                                    <span className="text-sm font-black text-slate-800 dark:text-slate-100">{campaign.name}</span>
+                                    <Badge variant={campaign.status === 'completed' ? 'success' : campaign.status === 'cancelled' ? 'neutral' : 'info'} size="sm">
+                                        {CAMPAIGN_STATUS_LABELS[campaign.status]}
+                                    </Badge>
+                                </div>
+                                <div className="text-[10px] text-slate-400 font-bold mt-0.5">
+                                    {campaign.platform} → {campaign.targetVersion} · {campaign.startDate} ~ {campaign.endDate} · 每日最多 {campaign.maxPerDay} 台 · {campaign.createdBy}
+                                </div>
+                            </div>
+                            {canManage && (campaign.status === 'planned' || campaign.status === 'in_progress') && (
+                                <Button variant="ghost" size="sm" onClick={() => cancelRolloutCampaign(campaign.id)}>取消活动</Button>
+                            )}
+                        </div>
+                        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-2">
+                            {campaign.slots.map(slot => (
+                                <div key={slot.machineId} className="flex items-center justify-between gap-2 p-3 bg-slate-50 dark:bg-slate-900/50 rounded-2xl text-xs">
+                                    <div>
+                                        <div className="font-black text-slate-700 dark:text-slate-200">{slot.machineName}</div>
+                                        <div className="text-[10px] text-slate-400 font-bold">
+                                            {slot.plannedDate || '窗口内无空档'} · {slot.fromVersion || '未部署'} → {campaign.targetVersion}
+                                        </div>
+                                    </div>
+                                    {slot.status === 'scheduled' && canManage && campaign.status !== 'cancelled' ? (
+                                        <div className="flex gap-1 shrink-0">
+                                            <button onClick={() => completeRolloutSlot(campaign.id, slot.machineId, true)} className="p-1.5 text-emerald-600 hover:bg-emerald-50 dark:hover:bg-emerald-900/20 rounded-lg" title="升级完成"><Check size={14} /></button>
+                                            <button onClick={() => completeRolloutSlot(campaign.id, slot.machineId, false)} className="p-1.5 text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg" title="升级失败"><X size={14} /></button>
+                                        </div>
+                                    ) : (
+                                        <Badge
+                                            variant={slot.status === 'done' ? 'success' : slot.status === 'scheduled' ? (campaign.status === 'cancelled' ? 'neutral' : 'info') : 'danger'}
+                                            size="sm"
+                                        >
+                                            {slot.status === 'scheduled' && campaign.status === 'cancelled' ? '已取消' : SLOT_STATUS_LABELS[slot.status]}
+                                        </Badge>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                ))}
+            </Card>
+        </div>
+    );
+};
+
+export default SoftwareCompliancePanel;
@@ -4,93 +4,64 @@ import {
     CheckCircle, Circle, XCircle,
     ChevronRight, Check, FileText, ShieldAlert, Clock
 } from 'lucide-react';
-import type { ProjectWithStageGate, StageGate, ProjectStage } from '../types';
+import type { ApprovalWorkflow, ProjectWithStageGate, StageGate, ProjectStage } from '../types';
 import {
+    STAGE_ORDER,
     getStageName,
     getNextStage,
     canApproveGate,
     getGateCompletionPercentage,
     getGateStatusColor,
     getGateStatusLabel,
-    approveGate,
-    rejectGate,
-    updateRequirement,
-    requestGate
+    getStageEntryBlocker
 } from '../utils/stageGateManagement';
 
 interface StageGateWorkflowProps {
     project: ProjectWithStageGate;
-    onUpdateGate: (gate: StageGate) => void;
+    workflows: ApprovalWorkflow[]; // stage-gate approval workflows of this project
+    onToggleRequirement: (gate: StageGate, requirementId: string, completed: boolean) => void;
+    onRequestApproval: (gate: StageGate) => void;
+    onDecide: (workflow: ApprovalWorkflow, stepNumber: number, decision: 'approve' | 'reject', comments?: string, conditions?: string[]) => void;
     onMoveToNextStage: () => void;
-    currentUserId: string;
-    currentUserName: string;
-    userRole: 'admin' | 'manager' | 'user' | 'readonly';
-    onRequestApproval?: (gate: StageGate) => void;
+    canEdit: boolean;
+    canDecide: (workflow: ApprovalWorkflow, stepNumber: number) => boolean; // 当前用户是否为该步骤的指定审批人
 }
 
 const StageGateWorkflow: React.FC<StageGateWorkflowProps> = ({
     project,
-    onUpdateGate,
+    workflows,
+    onToggleRequirement,
+    onRequestApproval,
+    onDecide,
     onMoveToNextStage,
-    currentUserId,
-    currentUserName,
-    userRole,
-    onRequestApproval
+    canEdit,
+    canDecide
 }) => {
     const [selectedGateId, setSelectedGateId] = useState<string | null>(null);
     const [approvalComments, setApprovalComments] = useState('');
     const [approvalConditions, setApprovalConditions] = useState('');
 
-    const isPMO = userRole === 'admin';
-    const isPM = userRole === 'manager';
-    const canManageRequirements = isPM || isPMO;
+    const currentStageIndex = STAGE_ORDER.indexOf(project.currentStage);
+    const nextStage = getNextStage(project.currentStage);
+    const nextStageBlocker = nextStage ? getStageEntryBlocker(project.gates, nextStage) : undefined;
 
-    const currentStageIndex = ['initiation', 'planning', 'execution', 'monitoring', 'closing'].indexOf(project.currentStage);
-
-    const handleToggleRequirement = (gate: StageGate, requirementId: string, completed: boolean) => {
-        const updatedGate = updateRequirement(gate, requirementId, completed, currentUserId);
-        onUpdateGate(updatedGate);
-    };
-
-    const handleRequestGate = (gate: StageGate) => {
-        const updatedGate = requestGate(gate);
-        onUpdateGate(updatedGate);
-        if (onRequestApproval) {
-            onRequestApproval(updatedGate);
+    const handleDecide = (gate: StageGate, decision: 'approve' | 'reject') => {
+        const workflow = workflows.find(wf => wf.id === gate.workflowId);
+        const step = workflow?.approvers.find(a => a.status === 'pending' && a.isRequired);
+        if (!workflow || !step) return;
+        if (decision === 'reject' && !approvalComments.trim()) {
+            alert('请输入拒绝原因');
+            return;
         }
-    };
 
-    const handleApproveGate = (gate: StageGate) => {
         const conditions = approvalConditions.trim()
             ? approvalConditions.split('\n').filter(c => c.trim())
             : undefined;
-
-        const updatedGate = approveGate(
-            gate,
-            currentUserId,
-            currentUserName,
-            approvalComments || undefined,
-            conditions
-        );
-
-        onUpdateGate(updatedGate);
-        setSelectedGateId(null);
+        onDecide(workflow, step.stepNumber, decision, approvalComments || undefined, decision === 'approve' ? conditions : undefined);
         setApprovalComments('');
         setApprovalConditions('');
     };
 
-    const handleRejectGate = (gate: StageGate) => {
-        if (!approvalComments.trim()) {
-            alert('请输入拒绝原因');
-            return;
-        }
-
-        const updatedGate = rejectGate(gate, currentUserId, currentUserName, approvalComments);
-        onUpdateGate(updatedGate);
-        setSelectedGateId(null);
-        setApprovalComments('');
-    };
-
     const StageIndicator: React.FC<{ stage: ProjectStage; index: number }> = ({ stage, index }) => {
         const isActive = index === currentStageIndex;
         const isPassed = index < currentStageIndex;
@@ -133,10 +104,10 @@ const StageGateWorkflow: React.FC<StageGateWorkflowProps> = ({
                     项目阶段进度
                 </h3>
                 <div className="flex items-center justify-between">
-                    {(['initiation', 'planning', 'execution', 'monitoring', 'closing'] as ProjectStage[]).map((stage, index) => (
+                    {STAGE_ORDER.map((stage, index) => (
                         <React.Fragment key={stage}>
                             <StageIndicator stage={stage} index={index} />
-                            {index < 4 && (
+                            {index < STAGE_ORDER.length - 1 && (
                                 <ChevronRight
                                     className={`mx-2 ${index < currentStageIndex
                                         ? 'text-green-600 dark:text-green-400'
@@ -156,6 +127,12 @@ const StageGateWorkflow: React.FC<StageGateWorkflowProps> = ({
                     const completion = getGateCompletionPercentage(gate);
                     const canApprove = canApproveGate(gate);
                     const isExpanded = selectedGateId === gate.id;
+                    const workflow = workflows.find(wf => wf.id === gate.workflowId);
+                    const pendingStep = gate.status === 'requested'
+                        ? workflow?.approvers.find(a => a.status === 'pending' && a.isRequired)
+                        : undefined;
+                    const mayDecide = !!workflow && !!pendingStep && canDecide(workflow, pendingStep.stepNumber);
+                    const editable = canEdit && (gate.status === 'pending' || gate.status === 'rejected');
 
                     return (
                         <div
@@ -226,12 +203,12 @@ const StageGateWorkflow: React.FC<StageGateWorkflowProps> = ({
                                                             className="flex items-start gap-3 p-3 bg-slate-50 dark:bg-slate-900/50 rounded-lg"
                                                         >
                                                             <button
-                                                                onClick={() => canManageRequirements && handleToggleRequirement(gate, req.id, !req.completed)}
-                                                                disabled={!canManageRequirements || gate.status === 'approved' || gate.status === 'requested'}
+                                                                onClick={() => editable && onToggleRequirement(gate, req.id, !req.completed)}
+                                                                disabled={!editable}
                                                                 className={`flex-shrink-0 w-5 h-5 rounded border-2 flex items-center justify-center transition-colors ${req.completed
                                                                     ? 'bg-green-500 border-green-500'
                                                                     : 'border-slate-300 dark:border-slate-600 hover:border-green-500'
-                                                                    } ${!canManageRequirements || gate.status === 'approved' || gate.status === 'requested' ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}
+                                                                    } ${!editable ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}
                                                             >
                                                                 {req.completed && <Check size={14} className="text-white" />}
                                                             </button>
@@ -262,7 +239,7 @@ const StageGateWorkflow: React.FC<StageGateWorkflowProps> = ({
                                             </div>
 
                                             {/* Approval/Request Section */}
-                                            {gate.status === 'pending' && isPM && (
+                                            {editable && (
                                                 <div className="pt-4 border-t border-slate-200 dark:border-slate-700">
                                                     <div className="p-4 bg-blue-50 dark:bg-blue-900/10 rounded-xl flex items-center justify-between">
                                                         <div className="flex items-center gap-3">
@@ -270,12 +247,12 @@ const StageGateWorkflow: React.FC<StageGateWorkflowProps> = ({
                                                                 <FileText size={20} />
                                                             </div>
                                                             <div>
-                                                                <div className="text-sm font-bold text-slate-900 dark:text-slate-100">发起审批申请</div>
-                                                                <p className="text-xs text-slate-500">已完成所有必需项，可申请 PMO 审核进入下一阶段</p>
+                                                                <div className="text-sm font-bold text-slate-900 dark:text-slate-100">{gate.status === 'rejected' ? '重新发起审批' : '发起审批申请'}</div>
+                                                                <p className="text-xs text-slate-500">完成所有必需项后提交门径评审流程，批准后方可进入下一阶段</p>
                                                             </div>
                                                         </div>
                                                         <button
-                                                            onClick={() => handleRequestGate(gate)}
+                                                            onClick={() => onRequestApproval(gate)}
                                                             disabled={!canApprove}
                                                             className="px-6 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-slate-300 text-white rounded-lg text-sm font-bold shadow-lg shadow-blue-500/20 transition-all whitespace-nowrap flex-shrink-0"
                                                         >
@@ -285,10 +262,27 @@ const StageGateWorkflow: React.FC<StageGateWorkflowProps> = ({
                                                 </div>
                                             )}
 
-                                            {gate.status === 'requested' && isPMO && (
+                                            {workflow && (
+                                                <div className="pt-4 border-t border-slate-200 dark:border-slate-700 flex flex-wrap gap-2">
+                                                    {workflow.approvers.map(step => (
+                                                        <span
+                                                            key={step.stepNumber}
+                                                            className={`px-3 py-1 rounded-full text-xs font-medium ${step.status === 'approved' ? getGateStatusColor('approved') :
+                                                                step.status === 'rejected' ? getGateStatusColor('rejected') :
+                                                                    step === pendingStep ? getGateStatusColor('requested') : getGateStatusColor('pending')
+                                                                }`}
+                                                        >
+                                                            {step.stepNumber}. {step.approverName}
+                                                            {step.decidedAt && ` · ${new Date(step.decidedAt).toLocaleDateString('zh-CN')}`}
+                                                        </span>
+                                                    ))}
+                                                </div>
+                                            )}
+
+                                            {pendingStep && mayDecide && (
                                                 <div className="pt-4 border-t border-slate-200 dark:border-slate-700">
                                                     <h5 className="text-sm font-black uppercase tracking-widest text-slate-400 mb-4 flex items-center gap-2">
-                                                        <ShieldAlert size={16} /> PMO 审批决策
+                                                        <ShieldAlert size={16} /> {pendingStep.approverName} 评审决策
                                                     </h5>
                                                     <div className="space-y-4">
                                                         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -319,14 +313,14 @@ const StageGateWorkflow: React.FC<StageGateWorkflowProps> = ({
                                                         </div>
                                                         <div className="flex gap-3">
                                                             <button
-                                                                onClick={() => handleApproveGate(gate)}
+                                                                onClick={() => handleDecide(gate, 'approve')}
                                                                 className="flex-1 flex items-center justify-center gap-2 px-6 py-3 bg-green-600 hover:bg-green-700 text-white rounded-2xl font-bold transition-all shadow-xl shadow-green-500/20 whitespace-nowrap flex-shrink-0"
                                                             >
                                                                 <CheckCircle size={18} />
                                                                 批准通过
                                                             </button>
                                                             <button
-                                                                onClick={() => handleRejectGate(gate)}
+                                                                onClick={() => handleDecide(gate, 'reject')}
                                                                 className="flex-1 flex items-center justify-center gap-2 px-6 py-3 bg-red-600 hover:bg-red-700 text-white rounded-2xl font-bold transition-all shadow-xl shadow-red-500/20 whitespace-nowrap flex-shrink-0"
                                                             >
                                                                 <XCircle size={18} />
@@ -337,17 +331,19 @@ const StageGateWorkflow: React.FC<StageGateWorkflowProps> = ({
                                                 </div>
                                             )}
 
-                                            {gate.status === 'requested' && !isPMO && (
+                                            {gate.status === 'requested' && !mayDecide && (
                                                 <div className="pt-4 border-t border-slate-200 dark:border-slate-700">
                                                     <div className="p-4 bg-amber-50 dark:bg-amber-900/10 rounded-xl flex items-center gap-3">
                                                         <Clock size={20} className="text-amber-600" />
-                                                        <div className="text-sm text-amber-700 dark:text-amber-400 font-medium">已提交申请，请等待 PMO 审核通过。</div>
+                                                        <div className="text-sm text-amber-700 dark:text-amber-400 font-medium">
+                                                            已提交评审{pendingStep ? `，等待 ${pendingStep.approverName} 审批` : ''}。
+                                                        </div>
                                                     </div>
                                                 </div>
                                             )}
 
                                             {/* Approval Info */}
-                                            {gate.status !== 'pending' && (
+                                            {gate.approvalDate && (
                                                 <div className="pt-4 border-t border-slate-200 dark:border-slate-700">
                                                     <div className="flex items-start gap-2 p-3 bg-slate-50 dark:bg-slate-900/50 rounded-lg">
                                                         <FileText size={16} className="text-slate-600 dark:text-slate-400 mt-0.5" />
@@ -386,7 +382,7 @@ const StageGateWorkflow: React.FC<StageGateWorkflowProps> = ({
             </div>
 
             {/* Move to Next Stage Button */}
-            {isPMO && getNextStage(project.currentStage) && (
+            {canEdit && nextStage && (
                 <div className="bg-blue-50 dark:bg-blue-900/20 rounded-xl border border-blue-200 dark:border-blue-800 p-4">
                     <div className="flex items-center justify-between">
                         <div>
@@ -394,12 +390,18 @@ const StageGateWorkflow: React.FC<StageGateWorkflowProps> = ({
                                 准备进入下一阶段？
                             </h4>
                             <p className="text-sm text-blue-700 dark:text-blue-300 mt-1">
-                                当前阶段：{getStageName(project.currentStage)} → 下一阶段：{getStageName(getNextStage(project.currentStage)!)}
+                                当前阶段：{getStageName(project.currentStage)} → 下一阶段：{getStageName(nextStage)}
                             </p>
+                            {nextStageBlocker && (
+                                <p className="text-xs text-orange-600 dark:text-orange-400 mt-1">
+                                    需先通过「{nextStageBlocker.name}」
+                                </p>
+                            )}
                         </div>
                         <button
                             onClick={onMoveToNextStage}
-                            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm font-medium transition-colors"
+                            disabled={!!nextStageBlocker}
+                            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-slate-300 disabled:cursor-not-allowed text-white rounded-lg text-sm font-medium transition-colors"
                         >
                             进入下一阶段
                         </button>
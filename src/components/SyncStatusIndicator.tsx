@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { Cloud, CloudOff, RefreshCw, AlertTriangle } from 'lucide-react';
+import clsx from 'clsx';
+import { syncEngine, useSyncStatus } from '../services/storage';
+import type { EntityConflict } from '../services/storage';
+
+const ADAPTER_LABELS = {
+    localStorage: '本地存储',
+    indexedDB: 'IndexedDB',
+    rest: '服务器'
+};
+
+const describeConflict = (conflict: EntityConflict) => {
+    const data = (conflict.change.data ?? conflict.current?.data) as { name?: string; title?: string } | undefined;
+    const label = data?.name || data?.title || conflict.change.id;
+    const collection = conflict.change.collection.split('/').pop();
+    return `${collection} · ${label}`;
+};
+
+/**
+ * 顶栏同步状态：离线、待同步数量与版本冲突处理
+ */
+const SyncStatusIndicator: React.FC = () => {
+    const status = useSyncStatus();
+    const [isOpen, setIsOpen] = useState(false);
+
+    const hasConflicts = status.conflicts.length > 0;
+    // 纯本地存储且一切正常时不占用顶栏空间
+    if (status.adapter === 'localStorage' && !hasConflicts && !status.lastError) return null;
+
+    const Icon = hasConflicts ? AlertTriangle : !status.online ? CloudOff : status.lastError ? AlertTriangle : status.syncing ? RefreshCw : Cloud;
+
+    return (
+        <div className="relative">
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                title={`${ADAPTER_LABELS[status.adapter]}${status.pendingChanges > 0 ? ` · ${status.pendingChanges} 项待同步` : ''}`}
+                className={clsx(
+                    "p-2 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors relative flex items-center gap-1",
+                    hasConflicts ? "text-amber-500" : !status.online || status.lastError ? "text-red-500" : "text-slate-600 dark:text-slate-300"
+                )}
+            >
+                <Icon size={20} className={clsx(status.syncing && "animate-spin")} />
+                {(status.pendingChanges > 0 || hasConflicts) && (
+                    <span className="text-xs font-medium">{hasConflicts ? status.conflicts.length : status.pendingChanges}</span>
+                )}
+            </button>
+
+            {isOpen && (
+                <div className="absolute right-0 mt-2 w-80 bg-white dark:bg-slate-800 rounded-xl shadow-xl border border-slate-200 dark:border-slate-700 z-50 p-4 space-y-3 text-sm">
+                    <div className="flex items-center justify-between">
+                        <span className="font-semibold text-slate-900 dark:text-slate-100">数据同步</span>
+                        <span className="text-xs text-slate-500">{ADAPTER_LABELS[status.adapter]}</span>
+                    </div>
+                    <div className="text-slate-600 dark:text-slate-400 space-y-1">
+                        <div>状态：{!status.online ? '离线（修改已保存在本地队列）' : status.syncing ? '同步中…' : '已连接'}</div>
+                        <div>待同步变更：{status.pendingChanges}</div>
+                        {status.lastSyncedAt && <div>上次同步：{new Date(status.lastSyncedAt).toLocaleString()}</div>}
+                        {status.lastError && <div className="text-red-500 break-all">错误：{status.lastError}</div>}
+                    </div>
+                    {status.pendingChanges > 0 && (
+                        <button
+                            onClick={() => void syncEngine.flush()}
+                            className="w-full py-1.5 rounded-lg bg-blue-600 hover:bg-blue-700 text-white text-xs font-medium"
+                        >
+                            立即同步
+                        </button>
+                    )}
+                    {hasConflicts && (
+                        <div className="border-t border-slate-200 dark:border-slate-700 pt-3 space-y-2">
+                            <div className="font-medium text-amber-600">版本冲突（其他用户已修改）</div>
+                            {status.conflicts.map(conflict => (
+                                <div key={`${conflict.change.collection}/${conflict.change.id}`} className="p-2 rounded-lg bg-amber-50 dark:bg-amber-900/20 space-y-2">
+                                    <div className="text-xs text-slate-700 dark:text-slate-300 truncate">{describeConflict(conflict)}</div>
+                                    <div className="flex gap-2">
+                                        <button
+                                            onClick={() => syncEngine.resolveConflict(conflict, true)}
+                                            className="flex-1 py-1 rounded bg-blue-600 hover:bg-blue-700 text-white text-xs"
+                                        >
+                                            保留我的修改
+                                        </button>
+                                        <button
+                                            onClick={() => syncEngine.resolveConflict(conflict, false)}
+                                            className="flex-1 py-1 rounded border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 text-xs"
+                                        >
+                                            使用服务器版本
+                                        </button>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default SyncStatusIndicator;
@@ -3,6 +3,8 @@ import { Plus, Minus, Move, Edit3, Copy, Trash2, Link, X, Calendar } from 'lucid
 import type { Task } from '../types';
 import { format, addDays, differenceInDays, parseISO, eachDayOfInterval } from 'date-fns';
 import { zhCN } from 'date-fns/locale';
+import { getTaskDependencies } from '../utils/taskDependency';
+import { undoHistory } from '../services/undoHistory';
 
 interface TaskCanvasDiagramProps {
     tasks: Task[];
@@ -150,6 +152,7 @@ const TaskCanvasDiagram: React.FC<TaskCanvasDiagramProps> = ({
     const handleCanvasMouseUp = () => {
         setIsDraggingCanvas(false);
         if (interactionMode !== 'connect') {
+            if (interactionMode !== 'none') undoHistory.commitTransaction();
             setInteractionMode('none');
             setActiveTaskId(null);
         }
@@ -160,6 +163,8 @@ const TaskCanvasDiagram: React.FC<TaskCanvasDiagramProps> = ({
     const handleTaskMouseDown = (e: React.MouseEvent, taskId: string, mode: 'drag' | 'resize-w' | 'resize-h') => {
         if (e.button === 0 && !e.altKey && interactionMode !== 'connect') {
             e.stopPropagation();
+            // 一次拖拽 / 调整的连续更新合并为一步撤销
+            undoHistory.beginTransaction(mode === 'drag' ? '拖拽移动任务' : '调整任务尺寸');
             setInteractionMode(mode);
             setActiveTaskId(taskId);
             setLastMousePos({ x: e.clientX, y: e.clientY });
@@ -169,9 +174,12 @@ const TaskCanvasDiagram: React.FC<TaskCanvasDiagramProps> = ({
             if (connectingSourceId !== taskId) {
                 const targetTask = tasks.find(t => t.id === taskId);
                 if (targetTask) {
-                    const currentDeps = targetTask.dependencies || [];
-                    if (!currentDeps.includes(connectingSourceId)) {
-                        onTaskUpdate({ ...targetTask, dependencies: [...currentDeps, connectingSourceId] });
+                    const currentDeps = getTaskDependencies(targetTask);
+                    if (!currentDeps.some(dep => dep.taskId === connectingSourceId)) {
+                        onTaskUpdate({
+                            ...targetTask,
+                            dependencies: [...currentDeps, { taskId: connectingSourceId, type: 'FS', lag: 0 }]
+                        });
                     }
                 }
             }
@@ -321,6 +329,7 @@ const TaskCanvasDiagram: React.FC<TaskCanvasDiagramProps> = ({
             onMouseDown={handleCanvasMouseDown}
             onMouseMove={handleCanvasMouseMove}
             onMouseUp={handleCanvasMouseUp}
+            onMouseLeave={handleCanvasMouseUp}
             onContextMenu={(e) => e.preventDefault()}
         >
             {/* Top Ruler */}
@@ -351,13 +360,14 @@ const TaskCanvasDiagram: React.FC<TaskCanvasDiagramProps> = ({
                         </marker>
                     </defs>
                     {tasks.map(task =>
-                        (task.dependencies || []).map(depId => {
-                            const source = tasks.find(t => t.id === depId);
+                        getTaskDependencies(task).map(dep => {
+                            const source = tasks.find(t => t.id === dep.taskId);
                             if (!source) return null;
 
-                            const sourceX = dateToX(source.endDate);
+                            // 起点/终点锚定在开始或完成端，取决于依赖类型
+                            const sourceX = dateToX(dep.type === 'SS' || dep.type === 'SF' ? source.startDate : source.endDate);
                             const sourceY = (source.y || 0) + (source.height || DEFAULT_TASK_HEIGHT) / 2;
-                            const targetX = dateToX(task.startDate);
+                            const targetX = dateToX(dep.type === 'FF' || dep.type === 'SF' ? task.endDate : task.startDate);
                             const targetY = (task.y || 0) + (task.height || DEFAULT_TASK_HEIGHT) / 2;
 
                             return (
@@ -499,11 +509,11 @@ const TaskCanvasDiagram: React.FC<TaskCanvasDiagramProps> = ({
                         const days = prompt('请输入要平移的天数 (负数向前，正数向后):', '0');
                         if (days && !isNaN(parseInt(days)) && parseInt(days) !== 0) {
                             const shift = parseInt(days);
-                            tasks.forEach(t => {
+                            undoHistory.transaction('批量平移任务', () => tasks.forEach(t => {
                                 const newStart = format(addDays(parseISO(t.startDate), shift), 'yyyy-MM-dd');
                                 const newEnd = format(addDays(parseISO(t.endDate), shift), 'yyyy-MM-dd');
                                 onTaskUpdate({ ...t, startDate: newStart, endDate: newEnd });
-                            });
+                            }));
                         }
                     }}
                     className="p-2 hover:bg-slate-100 rounded-full text-slate-600"
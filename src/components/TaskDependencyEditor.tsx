@@ -1,7 +1,14 @@
 import React, { useMemo, useState } from 'react';
 import { GitBranch, AlertCircle, Trash2, Plus } from 'lucide-react';
-import type { Task } from '../types';
-import { detectCircularDependency, calculateCriticalPath } from '../utils/taskDependency';
+import type { Task, DependencyType } from '../types';
+import {
+    detectCircularDependency,
+    calculateCriticalPath,
+    getTaskDependencies,
+    getDependencyTypeLabel
+} from '../utils/taskDependency';
+
+const DEPENDENCY_TYPES: DependencyType[] = ['FS', 'SS', 'FF', 'SF'];
 
 interface TaskDependencyEditorProps {
     tasks: Task[];
@@ -14,11 +21,17 @@ const TaskDependencyEditor: React.FC<TaskDependencyEditorProps> = ({
 }) => {
     const [selectedTaskId, setSelectedTaskId] = useState<string | null>(null);
     const [newDependencyId, setNewDependencyId] = useState<string>('');
+    const [newDependencyType, setNewDependencyType] = useState<DependencyType>('FS');
+    const [newDependencyLag, setNewDependencyLag] = useState<number>(0);
 
     const selectedTask = useMemo(() => {
         return tasks.find(t => t.id === selectedTaskId);
     }, [tasks, selectedTaskId]);
 
+    const selectedDependencies = useMemo(() => {
+        return selectedTask ? getTaskDependencies(selectedTask) : [];
+    }, [selectedTask]);
+
     // 计算关键路径
     const criticalPathData = useMemo(() => {
         return calculateCriticalPath(tasks);
@@ -37,11 +50,30 @@ const TaskDependencyEditor: React.FC<TaskDependencyEditorProps> = ({
 
         const updatedTask = {
             ...selectedTask,
-            dependencies: [...(selectedTask.dependencies || []), newDependencyId]
+            dependencies: [
+                ...selectedDependencies,
+                { taskId: newDependencyId, type: newDependencyType, lag: newDependencyLag }
+            ]
         };
 
         onUpdateTask(updatedTask);
         setNewDependencyId('');
+        setNewDependencyType('FS');
+        setNewDependencyLag(0);
+    };
+
+    // 修改依赖类型或延迟
+    const handleChangeDependency = (depId: string, updates: { type?: DependencyType; lag?: number }) => {
+        if (!selectedTask) return;
+
+        const updatedTask = {
+            ...selectedTask,
+            dependencies: selectedDependencies.map(dep =>
+                dep.taskId === depId ? { ...dep, ...updates } : dep
+            )
+        };
+
+        onUpdateTask(updatedTask);
     };
 
     // 删除依赖
@@ -50,7 +82,7 @@ const TaskDependencyEditor: React.FC<TaskDependencyEditorProps> = ({
 
         const updatedTask = {
             ...selectedTask,
-            dependencies: (selectedTask.dependencies || []).filter(id => id !== depId)
+            dependencies: selectedDependencies.filter(dep => dep.taskId !== depId)
         };
 
         onUpdateTask(updatedTask);
@@ -60,11 +92,11 @@ const TaskDependencyEditor: React.FC<TaskDependencyEditorProps> = ({
     const availableDependencies = useMemo(() => {
         if (!selectedTask) return [];
 
-        const existingDeps = new Set(selectedTask.dependencies || []);
+        const existingDeps = new Set(selectedDependencies.map(dep => dep.taskId));
         return tasks.filter(t =>
             t.id !== selectedTask.id && !existingDeps.has(t.id)
         );
-    }, [tasks, selectedTask]);
+    }, [tasks, selectedTask, selectedDependencies]);
 
     return (
         <div className="bg-white rounded-lg border border-slate-200 shadow-sm">
@@ -77,6 +109,11 @@ const TaskDependencyEditor: React.FC<TaskDependencyEditorProps> = ({
                 <p className="text-sm text-slate-500 mt-1">
                     管理任务之间的依赖关系，确保项目顺利进行
                 </p>
+                {criticalPathData.cycle && (
+                    <p className="text-sm text-red-600 mt-2">
+                        存在循环依赖，无法计算关键路径：{criticalPathData.cycle.map(id => tasks.find(t => t.id === id)?.name || id).join(' → ')}
+                    </p>
+                )}
             </div>
 
             <div className="grid grid-cols-2 divide-x divide-slate-200">
@@ -144,19 +181,19 @@ const TaskDependencyEditor: React.FC<TaskDependencyEditorProps> = ({
                                         前置任务
                                     </label>
                                     <span className="text-xs text-slate-500">
-                                        {(selectedTask.dependencies || []).length} 个
+                                        {selectedDependencies.length} 个
                                     </span>
                                 </div>
 
-                                {selectedTask.dependencies && selectedTask.dependencies.length > 0 ? (
+                                {selectedDependencies.length > 0 ? (
                                     <div className="space-y-2">
-                                        {selectedTask.dependencies.map(depId => {
-                                            const depTask = tasks.find(t => t.id === depId);
+                                        {selectedDependencies.map(dep => {
+                                            const depTask = tasks.find(t => t.id === dep.taskId);
                                             if (!depTask) return null;
 
                                             return (
                                                 <div
-                                                    key={depId}
+                                                    key={dep.taskId}
                                                     className="flex items-center justify-between p-2 bg-slate-50 rounded border border-slate-200"
                                                 >
                                                     <div className="flex-1 min-w-0">
@@ -167,8 +204,25 @@ const TaskDependencyEditor: React.FC<TaskDependencyEditorProps> = ({
                                                             {depTask.startDate} ~ {depTask.endDate}
                                                         </div>
                                                     </div>
+                                                    <select
+                                                        value={dep.type}
+                                                        onChange={(e) => handleChangeDependency(dep.taskId, { type: e.target.value as DependencyType })}
+                                                        className="ml-2 px-1.5 py-1 border border-slate-300 rounded text-xs"
+                                                        title={getDependencyTypeLabel(dep.type)}
+                                                    >
+                                                        {DEPENDENCY_TYPES.map(type => (
+                                                            <option key={type} value={type}>{type}</option>
+                                                        ))}
+                                                    </select>
+                                                    <input
+                                                        type="number"
+                                                        value={dep.lag || 0}
+                                                        onChange={(e) => handleChangeDependency(dep.taskId, { lag: Number(e.target.value) || 0 })}
+                                                        className="ml-1 w-14 px-1.5 py-1 border border-slate-300 rounded text-xs"
+                                                        title="延迟天数（负数为提前）"
+                                                    />
                                                     <button
-                                                        onClick={() => handleRemoveDependency(depId)}
+                                                        onClick={() => handleRemoveDependency(dep.taskId)}
                                                         className="ml-2 p-1 text-red-600 hover:bg-red-50 rounded transition-colors"
                                                         title="删除依赖"
                                                     >
@@ -203,6 +257,24 @@ const TaskDependencyEditor: React.FC<TaskDependencyEditorProps> = ({
                                             </option>
                                         ))}
                                     </select>
+                                    <select
+                                        value={newDependencyType}
+                                        onChange={(e) => setNewDependencyType(e.target.value as DependencyType)}
+                                        className="px-2 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                                    >
+                                        {DEPENDENCY_TYPES.map(type => (
+                                            <option key={type} value={type}>
+                                                {type} {getDependencyTypeLabel(type)}
+                                            </option>
+                                        ))}
+                                    </select>
+                                    <input
+                                        type="number"
+                                        value={newDependencyLag}
+                                        onChange={(e) => setNewDependencyLag(Number(e.target.value) || 0)}
+                                        className="w-16 px-2 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                                        title="延迟天数（负数为提前）"
+                                    />
                                     <button
                                         onClick={handleAddDependency}
                                         disabled={!newDependencyId}
@@ -219,7 +291,8 @@ const TaskDependencyEditor: React.FC<TaskDependencyEditorProps> = ({
                                 <div className="text-xs text-blue-900">
                                     <p className="font-medium mb-1">依赖规则</p>
                                     <ul className="space-y-1 list-disc list-inside">
-                                        <li>前置任务必须在当前任务之前完成</li>
+                                        <li>FS/SS/FF/SF 分别约束前置任务与当前任务的开始、完成端</li>
+                                        <li>延迟可为负数，表示提前量</li>
                                         <li>系统会自动检测并阻止循环依赖</li>
                                         <li>关键路径上的任务没有浮动时间</li>
                                     </ul>
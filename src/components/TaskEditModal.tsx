@@ -1,6 +1,7 @@
-import React, { useState } from 'react';
+import React, { useState, useMemo } from 'react';
 import { X } from 'lucide-react';
 import type { Task } from '../types';
+import { useResourcePool } from '../store/useStore';
 
 interface TaskEditModalProps {
     task: Task;
@@ -14,6 +15,24 @@ import type { TeamMember } from '../types';
 
 const TaskEditModal: React.FC<TaskEditModalProps> = ({ task, onSave, onDelete, onClose, pdsgMembers }) => {
     const [editedTask, setEditedTask] = useState<Task>(task);
+    const resourcePool = useResourcePool();
+
+    // 资源池中定义的技能，用于限定可承担该任务的成员
+    const skillOptions = useMemo(() => {
+        const skills = new Map<string, string>();
+        resourcePool.forEach(r => (r.skills || []).forEach(skill => skills.set(skill.id, skill.name)));
+        return [...skills.entries()].map(([id, name]) => ({ id, name }));
+    }, [resourcePool]);
+
+    const toggleRequiredSkill = (skillId: string) => {
+        const current = editedTask.requiredSkills || [];
+        setEditedTask({
+            ...editedTask,
+            requiredSkills: current.includes(skillId)
+                ? current.filter(id => id !== skillId)
+                : [...current, skillId]
+        });
+    };
 
     const handleSave = () => {
         onSave(editedTask);
@@ -153,6 +172,101 @@ const TaskEditModal: React.FC<TaskEditModalProps> = ({ task, onSave, onDelete, o
                         )}
                     </div>
 
+                    {/* 资源投入 */}
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-sm font-medium text-slate-700 mb-2">投入比例 (%)</label>
+                            <input
+                                type="number"
+                                min={0}
+                                step={10}
+                                value={editedTask.allocation ?? 100}
+                                onChange={(e) => setEditedTask({ ...editedTask, allocation: Number(e.target.value) })}
+                                className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                            />
+                        </div>
+                        {skillOptions.length > 0 && (
+                            <div>
+                                <label className="block text-sm font-medium text-slate-700 mb-2">所需技能</label>
+                                <div className="flex flex-wrap gap-2">
+                                    {skillOptions.map(skill => (
+                                        <button
+                                            key={skill.id}
+                                            type="button"
+                                            onClick={() => toggleRequiredSkill(skill.id)}
+                                            className={`px-2 py-1 text-xs rounded-lg border transition-colors ${(editedTask.requiredSkills || []).includes(skill.id)
+                                                ? 'bg-blue-50 border-blue-500 text-blue-700'
+                                                : 'border-slate-200 text-slate-600 hover:border-slate-300'
+                                                }`}
+                                        >
+                                            {skill.name}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+                    </div>
+
+                    {/* 成本与工时（挣值计划值） */}
+                    {editedTask.type === 'task' && (
+                        <div className="grid grid-cols-3 gap-4">
+                            <div>
+                                <label className="block text-sm font-medium text-slate-700 mb-2">计划工时 (h)</label>
+                                <input
+                                    type="number"
+                                    min={0}
+                                    value={editedTask.plannedHours ?? ''}
+                                    onChange={(e) => setEditedTask({ ...editedTask, plannedHours: e.target.value === '' ? undefined : Number(e.target.value) })}
+                                    className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-slate-700 mb-2">时薪 (¥/h)</label>
+                                <input
+                                    type="number"
+                                    min={0}
+                                    value={editedTask.hourlyRate ?? ''}
+                                    placeholder="默认取负责人时薪"
+                                    onChange={(e) => setEditedTask({ ...editedTask, hourlyRate: e.target.value === '' ? undefined : Number(e.target.value) })}
+                                    className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-slate-700 mb-2">固定成本 (¥)</label>
+                                <input
+                                    type="number"
+                                    min={0}
+                                    value={editedTask.fixedCost ?? ''}
+                                    onChange={(e) => setEditedTask({ ...editedTask, fixedCost: e.target.value === '' ? undefined : Number(e.target.value) })}
+                                    className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                                />
+                            </div>
+                        </div>
+                    )}
+
+                    {/* 三点估算（进度风险模拟） */}
+                    {editedTask.type === 'task' && (
+                        <div className="grid grid-cols-3 gap-4">
+                            {([
+                                ['optimisticDays', '乐观工期 (天)'],
+                                ['mostLikelyDays', '最可能工期 (天)'],
+                                ['pessimisticDays', '悲观工期 (天)']
+                            ] as const).map(([field, label]) => (
+                                <div key={field}>
+                                    <label className="block text-sm font-medium text-slate-700 mb-2">{label}</label>
+                                    <input
+                                        type="number"
+                                        min={0}
+                                        value={editedTask[field] ?? ''}
+                                        placeholder="默认取计划工期"
+                                        onChange={(e) => setEditedTask({ ...editedTask, [field]: e.target.value === '' ? undefined : Number(e.target.value) })}
+                                        className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                                    />
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
                     {/* 进度 */}
 
                     {/* 颜色选择 */}
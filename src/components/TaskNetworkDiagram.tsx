@@ -1,11 +1,12 @@
 import React, { useMemo, useState } from 'react';
 import { ZoomIn, ZoomOut, Maximize, Move } from 'lucide-react';
 import { differenceInDays, parseISO } from 'date-fns';
-import type { Task } from '../types';
-import { calculateCriticalPath } from '../utils/taskDependency';
+import type { Task, DependencyType, WorkingCalendar } from '../types';
+import { calculateCriticalPath, getTaskDependencies, getPredecessorIds } from '../utils/taskDependency';
 
 interface TaskNetworkDiagramProps {
     tasks: Task[];
+    calendar?: WorkingCalendar;
 }
 
 interface Node {
@@ -23,6 +24,8 @@ interface Edge {
     from: string;
     to: string;
     isCritical: boolean;
+    type: DependencyType;
+    lag: number;
 }
 
 const NODE_WIDTH = 180;
@@ -30,7 +33,7 @@ const NODE_HEIGHT = 80;
 const LEVEL_SPACING = 250;
 const VERTICAL_SPACING = 120;
 
-const TaskNetworkDiagram: React.FC<TaskNetworkDiagramProps> = ({ tasks }) => {
+const TaskNetworkDiagram: React.FC<TaskNetworkDiagramProps> = ({ tasks, calendar }) => {
     const [scale, setScale] = useState(1);
     const [offset, setOffset] = useState({ x: 50, y: 50 });
     const [isDragging, setIsDragging] = useState(false);
@@ -38,7 +41,7 @@ const TaskNetworkDiagram: React.FC<TaskNetworkDiagramProps> = ({ tasks }) => {
 
     // 计算布局
     const { nodes, edges, width, height } = useMemo(() => {
-        const criticalPathData = calculateCriticalPath(tasks);
+        const criticalPathData = calculateCriticalPath(tasks, calendar);
         const nodesMap = new Map<string, Node>();
         const levels = new Map<number, Node[]>();
 
@@ -50,7 +53,7 @@ const TaskNetworkDiagram: React.FC<TaskNetworkDiagramProps> = ({ tasks }) => {
             const task = tasks.find(t => t.id === taskId);
             if (!task) return 0;
 
-            const dependencies = task.dependencies || [];
+            const dependencies = getPredecessorIds(task);
             if (dependencies.length === 0) return 0;
 
             let maxDepLevel = -1;
@@ -107,21 +110,21 @@ const TaskNetworkDiagram: React.FC<TaskNetworkDiagramProps> = ({ tasks }) => {
         // 4. 创建连线
         const edgesList: Edge[] = [];
         tasks.forEach(task => {
-            if (task.dependencies) {
-                task.dependencies.forEach(depId => {
-                    if (nodesMap.has(depId)) {
-                        const isCritical =
-                            criticalPathData.criticalPath.includes(task.id) &&
-                            criticalPathData.criticalPath.includes(depId);
-
-                        edgesList.push({
-                            from: depId,
-                            to: task.id,
-                            isCritical
-                        });
-                    }
-                });
-            }
+            getTaskDependencies(task).forEach(dep => {
+                if (nodesMap.has(dep.taskId)) {
+                    const isCritical =
+                        criticalPathData.criticalPath.includes(task.id) &&
+                        criticalPathData.criticalPath.includes(dep.taskId);
+
+                    edgesList.push({
+                        from: dep.taskId,
+                        to: task.id,
+                        isCritical,
+                        type: dep.type,
+                        lag: dep.lag || 0
+                    });
+                }
+            });
         });
 
         return {
@@ -130,7 +133,7 @@ const TaskNetworkDiagram: React.FC<TaskNetworkDiagramProps> = ({ tasks }) => {
             width: (maxLevel + 1) * LEVEL_SPACING + 100,
             height: maxY + 100
         };
-    }, [tasks]);
+    }, [tasks, calendar]);
 
     // 拖拽处理
     const handleMouseDown = (e: React.MouseEvent) => {
@@ -253,16 +256,33 @@ const TaskNetworkDiagram: React.FC<TaskNetworkDiagramProps> = ({ tasks }) => {
 
                             const path = `M ${startX} ${startY} C ${controlPoint1X} ${controlPoint1Y}, ${controlPoint2X} ${controlPoint2Y}, ${endX} ${endY}`;
 
+                            // 非默认 FS 依赖时标注类型和延迟
+                            const label = edge.type !== 'FS' || edge.lag !== 0
+                                ? `${edge.type}${edge.lag > 0 ? `+${edge.lag}` : edge.lag < 0 ? edge.lag : ''}`
+                                : null;
+
                             return (
-                                <path
-                                    key={i}
-                                    d={path}
-                                    stroke={edge.isCritical ? '#ef4444' : '#94a3b8'}
-                                    strokeWidth={edge.isCritical ? 3 : 2}
-                                    fill="none"
-                                    markerEnd={edge.isCritical ? 'url(#arrowhead-critical)' : 'url(#arrowhead)'}
-                                    strokeDasharray={edge.isCritical ? 'none' : '5,5'}
-                                />
+                                <g key={i}>
+                                    <path
+                                        d={path}
+                                        stroke={edge.isCritical ? '#ef4444' : '#94a3b8'}
+                                        strokeWidth={edge.isCritical ? 3 : 2}
+                                        fill="none"
+                                        markerEnd={edge.isCritical ? 'url(#arrowhead-critical)' : 'url(#arrowhead)'}
+                                        strokeDasharray={edge.isCritical ? 'none' : '5,5'}
+                                    />
+                                    {label && (
+                                        <text
+                                            x={(startX + endX) / 2}
+                                            y={(startY + endY) / 2 - 6}
+                                            textAnchor="middle"
+                                            className="text-[10px] font-medium"
+                                            fill={edge.isCritical ? '#ef4444' : '#64748b'}
+                                        >
+                                            {label}
+                                        </text>
+                                    )}
+                                </g>
                             );
                         })}
                     </svg>
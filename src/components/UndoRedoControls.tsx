@@ -0,0 +1,73 @@
+import React, { useEffect } from 'react';
+import { Undo2, Redo2 } from 'lucide-react';
+import clsx from 'clsx';
+import { undoHistory, useUndoHistory } from '../services/undoHistory';
+import { useStore } from '../store/useStore';
+
+// 输入框内保留浏览器自身的文本撤销
+const isEditableTarget = (target: EventTarget | null) => {
+    const element = target as HTMLElement | null;
+    return !!element && (element.tagName === 'INPUT' || element.tagName === 'TEXTAREA' || element.tagName === 'SELECT' || element.isContentEditable);
+};
+
+/**
+ * 顶栏撤销 / 重做按钮与全局快捷键（Ctrl+Z / Ctrl+Shift+Z，Ctrl+Y 同重做）
+ */
+const UndoRedoControls: React.FC = () => {
+    const { canUndo, canRedo, undoLabel, redoLabel } = useUndoHistory();
+    const addNotification = useStore((state) => state.addNotification);
+
+    useEffect(() => {
+        undoHistory.setStaleHandler((label) => addNotification({
+            type: 'warning',
+            message: `“${label}”之后数据已被其他操作修改，无法撤销，操作历史已清空`
+        }));
+    }, [addNotification]);
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (!(e.ctrlKey || e.metaKey) || isEditableTarget(e.target)) return;
+            const key = e.key.toLowerCase();
+
+            if (key === 'z' && !e.shiftKey) {
+                e.preventDefault();
+                undoHistory.undo();
+            } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+                e.preventDefault();
+                undoHistory.redo();
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, []);
+
+    const buttonClass = (enabled: boolean) => clsx(
+        "p-2 rounded-lg transition-colors",
+        enabled
+            ? "text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700"
+            : "text-slate-300 dark:text-slate-600 cursor-not-allowed"
+    );
+
+    return (
+        <div className="hidden md:flex items-center">
+            <button
+                onClick={() => undoHistory.undo()}
+                disabled={!canUndo}
+                title={canUndo ? `撤销：${undoLabel} (Ctrl+Z)` : '没有可撤销的操作'}
+                className={buttonClass(canUndo)}
+            >
+                <Undo2 size={18} />
+            </button>
+            <button
+                onClick={() => undoHistory.redo()}
+                disabled={!canRedo}
+                title={canRedo ? `重做：${redoLabel} (Ctrl+Shift+Z)` : '没有可重做的操作'}
+                className={buttonClass(canRedo)}
+            >
+                <Redo2 size={18} />
+            </button>
+        </div>
+    );
+};
+
+export default UndoRedoControls;
@@ -0,0 +1,395 @@
+import React, { useState } from 'react';
+import { CalendarDays, Plus, Trash2 } from 'lucide-react';
+import { useStore, usePermission } from '../store/useStore';
+import { COMPANY_CALENDAR_ID, validateWorkingCalendar } from '../utils/workingCalendar';
+import type { CalendarDay, CalendarException, WorkingCalendar } from '../types';
+
+const WEEKDAY_LABELS = ['日', '一', '二', '三', '四', '五', '六'];
+
+const EXCEPTION_TYPE_LABELS: Record<CalendarException['type'], string> = {
+    leave: '请假 / 停工',
+    shift: '调整工时',
+    workday: '额外工作日'
+};
+
+const inputClass = 'w-full p-2 rounded-lg border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-700 text-sm text-slate-900 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-blue-500';
+const labelClass = 'block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1';
+
+const EMPTY_EXCEPTION: Omit<CalendarException, 'id'> = {
+    scope: 'team',
+    targetId: '',
+    type: 'leave',
+    startDate: '',
+    endDate: ''
+};
+
+interface CalendarDayListProps {
+    title: string;
+    days: CalendarDay[];
+    readOnly: boolean;
+    onChange: (days: CalendarDay[]) => void;
+}
+
+/**
+ * 节假日 / 调休补班日列表
+ */
+const CalendarDayList: React.FC<CalendarDayListProps> = ({ title, days, readOnly, onChange }) => {
+    const [date, setDate] = useState('');
+    const [name, setName] = useState('');
+
+    const handleAdd = () => {
+        if (!date || days.some(d => d.date === date)) return;
+        onChange([...days, { date, name: name.trim() || undefined }].sort((a, b) => a.date.localeCompare(b.date)));
+        setDate('');
+        setName('');
+    };
+
+    return (
+        <div>
+            <h4 className="text-sm font-semibold text-slate-700 dark:text-slate-200 mb-2">{title}（{days.length}）</h4>
+            <div className="max-h-48 overflow-y-auto space-y-1 mb-2">
+                {days.length === 0 && <p className="text-xs text-slate-400">无</p>}
+                {days.map(day => (
+                    <div key={day.date} className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300">
+                        <span className="font-mono">{day.date}</span>
+                        <span className="flex-1 truncate">{day.name}</span>
+                        {!readOnly && (
+                            <button
+                                onClick={() => onChange(days.filter(d => d.date !== day.date))}
+                                className="p-1 text-slate-400 hover:text-red-600 rounded"
+                            >
+                                <Trash2 size={14} />
+                            </button>
+                        )}
+                    </div>
+                ))}
+            </div>
+            {!readOnly && (
+                <div className="flex gap-2">
+                    <input type="date" value={date} onChange={(e) => setDate(e.target.value)} className={inputClass} />
+                    <input value={name} onChange={(e) => setName(e.target.value)} placeholder="名称" className={inputClass} />
+                    <button
+                        onClick={handleAdd}
+                        disabled={!date}
+                        className="px-3 rounded-lg bg-slate-900 dark:bg-slate-600 text-white disabled:opacity-50"
+                    >
+                        <Plus size={16} />
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+/**
+ * 工作日历管理：维护公司 / 团队日历（工作日、日工时、节假日、调休补班）以及团队与成员的日历例外
+ */
+const WorkingCalendarPanel: React.FC = () => {
+    const {
+        workingCalendars,
+        calendarExceptions,
+        resourcePool,
+        addWorkingCalendar,
+        updateWorkingCalendar,
+        deleteWorkingCalendar,
+        addCalendarException,
+        deleteCalendarException
+    } = useStore();
+    const canManage = usePermission('settings:manage');
+    const [selectedId, setSelectedId] = useState(COMPANY_CALENDAR_ID);
+    const [exception, setException] = useState(EMPTY_EXCEPTION);
+    const [validationError, setValidationError] = useState<string | null>(null);
+
+    const selected = workingCalendars.find(c => c.id === selectedId) || workingCalendars[0];
+
+    const teams = resourcePool.map(r => ({ id: r.id, name: r.name }));
+    const members = resourcePool.flatMap(r => (r.members || []).map(m => ({ id: m.id, name: `${m.name}（${r.name}）` })));
+    const targets = exception.scope === 'team' ? teams : members;
+    const targetName = (e: CalendarException) => (e.scope === 'team' ? teams : members).find(t => t.id === e.targetId)?.name || e.targetId;
+
+    // 无工作日或工时不足的日历会让排期无法计算，校验不通过时不保存
+    const update = (updates: Partial<WorkingCalendar>) => {
+        if (!selected) return;
+        const error = validateWorkingCalendar({ ...selected, ...updates });
+        setValidationError(error);
+        if (!error) updateWorkingCalendar(selected.id, updates);
+    };
+
+    const handleAddCalendar = () => {
+        addWorkingCalendar({
+            name: `新日历 ${workingCalendars.length + 1}`,
+            baseCalendarId: COMPANY_CALENDAR_ID,
+            workingWeekdays: [1, 2, 3, 4, 5],
+            hoursPerDay: 8,
+            holidays: [],
+            makeupWorkdays: []
+        });
+        const calendars = useStore.getState().workingCalendars;
+        setSelectedId(calendars[calendars.length - 1].id);
+    };
+
+    const handleDeleteCalendar = () => {
+        if (!selected || selected.id === COMPANY_CALENDAR_ID) return;
+        if (confirm(`确定删除日历「${selected.name}」吗？使用该日历的项目、团队和成员将改用公司日历。`)) {
+            deleteWorkingCalendar(selected.id);
+            setSelectedId(COMPANY_CALENDAR_ID);
+        }
+    };
+
+    const toggleWeekday = (weekday: number) => {
+        if (!selected) return;
+        const weekdays = selected.workingWeekdays.includes(weekday)
+            ? selected.workingWeekdays.filter(d => d !== weekday)
+            : [...selected.workingWeekdays, weekday].sort();
+        update({ workingWeekdays: weekdays });
+    };
+
+    const handleAddException = () => {
+        if (!exception.targetId || !exception.startDate) return;
+        const endDate = exception.endDate && exception.endDate >= exception.startDate ? exception.endDate : exception.startDate;
+        addCalendarException({
+            ...exception,
+            endDate,
+            hoursPerDay: exception.type === 'leave' ? undefined : exception.hoursPerDay,
+            reason: exception.reason?.trim() || undefined
+        });
+        setException({ ...EMPTY_EXCEPTION, scope: exception.scope });
+    };
+
+    return (
+        <div className="bg-white dark:bg-slate-800 p-8 rounded-2xl shadow-sm border border-slate-100 dark:border-slate-700">
+            <div className="mb-6 flex items-center justify-between">
+                <div>
+                    <div className="flex items-center gap-3 mb-2">
+                        <CalendarDays className="text-green-600" size={24} />
+                        <h2 className="text-xl font-bold text-slate-800 dark:text-slate-100">工作日历</h2>
+                    </div>
+                    <p className="text-slate-500 dark:text-slate-400">工作日、节假日与调休用于排期、工期和产能计算；项目、团队和成员可分别指定日历</p>
+                </div>
+                {canManage && (
+                    <button
+                        onClick={handleAddCalendar}
+                        className="px-4 py-2 bg-slate-900 dark:bg-slate-600 text-white font-bold rounded-xl hover:bg-slate-800 dark:hover:bg-slate-500 flex items-center gap-2 transition-colors"
+                    >
+                        <Plus size={18} />
+                        新建日历
+                    </button>
+                )}
+            </div>
+
+            <div className="flex flex-wrap gap-2 mb-6">
+                {workingCalendars.map(calendar => (
+                    <button
+                        key={calendar.id}
+                        onClick={() => {
+                            setSelectedId(calendar.id);
+                            setValidationError(null);
+                        }}
+                        className={`px-3 py-1.5 rounded-lg text-sm border transition-colors ${calendar.id === selected?.id
+                            ? 'bg-blue-600 text-white border-blue-600'
+                            : 'bg-white dark:bg-slate-700 text-slate-600 dark:text-slate-300 border-slate-200 dark:border-slate-600 hover:border-blue-400'
+                            }`}
+                    >
+                        {calendar.name}
+                    </button>
+                ))}
+            </div>
+
+            {selected && (
+                <div className="space-y-6">
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div>
+                            <label className={labelClass}>名称</label>
+                            <input value={selected.name} disabled={!canManage} onChange={(e) => update({ name: e.target.value })} className={inputClass} />
+                        </div>
+                        <div>
+                            <label className={labelClass}>继承节假日自</label>
+                            <select
+                                value={selected.baseCalendarId || ''}
+                                disabled={!canManage}
+                                onChange={(e) => update({ baseCalendarId: e.target.value || undefined })}
+                                className={inputClass}
+                            >
+                                <option value="">不继承</option>
+                                {workingCalendars.filter(c => c.id !== selected.id).map(c => (
+                                    <option key={c.id} value={c.id}>{c.name}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div className="md:col-span-2">
+                            <label className={labelClass}>说明</label>
+                            <input
+                                value={selected.description || ''}
+                                disabled={!canManage}
+                                onChange={(e) => update({ description: e.target.value || undefined })}
+                                className={inputClass}
+                            />
+                        </div>
+                        <div>
+                            <label className={labelClass}>工作日</label>
+                            <div className="flex gap-1">
+                                {WEEKDAY_LABELS.map((label, weekday) => (
+                                    <button
+                                        key={weekday}
+                                        disabled={!canManage}
+                                        onClick={() => toggleWeekday(weekday)}
+                                        className={`w-9 h-9 rounded-lg text-sm font-medium transition-colors ${selected.workingWeekdays.includes(weekday)
+                                            ? 'bg-blue-600 text-white'
+                                            : 'bg-slate-100 dark:bg-slate-700 text-slate-500'
+                                            }`}
+                                    >
+                                        {label}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                        <div>
+                            <label className={labelClass}>每日工时</label>
+                            {selected.shifts?.length ? (
+                                <p className="text-sm text-slate-600 dark:text-slate-300 py-2">
+                                    {selected.shifts.map(s => `${s.name} ${s.startTime}-${s.endTime}`).join('，')}（共 {selected.shifts.reduce((sum, s) => sum + s.hours, 0)}h）
+                                </p>
+                            ) : (
+                                <input
+                                    type="number"
+                                    min="1"
+                                    max="24"
+                                    step="0.5"
+                                    value={selected.hoursPerDay}
+                                    disabled={!canManage}
+                                    onChange={(e) => update({ hoursPerDay: Number(e.target.value) || 0 })}
+                                    className={inputClass}
+                                />
+                            )}
+                        </div>
+                    </div>
+
+                    {validationError && (
+                        <p className="text-sm text-red-600 dark:text-red-400">未保存：{validationError}</p>
+                    )}
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                        <CalendarDayList
+                            title="节假日"
+                            days={selected.holidays}
+                            readOnly={!canManage}
+                            onChange={(holidays) => update({ holidays })}
+                        />
+                        <CalendarDayList
+                            title="调休补班日"
+                            days={selected.makeupWorkdays}
+                            readOnly={!canManage}
+                            onChange={(makeupWorkdays) => update({ makeupWorkdays })}
+                        />
+                    </div>
+
+                    {canManage && selected.id !== COMPANY_CALENDAR_ID && (
+                        <div className="flex justify-end">
+                            <button
+                                onClick={handleDeleteCalendar}
+                                className="px-4 py-2 text-sm text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg flex items-center gap-2 transition-colors"
+                            >
+                                <Trash2 size={16} />
+                                删除日历
+                            </button>
+                        </div>
+                    )}
+                </div>
+            )}
+
+            <div className="mt-8 pt-6 border-t border-slate-100 dark:border-slate-700">
+                <h3 className="font-bold text-slate-800 dark:text-slate-100 mb-1">日历例外</h3>
+                <p className="text-sm text-slate-500 dark:text-slate-400 mb-4">团队或成员的请假、工时调整和额外工作日，成员例外优先于团队例外</p>
+
+                <div className="space-y-2 mb-4">
+                    {calendarExceptions.length === 0 && <p className="text-sm text-slate-400">暂无日历例外</p>}
+                    {calendarExceptions.map(e => (
+                        <div key={e.id} className="flex items-center gap-3 p-3 bg-slate-50 dark:bg-slate-700/30 rounded-lg text-sm text-slate-700 dark:text-slate-200">
+                            <span className="px-2 py-0.5 rounded bg-slate-200 dark:bg-slate-600 text-xs">{e.scope === 'team' ? '团队' : '成员'}</span>
+                            <span className="font-medium">{targetName(e)}</span>
+                            <span>{EXCEPTION_TYPE_LABELS[e.type]}</span>
+                            <span className="text-slate-500">{e.startDate}{e.endDate !== e.startDate ? ` ~ ${e.endDate}` : ''}</span>
+                            {e.hoursPerDay !== undefined && <span className="text-slate-500">{e.hoursPerDay}h/天</span>}
+                            <span className="flex-1 truncate text-slate-500">{e.reason}</span>
+                            {canManage && (
+                                <button onClick={() => deleteCalendarException(e.id)} className="p-1 text-slate-400 hover:text-red-600 rounded">
+                                    <Trash2 size={16} />
+                                </button>
+                            )}
+                        </div>
+                    ))}
+                </div>
+
+                {canManage && (
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-3 items-end">
+                        <div>
+                            <label className={labelClass}>范围</label>
+                            <select
+                                value={exception.scope}
+                                onChange={(e) => setException({ ...exception, scope: e.target.value as CalendarException['scope'], targetId: '' })}
+                                className={inputClass}
+                            >
+                                <option value="team">团队</option>
+                                <option value="member">成员</option>
+                            </select>
+                        </div>
+                        <div>
+                            <label className={labelClass}>{exception.scope === 'team' ? '团队' : '成员'}</label>
+                            <select value={exception.targetId} onChange={(e) => setException({ ...exception, targetId: e.target.value })} className={inputClass}>
+                                <option value="">请选择...</option>
+                                {targets.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                            </select>
+                        </div>
+                        <div>
+                            <label className={labelClass}>类型</label>
+                            <select
+                                value={exception.type}
+                                onChange={(e) => setException({ ...exception, type: e.target.value as CalendarException['type'] })}
+                                className={inputClass}
+                            >
+                                {Object.entries(EXCEPTION_TYPE_LABELS).map(([value, label]) => (
+                                    <option key={value} value={value}>{label}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div>
+                            <label className={labelClass}>每日工时</label>
+                            <input
+                                type="number"
+                                min="0"
+                                max="24"
+                                step="0.5"
+                                disabled={exception.type === 'leave'}
+                                value={exception.type === 'leave' ? '' : exception.hoursPerDay ?? ''}
+                                onChange={(e) => setException({ ...exception, hoursPerDay: e.target.value === '' ? undefined : Number(e.target.value) })}
+                                className={inputClass}
+                            />
+                        </div>
+                        <div>
+                            <label className={labelClass}>开始日期</label>
+                            <input type="date" value={exception.startDate} onChange={(e) => setException({ ...exception, startDate: e.target.value })} className={inputClass} />
+                        </div>
+                        <div>
+                            <label className={labelClass}>结束日期</label>
+                            <input type="date" value={exception.endDate} onChange={(e) => setException({ ...exception, endDate: e.target.value })} className={inputClass} />
+                        </div>
+                        <div>
+                            <label className={labelClass}>原因</label>
+                            <input value={exception.reason || ''} onChange={(e) => setException({ ...exception, reason: e.target.value })} className={inputClass} />
+                        </div>
+                        <button
+                            onClick={handleAddException}
+                            disabled={!exception.targetId || !exception.startDate}
+                            className="px-4 py-2 bg-blue-600 text-white text-sm font-bold rounded-lg hover:bg-blue-700 disabled:opacity-50 flex items-center justify-center gap-2 transition-colors"
+                        >
+                            <Plus size={16} />
+                            添加例外
+                        </button>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default WorkingCalendarPanel;
@@ -0,0 +1,88 @@
+import { useCallback, useState } from 'react';
+import { useStore } from '../store/useStore';
+import { usePMOStore } from '../store/usePMOStore';
+import {
+    createFeishuClient,
+    runFeishuSync,
+    resolveFeishuConflict,
+    type FeishuSyncConflict,
+    type FeishuSyncResult,
+    type FeishuSyncSnapshot,
+    type FeishuSnapshotChanges
+} from '../services/feishu';
+import { undoHistory } from '../services/undoHistory';
+import { getSessionToken } from '../services/auth/session';
+
+// Feishu is called through the storage server, which holds the app secret and the tenant token
+const FEISHU_PROXY_URL = `${(import.meta.env.VITE_STORAGE_API_URL || 'http://localhost:4000/api').replace(/\/$/, '')}/feishu`;
+
+const createProxyClient = () => createFeishuClient({ baseUrl: FEISHU_PROXY_URL, getToken: getSessionToken });
+
+/**
+ * Runs Feishu Bitable sync against the current stores and applies the merged snapshot
+ * through the regular store actions (so permissions and scoring still apply).
+ */
+export const useFeishuSync = () => {
+    const feishuConfig = usePMOStore((state) => state.feishuConfig);
+    const feishuSyncState = usePMOStore((state) => state.feishuSyncState);
+    const [isSyncing, setIsSyncing] = useState(false);
+    const [lastResult, setLastResult] = useState<FeishuSyncResult | null>(null);
+
+    const takeSnapshot = (): FeishuSyncSnapshot => {
+        const { projects, resourcePool, physicalBays } = useStore.getState();
+        return { projects, resourcePool, physicalBays };
+    };
+
+    // One sync is undone as a single step
+    const applySnapshot = (snapshot: FeishuSyncSnapshot, changes: FeishuSnapshotChanges) => undoHistory.transaction('飞书同步', () => {
+        const { addProject, updateProject, updateResource, setPhysicalBays } = useStore.getState();
+
+        snapshot.projects.forEach((project) => {
+            if (changes.createdProjects.includes(project.id)) addProject(project);
+            else if (changes.updatedProjects.includes(project.id)) updateProject(project.id, project);
+        });
+        changes.updatedResources.forEach((id) => {
+            const resource = snapshot.resourcePool.find((r) => r.id === id);
+            if (resource) updateResource(id, { members: resource.members });
+        });
+        if (changes.baysChanged) {
+            setPhysicalBays((prev) => {
+                const synced = new Map(snapshot.physicalBays.map((bay) => [bay.id, bay]));
+                const existing = new Set(prev.map((bay) => bay.id));
+                return [
+                    ...prev.map((bay) => synced.get(bay.id) || bay),
+                    ...snapshot.physicalBays.filter((bay) => !existing.has(bay.id))
+                ];
+            });
+        }
+    });
+
+    const sync = useCallback(async () => {
+        if (!feishuConfig) return null;
+
+        setIsSyncing(true);
+        try {
+            const client = createProxyClient();
+            const result = await runFeishuSync(client, feishuConfig, takeSnapshot(), usePMOStore.getState().feishuSyncState);
+            applySnapshot(result.snapshot, result.changes);
+            usePMOStore.getState().setFeishuSyncState(result.state);
+            setLastResult(result);
+            return result;
+        } finally {
+            setIsSyncing(false);
+        }
+    }, [feishuConfig]);
+
+    const resolveConflict = useCallback(async (conflict: FeishuSyncConflict, keep: 'remote' | 'local') => {
+        if (!feishuConfig) return;
+
+        const client = createProxyClient();
+        const result = await resolveFeishuConflict(
+            client, feishuConfig, takeSnapshot(), usePMOStore.getState().feishuSyncState, conflict, keep
+        );
+        applySnapshot(result.snapshot, result.changes);
+        usePMOStore.getState().setFeishuSyncState(result.state);
+    }, [feishuConfig]);
+
+    return { config: feishuConfig, syncState: feishuSyncState, isSyncing, lastResult, sync, resolveConflict };
+};
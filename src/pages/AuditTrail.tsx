@@ -0,0 +1,245 @@
+import React, { useMemo, useState } from 'react';
+import { Download, ChevronDown, ChevronRight, ShieldCheck, Search } from 'lucide-react';
+import { format } from 'date-fns';
+import { useChangeLog, CHANGE_LOG_RETENTION } from '../store/useAuditStore';
+import { usePermission } from '../store/useStore';
+import { PageContainer, PageHeader, Card, Badge, Button } from '../components/ui';
+import {
+    queryChangeLog,
+    exportChangeLogToCSV,
+    formatAuditValue,
+    AUDIT_ENTITY_LABELS,
+    AUDIT_ACTION_LABELS,
+    type ChangeLogFilter
+} from '../utils/auditTrail';
+import type { AuditEntityType, ChangeLogEntry } from '../types';
+
+const PAGE_SIZE = 50;
+
+const ACTION_VARIANTS: Record<ChangeLogEntry['action'], 'success' | 'info' | 'danger' | 'warning'> = {
+    created: 'success',
+    updated: 'info',
+    deleted: 'danger',
+    status_changed: 'warning'
+};
+
+const selectClass = 'p-2 rounded-lg border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-800 text-sm text-slate-700 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+/**
+ * 审计追踪：所有 store 变更的字段级记录，供合规审查查询与导出
+ */
+const AuditTrail: React.FC = () => {
+    const changeLog = useChangeLog();
+    const canView = usePermission('audit:view');
+    const [filter, setFilter] = useState<ChangeLogFilter>({});
+    const [expanded, setExpanded] = useState<Set<string>>(new Set());
+    const [visible, setVisible] = useState(PAGE_SIZE);
+
+    const users = useMemo(() => {
+        const userMap = new Map<string, string>();
+        changeLog.forEach(entry => userMap.set(entry.userId, entry.userName));
+        return Array.from(userMap.entries());
+    }, [changeLog]);
+
+    const entityTypes = useMemo(
+        () => Array.from(new Set(changeLog.map(entry => entry.entityType))),
+        [changeLog]
+    );
+
+    const results = useMemo(() => queryChangeLog(changeLog, filter), [changeLog, filter]);
+
+    const updateFilter = (updates: Partial<ChangeLogFilter>) => {
+        setFilter({ ...filter, ...updates });
+        setVisible(PAGE_SIZE);
+    };
+
+    const toggle = (id: string) => {
+        const next = new Set(expanded);
+        if (next.has(id)) next.delete(id);
+        else next.add(id);
+        setExpanded(next);
+    };
+
+    if (!canView) {
+        return (
+            <PageContainer>
+                <Card padding="lg" className="text-center text-slate-500">无权查看审计日志</Card>
+            </PageContainer>
+        );
+    }
+
+    return (
+        <PageContainer>
+            <PageHeader
+                title="审计追踪"
+                description={`所有数据变更的字段级记录（操作人、时间、原值与新值），记录只追加不可修改，保留最近 ${CHANGE_LOG_RETENTION} 条`}
+                actions={
+                    <Button variant="outline" icon={Download} onClick={() => exportChangeLogToCSV(results)} disabled={results.length === 0}>
+                        导出 CSV
+                    </Button>
+                }
+            />
+
+            <Card padding="sm" className="mb-4">
+                <div className="flex flex-wrap items-end gap-3">
+                    <div className="flex-1 min-w-[200px]">
+                        <label className="block text-xs text-slate-500 mb-1">实体</label>
+                        <div className="relative">
+                            <Search size={16} className="absolute left-2.5 top-1/2 -translate-y-1/2 text-slate-400" />
+                            <input
+                                type="text"
+                                placeholder="名称或 ID"
+                                value={filter.entity || ''}
+                                onChange={(e) => updateFilter({ entity: e.target.value || undefined })}
+                                className={`${selectClass} w-full pl-8`}
+                            />
+                        </div>
+                    </div>
+                    <div>
+                        <label className="block text-xs text-slate-500 mb-1">实体类型</label>
+                        <select
+                            value={filter.entityType || ''}
+                            onChange={(e) => updateFilter({ entityType: (e.target.value || undefined) as AuditEntityType | undefined })}
+                            className={selectClass}
+                        >
+                            <option value="">全部</option>
+                            {entityTypes.map(type => (
+                                <option key={type} value={type}>{AUDIT_ENTITY_LABELS[type] || type}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <div>
+                        <label className="block text-xs text-slate-500 mb-1">操作</label>
+                        <select
+                            value={filter.action || ''}
+                            onChange={(e) => updateFilter({ action: (e.target.value || undefined) as ChangeLogEntry['action'] | undefined })}
+                            className={selectClass}
+                        >
+                            <option value="">全部</option>
+                            {Object.entries(AUDIT_ACTION_LABELS).map(([action, label]) => (
+                                <option key={action} value={action}>{label}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <div>
+                        <label className="block text-xs text-slate-500 mb-1">用户</label>
+                        <select
+                            value={filter.userId || ''}
+                            onChange={(e) => updateFilter({ userId: e.target.value || undefined })}
+                            className={selectClass}
+                        >
+                            <option value="">全部</option>
+                            {users.map(([id, name]) => (
+                                <option key={id} value={id}>{name}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <div>
+                        <label className="block text-xs text-slate-500 mb-1">开始日期</label>
+                        <input
+                            type="date"
+                            value={filter.from || ''}
+                            onChange={(e) => updateFilter({ from: e.target.value || undefined })}
+                            className={selectClass}
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-xs text-slate-500 mb-1">结束日期</label>
+                        <input
+                            type="date"
+                            value={filter.to || ''}
+                            onChange={(e) => updateFilter({ to: e.target.value || undefined })}
+                            className={selectClass}
+                        />
+                    </div>
+                    <Button variant="ghost" size="sm" onClick={() => { setFilter({}); setVisible(PAGE_SIZE); }}>
+                        重置
+                    </Button>
+                </div>
+            </Card>
+
+            <div className="text-sm text-slate-500 mb-2">共 {results.length} 条记录</div>
+
+            <Card padding="none" className="overflow-hidden">
+                {results.length === 0 ? (
+                    <div className="p-12 text-center text-slate-400">
+                        <ShieldCheck size={40} className="mx-auto mb-3 opacity-50" />
+                        暂无匹配的审计记录
+                    </div>
+                ) : (
+                    <table className="w-full text-sm">
+                        <thead className="bg-slate-50 dark:bg-slate-800/50 text-left text-xs text-slate-500 uppercase">
+                            <tr>
+                                <th className="px-4 py-3 w-8"></th>
+                                <th className="px-4 py-3">时间</th>
+                                <th className="px-4 py-3">用户</th>
+                                <th className="px-4 py-3">操作</th>
+                                <th className="px-4 py-3">实体</th>
+                                <th className="px-4 py-3">变更字段</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+                            {results.slice(0, visible).map(entry => (
+                                <React.Fragment key={entry.id}>
+                                    <tr
+                                        onClick={() => toggle(entry.id)}
+                                        className="cursor-pointer hover:bg-slate-50 dark:hover:bg-slate-800/50"
+                                    >
+                                        <td className="px-4 py-3 text-slate-400">
+                                            {expanded.has(entry.id) ? <ChevronDown size={16} /> : <ChevronRight size={16} />}
+                                        </td>
+                                        <td className="px-4 py-3 whitespace-nowrap text-slate-600 dark:text-slate-300">
+                                            {format(new Date(entry.timestamp), 'yyyy-MM-dd HH:mm:ss')}
+                                        </td>
+                                        <td className="px-4 py-3 text-slate-700 dark:text-slate-200">{entry.userName}</td>
+                                        <td className="px-4 py-3">
+                                            <Badge variant={ACTION_VARIANTS[entry.action]} size="sm">{AUDIT_ACTION_LABELS[entry.action]}</Badge>
+                                        </td>
+                                        <td className="px-4 py-3">
+                                            <span className="text-xs text-slate-400 mr-2">{AUDIT_ENTITY_LABELS[entry.entityType] || entry.entityType}</span>
+                                            <span className="font-medium text-slate-800 dark:text-slate-100">{entry.entityName}</span>
+                                        </td>
+                                        <td className="px-4 py-3 text-slate-500 truncate max-w-xs">
+                                            {entry.changes.map(c => c.field).join(', ')}
+                                        </td>
+                                    </tr>
+                                    {expanded.has(entry.id) && (
+                                        <tr className="bg-slate-50/50 dark:bg-slate-800/30">
+                                            <td></td>
+                                            <td colSpan={5} className="px-4 py-3">
+                                                <div className="text-xs text-slate-400 mb-2 font-mono">
+                                                    {entry.entityId}
+                                                    {entry.metadata?.action && ` · ${entry.metadata.store}/${entry.metadata.action}`}
+                                                </div>
+                                                <table className="w-full text-xs">
+                                                    <tbody>
+                                                        {entry.changes.map(change => (
+                                                            <tr key={change.field} className="align-top">
+                                                                <td className="py-1 pr-4 font-mono text-slate-500 w-40">{change.field}</td>
+                                                                <td className="py-1 pr-4 text-red-600 dark:text-red-400 line-through break-all">{formatAuditValue(change.oldValue)}</td>
+                                                                <td className="py-1 text-green-700 dark:text-green-400 break-all">{formatAuditValue(change.newValue)}</td>
+                                                            </tr>
+                                                        ))}
+                                                    </tbody>
+                                                </table>
+                                            </td>
+                                        </tr>
+                                    )}
+                                </React.Fragment>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+                {results.length > visible && (
+                    <div className="p-3 text-center border-t border-slate-100 dark:border-slate-700">
+                        <Button variant="ghost" size="sm" className="mx-auto" onClick={() => setVisible(visible + PAGE_SIZE)}>
+                            加载更多（剩余 {results.length - visible} 条）
+                        </Button>
+                    </div>
+                )}
+            </Card>
+        </PageContainer>
+    );
+};
+
+export default AuditTrail;
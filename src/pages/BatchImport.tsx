@@ -134,6 +134,10 @@ const BatchImport: React.FC = () => {
                     };
 
                     addProject(project);
+                    // 权限不足或状态未通过阶段门径校验时项目不会创建
+                    if (!useStore.getState().projects.some(p => p.id === project.id)) {
+                        throw new Error(`Row ${rowNum}: Project was not created (status requires an approved stage gate)`);
+                    }
                     success++;
                 } catch (error) {
                     failed++;
@@ -46,6 +46,14 @@ import {
     subMonths
 } from 'date-fns';
 import { useStore } from '../store/useStore';
+import { hasPermission } from '../utils/permissions';
+import { calculateModelReliability } from '../utils/predictiveMaintenance';
+import { findBestFitPairs, getCompatibleBaySizes } from '../utils/bayMachineCompatibility';
+import { matchesRequiredVersion } from '../utils/softwareCompliance';
+import type { EquipmentAnalytics, OEEBreakdown, UtilizationTotals } from '../utils/equipmentAnalytics';
+import SoftwareCompliancePanel from '../components/SoftwareCompliancePanel';
+import EquipmentAnalyticsPanel from '../components/EquipmentAnalyticsPanel';
+import BayMachineCompatibilityModal from '../components/BayMachineCompatibilityModal';
 import type { BayResource, MachineResource, BaySize, ResourceBooking, ReplacementRecord, ResourceStatus, SoftwareHistoryRecord } from '../types';
 
 // --- Smart Utils ---
@@ -80,10 +88,15 @@ const BayMachineResource: React.FC = () => {
         setPhysicalBays,
         setPhysicalMachines,
         updatePhysicalResource,
+        runPredictiveMaintenance,
+        bookBayMachinePair,
+        checkInBooking,
+        bayMachineCompatibility,
+        addNotification,
         deletePhysicalBay,
         deletePhysicalMachine
     } = useStore();
-    const [viewTab, setViewTab] = useState<'monitor' | 'risk' | 'maintenance' | 'calendar'>('monitor');
+    const [viewTab, setViewTab] = useState<'monitor' | 'risk' | 'maintenance' | 'software' | 'analytics' | 'calendar'>('monitor');
     const [viewMode, setViewMode] = useState<'visual' | 'list'>('visual');
     const [resourceType, setResourceType] = useState<'bay' | 'machine'>('bay');
     const [searchTerm, setSearchTerm] = useState('');
@@ -130,13 +143,12 @@ const BayMachineResource: React.FC = () => {
     const [isFeishuSyncing, setIsFeishuSyncing] = useState(false);
 
     // Permission Helpers
-    const isPMO = user?.role === 'admin' || user?.role === 'pmo';
-    const isPM = user?.role === 'manager';
-    const isUser = user?.role === 'user';
+    const isPMO = hasPermission(user, 'resource:manage');
+    const canApproveMaintenance = hasPermission(user, 'maintenance:approve');
 
     const canManageResource = (resource: BayResource | MachineResource) => {
         if (isPMO) return true; // PMO/Admin has full management rights
-        if (isPM || isUser) {
+        if (hasPermission(user, 'bay:book')) {
             // Manage only their own bookings. For mock, we check if current project matches.
             // Or if they are the one who reserved it. 
             const activeBooking = resource.bookings.find(b => b.status === 'active');
@@ -145,7 +157,7 @@ const BayMachineResource: React.FC = () => {
         return false;
     };
 
-    const canBook = isPM || isUser || isPMO;
+    const canBook = hasPermission(user, 'bay:book');
 
     // Action States
     const [isActionLoading, setIsActionLoading] = useState(false);
@@ -161,8 +173,8 @@ const BayMachineResource: React.FC = () => {
         dept: '',
         purpose: '',
         statusChecked: false,
-        bindToBayId: '',
-        softwareVersion: ''
+        pairWithId: '',
+        requiredSoftwareVersion: ''
     });
 
     // Tab Refreshing State
@@ -204,6 +216,7 @@ const BayMachineResource: React.FC = () => {
     const [conflictError, setConflictError] = useState<string | null>(null);
 
     const [showAddResourceModal, setShowAddResourceModal] = useState(false);
+    const [showCompatibility, setShowCompatibility] = useState(false);
     const [newResourceData, setNewResourceData] = useState({
         type: 'bay' as 'bay' | 'machine',
         name: '',
@@ -274,12 +287,12 @@ const BayMachineResource: React.FC = () => {
         const currentItem = pool.find(i => i.id === id);
 
         // Concurrency Check: Optimistic Locking simulation
-        if (originalVersion !== undefined && currentItem && (currentItem as any).version !== originalVersion) {
+        if (originalVersion !== undefined && currentItem && currentItem.version !== originalVersion) {
             setConflictError(`检测到并发修改冲突：该资源 (ID: ${id}) 的状态刚刚已被其他调度员更新。请刷新页面获取最新状态。`);
             return false;
         }
 
-        const nextVersion = (currentItem as any)?.version ? (currentItem as any).version + 1 : 1;
+        const nextVersion = currentItem?.version ? currentItem.version + 1 : 1;
         const fullUpdates = { ...updates, version: nextVersion };
 
         updatePhysicalResource(id, fullUpdates);
@@ -330,6 +343,56 @@ const BayMachineResource: React.FC = () => {
         XLSX.writeFile(workbook, `物理资源监控导出_${format(new Date(), 'yyyyMMdd_HHmm')}.xlsx`);
     };
 
+    const handleExportAnalyticsExcel = (analytics: EquipmentAnalytics) => {
+        const pct = (value: number) => `${(value * 100).toFixed(1)}%`;
+        const hours = (value: number) => Math.round(value);
+        const totalsRow = (totals: UtilizationTotals, oee: OEEBreakdown) => ({
+            '日历工时': hours(totals.calendarHours),
+            '停机工时': hours(totals.downtimeHours),
+            '计划工时': hours(totals.plannedHours),
+            '实际工时': hours(totals.actualHours),
+            '空闲工时': hours(totals.idleHours),
+            '利用率': pct(totals.utilization),
+            '预约数': totals.bookings,
+            '爽约数': totals.noShows,
+            '可用率': pct(oee.availability),
+            '性能率': pct(oee.performance),
+            '质量率': pct(oee.quality),
+            'OEE': pct(oee.oee)
+        });
+
+        const workbook = XLSX.utils.book_new();
+        XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet([
+            { '范围': '全部设备', ...totalsRow(analytics.totals, analytics.oee) }
+        ]), '汇总');
+        XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(analytics.groups.map(g => ({
+            '类型': g.kind === 'bay' ? 'Bay' : '机器',
+            '分组': g.group,
+            '设备数': g.resourceCount,
+            ...totalsRow(g.totals, g.oee)
+        }))), '分组');
+        XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(analytics.resources.map(r => ({
+            '类型': r.kind === 'bay' ? 'Bay' : '机器',
+            'ID': r.resourceId,
+            '名称': r.resourceName,
+            '分组': r.group,
+            ...totalsRow(r.totals, r.oee)
+        }))), '设备');
+        XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(analytics.resources.flatMap(r => r.buckets.map(b => ({
+            '名称': r.resourceName,
+            '分组': r.group,
+            '周期': b.bucket,
+            '计划工时': hours(b.plannedHours),
+            '实际工时': hours(b.actualHours),
+            '停机工时': hours(b.downtimeHours),
+            '空闲工时': hours(b.idleHours),
+            '利用率': pct(b.utilization),
+            '爽约数': b.noShows
+        })))), '周期明细');
+
+        XLSX.writeFile(workbook, `设备利用率分析_${format(new Date(), 'yyyyMMdd_HHmm')}.xlsx`);
+    };
+
     const handleImportExcel = (e: React.ChangeEvent<HTMLInputElement>) => {
         const file = e.target.files?.[0];
         if (!file) return;
@@ -409,7 +472,17 @@ const BayMachineResource: React.FC = () => {
         // Simulate background sync
         await new Promise(resolve => setTimeout(resolve, 1500));
 
+        // Accepted plans are fulfilled by this service; their completion time feeds MTTR
+        const completedAt = new Date().toISOString();
+        const openPlans = (selectedResource?.maintenancePlans || []).some(p => p.status === 'accepted');
+        const planUpdates = openPlans && canApproveMaintenance ? {
+            maintenancePlans: (selectedResource?.maintenancePlans || []).map(p =>
+                p.status === 'accepted' ? { ...p, status: 'completed' as const, completedAt } : p
+            )
+        } : {};
+
         const success = updateResourcePool(id, {
+            ...planUpdates,
             status: 'available',
             health: 100,
             lastMaintenance: format(new Date(), 'yyyy-MM-dd'),
@@ -424,7 +497,7 @@ const BayMachineResource: React.FC = () => {
                 },
                 ...(selectedResource?.replacementHistory || [])
             ]
-        }, (selectedResource as any)?.version);
+        }, selectedResource?.version);
 
         setIsActionLoading(false);
         if (success) {
@@ -434,12 +507,44 @@ const BayMachineResource: React.FC = () => {
 
     const handleBooking = (resource: BayResource | MachineResource) => {
         if (!canBook) return;
+        const selectedProject = projects.find(p => p.id === bookingData.projectId);
+        if (!selectedProject) return;
+
+        // Bay and machine are reserved together in one store update
+        if (bookingExtra.pairWithId) {
+            const isBay = resource.id.startsWith('bay');
+            const check = bookBayMachinePair({
+                bayId: isBay ? resource.id : bookingExtra.pairWithId,
+                machineId: isBay ? bookingExtra.pairWithId : resource.id,
+                projectId: selectedProject.id,
+                projectName: selectedProject.name,
+                startDate: bookingData.startDate,
+                endDate: bookingData.endDate,
+                reservedBy: user?.id || 'currentUser',
+                reservedByName: bookingExtra.reservedByName,
+                reservedByDept: bookingExtra.dept,
+                purpose: bookingExtra.purpose,
+                initialStatusConfirmed: bookingExtra.statusChecked,
+                requiredSoftwareVersion: bookingExtra.requiredSoftwareVersion || undefined
+            });
+            if (check.allowed) {
+                const state = useStore.getState();
+                const updated = [...state.physicalBays, ...state.physicalMachines].find(r => r.id === resource.id);
+                if (updated) setSelectedResource(updated);
+                setShowBookingForm(false);
+                setBookingExtra({ dept: '', purpose: '', reservedByName: user?.name || '', statusChecked: false, pairWithId: '', requiredSoftwareVersion: '' });
+            }
+            return;
+        }
+
         if (resource.status !== 'available') {
             setConflictError("该资源当前不可预定（已被占用或在维护中）。");
             return;
         }
-        const selectedProject = projects.find(p => p.id === bookingData.projectId);
-        if (!selectedProject) return;
+        if (!resource.id.startsWith('bay') && !matchesRequiredVersion(resource.softwareVersion, bookingExtra.requiredSoftwareVersion)) {
+            setConflictError(`该机器当前软件版本为 ${resource.softwareVersion || '未部署'}，不满足项目要求的 ${bookingExtra.requiredSoftwareVersion}。`);
+            return;
+        }
 
         const newBooking: ResourceBooking = {
             id: `book-${Date.now()}`,
@@ -453,66 +558,68 @@ const BayMachineResource: React.FC = () => {
             purpose: bookingExtra.purpose,
             usageType: 'test',
             status: 'active',
+            actualStartDate: format(new Date(), 'yyyy-MM-dd'),
+            requiredSoftwareVersion: bookingExtra.requiredSoftwareVersion || undefined,
             initialStatusConfirmed: bookingExtra.statusChecked
         };
 
-        const softwareRecord: SoftwareHistoryRecord | null = bookingExtra.softwareVersion ? {
-            id: `sw-init-${Date.now()}`,
-            version: bookingExtra.softwareVersion,
-            date: format(new Date(), 'yyyy-MM-dd HH:mm'),
-            changedBy: user?.id || 'currentUser',
-            changedByName: user?.name || '未知用户',
-            notes: '初始预定绑定版本'
-        } : null;
-
-        let updates: any = {
+        const updates = {
             status: 'occupied',
             currentProjectId: selectedProject.id,
             currentProjectName: selectedProject.name,
-            bookings: [newBooking, ...resource.bookings],
-            softwareVersion: bookingExtra.softwareVersion || resource.softwareVersion,
-            softwareHistory: softwareRecord ? [softwareRecord, ...(resource.softwareHistory || [])] : resource.softwareHistory
+            bookings: [newBooking, ...resource.bookings]
         };
 
-        // Handle Binding during machine booking
-        if (!resource.id.startsWith('bay') && bookingExtra.bindToBayId) {
-            const selectedBay = bays.find(b => b.id === bookingExtra.bindToBayId);
-            if (selectedBay && selectedBay.status === 'available') {
-                updates.currentBayId = selectedBay.id;
-                updates.currentBayName = selectedBay.name;
-
-                // Update Sibling Bay
-                updateResourcePool(selectedBay.id, {
-                    status: 'occupied',
-                    currentProjectId: selectedProject.id,
-                    currentProjectName: selectedProject.name,
-                    currentMachineId: resource.id,
-                    currentMachineName: resource.name,
-                    bookings: [newBooking, ...selectedBay.bookings]
-                });
-            }
-        }
-
-        const success = updateResourcePool(resource.id, updates, (resource as any).version);
+        const success = updateResourcePool(resource.id, updates, resource.version);
 
         if (success) {
             setShowBookingForm(false);
-            setBookingExtra({ dept: '', purpose: '', reservedByName: user?.name || '', statusChecked: false, bindToBayId: '', softwareVersion: '' });
+            setBookingExtra({ dept: '', purpose: '', reservedByName: user?.name || '', statusChecked: false, pairWithId: '', requiredSoftwareVersion: '' });
         }
     };
 
+    // Free, compatible partners for the resource being booked, best fit first
+    const pairCandidates = useMemo(() => {
+        if (!showBookingForm || !selectedResource) return [];
+        const isBay = selectedResource.id.startsWith('bay');
+        return findBestFitPairs(bays, machines, bayMachineCompatibility, {
+            startDate: bookingData.startDate,
+            endDate: bookingData.endDate,
+            requiredSoftwareVersion: bookingExtra.requiredSoftwareVersion || undefined,
+            ...(isBay ? { bayId: selectedResource.id } : { machineId: selectedResource.id })
+        }).map(pair => isBay ? pair.machine : pair.bay);
+    }, [showBookingForm, selectedResource, bays, machines, bayMachineCompatibility, bookingData.startDate, bookingData.endDate, bookingExtra.requiredSoftwareVersion]);
+
     const handleRelease = (id: string, normalStatus: boolean) => {
         if (!canManageResource(selectedResource!)) return;
 
         const resource = selectedResource!;
-        const updatedHistory = (resource.bookings || []).map(b =>
-            b.status === 'active' ? { ...b, status: 'completed' as const, returnStatusConfirmed: normalStatus } : b
-        );
+        const today = format(new Date(), 'yyyy-MM-dd');
+        // 归还即结束本次使用：记录实际起止日期并写入使用历史，供利用率分析
+        const finishBookings = (target: BayResource | MachineResource, bookingIds?: string[]) => {
+            const finished = (target.bookings || [])
+                .filter(b => b.status === 'active' || (!!bookingIds && bookingIds.includes(b.id) && b.status !== 'completed' && b.status !== 'cancelled'))
+                .map(b => ({
+                    ...b,
+                    status: 'completed' as const,
+                    returnStatusConfirmed: normalStatus,
+                    actualStartDate: b.actualStartDate || b.startDate,
+                    actualEndDate: today
+                }));
+            return {
+                bookings: (target.bookings || []).map(b => finished.find(f => f.id === b.id) || b),
+                usageHistory: [...finished, ...(target.usageHistory || []).filter(h => !finished.some(f => f.id === h.id))]
+            };
+        };
+        const finishedIds = (resource.bookings || []).filter(b => b.status === 'active').map(b => b.id);
+        const { bookings: updatedHistory, usageHistory } = finishBookings(resource);
 
         // Handle Unbinding
         if (!resource.id.startsWith('bay') && (resource as MachineResource).currentBayId) {
             const bayId = (resource as MachineResource).currentBayId!;
+            const bay = bays.find(b => b.id === bayId);
             updateResourcePool(bayId, {
+                ...(bay ? finishBookings(bay, finishedIds) : {}),
                 status: 'available',
                 currentProjectId: undefined,
                 currentProjectName: undefined,
@@ -523,7 +630,9 @@ const BayMachineResource: React.FC = () => {
             });
         } else if (resource.id.startsWith('bay') && (resource as BayResource).currentMachineId) {
             const machId = (resource as BayResource).currentMachineId!;
+            const machine = machines.find(m => m.id === machId);
             updateResourcePool(machId, {
+                ...(machine ? finishBookings(machine, finishedIds) : {}),
                 status: 'available',
                 currentProjectId: undefined,
                 currentProjectName: undefined,
@@ -537,11 +646,23 @@ const BayMachineResource: React.FC = () => {
             currentProjectId: undefined,
             currentProjectName: undefined,
             bookings: updatedHistory,
+            usageHistory,
             currentMachineId: undefined, // ensure both cleared
             currentMachineName: undefined,
             currentBayId: undefined,
             currentBayName: undefined
-        }, (resource as any)?.version);
+        }, resource?.version);
+    };
+
+    const handleCheckIn = (booking: ResourceBooking) => {
+        if (!selectedResource) return;
+        if (!checkInBooking(booking.id)) {
+            setConflictError('签到失败：预约尚未开始，或该资源（或配对资源）当前不可用。');
+            return;
+        }
+        const state = useStore.getState();
+        const updated = [...state.physicalBays, ...state.physicalMachines].find(r => r.id === selectedResource.id);
+        if (updated) setSelectedResource(updated);
     };
 
     const handleUpdateSoftware = (version: string, notes: string = '手动更新版本') => {
@@ -561,7 +682,7 @@ const BayMachineResource: React.FC = () => {
             softwareHistory: [newRecord, ...(selectedResource.softwareHistory || [])]
         };
 
-        updateResourcePool(selectedResource.id, updates, (selectedResource as any).version);
+        updateResourcePool(selectedResource.id, updates, selectedResource.version);
     };
 
     const handleMaintenanceReservation = () => {
@@ -582,7 +703,7 @@ const BayMachineResource: React.FC = () => {
 
         updateResourcePool(selectedResource.id, {
             maintenancePlans: [newPlan, ...(selectedResource.maintenancePlans || [])]
-        }, (selectedResource as any).version);
+        }, selectedResource.version);
 
         setMaintenanceReservation({ type: 'routine', description: '', date: format(addDays(new Date(), 1), 'yyyy-MM-dd') });
     };
@@ -595,7 +716,18 @@ const BayMachineResource: React.FC = () => {
             p.id === planId ? { ...p, status, approvalRemarks: remarks, approver: user?.name } : p
         );
 
-        updateResourcePool(resourceId, { maintenancePlans: updatedPlans }, (resource as any).version);
+        updateResourcePool(resourceId, { maintenancePlans: updatedPlans }, resource.version);
+    };
+
+    const handleRunPredictiveMaintenance = () => {
+        const proposals = runPredictiveMaintenance();
+        setLastSyncTime(format(new Date(), 'HH:mm:ss'));
+        addNotification({
+            type: proposals.length > 0 ? 'warning' : 'success',
+            message: proposals.length > 0
+                ? `已重新评估资源健康度，生成 ${proposals.length} 条维保建议待审批`
+                : '已重新评估资源健康度，暂无需要安排的维保'
+        });
     };
 
     const handleAddMaintenanceLog = () => {
@@ -611,7 +743,7 @@ const BayMachineResource: React.FC = () => {
 
         updateResourcePool(selectedResource.id, {
             replacementHistory: [newRecord, ...(selectedResource.replacementHistory || [])]
-        }, (selectedResource as any).version);
+        }, selectedResource.version);
 
         setShowMaintenanceForm(false);
         setMaintenanceLogData({ partName: '', reason: '', performedBy: user?.name || '' });
@@ -666,6 +798,20 @@ const BayMachineResource: React.FC = () => {
         return { total, lowHealth, maintenanceCount, conflictCount };
     }, [bays, machines]);
 
+    const maintenanceOverview = useMemo(() => {
+        const plans = [...bays, ...machines].flatMap(r => r.maintenancePlans || []);
+        const monthStart = format(startOfMonth(new Date()), 'yyyy-MM-dd');
+        return {
+            pending: plans.filter(p => p.status === 'pending').length,
+            completedThisMonth: plans.filter(p => p.status === 'completed' && (p.completedAt || p.plannedDate) >= monthStart).length,
+            proposals: plans
+                .filter(p => p.source === 'predictive' && p.status === 'pending')
+                .sort((a, b) => a.plannedDate.localeCompare(b.plannedDate))
+        };
+    }, [bays, machines]);
+
+    const modelReliability = useMemo(() => calculateModelReliability(machines), [machines]);
+
     const calendarDays = useMemo(() => {
         const start = startOfWeek(startOfMonth(currentMonth), { weekStartsOn: 1 });
         const end = endOfWeek(endOfMonth(currentMonth), { weekStartsOn: 1 });
@@ -744,6 +890,8 @@ const BayMachineResource: React.FC = () => {
                             { id: 'monitor', label: '实时监控', icon: LayoutDashboard, color: 'text-blue-600', bg: 'bg-white' },
                             { id: 'risk', label: '风险预警', icon: AlertTriangle, color: 'text-red-600', bg: 'bg-white' },
                             { id: 'maintenance', label: '维保管理', icon: Hammer, color: 'text-amber-600', bg: 'bg-white' },
+                            { id: 'software', label: '软件合规', icon: ShieldCheck, color: 'text-indigo-600', bg: 'bg-white' },
+                            { id: 'analytics', label: '利用率分析', icon: TrendingUp, color: 'text-violet-600', bg: 'bg-white' },
                             { id: 'calendar', label: '资源日历', icon: Calendar, color: 'text-emerald-600', bg: 'bg-white' }
                         ].map(tab => (
                             <button
@@ -772,6 +920,14 @@ const BayMachineResource: React.FC = () => {
                                     <button onClick={() => fileInputRef.current?.click()} className="p-3 hover:bg-slate-50 text-slate-500 border-r border-slate-100" title="导入配置"><Upload size={18} /></button>
                                     <button onClick={handleExportExcel} className="p-3 hover:bg-slate-50 text-slate-500" title="导出报告"><Download size={18} /></button>
                                 </div>
+                                <Button
+                                    variant="outline"
+                                    icon={Settings2}
+                                    onClick={() => setShowCompatibility(true)}
+                                    className="h-12 px-6 rounded-2xl font-black border-slate-200 hover:bg-slate-50"
+                                >
+                                    兼容性矩阵
+                                </Button>
                                 <Button
                                     variant="primary"
                                     icon={Plus}
@@ -1417,9 +1573,9 @@ const BayMachineResource: React.FC = () => {
                                     </h4>
                                     <div className="space-y-4">
                                         {[
-                                            { label: '待处理请求', count: 6, color: 'from-amber-400 to-orange-500', icon: AlarmClock },
+                                            { label: '待处理请求', count: maintenanceOverview.pending, color: 'from-amber-400 to-orange-500', icon: AlarmClock },
                                             { label: '正在维保中', count: stats.maintenanceCount, color: 'from-blue-400 to-indigo-600', icon: Hammer },
-                                            { label: '本月已完成', count: 12, color: 'from-emerald-400 to-teal-600', icon: ShieldCheck },
+                                            { label: '本月已完成', count: maintenanceOverview.completedThisMonth, color: 'from-emerald-400 to-teal-600', icon: ShieldCheck },
                                         ].map(stat => (
                                             <div key={stat.label} className="p-5 bg-white/40 dark:bg-slate-800/40 backdrop-blur-md rounded-[32px] border border-white/20 dark:border-slate-700/30 shadow-sm group">
                                                 <div className="flex items-center justify-between mb-2">
@@ -1438,6 +1594,16 @@ const BayMachineResource: React.FC = () => {
                                         <CalendarDays size={20} className="text-blue-500 group-hover:rotate-12 transition-transform" />
                                         维保排期总揽
                                     </Button>
+                                    {isPMO && (
+                                        <Button
+                                            variant="ghost"
+                                            className="w-full h-14 rounded-2xl font-black bg-white/40 hover:bg-white/60 dark:bg-slate-800/40 dark:hover:bg-slate-800/60 border-none flex items-center gap-3 group"
+                                            onClick={handleRunPredictiveMaintenance}
+                                        >
+                                            <Zap size={20} className="text-amber-500 group-hover:scale-110 transition-transform" />
+                                            预测性维保评估
+                                        </Button>
+                                    )}
                                 </Card>
 
                                 {/* Middle: Active Pipeline */}
@@ -1534,6 +1700,107 @@ const BayMachineResource: React.FC = () => {
                                     </Card>
                                 </div>
                             </div>
+
+                            <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+                                {/* Predictive proposals */}
+                                <Card className="p-8 bg-white/60 dark:bg-slate-900/60 backdrop-blur-xl border-none shadow-xl rounded-[40px]">
+                                    <h4 className="font-black mb-6 flex items-center gap-3">
+                                        <div className="p-2 bg-amber-500/10 rounded-xl">
+                                            <Zap size={16} className="text-amber-600" />
+                                        </div>
+                                        预测性维保建议
+                                        <Badge variant="neutral" size="sm" className="ml-auto">{maintenanceOverview.proposals.length}</Badge>
+                                    </h4>
+                                    {maintenanceOverview.proposals.length === 0 ? (
+                                        <p className="text-xs text-slate-400 font-bold py-8 text-center">暂无待审批的维保建议</p>
+                                    ) : (
+                                        <div className="space-y-3 max-h-[360px] overflow-y-auto pr-2 scrollbar-hide">
+                                            {maintenanceOverview.proposals.map(plan => (
+                                                <div key={plan.id} className="p-4 bg-white/60 dark:bg-slate-800/60 rounded-3xl border border-white/40 dark:border-slate-700/40 space-y-2">
+                                                    <div className="flex items-center justify-between gap-3">
+                                                        <div>
+                                                            <div className="text-sm font-black text-slate-800 dark:text-slate-100">{plan.resourceName}</div>
+                                                            <div className="text-[10px] text-slate-400 font-bold mt-0.5">建议日期: {plan.plannedDate}</div>
+                                                        </div>
+                                                        {canApproveMaintenance && (
+                                                            <div className="flex gap-2 shrink-0">
+                                                                <Button size="sm" variant="outline" onClick={() => handleApproveMaintenance(plan.resourceId, plan.id, 'rejected', '暂不安排')}>驳回</Button>
+                                                                <Button size="sm" onClick={() => handleApproveMaintenance(plan.resourceId, plan.id, 'accepted', '采纳预测性维保建议')}>采纳</Button>
+                                                            </div>
+                                                        )}
+                                                    </div>
+                                                    <p className="text-[11px] text-slate-500">{plan.description}</p>
+                                                </div>
+                                            ))}
+                                        </div>
+                                    )}
+                                </Card>
+
+                                {/* MTBF / MTTR by machine model */}
+                                <Card className="p-8 bg-white/60 dark:bg-slate-900/60 backdrop-blur-xl border-none shadow-xl rounded-[40px]">
+                                    <h4 className="font-black mb-6 flex items-center gap-3">
+                                        <div className="p-2 bg-blue-500/10 rounded-xl">
+                                            <TrendingUp size={16} className="text-blue-600" />
+                                        </div>
+                                        机型可靠性 (MTBF / MTTR)
+                                    </h4>
+                                    <div className="max-h-[360px] overflow-y-auto pr-2 scrollbar-hide">
+                                        <table className="w-full text-xs">
+                                            <thead className="text-[10px] font-black uppercase tracking-widest text-slate-400 text-left">
+                                                <tr>
+                                                    <th className="py-2">机型</th>
+                                                    <th className="py-2 text-right">台数</th>
+                                                    <th className="py-2 text-right">运行时长</th>
+                                                    <th className="py-2 text-right">故障</th>
+                                                    <th className="py-2 text-right">MTBF</th>
+                                                    <th className="py-2 text-right">MTTR</th>
+                                                    <th className="py-2 text-right">可用度</th>
+                                                </tr>
+                                            </thead>
+                                            <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
+                                                {modelReliability.map(row => (
+                                                    <tr key={row.model} className="font-bold text-slate-700 dark:text-slate-300">
+                                                        <td className="py-2">{row.model}</td>
+                                                        <td className="py-2 text-right">{row.machineCount}</td>
+                                                        <td className="py-2 text-right">{row.operatingHours}h</td>
+                                                        <td className="py-2 text-right">{row.failures}</td>
+                                                        <td className="py-2 text-right">{row.mtbfHours !== null ? `${row.mtbfHours}h` : '-'}</td>
+                                                        <td className="py-2 text-right">{row.mttrHours !== null ? `${row.mttrHours}h` : '-'}</td>
+                                                        <td className="py-2 text-right">{row.availability !== null ? `${(row.availability * 100).toFixed(1)}%` : '-'}</td>
+                                                    </tr>
+                                                ))}
+                                            </tbody>
+                                        </table>
+                                    </div>
+                                    <p className="text-[10px] text-slate-400 font-bold mt-4">MTBF = 累计使用时长 / 故障次数；MTTR = 故障报修至修复完成的平均时长</p>
+                                </Card>
+                            </div>
+                        </motion.div>
+                    )
+                }
+
+                {
+                    viewTab === 'software' && (
+                        <motion.div
+                            key="software"
+                            initial={{ opacity: 0, y: 20 }}
+                            animate={{ opacity: 1, y: 0 }}
+                            exit={{ opacity: 0, y: -20 }}
+                        >
+                            <SoftwareCompliancePanel machines={machines} canManage={isPMO} />
+                        </motion.div>
+                    )
+                }
+
+                {
+                    viewTab === 'analytics' && (
+                        <motion.div
+                            key="analytics"
+                            initial={{ opacity: 0, y: 20 }}
+                            animate={{ opacity: 1, y: 0 }}
+                            exit={{ opacity: 0, y: -20 }}
+                        >
+                            <EquipmentAnalyticsPanel bays={bays} machines={machines} onExport={handleExportAnalyticsExcel} />
                         </motion.div>
                     )
                 }
@@ -1705,14 +1972,14 @@ const BayMachineResource: React.FC = () => {
                                                         onChange={(e) => setEditingNameValue(e.target.value)}
                                                         onKeyDown={(e) => {
                                                             if (e.key === 'Enter') {
-                                                                updateResourcePool(selectedResource.id, { name: editingNameValue }, (selectedResource as any).version);
+                                                                updateResourcePool(selectedResource.id, { name: editingNameValue }, selectedResource.version);
                                                                 setIsEditingName(false);
                                                             }
                                                         }}
                                                     />
                                                     <Button size="sm" variant="ghost" className="text-blue-600" onClick={() => {
                                                         if (selectedResource) {
-                                                            updateResourcePool(selectedResource.id, { name: editingNameValue }, (selectedResource as any).version);
+                                                            updateResourcePool(selectedResource.id, { name: editingNameValue }, selectedResource.version);
                                                             setIsEditingName(false);
                                                         }
                                                     }}>保存</Button>
@@ -1827,7 +2094,7 @@ const BayMachineResource: React.FC = () => {
                                                                 const updates: any = selectedResource.id.startsWith('bay')
                                                                     ? { size: editClassificationValue.size }
                                                                     : { platform: editClassificationValue.platform, model: editClassificationValue.model };
-                                                                updateResourcePool(selectedResource.id, updates, (selectedResource as any).version);
+                                                                updateResourcePool(selectedResource.id, updates, selectedResource.version);
                                                                 setIsEditingClassification(false);
                                                             }
                                                         }}>保存更改</Button>
@@ -2022,14 +2289,19 @@ const BayMachineResource: React.FC = () => {
                                                                 />
                                                             </div>
                                                             <div className="col-span-2">
-                                                                <label className="text-[10px] font-black text-slate-400 uppercase ml-1">软件包/固件版本</label>
+                                                                <label className="text-[10px] font-black text-slate-400 uppercase ml-1">项目要求的软件版本 (可选)</label>
                                                                 <input
                                                                     type="text"
-                                                                    placeholder="如: V2.5.0-Release"
+                                                                    placeholder="如: V2.5.0-Release 或 V2.*"
                                                                     className="w-full mt-1 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-xl px-3 py-2 text-xs"
-                                                                    value={bookingExtra.softwareVersion}
-                                                                    onChange={(e) => setBookingExtra({ ...bookingExtra, softwareVersion: e.target.value })}
+                                                                    value={bookingExtra.requiredSoftwareVersion}
+                                                                    onChange={(e) => setBookingExtra({ ...bookingExtra, requiredSoftwareVersion: e.target.value })}
                                                                 />
+                                                                {bookingExtra.requiredSoftwareVersion && selectedResource && !selectedResource.id.startsWith('bay') && !matchesRequiredVersion(selectedResource.softwareVersion, bookingExtra.requiredSoftwareVersion) && (
+                                                                    <p className="text-[10px] text-red-500 font-bold mt-1 ml-1">
+                                                                        当前版本 {selectedResource.softwareVersion || '未部署'} 不满足要求，无法预定此机器
+                                                                    </p>
+                                                                )}
                                                             </div>
                                                         </div>
                                                         <div className="grid grid-cols-2 gap-3">
@@ -2053,24 +2325,40 @@ const BayMachineResource: React.FC = () => {
                                                             </div>
                                                         </div>
 
-                                                        {!selectedResource?.id.startsWith('bay') && (
-                                                            <div className="p-4 bg-slate-50 dark:bg-slate-800/50 rounded-2xl border border-slate-200 dark:border-slate-700">
-                                                                <label className="text-[10px] font-black text-slate-400 uppercase flex items-center gap-2 mb-2">
-                                                                    <Box size={12} /> 绑定测试 Bay 位 (可选)
-                                                                </label>
-                                                                <select
-                                                                    className="w-full bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-xl px-3 py-2 text-xs outline-none focus:ring-2 focus:ring-blue-500"
-                                                                    value={bookingExtra.bindToBayId}
-                                                                    onChange={(e) => setBookingExtra({ ...bookingExtra, bindToBayId: e.target.value })}
+                                                        <div className="p-4 bg-slate-50 dark:bg-slate-800/50 rounded-2xl border border-slate-200 dark:border-slate-700">
+                                                            <label className="text-[10px] font-black text-slate-400 uppercase flex items-center gap-2 mb-2">
+                                                                {selectedResource?.id.startsWith('bay')
+                                                                    ? <><Cpu size={12} /> 配对测试机器 (可选)</>
+                                                                    : <><Box size={12} /> 绑定测试 Bay 位 (可选)</>}
+                                                            </label>
+                                                            <select
+                                                                className="w-full bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-xl px-3 py-2 text-xs outline-none focus:ring-2 focus:ring-blue-500"
+                                                                value={bookingExtra.pairWithId}
+                                                                onChange={(e) => setBookingExtra({ ...bookingExtra, pairWithId: e.target.value })}
+                                                            >
+                                                                <option value="">不配对</option>
+                                                                {pairCandidates.map((partner, idx) => (
+                                                                    <option key={partner.id} value={partner.id}>
+                                                                        {partner.name} ({'size' in partner ? `${partner.size}型` : partner.model}){idx === 0 ? ' · 最佳匹配' : ''}
+                                                                    </option>
+                                                                ))}
+                                                            </select>
+                                                            {pairCandidates.length > 0 && bookingExtra.pairWithId !== pairCandidates[0].id && (
+                                                                <button
+                                                                    className="text-[10px] font-black text-blue-600 mt-2"
+                                                                    onClick={() => setBookingExtra({ ...bookingExtra, pairWithId: pairCandidates[0].id })}
                                                                 >
-                                                                    <option value="">不绑定 Bay 位</option>
-                                                                    {bays.filter(b => b.status === 'available').map(bay => (
-                                                                        <option key={bay.id} value={bay.id}>{bay.name} ({bay.size}型)</option>
-                                                                    ))}
-                                                                </select>
-                                                                <p className="text-[9px] text-slate-400 mt-2 italic">* 绑定后，该 Bay 位将同步变更为“已占用”状态</p>
-                                                            </div>
-                                                        )}
+                                                                    选用最佳匹配: {pairCandidates[0].name}
+                                                                </button>
+                                                            )}
+                                                            <p className="text-[9px] text-slate-400 mt-2 italic">
+                                                                {pairCandidates.length === 0
+                                                                    ? '* 该时段内没有兼容且空闲的配对资源'
+                                                                    : selectedResource && !selectedResource.id.startsWith('bay')
+                                                                        ? `* 按兼容性矩阵可安装于 ${getCompatibleBaySizes(selectedResource as MachineResource, bayMachineCompatibility).join('/')} 型 Bay，配对后两者同时预约`
+                                                                        : '* 仅列出兼容且在该时段空闲的机器，配对后两者同时预约'}
+                                                            </p>
+                                                        </div>
                                                         <div className="p-3 bg-blue-50 dark:bg-blue-900/10 rounded-xl border border-blue-100 flex items-center gap-3">
                                                             <input
                                                                 type="checkbox"
@@ -2131,7 +2419,13 @@ const BayMachineResource: React.FC = () => {
                                                     <div className="font-bold text-sm text-slate-900 dark:text-slate-100">{b.projectName}</div>
                                                     <div className="text-xs text-slate-400">{b.startDate} 至 {b.endDate}</div>
                                                 </div>
-                                                <Badge variant="outline" className="opacity-60 group-hover:opacity-100 transition-opacity">已确认</Badge>
+                                                {b.status === 'planned' && b.startDate <= format(new Date(), 'yyyy-MM-dd') && hasPermission(user, 'bay:book') ? (
+                                                    <Button size="sm" variant="outline" onClick={() => handleCheckIn(b)}>签到启用</Button>
+                                                ) : (
+                                                    <Badge variant="outline" className="opacity-60 group-hover:opacity-100 transition-opacity">
+                                                        {b.status === 'active' ? '使用中' : b.status === 'completed' ? '已归还' : b.status === 'cancelled' ? '已取消' : '已确认'}
+                                                    </Badge>
+                                                )}
                                             </div>
                                         ))}
                                     </div>
@@ -2194,8 +2488,8 @@ const BayMachineResource: React.FC = () => {
                                                             <div className="text-xs font-black text-slate-700 dark:text-slate-200">{plan.type === 'routine' ? '常规保养' : plan.type === 'breakdown' ? '故障报修' : '性能升级'}</div>
                                                             <div className="text-[10px] text-slate-400 mt-0.5">{plan.plannedDate}</div>
                                                         </div>
-                                                        <Badge variant={plan.status === 'pending' ? 'warning' : plan.status === 'accepted' ? 'success' : 'danger'} size="sm">
-                                                            {plan.status === 'pending' ? '待审核' : plan.status === 'accepted' ? '已通过' : '已拒绝'}
+                                                        <Badge variant={plan.status === 'pending' ? 'warning' : plan.status === 'accepted' ? 'success' : plan.status === 'completed' ? 'info' : 'danger'} size="sm">
+                                                            {plan.status === 'pending' ? '待审核' : plan.status === 'accepted' ? '已通过' : plan.status === 'completed' ? '已完成' : '已拒绝'}
                                                         </Badge>
                                                     </div>
                                                     {plan.approvalRemarks && (
@@ -2683,7 +2977,7 @@ const BayMachineResource: React.FC = () => {
                                                                 </div>
                                                             </div>
 
-                                                            {plan.status === 'pending' && isPMO && (
+                                                            {plan.status === 'pending' && canApproveMaintenance && (
                                                                 <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mt-6 pt-8 border-t border-slate-200/50 dark:border-slate-700/50">
                                                                     <div className="md:col-span-2">
                                                                         <label className="text-[10px] font-black text-slate-400 uppercase ml-2 mb-1 block">审批备注 (必填意见)</label>
@@ -2853,6 +3147,13 @@ const BayMachineResource: React.FC = () => {
                     )
                 }
             </AnimatePresence>
+
+            <BayMachineCompatibilityModal
+                isOpen={showCompatibility}
+                onClose={() => setShowCompatibility(false)}
+                machines={machines}
+                canEdit={isPMO}
+            />
         </div>
     );
 };
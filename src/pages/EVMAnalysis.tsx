@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { useProjects } from '../store/useStore';
+import { useProjects, useResourcePool, useResolvedCalendar } from '../store/useStore';
 import { Activity, TrendingUp, AlertCircle, Download, FileText } from 'lucide-react';
 import EVMCharts from '../components/EVMCharts';
 import { exportEVMToCSV, exportEVMToPDF } from '../utils/pmoExportUtils';
@@ -13,6 +13,8 @@ const EVMAnalysis: React.FC = () => {
     );
 
     const selectedProject = projects.find(p => p.id === selectedProjectId);
+    const resourcePool = useResourcePool();
+    const calendar = useResolvedCalendar(selectedProject?.calendarId);
 
     if (activeProjects.length === 0) {
         return (
@@ -44,14 +46,14 @@ const EVMAnalysis: React.FC = () => {
                 {selectedProject && (
                     <div className="flex gap-2">
                         <button
-                            onClick={() => exportEVMToCSV(selectedProject)}
+                            onClick={() => exportEVMToCSV(selectedProject, { calendar, resourcePool })}
                             className="flex items-center gap-2 px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg text-sm font-medium transition-colors"
                         >
                             <Download size={16} />
                             导出 CSV
                         </button>
                         <button
-                            onClick={() => exportEVMToPDF(selectedProject)}
+                            onClick={() => exportEVMToPDF(selectedProject, { calendar, resourcePool })}
                             className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm font-medium transition-colors"
                         >
                             <FileText size={16} />
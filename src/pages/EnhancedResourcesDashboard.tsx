@@ -4,7 +4,7 @@
  */
 
 import React, { useState, useMemo } from 'react';
-import { useProjects, useResourcePool } from '../store/useStore';
+import { useProjects, useResourcePool, useWorkingCalendars, useCalendarExceptions } from '../store/useStore';
 import {
     Users,
     TrendingUp,
@@ -23,6 +23,8 @@ import type { Task } from '../types';
 const EnhancedResourcesDashboard: React.FC = () => {
     const projects = useProjects();
     const resourcePool = useResourcePool();
+    const calendars = useWorkingCalendars();
+    const calendarExceptions = useCalendarExceptions();
     const { updateProject, addNotification } = useStore();
     const [selectedPeriod, setSelectedPeriod] = useState<'week' | 'month' | 'quarter'>('month');
     const [selectedResourceId, setSelectedResourceId] = useState<string | null>(null);
@@ -32,8 +34,8 @@ const EnhancedResourcesDashboard: React.FC = () => {
     // Calculate resource metrics
     const buckets = useMemo(() => generateTimeBuckets(projects, 12, selectedPeriod), [projects, selectedPeriod]);
     const resourceLoads = useMemo(
-        () => calculateResourceLoad(projects, resourcePool, buckets, selectedPeriod),
-        [projects, resourcePool, buckets, selectedPeriod]
+        () => calculateResourceLoad(projects, resourcePool, buckets, selectedPeriod, { calendars, exceptions: calendarExceptions }),
+        [projects, resourcePool, buckets, selectedPeriod, calendars, calendarExceptions]
     );
 
     // Overall statistics
@@ -369,10 +371,7 @@ const EnhancedResourcesDashboard: React.FC = () => {
                         onApplyChanges={(optimizedTasks: Task[]) => {
                             const project = projects.find(p => p.id === selectedProject);
                             if (project) {
-                                updateProject(selectedProject, {
-                                    ...project,
-                                    tasks: optimizedTasks
-                                });
+                                updateProject(selectedProject, { tasks: optimizedTasks });
                                 addNotification({
                                     message: `项目"${project.name}"的任务已根据优化方案重新调度`,
                                     type: 'success',
@@ -215,9 +215,7 @@ const EnvironmentManagement: React.FC = () => {
                 isOpen={showBookingModal}
                 onClose={() => setShowBookingModal(false)}
                 environment={selectedEnvironment}
-                onBook={(booking) => {
-                    bookEnvironment(booking);
-                }}
+                onBook={(booking) => bookEnvironment(booking)}
             />
         </PageContainer>
     );
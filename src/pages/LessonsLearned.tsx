@@ -0,0 +1,112 @@
+import React, { useMemo, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { BookOpen, FolderKanban, Search, Link2 } from 'lucide-react';
+import { useStore } from '../store/useStore';
+import { PageContainer, PageHeader, Card, StatCard, Button } from '../components/ui';
+import LessonCard from '../components/LessonCard';
+import { LESSON_CATEGORIES, searchLessons, type LessonFilter } from '../utils/lessonsLearned';
+import { getRiskCategoryInfo } from '../utils/riskManagement';
+import type { RiskCategory } from '../types';
+
+const selectClass = 'p-2 rounded-lg border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-800 text-sm text-slate-700 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+/**
+ * 经验教训库：全组合项目收尾复盘沉淀的经验教训，按关键字、风险类别与项目类型检索
+ */
+const LessonsLearned: React.FC = () => {
+    const { lessonsLearned, projectTypeDefinitions } = useStore();
+    const [searchParams] = useSearchParams();
+    const [filter, setFilter] = useState<LessonFilter>({ projectType: searchParams.get('projectType') || undefined });
+
+    const results = useMemo(() => searchLessons(lessonsLearned, filter), [lessonsLearned, filter]);
+    const typeNames = useMemo(
+        () => new Map(projectTypeDefinitions.map(t => [t.id, t.name])),
+        [projectTypeDefinitions]
+    );
+
+    const projectCount = new Set(results.map(l => l.projectId)).size;
+    const linkedRiskCount = results.reduce((sum, l) => sum + (l.relatedRiskIds?.length || 0), 0);
+
+    const updateFilter = (updates: Partial<LessonFilter>) => setFilter({ ...filter, ...updates });
+
+    return (
+        <PageContainer>
+            <PageHeader
+                title="经验教训库"
+                description="项目收尾复盘沉淀的问题与根本原因；同类型新项目立项时推送，已发生的风险自动进入风险建议"
+            />
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+                <StatCard title="经验教训" value={results.length} icon={BookOpen} iconColor="blue" />
+                <StatCard title="来源项目" value={projectCount} icon={FolderKanban} iconColor="purple" />
+                <StatCard title="关联已发生风险" value={linkedRiskCount} icon={Link2} iconColor="orange" />
+            </div>
+
+            <Card padding="sm" className="mb-4">
+                <div className="flex flex-wrap items-end gap-3">
+                    <div className="flex-1 min-w-[200px]">
+                        <label className="block text-xs text-slate-500 mb-1">关键字</label>
+                        <div className="relative">
+                            <Search size={16} className="absolute left-2.5 top-1/2 -translate-y-1/2 text-slate-400" />
+                            <input
+                                type="text"
+                                placeholder="标题、问题、根本原因、建议、项目或标签"
+                                value={filter.query || ''}
+                                onChange={(e) => updateFilter({ query: e.target.value || undefined })}
+                                className={`${selectClass} w-full pl-8`}
+                            />
+                        </div>
+                    </div>
+                    <div>
+                        <label className="block text-xs text-slate-500 mb-1">类别</label>
+                        <select
+                            value={filter.category || ''}
+                            onChange={(e) => updateFilter({ category: (e.target.value || undefined) as RiskCategory | undefined })}
+                            className={selectClass}
+                        >
+                            <option value="">全部</option>
+                            {LESSON_CATEGORIES.map(category => (
+                                <option key={category} value={category}>{getRiskCategoryInfo(category).label}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <div>
+                        <label className="block text-xs text-slate-500 mb-1">项目类型</label>
+                        <select
+                            value={filter.projectType || ''}
+                            onChange={(e) => updateFilter({ projectType: e.target.value || undefined })}
+                            className={selectClass}
+                        >
+                            <option value="">全部</option>
+                            {projectTypeDefinitions.map(type => (
+                                <option key={type.id} value={type.id}>{type.name}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <Button variant="ghost" size="sm" onClick={() => setFilter({})}>
+                        重置
+                    </Button>
+                </div>
+            </Card>
+
+            {results.length === 0 ? (
+                <Card padding="lg" className="text-center text-slate-500">
+                    {lessonsLearned.length === 0 ? '暂无经验教训，项目收尾时可在项目详情的「经验教训」中记录' : '没有符合条件的经验教训'}
+                </Card>
+            ) : (
+                <Card padding="md" className="space-y-3">
+                    {results.map(lesson => (
+                        <LessonCard
+                            key={lesson.id}
+                            lesson={lesson}
+                            projectTypeName={lesson.projectType ? typeNames.get(lesson.projectType) : undefined}
+                            showProject
+                        />
+                    ))}
+                </Card>
+            )}
+        </PageContainer>
+    );
+};
+
+export default LessonsLearned;
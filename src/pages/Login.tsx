@@ -3,6 +3,7 @@ import { useStore } from '../store/useStore';
 import { useNavigate } from 'react-router-dom';
 import { Lock, AlertCircle } from 'lucide-react';
 import { useTranslation } from 'react-i18next';
+import { authProvider, AuthError } from '../services/auth';
 
 const Login: React.FC = () => {
     const { login } = useStore();
@@ -11,19 +12,21 @@ const Login: React.FC = () => {
     const [username, setUsername] = useState('');
     const [password, setPassword] = useState('');
     const [error, setError] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
 
-    const handleLogin = (e: React.FormEvent) => {
+    const handleLogin = async (e: React.FormEvent) => {
         e.preventDefault();
         setError('');
+        setIsSubmitting(true);
 
-        if (username === 'admin' && password === 'admin123') {
-            login(username, 'admin');
+        try {
+            const user = await authProvider.login(username, password);
+            login(user);
             navigate('/');
-        } else if (username === 'user' && password === 'user123') {
-            login(username, 'user');
-            navigate('/');
-        } else {
-            setError('Invalid username or password');
+        } catch (err) {
+            setError(err instanceof AuthError ? 'Invalid username or password' : 'Login service is unavailable, please try again later');
+        } finally {
+            setIsSubmitting(false);
         }
     };
 
@@ -68,7 +71,8 @@ const Login: React.FC = () => {
                     </div>
                     <button
                         type="submit"
-                        className="w-full py-3 bg-blue-600 text-white font-bold rounded-xl hover:bg-blue-700 transition-colors shadow-lg shadow-blue-600/20"
+                        disabled={isSubmitting}
+                        className="w-full py-3 bg-blue-600 text-white font-bold rounded-xl hover:bg-blue-700 disabled:opacity-60 transition-colors shadow-lg shadow-blue-600/20"
                     >
                         {t('login.signIn')}
                     </button>
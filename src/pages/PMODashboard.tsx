@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useMemo, useState } from 'react';
 import {
     ResponsiveContainer, ScatterChart, Scatter, XAxis, YAxis, ZAxis,
     Tooltip, Cell, BarChart, Bar, CartesianGrid, RadarChart,
@@ -10,11 +10,17 @@ import {
 } from 'lucide-react';
 import { useStore } from '../store/useStore';
 import { Card } from '../components/ui';
+import PortfolioOptimizerPanel from '../components/PortfolioOptimizerPanel';
+import PortfolioFinancialsPanel from '../components/PortfolioFinancialsPanel';
 import clsx from 'clsx';
-import { differenceInMonths, parseISO, startOfMonth, addMonths } from 'date-fns';
+import { differenceInMonths, parseISO, startOfQuarter, addMonths, format } from 'date-fns';
+import { getMonthKeysSpanning } from '../utils/dateUtils';
+import { DEFAULT_DISCOUNT_RATE, buildPortfolioFinancials } from '../utils/financialModel';
+import { getPortfolioAnnualBudget } from '../utils/portfolioOptimizer';
 
 const PMODashboard: React.FC = () => {
-    const { projects } = useStore();
+    const { projects, projectTypeDefinitions } = useStore();
+    const [discountRate, setDiscountRate] = useState(DEFAULT_DISCOUNT_RATE);
 
     // 1. Data Processing for Portfolio Heatmap
     const heatmapData = projects.map(p => ({
@@ -33,7 +39,7 @@ const PMODashboard: React.FC = () => {
     };
 
     // 2. Data Processing for Resource Load
-    const months = ['2026-01', '2026-02', '2026-03', '2026-04', '2026-05', '2026-06'];
+    const months = useMemo(() => getMonthKeysSpanning(projects), [projects]);
     const aiLoadData = months.map(month => {
         const data: any = { month };
         projects.forEach(p => {
@@ -53,8 +59,13 @@ const PMODashboard: React.FC = () => {
     });
 
     // 3. Strategic Roadmap Calculation
-    const timelineStart = startOfMonth(parseISO('2026-01-01'));
-    const totalTimelineMonths = 36; // 3 year vision
+    const timelineStart = startOfQuarter(parseISO(`${months[0]}-01`));
+    const totalTimelineMonths = Math.max(12, Math.ceil((differenceInMonths(parseISO(`${months[months.length - 1]}-01`), timelineStart) + 1) / 3) * 3);
+    const timelineLabels = Array.from({ length: Math.ceil(totalTimelineMonths / 6) }, (_, i) => {
+        const date = addMonths(timelineStart, i * 6);
+        return `${format(date, 'yyyy')} Q${Math.floor(date.getMonth() / 3) + 1}`;
+    });
+    const timelineEndYear = format(addMonths(timelineStart, totalTimelineMonths - 1), 'yyyy');
 
     const platformGrouping = projects.reduce((acc: any, p) => {
         const platform = p.pmoMetrics?.techPlatform || 'Other';
@@ -87,7 +98,13 @@ const PMODashboard: React.FC = () => {
         { name: 'Y3 预期回报', value: futureROI_Y3, color: '#10b981', display: `+¥${futureROI_Y3}W` },
     ];
 
-    const npv = totalAnnualBudget - currentInvestmentTotal + futureROI_Y1 + futureROI_Y2 + futureROI_Y3;
+    // 6. Discounted cash flow (DCF) financials
+    const financials = useMemo(
+        () => buildPortfolioFinancials(projects, discountRate, projectTypeDefinitions),
+        [projects, discountRate, projectTypeDefinitions]
+    );
+    const npv = Math.round(financials.portfolio.npv);
+    const portfolioBudget = getPortfolioAnnualBudget(projects);
 
     return (
         <div className="space-y-8 pb-24 max-w-[1700px] mx-auto animate-in fade-in duration-700">
@@ -125,13 +142,15 @@ const PMODashboard: React.FC = () => {
                             <div className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1">组合净现值 (NPV)</div>
                             <div className="text-3xl font-black text-slate-900 dark:text-white">¥{npv}W</div>
                             <div className="flex items-center gap-1 text-green-500 text-[10px] font-bold mt-1">
-                                <ArrowUpRight size={12} /> +12.5% vs 去年同期
+                                <ArrowUpRight size={12} /> IRR {financials.portfolio.irr !== undefined ? `${financials.portfolio.irr.toFixed(1)}%` : '—'} · 折现率 {discountRate}%
                             </div>
                         </div>
                         <div className="p-6 bg-blue-600 rounded-[32px] shadow-2xl shadow-blue-600/30 min-w-[160px] text-white">
                             <div className="text-[10px] font-black text-blue-100 uppercase tracking-widest mb-1">在研项目总投入</div>
                             <div className="text-3xl font-black">¥{(currentInvestmentTotal / 100).toFixed(1)}M</div>
-                            <div className="text-[10px] font-bold text-blue-100/70 mt-1 uppercase tracking-tighter">占年度研发预算 64%</div>
+                            <div className="text-[10px] font-bold text-blue-100/70 mt-1 uppercase tracking-tighter">
+                                占年度研发预算 {portfolioBudget > 0 ? `${(currentInvestmentTotal / portfolioBudget * 100).toFixed(0)}%` : '—'}
+                            </div>
                         </div>
                     </div>
                 </div>
@@ -434,13 +453,23 @@ const PMODashboard: React.FC = () => {
                                 </div>
                             ))}
                             <div className="p-6 bg-gradient-to-br from-blue-600 to-indigo-600 rounded-[28px] text-white shadow-xl shadow-blue-500/20">
-                                <div className="text-[10px] font-black uppercase tracking-widest opacity-70 mb-1">Portfolio Dynamic NPV</div>
+                                <div className="text-[10px] font-black uppercase tracking-widest opacity-70 mb-1">Portfolio DCF NPV @ {discountRate}%</div>
                                 <div className="text-3xl font-black">¥{npv}W</div>
                             </div>
                         </div>
                     </div>
                 </Card>
 
+                {/* 6. DCF Financial Model */}
+                <PortfolioFinancialsPanel
+                    financials={financials}
+                    discountRate={discountRate}
+                    onDiscountRateChange={setDiscountRate}
+                />
+
+                {/* 7. Portfolio Selection Optimizer */}
+                <PortfolioOptimizerPanel projects={projects} />
+
                 {/* 3. Strategic Technology Roadmap */}
                 <Card className="lg:col-span-12 p-10 rounded-[48px] shadow-xl border-none bg-slate-900 text-white overflow-hidden relative">
                     <div className="absolute inset-0 bg-grid-white/[0.02] bg-[size:40px_40px]" />
@@ -451,7 +480,7 @@ const PMODashboard: React.FC = () => {
                                     <div className="p-2.5 bg-white/10 rounded-2xl text-blue-400">
                                         <Layers size={20} />
                                     </div>
-                                    <h3 className="text-2xl font-black uppercase tracking-tighter">战略技术演进全景 (Roadmap 2026-2028)</h3>
+                                    <h3 className="text-2xl font-black uppercase tracking-tighter">战略技术演进全景 (Roadmap {format(timelineStart, 'yyyy')}-{timelineEndYear})</h3>
                                 </div>
                                 <p className="text-[11px] font-bold text-slate-500 uppercase tracking-widest">按技术平台解构代际演进通路 | 已对齐上市关键里程碑与资源投入时序</p>
                             </div>
@@ -511,7 +540,7 @@ const PMODashboard: React.FC = () => {
                                                     <div className="col-span-9 lg:col-span-10 relative h-10 bg-white/[0.03] rounded-3xl group/bar">
                                                         {/* Quarterly markers */}
                                                         <div className="absolute inset-0 flex justify-between pointer-events-none px-0">
-                                                            {Array.from({ length: 12 }).map((_, i) => (
+                                                            {Array.from({ length: totalTimelineMonths / 3 }).map((_, i) => (
                                                                 <div key={i} className="h-full border-r border-white/5" />
                                                             ))}
                                                         </div>
@@ -545,12 +574,13 @@ const PMODashboard: React.FC = () => {
                         </div>
 
                         {/* Timeline Labels */}
-                        <div className="mt-16 pt-8 border-t border-white/5 flex justify-between px-[16.6%] lg:px-[16.6%]">
-                            <span className="text-[10px] font-black text-slate-600 uppercase">2026 Q1</span>
-                            <span className="text-[10px] font-black text-slate-600 uppercase">2026 Q3</span>
-                            <span className="text-[10px] font-black text-slate-600 uppercase">2027 Q1</span>
-                            <span className="text-[10px] font-black text-slate-600 uppercase">2027 Q3</span>
-                            <span className="text-[10px] font-black text-slate-600 uppercase">2028 Q1</span>
+                        <div className="mt-16 pt-8 border-t border-white/5 grid grid-cols-12 gap-8">
+                            <div className="col-span-3 lg:col-span-2" />
+                            <div className="col-span-9 lg:col-span-10 flex">
+                                {timelineLabels.map(label => (
+                                    <span key={label} className="flex-1 text-[10px] font-black text-slate-600 uppercase">{label}</span>
+                                ))}
+                            </div>
                         </div>
                     </div>
                 </Card>
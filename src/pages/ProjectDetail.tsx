@@ -1,6 +1,7 @@
 import React, { useMemo } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useStore } from '../store/useStore';
+import { hasPermission } from '../utils/permissions';
 import { ArrowLeft, Calendar, TrendingUp, Edit2, ShieldAlert, CheckCircle2, Server, Flag } from 'lucide-react';
 import { useTranslation } from 'react-i18next';
 import { PieChart, Pie, Cell, ResponsiveContainer, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend } from 'recharts';
@@ -25,10 +26,12 @@ const ProjectDetail: React.FC = () => {
         // 1. 活跃的沙盘推演影响
         const activeSim = simulations.find(s => s.isActive && s.impactAnalysis?.affectedProjects.includes(project.id));
         if (activeSim) {
+            const projectImpact = activeSim.impactAnalysis?.projectImpacts?.find(i => i.projectId === project.id);
+            const delayDays = projectImpact ? projectImpact.delayDays : activeSim.impactAnalysis?.totalDelayDays;
             impacts.push({
                 type: 'simulation',
                 title: '沙盘推演联动',
-                content: `本项目受 "${activeSim.name}" 推演影响，预计延期 ${activeSim.impactAnalysis?.totalDelayDays} 天`,
+                content: `本项目受 "${activeSim.name}" 推演影响，预计延期 ${delayDays} 天`,
                 level: 'warning'
             });
         }
@@ -154,7 +157,7 @@ const ProjectDetail: React.FC = () => {
                             </div>
                         </div>
                     </div>
-                    {user?.role !== 'user' && (
+                    {hasPermission(user, 'project:edit', project) && (
                         <button
                             onClick={() => navigate(`/resources?project=${project.id}`)}
                             className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors"
@@ -1,8 +1,8 @@
 import React, { useState, useMemo } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { useStore, useResourcePool } from '../store/useStore';
+import { useStore, useResourcePool, useResolvedCalendar, usePermission } from '../store/useStore';
 import { usePMOStore } from '../store/usePMOStore';
-import { ArrowLeft, Edit2, Check, DollarSign, Layout, Users, AlertTriangle, BarChart3, Target, GitBranch, GitMerge, TrendingUp, Shield } from 'lucide-react';
+import { ArrowLeft, Edit2, Check, DollarSign, Layout, Users, AlertTriangle, BarChart3, Target, GitBranch, GitMerge, TrendingUp, Shield, BookOpen } from 'lucide-react';
 import SmartTaskView from '../components/SmartTaskView';
 import ProjectResourceDetail from '../components/ProjectResourceDetail';
 import RiskAssessment from '../components/RiskAssessment';
@@ -10,6 +10,7 @@ import CostRegistrationForm from '../components/CostRegistrationForm';
 import ProjectScoringPanel from '../components/ProjectScoringPanel';
 import EnhancedHealthVisualization from '../components/EnhancedHealthVisualization';
 import CostControlPanel from '../components/CostControlPanel';
+import ScheduleRiskPanel from '../components/ScheduleRiskPanel';
 import BaselineHistory from '../components/BaselineHistory';
 import StageGateWorkflow from '../components/StageGateWorkflow';
 import ScopeCreepMonitor from '../components/ScopeCreepMonitor';
@@ -17,26 +18,41 @@ import ChangeImpactAssessment from '../components/ChangeImpactAssessment';
 import ProjectOverviewSummary from '../components/ProjectOverviewSummary';
 import TaskImpactSimulator from '../components/TaskImpactSimulator';
 import PDSGManagement from '../components/PDSGManagement';
+import ProjectLessonsPanel from '../components/ProjectLessonsPanel';
+import ChangeImplementationModal from '../components/ChangeImplementationModal';
 import { calculateProjectHealth } from '../utils/projectHealth';
-import { DEFAULT_STAGE_GATES, getNextStage, getStageName } from '../utils/stageGateManagement';
-import type { CostEntry, Task, ProjectWithStageGate, StageGate, ProjectStage } from '../types';
+import { adjustTaskDates, getTaskDependencies } from '../utils/taskDependency';
+import { getProjectGates } from '../utils/stageGateManagement';
+import { getChangeActualsVariance } from '../utils/changeImplementation';
+import { getApprovalStepBlocker } from '../utils/approvalEngine';
+import type { ChangeRequest, CostEntry, Task, ProjectWithStageGate } from '../types';
 import { Badge, Button } from '../components/ui';
 
 const ProjectDetailEnhanced: React.FC = () => {
     const { projectId } = useParams<{ projectId: string }>();
     const navigate = useNavigate();
-    const { projects, updateProject, user } = useStore();
+    const { user, projects, updateProject, projectTypeDefinitions, updateGateRequirement, advanceProjectStage } = useStore();
     const resourcePool = useResourcePool();
-    const { addChangeRequest, getChangeRequestsByProject } = usePMOStore();
+    const {
+        addChangeRequest, getChangeRequestsByProject, updateChangeRequest, approveChangeRequest, rejectChangeRequest, implementChangeRequest,
+        approvalWorkflows, updateApprovalStep, requestStageGateApproval
+    } = usePMOStore();
+    const canEditProject = usePermission('project:edit', projectId);
+    const canApproveWorkflow = usePermission('workflow:approve');
+    const canApproveChange = usePermission('changeRequest:approve', projectId);
+    const canSubmitChange = usePermission('changeRequest:submit', projectId);
 
     const project = projects.find(p => p.id === projectId);
+    const calendar = useResolvedCalendar(project?.calendarId);
 
     // Initialize state
     const [isEditing, setIsEditing] = useState(false);
-    const [activeTab, setActiveTab] = useState<'diagram' | 'resources' | 'costs' | 'risks' | 'analytics' | 'strategy' | 'baseline' | 'stagegate' | 'scope' | 'pdsg'>('diagram');
+    const [activeTab, setActiveTab] = useState<'diagram' | 'resources' | 'costs' | 'risks' | 'analytics' | 'strategy' | 'baseline' | 'stagegate' | 'scope' | 'pdsg' | 'lessons'>('diagram');
     const [isCostFormOpen, setIsCostFormOpen] = useState(false);
     const [showChangeAssessment, setShowChangeAssessment] = useState(false);
     const [showSimulator, setShowSimulator] = useState(false);
+    const [captureLessons, setCaptureLessons] = useState(false);
+    const [implementingChange, setImplementingChange] = useState<ChangeRequest | null>(null);
 
     if (!project) {
         return (
@@ -76,25 +92,65 @@ const ProjectDetailEnhanced: React.FC = () => {
         } else {
             newTasks = [...currentTasks, updatedTask];
         }
-        updateProject(project.id, { ...project, tasks: newTasks });
+        // 按依赖关系（FS/SS/FF/SF + 延迟）自动推迟后续任务
+        updateProject(project.id, { tasks: adjustTaskDates(newTasks, calendar) });
     };
 
     const handleTaskAdd = (newTask: Task) => {
         const currentTasks = project.tasks || [];
         const newTasks = [...currentTasks, newTask];
-        updateProject(project.id, { ...project, tasks: newTasks });
+        updateProject(project.id, { tasks: newTasks });
     };
 
     const handleTaskDelete = (taskId: string) => {
         const currentTasks = project.tasks || [];
-        const newTasks = currentTasks.filter(t => t.id !== taskId);
-        updateProject(project.id, { ...project, tasks: newTasks });
+        const newTasks = currentTasks
+            .filter(t => t.id !== taskId)
+            .map(t => t.dependencies?.some(dep => dep.taskId === taskId)
+                ? { ...t, dependencies: getTaskDependencies(t).filter(dep => dep.taskId !== taskId) }
+                : t
+            );
+        updateProject(project.id, { tasks: newTasks });
+    };
+
+    // 项目关闭时进入经验教训复盘
+    const handleStatusChange = (status: typeof project.status) => {
+        const wasCompleted = project.status === 'completed';
+        updateProject(project.id, { status });
+        // 权限不足或阶段门径未通过时状态不会变更
+        if (!wasCompleted && useStore.getState().projects.find(p => p.id === project.id)?.status === 'completed') {
+            setCaptureLessons(true);
+            setActiveTab('lessons');
+        }
+    };
+
+    const handleRejectChange = (cr: ChangeRequest) => {
+        const reason = prompt('驳回原因');
+        if (reason === null || !user) return;
+        rejectChangeRequest(cr.id, user.id, user.name || user.username, reason);
+    };
+
+    // 实施后回填实际工时与成本，与估算对比
+    const handleRecordChangeActuals = (cr: ChangeRequest) => {
+        const hours = prompt('实际工时 (h)', String(cr.actualEffortHours ?? cr.estimatedEffortHours));
+        if (hours === null) return;
+        const cost = prompt('实际成本增加 (¥)', String(cr.actualCostIncrease ?? cr.estimatedCostIncrease));
+        if (cost === null) return;
+        const actualEffortHours = parseFloat(hours);
+        const actualCostIncrease = parseFloat(cost);
+        if (isNaN(actualEffortHours) || isNaN(actualCostIncrease)) return;
+        updateChangeRequest(cr.id, { actualEffortHours, actualCostIncrease });
+    };
+
+    const formatActualVariance = (value: number | undefined, percent: number | undefined, formatValue: (v: number) => string) => {
+        if (value === undefined) return '';
+        const sign = value > 0 ? '+' : value < 0 ? '-' : '';
+        return `（偏差 ${sign}${formatValue(Math.abs(value))}${percent !== undefined ? `，${sign}${Math.abs(percent).toFixed(0)}%` : ''}）`;
     };
 
     const handleSaveCosts = (costs: CostEntry[], budget?: number) => {
         const totalActualCost = costs.reduce((sum, c) => sum + c.amount, 0);
         updateProject(project.id, {
-            ...project,
             costHistory: costs,
             budget: budget || project.budget,
             actualCost: totalActualCost
@@ -118,12 +174,12 @@ const ProjectDetailEnhanced: React.FC = () => {
                             <input
                                 type="text"
                                 value={project.name}
-                                onChange={(e) => updateProject(project.id, { ...project, name: e.target.value })}
+                                onChange={(e) => updateProject(project.id, { name: e.target.value })}
                                 className="font-bold text-lg border-b border-blue-500 focus:outline-none px-1"
                             />
                             <select
                                 value={project.status}
-                                onChange={(e) => updateProject(project.id, { ...project, status: e.target.value as any })}
+                                onChange={(e) => handleStatusChange(e.target.value as typeof project.status)}
                                 className="text-sm bg-slate-50 border rounded px-2 py-1"
                             >
                                 <option value="planning">规划中</option>
@@ -133,7 +189,7 @@ const ProjectDetailEnhanced: React.FC = () => {
                             </select>
                             <select
                                 value={project.priority}
-                                onChange={(e) => updateProject(project.id, { ...project, priority: e.target.value as any })}
+                                onChange={(e) => updateProject(project.id, { priority: e.target.value as any })}
                                 className="text-sm bg-slate-50 border rounded px-2 py-1"
                             >
                                 <option value="P0">P0 - 紧急</option>
@@ -241,6 +297,12 @@ const ProjectDetailEnhanced: React.FC = () => {
                     >
                         <TrendingUp size={16} /> 范围管理
                     </button>
+                    <button
+                        onClick={() => setActiveTab('lessons')}
+                        className={`px-3 py-1.5 text-sm font-medium rounded-md whitespace-nowrap flex-shrink-0 flex items-center gap-2 transition-all ${activeTab === 'lessons' ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                    >
+                        <BookOpen size={16} /> 经验教训
+                    </button>
                 </div>
             </div>
 
@@ -290,6 +352,7 @@ const ProjectDetailEnhanced: React.FC = () => {
                                 tasks={project.tasks || []}
                                 projectName={project.name}
                                 pdsgMembers={project.pdsgMembers}
+                                calendar={calendar}
                                 onTaskUpdate={handleTaskUpdate}
                                 onTaskAdd={handleTaskAdd}
                                 onTaskDelete={handleTaskDelete}
@@ -303,7 +366,7 @@ const ProjectDetailEnhanced: React.FC = () => {
                         <RiskAssessment
                             project={project}
                             risks={project.risks || []}
-                            onRisksChange={(updatedRisks) => updateProject(project.id, { ...project, risks: updatedRisks })}
+                            onRisksChange={(updatedRisks) => updateProject(project.id, { risks: updatedRisks })}
                         />
                     </div>
                 )}
@@ -334,7 +397,10 @@ const ProjectDetailEnhanced: React.FC = () => {
                                         </div>
                                         <div>
                                             <div className="font-medium text-slate-900">{cost.description}</div>
-                                            <div className="text-xs text-slate-500">{cost.date} · {cost.category}</div>
+                                            <div className="text-xs text-slate-500">
+                                                {cost.date} · {cost.category}
+                                                {cost.taskId && ` · ${project.tasks?.find(t => t.id === cost.taskId)?.name || '已删除任务'}`}
+                                            </div>
                                         </div>
                                     </div>
                                     <div className="font-bold text-slate-900">
@@ -366,6 +432,12 @@ const ProjectDetailEnhanced: React.FC = () => {
                             project={project}
                             tasks={project.tasks || []}
                         />
+
+                        {/* 进度风险模拟 */}
+                        <ScheduleRiskPanel
+                            project={project}
+                            calendar={calendar}
+                        />
                     </div>
                 )}
 
@@ -374,7 +446,7 @@ const ProjectDetailEnhanced: React.FC = () => {
                     <div className="h-full overflow-hidden max-w-[1920px] mx-auto w-full">
                         <ProjectScoringPanel
                             project={project}
-                            onUpdate={(updates) => updateProject(project.id, { ...project, ...updates })}
+                            onUpdate={(updates) => updateProject(project.id, { ...updates })}
                         />
                     </div>
                 )}
@@ -393,7 +465,7 @@ const ProjectDetailEnhanced: React.FC = () => {
                         <PDSGManagement
                             project={project}
                             resourcePool={resourcePool}
-                            onUpdateMembers={(members) => updateProject(project.id, { ...project, pdsgMembers: members })}
+                            onUpdateMembers={(members) => updateProject(project.id, { pdsgMembers: members })}
                         />
                     </div>
                 )}
@@ -406,14 +478,12 @@ const ProjectDetailEnhanced: React.FC = () => {
                             onCreateBaseline={(baseline) => {
                                 const updatedBaselines = [...(project.baselines || []), baseline];
                                 updateProject(project.id, {
-                                    ...project,
                                     baselines: updatedBaselines,
                                     activeBaselineId: baseline.id
                                 });
                             }}
                             onSetActiveBaseline={(baselineId) => {
                                 updateProject(project.id, {
-                                    ...project,
                                     activeBaselineId: baselineId
                                 });
                             }}
@@ -429,55 +499,31 @@ const ProjectDetailEnhanced: React.FC = () => {
                         <StageGateWorkflow
                             project={{
                                 ...project,
-                                currentStage: (project as any).currentStage || 'initiation',
-                                gates: (project as any).gates || DEFAULT_STAGE_GATES.standard
+                                currentStage: project.currentStage || 'initiation',
+                                gates: getProjectGates(project, projectTypeDefinitions)
                             } as ProjectWithStageGate}
-                            onUpdateGate={(gate: StageGate) => {
-                                const currentGates = (project as any).gates || DEFAULT_STAGE_GATES.standard;
-                                const updatedGates = currentGates.map((g: StageGate) =>
-                                    g.id === gate.id ? gate : g
-                                );
-                                updateProject(project.id, {
-                                    ...project,
-                                    gates: updatedGates
-                                } as any);
-                            }}
-                            onMoveToNextStage={() => {
-                                const currentStage = (project as any).currentStage || 'initiation';
-                                const nextStage = getNextStage(currentStage as ProjectStage);
-                                if (nextStage) {
-                                    updateProject(project.id, {
-                                        ...project,
-                                        currentStage: nextStage
-                                    } as any);
-                                }
-                            }}
-                            currentUserId={user?.id || 'anonymous'}
-                            currentUserName={user?.name || 'Anonymous User'}
-                            userRole={user?.role || 'user'}
-                            onRequestApproval={(gate) => {
-                                addChangeRequest({
-                                    projectId: project.id,
-                                    projectName: project.name,
-                                    requestedBy: user?.id || 'anonymous',
-                                    requestedByName: user?.name || '项目经理',
-                                    requestDate: new Date().toISOString(),
-                                    title: `阶段门径申请: ${getStageName(gate.stage)}`,
-                                    description: `项目经理申请进入下一步阶段: ${gate.name}\n${gate.description}`,
-                                    category: 'project_status',
-                                    estimatedEffortHours: 0,
-                                    estimatedCostIncrease: 0,
-                                    scheduleImpactDays: 0,
-                                    impactLevel: 'medium',
-                                    businessJustification: '项目已完成当前阶段所有必需任务，申请进入下一流程节点。',
-                                    status: 'pending',
-                                    metadata: {
-                                        type: 'stage_gate',
-                                        gateId: gate.id,
-                                        stage: gate.stage
-                                    }
-                                });
-                            }}
+                            workflows={approvalWorkflows.filter(wf => wf.type === 'stage_gate' && wf.entityId === project.id)}
+                            onToggleRequirement={(gate, requirementId, completed) =>
+                                updateGateRequirement(project.id, gate.id, requirementId, completed)
+                            }
+                            onRequestApproval={(gate) => requestStageGateApproval(project.id, gate.id)}
+                            onDecide={(workflow, stepNumber, decision, comments, conditions) =>
+                                updateApprovalStep(workflow.id, stepNumber, decision, comments, conditions)
+                            }
+                            onMoveToNextStage={() => advanceProjectStage(project.id)}
+                            canEdit={canEditProject}
+                            canDecide={(workflow, stepNumber) => canApproveWorkflow && !!user && !getApprovalStepBlocker(workflow, stepNumber, user)}
+                        />
+                    </div>
+                )}
+
+                {/* 经验教训视图 */}
+                {activeTab === 'lessons' && (
+                    <div className="h-full overflow-auto p-6 max-w-[1920px] mx-auto w-full">
+                        <ProjectLessonsPanel
+                            project={project}
+                            startCapture={captureLessons}
+                            onCaptureStarted={() => setCaptureLessons(false)}
                         />
                     </div>
                 )}
@@ -515,7 +561,10 @@ const ProjectDetailEnhanced: React.FC = () => {
                                 变更请求历史
                             </h3>
                             <div className="space-y-3">
-                                {getChangeRequestsByProject(project.id).map((cr) => (
+                                {getChangeRequestsByProject(project.id).map((cr) => {
+                                    const variance = getChangeActualsVariance(cr);
+                                    const baseline = cr.baselineId ? project.baselines?.find(b => b.id === cr.baselineId) : undefined;
+                                    return (
                                     <div
                                         key={cr.id}
                                         className="flex items-center justify-between p-4 bg-slate-50 dark:bg-slate-700/50 rounded-lg"
@@ -531,7 +580,9 @@ const ProjectDetailEnhanced: React.FC = () => {
                                                             ? 'success'
                                                             : cr.status === 'rejected'
                                                                 ? 'danger'
-                                                                : 'warning'
+                                                                : cr.status === 'implemented'
+                                                                    ? 'info'
+                                                                    : 'warning'
                                                     }
                                                 >
                                                     {cr.status}
@@ -545,12 +596,51 @@ const ProjectDetailEnhanced: React.FC = () => {
                                                 <span>成本: +¥{cr.estimatedCostIncrease}</span>
                                                 <span>延期: +{cr.scheduleImpactDays}天</span>
                                             </div>
+                                            {cr.status === 'implemented' && (
+                                                <div className="flex flex-wrap gap-4 mt-1 text-xs text-slate-500">
+                                                    {cr.implementation && (
+                                                        <span>完成日期: {cr.implementation.previousEndDate} → {cr.implementation.newEndDate}</span>
+                                                    )}
+                                                    {baseline && <span>基线: {baseline.name}</span>}
+                                                    <span>
+                                                        实际工时: {cr.actualEffortHours === undefined ? '未登记' : `${cr.actualEffortHours}h`}
+                                                        {formatActualVariance(variance.effortVariance, variance.effortVariancePercent, v => `${v}h`)}
+                                                    </span>
+                                                    <span>
+                                                        实际成本: {cr.actualCostIncrease === undefined ? '未登记' : `¥${cr.actualCostIncrease}`}
+                                                        {formatActualVariance(variance.costVariance, variance.costVariancePercent, v => `¥${v.toLocaleString()}`)}
+                                                    </span>
+                                                </div>
+                                            )}
                                         </div>
-                                        <div className="text-sm text-slate-500">
+                                        <div className="flex flex-col items-end gap-2 text-sm text-slate-500">
                                             {new Date(cr.requestDate).toLocaleDateString()}
+                                            <div className="flex gap-2">
+                                                {cr.status === 'pending' && canApproveChange && user && (
+                                                    <>
+                                                        <Button size="sm" variant="primary" onClick={() => approveChangeRequest(cr.id, user.id, user.name || user.username)}>
+                                                            批准
+                                                        </Button>
+                                                        <Button size="sm" variant="outline" onClick={() => handleRejectChange(cr)}>
+                                                            驳回
+                                                        </Button>
+                                                    </>
+                                                )}
+                                                {cr.status === 'approved' && canEditProject && canSubmitChange && (
+                                                    <Button size="sm" variant="primary" onClick={() => setImplementingChange(cr)}>
+                                                        实施变更
+                                                    </Button>
+                                                )}
+                                                {cr.status === 'implemented' && canSubmitChange && (
+                                                    <Button size="sm" variant="outline" onClick={() => handleRecordChangeActuals(cr)}>
+                                                        登记实际
+                                                    </Button>
+                                                )}
+                                            </div>
                                         </div>
                                     </div>
-                                ))}
+                                    );
+                                })}
                                 {getChangeRequestsByProject(project.id).length === 0 && (
                                     <div className="text-center py-8 text-slate-400">
                                         暂无变更请求
@@ -578,6 +668,20 @@ const ProjectDetailEnhanced: React.FC = () => {
                 />
             )}
 
+            {/* Change Implementation Preview */}
+            {implementingChange && (
+                <ChangeImplementationModal
+                    project={project}
+                    changeRequest={implementingChange}
+                    calendar={calendar}
+                    onConfirm={() => {
+                        implementChangeRequest(implementingChange.id);
+                        setImplementingChange(null);
+                    }}
+                    onCancel={() => setImplementingChange(null)}
+                />
+            )}
+
             {/* Cost Registration Modal */}
             {isCostFormOpen && (
                 <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
@@ -594,6 +698,7 @@ const ProjectDetailEnhanced: React.FC = () => {
                                 projectName={project.name}
                                 budget={projectBudget}
                                 existingCosts={projectCosts}
+                                tasks={project.tasks || []}
                                 onSave={handleSaveCosts}
                                 onClose={() => setIsCostFormOpen(false)}
                             />
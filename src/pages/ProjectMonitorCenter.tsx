@@ -1,4 +1,5 @@
 import React, { useState, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
 import {
     Activity,
     AlertCircle,
@@ -13,11 +14,15 @@ import {
     ArrowUpRight,
     Layers,
     Search,
-    MoreHorizontal
+    MoreHorizontal,
+    FolderKanban,
+    ArrowUpCircle
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useStore } from '../store/useStore';
 import { Card, Badge, Button } from '../components/ui';
+import ProgramPanel from '../components/ProgramPanel';
+import { RAID_KIND_LABELS, getPendingEscalations } from '../utils/raidLog';
 import {
     ResponsiveContainer,
     AreaChart,
@@ -34,7 +39,8 @@ const HEALTH_COLORS = {
 
 const ProjectMonitorCenter: React.FC = () => {
     const { projects } = useStore();
-    const [viewMode, setViewMode] = useState<'grid' | 'table'>('grid');
+    const navigate = useNavigate();
+    const [viewMode, setViewMode] = useState<'grid' | 'table' | 'program'>('grid');
     const [searchTerm, setSearchTerm] = useState('');
     const [filterPlatform, setFilterPlatform] = useState<string>('all');
 
@@ -67,6 +73,9 @@ const ProjectMonitorCenter: React.FC = () => {
         return { total, critical, delayed, investment };
     }, [projects]);
 
+    // RAID 条目升级至 PMO 且尚未受理
+    const escalations = useMemo(() => getPendingEscalations(projects), [projects]);
+
     const getHealthStatus = (project: any) => {
         const risk = project.pmoMetrics?.valueRiskMetrics.resourceDependency || 0;
         if (risk > 4) return 'critical';
@@ -102,6 +111,13 @@ const ProjectMonitorCenter: React.FC = () => {
                         >
                             <LayoutList size={18} />
                         </button>
+                        <button
+                            onClick={() => setViewMode('program')}
+                            title="项目群视图"
+                            className={clsx("p-2.5 rounded-xl transition-all", viewMode === 'program' ? "bg-white dark:bg-slate-700 shadow-lg text-indigo-600" : "text-slate-400 hover:text-slate-600")}
+                        >
+                            <FolderKanban size={18} />
+                        </button>
                     </div>
                     <Button variant="outline" className="h-12 border-slate-200 dark:border-slate-700 rounded-2xl font-black bg-white dark:bg-slate-800">
                         生成健康报告
@@ -133,6 +149,33 @@ const ProjectMonitorCenter: React.FC = () => {
                 ))}
             </div>
 
+            {/* PMO Escalations */}
+            {escalations.length > 0 && (
+                <Card className="p-6 border-none shadow-xl shadow-slate-200/50 dark:shadow-none bg-white/60 dark:bg-slate-800/60 backdrop-blur-xl rounded-[32px]">
+                    <div className="flex items-center gap-3 mb-4">
+                        <div className="p-2.5 rounded-2xl bg-orange-500/10 text-orange-500">
+                            <ArrowUpCircle size={20} />
+                        </div>
+                        <h3 className="text-sm font-black text-slate-900 dark:text-white uppercase tracking-widest">待受理升级事项 ({escalations.length})</h3>
+                    </div>
+                    <div className="divide-y divide-slate-100 dark:divide-slate-700/50">
+                        {escalations.map(({ project, entry }) => (
+                            <button
+                                key={`${project.id}-${entry.id}`}
+                                onClick={() => navigate(`/projects/${project.id}/raid`)}
+                                className="w-full flex items-center gap-4 py-3 text-left text-xs hover:bg-slate-50 dark:hover:bg-slate-800 rounded-xl px-2"
+                            >
+                                <Badge variant="warning">{RAID_KIND_LABELS[entry.kind]}</Badge>
+                                <span className="font-black text-slate-700 dark:text-slate-200">{entry.title}</span>
+                                <span className="text-slate-400 truncate flex-1">{entry.item?.escalation?.reason}</span>
+                                <span className="font-bold text-slate-500">{project.name}</span>
+                                <span className="text-slate-400">{entry.item?.escalation?.escalatedBy}</span>
+                            </button>
+                        ))}
+                    </div>
+                </Card>
+            )}
+
             {/* Filter & Search Section */}
             <div className="flex flex-col lg:flex-row justify-between items-center gap-6 bg-slate-50/50 dark:bg-slate-900/40 p-6 rounded-[32px] border border-slate-100 dark:border-slate-800">
                 <div className="relative flex-1 w-full max-w-md group">
@@ -336,6 +379,15 @@ const ProjectMonitorCenter: React.FC = () => {
                             );
                         })}
                     </motion.div>
+                ) : viewMode === 'program' ? (
+                    <motion.div
+                        key="program"
+                        initial={{ opacity: 0, y: 20 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        exit={{ opacity: 0, y: -20 }}
+                    >
+                        <ProgramPanel projects={projects} />
+                    </motion.div>
                 ) : (
                     <motion.div
                         key="table"
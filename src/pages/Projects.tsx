@@ -4,6 +4,7 @@ import { useStore } from '../store/useStore';
 import type { Project, ResourceRequirement, ProjectTemplate, MilestoneDependency } from '../types';
 import { Plus, Trash2, Edit2, X, LayoutList, Kanban, Users, Calendar } from 'lucide-react';
 import { calculateProjectScore } from '../utils/algorithm';
+import { DEFAULT_DISCOUNT_RATE } from '../utils/financialModel';
 import { format, differenceInMonths, parseISO, startOfMonth, endOfMonth, addMonths, differenceInDays, addMonths as addMonthsDate } from 'date-fns';
 import TemplateSelector from '../components/TemplateSelector';
 import KanbanBoard from '../components/KanbanBoard';
@@ -11,12 +12,13 @@ import { useNavigate } from 'react-router-dom';
 import { PageContainer, PageHeader, Card, Button, Badge } from '../components/ui';
 import { usePMOStore } from '../store/usePMOStore';
 import { useKeyTaskDefinitions } from '../store/useStore';
+import { hasPermission } from '../utils/permissions';
 import KeyTaskSettingsModal from '../components/KeyTaskSettingsModal';
 import { Settings, FolderTree } from 'lucide-react';
 import ProjectTypeSettingsModal from '../components/ProjectTypeSettingsModal';
 
 const Projects: React.FC = () => {
-    const { projects, addProject, deleteProject, updateProject, factorDefinitions, resourcePool, user, projectTypeDefinitions } = useStore();
+    const { projects, addProject, deleteProject, updateProject, factorDefinitions, resourcePool, user, projectTypeDefinitions, workingCalendars } = useStore();
     const { t } = useTranslation();
     const { environmentResources } = usePMOStore();
     const navigate = useNavigate();
@@ -333,15 +335,15 @@ const Projects: React.FC = () => {
             </td>
             <td className="p-4 text-right">
                 <div className="flex items-center justify-end gap-2">
-                    {user?.role !== 'user' && (
-                        <>
-                            <button onClick={() => handleOpenModal(project)} className="p-2 text-slate-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors">
-                                <Edit2 size={18} />
-                            </button>
-                            <button onClick={() => deleteProject(project.id)} className="p-2 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors">
-                                <Trash2 size={18} />
-                            </button>
-                        </>
+                    {hasPermission(user, 'project:edit', project) && (
+                        <button onClick={() => handleOpenModal(project)} className="p-2 text-slate-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors">
+                            <Edit2 size={18} />
+                        </button>
+                    )}
+                    {hasPermission(user, 'project:delete', project) && (
+                        <button onClick={() => deleteProject(project.id)} className="p-2 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors">
+                            <Trash2 size={18} />
+                        </button>
                     )}
                 </div>
             </td>
@@ -677,7 +679,7 @@ const Projects: React.FC = () => {
                                 <span className="text-sm font-medium">甘特图</span>
                             </button>
                         </div>
-                        {user?.role !== 'user' && (
+                        {hasPermission(user, 'project:create') && (
                             <Button onClick={() => handleOpenModal()} variant="primary" icon={Plus}>
                                 New Project
                             </Button>
@@ -713,7 +715,7 @@ const Projects: React.FC = () => {
                                                 return (
                                                     <React.Fragment key={type.id}>
                                                         <tr className="bg-slate-50/50">
-                                                            <td colSpan={user?.role !== 'user' ? 7 : 5} className="p-3">
+                                                            <td colSpan={hasPermission(user, 'project:edit') ? 7 : 5} className="p-3">
                                                                 <div className="flex items-center gap-2">
                                                                     <div className="w-1.5 h-4 rounded-full" style={{ backgroundColor: type.color }}></div>
                                                                     <span className="text-xs font-black text-slate-500 uppercase tracking-widest">{type.name}</span>
@@ -730,7 +732,7 @@ const Projects: React.FC = () => {
                                                 return (
                                                     <React.Fragment key="untyped">
                                                         <tr className="bg-slate-50/50">
-                                                            <td colSpan={user?.role !== 'user' ? 7 : 5} className="p-3">
+                                                            <td colSpan={hasPermission(user, 'project:edit') ? 7 : 5} className="p-3">
                                                                 <div className="flex items-center gap-2">
                                                                     <div className="w-1.5 h-4 rounded-full bg-slate-300"></div>
                                                                     <span className="text-xs font-black text-slate-400 uppercase tracking-widest">未分类项目</span>
@@ -996,6 +998,19 @@ const Projects: React.FC = () => {
                                                 placeholder="输入负责部门"
                                             />
                                         </div>
+                                        <div>
+                                            <label className="block text-sm font-medium text-slate-700 mb-1">工作日历</label>
+                                            <select
+                                                className="w-full p-3 rounded-xl border border-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                                value={formData.calendarId || ''}
+                                                onChange={e => setFormData({ ...formData, calendarId: e.target.value || undefined })}
+                                            >
+                                                <option value="">默认（公司日历）</option>
+                                                {workingCalendars.map(calendar => (
+                                                    <option key={calendar.id} value={calendar.id}>{calendar.name}</option>
+                                                ))}
+                                            </select>
+                                        </div>
                                         <div>
                                             <label className="block text-sm font-medium text-slate-700 mb-1">{t('projects.budget')} (¥)</label>
                                             <input
@@ -1542,10 +1557,27 @@ const Projects: React.FC = () => {
                                                         })}
                                                     />
                                                 </div>
-                                                <div className="space-y-2">
-                                                    <label className="block text-xs font-black text-slate-500 uppercase mb-2">未来 3 年预期回本</label>
+                                                <div>
+                                                    <label className="block text-xs font-black text-slate-500 uppercase mb-2">折现率 (%)</label>
+                                                    <input
+                                                        type="number"
+                                                        step="0.5"
+                                                        placeholder={`默认 ${DEFAULT_DISCOUNT_RATE}`}
+                                                        className="w-full p-3 rounded-xl border border-slate-200 focus:ring-2 focus:ring-green-500 font-bold dark:bg-slate-900 dark:border-slate-700 dark:text-white"
+                                                        value={formData.pmoMetrics?.cashFlow.discountRate ?? ''}
+                                                        onChange={e => setFormData({
+                                                            ...formData,
+                                                            pmoMetrics: {
+                                                                ...formData.pmoMetrics!,
+                                                                cashFlow: { ...formData.pmoMetrics!.cashFlow, discountRate: e.target.value === '' ? undefined : parseFloat(e.target.value) }
+                                                            }
+                                                        })}
+                                                    />
+                                                </div>
+                                                <div className="col-span-3 space-y-2">
+                                                    <label className="block text-xs font-black text-slate-500 uppercase mb-2">未来各年预期净现金流 (万元)</label>
                                                     <div className="flex gap-2">
-                                                        {[0, 1, 2].map(i => (
+                                                        {Array.from({ length: Math.max(3, formData.pmoMetrics?.cashFlow.futureROI.length || 0) }, (_, i) => i).map(i => (
                                                             <input
                                                                 key={i} type="number" placeholder={`Y${i + 1}`}
                                                                 className="flex-1 p-3 rounded-xl border border-slate-200 focus:ring-2 focus:ring-green-500 font-bold text-xs dark:bg-slate-900 dark:border-slate-700 dark:text-white"
@@ -1557,12 +1589,28 @@ const Projects: React.FC = () => {
                                                                         ...formData,
                                                                         pmoMetrics: {
                                                                             ...formData.pmoMetrics!,
-                                                                            cashFlow: { ...formData.pmoMetrics!.cashFlow, futureROI: newROI }
+                                                                            cashFlow: { ...formData.pmoMetrics!.cashFlow, futureROI: Array.from(newROI, v => v || 0) }
                                                                         }
                                                                     });
                                                                 }}
                                                             />
                                                         ))}
+                                                        <button
+                                                            type="button"
+                                                            onClick={() => {
+                                                                const roi = formData.pmoMetrics!.cashFlow.futureROI;
+                                                                setFormData({
+                                                                    ...formData,
+                                                                    pmoMetrics: {
+                                                                        ...formData.pmoMetrics!,
+                                                                        cashFlow: { ...formData.pmoMetrics!.cashFlow, futureROI: [...roi, ...new Array(Math.max(0, 3 - roi.length)).fill(0), 0] }
+                                                                    }
+                                                                });
+                                                            }}
+                                                            className="px-3 rounded-xl border border-dashed border-slate-300 text-slate-400 hover:text-green-600 hover:border-green-400 text-xs font-black"
+                                                        >
+                                                            + 年
+                                                        </button>
                                                     </div>
                                                 </div>
                                             </div>
@@ -0,0 +1,304 @@
+import React, { useMemo, useState } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { AlertTriangle, ArrowUpCircle, CheckCircle2, ClipboardList, Download, Edit2, Plus, Shield, Trash2 } from 'lucide-react';
+import { useStore, usePermission } from '../store/useStore';
+import { usePMOStore } from '../store/usePMOStore';
+import type { RaidItem, RaidItemFormValues, RaidKind } from '../types';
+import { RAID_KIND_LABELS, getRaidEntries, getRaidSummary, type RaidEntry, type RaidViewKind } from '../utils/raidLog';
+import { exportRaidLogToCSV, exportRaidLogToExcel } from '../utils/riskExport';
+import RaidItemFormModal from '../components/RaidItemFormModal';
+
+const KIND_COLORS: Record<RaidViewKind, string> = {
+    risk: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300',
+    assumption: 'bg-purple-100 text-purple-700 dark:bg-purple-900/30 dark:text-purple-300',
+    issue: 'bg-orange-100 text-orange-700 dark:bg-orange-900/30 dark:text-orange-300',
+    decision: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300',
+    action: 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-300'
+};
+
+const RaidLog: React.FC = () => {
+    const { projectId } = useParams<{ projectId: string }>();
+    const navigate = useNavigate();
+    const { projects, user, addRaidItem, updateRaidItem, deleteRaidItem, escalateRaidItem, acknowledgeRaidEscalation } = useStore();
+    const { getChangeRequestsByProject } = usePMOStore();
+    const canEdit = usePermission('task:edit', projectId);
+    const canDelete = usePermission('project:edit', projectId);
+    const canHandleEscalation = usePermission('escalation:handle');
+
+    const project = projects.find((p) => p.id === projectId);
+    const [filterKind, setFilterKind] = useState<RaidViewKind | 'all'>('all');
+    const [openOnly, setOpenOnly] = useState(true);
+    const [editing, setEditing] = useState<{ kind: RaidKind; item: RaidItem | null } | null>(null);
+
+    const entries = useMemo(() => (project ? getRaidEntries(project) : []), [project]);
+    const summary = useMemo(() => getRaidSummary(entries), [entries]);
+    const filteredEntries = entries.filter((e) => (filterKind === 'all' || e.kind === filterKind) && (!openOnly || e.open));
+
+    if (!project) {
+        return (
+            <div className="flex items-center justify-center h-screen">
+                <div className="text-center">
+                    <AlertTriangle className="mx-auto h-12 w-12 text-yellow-500 mb-4" />
+                    <h2 className="text-xl font-semibold text-slate-700 dark:text-slate-200">项目未找到</h2>
+                    <button
+                        onClick={() => navigate('/projects')}
+                        className="mt-4 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+                    >
+                        返回项目列表
+                    </button>
+                </div>
+            </div>
+        );
+    }
+
+    const changeRequests = getChangeRequestsByProject(project.id);
+    const taskName = (id: string) => project.tasks?.find((t) => t.id === id)?.name || id;
+    const riskTitle = (id: string) => project.risks?.find((r) => r.id === id)?.title || id;
+    const changeTitle = (id: string) => changeRequests.find((cr) => cr.id === id)?.title || id;
+
+    const handleSave = ({ kind, values }: RaidItemFormValues) => {
+        if (editing?.item) {
+            updateRaidItem(project.id, kind, editing.item.id, values);
+        } else {
+            addRaidItem(project.id, kind, values);
+        }
+    };
+
+    const handleEscalate = (entry: RaidEntry) => {
+        const reason = prompt(`升级「${entry.title}」至 PMO，请说明原因`);
+        if (reason?.trim()) escalateRaidItem(project.id, entry.kind as RaidKind, entry.id, reason.trim());
+    };
+
+    const handleAcknowledge = (entry: RaidEntry) => {
+        const response = prompt('PMO 处理意见（可选）') ?? undefined;
+        acknowledgeRaidEscalation(project.id, entry.kind as RaidKind, entry.id, response || undefined);
+    };
+
+    const handleDelete = (entry: RaidEntry) => {
+        if (confirm(`确定要删除${RAID_KIND_LABELS[entry.kind]}「${entry.title}」吗？`)) {
+            deleteRaidItem(project.id, entry.kind as RaidKind, entry.id);
+        }
+    };
+
+    return (
+        <div className="min-h-screen bg-slate-50 dark:bg-slate-900 p-6">
+            {/* Header */}
+            <div className="mb-6 flex items-center justify-between">
+                <div>
+                    <h1 className="text-2xl font-bold text-slate-800 dark:text-slate-100">RAID 日志 - {project.name}</h1>
+                    <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">风险、假设、问题、决策与行动项的统一跟踪</p>
+                </div>
+                <div className="flex items-center gap-3">
+                    <button
+                        onClick={() => navigate(`/projects/${project.id}/risks`)}
+                        className="flex items-center gap-2 px-4 py-2 bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-200 rounded-lg hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors"
+                    >
+                        <Shield size={18} />
+                        <span>风险管理</span>
+                    </button>
+                    <div className="relative group">
+                        <button className="flex items-center gap-2 px-4 py-2 bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-200 rounded-lg hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors">
+                            <Download size={18} />
+                            <span>导出</span>
+                        </button>
+                        <div className="absolute right-0 mt-2 w-48 bg-white dark:bg-slate-800 rounded-lg shadow-xl border border-slate-200 dark:border-slate-700 opacity-0 invisible group-hover:opacity-100 group-hover:visible transition-all z-50">
+                            <button
+                                onClick={() => exportRaidLogToCSV(project)}
+                                className="w-full text-left px-4 py-2 hover:bg-slate-50 dark:hover:bg-slate-700 text-sm text-slate-700 dark:text-slate-200 rounded-t-lg"
+                            >
+                                📄 导出为 CSV
+                            </button>
+                            <button
+                                onClick={() => exportRaidLogToExcel(project)}
+                                className="w-full text-left px-4 py-2 hover:bg-slate-50 dark:hover:bg-slate-700 text-sm text-slate-700 dark:text-slate-200 rounded-b-lg"
+                            >
+                                📊 导出为 Excel
+                            </button>
+                        </div>
+                    </div>
+                    {canEdit && (
+                        <div className="relative group">
+                            <button className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors">
+                                <Plus size={18} />
+                                <span>新建条目</span>
+                            </button>
+                            <div className="absolute right-0 mt-2 w-40 bg-white dark:bg-slate-800 rounded-lg shadow-xl border border-slate-200 dark:border-slate-700 opacity-0 invisible group-hover:opacity-100 group-hover:visible transition-all z-50">
+                                {(['assumption', 'issue', 'decision', 'action'] as RaidKind[]).map((kind) => (
+                                    <button
+                                        key={kind}
+                                        onClick={() => setEditing({ kind, item: null })}
+                                        className="w-full text-left px-4 py-2 hover:bg-slate-50 dark:hover:bg-slate-700 text-sm text-slate-700 dark:text-slate-200"
+                                    >
+                                        {RAID_KIND_LABELS[kind]}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+                </div>
+            </div>
+
+            {/* Summary */}
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-6">
+                {summary.map((s) => (
+                    <button
+                        key={s.kind}
+                        onClick={() => setFilterKind(filterKind === s.kind ? 'all' : s.kind)}
+                        className={`text-left bg-white dark:bg-slate-800 rounded-lg shadow-sm p-4 border-2 transition-colors ${filterKind === s.kind ? 'border-blue-500' : 'border-transparent'}`}
+                    >
+                        <span className={`px-2 py-0.5 rounded text-xs font-medium ${KIND_COLORS[s.kind]}`}>{RAID_KIND_LABELS[s.kind]}</span>
+                        <p className="text-2xl font-bold text-slate-800 dark:text-slate-100 mt-2">
+                            {s.open}<span className="text-sm font-normal text-slate-400"> / {s.total}</span>
+                        </p>
+                        <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+                            未关闭{s.overdue > 0 && <span className="text-red-600"> · 逾期 {s.overdue}</span>}
+                            {s.escalated > 0 && <span className="text-orange-600"> · 待 PMO 受理 {s.escalated}</span>}
+                        </p>
+                    </button>
+                ))}
+            </div>
+
+            {/* Filters */}
+            <div className="bg-white dark:bg-slate-800 rounded-lg shadow-sm p-4 mb-6 flex items-center gap-4">
+                <ClipboardList size={18} className="text-slate-500" />
+                <select
+                    value={filterKind}
+                    onChange={(e) => setFilterKind(e.target.value as RaidViewKind | 'all')}
+                    className="px-3 py-2 border border-slate-200 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-800 dark:text-slate-100 text-sm"
+                >
+                    <option value="all">全部类型</option>
+                    {(Object.keys(RAID_KIND_LABELS) as RaidViewKind[]).map((kind) => (
+                        <option key={kind} value={kind}>{RAID_KIND_LABELS[kind]}</option>
+                    ))}
+                </select>
+                <label className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300">
+                    <input type="checkbox" checked={openOnly} onChange={(e) => setOpenOnly(e.target.checked)} />
+                    仅显示未关闭
+                </label>
+                <span className="ml-auto text-sm text-slate-500 dark:text-slate-400">{filteredEntries.length} 条</span>
+            </div>
+
+            {/* Entries */}
+            <div className="bg-white dark:bg-slate-800 rounded-lg shadow-sm overflow-x-auto">
+                <table className="w-full text-sm">
+                    <thead className="bg-slate-50 dark:bg-slate-700/50 text-xs text-slate-500 dark:text-slate-400 text-left">
+                        <tr>
+                            <th className="px-4 py-3">类型</th>
+                            <th className="px-4 py-3">标题</th>
+                            <th className="px-4 py-3">状态</th>
+                            <th className="px-4 py-3">负责人</th>
+                            <th className="px-4 py-3">截止 / 复核</th>
+                            <th className="px-4 py-3">关联</th>
+                            <th className="px-4 py-3">升级</th>
+                            <th className="px-4 py-3 text-right">操作</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
+                        {filteredEntries.length === 0 && (
+                            <tr>
+                                <td colSpan={8} className="px-4 py-10 text-center text-slate-400">暂无条目</td>
+                            </tr>
+                        )}
+                        {filteredEntries.map((entry) => (
+                            <tr key={`${entry.kind}-${entry.id}`} className="text-slate-700 dark:text-slate-200 align-top">
+                                <td className="px-4 py-3">
+                                    <span className={`px-2 py-0.5 rounded text-xs font-medium ${KIND_COLORS[entry.kind]}`}>{RAID_KIND_LABELS[entry.kind]}</span>
+                                </td>
+                                <td className="px-4 py-3 max-w-xs">
+                                    <div className="font-medium">{entry.title}</div>
+                                    {entry.description && <div className="text-xs text-slate-500 dark:text-slate-400 line-clamp-2">{entry.description}</div>}
+                                </td>
+                                <td className="px-4 py-3 whitespace-nowrap">{entry.statusLabel}</td>
+                                <td className="px-4 py-3 whitespace-nowrap">{entry.ownerName}</td>
+                                <td className={`px-4 py-3 whitespace-nowrap ${entry.overdue ? 'text-red-600 font-semibold' : ''}`}>
+                                    {entry.dueDate || '—'}
+                                </td>
+                                <td className="px-4 py-3 text-xs space-y-1">
+                                    {entry.relatedTaskIds.map((id) => <div key={id}>任务：{taskName(id)}</div>)}
+                                    {entry.relatedRiskIds.map((id) => <div key={id}>风险：{riskTitle(id)}</div>)}
+                                    {entry.relatedChangeRequestIds.map((id) => <div key={id}>变更：{changeTitle(id)}</div>)}
+                                </td>
+                                <td className="px-4 py-3 text-xs">
+                                    {entry.item?.escalation && (
+                                        <div title={entry.item.escalation.reason}>
+                                            <span className={entry.acknowledged ? 'text-green-600' : 'text-orange-600'}>
+                                                {entry.acknowledged ? `PMO 已受理（${entry.item.escalation.acknowledgedBy}）` : '待 PMO 受理'}
+                                            </span>
+                                            {entry.item.escalation.response && (
+                                                <div className="text-slate-500 dark:text-slate-400">{entry.item.escalation.response}</div>
+                                            )}
+                                        </div>
+                                    )}
+                                </td>
+                                <td className="px-4 py-3">
+                                    {entry.kind === 'risk' ? (
+                                        <button
+                                            onClick={() => navigate(`/projects/${project.id}/risks`)}
+                                            className="text-xs text-blue-600 hover:underline whitespace-nowrap"
+                                        >
+                                            在风险管理中查看
+                                        </button>
+                                    ) : (
+                                        <div className="flex items-center justify-end gap-1">
+                                            {canEdit && (
+                                                <button
+                                                    onClick={() => setEditing({ kind: entry.kind as RaidKind, item: entry.item! })}
+                                                    className="p-1.5 text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-700 rounded"
+                                                    title="编辑"
+                                                >
+                                                    <Edit2 size={14} />
+                                                </button>
+                                            )}
+                                            {canEdit && entry.open && (!entry.escalated || entry.acknowledged) && (
+                                                <button
+                                                    onClick={() => handleEscalate(entry)}
+                                                    className="p-1.5 text-orange-600 hover:bg-orange-50 dark:hover:bg-orange-900/30 rounded"
+                                                    title="升级至 PMO"
+                                                >
+                                                    <ArrowUpCircle size={14} />
+                                                </button>
+                                            )}
+                                            {canHandleEscalation && entry.escalated && !entry.acknowledged && (
+                                                <button
+                                                    onClick={() => handleAcknowledge(entry)}
+                                                    className="p-1.5 text-green-600 hover:bg-green-50 dark:hover:bg-green-900/30 rounded"
+                                                    title="PMO 受理"
+                                                >
+                                                    <CheckCircle2 size={14} />
+                                                </button>
+                                            )}
+                                            {canDelete && (
+                                                <button
+                                                    onClick={() => handleDelete(entry)}
+                                                    className="p-1.5 text-red-600 hover:bg-red-50 dark:hover:bg-red-900/30 rounded"
+                                                    title="删除"
+                                                >
+                                                    <Trash2 size={14} />
+                                                </button>
+                                            )}
+                                        </div>
+                                    )}
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+
+            {editing && (
+                <RaidItemFormModal
+                    isOpen
+                    kind={editing.kind}
+                    project={project}
+                    changeRequests={changeRequests}
+                    existingItem={editing.item}
+                    currentUser={{ id: user?.id || 'system', name: user?.name || '系统' }}
+                    onClose={() => setEditing(null)}
+                    onSave={handleSave}
+                />
+            )}
+        </div>
+    );
+};
+
+export default RaidLog;
@@ -1,5 +1,6 @@
 import React, { useState, useMemo } from 'react';
 import { useStore } from '../store/useStore';
+import { hasPermission } from '../utils/permissions';
 import type { ResourcePoolItem, TeamMember } from '../types';
 import { Plus, LayoutGrid, Calendar, BarChart2, Activity, AlertTriangle, DollarSign, Target, Gauge, Brain } from 'lucide-react';
 import { generateTimeBuckets, calculateResourceLoad } from '../utils/resourcePlanning';
@@ -36,7 +37,7 @@ import ResourceRiskPredictor from '../components/ResourceRiskPredictor';
 type ViewMode = 'dashboard' | 'pool' | 'capacity' | 'gantt' | 'analysis' | 'conflicts' | 'costs' | 'skills' | 'predictor';
 
 const Resources: React.FC = () => {
-    const { resourcePool, projects, addResource, updateResource, deleteResource, reorderResources, user } = useStore();
+    const { resourcePool, projects, addResource, updateResource, deleteResource, reorderResources, user, workingCalendars, calendarExceptions } = useStore();
     const { t } = useTranslation();
     const [viewMode, setViewMode] = useState<ViewMode>('dashboard');
     const [isModalOpen, setIsModalOpen] = useState(false);
@@ -55,7 +56,10 @@ const Resources: React.FC = () => {
 
     // Capacity Planning Data
     const buckets = useMemo(() => generateTimeBuckets(projects, 12), [projects]);
-    const resourceLoads = useMemo(() => calculateResourceLoad(projects, resourcePool, buckets), [projects, resourcePool, buckets]);
+    const resourceLoads = useMemo(
+        () => calculateResourceLoad(projects, resourcePool, buckets, 'month', { calendars: workingCalendars, exceptions: calendarExceptions }),
+        [projects, resourcePool, buckets, workingCalendars, calendarExceptions]
+    );
 
     // Calculate utilization for each resource (current month)
     const resourceUtilization = useMemo(() => {
@@ -107,6 +111,7 @@ const Resources: React.FC = () => {
                 id: `res-${Date.now()}`,
                 name: formData.name,
                 totalQuantity: formData.totalQuantity,
+                calendarId: formData.calendarId,
                 members: [] // Initialize with empty members
             });
             setIsModalOpen(false);
@@ -118,6 +123,12 @@ const Resources: React.FC = () => {
         setSelectedResource(resource);
     };
 
+    const handleTeamCalendarChange = (calendarId: string | undefined) => {
+        if (!selectedResource) return;
+        updateResource(selectedResource.id, { calendarId });
+        setSelectedResource(useStore.getState().resourcePool.find(r => r.id === selectedResource.id) || selectedResource);
+    };
+
     const handleSaveMember = (memberData: Partial<TeamMember>) => {
         if (!selectedResource) return;
 
@@ -214,7 +225,7 @@ const Resources: React.FC = () => {
                     <h1 className="text-3xl font-bold text-slate-900">{t('resources.title')}</h1>
                     <p className="text-slate-500 mt-1">{t('resources.subtitle')}</p>
                 </div>
-                {user?.role !== 'user' && (
+                {hasPermission(user, 'resource:manage') && (
                     <button
                         onClick={() => setIsModalOpen(true)}
                         className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-xl flex items-center gap-2 transition-colors shadow-lg shadow-blue-600/20"
@@ -447,6 +458,19 @@ const Resources: React.FC = () => {
                                     onChange={e => setFormData({ ...formData, totalQuantity: parseInt(e.target.value) })}
                                 />
                             </div>
+                            <div>
+                                <label className="block text-sm font-medium text-slate-700 mb-1">工作日历</label>
+                                <select
+                                    className="w-full p-3 rounded-xl border border-slate-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                    value={formData.calendarId || ''}
+                                    onChange={e => setFormData({ ...formData, calendarId: e.target.value || undefined })}
+                                >
+                                    <option value="">默认（公司日历）</option>
+                                    {workingCalendars.map(calendar => (
+                                        <option key={calendar.id} value={calendar.id}>{calendar.name}</option>
+                                    ))}
+                                </select>
+                            </div>
                             <div className="flex justify-end gap-4 pt-4">
                                 <button
                                     type="button"
@@ -475,6 +499,19 @@ const Resources: React.FC = () => {
                                 <h2 className="text-xl font-bold text-slate-900">{selectedResource.name} - {t('resources.members')}</h2>
                                 <p className="text-sm text-slate-500">Manage team members and their details</p>
                             </div>
+                            <div className="flex items-center gap-2 ml-auto mr-4">
+                                <label className="text-sm text-slate-500">团队日历</label>
+                                <select
+                                    className="p-2 rounded-lg border border-slate-200 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                    value={selectedResource.calendarId || ''}
+                                    onChange={e => handleTeamCalendarChange(e.target.value || undefined)}
+                                >
+                                    <option value="">默认（公司日历）</option>
+                                    {workingCalendars.map(calendar => (
+                                        <option key={calendar.id} value={calendar.id}>{calendar.name}</option>
+                                    ))}
+                                </select>
+                            </div>
                             <button onClick={() => setSelectedResource(null)} className="p-2 hover:bg-slate-100 rounded-lg">
                                 <LayoutGrid size={24} className="text-slate-500" />
                             </button>
@@ -13,6 +13,7 @@ import {
     ChevronUp,
     Filter,
     Download,
+    ClipboardList,
 } from 'lucide-react';
 import { useStore } from '../store/useStore';
 import type { Risk, RiskCategory, RiskStatus } from '../types';
@@ -28,19 +29,20 @@ import { exportRisksToCSV, exportRisksToExcel, printRiskReport } from '../utils/
 import RiskMatrix from '../components/RiskMatrix';
 import RiskFormModal from '../components/RiskFormModal';
 import RiskTrendChart from '../components/RiskTrendChart';
+import RiskReservePanel from '../components/RiskReservePanel';
 import RiskTemplateSelector from '../components/RiskTemplateSelector';
 import AIRiskSuggestionPanel from '../components/AIRiskSuggestionPanel';
 import RiskHeatmap from '../components/RiskHeatmap';
 import CrossProjectRiskAnalysis from '../components/CrossProjectRiskAnalysis';
 import type { RiskTemplate } from '../utils/riskTemplates';
-import { createRiskFromTemplate, RISK_TEMPLATES } from '../utils/riskTemplates';
+import { createRiskFromTemplate } from '../utils/riskTemplates';
 import { createRisk as createRiskUtil } from '../utils/riskManagement';
 import { PageContainer, PageHeader, StatCard, Card, Button, Badge } from '../components/ui';
 
 const RiskManagement: React.FC = () => {
     const { projectId } = useParams<{ projectId: string }>();
     const navigate = useNavigate();
-    const { projects, updateProject, user } = useStore();
+    const { projects, updateProject, user, lessonsLearned } = useStore();
 
     const project = projects.find((p) => p.id === projectId);
     const [selectedRisk, setSelectedRisk] = useState<Risk | null>(null);
@@ -153,13 +155,6 @@ const RiskManagement: React.FC = () => {
         handleAddRisk(completeRisk);
     };
 
-    const handleAcceptAISuggestion = (templateId: string) => {
-        const template = RISK_TEMPLATES.find((t) => t.id === templateId);
-        if (template) {
-            handleSelectTemplate(template);
-        }
-    };
-
     return (
         <div className="min-h-screen bg-slate-50 dark:bg-slate-900 p-6">
             {/* Header */}
@@ -202,6 +197,14 @@ const RiskManagement: React.FC = () => {
                             </div>
                         </div>
 
+                        <button
+                            onClick={() => navigate(`/projects/${project.id}/raid`)}
+                            className="flex items-center gap-2 px-4 py-2 bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-200 rounded-lg hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors"
+                        >
+                            <ClipboardList size={18} />
+                            <span>RAID 日志</span>
+                        </button>
+
                         <button
                             onClick={() => setIsTemplateModalOpen(true)}
                             className="flex items-center gap-2 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors"
@@ -294,13 +297,21 @@ const RiskManagement: React.FC = () => {
                 </div>
             )}
 
+            {/* Quantitative Risk Reserve */}
+            {risks.length > 0 && (
+                <div className="mb-6">
+                    <RiskReservePanel project={project} />
+                </div>
+            )}
+
             {/* AI Risk Suggestions */}
             <div className="mb-6">
                 <AIRiskSuggestionPanel
                     project={project}
                     allProjects={projects}
                     existingRisks={risks}
-                    onAcceptSuggestion={handleAcceptAISuggestion}
+                    lessons={lessonsLearned}
+                    onAcceptSuggestion={handleSelectTemplate}
                 />
             </div>
 
@@ -529,6 +540,7 @@ const RiskManagement: React.FC = () => {
                 projectId={project.id}
                 existingRisk={selectedRisk}
                 currentUserId={user?.id || 'system'}
+                tasks={project.tasks || []}
             />
 
             {/* Risk Template Selector */}
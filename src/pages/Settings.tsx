@@ -1,9 +1,11 @@
 import React, { useState } from 'react';
 import { useStore } from '../store/useStore';
-import { Plus, Trash2, Download, Upload, AlertTriangle, Database, Shield, Cloud, RefreshCw, CheckCircle, Link as LinkIcon } from 'lucide-react';
+import { Plus, Trash2, Download, Upload, AlertTriangle, Database, Shield, Cloud } from 'lucide-react';
 import { format } from 'date-fns';
 import { useTranslation } from 'react-i18next';
-import { syncFeishuData, type FeishuConfig } from '../services/feishuService';
+import FeishuIntegrationPanel from '../components/FeishuIntegrationPanel';
+import FactorWeightingPanel from '../components/FactorWeightingPanel';
+import WorkingCalendarPanel from '../components/WorkingCalendarPanel';
 
 const Settings: React.FC = () => {
     const {
@@ -13,19 +15,12 @@ const Settings: React.FC = () => {
         deleteFactor,
         recalculateScores,
         projects,
-        resourcePool,
-        addProject,
-        addResource
+        resourcePool
     } = useStore();
     const { t } = useTranslation();
     const [newFactorName, setNewFactorName] = useState('');
     const [showClearConfirm, setShowClearConfirm] = useState(false);
 
-    // Feishu Integration State
-    const [feishuConfig, setFeishuConfig] = useState<FeishuConfig>({ appId: '', appSecret: '' });
-    const [isSyncing, setIsSyncing] = useState(false);
-    const [lastSyncTime, setLastSyncTime] = useState<string | null>(null);
-
     const totalWeight = factorDefinitions.reduce((acc, f) => acc + f.weight, 0);
 
     const handleAddFactor = () => {
@@ -35,45 +30,6 @@ const Settings: React.FC = () => {
         }
     };
 
-    // Feishu Sync Handler
-    const handleFeishuSync = async () => {
-        if (!feishuConfig.appId) {
-            alert('Please enter App ID');
-            return;
-        }
-        setIsSyncing(true);
-        try {
-            const result = await syncFeishuData(feishuConfig);
-            if (result.success) {
-                // @ts-ignore - data is attached in service even if interface doesn't strictly say so for now
-                if (result.data) {
-                    // @ts-ignore
-                    result.data.projects.forEach(p => {
-                        // Simple check to avoid duplicates if ID exists
-                        if (!projects.find(existing => existing.id === p.id)) {
-                            addProject(p);
-                        }
-                    });
-                    // @ts-ignore
-                    result.data.resources.forEach(r => {
-                        if (!resourcePool.find(existing => existing.id === r.id)) {
-                            addResource(r);
-                        }
-                    });
-                }
-                setLastSyncTime(new Date().toLocaleString());
-                alert(`Sync Complete!\nProjects: ${result.projectsSynced}\nResources: ${result.resourcesSynced}`);
-            } else {
-                alert(`Sync Failed:\n${result.errors.join('\n')}`);
-            }
-        } catch (e) {
-            console.error(e);
-            alert('An unexpected error occurred during sync.');
-        } finally {
-            setIsSyncing(false);
-        }
-    };
-
     // Backup Data
     const handleBackup = () => {
         const data = localStorage.getItem('visorq-storage');
@@ -165,64 +121,7 @@ const Settings: React.FC = () => {
                     <p className="text-slate-500 dark:text-slate-400">Connect Visorq with external platforms to sync data.</p>
                 </div>
 
-                <div className="bg-slate-50 dark:bg-slate-700/30 p-6 rounded-xl border border-slate-200 dark:border-slate-600">
-                    <div className="flex items-start justify-between mb-6">
-                        <div className="flex items-center gap-4">
-                            <div className="w-12 h-12 bg-white dark:bg-slate-600 rounded-lg flex items-center justify-center shadow-sm">
-                                {/* Feishu Logo Placeholder or generic integration icon */}
-                                <LinkIcon className="text-blue-500" size={24} />
-                            </div>
-                            <div>
-                                <h3 className="font-bold text-slate-900 dark:text-slate-100 text-lg">Feishu / Lark Integration</h3>
-                                <p className="text-sm text-slate-500 dark:text-slate-400">Sync projects and resource availability from Feishu Base.</p>
-                            </div>
-                        </div>
-                        {lastSyncTime && (
-                            <span className="text-xs text-green-600 dark:text-green-400 font-medium bg-green-50 dark:bg-green-900/20 px-3 py-1 rounded-full border border-green-100 dark:border-green-900/30 flex items-center gap-1">
-                                <CheckCircle size={12} /> Last synced: {lastSyncTime}
-                            </span>
-                        )}
-                    </div>
-
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
-                        <div>
-                            <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-1">App ID</label>
-                            <input
-                                type="text"
-                                placeholder="cli_a1b2c3d4e5f6"
-                                value={feishuConfig.appId}
-                                onChange={(e) => setFeishuConfig({ ...feishuConfig, appId: e.target.value })}
-                                className="w-full p-2.5 rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100 focus:ring-2 focus:ring-purple-500 focus:outline-none"
-                            />
-                        </div>
-                        <div>
-                            <label className="block text-sm font-semibold text-slate-700 dark:text-slate-300 mb-1">App Secret</label>
-                            <input
-                                type="password"
-                                placeholder="••••••••••••••••"
-                                value={feishuConfig.appSecret}
-                                onChange={(e) => setFeishuConfig({ ...feishuConfig, appSecret: e.target.value })}
-                                className="w-full p-2.5 rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 text-slate-900 dark:text-slate-100 focus:ring-2 focus:ring-purple-500 focus:outline-none"
-                            />
-                        </div>
-                    </div>
-
-                    <div className="flex justify-end">
-                        <button
-                            onClick={handleFeishuSync}
-                            disabled={isSyncing || !feishuConfig.appId}
-                            className={`
-                                flex items-center gap-2 px-5 py-2.5 rounded-lg font-semibold text-white transition-all
-                                ${isSyncing
-                                    ? 'bg-purple-400 cursor-wait'
-                                    : !feishuConfig.appId ? 'bg-slate-300 dark:bg-slate-700 cursor-not-allowed' : 'bg-purple-600 hover:bg-purple-700 shadow-md hover:shadow-lg'}
-                            `}
-                        >
-                            <RefreshCw size={18} className={isSyncing ? 'animate-spin' : ''} />
-                            {isSyncing ? 'Syncing...' : 'Sync Data Now'}
-                        </button>
-                    </div>
-                </div>
+                <FeishuIntegrationPanel />
             </div>
 
             {/* Data Management */}
@@ -369,6 +268,12 @@ const Settings: React.FC = () => {
                     </button>
                 </div>
             </div>
+
+            {/* AHP Weighting, Sensitivity & Weight Versions */}
+            <FactorWeightingPanel />
+
+            {/* Working Calendars & Exceptions */}
+            <WorkingCalendarPanel />
         </div>
     );
 };
@@ -4,7 +4,7 @@
  */
 
 import React, { useState, useMemo } from 'react';
-import { useProjects, useResourcePool } from '../store/useStore';
+import { useProjects, useResourcePool, useWorkingCalendars, useCalendarExceptions } from '../store/useStore';
 import {
     LayoutDashboard,
     Table,
@@ -45,12 +45,14 @@ const UnifiedResourcesPage: React.FC = () => {
 
     const projects = useProjects();
     const resourcePool = useResourcePool();
+    const calendars = useWorkingCalendars();
+    const calendarExceptions = useCalendarExceptions();
 
     // Calculate resource data
     const buckets = useMemo(() => generateTimeBuckets(projects, 12), [projects]);
     const resourceLoads = useMemo(
-        () => calculateResourceLoad(projects, resourcePool, buckets),
-        [projects, resourcePool, buckets]
+        () => calculateResourceLoad(projects, resourcePool, buckets, 'month', { calendars, exceptions: calendarExceptions }),
+        [projects, resourcePool, buckets, calendars, calendarExceptions]
     );
 
     // Filter resource loads based on utilization
@@ -13,178 +13,304 @@ import {
     ArrowRight,
     Info
 } from 'lucide-react';
+import { format, addMonths, startOfMonth } from 'date-fns';
 import { usePMOStore } from '../store/usePMOStore';
 import { useStore } from '../store/useStore';
+import { hasPermission } from '../utils/permissions';
 import { Card, Button, Badge } from '../components/ui';
-interface SimulationItem {
+import type { Project, ProjectSimulation, ResourceRequirement, SimulationChange, SimulationImpactAnalysis } from '../types';
+import { runPortfolioSimulation } from '../utils/portfolioSimulation';
+interface DraftChange extends SimulationChange {
     id: string;
-    type: 'add_project' | 'delay_project' | 'resource_cut' | 'priority_shift';
-    targetId?: string;
-    targetName?: string;
-    value: string | number;
-    details?: string;
 }
 
-interface ProjectImpact {
-    projectId: string;
-    projectName: string;
-    impactType: 'none' | 'delay' | 'resource' | 'critical';
-    delayDays: number;
-    resourceConflict: boolean;
-    riskTrend: 'stable' | 'increasing' | 'decreasing';
-    newEndDate: string;
-}
+const CHANGE_TYPE_LABELS: Record<SimulationChange['changeType'], string> = {
+    extend_deadline: '项目延期 (天)',
+    add_project: '新项准入需求',
+    reallocate_resource: '资源调配 (人)',
+    adjust_priority: '优先级调整',
+    remove_project: '项目取消',
+};
 
-interface ResourceImpact {
-    resourceType: string;
-    originalUtilization: number;
-    newUtilization: number;
-    isOverloaded: boolean;
-}
+const PRIORITIES: Project['priority'][] = ['P0', 'P1', 'P2', 'P3'];
 
 const WhatIfSimulation: React.FC = () => {
-    const { createSimulation, getActiveSimulation } = usePMOStore();
-    const { projects, resourcePool, user } = useStore();
+    const { createSimulation, getActiveSimulation, simulations, setActiveSimulation, deleteSimulation } = usePMOStore();
+    const { projects, resourcePool, user, workingCalendars, calendarExceptions } = useStore();
+    const canManageSimulations = hasPermission(user, 'simulation:manage');
 
     const [simulationName, setSimulationName] = useState('');
     const [selectedScenario, setSelectedScenario] = useState<'resource_change' | 'priority_change' | 'new_project' | 'delay_simulation'>('delay_simulation');
     const [isRunning, setIsRunning] = useState(false);
+    const [compareIds, setCompareIds] = useState<string[]>([]);
 
     // 影响事项列表
-    const [impactItems, setImpactItems] = useState<SimulationItem[]>([
-        { id: '1', type: 'delay_project', value: 14, targetId: projects[0]?.id, targetName: projects[0]?.name }
+    const [impactItems, setImpactItems] = useState<DraftChange[]>([
+        {
+            id: '1',
+            changeType: 'extend_deadline',
+            targetEntityId: projects[0]?.id || '',
+            targetEntityName: projects[0]?.name || '',
+            changeDetails: { days: 14 }
+        }
     ]);
 
     const activeSimulation = getActiveSimulation();
 
-    // 模拟数据生成：计算对所有项目的影响
-    const generateProjectImpacts = (items: SimulationItem[]): ProjectImpact[] => {
-        return projects.map(p => {
-            // 简单的 mock 逻辑：如果有延期项目，其依赖或后续项目可能受影响
-            const isTarget = items.some(item => item.targetId === p.id);
-            const randomEffect = Math.random();
-
-            let impactType: ProjectImpact['impactType'] = 'none';
-            let delayDays = 0;
-            let resourceConflict = false;
-
-            if (isTarget) {
-                const targetItem = items.find(item => item.targetId === p.id);
-                impactType = 'delay';
-                delayDays = Number(targetItem?.value || 0);
-            } else if (randomEffect > 0.7) {
-                impactType = randomEffect > 0.9 ? 'critical' : 'resource';
-                delayDays = Math.floor(randomEffect * 10);
-                resourceConflict = randomEffect > 0.85;
-            }
-
-            const currentEndDate = new Date(p.endDate);
-            currentEndDate.setDate(currentEndDate.getDate() + delayDays);
-
-            return {
-                projectId: p.id,
-                projectName: p.name,
-                impactType,
-                delayDays,
-                resourceConflict,
-                riskTrend: delayDays > 5 ? 'increasing' : 'stable',
-                newEndDate: currentEndDate.toISOString().split('T')[0]
-            };
-        });
-    };
-
-    // 模拟数据生成：资源影响
-    const generateResourceImpacts = (items: SimulationItem[]): ResourceImpact[] => {
-        return resourcePool.map(res => {
-            const addedLoad = items.some(i => i.type === 'add_project') ? 15 : 0;
-            const cutLoad = items.filter(i => i.type === 'resource_cut').reduce((acc, current) => acc + Number(current.value), 0);
-
-            const originalLoad = 60 + Math.random() * 20;
-            const newLoad = Math.min(100, originalLoad + addedLoad + cutLoad);
-
-            return {
-                resourceType: res.name,
-                originalUtilization: Math.round(originalLoad),
-                newUtilization: Math.round(newLoad),
-                isOverloaded: newLoad > 90
-            };
-        });
-    };
-
     const calculateImpact = () => {
         if (!simulationName.trim()) return;
         setIsRunning(true);
 
+        // 使用 setTimeout 让 UI 有机会渲染 loading 状态
         setTimeout(() => {
-            const projectImpacts = generateProjectImpacts(impactItems);
-
-            const totalDelay = Math.max(...projectImpacts.map(i => i.delayDays));
-            const totalConflicts = projectImpacts.filter(i => i.resourceConflict).length;
-            const budgetImpact = impactItems.length * 50000 + (totalDelay * 2000);
+            const changes: SimulationChange[] = impactItems.map(({ id: _id, ...change }) => change);
+            const impactAnalysis = runPortfolioSimulation(
+                projects,
+                resourcePool,
+                changes,
+                { calendars: workingCalendars, exceptions: calendarExceptions }
+            );
 
             createSimulation({
                 name: simulationName,
                 description: `包含 ${impactItems.length} 项变更事项`,
                 scenarioType: selectedScenario,
-                changes: impactItems.map(i => ({
-                    changeType: i.type as any,
-                    targetEntityId: i.targetId || '',
-                    targetEntityName: i.targetName || 'New Entity',
-                    changeDetails: { value: i.value }
-                })),
-                impactAnalysis: {
-                    affectedProjects: projectImpacts.filter(i => i.impactType !== 'none').map(i => i.projectId),
-                    totalDelayDays: totalDelay,
-                    resourceConflicts: totalConflicts,
-                    budgetImpact,
-                },
-                createdBy: 'current-user',
-                createdByName: '管理员',
+                changes,
+                impactAnalysis,
+                createdBy: user?.id || 'current-user',
+                createdByName: user?.name || user?.username || '管理员',
                 isActive: true,
             });
 
-            // 将详细的影响分析结果存储在本地（或扩展状态）
-            // 这里为了演示，我们直接在渲染时根据当前激活的模拟渲染
             setIsRunning(false);
-        }, 1500);
+        }, 300);
+    };
+
+    const createDefaultChange = (changeType: SimulationChange['changeType']): Omit<DraftChange, 'id'> => {
+        switch (changeType) {
+            case 'add_project':
+                return {
+                    changeType,
+                    targetEntityId: '',
+                    targetEntityName: '新项目',
+                    changeDetails: {
+                        startDate: format(startOfMonth(addMonths(new Date(), 1)), 'yyyy-MM-dd'),
+                        durationMonths: 6,
+                        budget: 0,
+                        priority: 'P2',
+                        resourceRequirements: resourcePool[0]
+                            ? [{ resourceId: resourcePool[0].id, count: 1, duration: 6, unit: 'month' }]
+                            : []
+                    }
+                };
+            case 'reallocate_resource':
+                return {
+                    changeType,
+                    targetEntityId: resourcePool[0]?.id || '',
+                    targetEntityName: resourcePool[0]?.name || '',
+                    changeDetails: { count: -1 }
+                };
+            case 'adjust_priority':
+                return {
+                    changeType,
+                    targetEntityId: projects[0]?.id || '',
+                    targetEntityName: projects[0]?.name || '',
+                    changeDetails: { priority: 'P0' }
+                };
+            case 'remove_project':
+                return {
+                    changeType,
+                    targetEntityId: projects[0]?.id || '',
+                    targetEntityName: projects[0]?.name || '',
+                    changeDetails: {}
+                };
+            default:
+                return {
+                    changeType: 'extend_deadline',
+                    targetEntityId: projects[0]?.id || '',
+                    targetEntityName: projects[0]?.name || '',
+                    changeDetails: { days: 0 }
+                };
+        }
     };
 
     const addImpactItem = () => {
-        const newItem: SimulationItem = {
-            id: Date.now().toString(),
-            type: 'delay_project',
-            value: 0,
-            targetId: projects[0]?.id,
-            targetName: projects[0]?.name
-        };
-        setImpactItems([...impactItems, newItem]);
+        setImpactItems([...impactItems, { id: Date.now().toString(), ...createDefaultChange('extend_deadline') }]);
     };
 
     const removeImpactItem = (id: string) => {
         setImpactItems(impactItems.filter(i => i.id !== id));
     };
 
-    const updateImpactItem = (id: string, updates: Partial<SimulationItem>) => {
+    const updateImpactItem = (id: string, updates: Partial<DraftChange>) => {
         setImpactItems(impactItems.map(i => {
-            if (i.id === id) {
-                const updated = { ...i, ...updates };
-                if (updates.targetId) {
-                    updated.targetName = projects.find(p => p.id === updates.targetId)?.name;
-                }
-                return updated;
+            if (i.id !== id) return i;
+            if (updates.changeType && updates.changeType !== i.changeType) {
+                return { id, ...createDefaultChange(updates.changeType) };
             }
-            return i;
+            const updated = { ...i, ...updates };
+            if (updates.targetEntityId !== undefined && i.changeType !== 'add_project') {
+                const entities = i.changeType === 'reallocate_resource' ? resourcePool : projects;
+                updated.targetEntityName = entities.find(e => e.id === updates.targetEntityId)?.name || '';
+            }
+            return updated;
         }));
     };
 
-    // 获取当前结果的详细报告（派生数据）
+    const updateChangeDetails = (id: string, details: Record<string, any>) => {
+        setImpactItems(impactItems.map(i => (
+            i.id === id ? { ...i, changeDetails: { ...i.changeDetails, ...details } } : i
+        )));
+    };
+
+    const toggleCompare = (id: string) => {
+        setCompareIds(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]);
+    };
+
+    // 当前方案的详细报告，直接读取推演时保存的结果
     const detailedReport = useMemo(() => {
-        if (!activeSimulation) return null;
-        return {
-            projects: generateProjectImpacts(impactItems), // 在真实环境应从后端/Store获取
-            resources: generateResourceImpacts(impactItems)
-        };
-    }, [activeSimulation, impactItems]);
+        const analysis = activeSimulation?.impactAnalysis;
+        if (!analysis) return null;
+        const projectImpacts = [...(analysis.projectImpacts || [])].sort((a, b) => b.delayDays - a.delayDays);
+        const resources = analysis.resourceImpacts || [];
+        const bottleneck = [...resources]
+            .filter(r => r.isOverloaded)
+            .sort((a, b) => b.newPeakUtilization - a.newPeakUtilization)[0];
+        return { projects: projectImpacts, resources, bottleneck };
+    }, [activeSimulation]);
+
+    const comparedSimulations = simulations.filter(sim => compareIds.includes(sim.id) && sim.impactAnalysis);
+
+    const projectNameOf = (id: string) => projects.find(p => p.id === id)?.name || id;
+
+    const inputClass = 'bg-slate-100 dark:bg-slate-800/50 border-none rounded px-2 py-1 text-sm';
+
+    const renderTargetSelect = (item: DraftChange) => {
+        if (item.changeType === 'add_project') {
+            return (
+                <input
+                    type="text"
+                    value={item.targetEntityName}
+                    onChange={(e) => updateImpactItem(item.id, { targetEntityName: e.target.value })}
+                    className={`w-full ${inputClass} font-medium`}
+                    placeholder="新项目名称"
+                />
+            );
+        }
+        const entities = item.changeType === 'reallocate_resource' ? resourcePool : projects;
+        return (
+            <select
+                value={item.targetEntityId}
+                onChange={(e) => updateImpactItem(item.id, { targetEntityId: e.target.value })}
+                className="w-full bg-transparent border-none focus:ring-0 p-0 text-sm font-medium text-slate-600 dark:text-slate-400"
+            >
+                <option value="">{item.changeType === 'reallocate_resource' ? '选择资源...' : '选择项目...'}</option>
+                {entities.map(e => <option key={e.id} value={e.id}>{e.name}</option>)}
+            </select>
+        );
+    };
+
+    const renderDetailInputs = (item: DraftChange) => {
+        const details = item.changeDetails;
+        switch (item.changeType) {
+            case 'extend_deadline':
+                return (
+                    <input
+                        type="number"
+                        value={details.days ?? 0}
+                        onChange={(e) => updateChangeDetails(item.id, { days: Number(e.target.value) })}
+                        className={`w-20 ${inputClass} font-bold text-center`}
+                    />
+                );
+            case 'adjust_priority':
+                return (
+                    <select
+                        value={details.priority}
+                        onChange={(e) => updateChangeDetails(item.id, { priority: e.target.value })}
+                        className={inputClass}
+                    >
+                        {PRIORITIES.map(p => <option key={p} value={p}>{p}</option>)}
+                    </select>
+                );
+            case 'reallocate_resource':
+                return (
+                    <div className="flex flex-wrap items-center gap-2">
+                        <input
+                            type="number"
+                            value={details.count ?? 0}
+                            onChange={(e) => updateChangeDetails(item.id, { count: Number(e.target.value) })}
+                            className={`w-16 ${inputClass} font-bold text-center`}
+                            title="人数（负数表示削减资源池容量）"
+                        />
+                        <select
+                            value={details.fromProjectId || ''}
+                            onChange={(e) => updateChangeDetails(item.id, { fromProjectId: e.target.value || undefined })}
+                            className={inputClass}
+                        >
+                            <option value="">从资源池</option>
+                            {projects.map(p => <option key={p.id} value={p.id}>从 {p.name}</option>)}
+                        </select>
+                        <select
+                            value={details.toProjectId || ''}
+                            onChange={(e) => updateChangeDetails(item.id, { toProjectId: e.target.value || undefined })}
+                            className={inputClass}
+                        >
+                            <option value="">到资源池</option>
+                            {projects.map(p => <option key={p.id} value={p.id}>到 {p.name}</option>)}
+                        </select>
+                    </div>
+                );
+            case 'add_project': {
+                const requirement = details.resourceRequirements?.[0];
+                const updateRequirement = (updates: Record<string, any>) => updateChangeDetails(item.id, {
+                    resourceRequirements: [{ ...requirement, duration: details.durationMonths, unit: 'month', ...updates }]
+                });
+                return (
+                    <div className="flex flex-wrap items-center gap-2">
+                        <input
+                            type="date"
+                            value={details.startDate}
+                            onChange={(e) => updateChangeDetails(item.id, { startDate: e.target.value })}
+                            className={inputClass}
+                        />
+                        <input
+                            type="number"
+                            value={details.durationMonths}
+                            onChange={(e) => updateChangeDetails(item.id, {
+                                durationMonths: Number(e.target.value),
+                                resourceRequirements: (details.resourceRequirements || []).map((r: ResourceRequirement) => ({ ...r, duration: Number(e.target.value) }))
+                            })}
+                            className={`w-16 ${inputClass} text-center`}
+                            title="工期（月）"
+                        />
+                        <input
+                            type="number"
+                            value={details.budget}
+                            onChange={(e) => updateChangeDetails(item.id, { budget: Number(e.target.value) })}
+                            className={`w-28 ${inputClass}`}
+                            title="预算"
+                        />
+                        <select
+                            value={requirement?.resourceId || ''}
+                            onChange={(e) => updateRequirement({ resourceId: e.target.value })}
+                            className={inputClass}
+                        >
+                            {resourcePool.map(r => <option key={r.id} value={r.id}>{r.name}</option>)}
+                        </select>
+                        <input
+                            type="number"
+                            value={requirement?.count ?? 0}
+                            onChange={(e) => updateRequirement({ count: Number(e.target.value) })}
+                            className={`w-16 ${inputClass} text-center`}
+                            title="需求人数"
+                        />
+                    </div>
+                );
+            }
+            default:
+                return <span className="text-xs text-slate-400">-</span>;
+        }
+    };
 
     return (
         <div className="min-h-screen bg-slate-50 dark:bg-slate-900 p-6">
@@ -199,7 +325,7 @@ const WhatIfSimulation: React.FC = () => {
                         </p>
                     </div>
                     <div className="flex gap-3">
-                        {user?.role === 'admin' && (
+                        {canManageSimulations && (
                             <Button
                                 onClick={() => { setSimulationName(''); setImpactItems([]); }}
                                 variant="secondary"
@@ -290,7 +416,7 @@ const WhatIfSimulation: React.FC = () => {
                                         <div className="w-1 h-5 bg-purple-600 rounded-full" />
                                         2. 变更影响事项录入
                                     </h3>
-                                    {user?.role === 'admin' && (
+                                    {canManageSimulations && (
                                         <Button onClick={addImpactItem} variant="secondary" size="sm" className="rounded-full gap-2">
                                             <PlusCircle size={14} /> 添加事项
                                         </Button>
@@ -312,33 +438,20 @@ const WhatIfSimulation: React.FC = () => {
                                                 <tr key={item.id} className="hover:bg-slate-50/50 dark:hover:bg-slate-800/30 transition-colors">
                                                     <td className="px-6 py-4">
                                                         <select
-                                                            value={item.type}
-                                                            onChange={(e) => updateImpactItem(item.id, { type: e.target.value as any })}
+                                                            value={item.changeType}
+                                                            onChange={(e) => updateImpactItem(item.id, { changeType: e.target.value as SimulationChange['changeType'] })}
                                                             className="w-full bg-transparent border-none focus:ring-0 p-0 text-sm font-medium text-slate-900 dark:text-slate-100"
                                                         >
-                                                            <option value="delay_project">项目延期 (天)</option>
-                                                            <option value="add_project">新项准入需求</option>
-                                                            <option value="resource_cut">资源削减 (%)</option>
-                                                            <option value="priority_shift">优先级异动</option>
+                                                            {Object.entries(CHANGE_TYPE_LABELS).map(([value, label]) => (
+                                                                <option key={value} value={value}>{label}</option>
+                                                            ))}
                                                         </select>
                                                     </td>
                                                     <td className="px-6 py-4">
-                                                        <select
-                                                            value={item.targetId || ''}
-                                                            onChange={(e) => updateImpactItem(item.id, { targetId: e.target.value })}
-                                                            className="w-full bg-transparent border-none focus:ring-0 p-0 text-sm font-medium text-slate-600 dark:text-slate-400"
-                                                        >
-                                                            <option value="">选择项目或资源...</option>
-                                                            {projects.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
-                                                        </select>
+                                                        {renderTargetSelect(item)}
                                                     </td>
                                                     <td className="px-6 py-4">
-                                                        <input
-                                                            type="number"
-                                                            value={item.value}
-                                                            onChange={(e) => updateImpactItem(item.id, { value: e.target.value })}
-                                                            className="w-20 bg-slate-100 dark:bg-slate-800/50 border-none rounded px-2 py-1 text-sm font-bold text-center"
-                                                        />
+                                                        {renderDetailInputs(item)}
                                                     </td>
                                                     <td className="px-6 py-4 text-right">
                                                         <button
@@ -368,10 +481,10 @@ const WhatIfSimulation: React.FC = () => {
                             <div className="animate-in fade-in slide-in-from-bottom-4 duration-500 space-y-8 mt-12">
                                 <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
                                     {[
-                                        { label: '交付延期波动', value: activeSimulation.impactAnalysis?.totalDelayDays, unit: '天', icon: <Calendar />, color: 'red' },
-                                        { label: '新增资源冲突', value: activeSimulation.impactAnalysis?.resourceConflicts, unit: '个', icon: <Users />, color: 'orange' },
-                                        { label: '预估预算超支', value: activeSimulation.impactAnalysis?.budgetImpact, unit: 'CNY', icon: <TrendingUp />, color: 'blue' },
-                                        { label: '模拟置信度', value: '88', unit: '%', icon: <CheckCircle2 />, color: 'green' },
+                                        { label: '最大交付延期', value: activeSimulation.impactAnalysis?.maxDelayDays ?? activeSimulation.impactAnalysis?.totalDelayDays, unit: '天', icon: <Calendar />, color: 'red' },
+                                        { label: '新增资源超载', value: activeSimulation.impactAnalysis?.resourceConflicts, unit: '资源·月', icon: <Users />, color: 'orange' },
+                                        { label: '预算变化', value: activeSimulation.impactAnalysis?.budgetImpact, unit: 'CNY', icon: <TrendingUp />, color: 'blue' },
+                                        { label: '受影响项目', value: activeSimulation.impactAnalysis?.affectedProjects.length, unit: '个', icon: <CheckCircle2 />, color: 'green' },
                                     ].map((metric, idx) => (
                                         <div key={idx} className={`p-5 rounded-2xl border bg-${metric.color}-50/30 border-${metric.color}-100 dark:border-${metric.color}-900/30`}>
                                             <div className="flex items-center gap-3 mb-3 text-slate-500 dark:text-slate-400">
@@ -380,7 +493,7 @@ const WhatIfSimulation: React.FC = () => {
                                             </div>
                                             <div className="flex items-baseline gap-2">
                                                 <span className={`text-3xl font-black text-${metric.color}-600`}>
-                                                    {typeof metric.value === 'number' ? metric.value.toLocaleString() : metric.value}
+                                                    {typeof metric.value === 'number' ? metric.value.toLocaleString() : '-'}
                                                 </span>
                                                 <span className="text-xs font-bold text-slate-400">{metric.unit}</span>
                                             </div>
@@ -393,17 +506,17 @@ const WhatIfSimulation: React.FC = () => {
                                     <Card className="lg:col-span-5 p-6 shadow-sm border-slate-200">
                                         <h3 className="text-lg font-bold text-slate-900 dark:text-slate-100 mb-6 flex items-center gap-2">
                                             <BarChart2 size={20} className="text-blue-600" />
-                                            全局资源占用变化
+                                            全局资源峰值占用变化
                                         </h3>
                                         <div className="space-y-6">
-                                            {detailedReport.resources.map((res, idx) => (
-                                                <div key={idx} className="space-y-2">
+                                            {detailedReport.resources.map((res) => (
+                                                <div key={res.resourceId} className="space-y-2">
                                                     <div className="flex justify-between text-sm items-center">
-                                                        <span className="font-bold text-slate-700 dark:text-slate-300">{res.resourceType}</span>
+                                                        <span className="font-bold text-slate-700 dark:text-slate-300">{res.resourceName}</span>
                                                         <div className="flex items-center gap-2">
-                                                            <span className="text-xs text-slate-400">{res.originalUtilization}% →</span>
+                                                            <span className="text-xs text-slate-400">{res.originalPeakUtilization}% →</span>
                                                             <span className={`font-black ${res.isOverloaded ? 'text-red-600' : 'text-slate-900 dark:text-slate-100'}`}>
-                                                                {res.newUtilization}%
+                                                                {res.newPeakUtilization}%
                                                             </span>
                                                             {res.isOverloaded && <CircleAlert size={14} className="text-red-500 animate-pulse" />}
                                                         </div>
@@ -411,19 +524,30 @@ const WhatIfSimulation: React.FC = () => {
                                                     <div className="h-3 w-full bg-slate-100 dark:bg-slate-800 rounded-full overflow-hidden relative">
                                                         <div
                                                             className="h-full bg-slate-300 dark:bg-slate-600 absolute transition-all duration-1000"
-                                                            style={{ width: `${res.originalUtilization}%` }}
+                                                            style={{ width: `${Math.min(100, res.originalPeakUtilization)}%` }}
                                                         />
                                                         <div
                                                             className={`h-full absolute transition-all duration-1000 ${res.isOverloaded ? 'bg-red-500 shadow-[0_0_8px_rgba(239,68,68,0.5)]' : 'bg-blue-500'}`}
-                                                            style={{ width: `${res.newUtilization}%`, opacity: 0.6 }}
+                                                            style={{ width: `${Math.min(100, res.newPeakUtilization)}%`, opacity: 0.6 }}
                                                         />
                                                     </div>
+                                                    {res.newOverloadMonths.length > 0 && (
+                                                        <div className="text-xs text-red-500">
+                                                            超载月份：{res.newOverloadMonths.join('、')}
+                                                        </div>
+                                                    )}
                                                 </div>
                                             ))}
                                         </div>
                                         <div className="mt-8 p-4 bg-slate-50 dark:bg-slate-800/50 rounded-xl border border-dashed border-slate-300 dark:border-slate-700">
                                             <p className="text-xs text-slate-500 leading-relaxed font-medium">
-                                                分析引擎提示：当前场景下资源瓶颈主要集中在 <span className="font-bold text-red-600">后端工程师</span> 开发周期内，建议考虑优先级对齐或外部人力补充。
+                                                {detailedReport.bottleneck ? (
+                                                    <>
+                                                        分析引擎提示：当前场景下资源瓶颈主要集中在 <span className="font-bold text-red-600">{detailedReport.bottleneck.resourceName}</span>（峰值 {detailedReport.bottleneck.newPeakUtilization}%，{detailedReport.bottleneck.newOverloadMonths.length} 个月超载），建议考虑优先级对齐或外部人力补充。
+                                                    </>
+                                                ) : (
+                                                    '分析引擎提示：当前场景下所有资源均在产能范围内。'
+                                                )}
                                             </p>
                                         </div>
                                     </Card>
@@ -441,29 +565,50 @@ const WhatIfSimulation: React.FC = () => {
                                                         <th className="px-4 py-3 font-bold text-slate-500">项目名称</th>
                                                         <th className="px-4 py-3 font-bold text-slate-500">模拟排期</th>
                                                         <th className="px-4 py-3 font-bold text-slate-500">差异</th>
+                                                        <th className="px-4 py-3 font-bold text-slate-500 text-right">预算变化</th>
                                                         <th className="px-4 py-3 font-bold text-slate-500 text-center">风险指标</th>
                                                     </tr>
                                                 </thead>
                                                 <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
-                                                    {detailedReport.projects.map((p, idx) => (
-                                                        <tr key={idx} className="hover:bg-slate-50/50 dark:hover:bg-slate-800/30 transition-colors">
-                                                            <td className="px-4 py-4 font-bold text-slate-900 dark:text-slate-100">{p.projectName}</td>
+                                                    {detailedReport.projects.map((p) => (
+                                                        <tr key={p.projectId} className="hover:bg-slate-50/50 dark:hover:bg-slate-800/30 transition-colors">
+                                                            <td className="px-4 py-4 font-bold text-slate-900 dark:text-slate-100">
+                                                                {p.projectName}
+                                                                {p.delaySourceIds.length > 0 && (
+                                                                    <div className="text-xs font-normal text-slate-400 mt-1">
+                                                                        受 {p.delaySourceIds.map(projectNameOf).join('、')} 传导
+                                                                    </div>
+                                                                )}
+                                                            </td>
                                                             <td className="px-4 py-4 text-slate-500">
                                                                 <div className="flex items-center gap-2 whitespace-nowrap">
                                                                     <ArrowRight size={12} />
-                                                                    {p.newEndDate}
+                                                                    {p.newEndDate || '-'}
                                                                 </div>
                                                             </td>
                                                             <td className="px-4 py-4">
-                                                                {p.delayDays > 0 ? (
+                                                                {p.impactType === 'added' ? (
+                                                                    <Badge variant="info" size="sm">新增</Badge>
+                                                                ) : p.impactType === 'removed' ? (
+                                                                    <Badge variant="neutral" size="sm">取消</Badge>
+                                                                ) : p.delayDays > 0 ? (
                                                                     <Badge variant="danger" size="sm">+{p.delayDays}d</Badge>
+                                                                ) : p.delayDays < 0 ? (
+                                                                    <Badge variant="success" size="sm">{p.delayDays}d</Badge>
                                                                 ) : (
                                                                     <Badge variant="success" size="sm">无变动</Badge>
                                                                 )}
                                                             </td>
+                                                            <td className={`px-4 py-4 text-right font-medium ${p.budgetDelta > 0 ? 'text-red-600' : p.budgetDelta < 0 ? 'text-green-600' : 'text-slate-400'}`}>
+                                                                {p.budgetDelta > 0 ? '+' : ''}{p.budgetDelta.toLocaleString()}
+                                                            </td>
                                                             <td className="px-4 py-4">
                                                                 <div className="flex justify-center gap-2">
-                                                                    {p.resourceConflict && <Badge variant="warning">资源告警</Badge>}
+                                                                    {p.resourceConflict && (
+                                                                        <span title={p.conflictMonths.join('、')}>
+                                                                            <Badge variant="warning">资源告警</Badge>
+                                                                        </span>
+                                                                    )}
                                                                     {p.impactType === 'critical' && <Badge variant="danger">关键路径受损</Badge>}
                                                                     {!p.resourceConflict && p.impactType !== 'critical' && <span className="text-green-500"><CheckCircle2 size={16} /></span>}
                                                                 </div>
@@ -477,6 +622,81 @@ const WhatIfSimulation: React.FC = () => {
                                 </div>
                             </div>
                         )}
+
+                        {/* 方案对比 */}
+                        {simulations.length > 0 && (
+                            <Card className="p-6 shadow-sm border-slate-200">
+                                <h3 className="text-lg font-bold text-slate-900 dark:text-slate-100 mb-6 flex items-center gap-2">
+                                    <div className="w-1 h-5 bg-green-600 rounded-full" />
+                                    3. 方案对比
+                                </h3>
+                                <div className="flex flex-wrap gap-3 mb-6">
+                                    {simulations.map(sim => (
+                                        <div
+                                            key={sim.id}
+                                            className={`flex items-center gap-2 px-3 py-2 rounded-xl border-2 text-sm ${sim.isActive ? 'border-blue-600 bg-blue-50 dark:bg-blue-900/20' : 'border-slate-100 dark:border-slate-800'}`}
+                                        >
+                                            <input
+                                                type="checkbox"
+                                                checked={compareIds.includes(sim.id)}
+                                                onChange={() => toggleCompare(sim.id)}
+                                                disabled={!sim.impactAnalysis}
+                                            />
+                                            <button
+                                                onClick={() => setActiveSimulation(sim.id)}
+                                                className="font-bold text-slate-700 dark:text-slate-300 hover:text-blue-600"
+                                            >
+                                                {sim.name}
+                                            </button>
+                                            {canManageSimulations && (
+                                                <button
+                                                    onClick={() => { deleteSimulation(sim.id); setCompareIds(prev => prev.filter(x => x !== sim.id)); }}
+                                                    className="p-1 text-red-400 hover:text-red-600"
+                                                >
+                                                    <Trash2 size={14} />
+                                                </button>
+                                            )}
+                                        </div>
+                                    ))}
+                                </div>
+                                {comparedSimulations.length > 0 ? (
+                                    <div className="overflow-auto border border-slate-100 dark:border-slate-800 rounded-xl">
+                                        <table className="w-full text-left text-sm">
+                                            <thead className="bg-slate-50 dark:bg-slate-800/80">
+                                                <tr>
+                                                    <th className="px-4 py-3 font-bold text-slate-500">指标</th>
+                                                    {comparedSimulations.map(sim => (
+                                                        <th key={sim.id} className="px-4 py-3 font-bold text-slate-700 dark:text-slate-300">{sim.name}</th>
+                                                    ))}
+                                                </tr>
+                                            </thead>
+                                            <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
+                                                {[
+                                                    { label: '变更事项', render: (_a: SimulationImpactAnalysis, sim: ProjectSimulation) => `${sim.changes.length} 项` },
+                                                    { label: '最大交付延期 (天)', render: (a: SimulationImpactAnalysis) => a.maxDelayDays ?? '-' },
+                                                    { label: '累计延期 (天)', render: (a: SimulationImpactAnalysis) => a.totalDelayDays },
+                                                    { label: '受影响项目', render: (a: SimulationImpactAnalysis) => a.affectedProjects.length },
+                                                    { label: '新增资源超载 (资源·月)', render: (a: SimulationImpactAnalysis) => a.resourceConflicts },
+                                                    { label: '超载资源', render: (a: SimulationImpactAnalysis) => (a.resourceImpacts || []).filter(r => r.isOverloaded).map(r => r.resourceName).join('、') || '-' },
+                                                    { label: '预算变化 (CNY)', render: (a: SimulationImpactAnalysis) => a.budgetImpact.toLocaleString() },
+                                                ].map(row => (
+                                                    <tr key={row.label}>
+                                                        <td className="px-4 py-3 font-bold text-slate-500">{row.label}</td>
+                                                        {comparedSimulations.map(sim => (
+                                                            <td key={sim.id} className="px-4 py-3 text-slate-900 dark:text-slate-100">
+                                                                {row.render(sim.impactAnalysis!, sim)}
+                                                            </td>
+                                                        ))}
+                                                    </tr>
+                                                ))}
+                                            </tbody>
+                                        </table>
+                                    </div>
+                                ) : (
+                                    <p className="text-sm text-slate-400 italic">勾选两个或以上方案进行并排对比</p>
+                                )}
+                            </Card>
+                        )}
                     </div>
                 </div>
             </div>
@@ -0,0 +1,38 @@
+import type { AuthProvider, LocalAccount } from './types';
+import { createLocalAuthProvider, DEMO_ACCOUNTS } from './localAuthProvider';
+import { createRestAuthProvider } from './restAuthProvider';
+
+export * from './types';
+export * from './session';
+export { createLocalAuthProvider, createRestAuthProvider, DEMO_ACCOUNTS };
+
+/**
+ * 根据环境变量选择认证方式
+ *
+ * VITE_AUTH_PROVIDER: rest（默认）| local
+ * VITE_STORAGE_API_URL: rest 模式下的服务地址
+ * VITE_AUTH_ACCOUNTS: local 模式下的账号目录（LocalAccount[] 的 JSON）
+ * VITE_AUTH_DEMO_ACCOUNTS: 设为 true 时 local 模式使用内置演示账号，仅用于本地开发与演示
+ */
+const createConfiguredProvider = (): AuthProvider => {
+    if (import.meta.env.VITE_AUTH_PROVIDER !== 'local') {
+        return createRestAuthProvider(import.meta.env.VITE_STORAGE_API_URL || 'http://localhost:4000/api');
+    }
+
+    const configured = import.meta.env.VITE_AUTH_ACCOUNTS;
+    if (configured) {
+        try {
+            return createLocalAuthProvider(JSON.parse(configured) as LocalAccount[]);
+        } catch (error) {
+            console.error('[auth] VITE_AUTH_ACCOUNTS is not valid JSON', error);
+        }
+    }
+    if (import.meta.env.VITE_AUTH_DEMO_ACCOUNTS === 'true') {
+        return createLocalAuthProvider(DEMO_ACCOUNTS);
+    }
+
+    console.error('[auth] VITE_AUTH_PROVIDER=local requires VITE_AUTH_ACCOUNTS (or VITE_AUTH_DEMO_ACCOUNTS=true for development)');
+    return createLocalAuthProvider([]);
+};
+
+export const authProvider = createConfiguredProvider();
@@ -0,0 +1,43 @@
+import type { User } from '../../types';
+import type { AuthProvider, LocalAccount } from './types';
+import { AuthError } from './types';
+
+// 演示账号（密码分别为 admin123 / pmo123 / manager123 / user123 / viewer123），仅在 VITE_AUTH_DEMO_ACCOUNTS=true 时启用
+export const DEMO_ACCOUNTS: LocalAccount[] = [
+    { username: 'admin', passwordHash: '240be518fabd2724ddb6f04eeb1da5967448d7e831c08c8fa822809f74c720a9', role: 'admin', name: 'Administrator' },
+    { username: 'pmo', passwordHash: '33777f2ca2e9cd102bd8ad146439d2814506acf23bf00927dc741008f72dcba2', role: 'pmo', name: 'PMO Specialist' },
+    { username: 'manager', passwordHash: '866485796cfa8d7c0cf7111640205b83076433547577511d81f8030ae99ecea5', role: 'manager', name: 'Project Manager' },
+    { username: 'user', passwordHash: 'e606e38b0d8c19b24cf0ee3808183162ea7cd63ff7912dbb22b5e803286b4446', role: 'user', name: 'Standard User' },
+    { username: 'viewer', passwordHash: '65375049b9e4d7cad6c9ba286fdeb9394b28135a3e84136404cfccfdcc438894', role: 'readonly', name: 'Viewer' }
+];
+
+const sha256 = async (text: string) => {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+    return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * 本地账号目录认证，适用于单机或演示部署；多人协作请使用 REST 认证
+ */
+export const createLocalAuthProvider = (accounts: LocalAccount[]): AuthProvider => ({
+    name: 'local',
+
+    login: async (username, password) => {
+        const account = accounts.find(a => a.username === username.trim());
+        if (!account || account.passwordHash !== await sha256(password)) {
+            throw new AuthError();
+        }
+
+        const user: User = {
+            id: `u-${account.username}`,
+            username: account.username,
+            role: account.role,
+            authRole: account.role,
+            memberId: account.memberId,
+            name: account.name || account.username,
+            email: account.email || `${account.username}@example.com`,
+            avatar: `https://ui-avatars.com/api/?name=${account.username}&background=random`
+        };
+        return user;
+    }
+});
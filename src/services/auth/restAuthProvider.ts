@@ -0,0 +1,33 @@
+import axios from 'axios';
+import type { User } from '../../types';
+import type { AuthProvider } from './types';
+import { AuthError } from './types';
+import { setSessionToken } from './session';
+
+/**
+ * REST 认证，对接 server/ 下的服务
+ *
+ * POST {baseUrl}/auth/login { username, password } -> { user, token, expiresAt }
+ *
+ * 令牌保存在本机会话中，REST 存储适配器以 Authorization: Bearer 携带
+ */
+export const createRestAuthProvider = (baseUrl: string, timeout = 10000): AuthProvider => {
+    const client = axios.create({ baseURL: baseUrl.replace(/\/$/, ''), timeout });
+
+    return {
+        name: 'rest',
+
+        login: async (username, password) => {
+            try {
+                const { data } = await client.post<{ user: User; token: string; expiresAt: string }>('/auth/login', { username, password });
+                setSessionToken(data.token, data.expiresAt);
+                return { ...data.user, authRole: data.user.role };
+            } catch (error) {
+                if (axios.isAxiosError(error) && error.response?.status === 401) {
+                    throw new AuthError();
+                }
+                throw error;
+            }
+        }
+    };
+};
@@ -0,0 +1,53 @@
+import type { User } from '../../types';
+
+/**
+ * 登录会话：当前用户与服务端签发的令牌只保存在本机，不进入共享的存储后端
+ */
+
+const SESSION_KEY = 'visorq-session';
+
+export interface AuthSession {
+    user: User | null;
+    token?: string;
+    expiresAt?: string;
+}
+
+export const loadSession = (): AuthSession => {
+    try {
+        const raw = localStorage.getItem(SESSION_KEY);
+        return raw ? JSON.parse(raw) as AuthSession : { user: null };
+    } catch {
+        return { user: null };
+    }
+};
+
+const saveSession = (session: AuthSession) => {
+    try {
+        localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+    } catch (error) {
+        console.warn('[auth] Failed to save session', error);
+    }
+};
+
+/**
+ * 保存服务端签发的令牌（REST 认证登录成功后调用）
+ */
+export const setSessionToken = (token: string, expiresAt?: string) => {
+    saveSession({ ...loadSession(), token, expiresAt });
+};
+
+/**
+ * 同步当前用户；用户退出时一并清除令牌
+ */
+export const setSessionUser = (user: User | null) => {
+    saveSession(user ? { ...loadSession(), user } : { user: null });
+};
+
+/**
+ * 当前有效的令牌，已过期时返回 undefined
+ */
+export const getSessionToken = (): string | undefined => {
+    const { token, expiresAt } = loadSession();
+    if (!token || (expiresAt && new Date(expiresAt).getTime() <= Date.now())) return undefined;
+    return token;
+};
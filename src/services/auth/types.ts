@@ -0,0 +1,33 @@
+import type { User, UserRole } from '../../types';
+
+/**
+ * 认证提供方：登录页只依赖此接口，具体实现由环境变量选择
+ */
+export interface AuthProvider {
+    readonly name: 'local' | 'rest';
+    /** 校验用户名密码，成功返回用户信息，失败抛出 AuthError */
+    login: (username: string, password: string) => Promise<User>;
+    logout?: () => Promise<void>;
+}
+
+/**
+ * 本地账号目录中的一条记录
+ */
+export interface LocalAccount {
+    username: string;
+    passwordHash: string; // SHA-256 十六进制
+    role: UserRole;
+    name?: string;
+    email?: string;
+    memberId?: string;
+}
+
+/**
+ * 认证失败（用户名或密码错误、账号被禁用等）
+ */
+export class AuthError extends Error {
+    constructor(message = 'Invalid username or password') {
+        super(message);
+        this.name = 'AuthError';
+    }
+}
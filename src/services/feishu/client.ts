@@ -0,0 +1,125 @@
+import axios from 'axios';
+
+/**
+ * 飞书开放平台 Bitable 客户端
+ *
+ * - 经存储服务（server/index.js）代理调用：App Secret 与 tenant_access_token 只在服务端，令牌失效时由服务端刷新重试
+ * - 记录读取自动翻页
+ * - 批量回写按 500 条分片
+ */
+
+export interface FeishuClientConfig {
+    baseUrl: string; // 存储服务的飞书代理地址，如 http://localhost:4000/api/feishu
+    getToken?: () => string | undefined; // 会话令牌（Authorization: Bearer）
+    timeout?: number;
+}
+
+export interface BitableRecord {
+    record_id: string;
+    fields: Record<string, unknown>;
+    last_modified_time?: number; // 毫秒时间戳（automatic_fields）
+    created_time?: number;
+}
+
+export interface ListRecordsOptions {
+    since?: number; // 只读取此时间之后修改的记录（毫秒）
+    modifiedTimeField?: string; // 表中“修改时间”字段名，配置后由服务端过滤
+    pageSize?: number;
+}
+
+interface FeishuResponse<T> {
+    code: number;
+    msg: string;
+    data?: T;
+}
+
+interface SearchRecordsData {
+    items?: BitableRecord[];
+    has_more: boolean;
+    page_token?: string;
+    total?: number;
+}
+
+export class FeishuApiError extends Error {
+    readonly code: number;
+
+    constructor(code: number, message: string) {
+        super(`Feishu API error ${code}: ${message}`);
+        this.name = 'FeishuApiError';
+        this.code = code;
+    }
+}
+
+const BATCH_LIMIT = 500;
+
+export const createFeishuClient = (config: FeishuClientConfig) => {
+    const http = axios.create({
+        baseURL: config.baseUrl.replace(/\/$/, ''),
+        timeout: config.timeout ?? 15000
+    });
+    http.interceptors.request.use((request) => {
+        const token = config.getToken?.();
+        if (token) request.headers.Authorization = `Bearer ${token}`;
+        return request;
+    });
+
+    const call = async <T>(method: 'GET' | 'POST', url: string, body?: unknown, params?: Record<string, unknown>): Promise<T> => {
+        const response = await http.request<FeishuResponse<T> & { error?: string }>({
+            method,
+            url,
+            data: body,
+            params,
+            validateStatus: () => true
+        });
+        const result = response.data;
+
+        if (!result || result.code !== 0) {
+            // 代理自身的错误（未登录、无权限、未配置凭证）以 { error } 返回
+            throw new FeishuApiError(result?.code ?? response.status, result?.msg ?? result?.error ?? response.statusText);
+        }
+        return result.data as T;
+    };
+
+    const tablePath = (appToken: string, tableId: string) =>
+        `/open-apis/bitable/v1/apps/${encodeURIComponent(appToken)}/tables/${encodeURIComponent(tableId)}/records`;
+
+    /**
+     * 读取记录（自动翻页）；按修改时间增量读取
+     */
+    const listRecords = async (appToken: string, tableId: string, options: ListRecordsOptions = {}): Promise<BitableRecord[]> => {
+        const { since, modifiedTimeField, pageSize = 500 } = options;
+        const body: Record<string, unknown> = { automatic_fields: true };
+        if (since && modifiedTimeField) {
+            body.filter = {
+                conjunction: 'and',
+                conditions: [{ field_name: modifiedTimeField, operator: 'isGreater', value: ['ExactDate', String(since)] }]
+            };
+        }
+
+        const records: BitableRecord[] = [];
+        let pageToken: string | undefined;
+        do {
+            const data = await call<SearchRecordsData>('POST', `${tablePath(appToken, tableId)}/search`, body, {
+                page_size: pageSize,
+                page_token: pageToken
+            });
+            records.push(...(data.items || []));
+            pageToken = data.has_more ? data.page_token : undefined;
+        } while (pageToken);
+
+        // 未配置修改时间字段时在本地按 last_modified_time 过滤
+        return since && !modifiedTimeField
+            ? records.filter(r => (r.last_modified_time ?? Number.MAX_SAFE_INTEGER) >= since)
+            : records;
+    };
+
+    const batchUpdateRecords = async (appToken: string, tableId: string, records: { record_id: string; fields: Record<string, unknown> }[]) => {
+        for (let i = 0; i < records.length; i += BATCH_LIMIT) {
+            await call('POST', `${tablePath(appToken, tableId)}/batch_update`, { records: records.slice(i, i + BATCH_LIMIT) });
+        }
+    };
+
+    return { listRecords, batchUpdateRecords };
+};
+
+export type FeishuClient = ReturnType<typeof createFeishuClient>;
@@ -0,0 +1,14 @@
+export { createFeishuClient, FeishuApiError } from './client';
+export type { FeishuClient, FeishuClientConfig, BitableRecord } from './client';
+export { DEFAULT_TABLE_MAPPINGS, ENTITY_FIELDS, ENTITY_LABELS } from './mapping';
+export type { FeishuEntityType, FeishuTableMapping } from './mapping';
+export { runFeishuSync, resolveFeishuConflict, createEmptyFeishuSyncState } from './sync';
+export type {
+    FeishuSyncConfig,
+    FeishuSyncState,
+    FeishuSyncConflict,
+    FeishuSyncSnapshot,
+    FeishuSyncResult,
+    FeishuSnapshotChanges,
+    FeishuEntityStats
+} from './sync';
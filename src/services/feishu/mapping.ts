@@ -0,0 +1,204 @@
+import { format } from 'date-fns';
+import type { BitableRecord } from './client';
+
+/**
+ * Bitable 字段 ↔ Visorq 实体字段映射与取值转换
+ */
+
+export type FeishuEntityType = 'project' | 'task' | 'teamMember' | 'bay';
+
+export interface FeishuTableMapping {
+    entity: FeishuEntityType;
+    tableId: string;
+    fields: Record<string, string>; // Visorq 字段 → Bitable 字段名；未列出的字段不同步
+    valueMaps?: Record<string, Record<string, string>>; // Visorq 字段 → { Bitable 选项: Visorq 取值 }
+    writeBackFields?: string[]; // 本地修改后回写到飞书的字段
+    modifiedTimeField?: string; // 表中“修改时间”字段名，配置后增量读取由服务端过滤
+}
+
+// link：关联记录或文本，用于确定父实体（任务所属项目、成员所属团队），不参与字段合并
+type FieldKind = 'text' | 'number' | 'date' | 'percent' | 'link';
+
+export const ENTITY_FIELDS: Record<FeishuEntityType, Record<string, FieldKind>> = {
+    project: {
+        name: 'text', code: 'text', description: 'text', status: 'text', priority: 'text',
+        startDate: 'date', endDate: 'date', manager: 'text', department: 'text',
+        budget: 'number', progress: 'percent'
+    },
+    task: {
+        projectId: 'link', name: 'text', description: 'text', status: 'text', priority: 'text',
+        startDate: 'date', endDate: 'date', progress: 'percent', assignee: 'text'
+    },
+    teamMember: {
+        teamId: 'link', name: 'text', role: 'text', position: 'text', department: 'text',
+        email: 'text', phone: 'text', availability: 'number'
+    },
+    bay: {
+        name: 'text', size: 'text', status: 'text', health: 'number',
+        lastMaintenance: 'date', nextMaintenance: 'date', softwareVersion: 'text'
+    }
+};
+
+export const ENTITY_LABELS: Record<FeishuEntityType, string> = {
+    project: '项目',
+    task: '任务',
+    teamMember: '团队成员',
+    bay: 'Bay 资源'
+};
+
+const STATUS_VALUES = { '规划中': 'planning', '进行中': 'active', '已完成': 'completed', '暂停': 'on-hold' };
+
+export const DEFAULT_TABLE_MAPPINGS: Record<FeishuEntityType, Omit<FeishuTableMapping, 'tableId'>> = {
+    project: {
+        entity: 'project',
+        fields: {
+            name: '项目名称', code: '项目编号', description: '项目描述', status: '状态', priority: '优先级',
+            startDate: '开始日期', endDate: '结束日期', manager: '项目经理', department: '所属部门',
+            budget: '预算', progress: '进度'
+        },
+        valueMaps: { status: STATUS_VALUES },
+        writeBackFields: ['status', 'progress']
+    },
+    task: {
+        entity: 'task',
+        fields: {
+            projectId: '所属项目', name: '任务名称', description: '任务描述', status: '状态', priority: '优先级',
+            startDate: '开始日期', endDate: '结束日期', progress: '进度', assignee: '负责人'
+        },
+        valueMaps: { status: STATUS_VALUES },
+        writeBackFields: ['status', 'progress']
+    },
+    teamMember: {
+        entity: 'teamMember',
+        fields: {
+            teamId: '所属团队', name: '姓名', role: '角色', position: '职称', department: '部门',
+            email: '邮箱', phone: '电话', availability: '可用率'
+        }
+    },
+    bay: {
+        entity: 'bay',
+        fields: {
+            name: '名称', size: '尺寸', status: '状态', health: '健康度',
+            lastMaintenance: '上次维保', nextMaintenance: '下次维保', softwareVersion: '软件版本'
+        },
+        valueMaps: { status: { '空闲': 'available', '占用': 'occupied', '维护中': 'maintenance', '故障': 'broken' } },
+        writeBackFields: ['status']
+    }
+};
+
+// ============ 取值转换 ============
+
+const readText = (value: unknown): string | undefined => {
+    if (value === null || value === undefined) return undefined;
+    if (typeof value === 'string') return value;
+    if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+    if (Array.isArray(value)) {
+        // 多行文本 [{ type, text }]、人员 [{ name }]、多选 ['a', 'b']
+        const parts = value.map(item => typeof item === 'string' ? item : readText(item) ?? '');
+        return parts.join(value.every(item => typeof item === 'object' && item && 'type' in item) ? '' : ', ');
+    }
+    if (typeof value === 'object') {
+        const obj = value as Record<string, unknown>;
+        return readText(obj.text ?? obj.name ?? obj.value);
+    }
+    return undefined;
+};
+
+const readNumber = (value: unknown): number | undefined => {
+    if (typeof value === 'number') return value;
+    const text = readText(value);
+    const parsed = text === undefined ? NaN : parseFloat(text);
+    return Number.isNaN(parsed) ? undefined : parsed;
+};
+
+const readDate = (value: unknown): string | undefined => {
+    if (typeof value === 'number') return format(new Date(value), 'yyyy-MM-dd');
+    const text = readText(value);
+    return text ? text.slice(0, 10) : undefined;
+};
+
+/**
+ * 关联字段：返回关联记录 ID；文本字段返回文本本身（按名称/编号匹配）
+ */
+export const readLinkValues = (value: unknown): string[] => {
+    if (!value) return [];
+    if (typeof value === 'object' && !Array.isArray(value) && 'link_record_ids' in value) {
+        return ((value as { link_record_ids?: string[] }).link_record_ids) || [];
+    }
+    if (Array.isArray(value) && value.some(item => item && typeof item === 'object' && 'record_ids' in item)) {
+        return value.flatMap(item => (item as { record_ids?: string[] }).record_ids || []);
+    }
+    const text = readText(value);
+    return text ? [text] : [];
+};
+
+/**
+ * 将飞书记录转换为 Visorq 字段值（不含关联字段；记录中缺失的字段不返回）
+ */
+export const readRecordValues = (mapping: FeishuTableMapping, record: BitableRecord): Record<string, unknown> => {
+    const kinds = ENTITY_FIELDS[mapping.entity];
+    const values: Record<string, unknown> = {};
+
+    Object.entries(mapping.fields).forEach(([field, remoteField]) => {
+        const kind = kinds[field];
+        if (!kind || kind === 'link' || !(remoteField in record.fields)) return;
+        const raw = record.fields[remoteField];
+
+        let value: unknown;
+        if (kind === 'number') value = readNumber(raw);
+        else if (kind === 'percent') {
+            // 飞书进度/百分比字段以 0-1 小数存储
+            const fraction = readNumber(raw);
+            value = fraction === undefined ? undefined : Math.round(fraction * 100);
+        } else if (kind === 'date') value = readDate(raw);
+        else {
+            const text = readText(raw);
+            value = text !== undefined ? mapping.valueMaps?.[field]?.[text] ?? text : undefined;
+        }
+
+        if (value !== undefined) values[field] = value;
+    });
+
+    return values;
+};
+
+/**
+ * 将 Visorq 字段值转换为飞书写入格式
+ */
+export const toBitableFields = (mapping: FeishuTableMapping, values: Record<string, unknown>): Record<string, unknown> => {
+    const kinds = ENTITY_FIELDS[mapping.entity];
+    const fields: Record<string, unknown> = {};
+
+    Object.entries(values).forEach(([field, value]) => {
+        const remoteField = mapping.fields[field];
+        const kind = kinds[field];
+        if (!remoteField || !kind || kind === 'link') return;
+
+        if (value === undefined || value === null || value === '') fields[remoteField] = null;
+        else if (kind === 'percent') fields[remoteField] = Number(value) / 100;
+        else if (kind === 'number') fields[remoteField] = Number(value);
+        else if (kind === 'date') fields[remoteField] = new Date(`${value}T00:00:00`).getTime();
+        else {
+            const label = Object.entries(mapping.valueMaps?.[field] || {}).find(([, local]) => local === value)?.[0];
+            fields[remoteField] = label ?? String(value);
+        }
+    });
+
+    return fields;
+};
+
+/**
+ * 取实体上参与同步的字段
+ */
+export const pickMappedValues = (mapping: FeishuTableMapping, entity: object): Record<string, unknown> => {
+    const kinds = ENTITY_FIELDS[mapping.entity];
+    const source = entity as Record<string, unknown>;
+    const values: Record<string, unknown> = {};
+    Object.keys(mapping.fields).forEach(field => {
+        if (kinds[field] && kinds[field] !== 'link' && source[field] !== undefined) values[field] = source[field];
+    });
+    return values;
+};
+
+export const linkFieldOf = (entity: FeishuEntityType) =>
+    Object.entries(ENTITY_FIELDS[entity]).find(([, kind]) => kind === 'link')?.[0];
@@ -0,0 +1,449 @@
+import { format } from 'date-fns';
+import type { Project, Task, TeamMember, ResourcePoolItem, BayResource } from '../../types';
+import type { FeishuClient, BitableRecord } from './client';
+import type { FeishuEntityType, FeishuTableMapping } from './mapping';
+import { readRecordValues, readLinkValues, toBitableFields, pickMappedValues, linkFieldOf, ENTITY_LABELS } from './mapping';
+
+/**
+ * 飞书多维表格双向同步
+ *
+ * 每条已关联记录保存上次同步时的字段值（base），同步时做三方比较：
+ * - 仅飞书修改 → 更新本地
+ * - 仅本地修改 → 回写飞书（限 writeBackFields）
+ * - 双方都改且不一致 → 记为冲突，解决前不覆盖任何一方
+ * 读取按修改时间增量进行，游标为上次读到的最大 last_modified_time。
+ */
+
+// 应用凭证只在存储服务端配置（FEISHU_APP_ID / FEISHU_APP_SECRET），不进入前端状态
+export interface FeishuSyncConfig {
+    appToken: string; // 多维表格 app_token
+    tables: FeishuTableMapping[];
+    defaultTeamId?: string; // 成员记录未指定团队时归入的资源池团队
+}
+
+export interface FeishuRecordLink {
+    localId: string;
+    parentId?: string; // 任务所属项目 / 成员所属团队
+    base: Record<string, unknown>;
+    remoteModifiedTime: number;
+}
+
+export interface FeishuSyncConflict {
+    entity: FeishuEntityType;
+    tableId: string;
+    recordId: string;
+    localId: string;
+    parentId?: string;
+    name: string;
+    fields: { field: string; localValue: unknown; remoteValue: unknown }[];
+    detectedAt: string;
+}
+
+export interface FeishuSyncState {
+    cursors: Record<string, number>; // tableId → 最大 last_modified_time
+    links: Record<string, FeishuRecordLink>; // `${tableId}/${recordId}` → 本地实体
+    conflicts: FeishuSyncConflict[];
+    lastSyncedAt?: string;
+}
+
+export interface FeishuSyncSnapshot {
+    projects: Project[];
+    resourcePool: ResourcePoolItem[];
+    physicalBays: BayResource[];
+}
+
+export interface FeishuSnapshotChanges {
+    createdProjects: string[];
+    updatedProjects: string[];
+    updatedResources: string[];
+    baysChanged: boolean;
+}
+
+export interface FeishuEntityStats {
+    fetched: number;
+    created: number;
+    updated: number;
+    pushed: number;
+}
+
+export interface FeishuSyncResult {
+    success: boolean;
+    snapshot: FeishuSyncSnapshot;
+    changes: FeishuSnapshotChanges;
+    state: FeishuSyncState;
+    stats: Partial<Record<FeishuEntityType, FeishuEntityStats>>;
+    conflicts: FeishuSyncConflict[]; // 本次新发现的冲突
+    errors: string[];
+}
+
+export const createEmptyFeishuSyncState = (): FeishuSyncState => ({ cursors: {}, links: {}, conflicts: [] });
+
+// 项目先于任务，团队成员依赖资源池
+const ENTITY_ORDER: FeishuEntityType[] = ['project', 'bay', 'teamMember', 'task'];
+
+const linkKey = (tableId: string, recordId: string) => `${tableId}/${recordId}`;
+const same = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+const today = () => format(new Date(), 'yyyy-MM-dd');
+
+interface EntityAccess {
+    find: (localId: string, parentId?: string) => object | undefined;
+    resolveParent: (linkValues: string[], record: BitableRecord) => string | undefined;
+    create: (recordId: string, values: Record<string, unknown>, parentId?: string) => { localId: string; parentId?: string } | string;
+    update: (localId: string, parentId: string | undefined, values: Record<string, unknown>) => void;
+}
+
+/**
+ * 在快照副本上读写各类实体
+ */
+const createEntityAccess = (
+    draft: FeishuSyncSnapshot,
+    changes: FeishuSnapshotChanges,
+    state: FeishuSyncState,
+    config: FeishuSyncConfig
+): Record<FeishuEntityType, EntityAccess> => {
+    const touchProject = (id: string) => {
+        if (!changes.createdProjects.includes(id) && !changes.updatedProjects.includes(id)) changes.updatedProjects.push(id);
+    };
+    const touchResource = (id: string) => {
+        if (!changes.updatedResources.includes(id)) changes.updatedResources.push(id);
+    };
+    const projectTableId = config.tables.find(t => t.entity === 'project')?.tableId;
+
+    const findProject = (id?: string) => draft.projects.find(p => p.id === id);
+    const findTeam = (id?: string) => draft.resourcePool.find(r => r.id === id);
+
+    return {
+        project: {
+            find: (localId) => findProject(localId),
+            resolveParent: () => undefined,
+            create: (recordId, values) => {
+                const id = `fs-${recordId}`;
+                const project: Project = {
+                    id,
+                    name: String(values.name || recordId),
+                    description: '',
+                    status: 'planning',
+                    priority: 'P2',
+                    startDate: today(),
+                    endDate: today(),
+                    factors: {},
+                    tasks: [],
+                    resourceRequirements: [],
+                    ...values
+                } as Project;
+                draft.projects = [...draft.projects, project];
+                changes.createdProjects.push(id);
+                return { localId: id };
+            },
+            update: (localId, _parentId, values) => {
+                draft.projects = draft.projects.map(p => p.id === localId ? { ...p, ...values } : p);
+                touchProject(localId);
+            }
+        },
+
+        task: {
+            find: (localId, parentId) => findProject(parentId)?.tasks?.find(t => t.id === localId),
+            // 关联记录 → 已同步的项目；文本 → 按项目 ID / 编号 / 名称匹配
+            resolveParent: (linkValues) => {
+                for (const value of linkValues) {
+                    const linked = projectTableId ? state.links[linkKey(projectTableId, value)] : undefined;
+                    if (linked) return linked.localId;
+                    const project = draft.projects.find(p => p.id === value || p.code === value || p.name === value);
+                    if (project) return project.id;
+                }
+                return undefined;
+            },
+            create: (recordId, values, parentId) => {
+                const project = findProject(parentId);
+                if (!project) return '未找到所属项目';
+                const task: Task = {
+                    id: `fs-${recordId}`,
+                    name: String(values.name || recordId),
+                    startDate: project.startDate,
+                    endDate: project.endDate,
+                    progress: 0,
+                    type: 'task',
+                    ...values
+                } as Task;
+                draft.projects = draft.projects.map(p => p.id === project.id ? { ...p, tasks: [...(p.tasks || []), task] } : p);
+                touchProject(project.id);
+                return { localId: task.id, parentId: project.id };
+            },
+            update: (localId, parentId, values) => {
+                draft.projects = draft.projects.map(p => p.id === parentId
+                    ? { ...p, tasks: (p.tasks || []).map(t => t.id === localId ? { ...t, ...values } : t) }
+                    : p);
+                touchProject(parentId!);
+            }
+        },
+
+        teamMember: {
+            find: (localId, parentId) => findTeam(parentId)?.members?.find(m => m.id === localId),
+            resolveParent: (linkValues) => {
+                const team = draft.resourcePool.find(r => linkValues.includes(r.id) || linkValues.includes(r.name));
+                return team?.id ?? (findTeam(config.defaultTeamId) ? config.defaultTeamId : undefined);
+            },
+            create: (recordId, values, parentId) => {
+                const team = findTeam(parentId);
+                if (!team) return '未找到所属团队，请在记录中填写团队或配置默认团队';
+                const member: TeamMember = {
+                    id: `fs-${recordId}`,
+                    name: String(values.name || recordId),
+                    role: '',
+                    skills: [],
+                    availability: 100,
+                    assignments: [],
+                    ...values
+                } as TeamMember;
+                draft.resourcePool = draft.resourcePool.map(r => r.id === team.id ? { ...r, members: [...(r.members || []), member] } : r);
+                touchResource(team.id);
+                return { localId: member.id, parentId: team.id };
+            },
+            update: (localId, parentId, values) => {
+                draft.resourcePool = draft.resourcePool.map(r => r.id === parentId
+                    ? { ...r, members: (r.members || []).map(m => m.id === localId ? { ...m, ...values } : m) }
+                    : r);
+                touchResource(parentId!);
+            }
+        },
+
+        bay: {
+            find: (localId) => draft.physicalBays.find(b => b.id === localId),
+            resolveParent: () => undefined,
+            create: (recordId, values) => {
+                const bay = {
+                    id: `bay-fs-${recordId}`,
+                    name: String(values.name || recordId),
+                    size: 'M',
+                    status: 'available',
+                    health: 100,
+                    lastMaintenance: today(),
+                    nextMaintenance: today(),
+                    bookings: [],
+                    conflicts: [],
+                    replacementHistory: [],
+                    maintenancePlans: [],
+                    usageHistory: [],
+                    version: 1,
+                    ...values
+                } as BayResource;
+                draft.physicalBays = [...draft.physicalBays, bay];
+                changes.baysChanged = true;
+                return { localId: bay.id };
+            },
+            update: (localId, _parentId, values) => {
+                // 版本号递增，让正在编辑的调度员感知到并发修改
+                draft.physicalBays = draft.physicalBays.map(b => b.id === localId
+                    ? { ...b, ...values, version: ((b as BayResource & { version?: number }).version || 0) + 1 } as BayResource
+                    : b);
+                changes.baysChanged = true;
+            }
+        }
+    };
+};
+
+const createContext = (snapshot: FeishuSyncSnapshot, state: FeishuSyncState, config: FeishuSyncConfig) => {
+    const draft: FeishuSyncSnapshot = { ...snapshot };
+    const changes: FeishuSnapshotChanges = { createdProjects: [], updatedProjects: [], updatedResources: [], baysChanged: false };
+    const nextState: FeishuSyncState = {
+        ...state,
+        cursors: { ...state.cursors },
+        links: { ...state.links },
+        conflicts: [...state.conflicts]
+    };
+    return { draft, changes, nextState, access: createEntityAccess(draft, changes, nextState, config) };
+};
+
+/**
+ * 三方合并单条记录
+ */
+const mergeRecord = (
+    mapping: FeishuTableMapping,
+    record: BitableRecord,
+    access: EntityAccess,
+    state: FeishuSyncState,
+    stats: FeishuEntityStats
+): FeishuSyncConflict | string | null => {
+    const key = linkKey(mapping.tableId, record.record_id);
+    const remote = readRecordValues(mapping, record);
+    const linkField = linkFieldOf(mapping.entity);
+    const remoteModifiedTime = record.last_modified_time ?? Date.now();
+    const link = state.links[key];
+    const local = link ? access.find(link.localId, link.parentId) : undefined;
+
+    if (!link || !local) {
+        const parentId = linkField
+            ? access.resolveParent(readLinkValues(record.fields[mapping.fields[linkField]]), record)
+            : undefined;
+        const created = access.create(record.record_id, remote, parentId);
+        if (typeof created === 'string') return `${ENTITY_LABELS[mapping.entity]}记录 ${record.record_id}：${created}`;
+
+        state.links[key] = { ...created, base: remote, remoteModifiedTime };
+        stats.created++;
+        return null;
+    }
+
+    const localValues = pickMappedValues(mapping, local);
+    const base = link.base;
+    const updates: Record<string, unknown> = {};
+    const conflictFields: FeishuSyncConflict['fields'] = [];
+    const nextBase: Record<string, unknown> = { ...base };
+
+    new Set([...Object.keys(remote), ...Object.keys(base)]).forEach(field => {
+        const remoteValue = remote[field];
+        if (same(remoteValue, base[field])) return; // 飞书未改
+        if (same(localValues[field], base[field]) || same(localValues[field], remoteValue)) {
+            if (remoteValue !== undefined && !same(localValues[field], remoteValue)) updates[field] = remoteValue;
+            nextBase[field] = remoteValue;
+            return;
+        }
+        conflictFields.push({ field, localValue: localValues[field], remoteValue });
+    });
+
+    if (Object.keys(updates).length > 0) {
+        access.update(link.localId, link.parentId, updates);
+        stats.updated++;
+    }
+    state.links[key] = { ...link, base: nextBase, remoteModifiedTime };
+
+    if (conflictFields.length === 0) return null;
+    return {
+        entity: mapping.entity,
+        tableId: mapping.tableId,
+        recordId: record.record_id,
+        localId: link.localId,
+        parentId: link.parentId,
+        name: String(localValues.name ?? remote.name ?? record.record_id),
+        fields: conflictFields,
+        detectedAt: new Date().toISOString()
+    };
+};
+
+/**
+ * 收集本地修改的回写字段（有未解决冲突的记录跳过）
+ */
+const collectWriteBacks = (mapping: FeishuTableMapping, access: EntityAccess, state: FeishuSyncState) => {
+    const writeBackFields = mapping.writeBackFields || [];
+    const pending: { key: string; recordId: string; values: Record<string, unknown> }[] = [];
+    if (writeBackFields.length === 0) return pending;
+
+    const prefix = `${mapping.tableId}/`;
+    Object.entries(state.links).forEach(([key, link]) => {
+        if (!key.startsWith(prefix)) return;
+        const recordId = key.slice(prefix.length);
+        if (state.conflicts.some(c => c.tableId === mapping.tableId && c.recordId === recordId)) return;
+
+        const local = access.find(link.localId, link.parentId);
+        if (!local) return;
+        const localValues = pickMappedValues(mapping, local);
+        const values: Record<string, unknown> = {};
+        writeBackFields.forEach(field => {
+            if (field in mapping.fields && !same(localValues[field], link.base[field])) values[field] = localValues[field];
+        });
+        if (Object.keys(values).length > 0) pending.push({ key, recordId, values });
+    });
+    return pending;
+};
+
+/**
+ * 执行一次增量双向同步
+ */
+export const runFeishuSync = async (
+    client: FeishuClient,
+    config: FeishuSyncConfig,
+    snapshot: FeishuSyncSnapshot,
+    state: FeishuSyncState = createEmptyFeishuSyncState()
+): Promise<FeishuSyncResult> => {
+    const { draft, changes, nextState, access } = createContext(snapshot, state, config);
+    const stats: FeishuSyncResult['stats'] = {};
+    const conflicts: FeishuSyncConflict[] = [];
+    const errors: string[] = [];
+
+    const tables = [...config.tables]
+        .filter(t => t.tableId)
+        .sort((a, b) => ENTITY_ORDER.indexOf(a.entity) - ENTITY_ORDER.indexOf(b.entity));
+
+    // 1. 增量读取并合并
+    for (const mapping of tables) {
+        const entityStats = stats[mapping.entity] ??= { fetched: 0, created: 0, updated: 0, pushed: 0 };
+        try {
+            const records = await client.listRecords(config.appToken, mapping.tableId, {
+                since: nextState.cursors[mapping.tableId],
+                modifiedTimeField: mapping.modifiedTimeField
+            });
+            entityStats.fetched += records.length;
+
+            records.forEach(record => {
+                const outcome = mergeRecord(mapping, record, access[mapping.entity], nextState, entityStats);
+                if (typeof outcome === 'string') errors.push(outcome);
+                else if (outcome) {
+                    nextState.conflicts = [
+                        ...nextState.conflicts.filter(c => !(c.tableId === outcome.tableId && c.recordId === outcome.recordId)),
+                        outcome
+                    ];
+                    conflicts.push(outcome);
+                }
+            });
+
+            const latest = Math.max(nextState.cursors[mapping.tableId] ?? 0, ...records.map(r => r.last_modified_time ?? 0));
+            if (latest > 0) nextState.cursors[mapping.tableId] = latest;
+        } catch (error) {
+            errors.push(`读取${ENTITY_LABELS[mapping.entity]}表失败：${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    // 2. 回写本地修改
+    for (const mapping of tables) {
+        const pending = collectWriteBacks(mapping, access[mapping.entity], nextState);
+        if (pending.length === 0) continue;
+        try {
+            await client.batchUpdateRecords(config.appToken, mapping.tableId, pending.map(p => ({
+                record_id: p.recordId,
+                fields: toBitableFields(mapping, p.values)
+            })));
+            pending.forEach(p => {
+                const link = nextState.links[p.key];
+                nextState.links[p.key] = { ...link, base: { ...link.base, ...p.values } };
+            });
+            stats[mapping.entity]!.pushed += pending.length;
+        } catch (error) {
+            errors.push(`回写${ENTITY_LABELS[mapping.entity]}表失败：${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    nextState.lastSyncedAt = new Date().toISOString();
+    return { success: errors.length === 0, snapshot: draft, changes, state: nextState, stats, conflicts, errors };
+};
+
+/**
+ * 解决冲突：remote 采用飞书值更新本地；local 将本地值写回飞书
+ */
+export const resolveFeishuConflict = async (
+    client: FeishuClient,
+    config: FeishuSyncConfig,
+    snapshot: FeishuSyncSnapshot,
+    state: FeishuSyncState,
+    conflict: FeishuSyncConflict,
+    keep: 'remote' | 'local'
+): Promise<Pick<FeishuSyncResult, 'snapshot' | 'changes' | 'state'>> => {
+    const { draft, changes, nextState, access } = createContext(snapshot, state, config);
+    const mapping = config.tables.find(t => t.tableId === conflict.tableId);
+    const key = linkKey(conflict.tableId, conflict.recordId);
+    const link = nextState.links[key];
+
+    if (mapping && link) {
+        const chosen = Object.fromEntries(conflict.fields.map(f => [f.field, keep === 'remote' ? f.remoteValue : f.localValue]));
+        if (keep === 'remote') {
+            access[conflict.entity].update(link.localId, link.parentId, chosen);
+        } else {
+            await client.batchUpdateRecords(config.appToken, conflict.tableId, [{
+                record_id: conflict.recordId,
+                fields: toBitableFields(mapping, chosen)
+            }]);
+        }
+        nextState.links[key] = { ...link, base: { ...link.base, ...chosen } };
+    }
+
+    nextState.conflicts = nextState.conflicts.filter(c => !(c.tableId === conflict.tableId && c.recordId === conflict.recordId));
+    return { snapshot: draft, changes, state: nextState };
+};
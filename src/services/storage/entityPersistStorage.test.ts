@@ -0,0 +1,79 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { EntityChange, StorageAdapter } from './types';
+import { createEntitySyncEngine } from './entityPersistStorage';
+
+/**
+ * 记录每批提交内容的内存适配器，所有变更都按新版本保存
+ */
+const createRecordingAdapter = () => {
+    const batches: EntityChange[][] = [];
+    const adapter: StorageAdapter = {
+        name: 'rest',
+        loadCollection: async () => [],
+        saveEntities: async (changes) => {
+            batches.push(changes);
+            return {
+                saved: changes.map(change => ({
+                    collection: change.collection,
+                    id: change.id,
+                    data: change.data,
+                    version: change.baseVersion + 1,
+                    updatedAt: new Date().toISOString(),
+                    deleted: change.deleted
+                })),
+                conflicts: []
+            };
+        }
+    };
+    return { adapter, batches };
+};
+
+const entityChanges = (batches: EntityChange[][], collection: string) =>
+    batches.flat().filter(change => change.collection === collection);
+
+beforeEach(() => {
+    vi.useFakeTimers();
+    // 同步队列与版本号记录在 localStorage
+    const items = new Map<string, string>();
+    vi.stubGlobal('localStorage', {
+        getItem: (key: string) => items.get(key) ?? null,
+        setItem: (key: string, value: string) => { items.set(key, value); },
+        removeItem: (key: string) => { items.delete(key); }
+    });
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+});
+
+describe('只追加的集合', () => {
+    const sync = async (appendOnly: boolean) => {
+        const { adapter, batches } = createRecordingAdapter();
+        const engine = createEntitySyncEngine(adapter, { useLocalCache: false });
+        if (appendOnly) engine.registerAppendOnly('log-storage/entries');
+
+        await engine.storage.getItem('log-storage');
+        engine.storage.setItem('log-storage', { state: { entries: [{ id: 'a' }, { id: 'b' }] }, version: 0 });
+        await engine.flush();
+        batches.length = 0;
+
+        // 窗口裁掉 a，同时 b 在内存中被改写、c 新追加
+        engine.storage.setItem('log-storage', { state: { entries: [{ id: 'b', edited: true }, { id: 'c' }] }, version: 0 });
+        await engine.flush();
+        return entityChanges(batches, 'log-storage/entries');
+    };
+
+    it('裁剪内存窗口不会同步为删除，已提交的条目不再修改', async () => {
+        const changes = await sync(true);
+
+        expect(changes).toEqual([{ collection: 'log-storage/entries', id: 'c', data: { id: 'c' }, baseVersion: 0 }]);
+    });
+
+    it('普通集合移除的元素同步为删除', async () => {
+        const changes = await sync(false);
+
+        expect(changes.find(change => change.id === 'a')?.deleted).toBe(true);
+        expect(changes.find(change => change.id === 'b')?.data).toEqual({ id: 'b', edited: true });
+    });
+});
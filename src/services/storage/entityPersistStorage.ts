@@ -0,0 +1,434 @@
+import type { PersistStorage, StorageValue } from 'zustand/middleware';
+import type { StorageAdapter, StoredEntity, EntityChange, EntityConflict } from './types';
+import { StorageOfflineError, StorageQuotaError } from './types';
+
+/**
+ * 将 zustand persist 接入实体存储适配器
+ *
+ * - 乐观更新：状态先在内存与本地缓存生效，再异步写入适配器
+ * - 版本冲突：每个实体记录已知版本，服务端版本不一致时进入冲突列表，由用户选择保留哪一方
+ * - 离线队列：写入失败的变更持久化在 localStorage，恢复网络后自动重试
+ */
+
+const DOCUMENT_COLLECTION = '$store';
+const QUEUE_KEY = 'visorq-sync-queue';
+const VERSIONS_KEY = 'visorq-sync-versions';
+
+interface StoreDocument {
+    fields: Record<string, unknown>;
+    collections: string[];
+    order: Record<string, string[]>; // 保留数组顺序（如资源池排序）
+    version?: number;
+}
+
+interface QueuedChange extends EntityChange {
+    seq: number;
+}
+
+export interface SyncStatus {
+    adapter: StorageAdapter['name'];
+    online: boolean;
+    syncing: boolean;
+    pendingChanges: number;
+    conflicts: EntityConflict[];
+    lastSyncedAt?: string;
+    lastError?: string;
+}
+
+export interface EntityPersistOptions {
+    useLocalCache?: boolean; // 额外在 localStorage 保存整份快照，用于离线启动
+    flushDelay?: number;
+    retryInterval?: number;
+}
+
+interface SnapshotEntry {
+    collection: string;
+    id: string;
+    json: string;
+}
+
+const entityKey = (collection: string, id: string) => `${collection}/${id}`;
+
+const storeNameOf = (change: EntityChange) => change.collection === DOCUMENT_COLLECTION
+    ? change.id
+    : change.collection.slice(0, change.collection.lastIndexOf('/'));
+
+const readJson = <T>(key: string, fallback: T): T => {
+    try {
+        const raw = localStorage.getItem(key);
+        return raw ? JSON.parse(raw) as T : fallback;
+    } catch {
+        return fallback;
+    }
+};
+
+const writeJson = (key: string, value: unknown) => {
+    try {
+        localStorage.setItem(key, JSON.stringify(value));
+    } catch (error) {
+        console.warn(`[storage] Failed to write ${key}`, error);
+    }
+};
+
+const isEntityArray = (value: unknown): value is { id: string }[] =>
+    Array.isArray(value) && value.every(item => item && typeof item === 'object' && typeof (item as { id?: unknown }).id === 'string');
+
+/**
+ * 将 store 状态拆分为实体集合与文档
+ */
+const splitState = (name: string, state: Record<string, unknown>, version?: number) => {
+    const entities = new Map<string, { collection: string; id: string; data: unknown }>();
+    const document: StoreDocument = { fields: {}, collections: [], order: {}, version };
+
+    Object.entries(state).forEach(([field, value]) => {
+        if (typeof value === 'function') return; // 未配置 partialize 的 store 会带上 actions
+        if (isEntityArray(value) && value.length > 0) {
+            const collection = `${name}/${field}`;
+            document.collections.push(field);
+            document.order[field] = value.map(item => item.id);
+            value.forEach(item => entities.set(entityKey(collection, item.id), { collection, id: item.id, data: item }));
+        } else {
+            document.fields[field] = value;
+        }
+    });
+
+    entities.set(entityKey(DOCUMENT_COLLECTION, name), { collection: DOCUMENT_COLLECTION, id: name, data: document });
+    return entities;
+};
+
+/**
+ * 由文档与实体还原 store 状态
+ */
+const assembleState = (name: string, document: StoreDocument, entities: Map<string, unknown>) => {
+    const state: Record<string, unknown> = { ...document.fields };
+    document.collections.forEach(field => {
+        const collection = `${name}/${field}`;
+        state[field] = (document.order[field] || [])
+            .map(id => entities.get(entityKey(collection, id)))
+            .filter(item => item !== undefined);
+    });
+    return state;
+};
+
+export const createEntitySyncEngine = (adapter: StorageAdapter, options: EntityPersistOptions = {}) => {
+    const { useLocalCache = adapter.name !== 'localStorage', flushDelay = 300, retryInterval = 15000 } = options;
+
+    let queue: QueuedChange[] = readJson<QueuedChange[]>(QUEUE_KEY, []);
+    const versions: Record<string, number> = readJson<Record<string, number>>(VERSIONS_KEY, {});
+    const snapshots = new Map<string, Map<string, SnapshotEntry>>(); // store -> entityKey -> 已记录内容
+    const hydrated = new Set<string>();
+    const rehydrators = new Map<string, () => void>();
+    const appendOnly = new Set<string>(); // 只追加的集合：内存中移除的条目不视为删除，已提交的条目不再修改
+    const listeners = new Set<() => void>();
+    let seq = queue.reduce((max, c) => Math.max(max, c.seq), 0);
+    let flushTimer: ReturnType<typeof setTimeout> | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+    let status: SyncStatus = {
+        adapter: adapter.name,
+        online: typeof navigator === 'undefined' ? true : navigator.onLine,
+        syncing: false,
+        pendingChanges: queue.length,
+        conflicts: []
+    };
+
+    const setStatus = (updates: Partial<SyncStatus>) => {
+        status = { ...status, ...updates, pendingChanges: queue.length };
+        listeners.forEach(listener => listener());
+    };
+
+    const persistQueue = () => {
+        writeJson(QUEUE_KEY, queue);
+        writeJson(VERSIONS_KEY, versions);
+    };
+
+    /**
+     * 入队时按实体合并：保留最早的 baseVersion，内容取最新
+     */
+    const enqueue = (change: EntityChange) => {
+        const key = entityKey(change.collection, change.id);
+        const existing = queue.find(c => entityKey(c.collection, c.id) === key);
+        const queued: QueuedChange = {
+            ...change,
+            baseVersion: existing ? existing.baseVersion : change.baseVersion,
+            seq: ++seq
+        };
+        queue = [...queue.filter(c => c !== existing), queued];
+    };
+
+    const scheduleRetry = () => {
+        if (retryTimer) return;
+        retryTimer = setTimeout(() => {
+            retryTimer = null;
+            void flush();
+        }, retryInterval);
+    };
+
+    const flush = async (): Promise<void> => {
+        if (status.syncing || queue.length === 0) return;
+        if (typeof navigator !== 'undefined' && !navigator.onLine) {
+            setStatus({ online: false });
+            return;
+        }
+
+        const batch = queue;
+        setStatus({ syncing: true });
+
+        // 按 store 分批提交：某个 store 写入失败（如审计日志占满本地空间）不会阻塞其他 store 的保存
+        const groups = new Map<string, QueuedChange[]>();
+        batch.forEach(change => {
+            const name = storeNameOf(change);
+            groups.set(name, [...(groups.get(name) || []), change]);
+        });
+
+        const sentSeq = new Map<string, number>();
+        const conflicts: EntityConflict[] = [];
+        const rejected: EntityChange[] = [];
+        let failure: unknown = null;
+
+        for (const changes of groups.values()) {
+            try {
+                const result = await adapter.saveEntities(changes.map(({ seq: _seq, ...change }) => change));
+                changes.forEach(c => sentSeq.set(entityKey(c.collection, c.id), c.seq));
+                result.saved.forEach(entity => {
+                    versions[entityKey(entity.collection, entity.id)] = entity.version;
+                });
+                conflicts.push(...result.conflicts);
+                rejected.push(...(result.rejected || []));
+            } catch (error) {
+                failure = error;
+                if (error instanceof StorageOfflineError) break;
+            }
+        }
+
+        // 已发送的变更（含冲突的）出队；发送期间又被修改的实体保留新内容，并以新版本为基准，
+        // 冲突实体的新内容留待下次提交，届时以最新内容重新报告冲突
+        queue = queue
+            .filter(c => sentSeq.get(entityKey(c.collection, c.id)) !== c.seq)
+            .map(c => {
+                const key = entityKey(c.collection, c.id);
+                return sentSeq.has(key) ? { ...c, baseVersion: versions[key] ?? c.baseVersion } : c;
+            });
+        persistQueue();
+
+        const conflictKeys = new Set(conflicts.map(c => entityKey(c.change.collection, c.change.id)));
+        const mergedConflicts = [
+            ...status.conflicts.filter(c => !conflictKeys.has(entityKey(c.change.collection, c.change.id))),
+            ...conflicts
+        ];
+
+        if (failure) {
+            const offline = failure instanceof StorageOfflineError;
+            const quota = failure instanceof StorageQuotaError;
+            setStatus({
+                syncing: false,
+                online: !offline,
+                conflicts: mergedConflicts,
+                lastError: quota
+                    ? `存储空间已满，${queue.length} 项修改未能保存。请改用 IndexedDB 或服务器存储`
+                    : failure instanceof Error ? failure.message : String(failure)
+            });
+            // 空间不足时定时重试无济于事，下次修改时再尝试
+            if (!quota) scheduleRetry();
+        } else {
+            setStatus({
+                online: true,
+                syncing: false,
+                lastSyncedAt: new Date().toISOString(),
+                lastError: rejected.length > 0 ? `服务端拒绝了 ${rejected.length} 项无权限的修改` : undefined,
+                conflicts: mergedConflicts
+            });
+        }
+
+        // 无权限的修改不会写入，重新加载服务端数据撤销本地结果
+        new Set(rejected.map(storeNameOf)).forEach(name => rehydrators.get(name)?.());
+
+        if (!failure && queue.length > 0) void flush();
+    };
+
+    const scheduleFlush = () => {
+        if (flushTimer) clearTimeout(flushTimer);
+        flushTimer = setTimeout(() => {
+            flushTimer = null;
+            void flush();
+        }, flushDelay);
+    };
+
+    if (typeof window !== 'undefined') {
+        window.addEventListener('online', () => {
+            setStatus({ online: true });
+            void flush();
+        });
+        window.addEventListener('offline', () => setStatus({ online: false }));
+    }
+
+    /**
+     * 记录新状态并把与上次快照的差异放入队列
+     */
+    const recordState = (name: string, value: StorageValue<unknown>) => {
+        const entities = splitState(name, value.state as Record<string, unknown>, value.version);
+        const previous = snapshots.get(name) || new Map<string, SnapshotEntry>();
+        const next = new Map<string, SnapshotEntry>();
+
+        entities.forEach((entity, key) => {
+            const json = JSON.stringify(entity.data);
+            const recorded = previous.get(key);
+            next.set(key, { collection: entity.collection, id: entity.id, json });
+            if (recorded && appendOnly.has(entity.collection)) return;
+            if (recorded?.json !== json) {
+                enqueue({ collection: entity.collection, id: entity.id, data: entity.data, baseVersion: versions[key] ?? 0 });
+            }
+        });
+        previous.forEach((entry, key) => {
+            if (next.has(key) || appendOnly.has(entry.collection)) return;
+            enqueue({ collection: entry.collection, id: entry.id, deleted: true, baseVersion: versions[key] ?? 0 });
+        });
+
+        snapshots.set(name, next);
+        persistQueue();
+        setStatus({});
+    };
+
+    const loadRemoteState = async (name: string): Promise<StorageValue<unknown> | null> => {
+        const documents = await adapter.loadCollection(DOCUMENT_COLLECTION);
+        const document = documents.find(d => d.id === name && !d.deleted) as StoredEntity<StoreDocument> | undefined;
+        if (!document) return null;
+
+        const loaded = new Map<string, unknown>();
+        const remember = (entity: StoredEntity) => {
+            const key = entityKey(entity.collection, entity.id);
+            versions[key] = entity.version;
+            if (!entity.deleted) loaded.set(key, entity.data);
+        };
+        remember(document);
+
+        const collections = await Promise.all(
+            document.data.collections.map(field => adapter.loadCollection(`${name}/${field}`))
+        );
+        collections.flat().forEach(remember);
+
+        // 尚未同步的本地变更覆盖在服务端数据之上
+        const docKey = entityKey(DOCUMENT_COLLECTION, name);
+        let effectiveDocument = document.data;
+        queue.forEach(change => {
+            const key = entityKey(change.collection, change.id);
+            if (key === docKey && change.data) {
+                effectiveDocument = change.data as StoreDocument;
+            } else if (change.collection.startsWith(`${name}/`)) {
+                if (change.deleted) loaded.delete(key);
+                else loaded.set(key, change.data);
+            }
+        });
+
+        persistQueue();
+        return {
+            state: assembleState(name, effectiveDocument, loaded),
+            version: effectiveDocument.version
+        };
+    };
+
+    const storage: PersistStorage<unknown> = {
+        getItem: async (name) => {
+            const cached = readJson<StorageValue<unknown> | null>(name, null);
+            let value: StorageValue<unknown> | null = null;
+            let needsUpload = false;
+
+            try {
+                value = await loadRemoteState(name);
+                setStatus({ online: true });
+                if (!value && cached) {
+                    // 后端还没有数据：以本地（含旧版 localStorage）数据初始化
+                    value = cached;
+                    needsUpload = true;
+                }
+            } catch (error) {
+                console.warn(`[storage] Falling back to local cache for ${name}`, error);
+                setStatus({ online: !(error instanceof StorageOfflineError), lastError: error instanceof Error ? error.message : String(error) });
+                value = cached;
+            }
+
+            if (value) {
+                if (needsUpload) {
+                    snapshots.set(name, new Map());
+                    recordState(name, value);
+                } else {
+                    const entities = splitState(name, value.state as Record<string, unknown>, value.version);
+                    snapshots.set(name, new Map([...entities].map(([key, entity]) => [
+                        key,
+                        { collection: entity.collection, id: entity.id, json: JSON.stringify(entity.data) }
+                    ])));
+                }
+                if (useLocalCache) writeJson(name, value);
+                else if (cached) localStorage.removeItem(name);
+            }
+
+            hydrated.add(name);
+            scheduleFlush();
+            return value;
+        },
+
+        setItem: (name, value) => {
+            // 水合完成前的写入来自初始状态，不能覆盖已存储的数据
+            if (!hydrated.has(name)) return;
+            if (useLocalCache) writeJson(name, value);
+            recordState(name, value);
+            scheduleFlush();
+        },
+
+        removeItem: (name) => {
+            localStorage.removeItem(name);
+            recordState(name, { state: {}, version: undefined });
+            scheduleFlush();
+        }
+    };
+
+    /**
+     * 解决冲突：keepLocal 以服务端最新版本为基准重新提交本地内容；否则丢弃本地修改（含尚未提交的）并重新加载
+     */
+    const resolveConflict = (conflict: EntityConflict, keepLocal: boolean) => {
+        const key = entityKey(conflict.change.collection, conflict.change.id);
+        setStatus({ conflicts: status.conflicts.filter(c => entityKey(c.change.collection, c.change.id) !== key) });
+
+        const pending = queue.find(c => entityKey(c.collection, c.id) === key);
+        queue = queue.filter(c => c !== pending);
+
+        if (keepLocal) {
+            // 冲突后又有本地修改时提交最新内容
+            const { seq: _seq, ...latest } = pending ?? { ...conflict.change, seq: 0 };
+            enqueue({ ...latest, baseVersion: conflict.current?.version ?? 0 });
+            persistQueue();
+            void flush();
+            return;
+        }
+
+        if (conflict.current) versions[key] = conflict.current.version;
+        persistQueue();
+        rehydrators.get(storeNameOf(conflict.change))?.();
+    };
+
+    return {
+        storage,
+        flush,
+        resolveConflict,
+        registerRehydrate: (name: string, rehydrate: () => void) => {
+            rehydrators.set(name, rehydrate);
+        },
+        /** 将集合标记为只追加（如审计日志）：store 只在内存保留最近的条目，裁剪不会同步为删除 */
+        registerAppendOnly: (collection: string) => {
+            appendOnly.add(collection);
+        },
+        /** 重新从存储后端加载全部 store（如登录后取得访问令牌） */
+        reloadAll: () => {
+            rehydrators.forEach(rehydrate => rehydrate());
+        },
+        getStatus: () => status,
+        subscribe: (listener: () => void) => {
+            listeners.add(listener);
+            return () => {
+                listeners.delete(listener);
+            };
+        }
+    };
+};
+
+export type EntitySyncEngine = ReturnType<typeof createEntitySyncEngine>;
@@ -0,0 +1,39 @@
+import { useSyncExternalStore } from 'react';
+import type { PersistStorage } from 'zustand/middleware';
+import type { StorageAdapter } from './types';
+import { createLocalStorageAdapter } from './localStorageAdapter';
+import { createIndexedDbAdapter } from './indexedDbAdapter';
+import { createRestAdapter } from './restAdapter';
+import { createEntitySyncEngine } from './entityPersistStorage';
+import { getSessionToken } from '../auth/session';
+
+export * from './types';
+export type { SyncStatus, EntityPersistOptions, EntitySyncEngine } from './entityPersistStorage';
+export { createEntitySyncEngine, createLocalStorageAdapter, createIndexedDbAdapter, createRestAdapter };
+
+/**
+ * 根据环境变量选择存储适配器
+ *
+ * VITE_STORAGE_ADAPTER: localStorage（默认）| indexedDB | rest
+ * VITE_STORAGE_API_URL: REST 服务地址，默认 http://localhost:4000/api
+ */
+const createConfiguredAdapter = (): StorageAdapter => {
+    const adapter = import.meta.env.VITE_STORAGE_ADAPTER as StorageAdapter['name'] | undefined;
+
+    if (adapter === 'rest') {
+        return createRestAdapter(import.meta.env.VITE_STORAGE_API_URL || 'http://localhost:4000/api', getSessionToken);
+    }
+    if (adapter === 'indexedDB' && typeof indexedDB !== 'undefined') {
+        return createIndexedDbAdapter();
+    }
+    return createLocalStorageAdapter();
+};
+
+export const syncEngine = createEntitySyncEngine(createConfiguredAdapter());
+
+/**
+ * 供 zustand persist 使用的存储
+ */
+export const createPersistStorage = <S>() => syncEngine.storage as unknown as PersistStorage<S>;
+
+export const useSyncStatus = () => useSyncExternalStore(syncEngine.subscribe, syncEngine.getStatus);
@@ -0,0 +1,79 @@
+import type { StorageAdapter, StoredEntity, EntityChange, SaveResult } from './types';
+import { StorageQuotaError, applyVersionedChanges, isQuotaExceededError } from './types';
+
+const DB_NAME = 'visorq';
+const DB_VERSION = 1;
+const STORE_NAME = 'entities';
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+const openDatabase = (): Promise<IDBDatabase> =>
+    new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            if (!db.objectStoreNames.contains(STORE_NAME)) {
+                const store = db.createObjectStore(STORE_NAME, { keyPath: ['collection', 'id'] });
+                store.createIndex('collection', 'collection');
+            }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+/**
+ * IndexedDB 适配器：无 localStorage 的容量限制，单个事务内完成版本校验与写入
+ */
+export const createIndexedDbAdapter = (): StorageAdapter => {
+    let dbPromise: Promise<IDBDatabase> | null = null;
+    const getDb = () => {
+        if (!dbPromise) dbPromise = openDatabase();
+        return dbPromise;
+    };
+
+    return {
+        name: 'indexedDB',
+
+        loadCollection: async (collection) => {
+            const db = await getDb();
+            const index = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).index('collection');
+            return promisify(index.getAll(collection)) as Promise<StoredEntity[]>;
+        },
+
+        saveEntities: async (changes: EntityChange[]): Promise<SaveResult> => {
+            const db = await getDb();
+
+            // 读取、校验、写入放在同一个事务的回调链中完成，避免事务在 await 间隙自动提交
+            return new Promise<SaveResult>((resolve, reject) => {
+                const tx = db.transaction(STORE_NAME, 'readwrite');
+                const store = tx.objectStore(STORE_NAME);
+                const current = new Map<string, StoredEntity>();
+                let result: SaveResult = { saved: [], conflicts: [] };
+                let pending = changes.length;
+
+                const writeAll = () => {
+                    result = applyVersionedChanges(changes, (collection, id) => current.get(`${collection}/${id}`));
+                    result.saved.forEach(entity => store.put(entity));
+                };
+
+                if (pending === 0) writeAll();
+                changes.forEach(change => {
+                    const request = store.get([change.collection, change.id]);
+                    request.onsuccess = () => {
+                        if (request.result) current.set(`${change.collection}/${change.id}`, request.result);
+                        if (--pending === 0) writeAll();
+                    };
+                });
+
+                tx.oncomplete = () => resolve(result);
+                const fail = () => reject(isQuotaExceededError(tx.error) ? new StorageQuotaError() : tx.error);
+                tx.onerror = fail;
+                tx.onabort = fail;
+            });
+        }
+    };
+};
@@ -0,0 +1,55 @@
+import type { StorageAdapter, StoredEntity, EntityChange, SaveResult } from './types';
+import { StorageQuotaError, applyVersionedChanges, isQuotaExceededError } from './types';
+
+const KEY_PREFIX = 'visorq-db';
+
+const collectionKey = (collection: string) => `${KEY_PREFIX}:${collection}`;
+
+const readCollection = (collection: string): Record<string, StoredEntity> => {
+    try {
+        return JSON.parse(localStorage.getItem(collectionKey(collection)) || '{}');
+    } catch {
+        return {};
+    }
+};
+
+/**
+ * localStorage 适配器：每个集合一个 key，适合单机离线使用
+ */
+export const createLocalStorageAdapter = (): StorageAdapter => ({
+    name: 'localStorage',
+
+    loadCollection: async (collection) => Object.values(readCollection(collection)),
+
+    saveEntities: async (changes: EntityChange[]): Promise<SaveResult> => {
+        const cache = new Map<string, Record<string, StoredEntity>>();
+        const getCollection = (collection: string) => {
+            if (!cache.has(collection)) cache.set(collection, readCollection(collection));
+            return cache.get(collection)!;
+        };
+
+        const result = applyVersionedChanges(changes, (collection, id) => getCollection(collection)[id]);
+        result.saved.forEach(entity => {
+            // 删除标记只需保留版本号，不再占用内容的空间
+            getCollection(entity.collection)[entity.id] = entity.deleted ? { ...entity, data: null } : entity;
+        });
+
+        // 空间不足时恢复已写入的集合，整批失败，避免版本号与内容不一致
+        const previous = new Map<string, string | null>();
+        try {
+            cache.forEach((entities, collection) => {
+                const key = collectionKey(collection);
+                previous.set(key, localStorage.getItem(key));
+                localStorage.setItem(key, JSON.stringify(entities));
+            });
+        } catch (error) {
+            previous.forEach((value, key) => {
+                if (value === null) localStorage.removeItem(key);
+                else localStorage.setItem(key, value);
+            });
+            throw isQuotaExceededError(error) ? new StorageQuotaError() : error;
+        }
+
+        return result;
+    }
+});
@@ -0,0 +1,49 @@
+import axios from 'axios';
+import type { StorageAdapter, StoredEntity, EntityChange, SaveResult } from './types';
+import { StorageOfflineError } from './types';
+
+/**
+ * REST 适配器，对接 server/ 下的存储服务
+ *
+ * GET  {baseUrl}/collections/:collection  -> StoredEntity[]
+ * POST {baseUrl}/entities/batch           -> SaveResult
+ *
+ * 请求携带 getToken 返回的会话令牌（Authorization: Bearer）
+ */
+export const createRestAdapter = (
+    baseUrl: string,
+    getToken: () => string | undefined = () => undefined,
+    timeout = 10000
+): StorageAdapter => {
+    const client = axios.create({ baseURL: baseUrl.replace(/\/$/, ''), timeout });
+    client.interceptors.request.use((config) => {
+        const token = getToken();
+        if (token) config.headers.Authorization = `Bearer ${token}`;
+        return config;
+    });
+
+    const request = async <T>(run: () => Promise<{ data: T }>): Promise<T> => {
+        try {
+            return (await run()).data;
+        } catch (error) {
+            // 没有响应说明网络不可达，交给离线队列重试
+            if (axios.isAxiosError(error) && !error.response) {
+                throw new StorageOfflineError(error.message);
+            }
+            if (axios.isAxiosError(error) && error.response?.status === 401) {
+                throw new Error('未登录或登录已过期，请重新登录');
+            }
+            throw error;
+        }
+    };
+
+    return {
+        name: 'rest',
+
+        loadCollection: (collection) =>
+            request(() => client.get<StoredEntity[]>(`/collections/${encodeURIComponent(collection)}`)),
+
+        saveEntities: (changes: EntityChange[]) =>
+            request(() => client.post<SaveResult>('/entities/batch', { changes }))
+    };
+};
@@ -0,0 +1,98 @@
+/**
+ * 存储适配器类型定义
+ *
+ * 持久化数据按"实体"存储：store 中元素带 id 的数组字段视为一个集合（collection），
+ * 每个元素是一个带版本号的实体；其余字段合并为一个文档实体。
+ */
+
+export interface StoredEntity<T = unknown> {
+    collection: string;
+    id: string;
+    data: T;
+    version: number; // 每次写入 +1，用于乐观并发控制
+    updatedAt: string;
+    deleted?: boolean;
+}
+
+export interface EntityChange<T = unknown> {
+    collection: string;
+    id: string;
+    data?: T;
+    deleted?: boolean;
+    baseVersion: number; // 客户端修改时所基于的版本，0 表示新建
+}
+
+export interface EntityConflict<T = unknown> {
+    change: EntityChange<T>;
+    current: StoredEntity<T> | null; // 服务端当前版本
+}
+
+export interface SaveResult {
+    saved: StoredEntity[];
+    conflicts: EntityConflict[];
+    rejected?: EntityChange[]; // 服务端按当前账号权限拒绝写入的变更
+}
+
+export interface StorageAdapter {
+    readonly name: 'localStorage' | 'indexedDB' | 'rest';
+    /** 读取集合内全部实体（含已删除标记） */
+    loadCollection: (collection: string) => Promise<StoredEntity[]>;
+    /** 批量写入；baseVersion 与当前版本不一致的变更作为冲突返回，不会写入 */
+    saveEntities: (changes: EntityChange[]) => Promise<SaveResult>;
+}
+
+/**
+ * 网络不可用（需进入离线队列重试）
+ */
+export class StorageOfflineError extends Error {
+    constructor(message = 'Storage backend is unreachable') {
+        super(message);
+        this.name = 'StorageOfflineError';
+    }
+}
+
+/**
+ * 存储空间已满（浏览器配额），整批变更未写入
+ */
+export class StorageQuotaError extends Error {
+    constructor(message = 'Storage quota exceeded') {
+        super(message);
+        this.name = 'StorageQuotaError';
+    }
+}
+
+export const isQuotaExceededError = (error: unknown): boolean =>
+    error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+/**
+ * 按乐观并发规则应用一批变更，供本地适配器与服务端共用
+ */
+export const applyVersionedChanges = (
+    changes: EntityChange[],
+    getCurrent: (collection: string, id: string) => StoredEntity | undefined,
+    now: string = new Date().toISOString()
+): SaveResult => {
+    const saved: StoredEntity[] = [];
+    const conflicts: EntityConflict[] = [];
+
+    changes.forEach(change => {
+        const current = getCurrent(change.collection, change.id);
+        const currentVersion = current?.version ?? 0;
+
+        if (currentVersion !== change.baseVersion) {
+            conflicts.push({ change, current: current ?? null });
+            return;
+        }
+
+        saved.push({
+            collection: change.collection,
+            id: change.id,
+            data: change.deleted ? current?.data ?? null : change.data,
+            version: currentVersion + 1,
+            updatedAt: now,
+            deleted: change.deleted || undefined
+        });
+    });
+
+    return { saved, conflicts };
+};
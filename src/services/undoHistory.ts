@@ -0,0 +1,247 @@
+import { useSyncExternalStore } from 'react';
+import type { Permission } from '../types';
+
+/**
+ * 全局撤销 / 重做
+ *
+ * 每次 store 变更记录为一条命令（变更前后的顶层字段引用），撤销时写回变更前的值。
+ * 事务内的多次变更合并为一条命令，例如拖拽过程中的连续更新、资源平衡的整体应用。
+ * 撤销前校验当前值仍是命令记录的结果，被其他来源（服务端同步等）修改过则放弃并清空历史。
+ * 命令同时记录原操作通过的权限校验，撤销 / 重做前由权限守卫重新校验（角色可能已切换）。
+ */
+
+type StatePatch = Record<string, unknown>;
+
+interface StoreChange {
+    before: StatePatch;
+    after: StatePatch;
+}
+
+export interface HistoryRequirement {
+    permission: Permission;
+    projectId?: string;
+}
+
+export interface HistoryCommand {
+    id: string;
+    label: string;
+    timestamp: string;
+    changes: Record<string, StoreChange>; // store 名 → 变更
+    requirements: HistoryRequirement[]; // 原操作通过的权限校验
+}
+
+export interface UndoHistoryStatus {
+    canUndo: boolean;
+    canRedo: boolean;
+    undoLabel?: string;
+    redoLabel?: string;
+}
+
+interface StoreBinding {
+    read: () => StatePatch;
+    apply: (patch: StatePatch, action: string) => void;
+}
+
+const MAX_HISTORY = 100;
+
+const createUndoHistory = () => {
+    const bindings = new Map<string, StoreBinding>();
+    let undoStack: HistoryCommand[] = [];
+    let redoStack: HistoryCommand[] = [];
+    let pending: HistoryCommand | null = null;
+    let transactionDepth = 0;
+    let applying = false;
+    let onStale: ((label: string) => void) | null = null;
+    let permissionGuard: ((requirements: HistoryRequirement[]) => boolean) | null = null;
+    let requirements: HistoryRequirement[] = []; // 上次记录之后通过的权限校验，归入下一条命令
+
+    const listeners = new Set<() => void>();
+    let status: UndoHistoryStatus = { canUndo: false, canRedo: false };
+
+    const emit = () => {
+        status = {
+            canUndo: undoStack.length > 0,
+            canRedo: redoStack.length > 0,
+            undoLabel: undoStack[undoStack.length - 1]?.label,
+            redoLabel: redoStack[redoStack.length - 1]?.label
+        };
+        listeners.forEach(listener => listener());
+    };
+
+    const createCommand = (label: string): HistoryCommand => ({
+        id: `cmd-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        label,
+        timestamp: new Date().toISOString(),
+        changes: {},
+        requirements: []
+    });
+
+    // 同一字段保留最早的 before 与最新的 after
+    const mergeChange = (command: HistoryCommand, store: string, before: StatePatch, after: StatePatch) => {
+        const existing = command.changes[store] || { before: {}, after: {} };
+        Object.keys(after).forEach(key => {
+            if (!(key in existing.before)) existing.before[key] = before[key];
+            existing.after[key] = after[key];
+        });
+        command.changes[store] = existing;
+    };
+
+    const push = (command: HistoryCommand) => {
+        // 事务内改了又改回时不产生命令
+        Object.entries(command.changes).forEach(([store, change]) => {
+            Object.keys(change.after).forEach(key => {
+                if (change.before[key] === change.after[key]) {
+                    delete change.before[key];
+                    delete change.after[key];
+                }
+            });
+            if (Object.keys(change.after).length === 0) delete command.changes[store];
+        });
+        if (Object.keys(command.changes).length === 0) return;
+
+        undoStack = [...undoStack, command].slice(-MAX_HISTORY);
+        redoStack = [];
+        emit();
+    };
+
+    /**
+     * 由 history 中间件调用：记录一次 store 变更
+     */
+    const record = (store: string, label: string, before: StatePatch, after: StatePatch) => {
+        if (applying || Object.keys(after).length === 0) return;
+
+        const command = pending || createCommand(label);
+        mergeChange(command, store, before, after);
+        command.requirements.push(...requirements);
+        requirements = [];
+        if (!pending) push(command);
+    };
+
+    /**
+     * 由权限校验调用：记录通过的校验，撤销 / 重做该操作时需要同样的权限
+     */
+    const noteAuthorization = (requirement: HistoryRequirement) => {
+        if (!applying) requirements.push(requirement);
+    };
+
+    const clear = () => {
+        undoStack = [];
+        redoStack = [];
+        emit();
+    };
+
+    const isCurrent = (command: HistoryCommand, side: 'before' | 'after') =>
+        Object.entries(command.changes).every(([store, change]) => {
+            const binding = bindings.get(store);
+            if (!binding) return false;
+            const current = binding.read();
+            return Object.entries(change[side]).every(([key, value]) => current[key] === value);
+        });
+
+    const applySide = (command: HistoryCommand, side: 'before' | 'after', action: string) => {
+        applying = true;
+        try {
+            Object.entries(command.changes).forEach(([store, change]) => {
+                bindings.get(store)?.apply(change[side], action);
+            });
+        } finally {
+            applying = false;
+        }
+    };
+
+    const isPermitted = (command: HistoryCommand) => !permissionGuard || permissionGuard(command.requirements);
+
+    const undo = (): boolean => {
+        const command = undoStack[undoStack.length - 1];
+        if (!command || transactionDepth > 0 || !isPermitted(command)) return false;
+
+        if (!isCurrent(command, 'after')) {
+            onStale?.(command.label);
+            clear();
+            return false;
+        }
+        applySide(command, 'before', 'history/undo');
+        undoStack = undoStack.slice(0, -1);
+        redoStack = [...redoStack, command];
+        emit();
+        return true;
+    };
+
+    const redo = (): boolean => {
+        const command = redoStack[redoStack.length - 1];
+        if (!command || transactionDepth > 0 || !isPermitted(command)) return false;
+
+        if (!isCurrent(command, 'before')) {
+            onStale?.(command.label);
+            clear();
+            return false;
+        }
+        applySide(command, 'after', 'history/redo');
+        redoStack = redoStack.slice(0, -1);
+        undoStack = [...undoStack, command];
+        emit();
+        return true;
+    };
+
+    const beginTransaction = (label: string) => {
+        if (transactionDepth === 0) pending = createCommand(label);
+        transactionDepth++;
+    };
+
+    const commitTransaction = () => {
+        if (transactionDepth === 0) return;
+        transactionDepth--;
+        if (transactionDepth > 0 || !pending) return;
+
+        const command = pending;
+        pending = null;
+        push(command);
+    };
+
+    /**
+     * 在事务中执行（支持异步），fn 内的所有变更撤销时作为一步
+     */
+    function transaction<T>(label: string, fn: () => Promise<T>): Promise<T>;
+    function transaction<T>(label: string, fn: () => T): T;
+    function transaction<T>(label: string, fn: () => T | Promise<T>): T | Promise<T> {
+        beginTransaction(label);
+        let result: T | Promise<T>;
+        try {
+            result = fn();
+        } catch (error) {
+            commitTransaction();
+            throw error;
+        }
+        if (result instanceof Promise) {
+            return result.finally(commitTransaction);
+        }
+        commitTransaction();
+        return result;
+    }
+
+    return {
+        register: (store: string, binding: StoreBinding) => bindings.set(store, binding),
+        record,
+        noteAuthorization,
+        undo,
+        redo,
+        clear,
+        beginTransaction,
+        commitTransaction,
+        transaction,
+        setStaleHandler: (handler: (label: string) => void) => { onStale = handler; },
+        setPermissionGuard: (guard: (requirements: HistoryRequirement[]) => boolean) => { permissionGuard = guard; },
+        getStatus: () => status,
+        subscribe: (listener: () => void) => {
+            listeners.add(listener);
+            return () => { listeners.delete(listener); };
+        }
+    };
+};
+
+export const undoHistory = createUndoHistory();
+
+/**
+ * 撤销 / 重做可用状态
+ */
+export const useUndoHistory = () => useSyncExternalStore(undoHistory.subscribe, undoHistory.getStatus);
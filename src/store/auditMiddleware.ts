@@ -0,0 +1,43 @@
+import type { StateCreator, StoreMutatorIdentifier } from 'zustand';
+import type { User } from '../types';
+import { diffAuditedState, type AuditCollection } from '../utils/auditTrail';
+import { useAuditStore } from './useAuditStore';
+
+export interface AuditOptions {
+    store: string;
+    collections: AuditCollection[];
+    getUser: () => User | null;
+}
+
+/**
+ * Wraps a store's `set` so every action diffs the audited collections before/after and
+ * appends field-level ChangeLogEntry records. Sits inside `persist`, so hydration and
+ * server-side reloads are not recorded as user edits.
+ */
+export const audit = <
+    T extends object,
+    Mps extends [StoreMutatorIdentifier, unknown][] = [],
+    Mcs extends [StoreMutatorIdentifier, unknown][] = []
+>(
+    config: StateCreator<T, Mps, Mcs>,
+    options: AuditOptions
+): StateCreator<T, Mps, Mcs> => (set, get, api) => {
+    const auditedSet = ((...args: unknown[]) => {
+        const before = get() as Record<string, unknown>;
+        (set as (...setArgs: unknown[]) => void)(...args);
+        const after = get() as Record<string, unknown>;
+        if (before === after) return;
+
+        const user = options.getUser();
+        const action = typeof args[2] === 'string' ? args[2] : (args[2] as { type?: string } | undefined)?.type;
+        const entries = diffAuditedState(options.collections, before, after, {
+            userId: user?.id || 'system',
+            userName: user?.name || user?.username || 'system',
+            timestamp: new Date().toISOString(),
+            metadata: { store: options.store, ...(action ? { action } : {}) },
+        });
+        useAuditStore.getState().appendChangeLog(entries);
+    }) as typeof set;
+
+    return config(auditedSet, get, api);
+};
@@ -0,0 +1,49 @@
+import type { StateCreator, StoreMutatorIdentifier } from 'zustand';
+import { undoHistory } from '../services/undoHistory';
+
+export interface HistoryOptions {
+    store: string;
+    keys: string[]; // undoable state keys; session state (user, notifications) stays out
+}
+
+/**
+ * Records each action's before/after values of the tracked keys as an undoable command.
+ * Undo/redo write back through the wrapped `set`, so they are persisted and audited
+ * like any other change but not recorded again. They bypass the actions, so undoHistory
+ * re-checks the permissions the original action was authorized with before applying.
+ */
+export const history = <
+    T extends object,
+    Mps extends [StoreMutatorIdentifier, unknown][] = [],
+    Mcs extends [StoreMutatorIdentifier, unknown][] = []
+>(
+    config: StateCreator<T, Mps, Mcs>,
+    options: HistoryOptions
+): StateCreator<T, Mps, Mcs> => (set, get, api) => {
+    const rawSet = set as (...setArgs: unknown[]) => void;
+
+    undoHistory.register(options.store, {
+        read: () => get() as Record<string, unknown>,
+        apply: (patch, action) => rawSet(patch, false, action),
+    });
+
+    const recordedSet = ((...args: unknown[]) => {
+        const before = get() as Record<string, unknown>;
+        rawSet(...args);
+        const after = get() as Record<string, unknown>;
+        if (before === after) return;
+
+        const previous: Record<string, unknown> = {};
+        const next: Record<string, unknown> = {};
+        options.keys.forEach(key => {
+            if (before[key] !== after[key]) {
+                previous[key] = before[key];
+                next[key] = after[key];
+            }
+        });
+        const label = typeof args[2] === 'string' ? args[2] : options.store;
+        undoHistory.record(options.store, label, previous, next);
+    }) as typeof set;
+
+    return config(recordedSet, get, api);
+};
@@ -0,0 +1,38 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { ChangeLogEntry } from '../types';
+import { createPersistStorage, syncEngine } from '../services/storage';
+
+// Only the newest entries are kept in memory; older ones stay in the storage backend
+export const CHANGE_LOG_RETENTION = 2000;
+
+interface AuditStoreState {
+    // Append-only: entries are never edited or removed; the oldest roll off the in-memory window past the retention limit
+    changeLog: ChangeLogEntry[];
+    appendChangeLog: (entries: ChangeLogEntry[]) => void;
+}
+
+export const useAuditStore = create<AuditStoreState>()(
+    persist(
+        (set) => ({
+            changeLog: [],
+
+            appendChangeLog: (entries) => {
+                if (entries.length === 0) return;
+                set((state) => ({ changeLog: [...state.changeLog, ...entries].slice(-CHANGE_LOG_RETENTION) }));
+            },
+        }),
+        {
+            name: 'audit-storage',
+            storage: createPersistStorage<AuditStoreState>(),
+            partialize: (state) => ({ changeLog: state.changeLog }) as AuditStoreState,
+        }
+    )
+);
+
+syncEngine.registerRehydrate('audit-storage', () => useAuditStore.persist.rehydrate());
+// Trimming the window must never be synced as deleting audit entries
+syncEngine.registerAppendOnly('audit-storage/changeLog');
+
+// Selectors
+export const useChangeLog = () => useAuditStore((state) => state.changeLog);
@@ -1,5 +1,5 @@
 import { create } from 'zustand';
-import { persist, createJSONStorage } from 'zustand/middleware';
+import { persist } from 'zustand/middleware';
 import type {
     ChangeRequest,
     EnvironmentResource,
@@ -9,6 +9,17 @@ import type {
     ProjectSimulation,
     GhostTaskReport,
 } from '../types';
+import { createPersistStorage, syncEngine } from '../services/storage';
+import { createEmptyFeishuSyncState, type FeishuSyncConfig, type FeishuSyncState } from '../services/feishu';
+import { undoHistory } from '../services/undoHistory';
+import { authorize, useStore } from './useStore';
+import { audit } from './auditMiddleware';
+import { history } from './historyMiddleware';
+import { isSlotAvailable, validateEnvironmentBooking, type EnvironmentBookingCheck } from '../utils/environmentBooking';
+import { createApprovalWorkflow, getApprovalStepBlocker } from '../utils/approvalEngine';
+import { canApproveGate, getProjectGates } from '../utils/stageGateManagement';
+import { createImplementationRecord, getChangeProjectUpdates, proposeChangeDelta, type ChangePlanDelta } from '../utils/changeImplementation';
+import { resolveCalendar } from '../utils/workingCalendar';
 
 interface PMOStoreState {
     // Change Requests
@@ -17,6 +28,7 @@ interface PMOStoreState {
     updateChangeRequest: (id: string, updates: Partial<ChangeRequest>) => void;
     approveChangeRequest: (id: string, approverId: string, approverName: string) => void;
     rejectChangeRequest: (id: string, approverId: string, approverName: string, reason: string) => void;
+    implementChangeRequest: (id: string) => ChangePlanDelta | null;
     getChangeRequestsByProject: (projectId: string) => ChangeRequest[];
 
     // Environment Resources
@@ -24,7 +36,8 @@ interface PMOStoreState {
     addEnvironmentResource: (resource: Omit<EnvironmentResource, 'id' | 'createdAt' | 'bookings'>) => void;
     updateEnvironmentResource: (id: string, updates: Partial<EnvironmentResource>) => void;
     deleteEnvironmentResource: (id: string) => void;
-    bookEnvironment: (booking: Omit<EnvironmentBooking, 'id' | 'createdAt'>) => void;
+    bookEnvironment: (booking: Omit<EnvironmentBooking, 'id' | 'createdAt'>) => EnvironmentBookingCheck | null;
+    checkEnvironmentBooking: (booking: Pick<EnvironmentBooking, 'environmentId' | 'projectId' | 'startDate' | 'endDate'>) => EnvironmentBookingCheck | null;
     cancelEnvironmentBooking: (environmentId: string, bookingId: string) => void;
     getAvailableEnvironments: (startDate: string, endDate: string, type?: string) => EnvironmentResource[];
 
@@ -40,8 +53,9 @@ interface PMOStoreState {
     // Approval Workflows
     approvalWorkflows: ApprovalWorkflow[];
     createApprovalWorkflow: (workflow: Omit<ApprovalWorkflow, 'id' | 'createdAt'>) => void;
-    updateApprovalStep: (workflowId: string, stepNumber: number, decision: 'approve' | 'reject', comments?: string) => void;
+    updateApprovalStep: (workflowId: string, stepNumber: number, decision: 'approve' | 'reject', comments?: string, conditions?: string[]) => void;
     getWorkflowsByEntity: (entityId: string) => ApprovalWorkflow[];
+    requestStageGateApproval: (projectId: string, gateId: string) => ApprovalWorkflow | null;
 
     // Project Simulations
     simulations: ProjectSimulation[];
@@ -55,11 +69,17 @@ interface PMOStoreState {
     ghostTaskReports: GhostTaskReport[];
     generateGhostTaskReport: (report: GhostTaskReport) => void;
     clearGhostTaskReports: (projectId: string) => void;
+
+    // Feishu Bitable Integration
+    feishuConfig: FeishuSyncConfig | null;
+    feishuSyncState: FeishuSyncState;
+    setFeishuConfig: (config: FeishuSyncConfig | null) => void;
+    setFeishuSyncState: (syncState: FeishuSyncState) => void;
 }
 
 export const usePMOStore = create<PMOStoreState>()(
     persist(
-        (set, get) => ({
+        audit(history((set, get) => ({
             // Initial State
             changeRequests: [],
             environmentResources: [],
@@ -67,9 +87,13 @@ export const usePMOStore = create<PMOStoreState>()(
             approvalWorkflows: [],
             simulations: [],
             ghostTaskReports: [],
+            feishuConfig: null,
+            feishuSyncState: createEmptyFeishuSyncState(),
 
             // Change Request Actions
             addChangeRequest: (changeRequest) => {
+                if (!authorize('changeRequest:submit', changeRequest.projectId)) return;
+
                 const newChangeRequest: ChangeRequest = {
                     ...changeRequest,
                     id: `cr-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
@@ -81,6 +105,8 @@ export const usePMOStore = create<PMOStoreState>()(
             },
 
             updateChangeRequest: (id, updates) => {
+                if (!authorize('changeRequest:submit', get().changeRequests.find((cr) => cr.id === id)?.projectId)) return;
+
                 set((state) => ({
                     changeRequests: state.changeRequests.map((cr) =>
                         cr.id === id ? { ...cr, ...updates, updatedAt: new Date().toISOString() } : cr
@@ -89,6 +115,8 @@ export const usePMOStore = create<PMOStoreState>()(
             },
 
             approveChangeRequest: (id, approverId, approverName) => {
+                if (!authorize('changeRequest:approve', get().changeRequests.find((cr) => cr.id === id)?.projectId)) return;
+
                 set((state) => ({
                     changeRequests: state.changeRequests.map((cr) =>
                         cr.id === id
@@ -106,6 +134,8 @@ export const usePMOStore = create<PMOStoreState>()(
             },
 
             rejectChangeRequest: (id, approverId, approverName, reason) => {
+                if (!authorize('changeRequest:approve', get().changeRequests.find((cr) => cr.id === id)?.projectId)) return;
+
                 set((state) => ({
                     changeRequests: state.changeRequests.map((cr) =>
                         cr.id === id
@@ -123,12 +153,59 @@ export const usePMOStore = create<PMOStoreState>()(
                 }));
             },
 
+            // Applies the approved change to the plan and re-baselines the project after it
+            implementChangeRequest: (id) => {
+                const changeRequest = get().changeRequests.find((cr) => cr.id === id);
+                if (!changeRequest) return null;
+                // Check every permission the steps below need up front so a denied step can't leave the change half-applied
+                if (!authorize('project:edit', changeRequest.projectId) || !authorize('changeRequest:submit', changeRequest.projectId)) return null;
+
+                const { user, projects, workingCalendars, updateProject, createBaseline, setActiveBaseline, addNotification } = useStore.getState();
+                const project = projects.find((p) => p.id === changeRequest.projectId);
+                if (!project) return null;
+                if (changeRequest.status !== 'approved') {
+                    addNotification({ type: 'error', message: `变更「${changeRequest.title}」尚未批准，不能实施` });
+                    return null;
+                }
+
+                const delta = proposeChangeDelta(project, changeRequest, resolveCalendar(workingCalendars, project.calendarId));
+                // Plan update, new baseline and status change undo as one step
+                return undoHistory.transaction(`实施变更：${changeRequest.title}`, () => {
+                    updateProject(project.id, getChangeProjectUpdates(delta));
+                    if (useStore.getState().projects.find((p) => p.id === project.id) === project) return null; // Update was blocked
+
+                    createBaseline(project.id, `变更：${changeRequest.title}`, `实施变更请求后重新设定基线（延期 ${changeRequest.scheduleImpactDays} 天，成本 +¥${changeRequest.estimatedCostIncrease}，工时 +${changeRequest.estimatedEffortHours}h）`);
+                    const baselines = useStore.getState().projects.find((p) => p.id === project.id)?.baselines || [];
+                    const baseline = baselines[baselines.length - 1];
+                    if (baseline) setActiveBaseline(project.id, baseline.id);
+
+                    set((state) => ({
+                        changeRequests: state.changeRequests.map((cr) =>
+                            cr.id === id
+                                ? {
+                                    ...cr,
+                                    status: 'implemented',
+                                    implementedDate: new Date().toISOString(),
+                                    implementedBy: user?.name || user?.username,
+                                    implementation: createImplementationRecord(delta),
+                                    baselineId: baseline?.id,
+                                    updatedAt: new Date().toISOString(),
+                                }
+                                : cr
+                        ),
+                    }));
+                    return delta;
+                });
+            },
+
             getChangeRequestsByProject: (projectId) => {
                 return get().changeRequests.filter((cr) => cr.projectId === projectId);
             },
 
             // Environment Resource Actions
             addEnvironmentResource: (resource) => {
+                if (!authorize('environment:manage')) return;
+
                 const newResource: EnvironmentResource = {
                     ...resource,
                     id: `env-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
@@ -141,6 +218,8 @@ export const usePMOStore = create<PMOStoreState>()(
             },
 
             updateEnvironmentResource: (id, updates) => {
+                if (!authorize('environment:manage')) return;
+
                 set((state) => ({
                     environmentResources: state.environmentResources.map((env) =>
                         env.id === id ? { ...env, ...updates, updatedAt: new Date().toISOString() } : env
@@ -149,28 +228,82 @@ export const usePMOStore = create<PMOStoreState>()(
             },
 
             deleteEnvironmentResource: (id) => {
+                if (!authorize('environment:manage')) return;
+
                 set((state) => ({
                     environmentResources: state.environmentResources.filter((env) => env.id !== id),
                 }));
             },
 
+            checkEnvironmentBooking: (booking) => {
+                const environment = get().environmentResources.find((env) => env.id === booking.environmentId);
+                if (!environment) return null;
+
+                const { projects } = useStore.getState();
+                const projectPriorities = Object.fromEntries(projects.map((p) => [p.id, p.priority]));
+                return validateEnvironmentBooking(
+                    environment,
+                    { ...booking, priority: projectPriorities[booking.projectId] },
+                    { projectPriorities }
+                );
+            },
+
             bookEnvironment: (booking) => {
+                if (!authorize('environment:book', booking.projectId)) return null;
+
+                // Re-validated here so every caller gets capacity, maintenance and freeze checks
+                const check = get().checkEnvironmentBooking(booking);
+                if (!check) return null;
+                if (!check.allowed) {
+                    useStore.getState().addNotification({
+                        type: 'error',
+                        message: `预约被拒绝：${check.reasons.map((r) => r.message).join('；')}`
+                    });
+                    return check;
+                }
+
+                const now = new Date().toISOString();
+                const priority = useStore.getState().projects.find((p) => p.id === booking.projectId)?.priority;
                 const newBooking: EnvironmentBooking = {
                     ...booking,
+                    priority,
                     id: `booking-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-                    createdAt: new Date().toISOString(),
+                    createdAt: now,
                 };
+                const preemptedIds = new Set(check.preemptions.map((b) => b.id));
 
                 set((state) => ({
                     environmentResources: state.environmentResources.map((env) =>
                         env.id === booking.environmentId
-                            ? { ...env, bookings: [...env.bookings, newBooking] }
+                            ? {
+                                ...env,
+                                bookings: [
+                                    ...env.bookings.map((b) =>
+                                        preemptedIds.has(b.id)
+                                            ? { ...b, status: 'preempted' as const, preemptedBy: newBooking.id, updatedAt: now }
+                                            : b
+                                    ),
+                                    newBooking,
+                                ],
+                            }
                             : env
                     ),
                 }));
+
+                if (check.preemptions.length > 0) {
+                    useStore.getState().addNotification({
+                        type: 'warning',
+                        message: `${booking.projectName}（${priority}）抢占了 ${check.preemptions.map((b) => b.projectName).join('、')} 的环境预约`
+                    });
+                }
+                return check;
             },
 
             cancelEnvironmentBooking: (environmentId, bookingId) => {
+                const booking = get().environmentResources
+                    .find((env) => env.id === environmentId)?.bookings.find((b) => b.id === bookingId);
+                if (!authorize('environment:book', booking?.projectId)) return;
+
                 set((state) => ({
                     environmentResources: state.environmentResources.map((env) =>
                         env.id === environmentId
@@ -188,33 +321,17 @@ export const usePMOStore = create<PMOStoreState>()(
             },
 
             getAvailableEnvironments: (startDate, endDate, type) => {
-                const start = new Date(startDate);
-                const end = new Date(endDate);
-
-                return get().environmentResources.filter((env) => {
-                    // Filter by type if specified
-                    if (type && env.type !== type) return false;
-
-                    // Check if environment is available (not in maintenance)
-                    if (env.status !== 'available') return false;
-
-                    // Check for booking conflicts
-                    const hasConflict = env.bookings.some((booking) => {
-                        if (booking.status === 'cancelled' || booking.status === 'completed') return false;
-
-                        const bookingStart = new Date(booking.startDate);
-                        const bookingEnd = new Date(booking.endDate);
-
-                        // Check for overlap
-                        return start < bookingEnd && end > bookingStart;
-                    });
-
-                    return !hasConflict;
-                });
+                // Free for anyone: no preemption, lowest priority
+                return get().environmentResources.filter((env) =>
+                    (!type || env.type === type) &&
+                    isSlotAvailable(env, { projectId: '', startDate, endDate })
+                );
             },
 
             // Requirement Actions
             addRequirement: (requirement) => {
+                if (!authorize('requirement:manage', requirement.projectId)) return;
+
                 const newRequirement: Requirement = {
                     ...requirement,
                     id: `req-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
@@ -226,6 +343,8 @@ export const usePMOStore = create<PMOStoreState>()(
             },
 
             updateRequirement: (id, updates) => {
+                if (!authorize('requirement:manage', get().requirements.find((req) => req.id === id)?.projectId)) return;
+
                 set((state) => ({
                     requirements: state.requirements.map((req) =>
                         req.id === id ? { ...req, ...updates, updatedAt: new Date().toISOString() } : req
@@ -234,12 +353,16 @@ export const usePMOStore = create<PMOStoreState>()(
             },
 
             deleteRequirement: (id) => {
+                if (!authorize('requirement:manage', get().requirements.find((req) => req.id === id)?.projectId)) return;
+
                 set((state) => ({
                     requirements: state.requirements.filter((req) => req.id !== id),
                 }));
             },
 
             linkRequirementToTask: (requirementId, taskId) => {
+                if (!authorize('requirement:manage', get().requirements.find((req) => req.id === requirementId)?.projectId)) return;
+
                 set((state) => ({
                     requirements: state.requirements.map((req) =>
                         req.id === requirementId
@@ -254,6 +377,8 @@ export const usePMOStore = create<PMOStoreState>()(
             },
 
             unlinkRequirementFromTask: (requirementId, taskId) => {
+                if (!authorize('requirement:manage', get().requirements.find((req) => req.id === requirementId)?.projectId)) return;
+
                 set((state) => ({
                     requirements: state.requirements.map((req) =>
                         req.id === requirementId
@@ -283,7 +408,18 @@ export const usePMOStore = create<PMOStoreState>()(
                 }));
             },
 
-            updateApprovalStep: (workflowId, stepNumber, decision, comments) => {
+            updateApprovalStep: (workflowId, stepNumber, decision, comments, conditions) => {
+                if (!authorize('workflow:approve')) return;
+                // Only the step's assigned approver may decide, and never on their own request
+                const { user, addNotification } = useStore.getState();
+                const pending = get().approvalWorkflows.find((wf) => wf.id === workflowId);
+                if (!pending || !user) return;
+                const blocked = getApprovalStepBlocker(pending, stepNumber, user);
+                if (blocked) {
+                    addNotification({ type: 'error', message: blocked });
+                    return;
+                }
+
                 set((state) => ({
                     approvalWorkflows: state.approvalWorkflows.map((wf) => {
                         if (wf.id !== workflowId) return wf;
@@ -296,6 +432,7 @@ export const usePMOStore = create<PMOStoreState>()(
                                 status: decision === 'approve' ? 'approved' : 'rejected',
                                 decision,
                                 comments,
+                                conditions: conditions && conditions.length > 0 ? conditions : undefined,
                                 decidedAt: new Date().toISOString(),
                             };
                         });
@@ -317,6 +454,44 @@ export const usePMOStore = create<PMOStoreState>()(
                         };
                     }),
                 }));
+
+                // A finished stage-gate workflow records its outcome on the gate
+                const workflow = get().approvalWorkflows.find((wf) => wf.id === workflowId);
+                if (workflow?.type === 'stage_gate' && workflow.gateId && workflow.overallStatus !== 'pending') {
+                    const decided = workflow.approvers.filter((a) => a.decidedAt);
+                    const conditions = decided.flatMap((a) => a.conditions || []);
+                    useStore.getState().applyGateDecision(workflow.entityId, workflow.gateId, {
+                        approved: workflow.overallStatus === 'approved',
+                        approverId: user.id,
+                        approverName: user.name || 'Unknown',
+                        comments: decided.map((a) => a.comments).filter(Boolean).join('；') || undefined,
+                        conditions: conditions.length > 0 ? conditions : undefined
+                    });
+                }
+            },
+
+            requestStageGateApproval: (projectId, gateId) => {
+                if (!authorize('project:edit', projectId)) return null;
+                const { user, projects, projectTypeDefinitions, addNotification } = useStore.getState();
+                const project = projects.find((p) => p.id === projectId);
+                const gate = project && getProjectGates(project, projectTypeDefinitions).find((g) => g.id === gateId);
+                if (!project || !gate) return null;
+                if (!canApproveGate(gate)) {
+                    addNotification({ type: 'error', message: `「${gate.name}」还有必需检查项未完成` });
+                    return null;
+                }
+
+                const workflow: ApprovalWorkflow = {
+                    ...createApprovalWorkflow('stage_gate', projectId, `${project.name} · ${gate.name}`, user?.id || 'anonymous', user?.name || 'Unknown'),
+                    gateId,
+                    id: `wf-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+                    createdAt: new Date().toISOString(),
+                };
+                set((state) => ({
+                    approvalWorkflows: [...state.approvalWorkflows, workflow],
+                }));
+                useStore.getState().markGateRequested(projectId, gateId, workflow.id);
+                return workflow;
             },
 
             getWorkflowsByEntity: (entityId) => {
@@ -325,29 +500,40 @@ export const usePMOStore = create<PMOStoreState>()(
 
             // Simulation Actions
             createSimulation: (simulation) => {
+                if (!authorize('simulation:manage')) return;
+
                 const newSimulation: ProjectSimulation = {
                     ...simulation,
                     id: `sim-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
                     createdAt: new Date().toISOString(),
                 };
                 set((state) => ({
-                    simulations: [...state.simulations, newSimulation],
+                    simulations: [
+                        ...state.simulations.map((sim) => (newSimulation.isActive ? { ...sim, isActive: false } : sim)),
+                        newSimulation,
+                    ],
                 }));
             },
 
             updateSimulation: (id, updates) => {
+                if (!authorize('simulation:manage')) return;
+
                 set((state) => ({
                     simulations: state.simulations.map((sim) => (sim.id === id ? { ...sim, ...updates } : sim)),
                 }));
             },
 
             deleteSimulation: (id) => {
+                if (!authorize('simulation:manage')) return;
+
                 set((state) => ({
                     simulations: state.simulations.filter((sim) => sim.id !== id),
                 }));
             },
 
             setActiveSimulation: (id) => {
+                if (!authorize('simulation:manage')) return;
+
                 set((state) => ({
                     simulations: state.simulations.map((sim) => ({
                         ...sim,
@@ -375,14 +561,58 @@ export const usePMOStore = create<PMOStoreState>()(
                     ghostTaskReports: state.ghostTaskReports.filter((r) => r.projectId !== projectId),
                 }));
             },
+
+            // Feishu Integration Actions
+            setFeishuConfig: (config) => {
+                if (!authorize('settings:manage')) return;
+
+                set((state) => {
+                    // Switching to another Bitable app invalidates record links and cursors
+                    const appChanged = state.feishuConfig?.appToken !== config?.appToken;
+                    return {
+                        feishuConfig: config,
+                        feishuSyncState: appChanged ? createEmptyFeishuSyncState() : state.feishuSyncState,
+                    };
+                });
+            },
+
+            setFeishuSyncState: (syncState) => {
+                if (!authorize('settings:manage')) return;
+
+                set({ feishuSyncState: syncState });
+            },
+        }), {
+            store: 'pmo',
+            keys: ['changeRequests', 'environmentResources', 'requirements', 'approvalWorkflows', 'simulations'],
+        }), {
+            store: 'pmo',
+            collections: [
+                { key: 'changeRequests', entityType: 'changeRequest' },
+                { key: 'environmentResources', entityType: 'environment' },
+                { key: 'requirements', entityType: 'requirement' },
+                { key: 'approvalWorkflows', entityType: 'workflow' },
+                { key: 'simulations', entityType: 'simulation' },
+            ],
+            getUser: () => useStore.getState().user,
         }),
         {
             name: 'pmo-storage',
-            storage: createJSONStorage(() => localStorage),
+            storage: createPersistStorage<PMOStoreState>(),
+            // Only the table mapping is persisted: configs saved before the server proxy still carry the app secret
+            partialize: (state) => ({
+                ...state,
+                feishuConfig: state.feishuConfig && {
+                    appToken: state.feishuConfig.appToken,
+                    tables: state.feishuConfig.tables,
+                    defaultTeamId: state.feishuConfig.defaultTeamId,
+                },
+            }),
         }
     )
 );
 
+syncEngine.registerRehydrate('pmo-storage', () => usePMOStore.persist.rehydrate());
+
 // Selectors
 export const useChangeRequests = () => usePMOStore((state) => state.changeRequests);
 export const useEnvironmentResources = () => usePMOStore((state) => state.environmentResources);
@@ -390,3 +620,5 @@ export const useRequirements = () => usePMOStore((state) => state.requirements);
 export const useApprovalWorkflows = () => usePMOStore((state) => state.approvalWorkflows);
 export const useSimulations = () => usePMOStore((state) => state.simulations);
 export const useGhostTaskReports = () => usePMOStore((state) => state.ghostTaskReports);
+export const useFeishuConfig = () => usePMOStore((state) => state.feishuConfig);
+export const useFeishuSyncState = () => usePMOStore((state) => state.feishuSyncState);
@@ -0,0 +1,88 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import type { Project, User } from '../types';
+
+type StoreModule = typeof import('./useStore');
+
+let useStore: StoreModule['useStore'];
+
+const memoryStorage = () => {
+    const items = new Map<string, string>();
+    return {
+        getItem: (key: string) => items.get(key) ?? null,
+        setItem: (key: string, value: string) => { items.set(key, value); },
+        removeItem: (key: string) => { items.delete(key); },
+        clear: () => items.clear(),
+        key: (index: number) => [...items.keys()][index] ?? null,
+        get length() { return items.size; }
+    };
+};
+
+const admin: User = { id: 'u-admin', username: 'admin', name: '管理员', role: 'admin', authRole: 'admin' };
+// 普通用户只有 task:edit，作为 PDSG 成员可以编辑所在项目的任务
+const member: User = { id: 'u-member', username: 'member', name: '成员', role: 'user', authRole: 'user', memberId: 'm-1' };
+
+const project = {
+    id: 'p-task-only',
+    name: '原项目名',
+    description: '',
+    status: 'planning',
+    priority: 'P1',
+    startDate: '2026-01-05',
+    endDate: '2026-03-31',
+    factors: {},
+    pdsgMembers: [{ id: 'm-1', name: '成员', role: 'PM' }],
+    tasks: [{ id: 't-1', name: '设计', type: 'task', startDate: '2026-01-05', endDate: '2026-01-09', progress: 0 }]
+} as unknown as Project;
+
+const current = () => useStore.getState().projects.find(p => p.id === project.id)!;
+
+beforeAll(async () => {
+    const localStorage = memoryStorage();
+    vi.stubGlobal('localStorage', localStorage);
+    vi.stubGlobal('window', Object.assign(new EventTarget(), { localStorage }));
+    ({ useStore } = await import('./useStore'));
+
+    useStore.getState().login(admin);
+    useStore.getState().addProject(project);
+    useStore.getState().login(member);
+});
+
+describe('updateProject 权限', () => {
+    it('仅有任务权限的成员可以移动任务', () => {
+        const moved = current().tasks!.map(t => ({ ...t, startDate: '2026-01-12', endDate: '2026-01-16' }));
+        useStore.getState().updateProject(project.id, { tasks: moved });
+
+        expect(current().tasks![0].startDate).toBe('2026-01-12');
+    });
+
+    it('仅有任务权限的成员不能修改项目名称', () => {
+        useStore.getState().updateProject(project.id, { name: '改名' });
+        // 夹带任务的项目字段修改同样需要项目编辑权限
+        useStore.getState().updateProject(project.id, { tasks: current().tasks, name: '改名' });
+
+        expect(current().name).toBe('原项目名');
+    });
+});
+
+describe('阶段门径', () => {
+    beforeAll(() => {
+        useStore.getState().login(admin);
+    });
+
+    it('通用更新不能修改门径与当前阶段', () => {
+        const gates = current().gates!.map(g => ({ ...g, status: 'approved' as const }));
+        useStore.getState().updateProject(project.id, { gates, currentStage: 'closing' });
+
+        expect(current().currentStage).toBe('initiation');
+        expect(current().gates!.every(g => g.status === 'pending')).toBe(true);
+    });
+
+    it('新建项目的初始状态同样需要通过门径校验', () => {
+        useStore.getState().addProject({ ...project, id: 'p-active', status: 'active' });
+        useStore.getState().addProject({ ...project, id: 'p-late-stage', status: 'planning', currentStage: 'execution' });
+
+        const ids = useStore.getState().projects.map(p => p.id);
+        expect(ids).not.toContain('p-active');
+        expect(ids).not.toContain('p-late-stage');
+    });
+});
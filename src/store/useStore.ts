@@ -1,13 +1,47 @@
+import { useMemo, useSyncExternalStore } from 'react';
 import { create } from 'zustand';
-import { persist, createJSONStorage, devtools } from 'zustand/middleware';
-import type { Project, FactorDefinition, User, ResourcePoolItem, Notification, Alert, ProjectTemplate, KeyTaskDefinition, BayResource, MachineResource, BaySize, ProjectTypeDefinition } from '../types';
+import { persist, devtools } from 'zustand/middleware';
+import { format } from 'date-fns';
+import type { Project, FactorDefinition, FactorWeightSet, User, UserRole, Permission, ResourcePoolItem, Notification, Alert, ProjectTemplate, KeyTaskDefinition, BayResource, MachineResource, MaintenancePlan, BaySize, BayMachineCompatibilityRule, ResourceBooking, SoftwareHistoryRecord, SoftwareBaseline, SoftwareRolloutCampaign, ProjectTypeDefinition, WorkingCalendar, CalendarException, Program, StageGate, GateDecision, RiskReserve, RiskReserveDrawdownType, RaidKind, RaidItem, RaidItemMap, RaidItemInput, LessonLearned } from '../types';
 import { calculateProjectScore, rankProjects } from '../utils/algorithm';
 import { createBaseline as createBaselineSnapshot } from '../utils/baselineManagement';
+import { getTaskDependencies } from '../utils/taskDependency';
+import { DEFAULT_WORKING_CALENDARS, resolveCalendar, validateWorkingCalendar } from '../utils/workingCalendar';
+import { applyMaintenanceForecast } from '../utils/predictiveMaintenance';
+import { DEFAULT_COMPATIBILITY_RULES, validatePairBooking, type PairBookingCheck, type PairBookingRequest } from '../utils/bayMachineCompatibility';
+import { scheduleRolloutSlots } from '../utils/softwareCompliance';
+import { CONSISTENCY_THRESHOLD, applyWeightsToDefinitions } from '../utils/factorWeighting';
+import {
+    DEFAULT_STAGE_GATES,
+    STAGE_ORDER,
+    STATUS_ENTRY_STAGE,
+    approveGate,
+    getGateTemplate,
+    getNextStage,
+    getProjectGates,
+    instantiateGates,
+    rejectGate,
+    requestGate,
+    updateRequirement,
+    validateStageTransition
+} from '../utils/stageGateManagement';
+import { updateRisk } from '../utils/riskManagement';
+import { createReserveDrawdown } from '../utils/riskReserve';
+import { getRelevantLessons } from '../utils/lessonsLearned';
+import { RAID_COLLECTION_KEYS, RAID_KIND_LABELS, applyRaidStatusDates } from '../utils/raidLog';
+import { createPersistStorage, syncEngine } from '../services/storage';
+import { loadSession, setSessionUser } from '../services/auth/session';
+import { hasPermission, canSwitchRole, PERMISSION_LABELS } from '../utils/permissions';
+import type { AuditCollection } from '../utils/auditTrail';
+import { audit } from './auditMiddleware';
+import { history } from './historyMiddleware';
+import { undoHistory } from '../services/undoHistory';
 
 interface StoreState {
     user: User | null;
     projects: Project[];
     factorDefinitions: FactorDefinition[];
+    factorWeightSets: FactorWeightSet[];
     resourcePool: ResourcePoolItem[];
     projectTemplates: ProjectTemplate[];
     notifications: Notification[];
@@ -15,12 +49,20 @@ interface StoreState {
     keyTaskDefinitions: KeyTaskDefinition[];
     physicalBays: BayResource[];
     physicalMachines: MachineResource[];
+    bayMachineCompatibility: BayMachineCompatibilityRule[];
+    softwareBaselines: SoftwareBaseline[];
+    rolloutCampaigns: SoftwareRolloutCampaign[];
     projectTypeDefinitions: ProjectTypeDefinition[];
+    workingCalendars: WorkingCalendar[];
+    calendarExceptions: CalendarException[];
+    programs: Program[];
+    lessonsLearned: LessonLearned[];
 
     // Actions
-    login: (username: string, role: 'admin' | 'manager' | 'user' | 'readonly' | 'pmo') => void;
+    login: (user: User) => void;
     logout: () => void;
-    updateUser: (updates: Partial<User>) => void;
+    updateUser: (updates: Partial<Omit<User, 'role' | 'authRole'>>) => void;
+    switchRole: (role: UserRole) => void;
 
     addProject: (project: Project) => void;
     updateProject: (id: string, updates: Partial<Project>) => void;
@@ -30,6 +72,7 @@ interface StoreState {
     updateFactor: (id: string, updates: Partial<FactorDefinition>) => void;
     deleteFactor: (id: string) => void;
     recalculateScores: () => void;
+    publishFactorWeights: (weights: Record<string, number>, details: Pick<FactorWeightSet, 'method' | 'comparisons' | 'consistencyRatio' | 'notes'>) => FactorWeightSet | null;
 
     addResource: (resource: ResourcePoolItem) => void;
     updateResource: (id: string, updates: Partial<ResourcePoolItem>) => void;
@@ -46,6 +89,33 @@ interface StoreState {
     deleteProjects: (ids: string[]) => void;
     updateProjectsStatus: (ids: string[], status: Project['status']) => void;
 
+    // Stage Gates
+    updateGateRequirement: (projectId: string, gateId: string, requirementId: string, completed: boolean) => void;
+    markGateRequested: (projectId: string, gateId: string, workflowId: string) => void;
+    applyGateDecision: (projectId: string, gateId: string, decision: GateDecision) => void;
+    advanceProjectStage: (projectId: string) => void;
+
+    // Risk Reserve
+    setRiskReserve: (projectId: string, reserve: RiskReserve | undefined) => void;
+    recordRiskReserveDrawdown: (projectId: string, riskId: string, type: RiskReserveDrawdownType, amount?: number, note?: string) => void;
+
+    // RAID Log
+    addRaidItem: <K extends RaidKind>(projectId: string, kind: K, item: RaidItemInput<K>) => void;
+    updateRaidItem: <K extends RaidKind>(projectId: string, kind: K, id: string, updates: Partial<RaidItemMap[K]>) => void;
+    deleteRaidItem: (projectId: string, kind: RaidKind, id: string) => void;
+    escalateRaidItem: (projectId: string, kind: RaidKind, id: string, reason: string) => void;
+    acknowledgeRaidEscalation: (projectId: string, kind: RaidKind, id: string, response?: string) => void;
+
+    // Programs
+    addProgram: (program: Omit<Program, 'id' | 'createdAt'>) => void;
+    updateProgram: (id: string, updates: Partial<Omit<Program, 'id' | 'createdAt'>>) => void;
+    deleteProgram: (id: string) => void;
+
+    // Lessons Learned
+    addLesson: (lesson: Omit<LessonLearned, 'id' | 'createdAt'>) => void;
+    updateLesson: (id: string, updates: Partial<Omit<LessonLearned, 'id' | 'projectId' | 'createdAt'>>) => void;
+    deleteLesson: (id: string) => void;
+
     addTemplate: (template: ProjectTemplate) => void;
     updateTemplate: (id: string, updates: Partial<ProjectTemplate>) => void;
     deleteTemplate: (id: string) => void;
@@ -66,11 +136,33 @@ interface StoreState {
     deletePhysicalBay: (id: string) => void;
     deletePhysicalMachine: (id: string) => void;
     updatePhysicalResource: (id: string, updates: any) => void;
+    runPredictiveMaintenance: () => MaintenancePlan[];
+    bookBayMachinePair: (request: PairBookingRequest) => PairBookingCheck;
+    checkInBooking: (bookingId: string) => boolean;
+
+    // Bay–Machine Compatibility
+    addCompatibilityRule: (rule: Omit<BayMachineCompatibilityRule, 'id'>) => void;
+    updateCompatibilityRule: (id: string, updates: Partial<BayMachineCompatibilityRule>) => void;
+    deleteCompatibilityRule: (id: string) => void;
+
+    // Software Baselines & Rollouts
+    saveSoftwareBaseline: (baseline: Omit<SoftwareBaseline, 'id' | 'approvedBy' | 'approvedAt'>) => void;
+    deleteSoftwareBaseline: (id: string) => void;
+    createRolloutCampaign: (campaign: Pick<SoftwareRolloutCampaign, 'name' | 'platform' | 'targetVersion' | 'startDate' | 'endDate' | 'maxPerDay'> & { machineIds: string[] }) => SoftwareRolloutCampaign | null;
+    completeRolloutSlot: (campaignId: string, machineId: string, success: boolean) => void;
+    cancelRolloutCampaign: (id: string) => void;
 
     // Project Type Definitions
     addProjectTypeDefinition: (name: string, color: string) => void;
     updateProjectTypeDefinition: (id: string, updates: Partial<ProjectTypeDefinition>) => void;
     deleteProjectTypeDefinition: (id: string) => void;
+
+    // Working Calendars
+    addWorkingCalendar: (calendar: Omit<WorkingCalendar, 'id'>) => void;
+    updateWorkingCalendar: (id: string, updates: Partial<WorkingCalendar>) => void;
+    deleteWorkingCalendar: (id: string) => void;
+    addCalendarException: (exception: Omit<CalendarException, 'id'>) => void;
+    deleteCalendarException: (id: string) => void;
 }
 
 // Default data
@@ -93,7 +185,7 @@ const DEFAULT_RESOURCES: ResourcePoolItem[] = [
 const DEFAULT_PROJECT_TYPES: ProjectTypeDefinition[] = [
     { id: 'type-rnd', name: '新产品研发', color: '#3b82f6' }, // Blue
     { id: 'type-pre', name: '预研项目', color: '#10b981' }, // Green
-    { id: 'type-reg', name: '注册变更', color: '#f59e0b' }, // Amber
+    { id: 'type-reg', name: '注册变更', color: '#f59e0b', gateTemplate: DEFAULT_STAGE_GATES.registration }, // Amber
     { id: 'type-maint', name: '产品维护', color: '#8b5cf6' }, // Purple
 ];
 
@@ -242,13 +334,128 @@ const MOCK_MACHINES: MachineResource[] = PRODUCTION_EQUIPMENT_MODELS.map((model,
     version: 1
 } as any));
 
+// Fields a booking or release touches on a bay/machine; anything else is resource administration
+const BOOKING_FIELDS = [
+    'status', 'version', 'bookings', 'currentProjectId', 'currentProjectName',
+    'currentBayId', 'currentBayName', 'currentMachineId', 'currentMachineName',
+    'softwareVersion', 'softwareHistory'
+];
+
+/**
+ * Work out which permission a bay/machine update needs from the fields it changes
+ */
+const getPhysicalUpdatePermission = (
+    current: BayResource | MachineResource | undefined,
+    updates: Record<string, any>
+): Permission => {
+    if (updates.maintenancePlans) {
+        const previous = new Map((current?.maintenancePlans || []).map(p => [p.id, p.status]));
+        const decided = (updates.maintenancePlans as MaintenancePlan[]).some(p =>
+            previous.has(p.id) ? previous.get(p.id) !== p.status : p.status !== 'pending'
+        );
+        return decided ? 'maintenance:approve' : 'maintenance:request';
+    }
+    return Object.keys(updates).every(key => BOOKING_FIELDS.includes(key)) ? 'bay:book' : 'resource:manage';
+};
+
+/**
+ * Apply a change to one gate, materialising the project's gates from its type template first
+ */
+const withGate = (
+    project: Project,
+    projectTypes: ProjectTypeDefinition[],
+    gateId: string,
+    update: (gate: StageGate) => StageGate
+): Project => ({
+    ...project,
+    currentStage: project.currentStage || 'initiation',
+    gates: getProjectGates(project, projectTypes).map(g => g.id === gateId ? update(g) : g)
+});
+
+/**
+ * Gates and the current stage only change through gate actions (requirements, requests, decisions)
+ * and advanceProjectStage, never through a generic project update
+ */
+const withoutLifecycle = ({ gates: _gates, currentStage: _currentStage, ...fields }: Partial<Project>): Partial<Project> => fields;
+
+/**
+ * Merge project updates, keeping the lifecycle consistent: a gated status moves the stage forward,
+ * and a type change re-instantiates gates that have not been worked on yet
+ */
+const withStageUpdates = (project: Project, updates: Partial<Project>, projectTypes: ProjectTypeDefinition[]): Project => {
+    const next = { ...project, ...withoutLifecycle(updates) };
+    const untouched = !project.gates || project.gates.every(g => g.status === 'pending' && g.requirements.every(r => !r.completed));
+    if (updates.projectType !== undefined && updates.projectType !== project.projectType && untouched) {
+        next.gates = instantiateGates(getGateTemplate(projectTypes, updates.projectType));
+    }
+    const entryStage = updates.status ? STATUS_ENTRY_STAGE[updates.status] : undefined;
+    if (entryStage && STAGE_ORDER.indexOf(next.currentStage || 'initiation') < STAGE_ORDER.indexOf(entryStage)) {
+        next.currentStage = entryStage;
+    }
+    return next;
+};
+
+/**
+ * Drop deleted projects from program membership and program milestones
+ */
+const withoutProjects = (programs: Program[], projectIds: string[]): Program[] =>
+    programs.map(program => program.projectIds.some(id => projectIds.includes(id))
+        ? {
+            ...program,
+            projectIds: program.projectIds.filter(id => !projectIds.includes(id)),
+            milestones: program.milestones.map(m => ({ ...m, projectIds: m.projectIds.filter(id => !projectIds.includes(id)) }))
+        }
+        : program);
+
+/**
+ * Apply a change to one RAID collection of a project
+ */
+const withRaidItems = (project: Project, kind: RaidKind, update: (items: RaidItem[]) => RaidItem[]): Project => {
+    const key = RAID_COLLECTION_KEYS[kind];
+    return { ...project, [key]: update((project[key] || []) as RaidItem[]) };
+};
+
+// Entity collections recorded in the audit trail (tasks, milestones and risks are logged per entity)
+const AUDITED_COLLECTIONS: AuditCollection[] = [
+    {
+        key: 'projects',
+        entityType: 'project',
+        ignore: ['score', 'rank'],
+        children: [
+            { key: 'tasks', entityType: 'task' },
+            { key: 'milestones', entityType: 'milestone' },
+            { key: 'risks', entityType: 'risk' },
+            { key: 'issues', entityType: 'issue' },
+            { key: 'assumptions', entityType: 'assumption' },
+            { key: 'decisions', entityType: 'decision' },
+            { key: 'actionItems', entityType: 'actionItem' }
+        ]
+    },
+    { key: 'resourcePool', entityType: 'resource', children: [{ key: 'members', entityType: 'teamMember' }] },
+    { key: 'physicalBays', entityType: 'bay', ignore: ['version'] },
+    { key: 'physicalMachines', entityType: 'machine', ignore: ['version'] },
+    { key: 'bayMachineCompatibility', entityType: 'compatibilityRule' },
+    { key: 'softwareBaselines', entityType: 'softwareBaseline' },
+    { key: 'rolloutCampaigns', entityType: 'rolloutCampaign' },
+    { key: 'factorDefinitions', entityType: 'factor' },
+    { key: 'factorWeightSets', entityType: 'factorWeightSet' },
+    { key: 'programs', entityType: 'program', children: [{ key: 'milestones', entityType: 'milestone' }] },
+    { key: 'lessonsLearned', entityType: 'lesson' },
+    { key: 'projectTemplates', entityType: 'template' },
+    { key: 'projectTypeDefinitions', entityType: 'projectType' },
+    { key: 'keyTaskDefinitions', entityType: 'keyTask' },
+    { key: 'workingCalendars', entityType: 'calendar' }
+];
+
 export const useStore = create<StoreState>()(
     devtools(
         persist(
-            (set, get) => ({
-                user: null,
+            audit(history((set, get) => ({
+                // The signed-in user lives in the local session, not in the shared storage backend
+                user: loadSession().user,
                 projects: [],
                 factorDefinitions: DEFAULT_FACTORS,
+                factorWeightSets: [],
                 resourcePool: DEFAULT_RESOURCES,
                 projectTemplates: DEFAULT_TEMPLATES,
                 notifications: [],
@@ -256,81 +463,197 @@ export const useStore = create<StoreState>()(
                 keyTaskDefinitions: DEFAULT_KEY_TASKS,
                 physicalBays: MOCK_BAYS,
                 physicalMachines: MOCK_MACHINES,
+                bayMachineCompatibility: DEFAULT_COMPATIBILITY_RULES,
+                softwareBaselines: [],
+                rolloutCampaigns: [],
                 projectTypeDefinitions: DEFAULT_PROJECT_TYPES,
+                workingCalendars: DEFAULT_WORKING_CALENDARS,
+                calendarExceptions: [],
+                programs: [],
+                lessonsLearned: [],
+
+                // The user comes from an AuthProvider; credentials are never checked here
+                login: (user) => set({
+                    user: { ...user, authRole: user.authRole ?? user.role }
+                }, false, 'auth/login'),
+
+                logout: () => {
+                    // Another user must not be able to undo the previous session's edits
+                    undoHistory.clear();
+                    set({ user: null }, false, 'auth/logout');
+                },
 
-                login: (username, role) => set({
-                    user: {
-                        id: 'u-1',
-                        username,
-                        role,
-                        name: role === 'pmo' ? 'PMO Specialist' : role === 'admin' ? 'Administrator' : role === 'manager' ? 'Project Manager' : role === 'readonly' ? 'Viewer' : 'Standard User',
-                        email: `${username}@example.com`,
-                        avatar: `https://ui-avatars.com/api/?name=${username}&background=random`
+                updateUser: (updates) => set((state) => {
+                    // Roles can only change through switchRole
+                    const { role: _role, authRole: _authRole, ...profile } = updates as Partial<User>;
+                    return { user: state.user ? { ...state.user, ...profile } : null };
+                }, false, 'auth/updateUser'),
+
+                switchRole: (role) => {
+                    if (!canSwitchRole(get().user)) {
+                        get().addNotification({ type: 'error', message: `权限不足：${PERMISSION_LABELS['role:switch']}` });
+                        return;
                     }
-                }, false, 'auth/login'),
+                    set((state) => ({
+                        user: state.user ? { ...state.user, role } : null
+                    }), false, 'auth/switchRole');
+                },
+
+                addProject: (project) => {
+                    if (!authorize('project:create')) return;
+                    // A new project starts at initiation with fresh gates; a later stage or status must pass them like any transition
+                    const fresh = { ...withoutLifecycle(project), status: 'planning', currentStage: 'initiation' } as Project;
+                    const blocked = validateStageTransition(fresh, project, get().projectTypeDefinitions);
+                    if (blocked) {
+                        get().addNotification({ type: 'error', message: `${project.name}：${blocked}` });
+                        return;
+                    }
+                    set((state) => {
+                        const score = calculateProjectScore(project.factors, state.factorDefinitions);
+                        // Without a portfolio-wide role the creator must stay a member to keep editing it
+                        const creator = !project.managerId && state.user && !hasPermission(state.user, 'project:edit', project)
+                            ? state.user
+                            : null;
+                        const newProject = {
+                            ...project,
+                            score,
+                            manager: project.manager || (creator ? creator.name || creator.username : undefined),
+                            managerId: project.managerId || creator?.id,
+                            currentStage: project.currentStage || 'initiation',
+                            gates: getProjectGates(fresh, state.projectTypeDefinitions)
+                        };
+                        const newProjects = [...state.projects, newProject];
+                        return { projects: rankProjects(newProjects, state.factorDefinitions) };
+                    }, false, 'projects/add');
+
+                    // Surface what went wrong on earlier projects of the same type
+                    const lessons = getRelevantLessons(project, get().lessonsLearned);
+                    if (lessons.length > 0) {
+                        get().addAlert({
+                            type: 'info',
+                            message: `${project.name}：同类型项目已沉淀 ${lessons.length} 条经验教训，建议立项时参考`,
+                            link: `/pmo/lessons?projectType=${project.projectType}`
+                        });
+                    }
+                },
 
-                logout: () => set({ user: null }, false, 'auth/logout'),
-
-                updateUser: (updates) => set((state) => ({
-                    user: state.user ? { ...state.user, ...updates } : null
-                }), false, 'auth/updateUser'),
-
-                addProject: (project) => set((state) => {
-                    const score = calculateProjectScore(project.factors, state.factorDefinitions);
-                    const newProject = { ...project, score };
-                    const newProjects = [...state.projects, newProject];
-                    return { projects: rankProjects(newProjects, state.factorDefinitions) };
-                }, false, 'projects/add'),
-
-                updateProject: (id, updates) => set((state) => {
-                    const newProjects = state.projects.map((p) =>
-                        p.id === id ? { ...p, ...updates } : p
-                    );
-                    const updatedProject = newProjects.find(p => p.id === id);
-                    if (updatedProject && updates.factors) {
-                        updatedProject.score = calculateProjectScore(updatedProject.factors, state.factorDefinitions);
+                updateProject: (id, changes) => {
+                    const updates = withoutLifecycle(changes);
+                    // Task-only edits (Gantt, board, task modal) need task:edit; anything else is a project edit
+                    const taskOnly = Object.keys(updates).every(key => key === 'tasks');
+                    if (!authorize(taskOnly ? 'task:edit' : 'project:edit', id)) return;
+                    const current = get().projects.find(p => p.id === id);
+                    const blocked = current && validateStageTransition(current, updates, get().projectTypeDefinitions);
+                    if (blocked) {
+                        get().addNotification({ type: 'error', message: blocked });
+                        return;
                     }
-                    return { projects: rankProjects(newProjects, state.factorDefinitions) };
-                }, false, 'projects/update'),
+                    set((state) => {
+                        const newProjects = state.projects.map((p) =>
+                            p.id === id ? withStageUpdates(p, updates, state.projectTypeDefinitions) : p
+                        );
+                        const updatedProject = newProjects.find(p => p.id === id);
+                        if (updatedProject && updates.factors) {
+                            updatedProject.score = calculateProjectScore(updatedProject.factors, state.factorDefinitions);
+                        }
+                        return { projects: rankProjects(newProjects, state.factorDefinitions) };
+                    }, false, 'projects/update');
+                },
 
-                deleteProject: (id) => set((state) => ({
-                    projects: state.projects.filter((p) => p.id !== id)
-                }), false, 'projects/delete'),
+                deleteProject: (id) => {
+                    if (!authorize('project:delete', id)) return;
+                    set((state) => ({
+                        projects: state.projects.filter((p) => p.id !== id),
+                        programs: withoutProjects(state.programs, [id])
+                    }), false, 'projects/delete');
+                },
 
-                addFactor: (name) => set((state) => ({
-                    factorDefinitions: [
-                        ...state.factorDefinitions,
-                        { id: name.toLowerCase().replace(/\s+/g, '_'), name, weight: 10 }
-                    ]
-                }), false, 'factors/add'),
+                addFactor: (name) => {
+                    if (!authorize('settings:manage')) return;
+                    set((state) => ({
+                        factorDefinitions: [
+                            ...state.factorDefinitions,
+                            { id: name.toLowerCase().replace(/\s+/g, '_'), name, weight: 10 }
+                        ]
+                    }), false, 'factors/add');
+                },
 
-                updateFactor: (id, updates) => set((state) => ({
-                    factorDefinitions: state.factorDefinitions.map(f => f.id === id ? { ...f, ...updates } : f)
-                }), false, 'factors/update'),
+                updateFactor: (id, updates) => {
+                    if (!authorize('settings:manage')) return;
+                    set((state) => ({
+                        factorDefinitions: state.factorDefinitions.map(f => f.id === id ? { ...f, ...updates } : f)
+                    }), false, 'factors/update');
+                },
 
-                deleteFactor: (id) => set((state) => ({
-                    factorDefinitions: state.factorDefinitions.filter(f => f.id !== id)
-                }), false, 'factors/delete'),
+                deleteFactor: (id) => {
+                    if (!authorize('settings:manage')) return;
+                    set((state) => ({
+                        factorDefinitions: state.factorDefinitions.filter(f => f.id !== id)
+                    }), false, 'factors/delete');
+                },
 
                 recalculateScores: () => set((state) => ({
                     projects: rankProjects(state.projects, state.factorDefinitions)
                 }), false, 'projects/recalculate'),
 
-                addResource: (resource) => set((state) => ({
-                    resourcePool: [...state.resourcePool, resource]
-                }), false, 'resources/add'),
+                publishFactorWeights: (weights, details) => {
+                    if (!authorize('settings:manage')) return null;
+                    if (details.method === 'ahp' && (details.consistencyRatio ?? 0) > CONSISTENCY_THRESHOLD) {
+                        get().addNotification({ type: 'error', message: `两两比较一致性比率 CR=${details.consistencyRatio!.toFixed(3)} 超过 ${CONSISTENCY_THRESHOLD}，请调整判断后再发布` });
+                        return null;
+                    }
 
-                updateResource: (id, updates) => set((state) => ({
-                    resourcePool: state.resourcePool.map(r => r.id === id ? { ...r, ...updates } : r)
-                }), false, 'resources/update'),
+                    // Each publish is a new immutable version, so past rankings can be reproduced with the weights then in force
+                    const { factorDefinitions, factorWeightSets, user } = get();
+                    const version = factorWeightSets.reduce((max, s) => Math.max(max, s.version), 0) + 1;
+                    const weightSet: FactorWeightSet = {
+                        ...details,
+                        id: `weights-${Date.now()}`,
+                        version,
+                        name: `权重 v${version}`,
+                        weights: Object.fromEntries(factorDefinitions.map(f => [f.id, weights[f.id] ?? 0])),
+                        factorNames: Object.fromEntries(factorDefinitions.map(f => [f.id, f.name])),
+                        effectiveFrom: new Date().toISOString(),
+                        createdBy: user?.name || 'Unknown'
+                    };
+                    set((state) => {
+                        const definitions = applyWeightsToDefinitions(state.factorDefinitions, weightSet.weights);
+                        return {
+                            factorDefinitions: definitions,
+                            factorWeightSets: [...state.factorWeightSets, weightSet],
+                            projects: rankProjects(state.projects, definitions)
+                        };
+                    }, false, 'factors/publishWeights');
+                    return weightSet;
+                },
 
-                deleteResource: (id) => set((state) => ({
-                    resourcePool: state.resourcePool.filter(r => r.id !== id)
-                }), false, 'resources/delete'),
+                addResource: (resource) => {
+                    if (!authorize('resource:manage')) return;
+                    set((state) => ({
+                        resourcePool: [...state.resourcePool, resource]
+                    }), false, 'resources/add');
+                },
 
-                reorderResources: (newOrder) => set({
-                    resourcePool: newOrder
-                }, false, 'resources/reorder'),
+                updateResource: (id, updates) => {
+                    if (!authorize('resource:manage')) return;
+                    set((state) => ({
+                        resourcePool: state.resourcePool.map(r => r.id === id ? { ...r, ...updates } : r)
+                    }), false, 'resources/update');
+                },
+
+                deleteResource: (id) => {
+                    if (!authorize('resource:manage')) return;
+                    set((state) => ({
+                        resourcePool: state.resourcePool.filter(r => r.id !== id)
+                    }), false, 'resources/delete');
+                },
+
+                reorderResources: (newOrder) => {
+                    if (!authorize('resource:manage')) return;
+                    set({
+                        resourcePool: newOrder
+                    }, false, 'resources/reorder');
+                },
 
                 addNotification: (notification) => set((state) => ({
                     notifications: [
@@ -356,29 +679,249 @@ export const useStore = create<StoreState>()(
 
                 clearAlerts: () => set({ alerts: [] }, false, 'alerts/clear'),
 
-                deleteProjects: (ids) => set((state) => ({
-                    projects: state.projects.filter((p) => !ids.includes(p.id))
-                }), false, 'projects/batchDelete'),
+                deleteProjects: (ids) => {
+                    if (!ids.every(id => authorize('project:delete', id))) return;
+                    set((state) => ({
+                        projects: state.projects.filter((p) => !ids.includes(p.id)),
+                        programs: withoutProjects(state.programs, ids)
+                    }), false, 'projects/batchDelete');
+                },
+
+                updateProjectsStatus: (ids, status) => {
+                    if (!ids.every(id => authorize('project:edit', id))) return;
+                    const { projects, projectTypeDefinitions } = get();
+                    const blocked = projects
+                        .filter(p => ids.includes(p.id))
+                        .map(p => ({ project: p, reason: validateStageTransition(p, { status }, projectTypeDefinitions) }))
+                        .find(b => b.reason);
+                    if (blocked) {
+                        get().addNotification({ type: 'error', message: `${blocked.project.name}：${blocked.reason}` });
+                        return;
+                    }
+                    set((state) => ({
+                        projects: state.projects.map((p) =>
+                            ids.includes(p.id) ? withStageUpdates(p, { status }, state.projectTypeDefinitions) : p
+                        )
+                    }), false, 'projects/batchUpdateStatus');
+                },
+
+                updateGateRequirement: (projectId, gateId, requirementId, completed) => {
+                    if (!authorize('project:edit', projectId)) return;
+                    const userName = get().user?.name;
+                    set((state) => ({
+                        projects: state.projects.map(p => p.id === projectId
+                            ? withGate(p, state.projectTypeDefinitions, gateId, gate =>
+                                gate.status === 'pending' || gate.status === 'rejected'
+                                    ? updateRequirement(gate, requirementId, completed, userName)
+                                    : gate)
+                            : p)
+                    }), false, 'projects/updateGateRequirement');
+                },
+
+                markGateRequested: (projectId, gateId, workflowId) => {
+                    if (!authorize('project:edit', projectId)) return;
+                    set((state) => ({
+                        projects: state.projects.map(p => p.id === projectId
+                            ? withGate(p, state.projectTypeDefinitions, gateId, gate => ({ ...requestGate(gate), workflowId }))
+                            : p)
+                    }), false, 'projects/requestGate');
+                },
+
+                applyGateDecision: (projectId, gateId, decision) => {
+                    if (!authorize('workflow:approve')) return;
+                    set((state) => ({
+                        projects: state.projects.map(p => p.id === projectId
+                            ? withGate(p, state.projectTypeDefinitions, gateId, gate => decision.approved
+                                ? approveGate(gate, decision.approverId, decision.approverName, decision.comments, decision.conditions)
+                                : rejectGate(gate, decision.approverId, decision.approverName, decision.comments || ''))
+                            : p)
+                    }), false, 'projects/decideGate');
+                },
 
-                updateProjectsStatus: (ids, status) => set((state) => ({
-                    projects: state.projects.map((p) =>
-                        ids.includes(p.id) ? { ...p, status } : p
-                    )
-                }), false, 'projects/batchUpdateStatus'),
+                advanceProjectStage: (projectId) => {
+                    if (!authorize('project:edit', projectId)) return;
+                    const project = get().projects.find(p => p.id === projectId);
+                    const nextStage = project && getNextStage(project.currentStage || 'initiation');
+                    if (!project || !nextStage) return;
+                    const blocked = validateStageTransition(project, { currentStage: nextStage }, get().projectTypeDefinitions);
+                    if (blocked) {
+                        get().addNotification({ type: 'error', message: blocked });
+                        return;
+                    }
+                    set((state) => ({
+                        projects: state.projects.map(p => p.id === projectId
+                            ? { ...p, currentStage: nextStage, gates: getProjectGates(p, state.projectTypeDefinitions) }
+                            : p)
+                    }), false, 'projects/advanceStage');
+                },
 
-                addTemplate: (template) => set((state) => ({
-                    projectTemplates: [...state.projectTemplates, template]
-                }), false, 'templates/add'),
+                setRiskReserve: (projectId, reserve) => {
+                    if (!authorize('project:edit', projectId)) return;
+                    set((state) => ({
+                        projects: state.projects.map(p => p.id === projectId ? { ...p, riskReserve: reserve } : p)
+                    }), false, 'projects/setRiskReserve');
+                },
 
-                updateTemplate: (id, updates) => set((state) => ({
-                    projectTemplates: state.projectTemplates.map(t =>
-                        t.id === id ? { ...t, ...updates } : t
-                    )
-                }), false, 'templates/update'),
+                recordRiskReserveDrawdown: (projectId, riskId, type, amount, note) => {
+                    if (!authorize('project:edit', projectId)) return;
+                    const user = get().user;
+                    const project = get().projects.find(p => p.id === projectId);
+                    const risk = project?.risks?.find(r => r.id === riskId);
+                    if (!project?.riskReserve || !risk || risk.realizedDate || risk.status === 'resolved') return;
+
+                    const drawdown = createReserveDrawdown(risk, type, amount, user?.name, note);
+                    // Both outcomes close the risk; a realized risk also records its actual cost
+                    const resolved = updateRisk(risk, {
+                        status: 'resolved',
+                        resolvedDate: drawdown.date,
+                        ...(type === 'realized' ? { realizedCost: drawdown.amount, realizedDate: drawdown.date } : {})
+                    }, user?.id || 'system', user?.name || '系统');
+
+                    set((state) => ({
+                        projects: state.projects.map(p => p.id === projectId ? {
+                            ...p,
+                            risks: (p.risks || []).map(r => r.id === riskId ? resolved : r),
+                            riskReserve: p.riskReserve && { ...p.riskReserve, drawdowns: [...p.riskReserve.drawdowns, drawdown] }
+                        } : p)
+                    }), false, 'projects/drawRiskReserve');
+                },
+
+                addRaidItem: (projectId, kind, item) => {
+                    if (!authorize('task:edit', projectId)) return;
+                    const created = {
+                        ...item,
+                        id: `${kind}-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`,
+                        projectId,
+                        createdAt: new Date().toISOString()
+                    } as RaidItem;
+                    set((state) => ({
+                        projects: state.projects.map(p => p.id === projectId ? withRaidItems(p, kind, items => [...items, created]) : p)
+                    }), false, 'raid/add');
+                },
+
+                updateRaidItem: (projectId, kind, id, updates) => {
+                    if (!authorize('task:edit', projectId)) return;
+                    const userName = get().user?.name;
+                    const updatedAt = new Date().toISOString();
+                    set((state) => ({
+                        projects: state.projects.map(p => p.id === projectId
+                            ? withRaidItems(p, kind, items => items.map(item => item.id === id
+                                ? { ...item, ...applyRaidStatusDates(kind, item as RaidItemMap[typeof kind], updates, userName), updatedAt } as RaidItem
+                                : item))
+                            : p)
+                    }), false, 'raid/update');
+                },
 
-                deleteTemplate: (id) => set((state) => ({
-                    projectTemplates: state.projectTemplates.filter(t => t.id !== id && !t.isBuiltIn)
-                }), false, 'templates/delete'),
+                deleteRaidItem: (projectId, kind, id) => {
+                    if (!authorize('project:edit', projectId)) return;
+                    set((state) => ({
+                        projects: state.projects.map(p => p.id === projectId ? withRaidItems(p, kind, items => items.filter(i => i.id !== id)) : p)
+                    }), false, 'raid/delete');
+                },
+
+                escalateRaidItem: (projectId, kind, id, reason) => {
+                    if (!authorize('task:edit', projectId)) return;
+                    const project = get().projects.find(p => p.id === projectId);
+                    const item = project && (project[RAID_COLLECTION_KEYS[kind]] as RaidItem[] | undefined)?.find(i => i.id === id);
+                    if (!project || !item || (item.escalation && !item.escalation.acknowledgedAt)) return;
+
+                    const escalation = { reason, escalatedAt: new Date().toISOString(), escalatedBy: get().user?.name || '系统' };
+                    set((state) => ({
+                        projects: state.projects.map(p => p.id === projectId
+                            ? withRaidItems(p, kind, items => items.map(i => i.id === id ? { ...i, escalation } : i))
+                            : p)
+                    }), false, 'raid/escalate');
+                    get().addAlert({
+                        type: 'warning',
+                        message: `${project.name} 升级${RAID_KIND_LABELS[kind]}至 PMO：${item.title}`,
+                        link: `/projects/${projectId}/raid`
+                    });
+                },
+
+                acknowledgeRaidEscalation: (projectId, kind, id, response) => {
+                    if (!authorize('escalation:handle')) return;
+                    const acknowledgedBy = get().user?.name;
+                    const acknowledgedAt = new Date().toISOString();
+                    set((state) => ({
+                        projects: state.projects.map(p => p.id === projectId
+                            ? withRaidItems(p, kind, items => items.map(i => i.id === id && i.escalation
+                                ? { ...i, escalation: { ...i.escalation, acknowledgedAt, acknowledgedBy, response } }
+                                : i))
+                            : p)
+                    }), false, 'raid/acknowledgeEscalation');
+                },
+
+                addProgram: (program) => {
+                    if (!authorize('project:create')) return;
+                    set((state) => ({
+                        programs: [...state.programs, { ...program, id: `program-${Date.now()}`, createdAt: new Date().toISOString() }]
+                    }), false, 'programs/add');
+                },
+
+                updateProgram: (id, updates) => {
+                    if (!authorize('project:create')) return;
+                    set((state) => ({
+                        programs: state.programs.map(p => p.id === id ? { ...p, ...updates } : p)
+                    }), false, 'programs/update');
+                },
+
+                deleteProgram: (id) => {
+                    if (!authorize('project:create')) return;
+                    set((state) => ({
+                        programs: state.programs.filter(p => p.id !== id)
+                    }), false, 'programs/delete');
+                },
+
+                addLesson: (lesson) => {
+                    if (!authorize('project:edit', lesson.projectId)) return;
+                    set((state) => ({
+                        lessonsLearned: [...state.lessonsLearned, {
+                            ...lesson,
+                            id: `lesson-${Date.now()}`,
+                            createdAt: new Date().toISOString(),
+                            createdBy: lesson.createdBy ?? state.user?.name
+                        }]
+                    }), false, 'lessons/add');
+                },
+
+                updateLesson: (id, updates) => {
+                    const lesson = get().lessonsLearned.find(l => l.id === id);
+                    if (!lesson || !authorize('project:edit', lesson.projectId)) return;
+                    set((state) => ({
+                        lessonsLearned: state.lessonsLearned.map(l => l.id === id ? { ...l, ...updates } : l)
+                    }), false, 'lessons/update');
+                },
+
+                deleteLesson: (id) => {
+                    const lesson = get().lessonsLearned.find(l => l.id === id);
+                    if (!lesson || !authorize('project:edit', lesson.projectId)) return;
+                    set((state) => ({
+                        lessonsLearned: state.lessonsLearned.filter(l => l.id !== id)
+                    }), false, 'lessons/delete');
+                },
+
+                addTemplate: (template) => {
+                    if (!authorize('settings:manage')) return;
+                    set((state) => ({
+                        projectTemplates: [...state.projectTemplates, template]
+                    }), false, 'templates/add');
+                },
+
+                updateTemplate: (id, updates) => {
+                    if (!authorize('settings:manage')) return;
+                    set((state) => ({
+                        projectTemplates: state.projectTemplates.map(t =>
+                            t.id === id ? { ...t, ...updates } : t
+                        )
+                    }), false, 'templates/update');
+                },
+
+                deleteTemplate: (id) => {
+                    if (!authorize('settings:manage')) return;
+                    set((state) => ({
+                        projectTemplates: state.projectTemplates.filter(t => t.id !== id && !t.isBuiltIn)
+                    }), false, 'templates/delete');
+                },
 
                 createProjectFromTemplate: (templateId, projectName) => {
                     const state = get();
@@ -436,70 +979,103 @@ export const useStore = create<StoreState>()(
                 },
 
                 // Baseline Management
-                createBaseline: (projectId, name, description) => set((state) => {
-                    const project = state.projects.find(p => p.id === projectId);
-                    if (!project || !state.user) return state;
-
-                    const baseline = createBaselineSnapshot(
-                        project,
-                        name,
-                        description,
-                        state.user.id,
-                        state.user.name || state.user.username
-                    );
-
-                    const updatedProjects = state.projects.map(p =>
-                        p.id === projectId
-                            ? {
-                                ...p,
-                                baselines: [...(p.baselines || []), baseline],
-                                activeBaselineId: p.activeBaselineId || baseline.id
-                            }
-                            : p
-                    );
-
-                    return { projects: updatedProjects };
-                }, false, 'baseline/create'),
-
-                setActiveBaseline: (projectId, baselineId) => set((state) => ({
-                    projects: state.projects.map(p =>
-                        p.id === projectId
-                            ? { ...p, activeBaselineId: baselineId }
-                            : p
-                    )
-                }), false, 'baseline/setActive'),
-
-                addKeyTaskDefinition: (name: string, color: string) => set((state) => ({
-                    keyTaskDefinitions: [
-                        ...state.keyTaskDefinitions,
-                        { id: `kt-${Date.now()}`, name, color }
-                    ]
-                }), false, 'keyTasks/add'),
-
-                updateKeyTaskDefinition: (id: string, updates: Partial<KeyTaskDefinition>) => set((state) => ({
-                    keyTaskDefinitions: state.keyTaskDefinitions.map(kt =>
-                        kt.id === id ? { ...kt, ...updates } : kt
-                    )
-                }), false, 'keyTasks/update'),
-
-                deleteKeyTaskDefinition: (id: string) => set((state) => ({
-                    keyTaskDefinitions: state.keyTaskDefinitions.filter(kt => kt.id !== id)
-                }), false, 'keyTasks/delete'),
-
-                setPhysicalBays: (bays) => set((state) => ({
-                    physicalBays: typeof bays === 'function' ? bays(state.physicalBays) : bays
-                }), false, 'physical/setBays'),
-                setPhysicalMachines: (machines) => set((state) => ({
-                    physicalMachines: typeof machines === 'function' ? machines(state.physicalMachines) : machines
-                }), false, 'physical/setMachines'),
-                deletePhysicalBay: (id: string) => set((state) => ({
-                    physicalBays: state.physicalBays.filter(bay => bay.id !== id)
-                }), false, 'physical/deleteBay'),
-                deletePhysicalMachine: (id: string) => set((state) => ({
-                    physicalMachines: state.physicalMachines.filter(mach => mach.id !== id)
-                }), false, 'physical/deleteMachine'),
+                createBaseline: (projectId, name, description) => {
+                    if (!authorize('project:edit', projectId)) return;
+                    set((state) => {
+                        const project = state.projects.find(p => p.id === projectId);
+                        if (!project || !state.user) return state;
+
+                        const baseline = createBaselineSnapshot(
+                            project,
+                            name,
+                            description,
+                            state.user.id,
+                            state.user.name || state.user.username
+                        );
+
+                        const updatedProjects = state.projects.map(p =>
+                            p.id === projectId
+                                ? {
+                                    ...p,
+                                    baselines: [...(p.baselines || []), baseline],
+                                    activeBaselineId: p.activeBaselineId || baseline.id
+                                }
+                                : p
+                        );
+
+                        return { projects: updatedProjects };
+                    }, false, 'baseline/create');
+                },
+
+                setActiveBaseline: (projectId, baselineId) => {
+                    if (!authorize('project:edit', projectId)) return;
+                    set((state) => ({
+                        projects: state.projects.map(p =>
+                            p.id === projectId
+                                ? { ...p, activeBaselineId: baselineId }
+                                : p
+                        )
+                    }), false, 'baseline/setActive');
+                },
+
+                addKeyTaskDefinition: (name: string, color: string) => {
+                    if (!authorize('settings:manage')) return;
+                    set((state) => ({
+                        keyTaskDefinitions: [
+                            ...state.keyTaskDefinitions,
+                            { id: `kt-${Date.now()}`, name, color }
+                        ]
+                    }), false, 'keyTasks/add');
+                },
+
+                updateKeyTaskDefinition: (id: string, updates: Partial<KeyTaskDefinition>) => {
+                    if (!authorize('settings:manage')) return;
+                    set((state) => ({
+                        keyTaskDefinitions: state.keyTaskDefinitions.map(kt =>
+                            kt.id === id ? { ...kt, ...updates } : kt
+                        )
+                    }), false, 'keyTasks/update');
+                },
+
+                deleteKeyTaskDefinition: (id: string) => {
+                    if (!authorize('settings:manage')) return;
+                    set((state) => ({
+                        keyTaskDefinitions: state.keyTaskDefinitions.filter(kt => kt.id !== id)
+                    }), false, 'keyTasks/delete');
+                },
+
+                setPhysicalBays: (bays) => {
+                    if (!authorize('resource:manage')) return;
+                    set((state) => ({
+                        physicalBays: typeof bays === 'function' ? bays(state.physicalBays) : bays
+                    }), false, 'physical/setBays');
+                },
+                setPhysicalMachines: (machines) => {
+                    if (!authorize('resource:manage')) return;
+                    set((state) => ({
+                        physicalMachines: typeof machines === 'function' ? machines(state.physicalMachines) : machines
+                    }), false, 'physical/setMachines');
+                },
+                deletePhysicalBay: (id: string) => {
+                    if (!authorize('resource:manage')) return;
+                    set((state) => ({
+                        physicalBays: state.physicalBays.filter(bay => bay.id !== id)
+                    }), false, 'physical/deleteBay');
+                },
+                deletePhysicalMachine: (id: string) => {
+                    if (!authorize('resource:manage')) return;
+                    set((state) => ({
+                        physicalMachines: state.physicalMachines.filter(mach => mach.id !== id)
+                    }), false, 'physical/deleteMachine');
+                },
                 updatePhysicalResource: (id, updates) => {
                     const isBay = id.startsWith('bay');
+                    const current = isBay
+                        ? get().physicalBays.find(b => b.id === id)
+                        : get().physicalMachines.find(m => m.id === id);
+                    const permission = getPhysicalUpdatePermission(current, updates);
+                    if (!authorize(permission, permission === 'bay:book' ? updates.currentProjectId ?? current?.currentProjectId : undefined)) return;
+
                     if (isBay) {
                         set((state) => ({
                             physicalBays: state.physicalBays.map((b) =>
@@ -514,36 +1090,375 @@ export const useStore = create<StoreState>()(
                         }), false, 'physical/updateMachine');
                     }
                 },
-                addProjectTypeDefinition: (name, color) => set((state) => ({
-                    projectTypeDefinitions: [
-                        ...state.projectTypeDefinitions,
-                        { id: `type-${Date.now()}`, name, color }
-                    ]
-                }), false, 'projectTypes/add'),
-                updateProjectTypeDefinition: (id, updates) => set((state) => ({
-                    projectTypeDefinitions: state.projectTypeDefinitions.map(d =>
-                        d.id === id ? { ...d, ...updates } : d
-                    )
-                }), false, 'projectTypes/update'),
-                deleteProjectTypeDefinition: (id) => set((state) => ({
-                    projectTypeDefinitions: state.projectTypeDefinitions.filter(d => d.id !== id)
-                }), false, 'projectTypes/delete'),
+                runPredictiveMaintenance: () => {
+                    if (!authorize('resource:manage')) return [];
+                    const proposals: MaintenancePlan[] = [];
+
+                    // Re-derive health/nextMaintenance and queue proposals; bump version only when something changed
+                    const forecast = <T extends BayResource | MachineResource>(resource: T): T => {
+                        const result = applyMaintenanceForecast(resource);
+                        if (result.proposal) proposals.push(result.proposal);
+                        const changed = result.proposal ||
+                            result.resource.health !== resource.health ||
+                            result.resource.nextMaintenance !== resource.nextMaintenance;
+                        return changed
+                            ? { ...result.resource, version: (resource.version || 0) + 1 }
+                            : resource;
+                    };
+
+                    set((state) => ({
+                        physicalBays: state.physicalBays.map(forecast),
+                        physicalMachines: state.physicalMachines.map(forecast)
+                    }), false, 'physical/predictMaintenance');
+                    return proposals;
+                },
+                bookBayMachinePair: (request) => {
+                    if (!authorize('bay:book', request.projectId)) return { allowed: false, reasons: ['权限不足'] };
+                    const { physicalBays, physicalMachines, bayMachineCompatibility } = get();
+                    const bay = physicalBays.find(b => b.id === request.bayId);
+                    const machine = physicalMachines.find(m => m.id === request.machineId);
+                    if (!bay || !machine) return { allowed: false, reasons: ['Bay 或机器不存在'] };
+
+                    const check = validatePairBooking(bay, machine, bayMachineCompatibility, request);
+                    if (!check.allowed) {
+                        get().addNotification({ type: 'error', message: `成对预约失败：${check.reasons[0]}` });
+                        return check;
+                    }
+
+                    // Both resources share one booking and are written in a single update, so neither can be held alone
+                    const today = format(new Date(), 'yyyy-MM-dd');
+                    const startsNow = request.startDate <= today;
+                    const booking: ResourceBooking = {
+                        id: `book-${Date.now()}`,
+                        projectId: request.projectId,
+                        projectName: request.projectName,
+                        startDate: request.startDate,
+                        endDate: request.endDate,
+                        reservedBy: request.reservedBy,
+                        reservedByName: request.reservedByName,
+                        reservedByDept: request.reservedByDept,
+                        purpose: request.purpose,
+                        usageType: request.usageType || 'test',
+                        status: startsNow ? 'active' : 'planned',
+                        actualStartDate: startsNow ? today : undefined,
+                        requiredSoftwareVersion: request.requiredSoftwareVersion,
+                        initialStatusConfirmed: request.initialStatusConfirmed
+                    };
+                    const occupancy = startsNow ? {
+                        status: 'occupied' as const,
+                        currentProjectId: request.projectId,
+                        currentProjectName: request.projectName
+                    } : {};
+
+                    set((state) => ({
+                        physicalBays: state.physicalBays.map(b => b.id === bay.id ? {
+                            ...b,
+                            ...occupancy,
+                            ...(startsNow ? { currentMachineId: machine.id, currentMachineName: machine.name } : {}),
+                            bookings: [booking, ...b.bookings],
+                            version: (b.version || 0) + 1
+                        } : b),
+                        physicalMachines: state.physicalMachines.map(m => m.id === machine.id ? {
+                            ...m,
+                            ...occupancy,
+                            ...(startsNow ? { currentBayId: bay.id, currentBayName: bay.name } : {}),
+                            bookings: [booking, ...m.bookings],
+                            version: (m.version || 0) + 1
+                        } : m)
+                    }), false, 'physical/bookPair');
+                    return check;
+                },
+                checkInBooking: (bookingId) => {
+                    const { physicalBays, physicalMachines } = get();
+                    const bay = physicalBays.find(b => b.bookings.some(bk => bk.id === bookingId));
+                    const machine = physicalMachines.find(m => m.bookings.some(bk => bk.id === bookingId));
+                    const booking = (bay || machine)?.bookings.find(bk => bk.id === bookingId);
+                    if (!booking || booking.status !== 'planned') return false;
+                    if (!authorize('bay:book', booking.projectId)) return false;
+
+                    // A paired booking checks in both resources at once; either being busy blocks the check-in
+                    const today = format(new Date(), 'yyyy-MM-dd');
+                    if (booking.startDate > today) return false;
+                    if ([bay, machine].some(r => r && r.status !== 'available')) return false;
+
+                    const started: ResourceBooking = { ...booking, status: 'active', actualStartDate: today };
+                    const occupancy = {
+                        status: 'occupied' as const,
+                        currentProjectId: booking.projectId,
+                        currentProjectName: booking.projectName
+                    };
+                    set((state) => ({
+                        physicalBays: state.physicalBays.map(b => b.id === bay?.id ? {
+                            ...b,
+                            ...occupancy,
+                            ...(machine ? { currentMachineId: machine.id, currentMachineName: machine.name } : {}),
+                            bookings: b.bookings.map(bk => bk.id === bookingId ? started : bk),
+                            version: (b.version || 0) + 1
+                        } : b),
+                        physicalMachines: state.physicalMachines.map(m => m.id === machine?.id ? {
+                            ...m,
+                            ...occupancy,
+                            ...(bay ? { currentBayId: bay.id, currentBayName: bay.name } : {}),
+                            bookings: m.bookings.map(bk => bk.id === bookingId ? started : bk),
+                            version: (m.version || 0) + 1
+                        } : m)
+                    }), false, 'physical/checkIn');
+                    return true;
+                },
+                addCompatibilityRule: (rule) => {
+                    if (!authorize('resource:manage')) return;
+                    set((state) => ({
+                        bayMachineCompatibility: [...state.bayMachineCompatibility, { ...rule, id: `compat-${Date.now()}` }]
+                    }), false, 'compatibility/add');
+                },
+                updateCompatibilityRule: (id, updates) => {
+                    if (!authorize('resource:manage')) return;
+                    set((state) => ({
+                        bayMachineCompatibility: state.bayMachineCompatibility.map(r => r.id === id ? { ...r, ...updates } : r)
+                    }), false, 'compatibility/update');
+                },
+                deleteCompatibilityRule: (id) => {
+                    if (!authorize('resource:manage')) return;
+                    set((state) => ({
+                        bayMachineCompatibility: state.bayMachineCompatibility.filter(r => r.id !== id)
+                    }), false, 'compatibility/delete');
+                },
+                saveSoftwareBaseline: (baseline) => {
+                    if (!authorize('resource:manage')) return;
+                    const approval = {
+                        approvedBy: get().user?.name || 'Unknown',
+                        approvedAt: new Date().toISOString()
+                    };
+                    // One baseline per platform: saving again replaces it
+                    set((state) => {
+                        const existing = state.softwareBaselines.find(b => b.platform === baseline.platform);
+                        return {
+                            softwareBaselines: existing
+                                ? state.softwareBaselines.map(b => b.id === existing.id ? { ...b, ...baseline, ...approval } : b)
+                                : [...state.softwareBaselines, { ...baseline, ...approval, id: `baseline-${Date.now()}` }]
+                        };
+                    }, false, 'software/saveBaseline');
+                },
+                deleteSoftwareBaseline: (id) => {
+                    if (!authorize('resource:manage')) return;
+                    set((state) => ({
+                        softwareBaselines: state.softwareBaselines.filter(b => b.id !== id)
+                    }), false, 'software/deleteBaseline');
+                },
+                createRolloutCampaign: (input) => {
+                    if (!authorize('resource:manage')) return null;
+                    const { physicalMachines, user } = get();
+                    const campaignId = `rollout-${Date.now()}`;
+                    const machines = physicalMachines.filter(m => input.machineIds.includes(m.id));
+
+                    // Each scheduled update is an accepted 'upgrade' plan, so bookings and maintenance see the slot as taken
+                    const slots = scheduleRolloutSlots({ machines, startDate: input.startDate, endDate: input.endDate, maxPerDay: input.maxPerDay })
+                        .map(slot => slot.plannedDate ? { ...slot, planId: `plan-${campaignId}-${slot.machineId}` } : slot);
+                    const campaign: SoftwareRolloutCampaign = {
+                        id: campaignId,
+                        name: input.name,
+                        platform: input.platform,
+                        targetVersion: input.targetVersion,
+                        startDate: input.startDate,
+                        endDate: input.endDate,
+                        maxPerDay: input.maxPerDay,
+                        slots,
+                        status: 'planned',
+                        createdBy: user?.name || 'Unknown',
+                        createdAt: new Date().toISOString()
+                    };
+
+                    set((state) => ({
+                        rolloutCampaigns: [campaign, ...state.rolloutCampaigns],
+                        physicalMachines: state.physicalMachines.map(m => {
+                            const slot = slots.find(s => s.machineId === m.id && s.planId);
+                            if (!slot) return m;
+                            const plan: MaintenancePlan = {
+                                id: slot.planId!,
+                                resourceId: m.id,
+                                resourceName: m.name,
+                                applicant: campaign.createdBy,
+                                applicantDept: 'PMO',
+                                plannedDate: slot.plannedDate!,
+                                type: 'upgrade',
+                                description: `软件升级活动「${campaign.name}」：${m.softwareVersion || '未部署'} → ${campaign.targetVersion}`,
+                                status: 'accepted',
+                                approver: campaign.createdBy,
+                                source: 'rollout',
+                                campaignId,
+                                createdAt: campaign.createdAt
+                            };
+                            return { ...m, maintenancePlans: [plan, ...(m.maintenancePlans || [])], version: (m.version || 0) + 1 };
+                        })
+                    }), false, 'software/createRollout');
+                    return campaign;
+                },
+                completeRolloutSlot: (campaignId, machineId, success) => {
+                    if (!authorize('resource:manage')) return;
+                    const { rolloutCampaigns, user } = get();
+                    const campaign = rolloutCampaigns.find(c => c.id === campaignId);
+                    const slot = campaign?.slots.find(s => s.machineId === machineId);
+                    if (!campaign || !slot || slot.status !== 'scheduled') return;
+
+                    const completedAt = new Date().toISOString();
+                    const slots = campaign.slots.map(s => s.machineId === machineId
+                        ? { ...s, status: success ? 'done' as const : 'failed' as const, completedAt }
+                        : s);
+                    const finished = slots.every(s => s.status !== 'scheduled');
+                    const record: SoftwareHistoryRecord = {
+                        id: `sw-${Date.now()}`,
+                        version: campaign.targetVersion,
+                        date: format(new Date(), 'yyyy-MM-dd HH:mm'),
+                        changedBy: user?.id || 'currentUser',
+                        changedByName: user?.name || '当前用户',
+                        notes: `软件升级活动「${campaign.name}」`
+                    };
+
+                    set((state) => ({
+                        rolloutCampaigns: state.rolloutCampaigns.map(c => c.id === campaignId
+                            ? { ...c, slots, status: finished ? 'completed' : 'in_progress' }
+                            : c),
+                        physicalMachines: state.physicalMachines.map(m => m.id === machineId ? {
+                            ...m,
+                            ...(success ? {
+                                softwareVersion: campaign.targetVersion,
+                                softwareHistory: [record, ...(m.softwareHistory || [])]
+                            } : {}),
+                            maintenancePlans: (m.maintenancePlans || []).map(p => p.id === slot.planId
+                                ? { ...p, status: 'completed' as const, completedAt, approvalRemarks: success ? '升级完成' : '升级失败' }
+                                : p),
+                            version: (m.version || 0) + 1
+                        } : m)
+                    }), false, 'software/completeRolloutSlot');
+                },
+                cancelRolloutCampaign: (id) => {
+                    if (!authorize('resource:manage')) return;
+                    // Pending slots are released so the machines can be booked again
+                    set((state) => ({
+                        rolloutCampaigns: state.rolloutCampaigns.map(c => c.id === id ? { ...c, status: 'cancelled' } : c),
+                        physicalMachines: state.physicalMachines.map(m => (m.maintenancePlans || []).some(p => p.campaignId === id && p.status === 'accepted') ? {
+                            ...m,
+                            maintenancePlans: (m.maintenancePlans || []).filter(p => !(p.campaignId === id && p.status === 'accepted')),
+                            version: (m.version || 0) + 1
+                        } : m)
+                    }), false, 'software/cancelRollout');
+                },
+                addProjectTypeDefinition: (name, color) => {
+                    if (!authorize('settings:manage')) return;
+                    set((state) => ({
+                        projectTypeDefinitions: [
+                            ...state.projectTypeDefinitions,
+                            { id: `type-${Date.now()}`, name, color }
+                        ]
+                    }), false, 'projectTypes/add');
+                },
+                updateProjectTypeDefinition: (id, updates) => {
+                    if (!authorize('settings:manage')) return;
+                    set((state) => ({
+                        projectTypeDefinitions: state.projectTypeDefinitions.map(d =>
+                            d.id === id ? { ...d, ...updates } : d
+                        )
+                    }), false, 'projectTypes/update');
+                },
+                deleteProjectTypeDefinition: (id) => {
+                    if (!authorize('settings:manage')) return;
+                    set((state) => ({
+                        projectTypeDefinitions: state.projectTypeDefinitions.filter(d => d.id !== id)
+                    }), false, 'projectTypes/delete');
+                },
+
+                addWorkingCalendar: (calendar) => {
+                    if (!authorize('settings:manage')) return;
+                    const invalid = validateWorkingCalendar(calendar);
+                    if (invalid) {
+                        get().addNotification({ type: 'error', message: `日历「${calendar.name}」无效：${invalid}` });
+                        return;
+                    }
+                    set((state) => ({
+                        workingCalendars: [...state.workingCalendars, { ...calendar, id: `cal-${Date.now()}` }]
+                    }), false, 'calendars/add');
+                },
+                updateWorkingCalendar: (id, updates) => {
+                    if (!authorize('settings:manage')) return;
+                    const current = get().workingCalendars.find(c => c.id === id);
+                    const invalid = current && validateWorkingCalendar({ ...current, ...updates });
+                    if (invalid) {
+                        get().addNotification({ type: 'error', message: `日历「${current.name}」无效：${invalid}` });
+                        return;
+                    }
+                    set((state) => ({
+                        workingCalendars: state.workingCalendars.map(c =>
+                            c.id === id ? { ...c, ...updates } : c
+                        )
+                    }), false, 'calendars/update');
+                },
+                deleteWorkingCalendar: (id) => {
+                    if (!authorize('settings:manage')) return;
+                    set((state) => ({
+                        // The company calendar is the fallback for everything else and cannot be removed
+                        workingCalendars: state.workingCalendars.filter(c => c.id !== id || c.id === DEFAULT_WORKING_CALENDARS[0].id)
+                    }), false, 'calendars/delete');
+                },
+                addCalendarException: (exception) => {
+                    if (!authorize('settings:manage')) return;
+                    set((state) => ({
+                        calendarExceptions: [...state.calendarExceptions, { ...exception, id: `calex-${Date.now()}` }]
+                    }), false, 'calendars/addException');
+                },
+                deleteCalendarException: (id) => {
+                    if (!authorize('settings:manage')) return;
+                    set((state) => ({
+                        calendarExceptions: state.calendarExceptions.filter(e => e.id !== id)
+                    }), false, 'calendars/deleteException');
+                },
+            }), {
+                store: 'visorq',
+                keys: [
+                    'projects', 'programs', 'lessonsLearned', 'factorDefinitions', 'factorWeightSets', 'resourcePool', 'projectTemplates', 'keyTaskDefinitions',
+                    'physicalBays', 'physicalMachines', 'bayMachineCompatibility', 'softwareBaselines', 'rolloutCampaigns', 'projectTypeDefinitions', 'workingCalendars', 'calendarExceptions'
+                ]
+            }), {
+                store: 'visorq',
+                collections: AUDITED_COLLECTIONS,
+                getUser: (): User | null => useStore.getState().user
             }),
             {
                 name: 'visorq-storage',
-                version: 1,
-                storage: createJSONStorage(() => localStorage),
+                version: 3,
+                storage: createPersistStorage<Partial<StoreState>>(),
+                migrate: (persistedState, version) => {
+                    const state = persistedState as Partial<StoreState>;
+                    if (version < 2 && state?.projects) {
+                        // v2: Task.dependencies changed from string[] to typed links
+                        state.projects = state.projects.map(p => ({
+                            ...p,
+                            tasks: p.tasks?.map(t => ({ ...t, dependencies: getTaskDependencies(t) }))
+                        }));
+                    }
+                    if (version < 3 && state) {
+                        // v3: the user moved to the local auth session
+                        delete state.user;
+                    }
+                    return state as StoreState;
+                },
                 partialize: (state) => ({
-                    user: state.user,
                     projects: state.projects,
+                    programs: state.programs,
+                    lessonsLearned: state.lessonsLearned,
                     factorDefinitions: state.factorDefinitions,
+                    factorWeightSets: state.factorWeightSets,
                     resourcePool: state.resourcePool,
                     projectTemplates: state.projectTemplates,
                     alerts: state.alerts,
                     keyTaskDefinitions: state.keyTaskDefinitions,
                     physicalBays: state.physicalBays,
                     physicalMachines: state.physicalMachines,
-                    projectTypeDefinitions: state.projectTypeDefinitions
+                    bayMachineCompatibility: state.bayMachineCompatibility,
+                    softwareBaselines: state.softwareBaselines,
+                    rolloutCampaigns: state.rolloutCampaigns,
+                    projectTypeDefinitions: state.projectTypeDefinitions,
+                    workingCalendars: state.workingCalendars,
+                    calendarExceptions: state.calendarExceptions
                 }),
             }
         ),
@@ -551,6 +1466,42 @@ export const useStore = create<StoreState>()(
     )
 );
 
+/**
+ * Check the current user may perform an action; notifies and returns false when denied
+ */
+export const authorize = (permission: Permission, projectId?: string): boolean => {
+    const { user, projects, addNotification } = useStore.getState();
+    const project = projectId ? projects.find(p => p.id === projectId) : undefined;
+    if (hasPermission(user, permission, project)) {
+        undoHistory.noteAuthorization({ permission, projectId });
+        return true;
+    }
+
+    addNotification({ type: 'error', message: `权限不足：${PERMISSION_LABELS[permission]}` });
+    return false;
+};
+
+// Undo/redo replays an action, so the user must still hold the permissions it was authorized with
+undoHistory.setPermissionGuard((requirements) => {
+    const { user, projects, addNotification } = useStore.getState();
+    const denied = requirements.find(r =>
+        !hasPermission(user, r.permission, r.projectId ? projects.find(p => p.id === r.projectId) : undefined));
+    if (!denied) return true;
+
+    addNotification({ type: 'error', message: `权限不足，无法撤销或重做：${PERMISSION_LABELS[denied.permission]}` });
+    return false;
+});
+
+// Reload from the storage backend when a sync conflict is resolved in favour of the server
+syncEngine.registerRehydrate('visorq-storage', () => useStore.persist.rehydrate());
+
+// Keep the local session in step with the user; signing in grants access to the backend, so reload from it
+useStore.subscribe((state, previous) => {
+    if (state.user === previous.user) return;
+    setSessionUser(state.user);
+    if (state.user && !previous.user) syncEngine.reloadAll();
+});
+
 // ============ Optimized Selectors ============
 // These prevent unnecessary re-renders by selecting only needed data
 
@@ -560,6 +1511,7 @@ export const useProject = (id: string) => useStore((state) =>
     state.projects.find(p => p.id === id)
 );
 export const useFactorDefinitions = () => useStore((state) => state.factorDefinitions);
+export const useFactorWeightSets = () => useStore((state) => state.factorWeightSets);
 export const useResourcePool = () => useStore((state) => state.resourcePool);
 export const useNotifications = () => useStore((state) => state.notifications);
 export const useAlerts = () => useStore((state) => state.alerts);
@@ -568,6 +1520,8 @@ export const useUnreadAlerts = () => useStore((state) =>
 );
 export const useTemplates = () => useStore((state) => state.projectTemplates);
 export const useProjectTypeDefinitions = () => useStore((state) => state.projectTypeDefinitions);
+export const usePrograms = () => useStore((state) => state.programs);
+export const useLessonsLearned = () => useStore((state) => state.lessonsLearned);
 
 // Computed selectors
 export const useActiveProjects = () => useStore((state) =>
@@ -583,3 +1537,25 @@ export const useTopProjects = (limit: number = 5) => useStore((state) =>
 );
 
 export const useKeyTaskDefinitions = () => useStore((state) => state.keyTaskDefinitions);
+export const useWorkingCalendars = () => useStore((state) => state.workingCalendars);
+export const useCalendarExceptions = () => useStore((state) => state.calendarExceptions);
+export const useBayMachineCompatibility = () => useStore((state) => state.bayMachineCompatibility);
+export const useSoftwareBaselines = () => useStore((state) => state.softwareBaselines);
+export const useRolloutCampaigns = () => useStore((state) => state.rolloutCampaigns);
+
+// Resolved calendar (with inherited holidays) for a project, team or member
+export const useResolvedCalendar = (calendarId?: string) => {
+    const calendars = useWorkingCalendars();
+    return useMemo(() => resolveCalendar(calendars, calendarId), [calendars, calendarId]);
+};
+
+// Whether the current user may perform an action (optionally within a project), for hiding entry points
+export const usePermission = (permission: Permission, projectId?: string) => useStore((state) =>
+    hasPermission(state.user, permission, projectId ? state.projects.find(p => p.id === projectId) : undefined)
+);
+
+// Persisted state loads asynchronously from the storage adapter
+export const useHasHydrated = () => useSyncExternalStore(
+    (onChange) => useStore.persist.onFinishHydration(onChange),
+    () => useStore.persist.hasHydrated()
+);
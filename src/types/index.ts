@@ -1,13 +1,39 @@
 // Auth
+export type UserRole = 'admin' | 'manager' | 'user' | 'readonly' | 'pmo';
+
 export interface User {
     id: string;
     username: string;
-    role: 'admin' | 'manager' | 'user' | 'readonly' | 'pmo';
+    role: UserRole; // 当前生效角色
+    authRole?: UserRole; // 登录时认证的角色；管理员切换视角后 role 变化，authRole 不变
+    memberId?: string; // 关联的 TeamMember ID，用于判断项目成员身份（pdsgMembers）
     name?: string;
     email?: string;
     avatar?: string;
 }
 
+// 权限：动作级别，按角色授予；带项目范围的权限对非 PMO 角色还要求是项目成员
+export type Permission =
+    | 'project:create'
+    | 'project:edit'
+    | 'project:delete'
+    | 'task:edit'
+    | 'changeRequest:submit'
+    | 'changeRequest:approve'
+    | 'requirement:manage'
+    | 'workflow:approve'
+    | 'resource:manage'
+    | 'environment:manage'
+    | 'environment:book'
+    | 'bay:book'
+    | 'maintenance:request'
+    | 'maintenance:approve'
+    | 'simulation:manage'
+    | 'settings:manage'
+    | 'role:switch'
+    | 'audit:view'
+    | 'escalation:handle';
+
 // Dynamic Factors
 export interface FactorDefinition {
     id: string;
@@ -16,6 +42,21 @@ export interface FactorDefinition {
     description?: string;
 }
 
+// Versioned factor weight set (manual or AHP pairwise comparison)
+export interface FactorWeightSet {
+    id: string;
+    version: number;
+    name: string;
+    method: 'manual' | 'ahp';
+    weights: Record<string, number>; // FactorDefinition.id -> 权重 (%)
+    factorNames: Record<string, string>; // 发布时的因子名称，便于因子删除后回溯
+    comparisons?: Record<string, number>; // AHP: 'a|b' -> a 相对 b 的重要性 (1/9 ~ 9)
+    consistencyRatio?: number;
+    effectiveFrom: string; // ISO 时间，直到下一个版本发布前有效
+    createdBy: string;
+    notes?: string;
+}
+
 // Resources
 export type ResourceUnit = 'day' | 'month' | 'year';
 
@@ -34,6 +75,9 @@ export interface ResourceBooking {
     purpose?: string;
     usageType?: 'test' | 'development' | 'demo' | 'validation';
     status?: 'planned' | 'active' | 'completed' | 'cancelled';
+    requiredSoftwareVersion?: string; // 项目要求的机器软件版本，支持 'V2.*' 前缀匹配
+    actualStartDate?: string; // 实际开始使用（签到）日期
+    actualEndDate?: string; // 实际归还日期
     initialStatusConfirmed?: boolean;
     returnStatusConfirmed?: boolean;
 }
@@ -51,6 +95,9 @@ export interface MaintenancePlan {
     approver?: string;
     approvalRemarks?: string;
     createdAt: string;
+    completedAt?: string; // 维保/修复完成时间，用于计算 MTTR
+    source?: 'manual' | 'predictive' | 'rollout'; // predictive: 预测性维保引擎生成的建议；rollout: 软件升级活动排程
+    campaignId?: string; // 所属软件升级活动
 }
 
 export interface ReplacementRecord {
@@ -90,6 +137,7 @@ export interface BayResource {
     usageHistory?: ResourceBooking[]; // Detailed usage history
     softwareVersion?: string;
     softwareHistory?: SoftwareHistoryRecord[];
+    version?: number; // Bumped on every scheduling change; dispatchers compare it to detect concurrent edits
 }
 
 export interface MachineResource {
@@ -112,6 +160,53 @@ export interface MachineResource {
     usageHistory?: ResourceBooking[];
     softwareVersion?: string;
     softwareHistory?: SoftwareHistoryRecord[];
+    version?: number; // Bumped on every scheduling change; dispatchers compare it to detect concurrent edits
+}
+
+// Approved software baseline per machine platform
+export interface SoftwareBaseline {
+    id: string;
+    platform: string;
+    targetVersion: string; // 当前基线版本
+    approvedVersions: string[]; // 仍允许运行的旧版本，支持 'V2.*' 前缀匹配
+    approvedBy: string;
+    approvedAt: string;
+    notes?: string;
+}
+
+export interface SoftwareRolloutSlot {
+    machineId: string;
+    machineName: string;
+    fromVersion?: string;
+    plannedDate?: string; // 未找到空档时为空
+    planId?: string; // 对应机器上的升级维保计划
+    status: 'scheduled' | 'done' | 'failed' | 'unschedulable';
+    completedAt?: string;
+}
+
+export interface SoftwareRolloutCampaign {
+    id: string;
+    name: string;
+    platform: string;
+    targetVersion: string;
+    startDate: string;
+    endDate: string;
+    maxPerDay: number; // 每天最多升级的机器数
+    slots: SoftwareRolloutSlot[];
+    status: 'planned' | 'in_progress' | 'completed' | 'cancelled';
+    createdBy: string;
+    createdAt: string;
+}
+
+// Bay–machine compatibility matrix: a pair is compatible when any rule matches
+export interface BayMachineCompatibilityRule {
+    id: string;
+    name: string;
+    baySizes: BaySize[];
+    machineModels?: string[]; // 为空表示任意机型
+    platforms?: string[]; // 为空表示任意平台
+    softwareVersions?: string[]; // 为空表示任意版本；支持 'V2.*' 前缀匹配
+    notes?: string;
 }
 export type SkillLevel = 'beginner' | 'intermediate' | 'advanced' | 'expert';
 
@@ -131,6 +226,7 @@ export interface ResourcePoolItem {
     skills?: Skill[]; // Skills this resource possesses
     hourlyRate?: number; // For detailed cost calculation
     members?: TeamMember[]; // 具体人员列表
+    calendarId?: string; // 团队工作日历（默认使用公司日历）
 }
 
 export interface TeamMember {
@@ -148,6 +244,7 @@ export interface TeamMember {
     certifications?: string[]; // 资质证书
     availability: number; // Hours per week or percentage
     hourlyRate?: number; // 时薪（用于成本计算）
+    calendarId?: string; // 个人工作日历（默认继承团队日历）
     assignments: {
         projectId: string;
         projectName: string;
@@ -166,6 +263,43 @@ export interface ResourceRequirement {
     estimatedCost?: number; // Calculated cost for this requirement
 }
 
+// Working Calendars (工作日历)
+export interface CalendarDay {
+    date: string; // yyyy-MM-dd
+    name?: string; // e.g., "春节", "春节调休补班"
+}
+
+export interface ShiftPattern {
+    id: string;
+    name: string; // e.g., "早班"
+    startTime: string; // HH:mm
+    endTime: string; // HH:mm
+    hours: number; // Net working hours of this shift
+}
+
+export interface WorkingCalendar {
+    id: string;
+    name: string;
+    description?: string;
+    baseCalendarId?: string; // Inherit holidays and make-up workdays from another calendar
+    workingWeekdays: number[]; // 0=Sunday ... 6=Saturday
+    hoursPerDay: number; // Used when no shifts are defined
+    shifts?: ShiftPattern[]; // Daily hours = sum of shift hours
+    holidays: CalendarDay[]; // 法定节假日
+    makeupWorkdays: CalendarDay[]; // 调休补班（周末上班）
+}
+
+export interface CalendarException {
+    id: string;
+    scope: 'team' | 'member';
+    targetId: string; // ResourcePoolItem.id or TeamMember.id
+    type: 'leave' | 'shift' | 'workday'; // leave=不工作, shift=调整工时, workday=额外工作日
+    startDate: string;
+    endDate: string;
+    hoursPerDay?: number; // For 'shift' and 'workday'
+    reason?: string;
+}
+
 // Resource Conflict Detection
 export interface ResourceConflict {
     resourceId: string;
@@ -190,6 +324,21 @@ export interface Milestone {
     description?: string;
 }
 
+// Program (项目群): a container of member projects with program-level milestones
+export interface ProgramMilestone extends Milestone {
+    projectIds: string[]; // member projects whose delivery this milestone depends on
+}
+
+export interface Program {
+    id: string;
+    name: string;
+    description?: string;
+    owner?: string;
+    projectIds: string[];
+    milestones: ProgramMilestone[];
+    createdAt: string;
+}
+
 // Key Task Definitions for Portfolio Timeline
 export interface KeyTaskDefinition {
     id: string;
@@ -209,6 +358,7 @@ export interface ProjectTypeDefinition {
     name: string;
     color: string;
     description?: string;
+    gateTemplate?: StageGate[]; // 该类型项目的阶段门径模板（未配置时使用标准模板）
 }
 
 // Cost Analysis
@@ -233,6 +383,7 @@ export interface CostEntry {
     amount: number;
     category: 'labor' | 'equipment' | 'materials' | 'overhead' | 'other';
     description: string;
+    taskId?: string; // 归属任务（未关联的计入项目级成本）
 }
 
 // Risk Management - Enhanced
@@ -303,6 +454,138 @@ export interface Risk {
     tags?: string[];
     relatedTaskIds?: string[]; // Tasks affected by this risk
     relatedMilestoneIds?: string[]; // Milestones affected by this risk
+    scheduleImpactDays?: number; // Delay added to each related task if the risk occurs (schedule simulation)
+
+    // Realisation (set when the risk occurs and its cost is drawn from the contingency reserve)
+    realizedCost?: number;
+    realizedDate?: string;
+}
+
+// Contingency reserve (风险储备金)
+export type RiskReserveDrawdownType = 'realized' | 'retired'; // realized = risk occurred, retired = closed without occurring
+
+export interface RiskReserveDrawdown {
+    id: string;
+    riskId: string;
+    riskTitle: string;
+    type: RiskReserveDrawdownType;
+    amount: number; // Realized: actual cost drawn; retired: reserve released back
+    date: string;
+    recordedBy?: string;
+    note?: string;
+}
+
+export interface RiskReserve {
+    confidenceLevel: number; // %, percentile of the simulated risk cost
+    amount: number; // Reserve sized at the confidence level
+    expectedValue: number; // Project EMV when the reserve was sized
+    iterations: number;
+    seed: number;
+    setAt: string;
+    setBy?: string;
+    drawdowns: RiskReserveDrawdown[];
+}
+
+// Lessons learned (经验教训库，项目收尾时沉淀，供同类型新项目参考)
+export interface LessonLearned {
+    id: string;
+    projectId: string;
+    projectName: string;
+    projectType?: string; // ID of ProjectTypeDefinition at capture time
+    category: RiskCategory;
+    title: string;
+    whatWentWrong: string;
+    rootCause: string;
+    recommendation?: string;
+    relatedRiskIds?: string[]; // Risks of the source project behind this lesson
+    tags?: string[];
+    createdAt: string;
+    createdBy?: string;
+}
+
+// RAID log (Risks live in Risk; issues, assumptions, decisions and action items below)
+export type RaidKind = 'issue' | 'assumption' | 'decision' | 'action';
+
+export interface RaidEscalation {
+    reason: string;
+    escalatedAt: string;
+    escalatedBy: string;
+    acknowledgedAt?: string; // Set when the PMO picks the escalation up
+    acknowledgedBy?: string;
+    response?: string;
+}
+
+interface RaidItemBase {
+    id: string;
+    projectId: string;
+    title: string;
+    description?: string;
+    owner: string;
+    ownerName?: string;
+    dueDate?: string;
+    createdAt: string;
+    updatedAt?: string;
+
+    // Links
+    relatedTaskIds?: string[];
+    relatedRiskIds?: string[];
+    relatedChangeRequestIds?: string[];
+
+    escalation?: RaidEscalation;
+}
+
+export type IssueSeverity = 'low' | 'medium' | 'high' | 'critical';
+
+export interface ProjectIssue extends RaidItemBase {
+    severity: IssueSeverity;
+    status: 'open' | 'in_progress' | 'resolved' | 'closed';
+    resolution?: string;
+    resolvedDate?: string;
+}
+
+export interface ProjectAssumption extends RaidItemBase {
+    status: 'unvalidated' | 'validated' | 'invalid';
+    impactIfFalse?: string; // What happens to the plan if the assumption does not hold
+    validatedDate?: string;
+}
+
+export interface ProjectDecision extends RaidItemBase {
+    status: 'proposed' | 'approved' | 'rejected' | 'superseded';
+    rationale?: string;
+    alternatives?: string;
+    decidedBy?: string;
+    decisionDate?: string;
+}
+
+export interface ActionItem extends RaidItemBase {
+    status: 'open' | 'in_progress' | 'done' | 'cancelled';
+    source?: string; // e.g. steering committee meeting
+    meetingDate?: string;
+    completedDate?: string;
+}
+
+export interface RaidItemMap {
+    issue: ProjectIssue;
+    assumption: ProjectAssumption;
+    decision: ProjectDecision;
+    action: ActionItem;
+}
+
+export type RaidItem = RaidItemMap[RaidKind];
+
+// Fields entered on the RAID form; the store fills in id, projectId and createdAt
+export type RaidItemInput<K extends RaidKind = RaidKind> = Omit<RaidItemMap[K], 'id' | 'projectId' | 'createdAt'>;
+
+// Form submission discriminated by kind, so the values always match that kind's item type
+export type RaidItemFormValues = { [K in RaidKind]: { kind: K; values: RaidItemInput<K> } }[RaidKind];
+
+// Task Dependencies (任务依赖)
+export type DependencyType = 'FS' | 'SS' | 'FF' | 'SF';
+
+export interface TaskDependencyLink {
+    taskId: string; // Predecessor task ID
+    type: DependencyType; // FS=完成-开始, SS=开始-开始, FF=完成-完成, SF=开始-完成
+    lag?: number; // Days, negative = lead (提前量)
 }
 
 // Task for Canvas-based Task Diagram
@@ -327,10 +610,22 @@ export interface Task {
     height?: number; // Custom height
 
     // Dependencies
-    dependencies?: string[]; // Array of task IDs this task depends on
+    dependencies?: TaskDependencyLink[]; // Predecessor links with type and lag
 
     // Assignment
-    assignee?: string; // Resource ID
+    assignee?: string; // Resource ID or team member ID
+    allocation?: number; // 投入比例 %（默认 100，200 表示两人全职）
+    requiredSkills?: string[]; // 所需技能 ID，仅具备全部技能的成员计入可用产能
+
+    // Cost & effort (挣值计划值的来源)
+    plannedHours?: number; // 计划工时
+    hourlyRate?: number; // 时薪（未填时取负责人 / 所属资源池的时薪）
+    fixedCost?: number; // 固定成本（采购、外包等，与工时无关）
+
+    // Three-point estimate (进度风险模拟，单位为天；未填时取计划工期)
+    optimisticDays?: number; // 乐观工期
+    mostLikelyDays?: number; // 最可能工期
+    pessimisticDays?: number; // 悲观工期
 }
 
 // Project
@@ -343,10 +638,16 @@ export interface Project {
     priority: 'P0' | 'P1' | 'P2' | 'P3';
     startDate: string;
     endDate: string;
-    manager?: string;
+    manager?: string; // 项目经理显示名
+    managerId?: string; // 项目经理的用户 ID（User.id），用于判断项目成员身份
     department?: string;
     category?: 'web' | 'mobile' | 'data' | 'infrastructure' | 'custom';
     projectType?: string; // ID of ProjectTypeDefinition
+    calendarId?: string; // 项目工作日历（默认使用公司日历）
+
+    // Stage-gate lifecycle (gates are instantiated from the project type's template)
+    currentStage?: ProjectStage;
+    gates?: StageGate[];
 
     // Dynamic Factors: key is FactorDefinition.id, value is 0-10 score
     factors: Record<string, number>;
@@ -387,6 +688,13 @@ export interface Project {
 
     // Risks
     risks?: Risk[];
+    riskReserve?: RiskReserve; // Contingency reserve sized from the risk cost simulation
+
+    // RAID log
+    issues?: ProjectIssue[];
+    assumptions?: ProjectAssumption[];
+    decisions?: ProjectDecision[];
+    actionItems?: ActionItem[];
 
     // Environment Requirements
     environmentRequirements?: {
@@ -481,6 +789,7 @@ export interface EVMMetrics {
     estimateToComplete: number; // ETC
     varianceAtCompletion: number; // VAC
     toCompletePerformanceIndex: number; // TCPI
+    budgetAtCompletion: number; // BAC
 }
 
 // 3. Stage-Gate Process (阶段门径)
@@ -503,6 +812,15 @@ export interface StageGate {
     approvalDate?: string;
     comments?: string;
     conditions?: string[]; // If status is 'conditional'
+    workflowId?: string; // Approval workflow deciding this gate
+}
+
+export interface GateDecision {
+    approved: boolean;
+    approverId: string;
+    approverName: string;
+    comments?: string;
+    conditions?: string[];
 }
 
 export interface GateRequirement {
@@ -737,9 +1055,14 @@ export interface ProjectDependency {
 }
 
 // Change Log for Audit Trail
+export type AuditEntityType =
+    | 'project' | 'task' | 'resource' | 'risk' | 'milestone'
+    | 'teamMember' | 'bay' | 'machine' | 'factor' | 'template' | 'projectType' | 'keyTask' | 'calendar'
+    | 'compatibilityRule' | 'softwareBaseline' | 'rolloutCampaign' | 'factorWeightSet' | 'program' | 'issue' | 'assumption' | 'decision' | 'actionItem' | 'changeRequest' | 'environment' | 'requirement' | 'workflow' | 'simulation' | 'lesson';
+
 export interface ChangeLogEntry {
     id: string;
-    entityType: 'project' | 'task' | 'resource' | 'risk' | 'milestone';
+    entityType: AuditEntityType;
     entityId: string;
     entityName: string;
     action: 'created' | 'updated' | 'deleted' | 'status_changed';
@@ -751,7 +1074,13 @@ export interface ChangeLogEntry {
         oldValue: any;
         newValue: any;
     }[];
-    metadata?: Record<string, any>;
+    metadata?: {
+        store?: string; // 来源 store
+        action?: string; // 触发的 store 动作
+        projectId?: string; // 子实体（任务、里程碑、风险）所属项目
+        parentId?: string; // 其他子实体的父实体
+        [key: string]: any;
+    };
 }
 
 // Data Export Configuration
@@ -930,6 +1259,9 @@ export interface ChangeRequest {
 
     // Implementation
     implementedDate?: string;
+    implementedBy?: string;
+    implementation?: ChangeImplementationRecord; // Plan delta applied when the change was implemented
+    baselineId?: string; // Baseline created automatically after implementation
     actualEffortHours?: number;
     actualCostIncrease?: number;
 
@@ -939,6 +1271,17 @@ export interface ChangeRequest {
     metadata?: Record<string, any>;
 }
 
+// Plan delta applied to the project when an approved change request is implemented
+export interface ChangeImplementationRecord {
+    shiftedTaskIds: string[];
+    addedTaskId?: string; // Task carrying the added effort
+    previousEndDate: string;
+    newEndDate: string;
+    previousBudget: number;
+    newBudget: number;
+    addedEffortHours: number;
+}
+
 // 2. Scope Creep Metrics (范围蔓延指标)
 export interface ScopeCreepMetrics {
     projectId: string;
@@ -984,6 +1327,12 @@ export interface EnvironmentResource {
         endDate: string;
         reason: string;
     }[];
+    freezePeriods?: {
+        startDate: string;
+        endDate: string;
+        reason: string; // e.g. "春节封网", "版本发布冻结"
+        exemptPriorities?: Project['priority'][]; // 可在冻结期内预约的项目优先级
+    }[];
 
     // Booking
     bookings: EnvironmentBooking[];
@@ -1009,7 +1358,9 @@ export interface EnvironmentBooking {
     purpose: string; // e.g., "集成测试", "性能测试", "生产发布"
 
     // Status
-    status: 'reserved' | 'active' | 'completed' | 'cancelled';
+    status: 'reserved' | 'active' | 'completed' | 'cancelled' | 'preempted';
+    priority?: Project['priority']; // 预约时项目的优先级，用于抢占判定
+    preemptedBy?: string; // 抢占本预约的预约 ID
 
     // Audit
     createdAt: string;
@@ -1078,13 +1429,14 @@ export interface Requirement {
 
 // 6. Approval Workflow (审批流)
 export type ApprovalStatus = 'pending' | 'approved' | 'rejected' | 'cancelled';
-export type ApprovalType = 'project_initiation' | 'project_closure' | 'budget_change' | 'resource_request' | 'change_request';
+export type ApprovalType = 'project_initiation' | 'project_closure' | 'budget_change' | 'resource_request' | 'change_request' | 'stage_gate';
 
 export interface ApprovalWorkflow {
     id: string;
     type: ApprovalType;
     entityId: string; // 关联实体 ID（项目 ID、变更请求 ID 等）
     entityName: string;
+    gateId?: string; // stage_gate 审批对应的门径 ID（entityId 为项目 ID）
 
     // Requester
     requestedBy: string;
@@ -1114,6 +1466,7 @@ export interface ApprovalStep {
     decision?: 'approve' | 'reject';
     comments?: string;
     decidedAt?: string;
+    conditions?: string[]; // 有条件批准时附加的执行条件
 
     // Conditions
     isRequired: boolean; // 是否必须审批
@@ -1132,12 +1485,7 @@ export interface ProjectSimulation {
     changes: SimulationChange[];
 
     // Results
-    impactAnalysis?: {
-        affectedProjects: string[];
-        totalDelayDays: number;
-        resourceConflicts: number;
-        budgetImpact: number;
-    };
+    impactAnalysis?: SimulationImpactAnalysis;
 
     // Metadata
     createdBy: string;
@@ -1153,6 +1501,42 @@ export interface SimulationChange {
     changeDetails: Record<string, any>;
 }
 
+export interface SimulationProjectImpact {
+    projectId: string;
+    projectName: string;
+    impactType: 'none' | 'delay' | 'resource' | 'critical' | 'added' | 'removed';
+    delayDays: number; // 完工日期变化（日历天）
+    originalEndDate?: string;
+    newEndDate?: string;
+    delaySourceIds: string[]; // 通过跨项目依赖传导延期的上游项目
+    resourceConflict: boolean;
+    conflictMonths: string[]; // 按优先级分配后仍无法满足资源需求的月份
+    budgetDelta: number;
+}
+
+export interface SimulationResourceImpact {
+    resourceId: string;
+    resourceName: string;
+    originalCapacity: number;
+    newCapacity: number;
+    originalPeakUtilization: number; // %
+    newPeakUtilization: number; // %
+    originalOverloadMonths: string[];
+    newOverloadMonths: string[];
+    isOverloaded: boolean;
+}
+
+export interface SimulationImpactAnalysis {
+    affectedProjects: string[];
+    totalDelayDays: number; // 所有项目延期天数之和
+    maxDelayDays?: number;
+    resourceConflicts: number; // 新增的超载资源月数
+    budgetImpact: number; // 预算变化（正数为增加）
+    projectImpacts?: SimulationProjectImpact[];
+    resourceImpacts?: SimulationResourceImpact[];
+    calculatedAt?: string;
+}
+
 // 8. Ghost Task Detection (幽灵任务检测)
 export interface GhostTaskReport {
     projectId: string;
@@ -1195,7 +1579,8 @@ export interface PMOMetrics {
     cashFlow: {
         annualBudget: number;       // 年度研发预算
         currentInvestment: number;  // 本项目研发投入
-        futureROI: number[];        // 未来3年预期净现金流 [Year1, Year2, Year3]
+        futureROI: number[];        // 未来各年预期净现金流 [Year1, Year2, Year3, ...]
+        discountRate?: number;      // 折现率 (%)，未填时使用组合默认折现率
     };
 
     // 资源负荷 (按月/按角色)
@@ -1203,8 +1588,13 @@ export interface PMOMetrics {
 
     // 技术平台 (用于路线图分组)
     techPlatform?: 'Traditional' | 'PCCT' | 'AI' | 'Cloud' | 'Other';
+
+    // 组合优化约束：强制入选 / 锁定投入 / 锁定不投
+    portfolioLock?: PortfolioLock;
 }
 
+export type PortfolioLock = 'mandatory' | 'locked_in' | 'locked_out';
+
 export interface MonthlyResourceLoad {
     roleId: string; // e.g., 'algorithm', 'hardware'
     roleName: string; // e.g., 'AI算法工程师', '硬件工程师'
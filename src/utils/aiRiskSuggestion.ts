@@ -1,6 +1,7 @@
-import type { Project, Risk, Task, RiskCategory } from '../types';
+import type { LessonLearned, Project, Risk, Task, RiskCategory } from '../types';
 import { RISK_TEMPLATES } from './riskTemplates';
 import type { RiskTemplate } from './riskTemplates';
+import { getMaterializedRiskPatterns } from './lessonsLearned';
 
 /**
  * AI-powered risk identification based on project characteristics
@@ -11,12 +12,14 @@ interface RiskSuggestion {
     confidence: number; // 0-1
     reason: string;
     relatedFactors: string[];
+    historical?: boolean; // Built from risks that materialised in closed projects of the same type
 }
 
 /**
  * Analyze project and suggest potential risks using AI-like heuristics
+ * and the risks that actually materialised in closed projects of the same type
  */
-export const suggestRisks = (project: Project, allProjects: Project[]): RiskSuggestion[] => {
+export const suggestRisks = (project: Project, allProjects: Project[], lessons: LessonLearned[] = []): RiskSuggestion[] => {
     const suggestions: RiskSuggestion[] = [];
 
     // 1. Schedule Risk Analysis
@@ -47,6 +50,10 @@ export const suggestRisks = (project: Project, allProjects: Project[]): RiskSugg
     const historicalRisks = analyzeHistoricalPatterns(project, allProjects);
     suggestions.push(...historicalRisks);
 
+    // 8. Materialised risks from closed projects of the same type
+    const materializedRisks = analyzeMaterializedRisks(project, allProjects, lessons);
+    suggestions.push(...materializedRisks);
+
     // Sort by confidence and remove duplicates
     return suggestions
         .sort((a, b) => b.confidence - a.confidence)
@@ -331,6 +338,50 @@ const analyzeHistoricalPatterns = (project: Project, allProjects: Project[]): Ri
     return suggestions;
 };
 
+/**
+ * Turn risks that materialised in closed projects of the same type into ranked suggestions,
+ * carrying over the recorded lessons as mitigation advice
+ */
+const analyzeMaterializedRisks = (
+    project: Project,
+    allProjects: Project[],
+    lessons: LessonLearned[]
+): RiskSuggestion[] => {
+    const existingTitles = new Set((project.risks || []).map((r) => r.title.trim().toLowerCase()));
+
+    return getMaterializedRiskPatterns(project, allProjects, lessons)
+        .filter((pattern) => !existingTitles.has(pattern.title.trim().toLowerCase()))
+        .map((pattern) => {
+            const latest = pattern.risks[pattern.risks.length - 1];
+            const recommendations = pattern.lessons.map((l) => l.recommendation).filter(Boolean);
+            const projectNames = pattern.projects.map((p) => p.name).join('、');
+            const costNote = pattern.averageCost !== undefined
+                ? `，平均实际成本 ¥${Math.round(pattern.averageCost).toLocaleString()}`
+                : '';
+
+            return {
+                template: {
+                    id: `hist-${pattern.key}`,
+                    name: pattern.title,
+                    category: pattern.category,
+                    description: pattern.lessons[0]?.whatWentWrong || latest.description,
+                    probability: Math.max(2, Math.min(5, Math.ceil(pattern.frequency * 5))),
+                    impact: pattern.maxImpact,
+                    mitigationStrategy: recommendations.length > 0 ? recommendations.join('；') : latest.mitigationStrategy,
+                    contingencyPlan: latest.contingencyPlan,
+                    tags: ['历史已发生', ...(latest.tags || [])],
+                    applicableProjectTypes: project.projectType ? [project.projectType] : undefined,
+                },
+                // Ranked above the generic heuristics: the risk has actually happened on this kind of project
+                confidence: Math.min(0.95, 0.6 + pattern.frequency * 0.35),
+                reason: `同类型已收尾项目中 ${pattern.projects.length} 个发生过该风险（${projectNames}）${costNote}`
+                    + (pattern.lessons.length > 0 ? `；根本原因：${pattern.lessons[0].rootCause}` : ''),
+                relatedFactors: ['项目类型', '已发生风险', ...(pattern.lessons.length > 0 ? ['经验教训'] : [])],
+                historical: true,
+            };
+        });
+};
+
 /**
  * Get risk insights and recommendations
  */
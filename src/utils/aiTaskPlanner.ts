@@ -339,7 +339,10 @@ export const convertTemplateToTasks = (
             type: template.type,
             priority: template.priority,
             status: 'planning',
-            dependencies: template.dependencies?.map(i => taskMap.get(i)!).filter(Boolean),
+            dependencies: template.dependencies
+                ?.map(i => taskMap.get(i))
+                .filter((id): id is string => Boolean(id))
+                .map(id => ({ taskId: id, type: 'FS' as const, lag: 0 })),
             color: template.type === 'milestone' ? '#10B981' :
                 template.priority === 'P0' ? '#EF4444' :
                     template.priority === 'P1' ? '#F59E0B' : '#3B82F6'
@@ -1,4 +1,4 @@
-import type { ApprovalWorkflow, ApprovalStep, ApprovalType } from '../types';
+import type { ApprovalWorkflow, ApprovalStep, ApprovalType, User, UserRole } from '../types';
 
 /**
  * 审批流配置模板
@@ -140,6 +140,30 @@ export const APPROVAL_TEMPLATES: Record<
             },
         ],
     },
+    stage_gate: {
+        name: '阶段门径评审',
+        description: '门径检查清单完成后由技术与 PMO 评审，通过后方可进入下一阶段',
+        defaultApprovers: [
+            {
+                stepNumber: 1,
+                approverId: 'tech-lead',
+                approverName: '技术负责人',
+                approverRole: 'Tech Lead',
+                status: 'pending',
+                isRequired: true,
+                canSkip: false,
+            },
+            {
+                stepNumber: 2,
+                approverId: 'pm-lead',
+                approverName: 'PMO 负责人',
+                approverRole: 'PMO Lead',
+                status: 'pending',
+                isRequired: true,
+                canSkip: false,
+            },
+        ],
+    },
 };
 
 /**
@@ -200,6 +224,7 @@ export function shouldTriggerApproval(
 
         case 'project_initiation':
         case 'project_closure':
+        case 'stage_gate':
             return true; // 总是需要审批
 
         default:
@@ -218,6 +243,39 @@ export function getNextPendingStep(workflow: ApprovalWorkflow): ApprovalStep | n
     );
 }
 
+/**
+ * 模板审批人占位 ID → 可承担该审批的系统角色
+ */
+const APPROVER_ROLES: Record<string, UserRole[]> = {
+    'pm-lead': ['admin', 'pmo'],
+    'resource-manager': ['admin', 'pmo'],
+    finance: ['admin', 'pmo'],
+    ceo: ['admin'],
+    'tech-lead': ['admin', 'manager'],
+    'qa-lead': ['admin', 'manager']
+};
+
+/**
+ * 用户是否为该步骤指定的审批人：按用户 ID / 关联成员 ID 匹配，模板占位审批人按角色匹配
+ */
+export function isAssignedApprover(step: ApprovalStep, user: User): boolean {
+    if (step.approverId === user.id || (!!user.memberId && step.approverId === user.memberId)) return true;
+    return (APPROVER_ROLES[step.approverId] || []).includes(user.role);
+}
+
+/**
+ * 校验用户能否对某一步骤作出决策，返回拒绝原因；可以审批时返回 null
+ *
+ * 只有当前待审批的步骤可以决策，且申请人不能审批自己提交的申请
+ */
+export function getApprovalStepBlocker(workflow: ApprovalWorkflow, stepNumber: number, user: User): string | null {
+    const step = workflow.approvers.find((s) => s.stepNumber === stepNumber);
+    if (!step || step !== getNextPendingStep(workflow)) return '该审批步骤不是当前待审批步骤';
+    if (workflow.requestedBy === user.id) return '不能审批自己提交的申请';
+    if (!isAssignedApprover(step, user)) return `该步骤需由「${step.approverName}」审批`;
+    return null;
+}
+
 /**
  * 检查审批流是否可以继续
  */
@@ -0,0 +1,282 @@
+import { format } from 'date-fns';
+import type { AuditEntityType, ChangeLogEntry } from '../types';
+
+/**
+ * 审计追踪：对比 store 变更前后的实体集合，生成字段级 ChangeLogEntry
+ */
+
+export interface AuditCollection {
+    key: string; // state 中的实体数组
+    entityType: AuditEntityType;
+    children?: { key: string; entityType: AuditEntityType }[]; // 嵌套实体数组，单独按实体记录
+    ignore?: string[]; // 派生字段（评分、排名、版本号等）不记录
+}
+
+export interface AuditContext {
+    userId: string;
+    userName: string;
+    timestamp: string;
+    metadata?: ChangeLogEntry['metadata'];
+}
+
+type Entity = { id: string } & Record<string, unknown>;
+type FieldChange = ChangeLogEntry['changes'][number];
+
+const isEntity = (value: unknown): value is Entity =>
+    !!value && typeof value === 'object' && typeof (value as Entity).id === 'string';
+
+const isSame = (a: unknown, b: unknown) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+const entityName = (entity: Entity) =>
+    String(entity.name ?? entity.title ?? entity.entityName ?? entity.id);
+
+let sequence = 0;
+const createEntryId = () => `audit-${Date.now()}-${(sequence++).toString(36)}-${Math.random().toString(36).substr(2, 5)}`;
+
+/**
+ * 字段级对比（exclude 中的字段跳过）
+ */
+export const diffFields = (
+    before: Record<string, unknown> | undefined,
+    after: Record<string, unknown> | undefined,
+    exclude: string[] = []
+): FieldChange[] => {
+    const keys = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+    const changes: FieldChange[] = [];
+    keys.forEach(field => {
+        if (exclude.includes(field)) return;
+        const oldValue = before?.[field];
+        const newValue = after?.[field];
+        if (!isSame(oldValue, newValue)) changes.push({ field, oldValue, newValue });
+    });
+    return changes;
+};
+
+const diffEntityList = (
+    entityType: AuditEntityType,
+    before: unknown,
+    after: unknown,
+    context: AuditContext,
+    exclude: string[],
+    onUpdated?: (previous: Entity, next: Entity) => void
+): ChangeLogEntry[] => {
+    if (before === after) return [];
+
+    const previous = new Map((Array.isArray(before) ? before : []).filter(isEntity).map(e => [e.id, e]));
+    const next = new Map((Array.isArray(after) ? after : []).filter(isEntity).map(e => [e.id, e]));
+    const entries: ChangeLogEntry[] = [];
+
+    const entry = (entity: Entity, action: ChangeLogEntry['action'], changes: FieldChange[]): ChangeLogEntry => ({
+        id: createEntryId(),
+        entityType,
+        entityId: entity.id,
+        entityName: entityName(entity),
+        action,
+        userId: context.userId,
+        userName: context.userName,
+        timestamp: context.timestamp,
+        changes,
+        metadata: context.metadata
+    });
+
+    next.forEach((entity, id) => {
+        const old = previous.get(id);
+        if (!old) {
+            entries.push(entry(entity, 'created', diffFields(undefined, entity, exclude)));
+            return;
+        }
+        if (old === entity) return;
+
+        const changes = diffFields(old, entity, exclude);
+        if (changes.length > 0) {
+            entries.push(entry(entity, changes.some(c => c.field === 'status') ? 'status_changed' : 'updated', changes));
+        }
+        onUpdated?.(old, entity);
+    });
+
+    previous.forEach((entity, id) => {
+        if (next.has(id)) return;
+        entries.push(entry(entity, 'deleted', diffFields(entity, undefined, exclude)));
+        onUpdated?.(entity, { id } as Entity);
+    });
+
+    // 新建实体的子实体也逐条记录
+    next.forEach((entity, id) => {
+        if (!previous.has(id)) onUpdated?.({ id } as Entity, entity);
+    });
+
+    return entries;
+};
+
+/**
+ * 对比一个实体集合；嵌套集合（如项目下的任务）从父实体字段中剥离，逐条记录
+ */
+export const diffCollection = (
+    collection: AuditCollection,
+    before: unknown,
+    after: unknown,
+    context: AuditContext
+): ChangeLogEntry[] => {
+    const childKeys = (collection.children || []).map(c => c.key);
+    const childEntries: ChangeLogEntry[] = [];
+
+    const entries = diffEntityList(
+        collection.entityType,
+        before,
+        after,
+        context,
+        [...childKeys, ...(collection.ignore || [])],
+        (previous, next) => {
+            (collection.children || []).forEach(child => {
+                const parentKey = collection.entityType === 'project' ? 'projectId' : 'parentId';
+                childEntries.push(...diffEntityList(
+                    child.entityType,
+                    previous[child.key],
+                    next[child.key],
+                    { ...context, metadata: { ...context.metadata, [parentKey]: next.id } },
+                    []
+                ));
+            });
+        }
+    );
+
+    return [...entries, ...childEntries];
+};
+
+/**
+ * 对比所有受审计的集合
+ */
+export const diffAuditedState = (
+    collections: AuditCollection[],
+    before: Record<string, unknown>,
+    after: Record<string, unknown>,
+    context: AuditContext
+): ChangeLogEntry[] =>
+    collections.flatMap(collection => diffCollection(collection, before[collection.key], after[collection.key], context));
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntityType, string> = {
+    project: '项目',
+    task: '任务',
+    resource: '资源团队',
+    risk: '风险',
+    milestone: '里程碑',
+    teamMember: '团队成员',
+    bay: 'Bay',
+    machine: '机台',
+    factor: '评分因子',
+    template: '项目模板',
+    projectType: '项目类型',
+    keyTask: '关键任务',
+    calendar: '工作日历',
+    compatibilityRule: '兼容性规则',
+    softwareBaseline: '软件基线',
+    rolloutCampaign: '软件升级活动',
+    factorWeightSet: '因子权重版本',
+    program: '项目群',
+    issue: '问题',
+    assumption: '假设',
+    decision: '决策',
+    actionItem: '行动项',
+    changeRequest: '变更请求',
+    environment: '环境资源',
+    requirement: '需求',
+    workflow: '审批流程',
+    simulation: '推演方案',
+    lesson: '经验教训'
+};
+
+export const AUDIT_ACTION_LABELS: Record<ChangeLogEntry['action'], string> = {
+    created: '创建',
+    updated: '修改',
+    deleted: '删除',
+    status_changed: '状态变更'
+};
+
+/**
+ * 审计值的可读文本
+ */
+export const formatAuditValue = (value: unknown): string => {
+    if (value === undefined || value === null || value === '') return '—';
+    if (typeof value === 'object') {
+        const text = JSON.stringify(value);
+        return text.length > 120 ? `${text.slice(0, 117)}...` : text;
+    }
+    return String(value);
+};
+
+export interface ChangeLogFilter {
+    entityType?: AuditEntityType;
+    entity?: string; // 实体 ID 或名称关键字
+    userId?: string;
+    action?: ChangeLogEntry['action'];
+    projectId?: string; // 项目本身及其任务、里程碑、风险
+    from?: string; // yyyy-MM-dd（含）
+    to?: string; // yyyy-MM-dd（含）
+}
+
+/**
+ * 按条件查询审计记录，按时间倒序
+ */
+export const queryChangeLog = (entries: ChangeLogEntry[], filter: ChangeLogFilter): ChangeLogEntry[] => {
+    const keyword = filter.entity?.trim().toLowerCase();
+    const fromTime = filter.from ? new Date(`${filter.from}T00:00:00`).getTime() : -Infinity;
+    const toTime = filter.to ? new Date(`${filter.to}T23:59:59.999`).getTime() : Infinity;
+
+    return entries
+        .filter(entry => {
+            if (filter.entityType && entry.entityType !== filter.entityType) return false;
+            if (filter.userId && entry.userId !== filter.userId) return false;
+            if (filter.action && entry.action !== filter.action) return false;
+            if (filter.projectId && !(
+                (entry.entityType === 'project' && entry.entityId === filter.projectId) ||
+                entry.metadata?.projectId === filter.projectId
+            )) return false;
+            if (keyword && !entry.entityId.toLowerCase().includes(keyword) && !entry.entityName.toLowerCase().includes(keyword)) return false;
+
+            const time = new Date(entry.timestamp).getTime();
+            return time >= fromTime && time <= toTime;
+        })
+        .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+};
+
+const csvCell = (value: unknown) => `"${String(value ?? '').replace(/"/g, '""')}"`;
+
+/**
+ * 导出审计记录（每个字段变更一行）
+ */
+export const exportChangeLogToCSV = (entries: ChangeLogEntry[]): void => {
+    const headers = ['时间', '用户ID', '用户', '操作', '实体类型', '实体ID', '实体名称', '字段', '原值', '新值', '来源', '动作'];
+    const rows = entries.flatMap(entry => {
+        const base = [
+            entry.timestamp,
+            entry.userId,
+            entry.userName,
+            AUDIT_ACTION_LABELS[entry.action],
+            AUDIT_ENTITY_LABELS[entry.entityType] || entry.entityType,
+            entry.entityId,
+            entry.entityName
+        ];
+        const meta = [entry.metadata?.store, entry.metadata?.action];
+        const changes = entry.changes.length > 0 ? entry.changes : [{ field: '', oldValue: '', newValue: '' }];
+        return changes.map(change => [
+            ...base,
+            change.field,
+            typeof change.oldValue === 'object' ? JSON.stringify(change.oldValue) : change.oldValue,
+            typeof change.newValue === 'object' ? JSON.stringify(change.newValue) : change.newValue,
+            ...meta
+        ].map(csvCell).join(','));
+    });
+
+    const csvContent = [headers.join(','), ...rows].join('\n');
+    const blob = new Blob(['\uFEFF' + csvContent], { type: 'text/csv;charset=utf-8;' });
+    const link = document.createElement('a');
+    const url = URL.createObjectURL(blob);
+
+    link.setAttribute('href', url);
+    link.setAttribute('download', `审计日志_${format(new Date(), 'yyyyMMdd_HHmmss')}.csv`);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+};
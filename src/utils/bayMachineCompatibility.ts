@@ -0,0 +1,208 @@
+import { format } from 'date-fns';
+import type { BayMachineCompatibilityRule, BayResource, BaySize, MachineResource, ResourceBooking } from '../types';
+
+/**
+ * Bay 与机器的兼容性矩阵（Bay 尺寸 × 机型/平台 × 软件版本）与成对预约
+ *
+ * 预约区间的开始、结束日期均包含当天（与资源日历一致）。矩阵为空时不做兼容性限制。
+ */
+
+export const BAY_SIZES: BaySize[] = ['S', 'M', 'L'];
+
+export const DEFAULT_COMPATIBILITY_RULES: BayMachineCompatibilityRule[] = [
+    {
+        id: 'compat-entry',
+        name: '入门机型',
+        baySizes: ['S', 'M', 'L'],
+        machineModels: ['uCT 530', 'uCT 550']
+    },
+    {
+        id: 'compat-mid',
+        name: '中端机型',
+        baySizes: ['M', 'L'],
+        machineModels: ['uCT 710', 'uCT 760', 'uCT 780']
+    },
+    {
+        id: 'compat-high',
+        name: '高端机型',
+        baySizes: ['L'],
+        machineModels: ['uCT 820', 'uCT 960+', 'uCT 968', 'uCT 968 Pro', 'uCT 968 Elite', 'uCT ATLAS', 'uCT Atlas Astound']
+    }
+];
+
+export interface PairBookingRequest {
+    bayId: string;
+    machineId: string;
+    projectId: string;
+    projectName: string;
+    startDate: string;
+    endDate: string;
+    reservedBy: string;
+    reservedByName?: string;
+    reservedByDept?: string;
+    purpose?: string;
+    usageType?: ResourceBooking['usageType'];
+    initialStatusConfirmed?: boolean;
+    requiredSoftwareVersion?: string; // 项目要求的机器软件版本，机器当前版本不满足时拒绝
+}
+
+export interface PairBookingCheck {
+    allowed: boolean;
+    reasons: string[];
+}
+
+export interface BayMachinePair {
+    bay: BayResource;
+    machine: MachineResource;
+    sizeWaste: number; // Bay 尺寸比机器所需最小尺寸大几档
+    health: number; // 两者中较低的健康度
+}
+
+/**
+ * 版本匹配：精确匹配，或以 * 结尾的前缀匹配
+ */
+export const matchesVersionPattern = (pattern: string, version: string) =>
+    pattern.endsWith('*') ? version.startsWith(pattern.slice(0, -1)) : pattern === version;
+
+const matchesRule = (rule: BayMachineCompatibilityRule, machine: MachineResource, version?: string) =>
+    (!rule.machineModels?.length || rule.machineModels.includes(machine.model)) &&
+    (!rule.platforms?.length || (!!machine.platform && rule.platforms.includes(machine.platform))) &&
+    (!rule.softwareVersions?.length || (!!version && rule.softwareVersions.some(p => matchesVersionPattern(p, version))));
+
+/**
+ * 机器（在给定软件版本下）可安装的 Bay 尺寸
+ */
+export const getCompatibleBaySizes = (
+    machine: MachineResource,
+    rules: BayMachineCompatibilityRule[],
+    softwareVersion?: string
+): BaySize[] => {
+    if (rules.length === 0) return BAY_SIZES;
+    const version = softwareVersion || machine.softwareVersion;
+    const sizes = new Set(rules.filter(r => matchesRule(r, machine, version)).flatMap(r => r.baySizes));
+    return BAY_SIZES.filter(size => sizes.has(size));
+};
+
+/**
+ * Bay 与机器是否兼容
+ */
+export const isPairCompatible = (
+    bay: BayResource,
+    machine: MachineResource,
+    rules: BayMachineCompatibilityRule[],
+    softwareVersion?: string
+) => getCompatibleBaySizes(machine, rules, softwareVersion).includes(bay.size);
+
+/**
+ * 占用资源的预约（未取消、未完成）
+ */
+const isBookingHolding = (booking: ResourceBooking) =>
+    booking.status !== 'cancelled' && booking.status !== 'completed';
+
+/**
+ * 资源在 [startDate, endDate] 内的占用冲突
+ */
+export const getWindowConflicts = (
+    resource: BayResource | MachineResource,
+    startDate: string,
+    endDate: string,
+    now: Date = new Date()
+): string[] => {
+    const conflicts: string[] = [];
+
+    if (resource.status === 'maintenance') {
+        conflicts.push(`${resource.name} 正在维护`);
+    } else if (resource.status === 'occupied' && startDate <= format(now, 'yyyy-MM-dd')) {
+        conflicts.push(`${resource.name} 当前已被 ${resource.currentProjectName || '其他项目'} 占用`);
+    }
+
+    resource.bookings
+        .filter(b => isBookingHolding(b) && b.startDate <= endDate && startDate <= b.endDate)
+        .forEach(b => conflicts.push(`${resource.name} 已被 ${b.projectName} 预约（${b.startDate} ~ ${b.endDate}）`));
+
+    (resource.maintenancePlans || [])
+        .filter(p => p.status === 'accepted' && startDate <= p.plannedDate && p.plannedDate <= endDate)
+        .forEach(p => conflicts.push(`${resource.name} 已安排维保（${p.plannedDate}）`));
+
+    return Array.from(new Set(conflicts));
+};
+
+/**
+ * 校验一次 Bay + 机器成对预约：日期、软件版本要求、兼容性与两者在时段内均空闲
+ */
+export const validatePairBooking = (
+    bay: BayResource,
+    machine: MachineResource,
+    rules: BayMachineCompatibilityRule[],
+    request: Pick<PairBookingRequest, 'startDate' | 'endDate' | 'requiredSoftwareVersion'>,
+    now: Date = new Date()
+): PairBookingCheck => {
+    if (!request.startDate || !request.endDate || request.endDate < request.startDate) {
+        return { allowed: false, reasons: ['结束日期不能早于开始日期'] };
+    }
+
+    const reasons: string[] = [];
+    const required = request.requiredSoftwareVersion;
+    if (required && !(machine.softwareVersion && matchesVersionPattern(required, machine.softwareVersion))) {
+        reasons.push(`${machine.name} 当前软件版本为 ${machine.softwareVersion || '未部署'}，不满足项目要求的 ${required}`);
+    }
+    if (!isPairCompatible(bay, machine, rules)) {
+        const sizes = getCompatibleBaySizes(machine, rules);
+        const version = machine.softwareVersion;
+        reasons.push(sizes.length > 0
+            ? `${machine.model}${version ? `（${version}）` : ''} 仅兼容 ${sizes.join('/')} 型 Bay，${bay.name} 为 ${bay.size} 型`
+            : `兼容性矩阵中没有适用于 ${machine.model}${version ? `（${version}）` : ''} 的规则`);
+    }
+    reasons.push(
+        ...getWindowConflicts(bay, request.startDate, request.endDate, now),
+        ...getWindowConflicts(machine, request.startDate, request.endDate, now)
+    );
+
+    return { allowed: reasons.length === 0, reasons };
+};
+
+/**
+ * 查找时段内可成对预约的 Bay 与机器，按最佳匹配排序：
+ * Bay 尺寸越贴合机器需求越优先（把大 Bay 留给大机器），其次健康度较高者优先
+ */
+export const findBestFitPairs = (
+    bays: BayResource[],
+    machines: MachineResource[],
+    rules: BayMachineCompatibilityRule[],
+    request: Pick<PairBookingRequest, 'startDate' | 'endDate' | 'requiredSoftwareVersion'> & { bayId?: string; machineId?: string },
+    limit?: number,
+    now: Date = new Date()
+): BayMachinePair[] => {
+    const freeBays = bays.filter(b =>
+        (!request.bayId || b.id === request.bayId) &&
+        getWindowConflicts(b, request.startDate, request.endDate, now).length === 0
+    );
+
+    const pairs = machines
+        .filter(m =>
+            (!request.machineId || m.id === request.machineId) &&
+            (!request.requiredSoftwareVersion || (!!m.softwareVersion && matchesVersionPattern(request.requiredSoftwareVersion, m.softwareVersion))) &&
+            getWindowConflicts(m, request.startDate, request.endDate, now).length === 0
+        )
+        .flatMap(machine => {
+            const sizes = getCompatibleBaySizes(machine, rules);
+            if (sizes.length === 0) return [];
+            const minSize = BAY_SIZES.indexOf(sizes[0]);
+            return freeBays
+                .filter(bay => sizes.includes(bay.size))
+                .map(bay => ({
+                    bay,
+                    machine,
+                    sizeWaste: BAY_SIZES.indexOf(bay.size) - minSize,
+                    health: Math.min(bay.health, machine.health)
+                }));
+        })
+        .sort((a, b) =>
+            a.sizeWaste - b.sizeWaste ||
+            b.health - a.health ||
+            a.bay.name.localeCompare(b.bay.name) ||
+            a.machine.name.localeCompare(b.machine.name)
+        );
+
+    return limit === undefined ? pairs : pairs.slice(0, limit);
+};
@@ -0,0 +1,172 @@
+import { addDays, format, parseISO } from 'date-fns';
+import type { ChangeImplementationRecord, ChangeRequest, Project, Task, WorkingCalendar } from '../types';
+import { addWorkingDays } from './workingCalendar';
+
+/**
+ * 变更实施：把已批准变更请求的影响评估转换为计划增量，对照当前基线预览后应用，并自动重新设定基线
+ *
+ * - 进度：实施日及之后开始的未完成任务整体顺延 scheduleImpactDays 个工作日，进行中的任务顺延完成日期
+ * - 工时：新增一条"变更实施"任务承载 estimatedEffortHours（计入挣值计划值）
+ * - 预算：增加 estimatedCostIncrease
+ *
+ * 实施后回填 actualEffortHours / actualCostIncrease，与估算对比跟踪偏差。
+ */
+
+export interface TaskShift {
+    taskId: string;
+    name: string;
+    startDate: string;
+    endDate: string;
+    newStartDate: string;
+    newEndDate: string;
+}
+
+export interface PlanSnapshot {
+    endDate: string;
+    budget: number;
+    plannedHours: number;
+}
+
+export interface ChangePlanDelta {
+    changeRequestId: string;
+    implementationDate: string;
+    shiftedTasks: TaskShift[];
+    addedTask?: Task;
+    current: PlanSnapshot;
+    proposed: PlanSnapshot;
+    baseline?: PlanSnapshot & { name: string };
+    tasks: Task[]; // 应用后的完整任务列表
+}
+
+export interface ChangeActualsVariance {
+    effortVariance?: number; // 实际 - 预计（小时）
+    effortVariancePercent?: number;
+    costVariance?: number; // 实际 - 预计（元）
+    costVariancePercent?: number;
+}
+
+const toDateString = (date: Date) => format(date, 'yyyy-MM-dd');
+
+const sumPlannedHours = (tasks: Task[]) =>
+    tasks.filter(t => t.type !== 'group').reduce((sum, t) => sum + (t.plannedHours || 0), 0);
+
+const isTaskDone = (task: Task) => task.progress >= 100 || task.status === 'completed';
+
+/**
+ * 生成变更的计划增量（不修改项目）
+ */
+export const proposeChangeDelta = (
+    project: Project,
+    changeRequest: ChangeRequest,
+    calendar?: WorkingCalendar,
+    asOf: Date = new Date()
+): ChangePlanDelta => {
+    const today = toDateString(asOf);
+    const days = Math.max(0, Math.round(changeRequest.scheduleImpactDays || 0));
+    const shift = (date: string) => days === 0
+        ? date
+        : toDateString(calendar ? addWorkingDays(date, days, calendar) : addDays(parseISO(date), days));
+
+    const shiftedTasks: TaskShift[] = [];
+    const tasks = (project.tasks || []).map(task => {
+        if (days === 0 || isTaskDone(task) || task.endDate < today) return task;
+
+        const newStartDate = task.startDate >= today ? shift(task.startDate) : task.startDate;
+        const newEndDate = shift(task.endDate);
+        shiftedTasks.push({
+            taskId: task.id,
+            name: task.name,
+            startDate: task.startDate,
+            endDate: task.endDate,
+            newStartDate,
+            newEndDate
+        });
+        return { ...task, startDate: newStartDate, endDate: newEndDate };
+    });
+
+    const effort = changeRequest.estimatedEffortHours || 0;
+    const addedTask: Task | undefined = effort > 0
+        ? {
+            id: `task-${changeRequest.id}`,
+            name: `变更实施：${changeRequest.title}`,
+            description: changeRequest.description,
+            type: 'task',
+            startDate: today,
+            endDate: days > 0 ? shift(today) : today,
+            progress: 0,
+            status: 'planning',
+            plannedHours: effort
+        }
+        : undefined;
+    if (addedTask) tasks.push(addedTask);
+
+    const latestTaskEnd = tasks.reduce((latest, t) => (t.endDate > latest ? t.endDate : latest), '');
+    const shiftedEnd = project.endDate >= today ? shift(project.endDate) : project.endDate;
+    const budget = project.budget || 0;
+
+    const activeBaseline = project.baselines?.find(b => b.id === project.activeBaselineId);
+
+    return {
+        changeRequestId: changeRequest.id,
+        implementationDate: today,
+        shiftedTasks,
+        addedTask,
+        current: {
+            endDate: project.endDate,
+            budget,
+            plannedHours: sumPlannedHours(project.tasks || [])
+        },
+        proposed: {
+            endDate: latestTaskEnd > shiftedEnd ? latestTaskEnd : shiftedEnd,
+            budget: budget + (changeRequest.estimatedCostIncrease || 0),
+            plannedHours: sumPlannedHours(tasks)
+        },
+        baseline: activeBaseline && {
+            name: activeBaseline.name,
+            endDate: activeBaseline.snapshot.endDate,
+            budget: activeBaseline.snapshot.budget,
+            plannedHours: sumPlannedHours(activeBaseline.snapshot.tasks)
+        },
+        tasks
+    };
+};
+
+/**
+ * 增量对应的项目更新
+ */
+export const getChangeProjectUpdates = (delta: ChangePlanDelta): Partial<Project> => ({
+    tasks: delta.tasks,
+    endDate: delta.proposed.endDate,
+    budget: delta.proposed.budget
+});
+
+/**
+ * 记录在变更请求上的实施摘要
+ */
+export const createImplementationRecord = (delta: ChangePlanDelta): ChangeImplementationRecord => ({
+    shiftedTaskIds: delta.shiftedTasks.map(s => s.taskId),
+    addedTaskId: delta.addedTask?.id,
+    previousEndDate: delta.current.endDate,
+    newEndDate: delta.proposed.endDate,
+    previousBudget: delta.current.budget,
+    newBudget: delta.proposed.budget,
+    addedEffortHours: delta.addedTask?.plannedHours || 0
+});
+
+/**
+ * 实际工时 / 成本与估算的偏差，未回填实际值的项为空
+ */
+export const getChangeActualsVariance = (changeRequest: ChangeRequest): ChangeActualsVariance => {
+    const variance = (actual: number | undefined, estimate: number) => actual === undefined
+        ? {}
+        : { value: actual - estimate, percent: estimate > 0 ? (actual - estimate) / estimate * 100 : undefined };
+
+    const effort = variance(changeRequest.actualEffortHours, changeRequest.estimatedEffortHours);
+    const cost = variance(changeRequest.actualCostIncrease, changeRequest.estimatedCostIncrease);
+    return {
+        effortVariance: effort.value,
+        effortVariancePercent: effort.percent,
+        costVariance: cost.value,
+        costVariancePercent: cost.percent
+    };
+};
@@ -1,5 +1,6 @@
 import type { Project, Task } from '../types';
-import { differenceInDays, parseISO } from 'date-fns';
+import { addMonths, endOfMonth, format, startOfMonth } from 'date-fns';
+import { createEVMModel, deriveEVMMetrics, type EVMOptions } from './evmCalculations';
 
 export interface EVMMetrics {
     pv: number; // 计划价值 (Planned Value)
@@ -17,108 +18,58 @@ export interface EVMMetrics {
         schedule: 'ahead' | 'on_track' | 'behind';
         cost: 'under_budget' | 'on_track' | 'over_budget';
     };
+    history: { date: string; pv: number; ev: number; ac: number }[]; // 项目开始至上月的月末值
 }
 
 /**
- * 计算项目的挣值管理指标
+ * 计算项目的挣值管理指标（成本控制视图的简写形式，计算统一由 evmCalculations 完成）
  */
-export const calculateEVM = (project: Project, tasks: Task[]): EVMMetrics => {
-    const now = new Date();
-    const bac = project.totalBudget || 0;
-    const ac = project.actualCost || project.budgetUsed || 0;
-
-    let pv = 0;
-    let ev = 0;
-
-    // 如果没有任务或预算，返回默认值
-    if (tasks.length === 0 || bac === 0) {
-        return {
-            pv: 0, ev: 0, ac, sv: 0, cv: 0, spi: 1, cpi: 1,
-            bac, eac: bac, etc: 0, vac: 0,
-            status: { schedule: 'on_track', cost: 'on_track' }
-        };
+export const calculateEVM = (project: Project, tasks: Task[], options: EVMOptions = {}): EVMMetrics => {
+    const model = createEVMModel({ ...project, tasks }, options);
+    const metrics = deriveEVMMetrics(project.id, model.asOf, model.budgetAtCompletion, model.valuesAt(model.asOf));
+
+    // 项目开始至上月的逐月数据
+    const history: EVMMetrics['history'] = [];
+    const currentMonth = startOfMonth(model.asOf);
+    for (let month = startOfMonth(new Date(project.startDate)); month < currentMonth; month = addMonths(month, 1)) {
+        const values = model.valuesAt(endOfMonth(month));
+        history.push({ date: format(month, 'yyyy-MM'), ...values });
     }
 
-    // 计算 PV 和 EV
-    // 假设预算是均匀分配到每个任务的工期上的（简化模型）
-    // 更精确的模型应该基于每个任务的独立预算
-    const totalDuration = tasks.reduce((sum, t) => {
-        const start = parseISO(t.startDate);
-        const end = parseISO(t.endDate);
-        return sum + Math.max(1, differenceInDays(end, start));
-    }, 0);
-
-    const costPerDay = totalDuration > 0 ? bac / totalDuration : 0;
-
-    tasks.forEach(task => {
-        const start = parseISO(task.startDate);
-        const end = parseISO(task.endDate);
-        const duration = Math.max(1, differenceInDays(end, start));
-        const taskBudget = duration * costPerDay;
-
-        // 计算 PV: 到目前为止应该完成的工作量价值
-        if (now >= start) {
-            const daysElapsed = Math.min(duration, Math.max(0, differenceInDays(now, start)));
-            const plannedPercent = daysElapsed / duration;
-            pv += taskBudget * plannedPercent;
-        }
-
-        // 计算 EV: 实际完成的工作量价值
-        const progress = task.progress || 0;
-        ev += taskBudget * (progress / 100);
-    });
-
-    // 计算偏差
-    const sv = ev - pv;
-    const cv = ev - ac;
-
-    // 计算指数 (避免除以零)
-    const spi = pv > 0 ? ev / pv : 1;
-    const cpi = ac > 0 ? ev / ac : 1;
-
-    // 预测未来
-    // EAC = AC + (BAC - EV) / CPI (典型偏差计算法)
-    // 如果 CPI 为 0 或异常，回退到 EAC = AC + (BAC - EV)
-    const eac = cpi > 0.1 ? ac + (bac - ev) / cpi : ac + (bac - ev);
-    const etc = eac - ac;
-    const vac = bac - eac;
-
-    // 确定状态
-    const scheduleStatus = spi >= 1 ? 'ahead' : spi >= 0.9 ? 'on_track' : 'behind';
-    const costStatus = cpi >= 1 ? 'under_budget' : cpi >= 0.9 ? 'on_track' : 'over_budget';
+    const spi = metrics.schedulePerformanceIndex;
+    const cpi = metrics.costPerformanceIndex;
 
     return {
-        pv, ev, ac,
-        sv, cv,
-        spi, cpi,
-        bac, eac, etc, vac,
+        pv: metrics.plannedValue,
+        ev: metrics.earnedValue,
+        ac: metrics.actualCost,
+        sv: metrics.scheduleVariance,
+        cv: metrics.costVariance,
+        spi,
+        cpi,
+        bac: metrics.budgetAtCompletion,
+        eac: metrics.estimateAtCompletion,
+        etc: metrics.estimateToComplete,
+        vac: metrics.varianceAtCompletion,
         status: {
-            schedule: scheduleStatus,
-            cost: costStatus
-        }
+            schedule: spi >= 1 ? 'ahead' : spi >= 0.9 ? 'on_track' : 'behind',
+            cost: cpi >= 1 ? 'under_budget' : cpi >= 0.9 ? 'on_track' : 'over_budget'
+        },
+        history
     };
 };
 
 /**
- * 生成成本预测趋势数据（用于图表）
- * 模拟过去的数据点和未来的预测线
+ * 生成成本趋势数据（用于图表）
+ * 历史为逐月的实际 PV / EV / AC，预测线按 ETC 均摊到未来各月
  */
 export const generateCostTrend = (metrics: EVMMetrics, months: number = 6) => {
     const data = [];
     const today = new Date();
 
-    // 过去 3 个月的数据（模拟）
-    for (let i = 3; i > 0; i--) {
-        const date = new Date(today.getFullYear(), today.getMonth() - i, 1);
-        const factor = 1 - (i * 0.1); // 模拟增长
-        data.push({
-            date: format(date, 'yyyy-MM'),
-            ac: metrics.ac * factor,
-            ev: metrics.ev * factor,
-            pv: metrics.pv * factor,
-            type: 'history'
-        });
-    }
+    metrics.history.forEach(point => {
+        data.push({ ...point, type: 'history' });
+    });
 
     // 当前点
     data.push({
@@ -145,5 +96,3 @@ export const generateCostTrend = (metrics: EVMMetrics, months: number = 6) => {
 
     return data;
 };
-
-import { format } from 'date-fns';
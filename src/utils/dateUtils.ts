@@ -19,8 +19,11 @@ import {
     isBefore,
     isSameDay,
     isWithinInterval,
+    eachMonthOfInterval,
 } from 'date-fns';
 import { zhCN } from 'date-fns/locale';
+import type { WorkingCalendar, CalendarException } from '../types';
+import { countWorkingDays } from './workingCalendar';
 
 /**
  * Standard date format used across the application
@@ -204,6 +207,21 @@ export function getCurrentMonthRange(): { start: string; end: string } {
     };
 }
 
+/**
+ * Month keys (yyyy-MM) spanning all given date ranges, in order.
+ * Invalid or missing dates are skipped; with no usable range the current month is returned.
+ */
+export function getMonthKeysSpanning(ranges: { startDate?: string; endDate?: string }[]): string[] {
+    const dates = ranges
+        .flatMap(r => [safeParseDateString(r.startDate), safeParseDateString(r.endDate)])
+        .filter((d): d is Date => d !== null);
+    if (dates.length === 0) return [format(new Date(), 'yyyy-MM')];
+
+    const start = startOfMonth(new Date(Math.min(...dates.map(d => d.getTime()))));
+    const end = startOfMonth(new Date(Math.max(...dates.map(d => d.getTime()))));
+    return eachMonthOfInterval({ start, end }).map(d => format(d, 'yyyy-MM'));
+}
+
 /**
  * Validate date string format
  */
@@ -230,14 +248,25 @@ export function compareDates(date1: string | Date, date2: string | Date): number
 }
 
 /**
- * Get business days between two dates (excluding weekends)
+ * Get business days between two dates.
+ * Without a calendar only weekends are excluded; with a working calendar its
+ * holidays, make-up workdays and the given team/member exceptions apply.
  */
-export function getBusinessDays(startDate: string | Date, endDate: string | Date): number {
+export function getBusinessDays(
+    startDate: string | Date,
+    endDate: string | Date,
+    calendar?: WorkingCalendar,
+    exceptions: CalendarException[] = []
+): number {
     const start = typeof startDate === 'string' ? safeParseDateString(startDate) : startDate;
     const end = typeof endDate === 'string' ? safeParseDateString(endDate) : endDate;
 
     if (!start || !end) return 0;
 
+    if (calendar) {
+        return countWorkingDays(start, end, calendar, exceptions);
+    }
+
     let count = 0;
     let current = new Date(start);
 
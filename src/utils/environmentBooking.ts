@@ -0,0 +1,268 @@
+import { addDays, differenceInCalendarDays, format, parseISO, startOfDay } from 'date-fns';
+import type { EnvironmentBooking, EnvironmentResource, Project } from '../types';
+
+/**
+ * 环境预约校验：并发容量、维护窗口、冻结期与按项目优先级（P0–P3）抢占
+ *
+ * 预约区间为 [开始, 结束)；维护与冻结窗口的结束日期包含当天。
+ */
+
+type Priority = Project['priority'];
+
+export interface EnvironmentBookingRequest {
+    projectId: string;
+    priority?: Priority; // 缺省按最低优先级 P3
+    startDate: string;
+    endDate: string;
+}
+
+export type BookingRejectionType = 'invalid' | 'status' | 'maintenance' | 'freeze' | 'capacity';
+
+export interface BookingRejection {
+    type: BookingRejectionType;
+    message: string;
+    startDate?: string;
+    endDate?: string;
+    bookingIds?: string[]; // 容量不足时占满容量的预约
+}
+
+export interface BookingSlot {
+    startDate: string;
+    endDate: string;
+}
+
+export interface EnvironmentBookingCheck {
+    allowed: boolean;
+    reasons: BookingRejection[];
+    preemptions: EnvironmentBooking[]; // 需要被抢占的低优先级预约
+    suggestions: BookingSlot[]; // 最近的可用时段（同等时长）
+}
+
+export interface EnvironmentBookingOptions {
+    allowPreemption?: boolean; // 默认允许
+    projectPriorities?: Record<string, Priority>; // 旧预约未记录优先级时按项目当前优先级
+    now?: Date;
+}
+
+const PRIORITY_RANK: Record<Priority, number> = { P0: 0, P1: 1, P2: 2, P3: 3 };
+
+export const ENVIRONMENT_BOOKING_STATUS_LABELS: Record<EnvironmentBooking['status'], string> = {
+    reserved: '已预约',
+    active: '使用中',
+    completed: '已完成',
+    cancelled: '已取消',
+    preempted: '已被抢占'
+};
+
+const SUGGESTION_SEARCH_DAYS = 90;
+const MAX_SUGGESTIONS = 3;
+
+interface Interval {
+    start: number;
+    end: number;
+}
+
+const toTime = (date: string) => parseISO(date).getTime();
+
+const toWindow = (startDate: string, endDate: string): Interval => ({
+    start: toTime(startDate),
+    end: addDays(parseISO(endDate), 1).getTime()
+});
+
+const overlaps = (a: Interval, b: Interval) => a.start < b.end && b.start < a.end;
+
+const formatDay = (time: number) => format(time, 'yyyy-MM-dd');
+
+/**
+ * 占用容量的预约（已预约或使用中）
+ */
+export const isBookingHolding = (booking: EnvironmentBooking) =>
+    booking.status === 'reserved' || booking.status === 'active';
+
+/**
+ * 环境的并发容量（未设置时独占）
+ */
+export const getEnvironmentCapacity = (environment: EnvironmentResource) =>
+    Math.max(1, environment.maxConcurrentUsers || 1);
+
+/**
+ * 区间内任一时刻的最大并发预约数
+ */
+const peakConcurrency = (bookings: EnvironmentBooking[], range: Interval): number => {
+    const intervals = bookings
+        .map(b => ({ start: toTime(b.startDate), end: toTime(b.endDate) }))
+        .filter(interval => overlaps(interval, range));
+
+    // 并发数只会在区间起点或某个预约开始时增加
+    const points = [range.start, ...intervals.map(i => i.start).filter(t => t > range.start && t < range.end)];
+    return points.reduce((peak, point) =>
+        Math.max(peak, intervals.filter(i => i.start <= point && point < i.end).length), 0);
+};
+
+const resolvePriority = (booking: EnvironmentBooking, options: EnvironmentBookingOptions): Priority =>
+    booking.priority || options.projectPriorities?.[booking.projectId] || 'P3';
+
+/**
+ * 校验时段，不含替代时段建议
+ */
+const checkSlot = (
+    environment: EnvironmentResource,
+    request: EnvironmentBookingRequest,
+    options: EnvironmentBookingOptions
+): Omit<EnvironmentBookingCheck, 'suggestions'> => {
+    const reasons: BookingRejection[] = [];
+    const range: Interval = { start: toTime(request.startDate), end: toTime(request.endDate) };
+    const priority = request.priority || 'P3';
+
+    if (isNaN(range.start) || isNaN(range.end) || range.end <= range.start) {
+        return {
+            allowed: false,
+            reasons: [{ type: 'invalid', message: '结束日期必须晚于开始日期' }],
+            preemptions: []
+        };
+    }
+
+    if (environment.status === 'maintenance' || environment.status === 'offline') {
+        reasons.push({
+            type: 'status',
+            message: environment.status === 'maintenance' ? '环境正在维护，暂停预约' : '环境已离线，暂停预约'
+        });
+    }
+
+    (environment.maintenanceSchedule || []).forEach(window => {
+        if (!overlaps(range, toWindow(window.startDate, window.endDate))) return;
+        reasons.push({
+            type: 'maintenance',
+            message: `与维护窗口冲突：${window.reason}（${window.startDate} ~ ${window.endDate}）`,
+            startDate: window.startDate,
+            endDate: window.endDate
+        });
+    });
+
+    (environment.freezePeriods || []).forEach(period => {
+        if (!overlaps(range, toWindow(period.startDate, period.endDate))) return;
+        if (period.exemptPriorities?.includes(priority)) return;
+        reasons.push({
+            type: 'freeze',
+            message: `处于冻结期：${period.reason}（${period.startDate} ~ ${period.endDate}）` +
+                (period.exemptPriorities?.length ? `，仅 ${period.exemptPriorities.join('/')} 项目可预约` : ''),
+            startDate: period.startDate,
+            endDate: period.endDate
+        });
+    });
+
+    // 并发容量：占满时依次抢占优先级更低的预约（最低优先级、最晚创建的先让出）
+    const capacity = getEnvironmentCapacity(environment);
+    let holding = environment.bookings.filter(b =>
+        isBookingHolding(b) && overlaps({ start: toTime(b.startDate), end: toTime(b.endDate) }, range)
+    );
+    const preemptions: EnvironmentBooking[] = [];
+
+    if (peakConcurrency(holding, range) >= capacity) {
+        const candidates = options.allowPreemption === false ? [] : holding
+            .filter(b => b.status === 'reserved' && PRIORITY_RANK[resolvePriority(b, options)] > PRIORITY_RANK[priority])
+            .sort((a, b) =>
+                PRIORITY_RANK[resolvePriority(b, options)] - PRIORITY_RANK[resolvePriority(a, options)] ||
+                b.createdAt.localeCompare(a.createdAt)
+            );
+
+        for (const candidate of candidates) {
+            if (peakConcurrency(holding, range) < capacity) break;
+            holding = holding.filter(b => b.id !== candidate.id);
+            preemptions.push(candidate);
+        }
+
+        if (peakConcurrency(holding, range) >= capacity) {
+            reasons.push({
+                type: 'capacity',
+                message: capacity > 1
+                    ? `并发容量已满（${capacity} 个），且占用方优先级不低于 ${priority}`
+                    : `该时段已被占用，且占用方优先级不低于 ${priority}`,
+                bookingIds: holding.map(b => b.id)
+            });
+            preemptions.length = 0;
+        }
+    }
+
+    return {
+        allowed: reasons.length === 0,
+        reasons,
+        preemptions: reasons.length === 0 ? preemptions : []
+    };
+};
+
+/**
+ * 时段是否可直接预约（无需抢占）
+ */
+export const isSlotAvailable = (
+    environment: EnvironmentResource,
+    request: EnvironmentBookingRequest,
+    options: EnvironmentBookingOptions = {}
+): boolean => checkSlot(environment, request, { ...options, allowPreemption: false }).allowed;
+
+/**
+ * 查找最近的可用时段：保持预约时长，在请求开始日前后逐日搜索（不早于今天），无需抢占即可预约
+ */
+export const findNearestFreeSlots = (
+    environment: EnvironmentResource,
+    request: EnvironmentBookingRequest,
+    options: EnvironmentBookingOptions = {},
+    limit: number = MAX_SUGGESTIONS
+): BookingSlot[] => {
+    const start = parseISO(request.startDate);
+    const duration = differenceInCalendarDays(parseISO(request.endDate), start);
+    if (isNaN(duration) || duration <= 0) return [];
+
+    const today = startOfDay(options.now || new Date());
+    const slots: BookingSlot[] = [];
+
+    for (let offset = 1; offset <= SUGGESTION_SEARCH_DAYS && slots.length < limit; offset++) {
+        [offset, -offset].forEach(shift => {
+            if (slots.length >= limit) return;
+            const slotStart = addDays(start, shift);
+            if (slotStart < today) return;
+
+            const slot = {
+                startDate: formatDay(slotStart.getTime()),
+                endDate: formatDay(addDays(slotStart, duration).getTime())
+            };
+            if (isSlotAvailable(environment, { ...request, ...slot }, options)) {
+                slots.push(slot);
+            }
+        });
+    }
+
+    return slots;
+};
+
+/**
+ * 校验一次环境预约；被拒绝时附带原因与最近可用时段
+ */
+export const validateEnvironmentBooking = (
+    environment: EnvironmentResource,
+    request: EnvironmentBookingRequest,
+    options: EnvironmentBookingOptions = {}
+): EnvironmentBookingCheck => {
+    const result = checkSlot(environment, request, options);
+    const blocked = result.reasons.some(r => r.type === 'invalid' || r.type === 'status');
+
+    return {
+        ...result,
+        suggestions: result.allowed || blocked ? [] : findNearestFreeSlots(environment, request, options)
+    };
+};
+
+/**
+ * 同类型环境中在请求时段内可直接预约（无需抢占）的替代环境
+ */
+export const findAlternativeEnvironments = (
+    environments: EnvironmentResource[],
+    environment: EnvironmentResource,
+    request: EnvironmentBookingRequest,
+    options: EnvironmentBookingOptions = {}
+): EnvironmentResource[] =>
+    environments.filter(env =>
+        env.id !== environment.id &&
+        env.type === environment.type &&
+        isSlotAvailable(env, request, options)
+    );
@@ -0,0 +1,288 @@
+import {
+    addDays,
+    differenceInCalendarDays,
+    eachMonthOfInterval,
+    eachWeekOfInterval,
+    endOfMonth,
+    endOfWeek,
+    format,
+    max as maxDate,
+    min as minDate,
+    parseISO,
+    startOfDay
+} from 'date-fns';
+import type { BayResource, MachineResource, ResourceBooking } from '../types';
+
+/**
+ * 设备利用率与 OEE 分析（基于预约与使用记录，按天计，一天按 hoursPerDay 小时）
+ *
+ * - 计划时长：未取消预约覆盖的天数
+ * - 实际时长：已开始的使用（签到至归还；缺少签到记录时按预约区间截至今天）
+ * - 停机时长：已批准/已完成的维保日，故障报修至修复完成的天数
+ * - 爽约：开始日期已过仍未签到的预约
+ * - OEE = 可用率 × 性能率 × 质量率
+ *   可用率 = (日历时长 − 停机) / 日历时长；性能率 = 实际 / 计划（上限 1）；质量率 = 归还状态正常的使用占比
+ */
+
+export type AnalyticsGranularity = 'week' | 'month';
+
+export interface EquipmentAnalyticsOptions {
+    from: Date;
+    to: Date;
+    granularity: AnalyticsGranularity;
+    hoursPerDay?: number;
+    asOf?: Date;
+}
+
+export interface AnalyticsBucket {
+    label: string;
+    start: string;
+    end: string;
+}
+
+export interface UtilizationTotals {
+    calendarHours: number;
+    downtimeHours: number;
+    plannedHours: number;
+    actualHours: number;
+    idleHours: number; // 可用但未被使用的时长
+    utilization: number; // 实际 / 日历，0-1
+    bookings: number;
+    noShows: number;
+}
+
+export interface OEEBreakdown {
+    availability: number;
+    performance: number;
+    quality: number;
+    oee: number;
+}
+
+export interface BucketUtilization extends UtilizationTotals {
+    bucket: string;
+}
+
+export interface ResourceUtilization {
+    resourceId: string;
+    resourceName: string;
+    kind: 'bay' | 'machine';
+    group: string; // 机器按平台，Bay 按尺寸
+    buckets: BucketUtilization[];
+    totals: UtilizationTotals;
+    oee: OEEBreakdown;
+}
+
+export interface GroupUtilization {
+    group: string;
+    kind: 'bay' | 'machine';
+    resourceCount: number;
+    totals: UtilizationTotals;
+    oee: OEEBreakdown;
+}
+
+export interface EquipmentAnalytics {
+    buckets: AnalyticsBucket[];
+    resources: ResourceUtilization[];
+    groups: GroupUtilization[];
+    totals: UtilizationTotals;
+    oee: OEEBreakdown;
+}
+
+interface DayRange {
+    start: Date;
+    end: Date; // 含当天
+}
+
+interface ResourceFacts {
+    planned: DayRange[];
+    actual: (DayRange & { normalReturn?: boolean; finished: boolean })[];
+    downtime: DayRange[];
+    bookings: ResourceBooking[];
+    noShows: ResourceBooking[];
+}
+
+const DEFAULT_HOURS_PER_DAY = 8;
+
+const toDay = (date: string) => startOfDay(parseISO(date));
+
+const overlapDays = (range: DayRange, window: DayRange) => {
+    const start = maxDate([range.start, window.start]);
+    const end = minDate([range.end, window.end]);
+    return Math.max(0, differenceInCalendarDays(end, start) + 1);
+};
+
+// 多个区间在窗口内覆盖的天数（重叠部分只计一次）
+const coveredDays = (ranges: DayRange[], window: DayRange) => {
+    const days = new Set<string>();
+    ranges.forEach(range => {
+        const start = maxDate([range.start, window.start]);
+        const end = minDate([range.end, window.end]);
+        for (let day = start; day <= end; day = addDays(day, 1)) days.add(format(day, 'yyyy-MM-dd'));
+    });
+    return days.size;
+};
+
+const ratio = (numerator: number, denominator: number) => denominator > 0 ? numerator / denominator : 0;
+
+/**
+ * 分析周期（按周从周一开始，或按自然月）
+ */
+export const buildAnalyticsBuckets = (from: Date, to: Date, granularity: AnalyticsGranularity): AnalyticsBucket[] => {
+    const starts = granularity === 'week'
+        ? eachWeekOfInterval({ start: from, end: to }, { weekStartsOn: 1 })
+        : eachMonthOfInterval({ start: from, end: to });
+
+    return starts.map(start => {
+        const end = granularity === 'week' ? endOfWeek(start, { weekStartsOn: 1 }) : endOfMonth(start);
+        const clippedStart = maxDate([start, startOfDay(from)]);
+        const clippedEnd = minDate([end, startOfDay(to)]);
+        return {
+            label: granularity === 'week' ? `${format(start, 'MM-dd')} 周` : format(start, 'yyyy-MM'),
+            start: format(clippedStart, 'yyyy-MM-dd'),
+            end: format(clippedEnd, 'yyyy-MM-dd')
+        };
+    });
+};
+
+/**
+ * 从预约、使用历史与维保计划中提取计划/实际/停机区间
+ */
+const collectFacts = (resource: BayResource | MachineResource, asOf: Date): ResourceFacts => {
+    const records = new Map<string, ResourceBooking>();
+    [...(resource.usageHistory || []), ...resource.bookings].forEach(b => {
+        // 使用历史中的记录是归还时的最终状态，优先于预约列表
+        if (!records.has(b.id)) records.set(b.id, b);
+    });
+    const bookings = Array.from(records.values()).filter(b => b.status !== 'cancelled');
+
+    const planned = bookings.map(b => ({ start: toDay(b.startDate), end: toDay(b.endDate) }));
+    const noShows = bookings.filter(b => b.status === 'planned' && !b.actualStartDate && toDay(b.startDate) < asOf);
+
+    const actual = bookings
+        .filter(b => b.status === 'active' || b.status === 'completed' || !!b.actualStartDate)
+        .map(b => {
+            const start = toDay(b.actualStartDate || b.startDate);
+            const plannedEnd = b.status === 'completed' ? toDay(b.endDate) : minDate([toDay(b.endDate), asOf]);
+            const end = b.actualEndDate ? toDay(b.actualEndDate) : plannedEnd;
+            return { start, end: minDate([end, asOf]), normalReturn: b.returnStatusConfirmed, finished: b.status === 'completed' };
+        })
+        .filter(r => r.end >= r.start);
+
+    const downtime = (resource.maintenancePlans || []).flatMap(p => {
+        if (p.type === 'breakdown' && p.status !== 'rejected') {
+            const start = toDay(p.createdAt);
+            const end = p.completedAt ? toDay(p.completedAt) : asOf;
+            return end >= start ? [{ start, end }] : [];
+        }
+        if (p.status === 'accepted' || p.status === 'completed') {
+            const day = toDay(p.plannedDate);
+            return [{ start: day, end: day }];
+        }
+        return [];
+    });
+
+    return { planned, actual, downtime, bookings, noShows };
+};
+
+const measure = (facts: ResourceFacts, window: DayRange, hoursPerDay: number): UtilizationTotals => {
+    const calendarDays = differenceInCalendarDays(window.end, window.start) + 1;
+    const downtimeDays = coveredDays(facts.downtime, window);
+    const actualDays = coveredDays(facts.actual, window);
+    const plannedDays = coveredDays(facts.planned, window);
+    const inWindow = (b: ResourceBooking) => overlapDays({ start: toDay(b.startDate), end: toDay(b.endDate) }, window) > 0;
+
+    return {
+        calendarHours: calendarDays * hoursPerDay,
+        downtimeHours: downtimeDays * hoursPerDay,
+        plannedHours: plannedDays * hoursPerDay,
+        actualHours: actualDays * hoursPerDay,
+        idleHours: Math.max(0, calendarDays - downtimeDays - actualDays) * hoursPerDay,
+        utilization: ratio(actualDays, calendarDays),
+        bookings: facts.bookings.filter(inWindow).length,
+        noShows: facts.noShows.filter(b => toDay(b.startDate) >= window.start && toDay(b.startDate) <= window.end).length
+    };
+};
+
+const sumTotals = (items: UtilizationTotals[]): UtilizationTotals => {
+    const sum = items.reduce((acc, t) => ({
+        calendarHours: acc.calendarHours + t.calendarHours,
+        downtimeHours: acc.downtimeHours + t.downtimeHours,
+        plannedHours: acc.plannedHours + t.plannedHours,
+        actualHours: acc.actualHours + t.actualHours,
+        idleHours: acc.idleHours + t.idleHours,
+        utilization: 0,
+        bookings: acc.bookings + t.bookings,
+        noShows: acc.noShows + t.noShows
+    }), { calendarHours: 0, downtimeHours: 0, plannedHours: 0, actualHours: 0, idleHours: 0, utilization: 0, bookings: 0, noShows: 0 });
+    return { ...sum, utilization: ratio(sum.actualHours, sum.calendarHours) };
+};
+
+const computeOEE = (totals: UtilizationTotals, runs: number, goodRuns: number): OEEBreakdown => {
+    const availability = ratio(totals.calendarHours - totals.downtimeHours, totals.calendarHours);
+    const performance = Math.min(1, ratio(totals.actualHours, totals.plannedHours));
+    const quality = runs > 0 ? goodRuns / runs : 1;
+    return { availability, performance, quality, oee: availability * performance * quality };
+};
+
+// 已归还的使用中，归还确认正常的为合格
+const countRuns = (facts: ResourceFacts, window: DayRange) => {
+    const finished = facts.actual.filter(r => r.finished && overlapDays(r, window) > 0);
+    return { runs: finished.length, goodRuns: finished.filter(r => r.normalReturn !== false).length };
+};
+
+/**
+ * 计算 Bay 与机器在分析区间内的利用率、空闲、爽约、计划与实际对比及 OEE
+ */
+export const buildEquipmentAnalytics = (
+    bays: BayResource[],
+    machines: MachineResource[],
+    options: EquipmentAnalyticsOptions
+): EquipmentAnalytics => {
+    const hoursPerDay = options.hoursPerDay ?? DEFAULT_HOURS_PER_DAY;
+    const asOf = startOfDay(options.asOf || new Date());
+    const window: DayRange = { start: startOfDay(options.from), end: startOfDay(options.to) };
+    const buckets = buildAnalyticsBuckets(options.from, options.to, options.granularity);
+
+    const entries = [
+        ...bays.map(b => ({ resource: b as BayResource | MachineResource, kind: 'bay' as const, group: `Bay ${b.size} 型` })),
+        ...machines.map(m => ({ resource: m as BayResource | MachineResource, kind: 'machine' as const, group: m.platform || 'General' }))
+    ];
+
+    const runStats = new Map<string, { runs: number; goodRuns: number }>();
+    const resources: ResourceUtilization[] = entries.map(({ resource, kind, group }) => {
+        const facts = collectFacts(resource, asOf);
+        const totals = measure(facts, window, hoursPerDay);
+        const runs = countRuns(facts, window);
+        runStats.set(resource.id, runs);
+        return {
+            resourceId: resource.id,
+            resourceName: resource.name,
+            kind,
+            group,
+            buckets: buckets.map(bucket => ({
+                bucket: bucket.label,
+                ...measure(facts, { start: toDay(bucket.start), end: toDay(bucket.end) }, hoursPerDay)
+            })),
+            totals,
+            oee: computeOEE(totals, runs.runs, runs.goodRuns)
+        };
+    });
+
+    const aggregate = (items: ResourceUtilization[]) => {
+        const totals = sumTotals(items.map(r => r.totals));
+        const runs = items.reduce((acc, r) => {
+            const stats = runStats.get(r.resourceId)!;
+            return { runs: acc.runs + stats.runs, goodRuns: acc.goodRuns + stats.goodRuns };
+        }, { runs: 0, goodRuns: 0 });
+        return { totals, oee: computeOEE(totals, runs.runs, runs.goodRuns) };
+    };
+
+    const groupKeys = Array.from(new Set(resources.map(r => `${r.kind}|${r.group}`)));
+    const groups: GroupUtilization[] = groupKeys.map(key => {
+        const [kind, group] = key.split('|') as ['bay' | 'machine', string];
+        const items = resources.filter(r => r.kind === kind && r.group === group);
+        return { group, kind, resourceCount: items.length, ...aggregate(items) };
+    }).sort((a, b) => a.kind.localeCompare(b.kind) || a.group.localeCompare(b.group));
+
+    return { buckets, resources, groups, ...aggregate(resources) };
+};
@@ -1,140 +1,304 @@
-import { differenceInDays } from 'date-fns';
-import type { Project, Task, EVMMetrics } from '../types';
+import { addDays, differenceInDays, format, parseISO } from 'date-fns';
+import type { Project, Task, EVMMetrics, WorkingCalendar, ResourcePoolItem } from '../types';
+import { countWorkingDays } from './workingCalendar';
 
 /**
- * Calculate Earned Value Management (EVM) metrics for a project
+ * Single EVM engine. Planned value comes from each task's cost model
+ * (planned hours × rate + fixed cost), spread over the task's working time;
+ * earned value from task progress; actual cost from the project's cost entries.
  */
-export function calculateEVM(project: Project): EVMMetrics {
-    const today = new Date();
-    const startDate = new Date(project.startDate);
-    const endDate = new Date(project.endDate);
 
-    // Calculate time-based progress
-    const totalDuration = differenceInDays(endDate, startDate);
-    const elapsedDuration = differenceInDays(today, startDate);
-    const timeProgress = Math.min(Math.max(elapsedDuration / totalDuration, 0), 1);
+export interface EVMOptions {
+    calendar?: WorkingCalendar; // working time used to phase planned value
+    resourcePool?: ResourcePoolItem[]; // source of assignee hourly rates
+    asOf?: Date; // status date (defaults to now)
+}
+
+export interface TaskCostPlan {
+    taskId: string;
+    taskName: string;
+    plannedHours: number;
+    hourlyRate: number;
+    laborCost: number;
+    fixedCost: number;
+    budget: number; // task BAC
+    budgetSource: 'model' | 'allocated'; // own cost model, or share of the unallocated project budget
+    plannedValue: number;
+    earnedValue: number;
+    actualCost: number; // cost entries linked to the task
+}
+
+export interface EVMTimePoint {
+    date: string;
+    pv: number;
+    ev?: number; // only up to the status date
+    ac?: number;
+}
 
-    // Budget values
-    const budget = project.budget || project.totalBudget || 0;
-    const actualCost = project.actualCost || project.budgetUsed || 0;
+export interface EVMModel {
+    asOf: Date;
+    budgetAtCompletion: number;
+    tasks: TaskCostPlan[];
+    valuesAt: (date: Date) => { pv: number; ev: number; ac: number };
+}
 
-    // Planned Value (PV) - What we planned to accomplish by now
-    const plannedValue = budget * timeProgress;
+const toDay = (date: Date) => format(date, 'yyyy-MM-dd');
 
-    // Earned Value (EV) - What we actually accomplished (based on progress)
-    const progress = (project.progress || 0) / 100;
-    const earnedValue = budget * progress;
+/**
+ * Share of the [start, end] window elapsed by `asOf` (0-1).
+ * With a working calendar, only working days count towards elapsed and total time.
+ */
+const getTimeProgress = (start: Date, end: Date, asOf: Date, calendar?: WorkingCalendar): number => {
+    if (asOf < start) return 0;
+    if (asOf >= end) return 1;
+
+    if (calendar) {
+        const totalWorkingDays = countWorkingDays(start, end, calendar);
+        if (totalWorkingDays === 0) return 1;
+        const elapsedWorkingDays = countWorkingDays(start, addDays(asOf, -1), calendar);
+        return Math.min(Math.max(elapsedWorkingDays / totalWorkingDays, 0), 1);
+    }
 
-    // Actual Cost (AC) - What we actually spent
-    const actualCostValue = actualCost;
+    const totalDuration = differenceInDays(end, start);
+    if (totalDuration <= 0) return 1;
+    return Math.min(Math.max(differenceInDays(asOf, start) / totalDuration, 0), 1);
+};
+
+/**
+ * Share of the project's planned duration elapsed by `asOf` (0-1).
+ */
+export function getPlannedTimeProgress(
+    project: Project,
+    asOf: Date,
+    calendar?: WorkingCalendar
+): number {
+    return getTimeProgress(new Date(project.startDate), new Date(project.endDate), asOf, calendar);
+}
+
+/**
+ * Hourly rate for a task: its own rate, else the assigned member's, else the assigned pool's
+ */
+export function resolveTaskHourlyRate(task: Task, resourcePool: ResourcePoolItem[] = []): number {
+    if (task.hourlyRate !== undefined) return task.hourlyRate;
+    if (!task.assignee) return 0;
+
+    for (const pool of resourcePool) {
+        const member = pool.members?.find(m => m.id === task.assignee);
+        if (member) return member.hourlyRate ?? pool.hourlyRate ?? 0;
+        if (pool.id === task.assignee) return pool.hourlyRate ?? 0;
+    }
+    return 0;
+}
+
+/**
+ * Groups roll up their children and milestones carry no work
+ */
+const isWorkPackage = (task: Task) => task.type === 'task';
+
+const hasCostModel = (task: Task) => (task.plannedHours || 0) > 0 || (task.fixedCost || 0) > 0;
+
+/**
+ * Build the time-phased cost model of a project.
+ * Tasks without a cost model share whatever project budget the modelled tasks leave
+ * unallocated, by working duration; without any tasks the whole budget follows the
+ * project's own timeline and progress.
+ */
+export function createEVMModel(project: Project, options: EVMOptions = {}): EVMModel {
+    const { calendar, resourcePool = [] } = options;
+    const asOf = options.asOf || new Date();
+    const asOfDay = toDay(asOf);
+    const projectBudget = project.budget || project.totalBudget || 0;
+    const costEntries = project.costHistory || [];
+    const tasks = (project.tasks || []).filter(isWorkPackage);
+
+    const windows = new Map(tasks.map(task => {
+        const start = parseISO(task.startDate);
+        const end = parseISO(task.endDate);
+        return [task.id, { start, end: end > start ? end : addDays(start, 1) }];
+    }));
+    const durationOf = (task: Task) => {
+        const { start, end } = windows.get(task.id)!;
+        return Math.max(1, calendar ? countWorkingDays(start, end, calendar) : differenceInDays(end, start));
+    };
+
+    const modelled = tasks.filter(hasCostModel);
+    const unmodelled = tasks.filter(task => !hasCostModel(task));
+    const costs = new Map(modelled.map(task => {
+        const hourlyRate = resolveTaskHourlyRate(task, resourcePool);
+        const laborCost = (task.plannedHours || 0) * hourlyRate;
+        return [task.id, { hourlyRate, laborCost, fixedCost: task.fixedCost || 0 }];
+    }));
+    const modelledBudget = modelled.reduce((sum, task) => sum + costs.get(task.id)!.laborCost + costs.get(task.id)!.fixedCost, 0);
+    const unallocated = Math.max(0, projectBudget - modelledBudget);
+    const unmodelledDuration = unmodelled.reduce((sum, task) => sum + durationOf(task), 0);
+
+    const budgets = new Map(tasks.map(task => {
+        const cost = costs.get(task.id);
+        const budget = cost
+            ? cost.laborCost + cost.fixedCost
+            : unmodelledDuration > 0 ? unallocated * durationOf(task) / unmodelledDuration : 0;
+        return [task.id, budget];
+    }));
+
+    const budgetAtCompletion = tasks.length > 0
+        ? Array.from(budgets.values()).reduce((sum, budget) => sum + budget, 0)
+        : projectBudget;
+
+    // Progress is only known as of the status date; assume it accrued evenly up to then
+    const earnedAt = (task: Task, date: Date) => {
+        const { start, end } = windows.get(task.id)!;
+        const earnedBy = asOf < end ? asOf : end;
+        const accrued = date >= asOf ? 1 : getTimeProgress(start, earnedBy > start ? earnedBy : addDays(start, 1), date, calendar);
+        return budgets.get(task.id)! * ((task.progress || 0) / 100) * accrued;
+    };
+
+    const plannedAt = (task: Task, date: Date) => {
+        const { start, end } = windows.get(task.id)!;
+        return budgets.get(task.id)! * getTimeProgress(start, end, date, calendar);
+    };
+
+    const earnedValueAt = (date: Date) => tasks.length > 0
+        ? tasks.reduce((sum, task) => sum + earnedAt(task, date), 0)
+        : projectBudget * ((project.progress || 0) / 100) * (date >= asOf ? 1 : getTimeProgress(new Date(project.startDate), asOf, date, calendar));
+
+    // Without cost entries, fall back to the project's recorded total spread like earned value
+    const recordedCost = project.actualCost || project.budgetUsed || 0;
+    const currentEarned = earnedValueAt(asOf);
+    const actualCostAt = (date: Date) => {
+        const day = toDay(date < asOf ? date : asOf);
+        if (costEntries.length > 0) {
+            return costEntries.reduce((sum, entry) => entry.date.slice(0, 10) <= day ? sum + entry.amount : sum, 0);
+        }
+        if (date >= asOf) return recordedCost;
+        return currentEarned > 0 ? recordedCost * earnedValueAt(date) / currentEarned : 0;
+    };
+
+    const valuesAt = (date: Date) => ({
+        pv: tasks.length > 0
+            ? tasks.reduce((sum, task) => sum + plannedAt(task, date), 0)
+            : projectBudget * getPlannedTimeProgress(project, date, calendar),
+        ev: earnedValueAt(date),
+        ac: actualCostAt(date)
+    });
+
+    const taskPlans: TaskCostPlan[] = tasks.map(task => {
+        const cost = costs.get(task.id);
+        return {
+            taskId: task.id,
+            taskName: task.name,
+            plannedHours: task.plannedHours || 0,
+            hourlyRate: cost?.hourlyRate ?? resolveTaskHourlyRate(task, resourcePool),
+            laborCost: cost?.laborCost || 0,
+            fixedCost: cost?.fixedCost || 0,
+            budget: budgets.get(task.id)!,
+            budgetSource: cost ? 'model' : 'allocated',
+            plannedValue: plannedAt(task, asOf),
+            earnedValue: earnedAt(task, asOf),
+            actualCost: costEntries
+                .filter(entry => entry.taskId === task.id && entry.date.slice(0, 10) <= asOfDay)
+                .reduce((sum, entry) => sum + entry.amount, 0)
+        };
+    });
+
+    return { asOf, budgetAtCompletion, tasks: taskPlans, valuesAt };
+}
+
+/**
+ * Derive the performance indices and forecasts from PV / EV / AC
+ */
+export function deriveEVMMetrics(
+    projectId: string,
+    asOf: Date,
+    budget: number,
+    values: { pv: number; ev: number; ac: number }
+): EVMMetrics {
+    const { pv: plannedValue, ev: earnedValue, ac: actualCost } = values;
 
     // Schedule Performance Index (SPI) = EV / PV
     const schedulePerformanceIndex = plannedValue > 0 ? earnedValue / plannedValue : 1;
 
     // Cost Performance Index (CPI) = EV / AC
-    const costPerformanceIndex = actualCostValue > 0 ? earnedValue / actualCostValue : 1;
-
-    // Schedule Variance (SV) = EV - PV
-    const scheduleVariance = earnedValue - plannedValue;
+    const costPerformanceIndex = actualCost > 0 ? earnedValue / actualCost : 1;
 
-    // Cost Variance (CV) = EV - AC
-    const costVariance = earnedValue - actualCostValue;
-
-    // Estimate at Completion (EAC)
-    // Using formula: EAC = BAC / CPI (assumes current performance continues)
+    // Estimate at Completion (EAC) = BAC / CPI (assumes current performance continues)
     const estimateAtCompletion = costPerformanceIndex > 0
         ? budget / costPerformanceIndex
-        : budget;
+        : actualCost + (budget - earnedValue);
 
     // Estimate to Complete (ETC) = EAC - AC
-    const estimateToComplete = estimateAtCompletion - actualCostValue;
-
-    // Variance at Completion (VAC) = BAC - EAC
-    const varianceAtCompletion = budget - estimateAtCompletion;
+    const estimateToComplete = estimateAtCompletion - actualCost;
 
-    // To-Complete Performance Index (TCPI)
-    // TCPI = (BAC - EV) / (BAC - AC)
+    // To-Complete Performance Index (TCPI) = (BAC - EV) / (BAC - AC)
     const remainingWork = budget - earnedValue;
-    const remainingBudget = budget - actualCostValue;
+    const remainingBudget = budget - actualCost;
     const toCompletePerformanceIndex = remainingBudget > 0
         ? remainingWork / remainingBudget
         : 1;
 
     return {
-        projectId: project.id,
-        asOfDate: today.toISOString(),
+        projectId,
+        asOfDate: asOf.toISOString(),
         plannedValue,
         earnedValue,
-        actualCost: actualCostValue,
+        actualCost,
         schedulePerformanceIndex,
         costPerformanceIndex,
-        scheduleVariance,
-        costVariance,
+        scheduleVariance: earnedValue - plannedValue,
+        costVariance: earnedValue - actualCost,
         estimateAtCompletion,
         estimateToComplete,
-        varianceAtCompletion,
-        toCompletePerformanceIndex
+        varianceAtCompletion: budget - estimateAtCompletion,
+        toCompletePerformanceIndex,
+        budgetAtCompletion: budget
     };
 }
 
 /**
- * Generate EVM data points for S-Curve visualization
+ * Calculate Earned Value Management (EVM) metrics for a project
  */
-export function generateEVMTimeSeries(project: Project, dataPoints: number = 10): {
-    date: string;
-    pv: number;
-    ev: number;
-    ac: number;
-}[] {
-    const startDate = new Date(project.startDate);
-    const endDate = new Date(project.endDate);
-    const today = new Date();
-
-    const totalDuration = differenceInDays(endDate, startDate);
-    const budget = project.budget || project.totalBudget || 0;
-    const currentProgress = (project.progress || 0) / 100;
-    const actualCost = project.actualCost || project.budgetUsed || 0;
-
-    const series: { date: string; pv: number; ev: number; ac: number }[] = [];
-
-    // Generate data points from start to end
-    for (let i = 0; i <= dataPoints; i++) {
-        const ratio = i / dataPoints;
-        const daysFromStart = Math.floor(totalDuration * ratio);
-        const pointDate = new Date(startDate);
-        pointDate.setDate(pointDate.getDate() + daysFromStart);
-
-        // Only include points up to today for actual values
-        const isInPast = pointDate <= today;
-
-        // Planned Value (linear progression)
-        const pv = budget * ratio;
-
-        // Earned Value (S-curve approximation based on current progress)
-        let ev = 0;
-        if (isInPast) {
-            // Use S-curve formula: EV = BAC * (1 - e^(-k*t))
-            // Simplified: assume linear for now, but scaled by current progress
-            const progressAtPoint = Math.min(ratio / (differenceInDays(today, startDate) / totalDuration) * currentProgress, currentProgress);
-            ev = budget * progressAtPoint;
-        }
-
-        // Actual Cost (assume proportional to EV with some variance)
-        let ac = 0;
-        if (isInPast) {
-            const costRatio = ev / (budget * currentProgress || 1);
-            ac = actualCost * costRatio;
-        }
+export function calculateEVM(project: Project, options: EVMOptions = {}): EVMMetrics {
+    const model = createEVMModel(project, options);
+    return deriveEVMMetrics(project.id, model.asOf, model.budgetAtCompletion, model.valuesAt(model.asOf));
+}
 
-        series.push({
-            date: pointDate.toISOString().split('T')[0],
-            pv: Math.round(pv),
-            ev: Math.round(ev),
-            ac: Math.round(ac)
-        });
+/**
+ * Time-phased PV / EV / AC for S-curve visualization.
+ * Spans the project and all its tasks; EV and AC stop at the status date.
+ */
+export function generateEVMTimeSeries(
+    project: Project,
+    options: EVMOptions & { dataPoints?: number } = {}
+): EVMTimePoint[] {
+    const model = createEVMModel(project, options);
+    const dataPoints = options.dataPoints || 10;
+
+    const taskDates = (project.tasks || []).flatMap(task => [parseISO(task.startDate), parseISO(task.endDate)]);
+    const times = [new Date(project.startDate), new Date(project.endDate), ...taskDates]
+        .map(date => date.getTime())
+        .filter(time => !isNaN(time));
+    const startDate = new Date(Math.min(...times));
+    const totalDuration = Math.max(1, differenceInDays(new Date(Math.max(...times)), startDate));
+
+    const dates = Array.from({ length: dataPoints + 1 }, (_, i) =>
+        addDays(startDate, Math.round(totalDuration * i / dataPoints))
+    );
+    // Include the status date so the curve ends on the reported metrics
+    const asOfDay = toDay(model.asOf);
+    if (model.asOf > dates[0] && model.asOf < dates[dates.length - 1] && !dates.some(date => toDay(date) === asOfDay)) {
+        dates.push(model.asOf);
+        dates.sort((a, b) => a.getTime() - b.getTime());
     }
 
-    return series;
+    return dates.map(date => {
+        const values = model.valuesAt(date);
+        const isPast = date <= model.asOf;
+        return {
+            date: toDay(date),
+            pv: Math.round(values.pv),
+            ev: isPast ? Math.round(values.ev) : undefined,
+            ac: isPast ? Math.round(values.ac) : undefined
+        };
+    });
 }
 
 /**
@@ -0,0 +1,189 @@
+import type { FactorDefinition, FactorWeightSet, Project } from '../types';
+import { rankProjects } from './algorithm';
+
+/**
+ * 评分因子权重：AHP 两两比较、一致性检验、权重敏感性分析与历史权重版本回溯
+ *
+ * 两两比较按 Saaty 1-9 标度记录：comparisons['a|b'] = 3 表示因子 a 比 b 稍微重要，
+ * 反向取倒数。权重为判断矩阵主特征向量，CR = CI / RI，CR ≤ 0.1 视为判断一致。
+ */
+
+export const SAATY_SCALE: { value: number; label: string }[] = [
+    { value: 9, label: '极端重要' },
+    { value: 7, label: '非常重要' },
+    { value: 5, label: '明显重要' },
+    { value: 3, label: '稍微重要' },
+    { value: 1, label: '同等重要' },
+    { value: 1 / 3, label: '稍不重要' },
+    { value: 1 / 5, label: '明显不重要' },
+    { value: 1 / 7, label: '非常不重要' },
+    { value: 1 / 9, label: '极端不重要' }
+];
+
+export const CONSISTENCY_THRESHOLD = 0.1;
+
+// Saaty 随机一致性指标 RI（n = 1..15）
+const RANDOM_INDEX = [0, 0, 0, 0.58, 0.9, 1.12, 1.24, 1.32, 1.41, 1.45, 1.49, 1.51, 1.48, 1.56, 1.57, 1.59];
+
+export interface AHPResult {
+    weights: Record<string, number>; // 归一化权重，合计 1
+    lambdaMax: number;
+    consistencyIndex: number;
+    consistencyRatio: number;
+    consistent: boolean;
+}
+
+export interface SensitivityPoint {
+    share: number; // 该因子权重占比 (0-100)
+    ranks: Record<string, number>; // projectId -> 排名
+}
+
+export interface FactorSensitivity {
+    factorId: string;
+    factorName: string;
+    currentShare: number;
+    points: SensitivityPoint[];
+    stableRange: [number, number]; // 排名顺序与当前一致的占比区间
+    topChangesAt?: number; // 第一名发生变化的最近占比
+}
+
+export const comparisonKey = (a: string, b: string) => `${a}|${b}`;
+
+/**
+ * 读取 a 相对 b 的比较值（未填写视为同等重要）
+ */
+export const getComparison = (comparisons: Record<string, number>, a: string, b: string): number => {
+    if (a === b) return 1;
+    const direct = comparisons[comparisonKey(a, b)];
+    if (direct) return direct;
+    const inverse = comparisons[comparisonKey(b, a)];
+    return inverse ? 1 / inverse : 1;
+};
+
+export const buildComparisonMatrix = (factorIds: string[], comparisons: Record<string, number>): number[][] =>
+    factorIds.map(a => factorIds.map(b => getComparison(comparisons, a, b)));
+
+/**
+ * AHP 权重：幂迭代求主特征向量，并计算一致性比率
+ */
+export const calculateAHPWeights = (factorIds: string[], comparisons: Record<string, number>): AHPResult => {
+    const n = factorIds.length;
+    if (n === 0) return { weights: {}, lambdaMax: 0, consistencyIndex: 0, consistencyRatio: 0, consistent: true };
+
+    const matrix = buildComparisonMatrix(factorIds, comparisons);
+    let vector = new Array(n).fill(1 / n);
+    for (let iteration = 0; iteration < 100; iteration++) {
+        const next = matrix.map(row => row.reduce((sum, value, j) => sum + value * vector[j], 0));
+        const total = next.reduce((sum, v) => sum + v, 0);
+        const normalized = next.map(v => v / total);
+        const delta = normalized.reduce((max, v, i) => Math.max(max, Math.abs(v - vector[i])), 0);
+        vector = normalized;
+        if (delta < 1e-10) break;
+    }
+
+    const weighted = matrix.map(row => row.reduce((sum, value, j) => sum + value * vector[j], 0));
+    const lambdaMax = weighted.reduce((sum, v, i) => sum + v / vector[i], 0) / n;
+    const consistencyIndex = n > 1 ? Math.max(0, (lambdaMax - n) / (n - 1)) : 0;
+    const randomIndex = RANDOM_INDEX[Math.min(n, RANDOM_INDEX.length - 1)];
+    const consistencyRatio = randomIndex > 0 ? consistencyIndex / randomIndex : 0;
+
+    return {
+        weights: Object.fromEntries(factorIds.map((id, i) => [id, vector[i]])),
+        lambdaMax,
+        consistencyIndex,
+        consistencyRatio,
+        consistent: consistencyRatio <= CONSISTENCY_THRESHOLD
+    };
+};
+
+/**
+ * 归一化权重转为百分比（保留一位小数）
+ */
+export const toPercentWeights = (weights: Record<string, number>): Record<string, number> => {
+    const total = Object.values(weights).reduce((sum, w) => sum + w, 0);
+    return Object.fromEntries(Object.entries(weights).map(([id, w]) => [id, total > 0 ? Math.round(w / total * 1000) / 10 : 0]));
+};
+
+/**
+ * 用指定权重替换因子定义中的权重（权重集中没有的因子记 0）
+ */
+export const applyWeightsToDefinitions = (definitions: FactorDefinition[], weights: Record<string, number>): FactorDefinition[] =>
+    definitions.map(def => ({ ...def, weight: weights[def.id] ?? 0 }));
+
+/**
+ * 某一时刻生效的权重版本
+ */
+export const getWeightSetAt = (weightSets: FactorWeightSet[], at: string): FactorWeightSet | undefined =>
+    [...weightSets]
+        .filter(set => set.effectiveFrom <= at)
+        .sort((a, b) => b.effectiveFrom.localeCompare(a.effectiveFrom) || b.version - a.version)[0];
+
+/**
+ * 用某个权重版本重现项目排名（项目的因子打分取当前值）
+ */
+export const rankProjectsWithWeightSet = (projects: Project[], definitions: FactorDefinition[], weightSet: FactorWeightSet): Project[] => {
+    const known = new Set(definitions.map(d => d.id));
+    const retired = Object.keys(weightSet.weights)
+        .filter(id => !known.has(id))
+        .map(id => ({ id, name: weightSet.factorNames[id] || id, weight: weightSet.weights[id] }));
+    return rankProjects(projects, [...applyWeightsToDefinitions(definitions, weightSet.weights), ...retired]);
+};
+
+const ranksOf = (projects: Project[], definitions: FactorDefinition[]) =>
+    Object.fromEntries(rankProjects(projects, definitions).map(p => [p.id, p.rank!]));
+
+const sameOrder = (a: Record<string, number>, b: Record<string, number>) =>
+    Object.keys(a).every(id => a[id] === b[id]);
+
+/**
+ * 敏感性分析：把一个因子的权重占比从 0 调到 100%，其余因子按原比例分配剩余权重，观察排名变化
+ */
+export const analyzeWeightSensitivity = (
+    projects: Project[],
+    definitions: FactorDefinition[],
+    steps = 20
+): FactorSensitivity[] => {
+    const total = definitions.reduce((sum, d) => sum + d.weight, 0);
+    if (total <= 0 || projects.length === 0) return [];
+    const baseline = ranksOf(projects, definitions);
+    const baselineTop = Object.keys(baseline).find(id => baseline[id] === 1);
+
+    return definitions.map(factor => {
+        const currentShare = factor.weight / total * 100;
+        const othersTotal = total - factor.weight;
+        const shares = Array.from(new Set([
+            ...Array.from({ length: steps + 1 }, (_, i) => Math.round(i * 100 / steps * 10) / 10),
+            Math.round(currentShare * 10) / 10
+        ])).sort((a, b) => a - b);
+
+        const points = shares.map(share => {
+            const adjusted = definitions.map(def => ({
+                ...def,
+                weight: def.id === factor.id
+                    ? share
+                    : othersTotal > 0 ? def.weight / othersTotal * (100 - share) : (100 - share) / Math.max(1, definitions.length - 1)
+            }));
+            return { share, ranks: ranksOf(projects, adjusted) };
+        });
+
+        // 从当前占比向两侧扩展，直到排名顺序改变
+        const currentIndex = points.findIndex(p => p.share === Math.round(currentShare * 10) / 10);
+        let low = currentIndex;
+        let high = currentIndex;
+        while (low > 0 && sameOrder(points[low - 1].ranks, baseline)) low--;
+        while (high < points.length - 1 && sameOrder(points[high + 1].ranks, baseline)) high++;
+
+        const topChanges = points
+            .filter(p => baselineTop && p.ranks[baselineTop] !== 1)
+            .sort((a, b) => Math.abs(a.share - currentShare) - Math.abs(b.share - currentShare))[0];
+
+        return {
+            factorId: factor.id,
+            factorName: factor.name,
+            currentShare,
+            points,
+            stableRange: [points[low].share, points[high].share] as [number, number],
+            topChangesAt: topChanges?.share
+        };
+    });
+};
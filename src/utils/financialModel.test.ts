@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { calculateIRR, calculateNPV, calculatePaybackYears } from './financialModel';
+
+describe('calculateIRR', () => {
+    it('solves single-period returns exactly', () => {
+        expect(calculateIRR([-100, 110])).toBeCloseTo(10, 6);
+        expect(calculateIRR([-100, 0, 121])).toBeCloseTo(10, 6);
+    });
+
+    it('returns the rate at which NPV is zero', () => {
+        const cashFlows = [-1000, 300, 400, 500];
+        const irr = calculateIRR(cashFlows)!;
+        expect(irr).toBeCloseTo(8.896, 2);
+        expect(calculateNPV(cashFlows, irr)).toBeCloseTo(0, 4);
+    });
+
+    it('handles a total loss and rejects flows without a sign change', () => {
+        expect(calculateIRR([-100, 50])).toBeCloseTo(-50, 6);
+        expect(calculateIRR([100, 50])).toBeUndefined();
+        expect(calculateIRR([-100, -50])).toBeUndefined();
+    });
+});
+
+describe('calculatePaybackYears', () => {
+    it('interpolates within the payback year', () => {
+        expect(calculatePaybackYears([-1000, 400, 400, 400])).toBeCloseTo(2.5, 6);
+        expect(calculatePaybackYears([-1000, 100, 100])).toBeUndefined();
+    });
+});
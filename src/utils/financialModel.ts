@@ -0,0 +1,169 @@
+import type { Project, ProjectTypeDefinition } from '../types';
+
+/**
+ * 项目与组合的折现现金流（DCF）财务模型（金额单位：万元，按年）
+ *
+ * 第 0 年现金流为研发投入（取预计研发投入，未填写时取本项目研发总额），
+ * 之后各年为 pmoMetrics.cashFlow.futureROI 中的预期净现金流。
+ * 折现率按项目配置，未配置时使用组合默认折现率。
+ */
+
+export const DEFAULT_DISCOUNT_RATE = 8; // %
+
+export interface FinancialMetrics {
+    investment: number;
+    cashFlows: number[]; // 第 0..n 年净现金流
+    npv: number;
+    irr?: number; // %，现金流无正负变号时无解
+    paybackYears?: number; // 静态回收期（年），期内未回本时为空
+    discountedPaybackYears?: number;
+    profitabilityIndex?: number; // 流入现值 / 投入现值，无投入时为空
+}
+
+export interface ProjectFinancials extends FinancialMetrics {
+    projectId: string;
+    projectName: string;
+    discountRate: number;
+    techPlatform: string;
+    projectType: string;
+}
+
+export interface FinancialRollup extends FinancialMetrics {
+    key: string;
+    projectCount: number;
+}
+
+export interface PortfolioFinancials {
+    projects: ProjectFinancials[];
+    byPlatform: FinancialRollup[];
+    byProjectType: FinancialRollup[];
+    portfolio: FinancialRollup;
+}
+
+export const discountFactor = (ratePct: number, year: number) => 1 / Math.pow(1 + ratePct / 100, year);
+
+export const calculateNPV = (cashFlows: number[], ratePct: number) =>
+    cashFlows.reduce((sum, cf, year) => sum + cf * discountFactor(ratePct, year), 0);
+
+/**
+ * 内部收益率：在 NPV 变号区间内二分求解
+ */
+export const calculateIRR = (cashFlows: number[]): number | undefined => {
+    if (!cashFlows.some(cf => cf < 0) || !cashFlows.some(cf => cf > 0)) return undefined;
+
+    let low = -99.9;
+    let high = 1000;
+    let npvLow = calculateNPV(cashFlows, low);
+    if (npvLow * calculateNPV(cashFlows, high) > 0) return undefined;
+
+    for (let i = 0; i < 200; i++) {
+        const mid = (low + high) / 2;
+        const npvMid = calculateNPV(cashFlows, mid);
+        if (Math.abs(npvMid) < 1e-7) return mid;
+        if (npvLow * npvMid < 0) {
+            high = mid;
+        } else {
+            low = mid;
+            npvLow = npvMid;
+        }
+    }
+    return (low + high) / 2;
+};
+
+/**
+ * 回收期：累计现金流转正的年份，年内按线性插值
+ */
+export const calculatePaybackYears = (cashFlows: number[], ratePct?: number): number | undefined => {
+    let cumulative = 0;
+    for (let year = 0; year < cashFlows.length; year++) {
+        const flow = ratePct === undefined ? cashFlows[year] : cashFlows[year] * discountFactor(ratePct, year);
+        const previous = cumulative;
+        cumulative += flow;
+        if (year > 0 && previous < 0 && cumulative >= 0) {
+            return year - 1 + (-previous / flow);
+        }
+    }
+    return cumulative >= 0 && cashFlows.some(cf => cf < 0) ? 0 : undefined;
+};
+
+const calculateMetrics = (cashFlows: number[], ratePct: number): FinancialMetrics => {
+    const pvInflows = cashFlows.reduce((sum, cf, year) => sum + (cf > 0 ? cf * discountFactor(ratePct, year) : 0), 0);
+    const pvOutflows = cashFlows.reduce((sum, cf, year) => sum + (cf < 0 ? -cf * discountFactor(ratePct, year) : 0), 0);
+    return {
+        investment: cashFlows.reduce((sum, cf) => sum + (cf < 0 ? -cf : 0), 0),
+        cashFlows,
+        npv: calculateNPV(cashFlows, ratePct),
+        irr: calculateIRR(cashFlows),
+        paybackYears: calculatePaybackYears(cashFlows),
+        discountedPaybackYears: calculatePaybackYears(cashFlows, ratePct),
+        profitabilityIndex: pvOutflows > 0 ? pvInflows / pvOutflows : undefined
+    };
+};
+
+/**
+ * 项目现金流序列：[-研发投入, Y1, Y2, ...]
+ */
+export const getProjectCashFlows = (project: Project): number[] => {
+    const cashFlow = project.pmoMetrics?.cashFlow;
+    const investment = project.pmoMetrics?.rdInvestment || cashFlow?.currentInvestment || 0;
+    return [-investment, ...(cashFlow?.futureROI || [])];
+};
+
+export const calculateProjectFinancials = (
+    project: Project,
+    defaultDiscountRate: number = DEFAULT_DISCOUNT_RATE,
+    projectTypes: ProjectTypeDefinition[] = []
+): ProjectFinancials => {
+    const discountRate = project.pmoMetrics?.cashFlow.discountRate ?? defaultDiscountRate;
+    return {
+        projectId: project.id,
+        projectName: project.name,
+        discountRate,
+        techPlatform: project.pmoMetrics?.techPlatform || 'Other',
+        projectType: projectTypes.find(t => t.id === project.projectType)?.name || '未分类',
+        ...calculateMetrics(getProjectCashFlows(project), discountRate)
+    };
+};
+
+/**
+ * 汇总：NPV 为各项目按各自折现率计算后相加；IRR、回收期与 PI 基于逐年合并的现金流与默认折现率
+ */
+const rollUp = (key: string, items: ProjectFinancials[], defaultDiscountRate: number): FinancialRollup => {
+    const years = items.reduce((max, item) => Math.max(max, item.cashFlows.length), 0);
+    const cashFlows = Array.from({ length: years }, (_, year) => items.reduce((sum, item) => sum + (item.cashFlows[year] || 0), 0));
+    return {
+        key,
+        projectCount: items.length,
+        ...calculateMetrics(cashFlows, defaultDiscountRate),
+        npv: items.reduce((sum, item) => sum + item.npv, 0)
+    };
+};
+
+const groupBy = (items: ProjectFinancials[], keyOf: (item: ProjectFinancials) => string, defaultDiscountRate: number) => {
+    const groups = new Map<string, ProjectFinancials[]>();
+    items.forEach(item => groups.set(keyOf(item), [...(groups.get(keyOf(item)) || []), item]));
+    return Array.from(groups.entries())
+        .map(([key, group]) => rollUp(key, group, defaultDiscountRate))
+        .sort((a, b) => b.npv - a.npv);
+};
+
+/**
+ * 组合财务模型：逐项目 DCF，并按技术平台与项目类型汇总
+ */
+export const buildPortfolioFinancials = (
+    projects: Project[],
+    defaultDiscountRate: number = DEFAULT_DISCOUNT_RATE,
+    projectTypes: ProjectTypeDefinition[] = []
+): PortfolioFinancials => {
+    const items = projects
+        .filter(p => p.pmoMetrics)
+        .map(p => calculateProjectFinancials(p, defaultDiscountRate, projectTypes))
+        .sort((a, b) => b.npv - a.npv);
+
+    return {
+        projects: items,
+        byPlatform: groupBy(items, item => item.techPlatform, defaultDiscountRate),
+        byProjectType: groupBy(items, item => item.projectType, defaultDiscountRate),
+        portfolio: rollUp('组合', items, defaultDiscountRate)
+    };
+};
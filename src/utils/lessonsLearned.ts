@@ -0,0 +1,125 @@
+import type { LessonLearned, Project, Risk, RiskCategory } from '../types';
+
+/**
+ * 经验教训库
+ *
+ * 项目收尾时记录"哪里出了问题、根本原因、改进建议"，按风险类别与项目类型归档，
+ * 全组合可检索；同类型新项目创建后推送相关教训，已收尾项目中实际发生的风险作为风险建议来源。
+ *
+ * 风险视为"实际发生"：已登记实际发生（realizedDate），或被该项目的经验教训关联。
+ */
+
+// 经验教训按风险类别归档，便于回流到风险识别
+export const LESSON_CATEGORIES: RiskCategory[] = ['schedule', 'cost', 'resource', 'technical', 'external', 'quality', 'scope'];
+
+export interface LessonFilter {
+    query?: string;
+    category?: RiskCategory;
+    projectType?: string;
+}
+
+export interface MaterializedRiskPattern {
+    key: string;
+    category: RiskCategory;
+    title: string;
+    risks: Risk[];
+    projects: Project[]; // 发生过该风险的已收尾项目
+    frequency: number; // 发生项目数 / 同类型已收尾项目数
+    maxImpact: number;
+    averageCost?: number; // 登记了实际成本时的平均值
+    lessons: LessonLearned[];
+}
+
+/**
+ * 处于收尾阶段或已完成，需要进行复盘沉淀
+ */
+export const isProjectClosing = (project: Project): boolean =>
+    project.status === 'completed' || project.currentStage === 'closing';
+
+/**
+ * 按关键字（标题、问题、根因、建议、项目名、标签）、风险类别与项目类型检索，新记录在前
+ */
+export const searchLessons = (lessons: LessonLearned[], filter: LessonFilter): LessonLearned[] => {
+    const query = filter.query?.trim().toLowerCase();
+    return lessons
+        .filter(lesson => !filter.category || lesson.category === filter.category)
+        .filter(lesson => !filter.projectType || lesson.projectType === filter.projectType)
+        .filter(lesson => !query || [
+            lesson.title,
+            lesson.whatWentWrong,
+            lesson.rootCause,
+            lesson.recommendation,
+            lesson.projectName,
+            ...(lesson.tags || [])
+        ].some(text => text?.toLowerCase().includes(query)))
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+/**
+ * 与项目相关的经验教训：同项目类型的其他项目沉淀的教训
+ */
+export const getRelevantLessons = (project: Project, lessons: LessonLearned[]): LessonLearned[] =>
+    project.projectType
+        ? searchLessons(lessons.filter(l => l.projectId !== project.id), { projectType: project.projectType })
+        : [];
+
+/**
+ * 项目中实际发生的风险
+ */
+export const getMaterializedRisks = (project: Project, lessons: LessonLearned[]): Risk[] => {
+    const linked = new Set(lessons.filter(l => l.projectId === project.id).flatMap(l => l.relatedRiskIds || []));
+    return (project.risks || []).filter(risk => !!risk.realizedDate || linked.has(risk.id));
+};
+
+const normalizeTitle = (title: string) => title.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/**
+ * 同类型已收尾项目中实际发生过的风险，按类别 + 标题归并，按发生频率、影响排序
+ */
+export const getMaterializedRiskPatterns = (
+    project: Project,
+    allProjects: Project[],
+    lessons: LessonLearned[]
+): MaterializedRiskPattern[] => {
+    if (!project.projectType) return [];
+
+    const closedProjects = allProjects.filter(p =>
+        p.id !== project.id && p.status === 'completed' && p.projectType === project.projectType
+    );
+    if (closedProjects.length === 0) return [];
+
+    const patterns = new Map<string, MaterializedRiskPattern>();
+    closedProjects.forEach(source => {
+        getMaterializedRisks(source, lessons).forEach(risk => {
+            const key = `${risk.category}:${normalizeTitle(risk.title)}`;
+            const pattern = patterns.get(key) || {
+                key,
+                category: risk.category,
+                title: risk.title,
+                risks: [],
+                projects: [],
+                frequency: 0,
+                maxImpact: 0,
+                lessons: []
+            };
+            pattern.risks.push(risk);
+            if (!pattern.projects.includes(source)) pattern.projects.push(source);
+            pattern.maxImpact = Math.max(pattern.maxImpact, risk.impact);
+            pattern.lessons.push(...lessons.filter(l =>
+                l.projectId === source.id && l.relatedRiskIds?.includes(risk.id) && !pattern.lessons.includes(l)
+            ));
+            patterns.set(key, pattern);
+        });
+    });
+
+    return Array.from(patterns.values())
+        .map(pattern => {
+            const costs = pattern.risks.map(r => r.realizedCost).filter((c): c is number => c !== undefined);
+            return {
+                ...pattern,
+                frequency: pattern.projects.length / closedProjects.length,
+                averageCost: costs.length > 0 ? costs.reduce((a, b) => a + b, 0) / costs.length : undefined
+            };
+        })
+        .sort((a, b) => b.frequency - a.frequency || b.maxImpact - a.maxImpact || b.risks.length - a.risks.length);
+};
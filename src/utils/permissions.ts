@@ -0,0 +1,98 @@
+import type { User, UserRole, Permission, Project } from '../types';
+
+/**
+ * 角色 → 允许的动作
+ */
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+    admin: [
+        'project:create', 'project:edit', 'project:delete', 'task:edit',
+        'changeRequest:submit', 'changeRequest:approve', 'requirement:manage', 'workflow:approve',
+        'resource:manage', 'environment:manage', 'environment:book', 'bay:book',
+        'maintenance:request', 'maintenance:approve', 'simulation:manage', 'settings:manage',
+        'role:switch', 'audit:view', 'escalation:handle'
+    ],
+    pmo: [
+        'project:create', 'project:edit', 'project:delete', 'task:edit',
+        'changeRequest:submit', 'changeRequest:approve', 'requirement:manage', 'workflow:approve',
+        'resource:manage', 'environment:manage', 'environment:book', 'bay:book',
+        'maintenance:request', 'maintenance:approve', 'simulation:manage', 'settings:manage',
+        'audit:view', 'escalation:handle'
+    ],
+    manager: [
+        'project:create', 'project:edit', 'task:edit',
+        'changeRequest:submit', 'changeRequest:approve', 'requirement:manage', 'workflow:approve',
+        'environment:book', 'bay:book', 'maintenance:request'
+    ],
+    user: [
+        'task:edit', 'changeRequest:submit', 'environment:book', 'bay:book', 'maintenance:request'
+    ],
+    readonly: []
+};
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+    admin: '管理员',
+    pmo: 'PMO',
+    manager: '项目经理',
+    user: '普通用户',
+    readonly: '只读'
+};
+
+export const PERMISSION_LABELS: Record<Permission, string> = {
+    'project:create': '创建项目',
+    'project:edit': '编辑项目',
+    'project:delete': '删除项目',
+    'task:edit': '编辑任务',
+    'changeRequest:submit': '提交变更请求',
+    'changeRequest:approve': '审批变更请求',
+    'requirement:manage': '管理需求',
+    'workflow:approve': '审批流程',
+    'resource:manage': '管理资源',
+    'environment:manage': '管理环境',
+    'environment:book': '预定环境',
+    'bay:book': '预定 Bay/机台',
+    'maintenance:request': '申请维保',
+    'maintenance:approve': '审批维保',
+    'simulation:manage': '管理沙盘推演',
+    'settings:manage': '修改系统配置',
+    'role:switch': '切换角色',
+    'audit:view': '查看审计日志',
+    'escalation:handle': '处理升级事项'
+};
+
+// 这些角色在全部项目范围内生效，其余角色的项目级权限仅限所在项目
+const PORTFOLIO_ROLES: UserRole[] = ['admin', 'pmo'];
+
+const PROJECT_SCOPED_PERMISSIONS: Permission[] = [
+    'project:edit', 'project:delete', 'task:edit',
+    'changeRequest:submit', 'changeRequest:approve', 'requirement:manage',
+    'environment:book', 'bay:book'
+];
+
+/**
+ * 是否为项目成员：项目经理或 PDSG 成员，按用户 ID / 关联成员 ID 匹配（显示名可能重名或被修改）
+ */
+export const isProjectMember = (user: User, project: Project): boolean => {
+    if (project.managerId && project.managerId === user.id) return true;
+    return !!user.memberId && (project.pdsgMembers || []).some(member => member.id === user.memberId);
+};
+
+/**
+ * 判断用户是否可以执行某个动作
+ *
+ * 传入 project 时校验项目成员身份；不传时只判断角色是否具备该权限（用于菜单、按钮等入口）
+ */
+export const hasPermission = (user: User | null | undefined, permission: Permission, project?: Project): boolean => {
+    if (!user) return false;
+    if (!ROLE_PERMISSIONS[user.role]?.includes(permission)) return false;
+
+    if (project && PROJECT_SCOPED_PERMISSIONS.includes(permission) && !PORTFOLIO_ROLES.includes(user.role)) {
+        return isProjectMember(user, project);
+    }
+    return true;
+};
+
+/**
+ * 角色切换只看认证角色，管理员切换到其他视角后仍可切回
+ */
+export const canSwitchRole = (user: User | null | undefined): boolean =>
+    !!user && ROLE_PERMISSIONS[user.authRole ?? user.role].includes('role:switch');
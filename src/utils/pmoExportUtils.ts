@@ -1,12 +1,12 @@
 import type { Project, EVMMetrics, CrossProjectDependency } from '../types';
-import { calculateEVM } from './evmCalculations';
+import { calculateEVM, type EVMOptions } from './evmCalculations';
 import { detectCrossProjectDependencies } from './crossProjectDependencies';
 
 /**
  * Export EVM report as CSV
  */
-export function exportEVMToCSV(project: Project): void {
-    const evm = calculateEVM(project);
+export function exportEVMToCSV(project: Project, options: EVMOptions = {}): void {
+    const evm = calculateEVM(project, options);
 
     const headers = [
         '项目名称',
@@ -77,8 +77,8 @@ export function exportDependenciesToCSV(projects: Project[]): void {
 /**
  * Export EVM report as PDF (HTML-based)
  */
-export function exportEVMToPDF(project: Project): void {
-    const evm = calculateEVM(project);
+export function exportEVMToPDF(project: Project, options: EVMOptions = {}): void {
+    const evm = calculateEVM(project, options);
 
     const html = `
 <!DOCTYPE html>
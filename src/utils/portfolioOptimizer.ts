@@ -0,0 +1,354 @@
+import type { FactorDefinition, PortfolioLock, Project, ResourceCapacity } from '../types';
+import { calculateProjectScore } from './algorithm';
+
+/**
+ * 组合选择优化（多维背包）
+ *
+ * 在年度研发预算与各角色每月产能约束下，选择加权因子评分之和最大的项目组合：
+ * - 成本：剩余研发投入 = 预计研发投入 − 已投入（万元）
+ * - 产能：pmoMetrics.resourceLoad 中各角色每月人月需求，未配置产能的角色不设上限
+ * - 强制入选 / 锁定投入的项目总是入选（即使超出约束，也会给出违约提示），锁定不投的项目不参与选择
+ * 未入选的规划中 / 暂停项目建议延后，在研项目建议终止。已完成项目不参与优化。
+ */
+
+export type PortfolioDecision = 'fund' | 'defer' | 'stop';
+
+export const PORTFOLIO_DECISION_LABELS: Record<PortfolioDecision, string> = {
+    fund: '投入',
+    defer: '延后',
+    stop: '终止'
+};
+
+export const PORTFOLIO_LOCK_LABELS: Record<PortfolioLock, string> = {
+    mandatory: '强制入选',
+    locked_in: '锁定投入',
+    locked_out: '锁定不投'
+};
+
+// 与 PMO 看板资源负载图一致的默认产能（人月/月）
+export const DEFAULT_ROLE_CAPACITIES: ResourceCapacity[] = [
+    { roleId: 'ai', roleName: 'AI算法工程师', capacity: 20 },
+    { roleId: 'hardware', roleName: '硬件工程师', capacity: 35 }
+];
+
+export interface PortfolioOptimizerOptions {
+    annualBudget: number;
+    capacities: ResourceCapacity[];
+    maxNodes?: number; // 分支定界搜索的节点上限，超出后返回当前最优解
+}
+
+export interface PortfolioProjectDecision {
+    projectId: string;
+    projectName: string;
+    status: Project['status'];
+    score: number;
+    cost: number;
+    peakDemand: Record<string, number>; // 各角色的月度峰值需求
+    lock?: PortfolioLock;
+    decision: PortfolioDecision;
+    reason: string;
+}
+
+export interface RoleCapacityUsage {
+    roleId: string;
+    roleName: string;
+    capacity: number;
+    peakDemand: number;
+    peakMonth?: string;
+}
+
+export interface PortfolioOptimizationResult {
+    decisions: PortfolioProjectDecision[];
+    totalScore: number;
+    totalCost: number;
+    annualBudget: number;
+    roleUsage: RoleCapacityUsage[];
+    violations: string[]; // 强制 / 锁定项目本身已超出的约束
+    exact: boolean; // 是否在节点上限内完成完整搜索
+}
+
+export interface EfficientFrontierPoint {
+    budget: number;
+    totalScore: number;
+    totalCost: number;
+    fundedCount: number;
+    fundedProjectIds: string[];
+}
+
+interface Candidate {
+    project: Project;
+    score: number;
+    cost: number;
+    demand: Float64Array; // 按约束维度（角色 × 月份）展开的需求
+    lock?: PortfolioLock;
+}
+
+interface Dimension {
+    roleId: string;
+    roleName: string;
+    month: string;
+    capacity: number;
+}
+
+const DEFAULT_MAX_NODES = 200000;
+const EPSILON = 1e-9;
+
+const getRemainingCost = (project: Project) =>
+    Math.max(0, (project.pmoMetrics?.rdInvestment || 0) - (project.pmoMetrics?.cashFlow.currentInvestment || 0));
+
+/**
+ * 组合的年度预算：各项目登记的是同一份组合年度预算，取最大值
+ */
+export const getPortfolioAnnualBudget = (projects: Project[]) =>
+    projects.reduce((max, p) => Math.max(max, p.pmoMetrics?.cashFlow.annualBudget || 0), 0);
+
+/**
+ * 组合中出现的角色，已配置产能的沿用配置，其余产能为 0（表示不限）
+ */
+export const getPortfolioRoles = (projects: Project[], capacities: ResourceCapacity[] = DEFAULT_ROLE_CAPACITIES): ResourceCapacity[] => {
+    const roles = new Map(capacities.map(c => [c.roleId, c]));
+    projects.forEach(p => (p.pmoMetrics?.resourceLoad || []).forEach(load => {
+        if (!roles.has(load.roleId)) roles.set(load.roleId, { roleId: load.roleId, roleName: load.roleName, capacity: 0 });
+    }));
+    return Array.from(roles.values());
+};
+
+const buildDimensions = (projects: Project[], capacities: ResourceCapacity[]): Dimension[] => {
+    const dims: Dimension[] = [];
+    capacities.filter(c => c.capacity > 0).forEach(c => {
+        const months = new Set<string>();
+        projects.forEach(p => (p.pmoMetrics?.resourceLoad || [])
+            .filter(load => load.roleId === c.roleId)
+            .forEach(load => Object.keys(load.monthlyUsage).forEach(m => months.add(m))));
+        Array.from(months).sort().forEach(month => dims.push({ roleId: c.roleId, roleName: c.roleName, month, capacity: c.capacity }));
+    });
+    return dims;
+};
+
+const buildCandidates = (projects: Project[], definitions: FactorDefinition[], dims: Dimension[]): Candidate[] =>
+    projects.map(project => {
+        const demand = new Float64Array(dims.length);
+        dims.forEach((dim, i) => {
+            const load = project.pmoMetrics?.resourceLoad.find(l => l.roleId === dim.roleId);
+            demand[i] = load?.monthlyUsage[dim.month] || 0;
+        });
+        return {
+            project,
+            score: calculateProjectScore(project.factors, definitions),
+            cost: getRemainingCost(project),
+            demand,
+            lock: project.pmoMetrics?.portfolioLock
+        };
+    });
+
+const fits = (usage: Float64Array, cost: number, item: Candidate, dims: Dimension[], budget: number) => {
+    if (cost + item.cost > budget + EPSILON) return false;
+    for (let i = 0; i < dims.length; i++) {
+        if (usage[i] + item.demand[i] > dims[i].capacity + EPSILON) return false;
+    }
+    return true;
+};
+
+/**
+ * 分支定界求解 0-1 多维背包；上界取按预算做分数背包松弛
+ */
+const solveKnapsack = (
+    items: Candidate[],
+    dims: Dimension[],
+    budget: number,
+    baseUsage: Float64Array,
+    baseCost: number,
+    maxNodes: number
+): { selected: Set<Candidate>; exact: boolean } => {
+    // 按单位预算的评分密度排序，零成本项目排在最前
+    const sorted = [...items].sort((a, b) =>
+        (b.cost === 0 ? Infinity : b.score / b.cost) - (a.cost === 0 ? Infinity : a.score / a.cost) ||
+        b.score - a.score ||
+        a.project.id.localeCompare(b.project.id)
+    );
+
+    const usage = Float64Array.from(baseUsage);
+    const chosen: boolean[] = new Array(sorted.length).fill(false);
+    let best: boolean[] = [...chosen];
+    let bestScore = -1;
+    let nodes = 0;
+
+    const upperBound = (index: number, score: number, cost: number) => {
+        let remaining = budget - cost;
+        let bound = score;
+        for (let i = index; i < sorted.length; i++) {
+            const item = sorted[i];
+            if (item.cost <= remaining) {
+                remaining -= item.cost;
+                bound += item.score;
+            } else {
+                bound += item.score * (remaining / item.cost);
+                break;
+            }
+        }
+        return bound;
+    };
+
+    const search = (index: number, score: number, cost: number) => {
+        nodes++;
+        if (score > bestScore + EPSILON) {
+            bestScore = score;
+            best = [...chosen];
+        }
+        if (index >= sorted.length || nodes > maxNodes) return;
+        if (upperBound(index, score, cost) <= bestScore + EPSILON) return;
+
+        const item = sorted[index];
+        if (fits(usage, cost, item, dims, budget)) {
+            chosen[index] = true;
+            for (let i = 0; i < dims.length; i++) usage[i] += item.demand[i];
+            search(index + 1, score + item.score, cost + item.cost);
+            for (let i = 0; i < dims.length; i++) usage[i] -= item.demand[i];
+            chosen[index] = false;
+        }
+        search(index + 1, score, cost);
+    };
+
+    search(0, 0, baseCost);
+    return { selected: new Set(sorted.filter((_, i) => best[i])), exact: nodes <= maxNodes };
+};
+
+const peakByRole = (items: Candidate[], dims: Dimension[], roles: ResourceCapacity[]) => {
+    const usage = new Float64Array(dims.length);
+    items.forEach(item => item.demand.forEach((d, i) => { usage[i] += d; }));
+    return roles.map(role => {
+        let peakDemand = 0;
+        let peakMonth: string | undefined;
+        dims.forEach((dim, i) => {
+            if (dim.roleId === role.roleId && usage[i] > peakDemand) {
+                peakDemand = usage[i];
+                peakMonth = dim.month;
+            }
+        });
+        return { roleId: role.roleId, roleName: role.roleName, capacity: role.capacity, peakDemand, peakMonth };
+    });
+};
+
+const projectPeaks = (item: Candidate, dims: Dimension[]) => {
+    const peaks: Record<string, number> = {};
+    dims.forEach((dim, i) => { peaks[dim.roleId] = Math.max(peaks[dim.roleId] || 0, item.demand[i]); });
+    return peaks;
+};
+
+// 未入选项目的主要原因：加入后首先突破的约束
+const explainExclusion = (item: Candidate, funded: Candidate[], dims: Dimension[], budget: number) => {
+    const cost = funded.reduce((sum, f) => sum + f.cost, 0);
+    if (cost + item.cost > budget + EPSILON) {
+        return `预算不足：剩余 ${Math.max(0, budget - cost).toFixed(0)} 万，需要 ${item.cost.toFixed(0)} 万`;
+    }
+    const usage = new Float64Array(dims.length);
+    funded.forEach(f => f.demand.forEach((d, i) => { usage[i] += d; }));
+    const overloaded = dims.find((dim, i) => usage[i] + item.demand[i] > dim.capacity + EPSILON);
+    if (overloaded) {
+        return `${overloaded.roleName} ${overloaded.month} 产能不足（上限 ${overloaded.capacity} 人月）`;
+    }
+    return '约束内可入选，但与其竞争资源的项目组合总评分更高';
+};
+
+/**
+ * 求解一次组合选择，给出每个项目的投入 / 延后 / 终止建议
+ */
+export const optimizePortfolio = (
+    projects: Project[],
+    definitions: FactorDefinition[],
+    options: PortfolioOptimizerOptions
+): PortfolioOptimizationResult => {
+    const pool = projects.filter(p => p.status !== 'completed');
+    const roles = getPortfolioRoles(pool, options.capacities);
+    const dims = buildDimensions(pool, roles);
+    const candidates = buildCandidates(pool, definitions, dims);
+    const budget = Math.max(0, options.annualBudget);
+
+    const forced = candidates.filter(c => c.lock === 'mandatory' || c.lock === 'locked_in');
+    const open = candidates.filter(c => !c.lock);
+
+    const baseUsage = new Float64Array(dims.length);
+    forced.forEach(c => c.demand.forEach((d, i) => { baseUsage[i] += d; }));
+    const baseCost = forced.reduce((sum, c) => sum + c.cost, 0);
+
+    const violations: string[] = [];
+    if (baseCost > budget + EPSILON) violations.push(`强制 / 锁定项目剩余投入 ${baseCost.toFixed(0)} 万，已超出年度预算 ${budget.toFixed(0)} 万`);
+    dims.forEach((dim, i) => {
+        if (baseUsage[i] > dim.capacity + EPSILON) {
+            violations.push(`强制 / 锁定项目在 ${dim.month} 需要 ${dim.roleName} ${baseUsage[i].toFixed(1)} 人月，超出产能 ${dim.capacity}`);
+        }
+    });
+
+    const { selected, exact } = violations.length > 0
+        ? { selected: new Set<Candidate>(), exact: true }
+        : solveKnapsack(open, dims, budget, baseUsage, baseCost, options.maxNodes ?? DEFAULT_MAX_NODES);
+    const funded = [...forced, ...open.filter(c => selected.has(c))];
+
+    const decisions = candidates.map(c => {
+        const isFunded = c.lock === 'mandatory' || c.lock === 'locked_in' || selected.has(c);
+        const notFunded: PortfolioDecision = c.project.status === 'active' ? 'stop' : 'defer';
+        let reason: string;
+        if (c.lock) reason = PORTFOLIO_LOCK_LABELS[c.lock];
+        else if (isFunded) reason = '最优组合入选';
+        else reason = explainExclusion(c, funded, dims, budget);
+
+        return {
+            projectId: c.project.id,
+            projectName: c.project.name,
+            status: c.project.status,
+            score: c.score,
+            cost: c.cost,
+            peakDemand: projectPeaks(c, dims),
+            lock: c.lock,
+            decision: isFunded ? 'fund' as const : notFunded,
+            reason
+        };
+    }).sort((a, b) =>
+        (a.decision === 'fund' ? 0 : 1) - (b.decision === 'fund' ? 0 : 1) ||
+        b.score - a.score ||
+        a.projectName.localeCompare(b.projectName)
+    );
+
+    return {
+        decisions,
+        totalScore: funded.reduce((sum, c) => sum + c.score, 0),
+        totalCost: funded.reduce((sum, c) => sum + c.cost, 0),
+        annualBudget: budget,
+        roleUsage: peakByRole(funded, dims, roles.filter(r => r.capacity > 0)),
+        violations,
+        exact
+    };
+};
+
+/**
+ * 有效前沿：在不同预算水平下求解，得到预算 → 最大总评分曲线（产能约束不变）
+ */
+export const buildEfficientFrontier = (
+    projects: Project[],
+    definitions: FactorDefinition[],
+    options: PortfolioOptimizerOptions & { steps?: number }
+): EfficientFrontierPoint[] => {
+    const pool = projects.filter(p => p.status !== 'completed');
+    const lockedCost = pool
+        .filter(p => p.pmoMetrics?.portfolioLock === 'mandatory' || p.pmoMetrics?.portfolioLock === 'locked_in')
+        .reduce((sum, p) => sum + getRemainingCost(p), 0);
+    const maxCost = pool
+        .filter(p => p.pmoMetrics?.portfolioLock !== 'locked_out')
+        .reduce((sum, p) => sum + getRemainingCost(p), 0);
+    const steps = Math.max(2, options.steps ?? 10);
+
+    const budgets = new Set<number>([options.annualBudget]);
+    for (let i = 0; i <= steps; i++) budgets.add(Math.round(lockedCost + (maxCost - lockedCost) * i / steps));
+
+    return Array.from(budgets).sort((a, b) => a - b).map(budget => {
+        const result = optimizePortfolio(pool, definitions, { ...options, annualBudget: budget });
+        const fundedDecisions = result.decisions.filter(d => d.decision === 'fund');
+        return {
+            budget,
+            totalScore: result.totalScore,
+            totalCost: result.totalCost,
+            fundedCount: fundedDecisions.length,
+            fundedProjectIds: fundedDecisions.map(d => d.projectId)
+        };
+    });
+};
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import type { Project, SimulationChange } from '../types';
+import { applySimulationChanges } from './portfolioSimulation';
+
+const project = (id: string, startDate: string, endDate: string): Project => ({
+    id,
+    name: id,
+    description: '',
+    status: 'active',
+    priority: 'P1',
+    startDate,
+    endDate,
+    factors: {},
+    resourceRequirements: []
+});
+
+const addProject = (changeDetails: Record<string, unknown>): SimulationChange => ({
+    changeType: 'add_project',
+    targetEntityId: 'new',
+    targetEntityName: '新项目',
+    changeDetails
+});
+
+describe('applySimulationChanges: add_project', () => {
+    const baseline = [project('b', '2026-05-20', '2026-09-30'), project('a', '2026-03-12', '2026-06-30')];
+
+    it('使用变更指定的开始日期', () => {
+        const { projects } = applySimulationChanges(baseline, [], [addProject({ startDate: '2026-07-01', durationMonths: 2 })]);
+
+        const added = projects.find(p => p.id === 'new')!;
+        expect(added.startDate).toBe('2026-07-01');
+        expect(added.endDate).toBe('2026-08-31');
+    });
+
+    it('未指定开始日期时从基准组合最早开始的月份起，结果不随运行时间变化', () => {
+        const { projects } = applySimulationChanges(baseline, [], [addProject({ durationMonths: 3 })]);
+
+        const added = projects.find(p => p.id === 'new')!;
+        expect(added.startDate).toBe('2026-03-01');
+        expect(added.endDate).toBe('2026-05-31');
+    });
+
+    it('既无开始日期也无基准项目时不加入推演', () => {
+        const { projects, addedProjectIds } = applySimulationChanges([], [], [addProject({})]);
+
+        expect(projects).toEqual([]);
+        expect(addedProjectIds).toEqual([]);
+    });
+});
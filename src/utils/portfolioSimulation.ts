@@ -0,0 +1,416 @@
+import type {
+    Project,
+    ResourcePoolItem,
+    ResourceRequirement,
+    SimulationChange,
+    SimulationImpactAnalysis,
+    SimulationProjectImpact,
+    SimulationResourceImpact
+} from '../types';
+import {
+    addDays,
+    addMonths,
+    differenceInCalendarDays,
+    eachMonthOfInterval,
+    format,
+    parseISO,
+    startOfMonth
+} from 'date-fns';
+import { detectCrossProjectDependencies, simulateDelayImpact } from './crossProjectDependencies';
+import { calculateResourceLoad } from './resourcePlanning';
+import type { ResourceLoad, ResourceLoadCalendarOptions, TimeBucket } from './resourcePlanning';
+import { calculateResourceCost } from './costAnalysis';
+
+/**
+ * What-If 沙盘推演引擎
+ *
+ * 在组合副本上应用变更事项，重新传导跨项目依赖延期、重算资源负载，
+ * 输出确定性的延期、超载月份与预算变化。相同输入永远得到相同结果。
+ */
+
+export interface SimulatedPortfolio {
+    projects: Project[];
+    resourcePool: ResourcePoolItem[];
+    directDelays: Map<string, number>; // 变更直接造成的完工延期
+    addedProjectIds: string[];
+    removedProjectIds: string[];
+}
+
+const PRIORITY_ORDER: Record<Project['priority'], number> = { P0: 0, P1: 1, P2: 2, P3: 3 };
+const DATE_FORMAT = 'yyyy-MM-dd';
+
+const shiftDate = (date: string, days: number): string => format(addDays(parseISO(date), days), DATE_FORMAT);
+
+const daysToUnit = (days: number, unit: string): number => {
+    if (unit === 'month') return days / 30;
+    if (unit === 'year') return days / 365;
+    return days;
+};
+
+/**
+ * 按优先级、开始日期、ID 排序，保证资源分配顺序稳定
+ */
+const compareByPriority = (a: Project, b: Project): number =>
+    (PRIORITY_ORDER[a.priority] ?? 9) - (PRIORITY_ORDER[b.priority] ?? 9)
+    || a.startDate.localeCompare(b.startDate)
+    || a.id.localeCompare(b.id);
+
+/**
+ * 新增项目的默认结构
+ * changeDetails: { startDate, durationMonths, budget, priority, resourceRequirements }
+ *
+ * 未指定开始日期时取 defaultStartDate（基准组合最早开始的月份），保证推演结果不随运行时间变化；
+ * 两者都没有时无法排期，返回 null
+ */
+const buildSimulatedProject = (change: SimulationChange, index: number, defaultStartDate?: string): Project | null => {
+    const details = change.changeDetails || {};
+    const startDate: string | undefined = details.startDate || defaultStartDate;
+    if (!startDate) return null;
+    const durationMonths = Number(details.durationMonths) || 6;
+
+    return {
+        id: change.targetEntityId || `sim-new-${index + 1}`,
+        name: change.targetEntityName || `模拟新项目 ${index + 1}`,
+        description: details.description || '',
+        status: 'planning',
+        priority: details.priority || 'P2',
+        startDate,
+        endDate: format(addDays(addMonths(parseISO(startDate), durationMonths), -1), DATE_FORMAT),
+        progress: 0,
+        budget: Number(details.budget) || 0,
+        resourceRequirements: (details.resourceRequirements || []).map((req: ResourceRequirement) => ({
+            resourceId: req.resourceId,
+            count: Number(req.count) || 0,
+            duration: Number(req.duration) || durationMonths,
+            unit: req.unit || 'month'
+        })),
+        factors: {}
+    };
+};
+
+/**
+ * 在组合副本上应用变更事项（不修改传入数据）
+ *
+ * - add_project: 按 changeDetails 创建新项目；未指定开始日期时从基准组合最早开始的月份起
+ * - remove_project: 移除目标项目
+ * - adjust_priority: changeDetails.priority 设为新优先级
+ * - reallocate_resource: 目标为资源池条目，changeDetails { fromProjectId?, toProjectId?, count }；
+ *   未指定项目时视为资源池容量增减
+ * - extend_deadline: changeDetails.days 推迟目标项目完工日期（负数为提前）
+ */
+export const applySimulationChanges = (
+    projects: Project[],
+    resourcePool: ResourcePoolItem[],
+    changes: SimulationChange[]
+): SimulatedPortfolio => {
+    let simProjects: Project[] = projects.map(p => ({
+        ...p,
+        resourceRequirements: (p.resourceRequirements || []).map(r => ({ ...r }))
+    }));
+    const simPool: ResourcePoolItem[] = resourcePool.map(r => ({ ...r }));
+    const directDelays = new Map<string, number>();
+    const addedProjectIds: string[] = [];
+    const removedProjectIds: string[] = [];
+    const earliestStart = projects.map(p => p.startDate).filter(Boolean).sort()[0];
+    const portfolioStart = earliestStart ? format(startOfMonth(parseISO(earliestStart)), DATE_FORMAT) : undefined;
+
+    const adjustRequirement = (projectId: string | undefined, resourceId: string, delta: number) => {
+        const project = simProjects.find(p => p.id === projectId);
+        if (!project) return;
+        const requirements = project.resourceRequirements!;
+        const existing = requirements.find(r => r.resourceId === resourceId);
+        if (existing) {
+            existing.count = Math.max(0, existing.count + delta);
+        } else if (delta > 0) {
+            const months = Math.max(1, Math.ceil(differenceInCalendarDays(parseISO(project.endDate), parseISO(project.startDate)) / 30));
+            requirements.push({ resourceId, count: delta, duration: months, unit: 'month' });
+        }
+    };
+
+    changes.forEach((change, index) => {
+        const details = change.changeDetails || {};
+
+        switch (change.changeType) {
+            case 'add_project': {
+                const project = buildSimulatedProject(change, index, portfolioStart);
+                if (!project) break;
+                simProjects.push(project);
+                addedProjectIds.push(project.id);
+                break;
+            }
+            case 'remove_project': {
+                if (simProjects.some(p => p.id === change.targetEntityId)) {
+                    simProjects = simProjects.filter(p => p.id !== change.targetEntityId);
+                    removedProjectIds.push(change.targetEntityId);
+                }
+                break;
+            }
+            case 'adjust_priority': {
+                const project = simProjects.find(p => p.id === change.targetEntityId);
+                if (project && details.priority) project.priority = details.priority;
+                break;
+            }
+            case 'reallocate_resource': {
+                const count = Number(details.count) || 0;
+                if (!details.fromProjectId && !details.toProjectId) {
+                    const resource = simPool.find(r => r.id === change.targetEntityId);
+                    if (resource) resource.totalQuantity = Math.max(0, resource.totalQuantity + count);
+                } else {
+                    adjustRequirement(details.fromProjectId, change.targetEntityId, -count);
+                    adjustRequirement(details.toProjectId, change.targetEntityId, count);
+                }
+                break;
+            }
+            case 'extend_deadline': {
+                const days = Math.round(Number(details.days) || 0);
+                const project = simProjects.find(p => p.id === change.targetEntityId);
+                if (!project || days === 0) break;
+                project.endDate = shiftDate(project.endDate, days);
+                project.resourceRequirements!.forEach(r => {
+                    r.duration = Math.max(0, r.duration + daysToUnit(days, r.unit));
+                });
+                directDelays.set(project.id, (directDelays.get(project.id) || 0) + days);
+                break;
+            }
+        }
+    });
+
+    return { projects: simProjects, resourcePool: simPool, directDelays, addedProjectIds, removedProjectIds };
+};
+
+/**
+ * 沿跨项目依赖传导延期，返回每个下游项目需整体后移的天数及其来源
+ *
+ * 只使用里程碑依赖：共享资源造成的争用由资源负载单独计算，不再视为硬依赖。
+ */
+export const propagateDependencyDelays = (
+    projects: Project[],
+    directDelays: Map<string, number>
+): Map<string, { delayDays: number; sourceIds: string[] }> => {
+    const dependencies = detectCrossProjectDependencies(projects).filter(d => d.sourceMilestoneId);
+    const propagated = new Map<string, { delayDays: number; sourceIds: string[] }>();
+
+    [...directDelays.entries()]
+        .filter(([, days]) => days > 0)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .forEach(([sourceId, days]) => {
+            simulateDelayImpact(sourceId, days, projects, dependencies).forEach(impact => {
+                const current = propagated.get(impact.projectId);
+                if (!current || impact.delayDays > current.delayDays) {
+                    propagated.set(impact.projectId, { delayDays: impact.delayDays, sourceIds: [sourceId] });
+                } else if (impact.delayDays === current.delayDays) {
+                    current.sourceIds.push(sourceId);
+                }
+            });
+        });
+
+    return propagated;
+};
+
+/**
+ * 覆盖基准与推演两套排期的月度时间桶
+ */
+const buildMonthBuckets = (projects: Project[]): TimeBucket[] => {
+    const dated = projects.filter(p => p.startDate && p.endDate);
+    if (dated.length === 0) return [];
+
+    const start = dated.map(p => p.startDate).sort()[0];
+    const end = dated.map(p => p.endDate).sort()[dated.length - 1];
+
+    return eachMonthOfInterval({ start: parseISO(start), end: parseISO(end) }).map(date => ({
+        label: format(date, 'MMM yyyy'),
+        date
+    }));
+};
+
+const getBucketCapacity = (load: ResourceLoad, label: string): number =>
+    load.allocations[label]?.capacity ?? load.capacity;
+
+/**
+ * 超载月份：分配总量超过该月产能
+ */
+const getOverloadMonths = (load: ResourceLoad): string[] =>
+    Object.entries(load.allocations)
+        .filter(([label, data]) => data.total > getBucketCapacity(load, label))
+        .map(([label]) => label);
+
+const getPeakUtilization = (load: ResourceLoad): number => {
+    const peak = Object.entries(load.allocations).reduce((max, [label, data]) => {
+        const capacity = getBucketCapacity(load, label);
+        const utilization = capacity > 0 ? data.total / capacity : (data.total > 0 ? Infinity : 0);
+        return Math.max(max, utilization);
+    }, 0);
+    return Number.isFinite(peak) ? Math.round(peak * 100) : 999;
+};
+
+/**
+ * 按优先级依次分配每个月的产能，返回无法被满足的项目及其月份
+ */
+const allocateByPriority = (
+    loads: ResourceLoad[],
+    projects: Project[]
+): Map<string, Set<string>> => {
+    const shortfalls = new Map<string, Set<string>>();
+    const projectMap = new Map(projects.map(p => [p.id, p]));
+
+    loads.forEach(load => {
+        Object.entries(load.allocations).forEach(([label, data]) => {
+            const capacity = getBucketCapacity(load, label);
+            if (data.total <= capacity) return;
+
+            let allocated = 0;
+            [...data.projects]
+                .sort((a, b) => compareByPriority(projectMap.get(a.id)!, projectMap.get(b.id)!))
+                .forEach(entry => {
+                    allocated += entry.amount;
+                    if (allocated > capacity) {
+                        if (!shortfalls.has(entry.id)) shortfalls.set(entry.id, new Set());
+                        shortfalls.get(entry.id)!.add(label);
+                    }
+                });
+        });
+    });
+
+    return shortfalls;
+};
+
+/**
+ * 项目成本：优先按资源需求计算；缺少费率时使用项目预算，并按工期变化比例折算
+ */
+const estimateProjectCost = (project: Project, pool: ResourcePoolItem[], durationRatio = 1): number => {
+    const resourceCost = (project.resourceRequirements || []).reduce((sum, req) => {
+        const resource = pool.find(r => r.id === req.resourceId);
+        return sum + (resource ? calculateResourceCost(req, resource) : 0);
+    }, 0);
+    return resourceCost > 0 ? resourceCost : (project.budget || 0) * durationRatio;
+};
+
+const projectDurationDays = (project: Project): number =>
+    Math.max(1, differenceInCalendarDays(parseISO(project.endDate), parseISO(project.startDate)) + 1);
+
+/**
+ * 运行 What-If 推演，返回可直接存入 ProjectSimulation.impactAnalysis 的结果
+ */
+export const runPortfolioSimulation = (
+    projects: Project[],
+    resourcePool: ResourcePoolItem[],
+    changes: SimulationChange[],
+    calendarOptions?: ResourceLoadCalendarOptions
+): SimulationImpactAnalysis => {
+    const portfolio = applySimulationChanges(projects, resourcePool, changes);
+    const propagated = propagateDependencyDelays(portfolio.projects, portfolio.directDelays);
+
+    // 下游项目整体后移
+    const scenarioProjects = portfolio.projects.map(p => {
+        const shift = propagated.get(p.id)?.delayDays || 0;
+        if (shift <= 0) return p;
+        return { ...p, startDate: shiftDate(p.startDate, shift), endDate: shiftDate(p.endDate, shift) };
+    });
+
+    const buckets = buildMonthBuckets([...projects, ...scenarioProjects]);
+    const baselineLoads = calculateResourceLoad(projects, resourcePool, buckets, 'month', calendarOptions);
+    const scenarioLoads = calculateResourceLoad(scenarioProjects, portfolio.resourcePool, buckets, 'month', calendarOptions);
+
+    const baselineShortfalls = allocateByPriority(baselineLoads, projects);
+    const scenarioShortfalls = allocateByPriority(scenarioLoads, scenarioProjects);
+
+    // 资源影响
+    const resourceImpacts: SimulationResourceImpact[] = portfolio.resourcePool.map(resource => {
+        const baseline = baselineLoads.find(l => l.resourceId === resource.id)!;
+        const scenario = scenarioLoads.find(l => l.resourceId === resource.id)!;
+        const newOverloadMonths = getOverloadMonths(scenario);
+
+        return {
+            resourceId: resource.id,
+            resourceName: resource.name,
+            originalCapacity: baseline.capacity,
+            newCapacity: scenario.capacity,
+            originalPeakUtilization: getPeakUtilization(baseline),
+            newPeakUtilization: getPeakUtilization(scenario),
+            originalOverloadMonths: getOverloadMonths(baseline),
+            newOverloadMonths,
+            isOverloaded: newOverloadMonths.length > 0
+        };
+    });
+
+    // 项目影响
+    const projectImpacts: SimulationProjectImpact[] = scenarioProjects.map(project => {
+        const original = projects.find(p => p.id === project.id);
+        const conflictMonths = [...(scenarioShortfalls.get(project.id) || [])];
+        const baselineConflicts = baselineShortfalls.get(project.id) || new Set<string>();
+        const hasNewConflict = conflictMonths.some(m => !baselineConflicts.has(m));
+
+        if (!original) {
+            return {
+                projectId: project.id,
+                projectName: project.name,
+                impactType: 'added',
+                delayDays: 0,
+                newEndDate: project.endDate,
+                delaySourceIds: [],
+                resourceConflict: conflictMonths.length > 0,
+                conflictMonths,
+                budgetDelta: Math.round(estimateProjectCost(project, portfolio.resourcePool))
+            };
+        }
+
+        const delayDays = differenceInCalendarDays(parseISO(project.endDate), parseISO(original.endDate));
+        const propagation = propagated.get(project.id);
+        const baselineCost = estimateProjectCost(original, resourcePool);
+        const scenarioCost = estimateProjectCost(
+            project,
+            portfolio.resourcePool,
+            projectDurationDays(project) / projectDurationDays(original)
+        );
+
+        let impactType: SimulationProjectImpact['impactType'] = 'none';
+        if (propagation) impactType = 'critical';
+        else if (delayDays !== 0) impactType = 'delay';
+        else if (hasNewConflict) impactType = 'resource';
+
+        return {
+            projectId: project.id,
+            projectName: project.name,
+            impactType,
+            delayDays,
+            originalEndDate: original.endDate,
+            newEndDate: project.endDate,
+            delaySourceIds: propagation?.sourceIds || [],
+            resourceConflict: conflictMonths.length > 0,
+            conflictMonths,
+            budgetDelta: Math.round(scenarioCost - baselineCost)
+        };
+    });
+
+    portfolio.removedProjectIds.forEach(id => {
+        const original = projects.find(p => p.id === id)!;
+        projectImpacts.push({
+            projectId: id,
+            projectName: original.name,
+            impactType: 'removed',
+            delayDays: 0,
+            originalEndDate: original.endDate,
+            delaySourceIds: [],
+            resourceConflict: false,
+            conflictMonths: [],
+            budgetDelta: -Math.round(estimateProjectCost(original, resourcePool))
+        });
+    });
+
+    const delays = projectImpacts.map(i => Math.max(0, i.delayDays));
+    const resourceConflicts = resourceImpacts.reduce(
+        (sum, r) => sum + r.newOverloadMonths.filter(m => !r.originalOverloadMonths.includes(m)).length,
+        0
+    );
+
+    return {
+        affectedProjects: projectImpacts.filter(i => i.impactType !== 'none').map(i => i.projectId),
+        totalDelayDays: delays.reduce((sum, d) => sum + d, 0),
+        maxDelayDays: delays.length > 0 ? Math.max(...delays) : 0,
+        resourceConflicts,
+        budgetImpact: projectImpacts.reduce((sum, i) => sum + i.budgetDelta, 0),
+        projectImpacts,
+        resourceImpacts,
+        calculatedAt: new Date().toISOString()
+    };
+};
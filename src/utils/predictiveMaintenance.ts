@@ -0,0 +1,292 @@
+import { addDays, differenceInCalendarDays, differenceInHours, format, parseISO, startOfDay, subDays } from 'date-fns';
+import type { BayResource, MachineResource, MaintenancePlan, ResourceBooking } from '../types';
+
+/**
+ * 预测性维保：按使用时长、距上次维保天数、故障记录与部件更换推算健康度与下次维保日期，
+ * 为每台资源生成避开已有预约的维保计划建议，并按机型统计 MTBF / MTTR。
+ *
+ * 预约区间的结束日期包含当天（与资源日历一致），一个预约日按 8 小时使用计。
+ */
+
+type PhysicalResource = BayResource | MachineResource;
+
+export const PREDICTIVE_MAINTENANCE_APPLICANT = '预测性维保引擎';
+
+const HOURS_PER_BOOKED_DAY = 8;
+const SERVICE_INTERVAL_HOURS = 480; // 两次保养间的额定使用时长
+const SERVICE_INTERVAL_DAYS = 180; // 两次保养间的最长间隔
+const USAGE_WEAR_WEIGHT = 35;
+const AGE_WEAR_WEIGHT = 25;
+const BREAKDOWN_PENALTY = 10;
+const MAX_BREAKDOWN_PENALTY = 30;
+const REPLACEMENT_PENALTY = 3;
+const MAX_REPLACEMENT_PENALTY = 15;
+const HISTORY_WINDOW_DAYS = 365; // 故障与更换记录的统计窗口
+const USAGE_RATE_WINDOW_DAYS = 90; // 估算日均使用时长的窗口
+const CRITICAL_HEALTH = 40; // 低于该值立即安排维保
+const PROPOSAL_HORIZON_DAYS = 30; // 预计到期日在该范围内才生成建议
+const PROPOSAL_LEAD_DAYS = 7; // 从到期前一周开始寻找空档
+const SLOT_SEARCH_DAYS = 60;
+
+export interface MaintenanceAssessment {
+    resourceId: string;
+    resourceName: string;
+    health: number; // 0-100
+    usageHoursSinceService: number;
+    daysSinceService: number;
+    recentBreakdowns: number;
+    recentReplacements: number;
+    dailyUsageHours: number;
+    nextMaintenance: string; // 预测的下次维保日期
+    reasons: string[];
+}
+
+export interface ModelReliability {
+    model: string;
+    machineCount: number;
+    operatingHours: number;
+    failures: number;
+    repairs: number; // 已完成修复的故障数
+    mtbfHours: number | null; // 无故障记录时为 null
+    mttrHours: number | null; // 无已完成修复时为 null
+    availability: number | null; // MTBF / (MTBF + MTTR)
+}
+
+export interface PredictiveMaintenanceOptions {
+    asOf?: Date;
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+const formatDay = (date: Date) => format(date, 'yyyy-MM-dd');
+
+/**
+ * 占用资源的预约（未取消、未完成）
+ */
+const isBookingHolding = (booking: ResourceBooking) =>
+    booking.status !== 'cancelled' && booking.status !== 'completed';
+
+/**
+ * 已发生的使用记录：使用历史与已开始的预约（按 ID 去重）
+ */
+const getUsageRecords = (resource: PhysicalResource, asOf: Date): ResourceBooking[] => {
+    const records = new Map<string, ResourceBooking>();
+    [...(resource.usageHistory || []), ...resource.bookings].forEach(record => {
+        if (record.status === 'cancelled' || record.status === 'planned') return;
+        if (parseISO(record.startDate) > asOf) return;
+        records.set(record.id, record);
+    });
+    return Array.from(records.values());
+};
+
+/**
+ * [from, asOf] 内的使用时长（小时）
+ */
+export const getUsageHours = (resource: PhysicalResource, from: Date | null, asOf: Date): number =>
+    getUsageRecords(resource, asOf).reduce((hours, record) => {
+        const start = parseISO(record.startDate);
+        const end = parseISO(record.endDate);
+        const clippedStart = from && start < from ? from : start;
+        const clippedEnd = end > asOf ? asOf : end;
+        const days = differenceInCalendarDays(clippedEnd, clippedStart) + 1;
+        return hours + (isNaN(days) || days <= 0 ? 0 : days * HOURS_PER_BOOKED_DAY);
+    }, 0);
+
+/**
+ * 故障记录（未被驳回的故障报修）
+ */
+const getBreakdowns = (resource: PhysicalResource): MaintenancePlan[] =>
+    (resource.maintenancePlans || []).filter(p => p.type === 'breakdown' && p.status !== 'rejected');
+
+/**
+ * 评估单台资源的健康度与下次维保日期
+ */
+export const assessResource = (
+    resource: PhysicalResource,
+    options: PredictiveMaintenanceOptions = {}
+): MaintenanceAssessment => {
+    const asOf = startOfDay(options.asOf || new Date());
+    const lastService = resource.lastMaintenance ? parseISO(resource.lastMaintenance) : null;
+    const serviceDate = lastService && !isNaN(lastService.getTime()) ? lastService : null;
+    const historyStart = subDays(asOf, HISTORY_WINDOW_DAYS);
+    const reasons: string[] = [];
+
+    const daysSinceService = serviceDate ? Math.max(0, differenceInCalendarDays(asOf, serviceDate)) : SERVICE_INTERVAL_DAYS;
+    const usageHoursSinceService = getUsageHours(resource, serviceDate, asOf);
+    const dailyUsageHours = getUsageHours(resource, subDays(asOf, USAGE_RATE_WINDOW_DAYS - 1), asOf) / USAGE_RATE_WINDOW_DAYS;
+
+    const recentBreakdowns = getBreakdowns(resource)
+        .filter(p => parseISO(p.createdAt) >= historyStart).length;
+    const recentReplacements = (resource.replacementHistory || [])
+        .filter(r => parseISO(r.date) >= historyStart).length;
+
+    const usageWear = Math.min(1, usageHoursSinceService / SERVICE_INTERVAL_HOURS) * USAGE_WEAR_WEIGHT;
+    const ageWear = Math.min(1, daysSinceService / SERVICE_INTERVAL_DAYS) * AGE_WEAR_WEIGHT;
+    const breakdownPenalty = Math.min(MAX_BREAKDOWN_PENALTY, recentBreakdowns * BREAKDOWN_PENALTY);
+    const replacementPenalty = Math.min(MAX_REPLACEMENT_PENALTY, recentReplacements * REPLACEMENT_PENALTY);
+    const health = Math.max(0, Math.round(100 - usageWear - ageWear - breakdownPenalty - replacementPenalty));
+
+    // 到期日取时间间隔与使用时长（按近期日均使用推算）中较早者
+    const base = serviceDate || asOf;
+    let due = addDays(base, SERVICE_INTERVAL_DAYS);
+    if (dailyUsageHours > 0) {
+        const remainingHours = Math.max(0, SERVICE_INTERVAL_HOURS - usageHoursSinceService);
+        const usageDue = addDays(asOf, Math.floor(remainingHours / dailyUsageHours));
+        if (usageDue < due) due = usageDue;
+    }
+
+    if (usageHoursSinceService >= SERVICE_INTERVAL_HOURS) reasons.push(`距上次维保已使用 ${round1(usageHoursSinceService)} 小时`);
+    if (daysSinceService >= SERVICE_INTERVAL_DAYS) reasons.push(`距上次维保已 ${daysSinceService} 天`);
+    if (recentBreakdowns > 0) reasons.push(`近一年故障 ${recentBreakdowns} 次`);
+    if (recentReplacements > 0) reasons.push(`近一年更换部件 ${recentReplacements} 次`);
+    if (health < CRITICAL_HEALTH) {
+        reasons.push(`健康度 ${health} 低于 ${CRITICAL_HEALTH}`);
+        due = asOf;
+    }
+    if (due < asOf) due = asOf;
+
+    return {
+        resourceId: resource.id,
+        resourceName: resource.name,
+        health,
+        usageHoursSinceService: round1(usageHoursSinceService),
+        daysSinceService,
+        recentBreakdowns,
+        recentReplacements,
+        dailyUsageHours: round1(dailyUsageHours),
+        nextMaintenance: formatDay(due),
+        reasons
+    };
+};
+
+/**
+ * 日期是否被预约占用
+ */
+const isDayBooked = (resource: PhysicalResource, day: string) =>
+    resource.bookings.some(b => isBookingHolding(b) && b.startDate <= day && day <= b.endDate);
+
+/**
+ * 是否已有未完成的常规保养计划（待审批或已通过）
+ */
+const hasOpenRoutinePlan = (resource: PhysicalResource, asOf: Date) =>
+    (resource.maintenancePlans || []).some(p =>
+        p.type === 'routine' &&
+        (p.status === 'pending' || p.status === 'accepted') &&
+        p.plannedDate >= formatDay(asOf)
+    );
+
+/**
+ * 从到期前一周（不早于明天）起查找第一个无预约且无其他维保计划的日期
+ */
+export const findMaintenanceSlot = (
+    resource: PhysicalResource,
+    dueDate: string,
+    options: PredictiveMaintenanceOptions = {}
+): string | null => {
+    const asOf = startOfDay(options.asOf || new Date());
+    const earliest = addDays(asOf, 1);
+    const leadStart = subDays(parseISO(dueDate), PROPOSAL_LEAD_DAYS);
+    const start = leadStart > earliest ? leadStart : earliest;
+    const plannedDays = new Set((resource.maintenancePlans || [])
+        .filter(p => p.status === 'pending' || p.status === 'accepted')
+        .map(p => p.plannedDate));
+
+    for (let offset = 0; offset < SLOT_SEARCH_DAYS; offset++) {
+        const day = formatDay(addDays(start, offset));
+        if (!isDayBooked(resource, day) && !plannedDays.has(day)) return day;
+    }
+    return null;
+};
+
+/**
+ * 为即将到期的资源生成常规保养建议（待审批），已有未完成保养计划的资源跳过
+ */
+export const proposeMaintenancePlan = (
+    resource: PhysicalResource,
+    assessment: MaintenanceAssessment,
+    options: PredictiveMaintenanceOptions = {}
+): MaintenancePlan | null => {
+    const asOf = startOfDay(options.asOf || new Date());
+    if (hasOpenRoutinePlan(resource, asOf)) return null;
+    if (differenceInCalendarDays(parseISO(assessment.nextMaintenance), asOf) > PROPOSAL_HORIZON_DAYS) return null;
+
+    const plannedDate = findMaintenanceSlot(resource, assessment.nextMaintenance, options);
+    if (!plannedDate) return null;
+
+    const reasons = assessment.reasons.length > 0 ? assessment.reasons.join('；') : '保养周期即将到期';
+    return {
+        id: `plan-pm-${Date.now()}-${resource.id}`,
+        resourceId: resource.id,
+        resourceName: resource.name,
+        applicant: PREDICTIVE_MAINTENANCE_APPLICANT,
+        applicantDept: '系统',
+        plannedDate,
+        type: 'routine',
+        description: `预测性维保建议：预计 ${assessment.nextMaintenance} 到期，健康度 ${assessment.health}。${reasons}`,
+        status: 'pending',
+        source: 'predictive',
+        createdAt: new Date().toISOString()
+    };
+};
+
+/**
+ * 重新评估资源：更新健康度与下次维保日期，并追加维保建议
+ */
+export const applyMaintenanceForecast = <T extends PhysicalResource>(
+    resource: T,
+    options: PredictiveMaintenanceOptions = {}
+): { resource: T; assessment: MaintenanceAssessment; proposal: MaintenancePlan | null } => {
+    const assessment = assessResource(resource, options);
+    const proposal = proposeMaintenancePlan(resource, assessment, options);
+    return {
+        resource: {
+            ...resource,
+            health: assessment.health,
+            nextMaintenance: proposal ? proposal.plannedDate : assessment.nextMaintenance,
+            maintenancePlans: proposal ? [proposal, ...(resource.maintenancePlans || [])] : resource.maintenancePlans
+        },
+        assessment,
+        proposal
+    };
+};
+
+/**
+ * 按机型统计可靠性：MTBF = 累计使用时长 / 故障次数，MTTR = 报修到修复完成的平均时长
+ */
+export const calculateModelReliability = (
+    machines: MachineResource[],
+    options: PredictiveMaintenanceOptions = {}
+): ModelReliability[] => {
+    const asOf = options.asOf || new Date();
+    const groups = new Map<string, MachineResource[]>();
+    machines.forEach(machine => {
+        const model = machine.model || '未知机型';
+        groups.set(model, [...(groups.get(model) || []), machine]);
+    });
+
+    return Array.from(groups.entries()).map(([model, group]) => {
+        const operatingHours = group.reduce((sum, m) => sum + getUsageHours(m, null, asOf), 0);
+        const breakdowns = group.flatMap(getBreakdowns);
+        const repairHours = breakdowns
+            .filter(p => p.status === 'completed' && p.completedAt)
+            .map(p => Math.max(0, differenceInHours(parseISO(p.completedAt!), parseISO(p.createdAt))));
+
+        const mtbfHours = breakdowns.length > 0 ? round1(operatingHours / breakdowns.length) : null;
+        const mttrHours = repairHours.length > 0
+            ? round1(repairHours.reduce((a, b) => a + b, 0) / repairHours.length)
+            : null;
+
+        return {
+            model,
+            machineCount: group.length,
+            operatingHours: round1(operatingHours),
+            failures: breakdowns.length,
+            repairs: repairHours.length,
+            mtbfHours,
+            mttrHours,
+            availability: mtbfHours !== null && mttrHours !== null && mtbfHours + mttrHours > 0
+                ? mtbfHours / (mtbfHours + mttrHours)
+                : null
+        };
+    }).sort((a, b) => (a.mtbfHours ?? Infinity) - (b.mtbfHours ?? Infinity) || a.model.localeCompare(b.model));
+};
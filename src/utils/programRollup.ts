@@ -0,0 +1,184 @@
+import { format, parseISO } from 'date-fns';
+import type {
+    EVMMetrics,
+    PortfolioMetrics,
+    Program,
+    ProgramMilestone,
+    Project,
+    ProjectHealthIndicators,
+    RAGStatus,
+    ResourcePoolItem,
+    Risk,
+    WorkingCalendar
+} from '../types';
+import { calculateEVM, deriveEVMMetrics } from './evmCalculations';
+import { calculateOverallHealth, calculatePortfolioMetrics, getProjectHealthIndicators } from './portfolioHealth';
+import { resolveCalendar } from './workingCalendar';
+
+/**
+ * 项目群汇总：成员项目的进度区间、预算、EVM、健康度与重点风险上卷到项目群
+ *
+ * - EVM：各成员 PV / EV / AC / BAC 相加后重新计算 SPI、CPI 与完工预测
+ * - 健康度：每个维度取成员中最差的状态，再按项目规则得出总体 RAG
+ * - 里程碑：依赖的成员项目计划完成晚于里程碑日期或进度为红色时视为有风险
+ */
+
+export type ProgramMilestoneStatus = 'completed' | 'on_track' | 'at_risk' | 'overdue';
+
+export const PROGRAM_MILESTONE_STATUS_LABELS: Record<ProgramMilestoneStatus, string> = {
+    completed: '已完成',
+    on_track: '按计划',
+    at_risk: '有风险',
+    overdue: '已逾期'
+};
+
+export interface ProgramMilestoneRollup {
+    milestone: ProgramMilestone;
+    status: ProgramMilestoneStatus;
+    blockers: string[]; // 拖累该里程碑的成员项目名称
+}
+
+export interface ProgramRiskItem {
+    risk: Risk;
+    projectId: string;
+    projectName: string;
+}
+
+export interface ProgramRollup {
+    program: Program;
+    members: Project[];
+    startDate?: string;
+    endDate?: string;
+    progress: number; // 按预算加权的完成百分比
+    budget: number;
+    actualCost: number;
+    evm: EVMMetrics;
+    health: Omit<ProjectHealthIndicators, 'projectId' | 'projectName' | 'trend'>;
+    memberHealth: ProjectHealthIndicators[];
+    metrics: PortfolioMetrics;
+    topRisks: ProgramRiskItem[];
+    milestones: ProgramMilestoneRollup[];
+}
+
+export interface ProgramRollupOptions {
+    calendars?: WorkingCalendar[];
+    resourcePool?: ResourcePoolItem[];
+    asOf?: Date;
+    topRiskCount?: number;
+}
+
+const RAG_ORDER: RAGStatus[] = ['green', 'amber', 'red'];
+
+const worstOf = (statuses: RAGStatus[]): RAGStatus =>
+    statuses.reduce<RAGStatus>((worst, s) => RAG_ORDER.indexOf(s) > RAG_ORDER.indexOf(worst) ? s : worst, 'green');
+
+const projectBudget = (project: Project) => project.budget || project.totalBudget || 0;
+
+/**
+ * 项目群里程碑状态
+ */
+export const getProgramMilestoneStatus = (
+    milestone: ProgramMilestone,
+    members: Project[],
+    memberHealth: ProjectHealthIndicators[],
+    asOf: Date = new Date()
+): ProgramMilestoneRollup => {
+    if (milestone.completed) return { milestone, status: 'completed', blockers: [] };
+
+    const blockers = members
+        .filter(p => milestone.projectIds.includes(p.id) && p.status !== 'completed')
+        .filter(p => (p.endDate && p.endDate > milestone.date) ||
+            memberHealth.find(h => h.projectId === p.id)?.scheduleHealth === 'red')
+        .map(p => p.name);
+
+    if (milestone.date < format(asOf, 'yyyy-MM-dd')) return { milestone, status: 'overdue', blockers };
+    return { milestone, status: blockers.length > 0 ? 'at_risk' : 'on_track', blockers };
+};
+
+/**
+ * 单个项目群的汇总指标
+ */
+export const buildProgramRollup = (
+    program: Program,
+    projects: Project[],
+    options: ProgramRollupOptions = {}
+): ProgramRollup => {
+    const { calendars = [], resourcePool = [], asOf = new Date(), topRiskCount = 5 } = options;
+    const members = program.projectIds
+        .map(id => projects.find(p => p.id === id))
+        .filter((p): p is Project => !!p);
+
+    const starts = members.map(p => p.startDate).filter(Boolean).sort();
+    const ends = members.map(p => p.endDate).filter(Boolean).sort();
+
+    const budget = members.reduce((sum, p) => sum + projectBudget(p), 0);
+    const actualCost = members.reduce((sum, p) => sum + (p.actualCost || p.budgetUsed || 0), 0);
+    const progress = budget > 0
+        ? members.reduce((sum, p) => sum + (p.progress || 0) * projectBudget(p), 0) / budget
+        : members.length > 0 ? members.reduce((sum, p) => sum + (p.progress || 0), 0) / members.length : 0;
+
+    const memberEVM = members.map(p => calculateEVM(p, {
+        calendar: resolveCalendar(calendars, p.calendarId),
+        resourcePool,
+        asOf
+    }));
+    const evm = deriveEVMMetrics(
+        program.id,
+        asOf,
+        memberEVM.reduce((sum, m) => sum + m.budgetAtCompletion, 0),
+        {
+            pv: memberEVM.reduce((sum, m) => sum + m.plannedValue, 0),
+            ev: memberEVM.reduce((sum, m) => sum + m.earnedValue, 0),
+            ac: memberEVM.reduce((sum, m) => sum + m.actualCost, 0)
+        }
+    );
+
+    const memberHealth = members.map(getProjectHealthIndicators);
+    const dimensions = {
+        scheduleHealth: worstOf(memberHealth.map(h => h.scheduleHealth)),
+        budgetHealth: worstOf(memberHealth.map(h => h.budgetHealth)),
+        scopeHealth: worstOf(memberHealth.map(h => h.scopeHealth)),
+        qualityHealth: worstOf(memberHealth.map(h => h.qualityHealth)),
+        riskHealth: worstOf(memberHealth.map(h => h.riskHealth))
+    };
+    const health = {
+        ...dimensions,
+        overallHealth: calculateOverallHealth({ projectId: program.id, projectName: program.name, ...dimensions })
+    };
+
+    const topRisks = members
+        .flatMap(p => (p.risks || [])
+            .filter(r => r.status !== 'resolved' && r.status !== 'accepted')
+            .map(risk => ({ risk, projectId: p.id, projectName: p.name })))
+        .sort((a, b) => b.risk.riskScore - a.risk.riskScore ||
+            (b.risk.estimatedCostImpact || 0) - (a.risk.estimatedCostImpact || 0))
+        .slice(0, topRiskCount);
+
+    const milestones = [...program.milestones]
+        .sort((a, b) => parseISO(a.date).getTime() - parseISO(b.date).getTime())
+        .map(m => getProgramMilestoneStatus(m, members, memberHealth, asOf));
+
+    return {
+        program,
+        members,
+        startDate: starts[0],
+        endDate: ends[ends.length - 1],
+        progress,
+        budget,
+        actualCost,
+        evm,
+        health,
+        memberHealth,
+        metrics: calculatePortfolioMetrics(members),
+        topRisks,
+        milestones
+    };
+};
+
+/**
+ * 不属于任何项目群的项目
+ */
+export const getUnassignedProjects = (programs: Program[], projects: Project[]): Project[] => {
+    const assigned = new Set(programs.flatMap(p => p.projectIds));
+    return projects.filter(p => !assigned.has(p.id));
+};
@@ -0,0 +1,241 @@
+import { format } from 'date-fns';
+import type { ActionItem, IssueSeverity, Project, ProjectAssumption, ProjectDecision, ProjectIssue, RaidItem, RaidItemFormValues, RaidItemMap, RaidKind, Risk } from '../types';
+import { getRiskStatusInfo } from './riskManagement';
+
+/**
+ * RAID 日志：风险（Risk）、假设、问题、决策与行动项的统一视图
+ *
+ * 假设、问题、决策与行动项按项目分别存放在 Project 的 assumptions / issues / decisions / actionItems 中；
+ * 风险仍由风险管理维护，合并视图中只读展示。
+ */
+
+export type RaidViewKind = RaidKind | 'risk';
+
+/** RaidKind -> Project 上的集合字段 */
+export const RAID_COLLECTION_KEYS = {
+    issue: 'issues',
+    assumption: 'assumptions',
+    decision: 'decisions',
+    action: 'actionItems'
+} as const satisfies Record<RaidKind, keyof Project>;
+
+export const RAID_KIND_LABELS: Record<RaidViewKind, string> = {
+    risk: '风险',
+    assumption: '假设',
+    issue: '问题',
+    decision: '决策',
+    action: '行动项'
+};
+
+export const RAID_STATUS_LABELS: { [K in RaidKind]: Record<RaidItemMap[K]['status'], string> } = {
+    issue: { open: '待处理', in_progress: '处理中', resolved: '已解决', closed: '已关闭' },
+    assumption: { unvalidated: '待验证', validated: '已验证', invalid: '不成立' },
+    decision: { proposed: '待决策', approved: '已批准', rejected: '已否决', superseded: '已取代' },
+    action: { open: '待办', in_progress: '进行中', done: '已完成', cancelled: '已取消' }
+};
+
+export const ISSUE_SEVERITY_LABELS: Record<IssueSeverity, string> = {
+    low: '低',
+    medium: '中',
+    high: '高',
+    critical: '严重'
+};
+
+// 处于这些状态的条目视为已关闭
+const CLOSED_STATUSES: Record<RaidKind, string[]> = {
+    issue: ['resolved', 'closed'],
+    assumption: ['validated', 'invalid'],
+    decision: ['approved', 'rejected', 'superseded'],
+    action: ['done', 'cancelled']
+};
+
+export const getRaidItems = <K extends RaidKind>(project: Project, kind: K): RaidItemMap[K][] =>
+    (project[RAID_COLLECTION_KEYS[kind]] || []) as RaidItemMap[K][];
+
+export const isRaidItemOpen = (kind: RaidKind, item: RaidItem): boolean => !CLOSED_STATUSES[kind].includes(item.status);
+
+/**
+ * 未关闭且已过截止日期
+ */
+export const isRaidItemOverdue = (kind: RaidKind, item: RaidItem, asOf: Date = new Date()): boolean =>
+    isRaidItemOpen(kind, item) && !!item.dueDate && item.dueDate < format(asOf, 'yyyy-MM-dd');
+
+export interface RaidEntry {
+    kind: RaidViewKind;
+    id: string;
+    title: string;
+    description?: string;
+    ownerName: string;
+    dueDate?: string;
+    status: string;
+    statusLabel: string;
+    open: boolean;
+    overdue: boolean;
+    escalated: boolean;
+    acknowledged: boolean;
+    relatedTaskIds: string[];
+    relatedRiskIds: string[];
+    relatedChangeRequestIds: string[];
+    item?: RaidItem; // 风险条目为空
+}
+
+const riskEntry = (risk: Risk, asOf: Date): RaidEntry => {
+    const open = risk.status !== 'resolved' && risk.status !== 'accepted';
+    return {
+        kind: 'risk',
+        id: risk.id,
+        title: risk.title,
+        description: risk.description,
+        ownerName: risk.ownerName || risk.owner,
+        dueDate: risk.nextReviewDate,
+        status: risk.status,
+        statusLabel: getRiskStatusInfo(risk.status).label,
+        open,
+        overdue: open && !!risk.nextReviewDate && risk.nextReviewDate < format(asOf, 'yyyy-MM-dd'),
+        escalated: false,
+        acknowledged: false,
+        relatedTaskIds: risk.relatedTaskIds || [],
+        relatedRiskIds: [],
+        relatedChangeRequestIds: []
+    };
+};
+
+const itemEntry = (kind: RaidKind, item: RaidItem, asOf: Date): RaidEntry => ({
+    kind,
+    id: item.id,
+    title: item.title,
+    description: item.description,
+    ownerName: item.ownerName || item.owner,
+    dueDate: item.dueDate,
+    status: item.status,
+    statusLabel: (RAID_STATUS_LABELS[kind] as Record<string, string>)[item.status],
+    open: isRaidItemOpen(kind, item),
+    overdue: isRaidItemOverdue(kind, item, asOf),
+    escalated: !!item.escalation,
+    acknowledged: !!item.escalation?.acknowledgedAt,
+    relatedTaskIds: item.relatedTaskIds || [],
+    relatedRiskIds: item.relatedRiskIds || [],
+    relatedChangeRequestIds: item.relatedChangeRequestIds || [],
+    item
+});
+
+/**
+ * 项目的合并 RAID 条目，按 R-A-I-D-行动项 顺序，同类内未关闭在前、截止日期早的在前
+ */
+export const getRaidEntries = (project: Project, asOf: Date = new Date()): RaidEntry[] => {
+    const byUrgency = (a: RaidEntry, b: RaidEntry) =>
+        Number(b.open) - Number(a.open) || (a.dueDate || '9999').localeCompare(b.dueDate || '9999');
+    const kinds: RaidKind[] = ['assumption', 'issue', 'decision', 'action'];
+    return [
+        ...(project.risks || []).map(r => riskEntry(r, asOf)).sort(byUrgency),
+        ...kinds.flatMap(kind => getRaidItems(project, kind).map(item => itemEntry(kind, item, asOf)).sort(byUrgency))
+    ];
+};
+
+/**
+ * 各类条目数量统计
+ */
+export const getRaidSummary = (entries: RaidEntry[]) =>
+    (['risk', 'assumption', 'issue', 'decision', 'action'] as RaidViewKind[]).map(kind => {
+        const ofKind = entries.filter(e => e.kind === kind);
+        return {
+            kind,
+            total: ofKind.length,
+            open: ofKind.filter(e => e.open).length,
+            overdue: ofKind.filter(e => e.overdue).length,
+            escalated: ofKind.filter(e => e.escalated && !e.acknowledged).length
+        };
+    });
+
+/**
+ * 全部项目中已升级到 PMO 但尚未受理的条目
+ */
+export const getPendingEscalations = (projects: Project[]) =>
+    projects.flatMap(project => getRaidEntries(project)
+        .filter(e => e.escalated && !e.acknowledged)
+        .map(entry => ({ project, entry })));
+
+/**
+ * 状态变更时补齐对应的日期字段（解决、验证、决策、完成），已填写的不覆盖
+ */
+export const applyRaidStatusDates = <K extends RaidKind>(
+    kind: K,
+    item: RaidItemMap[K],
+    updates: Partial<RaidItemMap[K]>,
+    userName?: string
+): Partial<RaidItemMap[K]> => {
+    if (!updates.status || updates.status === item.status || !CLOSED_STATUSES[kind].includes(updates.status)) return updates;
+
+    const today = format(new Date(), 'yyyy-MM-dd');
+    const dated = { ...updates } as Partial<RaidItem> & Record<string, unknown>;
+    const fill = (field: string, value: string | undefined) => {
+        if (value && !dated[field] && !(item as unknown as Record<string, unknown>)[field]) dated[field] = value;
+    };
+
+    if (kind === 'issue') fill('resolvedDate', today);
+    if (kind === 'assumption') fill('validatedDate', today);
+    if (kind === 'action' && updates.status === 'done') fill('completedDate', today);
+    if (kind === 'decision' && updates.status !== 'superseded') {
+        fill('decisionDate', today);
+        fill('decidedBy', userName);
+    }
+    return dated as Partial<RaidItemMap[K]>;
+};
+
+/** 表单草稿：各类型字段的并集，提交时按类型整理为对应条目 */
+export type RaidItemDraft = Partial<
+    Omit<ProjectIssue, 'status'> & Omit<ProjectAssumption, 'status'> & Omit<ProjectDecision, 'status'> & Omit<ActionItem, 'status'>
+> & { status?: string };
+
+const isRaidStatus = <K extends RaidKind>(kind: K, status: string | undefined): status is RaidItemMap[K]['status'] =>
+    !!status && status in RAID_STATUS_LABELS[kind];
+
+/**
+ * 按类型把表单草稿整理为提交值，只保留该类型的字段；缺少标题、负责人或状态不合法时返回 null
+ */
+export const toRaidFormValues = (kind: RaidKind, draft: RaidItemDraft): RaidItemFormValues | null => {
+    const title = draft.title?.trim();
+    const { status } = draft;
+    if (!title || !draft.owner) return null;
+
+    const base = {
+        title,
+        description: draft.description,
+        owner: draft.owner,
+        ownerName: draft.ownerName,
+        dueDate: draft.dueDate,
+        updatedAt: draft.updatedAt,
+        relatedTaskIds: draft.relatedTaskIds,
+        relatedRiskIds: draft.relatedRiskIds,
+        relatedChangeRequestIds: draft.relatedChangeRequestIds,
+        escalation: draft.escalation
+    };
+
+    switch (kind) {
+        case 'issue':
+            if (!isRaidStatus(kind, status)) return null;
+            return {
+                kind,
+                values: { ...base, status, severity: draft.severity || 'medium', resolution: draft.resolution, resolvedDate: draft.resolvedDate }
+            };
+        case 'assumption':
+            if (!isRaidStatus(kind, status)) return null;
+            return { kind, values: { ...base, status, impactIfFalse: draft.impactIfFalse, validatedDate: draft.validatedDate } };
+        case 'decision':
+            if (!isRaidStatus(kind, status)) return null;
+            return {
+                kind,
+                values: {
+                    ...base,
+                    status,
+                    rationale: draft.rationale,
+                    alternatives: draft.alternatives,
+                    decidedBy: draft.decidedBy,
+                    decisionDate: draft.decisionDate
+                }
+            };
+        case 'action':
+            if (!isRaidStatus(kind, status)) return null;
+            return { kind, values: { ...base, status, source: draft.source, meetingDate: draft.meetingDate, completedDate: draft.completedDate } };
+    }
+};
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import type { ResourcePoolItem, Task } from '../types';
+import { applyScheduleChanges, levelResources, resolveTaskResourceDemand } from './resourceLeveling';
+
+const team: ResourcePoolItem = {
+    id: 'team-dev',
+    name: '开发组',
+    totalQuantity: 1,
+    members: [
+        { id: 'm-1', name: '张三', role: 'dev', skills: ['react'], availability: 40, assignments: [] },
+        { id: 'm-2', name: '李四', role: 'dev', skills: [], availability: 40, assignments: [] }
+    ]
+};
+
+const task = (id: string, startDate: string, endDate: string, extra: Partial<Task> = {}): Task => ({
+    id,
+    name: id,
+    type: 'task',
+    startDate,
+    endDate,
+    progress: 0,
+    assignee: 'team-dev',
+    ...extra
+});
+
+describe('levelResources', () => {
+    // 两个任务同时占用产能为 1 的团队，C 依赖 B
+    const tasks = [
+        task('A', '2026-03-02', '2026-03-05', { priority: 'P0' }),
+        task('B', '2026-03-02', '2026-03-04'),
+        task('C', '2026-03-04', '2026-03-06', { assignee: undefined, dependencies: [{ taskId: 'B', type: 'FS' }] })
+    ];
+
+    it('delays the lower-priority task until capacity frees up and pushes its successors', () => {
+        const result = levelResources(tasks, [team], { priorityRule: 'taskPriority' });
+        const byId = new Map(result.tasks.map(t => [t.id, t]));
+
+        expect(byId.get('A')!.startDate).toBe('2026-03-02');
+        expect(byId.get('B')!.startDate).toBe('2026-03-05');
+        expect(byId.get('B')!.endDate).toBe('2026-03-07');
+        expect(byId.get('C')!.startDate).toBe('2026-03-07');
+        expect(result.changes.find(c => c.taskId === 'B')?.cause).toBe('resource');
+        expect(result.changes.find(c => c.taskId === 'C')?.cause).toBe('dependency');
+        expect(result.unresolved).toEqual([]);
+        expect(result.metrics.remainingOverloadDays).toBe(0);
+        expect(result.metrics.originalOverloadDays).toBeGreaterThan(0);
+    });
+
+    it('produces the same schedule with the parallel scheme for this network', () => {
+        const serial = levelResources(tasks, [team], { priorityRule: 'taskPriority' });
+        const parallel = levelResources(tasks, [team], { priorityRule: 'taskPriority', scheme: 'parallel' });
+        expect(parallel.tasks.map(t => t.startDate)).toEqual(serial.tasks.map(t => t.startDate));
+    });
+
+    it('leaves overloads unresolved when only shifting within slack', () => {
+        const result = levelResources(tasks.slice(0, 2), [team], { withinSlackOnly: true });
+        expect(result.unresolved.length).toBeGreaterThan(0);
+        expect(result.metrics.newDuration).toBe(result.metrics.originalDuration);
+    });
+
+    it('applies changes only when the tasks have not moved since leveling', () => {
+        const { changes } = levelResources(tasks, [team], { priorityRule: 'taskPriority' });
+        expect(applyScheduleChanges(tasks, changes).success).toBe(true);
+
+        const moved = tasks.map(t => t.id === 'B' ? { ...t, startDate: '2026-03-03' } : t);
+        expect(applyScheduleChanges(moved, changes)).toEqual({ success: false, staleTaskIds: ['B'] });
+    });
+});
+
+describe('resolveTaskResourceDemand', () => {
+    it('limits skill-constrained work to qualified members', () => {
+        const demand = resolveTaskResourceDemand(task('S', '2026-03-02', '2026-03-03', { requiredSkills: ['react'], allocation: 50 }), [team]);
+        expect(demand.demand).toBe(0.5);
+        expect(demand.constraints.map(c => c.capacity)).toEqual([1, 1]);
+    });
+
+    it('charges member tasks to both the member and the team', () => {
+        const demand = resolveTaskResourceDemand(task('M', '2026-03-02', '2026-03-03', { assignee: 'm-2', requiredSkills: ['react'] }), [team]);
+        expect(demand.constraints.map(c => c.key)).toEqual(['team:team-dev', 'member:m-2']);
+        expect(demand.constraints[1].capacity).toBe(0);
+    });
+});
@@ -0,0 +1,458 @@
+import { format } from 'date-fns';
+import type { Task, ResourcePoolItem, WorkingCalendar, CalendarException, TaskDependencyLink } from '../types';
+import {
+    calculateCriticalPath,
+    createTaskDayIndex,
+    getRequiredStart,
+    getTaskDependencies,
+    measureTaskDuration,
+    topologicalSort
+} from './taskDependency';
+
+/**
+ * 资源受限进度计划（Resource-Constrained Project Scheduling）
+ *
+ * 以串行或并行进度生成机制（SGS）按优先规则逐个安排任务：
+ * - 任务只会被推迟，不会早于原计划开始日期
+ * - 所有后续任务按 FS/SS/FF/SF 依赖与延迟重新推算
+ * - 资源需求按投入比例（allocation）累计，团队产能为 totalQuantity，
+ *   成员产能为 1，带技能要求的任务只能使用具备全部技能的成员
+ */
+
+export type ScheduleGenerationScheme = 'serial' | 'parallel';
+
+export type SchedulePriorityRule =
+    | 'minSlack' // 最小总浮动
+    | 'latestStart' // 最晚开始时间最早
+    | 'latestFinish' // 最晚完成时间最早
+    | 'shortestDuration' // 最短工期
+    | 'taskPriority'; // 任务优先级（P0 最先），再按最晚开始
+
+export interface LevelingOptions {
+    scheme?: ScheduleGenerationScheme;
+    priorityRule?: SchedulePriorityRule;
+    withinSlackOnly?: boolean; // 资源平滑：只在总浮动范围内推迟，不延长工期
+    calendar?: WorkingCalendar;
+    exceptions?: CalendarException[];
+}
+
+export interface ScheduleChange {
+    taskId: string;
+    taskName: string;
+    originalStart: string;
+    originalEnd: string;
+    newStart: string;
+    newEnd: string;
+    delay: number; // 推迟天数（指定日历时为工作日）
+    cause: 'resource' | 'dependency';
+    reason: string;
+}
+
+export interface UnresolvedConflict {
+    resourceKey: string;
+    resourceName: string;
+    dates: string[];
+    peakDemand: number; // FTE
+    capacity: number; // FTE
+    taskIds: string[];
+}
+
+export interface LevelingResult {
+    tasks: Task[];
+    changes: ScheduleChange[];
+    unresolved: UnresolvedConflict[];
+    metrics: {
+        originalDuration: number;
+        newDuration: number;
+        originalOverloadDays: number; // 超载的（资源, 天）组合数
+        remainingOverloadDays: number;
+        peakOverloadReduced: number; // 各资源峰值超载削减量之和（FTE）
+    };
+}
+
+interface ResourceConstraint {
+    key: string;
+    name: string;
+    capacity: number;
+}
+
+interface ActivityDemand {
+    constraints: ResourceConstraint[];
+    demand: number; // FTE / 天
+}
+
+const EPSILON = 1e-9;
+const PRIORITY_RANK: Record<string, number> = { P0: 0, P1: 1, P2: 2, P3: 3 };
+
+/**
+ * 解析任务占用的资源约束
+ *
+ * assignee 可以是资源池条目（团队）ID，也可以是团队成员 ID。
+ * 成员任务同时占用成员本人与所属团队的产能。
+ */
+export const resolveTaskResourceDemand = (
+    task: Task,
+    resourcePool: ResourcePoolItem[]
+): ActivityDemand => {
+    const demand = Math.max(0, task.allocation ?? 100) / 100;
+    if (!task.assignee || task.type === 'group') return { constraints: [], demand };
+
+    const requiredSkills = [...(task.requiredSkills || [])].sort();
+    const team = resourcePool.find(r => r.id === task.assignee);
+    const owner = team || resourcePool.find(r => (r.members || []).some(m => m.id === task.assignee));
+    if (!owner) return { constraints: [], demand };
+
+    const constraints: ResourceConstraint[] = [
+        { key: `team:${owner.id}`, name: owner.name, capacity: owner.totalQuantity }
+    ];
+    const members = owner.members || [];
+
+    if (!team) {
+        const member = members.find(m => m.id === task.assignee)!;
+        const qualified = requiredSkills.every(skill => member.skills.includes(skill));
+        constraints.push({ key: `member:${member.id}`, name: member.name, capacity: qualified ? 1 : 0 });
+    } else if (requiredSkills.length > 0 && members.length > 0) {
+        const qualified = members.filter(m => requiredSkills.every(skill => m.skills.includes(skill)));
+        const skillNames = requiredSkills.map(id => owner.skills?.find(s => s.id === id)?.name || id);
+        constraints.push({
+            key: `skill:${owner.id}:${requiredSkills.join('+')}`,
+            name: `${owner.name}（${skillNames.join('、')}）`,
+            capacity: qualified.length
+        });
+    }
+
+    return { constraints, demand };
+};
+
+/**
+ * 按依赖关系计算任务在给定前置任务安排下的最早开始
+ */
+const getEarliestStart = (
+    links: TaskDependencyLink[],
+    duration: number,
+    lowerBound: number,
+    starts: Map<string, number>,
+    durations: Map<string, number>
+): { start: number; drivingTaskId?: string } => {
+    let start = lowerBound;
+    let drivingTaskId: string | undefined;
+
+    for (const link of links) {
+        const predStart = starts.get(link.taskId);
+        if (predStart === undefined) continue;
+        const predFinish = predStart + (durations.get(link.taskId) || 0);
+        const required = getRequiredStart(link, predStart, predFinish, duration);
+        if (required > start) {
+            start = required;
+            drivingTaskId = link.taskId;
+        }
+    }
+
+    return { start, drivingTaskId };
+};
+
+/**
+ * 资源受限排程
+ */
+export const levelResources = (
+    tasks: Task[],
+    resourcePool: ResourcePoolItem[],
+    options: LevelingOptions = {}
+): LevelingResult => {
+    const {
+        scheme = 'serial',
+        priorityRule = 'minSlack',
+        withinSlackOnly = false,
+        calendar,
+        exceptions = []
+    } = options;
+
+    const schedulable = tasks.filter(t => t.startDate && t.endDate);
+    const taskIds = new Set(schedulable.map(t => t.id));
+    const dayIndex = createTaskDayIndex(schedulable, calendar, exceptions);
+    const cpm = calculateCriticalPath(schedulable, calendar, exceptions);
+
+    const durations = new Map<string, number>();
+    const plannedStarts = new Map<string, number>();
+    const latestStarts = new Map<string, number>();
+    const latestFinishes = new Map<string, number>();
+    const links = new Map<string, TaskDependencyLink[]>();
+    const demands = new Map<string, ActivityDemand>();
+    const constraintsByKey = new Map<string, ResourceConstraint>();
+
+    schedulable.forEach(task => {
+        const duration = measureTaskDuration(task, dayIndex);
+        const plannedStart = dayIndex.toIndex(task.startDate);
+        durations.set(task.id, duration);
+        plannedStarts.set(task.id, plannedStart);
+        // 存在循环依赖时没有 CPM 结果，以计划日期作为最晚日期
+        latestStarts.set(task.id, cpm.cycle ? plannedStart : dayIndex.toIndex(cpm.latestStart[task.id]));
+        latestFinishes.set(task.id, cpm.cycle ? plannedStart + duration : dayIndex.toIndex(cpm.latestFinish[task.id]));
+        links.set(task.id, getTaskDependencies(task).filter(l => taskIds.has(l.taskId)));
+        const demand = resolveTaskResourceDemand(task, resourcePool);
+        demands.set(task.id, demand);
+        demand.constraints.forEach(c => constraintsByKey.set(c.key, c));
+    });
+
+    // ---------- 资源占用剖面 ----------
+    const addUsage = (profile: Map<string, Map<number, number>>, taskId: string, start: number) => {
+        const { constraints, demand } = demands.get(taskId)!;
+        const duration = durations.get(taskId)!;
+        constraints.forEach(c => {
+            if (!profile.has(c.key)) profile.set(c.key, new Map());
+            const used = profile.get(c.key)!;
+            for (let day = start; day < start + duration; day++) {
+                used.set(day, (used.get(day) || 0) + demand);
+            }
+        });
+    };
+    const buildProfile = (startMap: Map<string, number>) => {
+        const profile = new Map<string, Map<number, number>>();
+        startMap.forEach((start, taskId) => addUsage(profile, taskId, start));
+        return profile;
+    };
+
+    const usage = new Map<string, Map<number, number>>();
+    const findBlockingConstraint = (taskId: string, start: number): ResourceConstraint | null => {
+        const { constraints, demand } = demands.get(taskId)!;
+        const duration = durations.get(taskId)!;
+        for (const c of constraints) {
+            const used = usage.get(c.key);
+            for (let day = start; day < start + duration; day++) {
+                if ((used?.get(day) || 0) + demand > c.capacity + EPSILON) return c;
+            }
+        }
+        return null;
+    };
+    const canEverFit = (taskId: string): boolean => {
+        const { constraints, demand } = demands.get(taskId)!;
+        return constraints.every(c => demand <= c.capacity + EPSILON);
+    };
+    // ---------- 优先规则 ----------
+    const priorityValue = (task: Task): number => {
+        switch (priorityRule) {
+            case 'latestStart':
+                return latestStarts.get(task.id)!;
+            case 'latestFinish':
+                return latestFinishes.get(task.id)!;
+            case 'shortestDuration':
+                return durations.get(task.id)!;
+            case 'taskPriority':
+                return (PRIORITY_RANK[task.priority || 'P2'] ?? 2) * 1e6 + latestStarts.get(task.id)!;
+            case 'minSlack':
+            default:
+                return cpm.slack[task.id] ?? 0;
+        }
+    };
+    const comparePriority = (a: Task, b: Task): number =>
+        priorityValue(a) - priorityValue(b)
+        || plannedStarts.get(a.id)! - plannedStarts.get(b.id)!
+        || a.id.localeCompare(b.id);
+
+    // ---------- 排程 ----------
+    const starts = new Map<string, number>();
+    const reasons = new Map<string, { cause: ScheduleChange['cause']; detail: string }>();
+    const horizon = schedulable.reduce((sum, t) => sum + durations.get(t.id)!, 0) + 3660;
+
+    const placeTask = (task: Task, earliest: { start: number; drivingTaskId?: string }, from: number) => {
+        const blocker = findBlockingConstraint(task.id, earliest.start);
+        let start = from;
+
+        if (canEverFit(task.id)) {
+            const limit = withinSlackOnly
+                ? Math.max(latestStarts.get(task.id)!, earliest.start)
+                : earliest.start + horizon;
+            while (start < limit && findBlockingConstraint(task.id, start)) start++;
+            // 资源平滑：浮动时间内无法消解时保持最早开始，冲突留待人工处理
+            if (findBlockingConstraint(task.id, start)) start = earliest.start;
+        }
+
+        starts.set(task.id, start);
+        addUsage(usage, task.id, start);
+
+        if (start > earliest.start && blocker) {
+            reasons.set(task.id, { cause: 'resource', detail: `资源「${blocker.name}」产能不足` });
+        } else if (earliest.drivingTaskId) {
+            const driver = schedulable.find(t => t.id === earliest.drivingTaskId);
+            reasons.set(task.id, { cause: 'dependency', detail: `前置任务「${driver?.name || earliest.drivingTaskId}」推迟` });
+        }
+    };
+
+    const predecessorsScheduled = (task: Task) => links.get(task.id)!.every(l => starts.has(l.taskId));
+    const earliestOf = (task: Task) => getEarliestStart(
+        links.get(task.id)!,
+        durations.get(task.id)!,
+        plannedStarts.get(task.id)!,
+        starts,
+        durations
+    );
+
+    // 存在循环依赖时退回计划顺序
+    const ordered = topologicalSort(schedulable);
+    const pending = new Set(ordered.map(t => t.id));
+    const pendingTasks = () => ordered.filter(t => pending.has(t.id));
+
+    if (scheme === 'serial') {
+        while (pending.size > 0) {
+            const eligible = pendingTasks().filter(predecessorsScheduled);
+            const next = (eligible.length > 0 ? eligible : pendingTasks()).sort(comparePriority)[0];
+            const earliest = earliestOf(next);
+            placeTask(next, earliest, earliest.start);
+            pending.delete(next.id);
+        }
+    } else {
+        let time = Math.min(...schedulable.map(t => plannedStarts.get(t.id)!));
+        let guard = 0;
+        while (pending.size > 0 && guard++ < horizon * 2) {
+            let eligible = pendingTasks().filter(predecessorsScheduled);
+            if (eligible.length === 0) eligible = pendingTasks();
+            const candidates = eligible
+                .map(task => ({ task, earliest: earliestOf(task) }))
+                .sort((a, b) => comparePriority(a.task, b.task));
+
+            const ready = candidates.filter(c => c.earliest.start <= time);
+            if (ready.length === 0) {
+                time = Math.min(...candidates.map(c => c.earliest.start));
+                continue;
+            }
+
+            let startedAny = false;
+            for (const { task, earliest } of ready) {
+                const unconstrained = demands.get(task.id)!.constraints.length === 0 || !canEverFit(task.id);
+                const fits = !findBlockingConstraint(task.id, time);
+                // 资源平滑：到达最晚开始仍无法安排时按最早开始排入，冲突留待人工处理
+                const overdue = withinSlackOnly && time >= Math.max(latestStarts.get(task.id)!, earliest.start);
+                if (!unconstrained && !fits && !overdue) continue;
+
+                placeTask(task, earliest, unconstrained || !fits ? earliest.start : time);
+                pending.delete(task.id);
+                startedAny = true;
+                // 新开始的任务可能释放后续任务（如 SS 依赖），重新评估当前时刻
+                break;
+            }
+            if (!startedAny) time++;
+        }
+    }
+
+    // ---------- 输出 diff ----------
+    const toDate = (index: number) => format(dayIndex.fromIndex(index), 'yyyy-MM-dd');
+    const changes: ScheduleChange[] = [];
+
+    const leveledTasks = tasks.map(task => {
+        const start = starts.get(task.id);
+        if (start === undefined || start === plannedStarts.get(task.id)) return task;
+
+        const newStart = toDate(start);
+        const newEnd = toDate(start + durations.get(task.id)!);
+        const reason = reasons.get(task.id);
+        changes.push({
+            taskId: task.id,
+            taskName: task.name,
+            originalStart: task.startDate,
+            originalEnd: task.endDate,
+            newStart,
+            newEnd,
+            delay: start - plannedStarts.get(task.id)!,
+            cause: reason?.cause || 'dependency',
+            reason: reason?.detail || '满足依赖约束'
+        });
+        return { ...task, startDate: newStart, endDate: newEnd };
+    });
+
+    // ---------- 指标 ----------
+    const measureOverload = (profile: Map<string, Map<number, number>>) => {
+        let overloadDays = 0;
+        const peaks = new Map<string, number>();
+        profile.forEach((days, key) => {
+            const capacity = constraintsByKey.get(key)!.capacity;
+            days.forEach(used => {
+                const excess = used - capacity;
+                if (excess > EPSILON) {
+                    overloadDays++;
+                    peaks.set(key, Math.max(peaks.get(key) || 0, excess));
+                }
+            });
+        });
+        return { overloadDays, peaks };
+    };
+
+    const original = measureOverload(buildProfile(plannedStarts));
+    const finalProfile = buildProfile(starts);
+    const remaining = measureOverload(finalProfile);
+
+    const unresolved: UnresolvedConflict[] = [];
+    remaining.peaks.forEach((peak, key) => {
+        const constraint = constraintsByKey.get(key)!;
+        const overloadedDays = [...finalProfile.get(key)!.entries()]
+            .filter(([, used]) => used - constraint.capacity > EPSILON)
+            .map(([day]) => day)
+            .sort((a, b) => a - b);
+        const involved = schedulable.filter(t =>
+            demands.get(t.id)!.constraints.some(c => c.key === key) &&
+            overloadedDays.some(day => day >= starts.get(t.id)! && day < starts.get(t.id)! + durations.get(t.id)!)
+        );
+        unresolved.push({
+            resourceKey: key,
+            resourceName: constraint.name,
+            dates: overloadedDays.map(toDate),
+            peakDemand: Math.round((constraint.capacity + peak) * 100) / 100,
+            capacity: constraint.capacity,
+            taskIds: involved.map(t => t.id)
+        });
+    });
+
+    const peakOverloadReduced = [...original.peaks.entries()].reduce(
+        (sum, [key, peak]) => sum + Math.max(0, peak - (remaining.peaks.get(key) || 0)),
+        0
+    );
+
+    const span = (startMap: Map<string, number>) => {
+        if (startMap.size === 0) return 0;
+        const ids = [...startMap.keys()];
+        const first = Math.min(...ids.map(id => startMap.get(id)!));
+        const last = Math.max(...ids.map(id => startMap.get(id)! + durations.get(id)!));
+        return last - first;
+    };
+
+    return {
+        tasks: leveledTasks,
+        changes: changes.sort((a, b) => a.newStart.localeCompare(b.newStart) || a.taskId.localeCompare(b.taskId)),
+        unresolved,
+        metrics: {
+            originalDuration: span(plannedStarts),
+            newDuration: span(starts),
+            originalOverloadDays: original.overloadDays,
+            remainingOverloadDays: remaining.overloadDays,
+            peakOverloadReduced: Math.round(peakOverloadReduced * 100) / 100
+        }
+    };
+};
+
+/**
+ * 将排程 diff 一次性应用到当前任务列表
+ *
+ * 预览生成后若任务日期已被修改，则整体拒绝，避免部分应用造成依赖错乱。
+ */
+export const applyScheduleChanges = (
+    tasks: Task[],
+    changes: ScheduleChange[]
+): { success: true; tasks: Task[] } | { success: false; staleTaskIds: string[] } => {
+    const taskMap = new Map(tasks.map(t => [t.id, t]));
+    const staleTaskIds = changes
+        .filter(change => {
+            const task = taskMap.get(change.taskId);
+            return !task || task.startDate !== change.originalStart || task.endDate !== change.originalEnd;
+        })
+        .map(change => change.taskId);
+
+    if (staleTaskIds.length > 0) return { success: false, staleTaskIds };
+
+    const changeMap = new Map(changes.map(c => [c.taskId, c]));
+    return {
+        success: true,
+        tasks: tasks.map(task => {
+            const change = changeMap.get(task.id);
+            return change ? { ...task, startDate: change.newStart, endDate: change.newEnd } : task;
+        })
+    };
+};
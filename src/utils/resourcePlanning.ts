@@ -1,4 +1,5 @@
-import type { Project, ResourcePoolItem } from '../types';
+import type { Project, ResourcePoolItem, WorkingCalendar, CalendarException } from '../types';
+import { resolveCalendar, getExceptionsFor, getWorkingHoursBetween } from './workingCalendar';
 import {
     eachDayOfInterval,
     startOfDay,
@@ -34,9 +35,17 @@ export type ResourceLoad = {
         planning: number;
         total: number;
         projects: { id: string; name: string; amount: number; status: string }[];
+        capacity?: number; // Effective FTE in this period (working-calendar mode)
+        capacityHours?: number;
+        allocatedHours?: number;
     }>;
 };
 
+export type ResourceLoadCalendarOptions = {
+    calendars: WorkingCalendar[];
+    exceptions?: CalendarException[];
+};
+
 export const generateTimeBuckets = (
     projects: Project[],
     count = 12,
@@ -111,14 +120,43 @@ export const generateTimeBuckets = (
     }));
 };
 
+/**
+ * Calculate resource load per time bucket.
+ *
+ * Without calendar options every overlapping requirement counts its full headcount.
+ * With calendar options, capacity and load are measured in working hours against the
+ * team/member calendars (holidays, leave, shifts) and expressed as FTE relative to
+ * the company calendar, so partial overlaps and holiday-heavy months are prorated.
+ */
 export const calculateResourceLoad = (
     projects: Project[],
     resources: ResourcePoolItem[],
     buckets: TimeBucket[],
-    interval: 'day' | 'week' | 'month' | 'quarter' = 'month'
+    interval: 'day' | 'week' | 'month' | 'quarter' = 'month',
+    calendarOptions?: ResourceLoadCalendarOptions
 ): ResourceLoad[] => {
+    const hoursCache = new Map<string, number>();
+    const hoursBetween = (
+        start: Date,
+        end: Date,
+        calendar: WorkingCalendar,
+        exceptions: CalendarException[],
+        cacheKey: string
+    ): number => {
+        const key = `${cacheKey}|${start.getTime()}|${end.getTime()}`;
+        if (!hoursCache.has(key)) {
+            hoursCache.set(key, getWorkingHoursBetween(start, end, calendar, exceptions));
+        }
+        return hoursCache.get(key)!;
+    };
+    const companyCalendar = calendarOptions ? resolveCalendar(calendarOptions.calendars) : undefined;
+
     return resources.map(res => {
         const allocations: ResourceLoad['allocations'] = {};
+        const teamCalendar = calendarOptions ? resolveCalendar(calendarOptions.calendars, res.calendarId) : undefined;
+        const teamExceptions = calendarOptions
+            ? getExceptionsFor(calendarOptions.exceptions || [], { teamId: res.id })
+            : [];
 
         buckets.forEach(bucket => {
             let bucketStart: Date;
@@ -142,6 +180,22 @@ export const calculateResourceLoad = (
             let planningLoad = 0;
             const contributingProjects: { id: string; name: string; amount: number; status: string }[] = [];
 
+            // Working-time capacity of this bucket
+            let standardHours = 0;
+            let capacityHours = 0;
+            let allocatedHours = 0;
+            if (calendarOptions && companyCalendar && teamCalendar) {
+                standardHours = hoursBetween(bucketStart, bucketEnd, companyCalendar, [], 'company');
+                const teamHours = hoursBetween(bucketStart, bucketEnd, teamCalendar, teamExceptions, `team:${res.id}`);
+                const members = res.members || [];
+                const memberHours = members.reduce((sum, member) => {
+                    const memberCalendar = resolveCalendar(calendarOptions.calendars, member.calendarId || res.calendarId);
+                    const memberExceptions = getExceptionsFor(calendarOptions.exceptions || [], { teamId: res.id, memberId: member.id });
+                    return sum + hoursBetween(bucketStart, bucketEnd, memberCalendar, memberExceptions, `member:${member.id}`);
+                }, 0);
+                capacityHours = memberHours + Math.max(0, res.totalQuantity - members.length) * teamHours;
+            }
+
             projects.forEach(p => {
                 if (!p.startDate || !p.endDate) return;
 
@@ -161,15 +215,25 @@ export const calculateResourceLoad = (
                     const overlaps = (pStart <= bucketEnd && reqEnd >= bucketStart);
 
                     if (overlaps) {
+                        let amount = req.count;
+                        if (calendarOptions && teamCalendar) {
+                            // Prorate by the working hours the requirement actually covers in this bucket
+                            const overlapStart = pStart > bucketStart ? pStart : bucketStart;
+                            const overlapEnd = reqEnd < bucketEnd ? reqEnd : bucketEnd;
+                            const hours = req.count * hoursBetween(overlapStart, overlapEnd, teamCalendar, teamExceptions, `team:${res.id}`);
+                            allocatedHours += hours;
+                            amount = standardHours > 0 ? Math.round((hours / standardHours) * 100) / 100 : 0;
+                        }
+
                         if (p.status === 'active') {
-                            activeLoad += req.count;
+                            activeLoad += amount;
                         } else if (p.status === 'planning') {
-                            planningLoad += req.count;
+                            planningLoad += amount;
                         }
                         contributingProjects.push({
                             id: p.id,
                             name: p.name,
-                            amount: req.count,
+                            amount,
                             status: p.status
                         });
                     }
@@ -180,7 +244,12 @@ export const calculateResourceLoad = (
                 active: activeLoad,
                 planning: planningLoad,
                 total: activeLoad + planningLoad,
-                projects: contributingProjects
+                projects: contributingProjects,
+                ...(calendarOptions && {
+                    capacity: standardHours > 0 ? Math.round((capacityHours / standardHours) * 100) / 100 : 0,
+                    capacityHours,
+                    allocatedHours
+                })
             };
         });
 
@@ -203,14 +272,15 @@ export const detectResourceConflicts = (
 
     resourceLoads.forEach(load => {
         Object.entries(load.allocations).forEach(([period, data]) => {
-            if (data.total > load.capacity) {
+            const capacity = data.capacity ?? load.capacity;
+            if (data.total > capacity) {
                 conflicts.push({
                     resourceId: load.resourceId,
                     resourceName: load.resourceName,
                     period,
-                    capacity: load.capacity,
+                    capacity,
                     allocated: data.total,
-                    overallocation: data.total - load.capacity,
+                    overallocation: data.total - capacity,
                     conflictingProjects: data.projects.map(p => ({
                         projectId: p.id,
                         projectName: p.name,
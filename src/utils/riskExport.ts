@@ -1,7 +1,26 @@
 import type { Risk, Project } from '../types';
 import { getRiskCategoryInfo, getRiskStatusInfo } from './riskManagement';
+import { RAID_KIND_LABELS, getRaidEntries, type RaidEntry } from './raidLog';
 import { format } from 'date-fns';
 
+/**
+ * Trigger a browser download for generated content
+ */
+const downloadFile = (content: BlobPart, type: string, fileName: string): void => {
+    const blob = new Blob([content], { type });
+    const link = document.createElement('a');
+    const url = URL.createObjectURL(blob);
+
+    link.setAttribute('href', url);
+    link.setAttribute('download', fileName);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+};
+
+const escapeCSV = (value: string) => `"${value.replace(/"/g, '""')}"`;
+
 /**
  * Export risks to CSV format
  */
@@ -37,9 +56,9 @@ export const exportRisksToCSV = (risks: Risk[], projectName: string): void => {
             risk.probability,
             risk.impact,
             risk.riskScore,
-            `"${risk.description.replace(/"/g, '""')}"`, // Escape quotes
-            `"${(risk.mitigationStrategy || '').replace(/"/g, '""')}"`,
-            `"${(risk.contingencyPlan || '').replace(/"/g, '""')}"`,
+            escapeCSV(risk.description),
+            escapeCSV(risk.mitigationStrategy || ''),
+            escapeCSV(risk.contingencyPlan || ''),
             risk.ownerName || risk.owner,
             format(new Date(risk.identifiedDate), 'yyyy-MM-dd'),
             risk.estimatedCostImpact || 0,
@@ -51,16 +70,7 @@ export const exportRisksToCSV = (risks: Risk[], projectName: string): void => {
 
     // Add BOM for Excel UTF-8 support
     const BOM = '\uFEFF';
-    const blob = new Blob([BOM + csvContent], { type: 'text/csv;charset=utf-8;' });
-    const link = document.createElement('a');
-    const url = URL.createObjectURL(blob);
-
-    link.setAttribute('href', url);
-    link.setAttribute('download', `${projectName}_风险清单_${format(new Date(), 'yyyyMMdd')}.csv`);
-    link.style.visibility = 'hidden';
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    downloadFile(BOM + csvContent, 'text/csv;charset=utf-8;', `${projectName}_风险清单_${format(new Date(), 'yyyyMMdd')}.csv`);
 };
 
 /**
@@ -140,16 +150,85 @@ export const exportRisksToExcel = (risks: Risk[], projectName: string): void =>
 </html>
     `;
 
-    const blob = new Blob([htmlContent], { type: 'application/vnd.ms-excel' });
-    const link = document.createElement('a');
-    const url = URL.createObjectURL(blob);
+    downloadFile(htmlContent, 'application/vnd.ms-excel', `${projectName}_风险清单_${format(new Date(), 'yyyyMMdd')}.xls`);
+};
 
-    link.setAttribute('href', url);
-    link.setAttribute('download', `${projectName}_风险清单_${format(new Date(), 'yyyyMMdd')}.xls`);
-    link.style.visibility = 'hidden';
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+const RAID_HEADERS = ['类型', 'ID', '标题', '状态', '负责人', '截止/复核日期', '逾期', '升级至 PMO', '关联任务', '关联风险', '关联变更', '描述'];
+
+const raidRow = (entry: RaidEntry, taskName: (id: string) => string): string[] => [
+    RAID_KIND_LABELS[entry.kind],
+    entry.id,
+    entry.title,
+    entry.statusLabel,
+    entry.ownerName,
+    entry.dueDate || '',
+    entry.overdue ? '是' : '',
+    entry.escalated ? (entry.acknowledged ? '已受理' : '待受理') : '',
+    entry.relatedTaskIds.map(taskName).join('; '),
+    entry.relatedRiskIds.join('; '),
+    entry.relatedChangeRequestIds.join('; '),
+    entry.description || '',
+];
+
+const taskNameResolver = (project: Project) => (id: string) => project.tasks?.find((t) => t.id === id)?.name || id;
+
+/**
+ * Export the combined RAID log (risks, assumptions, issues, decisions, action items) to CSV
+ */
+export const exportRaidLogToCSV = (project: Project): void => {
+    const taskName = taskNameResolver(project);
+    const rows = getRaidEntries(project).map((entry) => raidRow(entry, taskName).map(escapeCSV));
+    const csvContent = [RAID_HEADERS, ...rows].map((row) => row.join(',')).join('\n');
+
+    const BOM = '\uFEFF';
+    downloadFile(BOM + csvContent, 'text/csv;charset=utf-8;', `${project.name}_RAID日志_${format(new Date(), 'yyyyMMdd')}.csv`);
+};
+
+/**
+ * Export the combined RAID log to Excel-compatible HTML format
+ */
+export const exportRaidLogToExcel = (project: Project): void => {
+    const taskName = taskNameResolver(project);
+    const entries = getRaidEntries(project);
+
+    const htmlContent = `
+<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="UTF-8">
+    <style>
+        table { border-collapse: collapse; width: 100%; font-family: Arial, sans-serif; }
+        th { background-color: #4472C4; color: white; padding: 12px; text-align: left; font-weight: bold; border: 1px solid #ddd; }
+        td { padding: 10px; border: 1px solid #ddd; }
+        tr:nth-child(even) { background-color: #f2f2f2; }
+        .overdue { background-color: #ffebee; }
+        h1 { color: #333; font-family: Arial, sans-serif; }
+        .meta { color: #666; font-size: 14px; margin-bottom: 20px; }
+    </style>
+</head>
+<body>
+    <h1>${project.name} - RAID 日志</h1>
+    <div class="meta">
+        <p>导出时间: ${format(new Date(), 'yyyy年MM月dd日 HH:mm:ss')}</p>
+        <p>条目总数: ${entries.length} | 未关闭: ${entries.filter((e) => e.open).length} | 逾期: ${entries.filter((e) => e.overdue).length}</p>
+    </div>
+    <table>
+        <thead>
+            <tr>${RAID_HEADERS.map((h) => `<th>${h}</th>`).join('')}</tr>
+        </thead>
+        <tbody>
+            ${entries
+            .map((entry) => `
+                <tr class="${entry.overdue ? 'overdue' : ''}">${raidRow(entry, taskName).map((cell) => `<td>${cell}</td>`).join('')}</tr>
+            `)
+            .join('')}
+        </tbody>
+    </table>
+</body>
+</html>
+    `;
+
+    downloadFile(htmlContent, 'application/vnd.ms-excel', `${project.name}_RAID日志_${format(new Date(), 'yyyyMMdd')}.xls`);
 };
 
 /**
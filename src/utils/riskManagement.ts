@@ -7,6 +7,14 @@ export const calculateRiskScore = (probability: number, impact: number): number
     return probability * impact;
 };
 
+/**
+ * Convert the 1-5 probability rating into an occurrence likelihood (0-1)
+ * 1=10%, 2=30%, 3=50%, 4=70%, 5=90%
+ */
+export const getRiskOccurrenceProbability = (probability: number): number => {
+    return Math.min(0.9, Math.max(0.1, (probability * 2 - 1) / 10));
+};
+
 /**
  * Determine risk priority based on risk score
  * Score ranges:
@@ -0,0 +1,176 @@
+import type { Risk, RiskReserve, RiskReserveDrawdown, RiskReserveDrawdownType } from '../types';
+import { getRiskOccurrenceProbability } from './riskManagement';
+import { createSeededRandom } from './scheduleRiskSimulation';
+
+/**
+ * 定量风险分析与风险储备金
+ *
+ * - EMV（预期货币价值）= 发生概率（1-5 级换算为 10%-90%）× 预估成本影响
+ * - 成本蒙特卡洛：每次迭代按发生概率抽样各未关闭风险，发生即计入其成本影响，
+ *   以总风险成本分布的指定分位数作为应急储备
+ * - 储备动用：风险发生时按实际成本支取，风险未发生而关闭时释放其 EMV
+ *
+ * 已接受（accepted）的风险仍可能发生，正是应急储备覆盖的对象，因此计入；已解决或已发生的风险不计入。
+ */
+
+export const DEFAULT_RESERVE_CONFIDENCE = 80; // %
+export const RESERVE_CONFIDENCE_OPTIONS = [50, 80, 90, 95];
+export const DEFAULT_COST_SIMULATION_ITERATIONS = 5000;
+export const DEFAULT_COST_SIMULATION_SEED = 20240601;
+
+export interface RiskEMV {
+    risk: Risk;
+    likelihood: number; // 0-1
+    costImpact: number;
+    emv: number;
+    mitigationWorthwhile?: boolean; // 缓解成本低于 EMV 时值得投入，未填缓解成本时为空
+}
+
+export interface RiskCostSimulation {
+    iterations: number;
+    seed: number;
+    expectedValue: number; // 未关闭风险 EMV 合计
+    mean: number; // 模拟均值（应接近 EMV）
+    max: number;
+    percentiles: Record<number, number>; // 置信度 % -> 风险成本
+    distribution: { cost: number; cumulative: number }[];
+}
+
+export interface RiskReserveStatus {
+    reserve: number;
+    drawn: number; // 已发生风险支取
+    released: number; // 风险关闭释放
+    remaining: number;
+    openEMV: number; // 仍未关闭风险的 EMV
+    required: number; // 按原置信度重新模拟的所需储备
+    coverage?: number; // 剩余储备 / 所需储备
+}
+
+/**
+ * 参与定量分析的风险：未解决、未发生且填写了成本影响
+ */
+export const getQuantifiableRisks = (risks: Risk[]): Risk[] =>
+    risks.filter(r => r.status !== 'resolved' && !r.realizedDate && (r.estimatedCostImpact || 0) > 0);
+
+/**
+ * 单个风险的 EMV
+ */
+export const calculateRiskEMV = (risk: Risk): RiskEMV => {
+    const likelihood = getRiskOccurrenceProbability(risk.probability);
+    const costImpact = risk.estimatedCostImpact || 0;
+    const emv = likelihood * costImpact;
+    return {
+        risk,
+        likelihood,
+        costImpact,
+        emv,
+        mitigationWorthwhile: risk.mitigationCost === undefined ? undefined : risk.mitigationCost < emv
+    };
+};
+
+/**
+ * 项目 EMV：未关闭风险的 EMV 合计
+ */
+export const calculateProjectEMV = (risks: Risk[]): number =>
+    getQuantifiableRisks(risks).reduce((sum, r) => sum + calculateRiskEMV(r).emv, 0);
+
+/**
+ * 风险成本蒙特卡洛模拟（带种子，结果可复现）
+ */
+export const simulateRiskCost = (
+    risks: Risk[],
+    iterations: number = DEFAULT_COST_SIMULATION_ITERATIONS,
+    seed: number = DEFAULT_COST_SIMULATION_SEED
+): RiskCostSimulation => {
+    const items = getQuantifiableRisks(risks).map(calculateRiskEMV);
+    const runs = Math.max(1, Math.floor(iterations));
+    const random = createSeededRandom(seed);
+
+    const totals: number[] = [];
+    for (let run = 0; run < runs; run++) {
+        totals.push(items.reduce((sum, item) => sum + (random() < item.likelihood ? item.costImpact : 0), 0));
+    }
+    totals.sort((a, b) => a - b);
+
+    const at = (confidence: number) => totals[Math.max(0, Math.ceil(confidence / 100 * runs) - 1)];
+    const counts = new Map<number, number>();
+    totals.forEach(cost => counts.set(cost, (counts.get(cost) || 0) + 1));
+    let cumulative = 0;
+
+    return {
+        iterations: runs,
+        seed,
+        expectedValue: items.reduce((sum, item) => sum + item.emv, 0),
+        mean: totals.reduce((a, b) => a + b, 0) / runs,
+        max: totals[runs - 1],
+        percentiles: Object.fromEntries(RESERVE_CONFIDENCE_OPTIONS.map(c => [c, at(c)])),
+        distribution: Array.from(counts.entries()).map(([cost, count]) => {
+            cumulative += count;
+            return { cost, cumulative: cumulative / runs };
+        })
+    };
+};
+
+/**
+ * 按置信度确定应急储备
+ */
+export const sizeRiskReserve = (
+    risks: Risk[],
+    confidenceLevel: number = DEFAULT_RESERVE_CONFIDENCE,
+    iterations: number = DEFAULT_COST_SIMULATION_ITERATIONS,
+    seed: number = DEFAULT_COST_SIMULATION_SEED,
+    setBy?: string
+): RiskReserve => {
+    const simulation = simulateRiskCost(risks, iterations, seed);
+    const sorted = simulation.distribution;
+    const point = sorted.find(p => p.cumulative >= confidenceLevel / 100) || sorted[sorted.length - 1];
+    return {
+        confidenceLevel,
+        amount: point?.cost || 0,
+        expectedValue: simulation.expectedValue,
+        iterations: simulation.iterations,
+        seed,
+        setAt: new Date().toISOString(),
+        setBy,
+        drawdowns: []
+    };
+};
+
+/**
+ * 新建储备动用记录：风险发生（realized）按实际成本支取，风险关闭（retired）释放该风险的 EMV
+ */
+export const createReserveDrawdown = (
+    risk: Risk,
+    type: RiskReserveDrawdownType,
+    amount?: number,
+    recordedBy?: string,
+    note?: string
+): RiskReserveDrawdown => ({
+    id: `drawdown-${Date.now()}`,
+    riskId: risk.id,
+    riskTitle: risk.title,
+    type,
+    amount: amount ?? (type === 'realized' ? risk.estimatedCostImpact || 0 : calculateRiskEMV(risk).emv),
+    date: new Date().toISOString(),
+    recordedBy,
+    note
+});
+
+/**
+ * 储备金使用情况：已支取、已释放、剩余，以及按当前未关闭风险重新模拟的所需储备
+ */
+export const getRiskReserveStatus = (reserve: RiskReserve, risks: Risk[]): RiskReserveStatus => {
+    const drawn = reserve.drawdowns.filter(d => d.type === 'realized').reduce((sum, d) => sum + d.amount, 0);
+    const released = reserve.drawdowns.filter(d => d.type === 'retired').reduce((sum, d) => sum + d.amount, 0);
+    const remaining = reserve.amount - drawn - released;
+    const required = sizeRiskReserve(risks, reserve.confidenceLevel, reserve.iterations, reserve.seed).amount;
+    return {
+        reserve: reserve.amount,
+        drawn,
+        released,
+        remaining,
+        openEMV: calculateProjectEMV(risks),
+        required,
+        coverage: required > 0 ? remaining / required : undefined
+    };
+};
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import type { Risk, Task } from '../types';
+import { createSeededRandom, sampleTriangular, simulateSchedule } from './scheduleRiskSimulation';
+
+const tasks: Task[] = [
+    { id: 'A', name: '设计', type: 'task', startDate: '2026-03-02', endDate: '2026-03-07', progress: 0, optimisticDays: 4, pessimisticDays: 10 },
+    { id: 'B', name: '开发', type: 'task', startDate: '2026-03-02', endDate: '2026-03-12', progress: 0, optimisticDays: 8, pessimisticDays: 20, dependencies: [{ taskId: 'A', type: 'FS' }] },
+    { id: 'C', name: '文档', type: 'task', startDate: '2026-03-02', endDate: '2026-03-05', progress: 0, dependencies: [{ taskId: 'A', type: 'FS' }] },
+    { id: 'M', name: '发布', type: 'milestone', startDate: '2026-03-17', endDate: '2026-03-17', progress: 0, dependencies: [{ taskId: 'B', type: 'FS' }, { taskId: 'C', type: 'FS' }] }
+];
+
+const risk = {
+    id: 'R1',
+    title: '接口延期',
+    status: 'identified',
+    probability: 5,
+    relatedTaskIds: ['B'],
+    scheduleImpactDays: 5
+} as Risk;
+
+describe('createSeededRandom', () => {
+    it('repeats the same sequence for the same seed', () => {
+        const a = createSeededRandom(42);
+        const b = createSeededRandom(42);
+        const first = [a(), a(), a()];
+        expect([b(), b(), b()]).toEqual(first);
+        expect(first.every(u => u >= 0 && u < 1)).toBe(true);
+        expect(createSeededRandom(43)()).not.toBe(first[0]);
+    });
+});
+
+describe('sampleTriangular', () => {
+    it('maps the unit interval onto [min, max] with the mode at the split', () => {
+        expect(sampleTriangular(2, 5, 10, 0)).toBe(2);
+        expect(sampleTriangular(2, 5, 10, 1)).toBe(10);
+        expect(sampleTriangular(2, 5, 10, 3 / 8)).toBeCloseTo(5, 10);
+        expect(sampleTriangular(5, 5, 5, 0.7)).toBe(5);
+    });
+});
+
+describe('simulateSchedule', () => {
+    it('is reproducible for a given seed', () => {
+        const first = simulateSchedule(tasks, { iterations: 300, seed: 7, risks: [risk], targetDate: '2026-03-17' });
+        const second = simulateSchedule(tasks, { iterations: 300, seed: 7, risks: [risk], targetDate: '2026-03-17' });
+        expect(second).toEqual(first);
+    });
+
+    it('forecasts finish percentiles around the deterministic plan', () => {
+        const result = simulateSchedule(tasks, { iterations: 500, seed: 11, targetDate: '2026-03-17' });
+
+        expect(result.iterations).toBe(500);
+        expect(result.deterministicFinish).toBe('2026-03-17');
+        expect(result.projectFinish!.p50 <= result.projectFinish!.p80).toBe(true);
+        expect(result.projectFinish!.p80 <= result.projectFinish!.p95).toBe(true);
+        expect(result.distribution[result.distribution.length - 1].cumulative).toBeCloseTo(1, 10);
+        expect(result.milestones.map(m => m.taskId)).toEqual(['M']);
+        // 计划开始日作为"不早于"约束，B 提前完成时里程碑不再由 B 驱动
+        const criticality = (id: string) => result.criticality.find(c => c.taskId === id)?.criticalityIndex ?? 0;
+        expect(criticality('B')).toBeGreaterThan(0.9);
+        expect(criticality('C')).toBe(0);
+    });
+
+    it('lowers the on-time probability when a likely risk delays the critical path', () => {
+        const base = simulateSchedule(tasks, { iterations: 500, seed: 11, targetDate: '2026-03-17' });
+        const withRisk = simulateSchedule(tasks, { iterations: 500, seed: 11, risks: [risk], targetDate: '2026-03-17' });
+
+        expect(withRisk.onTimeProbability!).toBeLessThan(base.onTimeProbability!);
+        expect(withRisk.drivers.some(d => d.id === 'R1' && d.kind === 'risk')).toBe(true);
+    });
+
+    it('skips the simulation when dependencies form a cycle', () => {
+        const cyclic = tasks.map(t => t.id === 'A' ? { ...t, dependencies: [{ taskId: 'M', type: 'FS' as const }] } : t);
+        const result = simulateSchedule(cyclic, { iterations: 100 });
+
+        expect(result.iterations).toBe(0);
+        expect(result.projectFinish).toBeNull();
+        expect(result.cycle).toBeDefined();
+    });
+});
@@ -0,0 +1,322 @@
+import { format } from 'date-fns';
+import type { CalendarException, Risk, Task, TaskDependencyLink, WorkingCalendar } from '../types';
+import {
+    createTaskDayIndex,
+    findDependencyCycle,
+    getAllowedFinish,
+    getRequiredStart,
+    getTaskDependencies,
+    measureTaskDuration,
+    topologicalSort
+} from './taskDependency';
+import { getRiskOccurrenceProbability } from './riskManagement';
+
+/**
+ * 进度风险蒙特卡洛模拟
+ *
+ * - 任务工期按三点估算（乐观 / 最可能 / 悲观）的三角分布抽样，未填写的估算取计划工期；
+ *   已完成任务与里程碑工期固定
+ * - 未关闭的风险按发生概率（1-5 级换算）逐次抽样，发生时为其关联任务追加 scheduleImpactDays 天延误
+ * - 每次迭代按依赖关系做前向 / 反向计算，统计项目与里程碑完成日期分布、任务关键度与进度驱动因素
+ * - 使用带种子的伪随机数，相同输入与种子得到相同结果，便于评审复现
+ *
+ * 指定工作日历时，工期与延误均以工作日计。存在循环依赖时不做模拟，结果的 cycle 给出构成环的任务。
+ */
+
+export const DEFAULT_SIMULATION_ITERATIONS = 1000;
+export const DEFAULT_SIMULATION_SEED = 20240601;
+
+export interface ScheduleSimulationOptions {
+    iterations?: number;
+    seed?: number;
+    calendar?: WorkingCalendar;
+    exceptions?: CalendarException[];
+    risks?: Risk[];
+    targetDate?: string; // 计算按期完成概率的目标日期（通常为项目计划完成日）
+}
+
+export interface FinishPercentiles {
+    p50: string;
+    p80: string;
+    p95: string;
+}
+
+export interface MilestoneForecast extends FinishPercentiles {
+    taskId: string;
+    name: string;
+    plannedDate: string;
+    onTimeProbability: number; // 0-1
+}
+
+export interface TaskCriticality {
+    taskId: string;
+    name: string;
+    criticalityIndex: number; // 位于关键路径上的迭代占比 0-1
+}
+
+export interface ScheduleDriver {
+    id: string;
+    name: string;
+    kind: 'task' | 'risk';
+    correlation: number; // 与项目完成日期的相关系数 -1..1
+}
+
+export interface FinishDistributionPoint {
+    date: string;
+    count: number;
+    cumulative: number; // 累计概率 0-1
+}
+
+export interface ScheduleSimulationResult {
+    iterations: number;
+    seed: number;
+    deterministicFinish: string | null; // 按最可能工期、不计风险的完成日期
+    projectFinish: FinishPercentiles | null;
+    onTimeProbability?: number; // 0-1，仅在指定 targetDate 时计算
+    distribution: FinishDistributionPoint[];
+    milestones: MilestoneForecast[];
+    criticality: TaskCriticality[];
+    drivers: ScheduleDriver[]; // 按相关系数绝对值降序（龙卷风图）
+    cycle?: string[]; // 存在循环依赖时构成环的任务 ID，此时不做模拟
+}
+
+/**
+ * mulberry32 种子伪随机数生成器，返回 [0, 1) 区间的均匀分布
+ */
+export const createSeededRandom = (seed: number): (() => number) => {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+/**
+ * 三角分布逆变换抽样
+ */
+export const sampleTriangular = (min: number, mode: number, max: number, u: number): number => {
+    if (max <= min) return mode;
+    const split = (mode - min) / (max - min);
+    return u < split
+        ? min + Math.sqrt(u * (max - min) * (mode - min))
+        : max - Math.sqrt((1 - u) * (max - min) * (max - mode));
+};
+
+/**
+ * 任务的三点估算（天），缺失的估算以计划工期补齐并保证 乐观 <= 最可能 <= 悲观
+ */
+export const getThreePointEstimate = (task: Task, plannedDays: number) => {
+    const mostLikely = task.mostLikelyDays ?? plannedDays;
+    const optimistic = Math.min(task.optimisticDays ?? mostLikely, mostLikely);
+    const pessimistic = Math.max(task.pessimisticDays ?? mostLikely, mostLikely);
+    return { optimistic, mostLikely, pessimistic };
+};
+
+const percentile = (sorted: number[], p: number) => sorted[Math.max(0, Math.ceil(p * sorted.length) - 1)];
+
+const correlation = (xs: number[], ys: number[]): number => {
+    const n = xs.length;
+    const meanX = xs.reduce((a, b) => a + b, 0) / n;
+    const meanY = ys.reduce((a, b) => a + b, 0) / n;
+    let cov = 0;
+    let varX = 0;
+    let varY = 0;
+    for (let i = 0; i < n; i++) {
+        cov += (xs[i] - meanX) * (ys[i] - meanY);
+        varX += (xs[i] - meanX) ** 2;
+        varY += (ys[i] - meanY) ** 2;
+    }
+    return varX > 0 && varY > 0 ? cov / Math.sqrt(varX * varY) : 0;
+};
+
+/**
+ * 对任务网络执行蒙特卡洛进度模拟
+ */
+export const simulateSchedule = (
+    tasks: Task[],
+    options: ScheduleSimulationOptions = {}
+): ScheduleSimulationResult => {
+    const {
+        iterations = DEFAULT_SIMULATION_ITERATIONS,
+        seed = DEFAULT_SIMULATION_SEED,
+        calendar,
+        exceptions = [],
+        risks = [],
+        targetDate
+    } = options;
+
+    const cycle = findDependencyCycle(tasks);
+    if (tasks.length === 0 || cycle) {
+        return {
+            iterations: 0,
+            seed,
+            deterministicFinish: null,
+            projectFinish: null,
+            distribution: [],
+            milestones: [],
+            criticality: [],
+            drivers: [],
+            ...(cycle ? { cycle } : {})
+        };
+    }
+
+    const dayIndex = createTaskDayIndex(tasks, calendar, exceptions);
+    const toDayNumber = (date: string | undefined): number => dayIndex.toIndex(date || new Date());
+    const toDateString = (day: number) => format(dayIndex.fromIndex(day), 'yyyy-MM-dd');
+
+    const sortedTasks = topologicalSort(tasks);
+    const taskIds = new Set(tasks.map(t => t.id));
+    const links = new Map<string, TaskDependencyLink[]>(
+        sortedTasks.map(t => [t.id, getTaskDependencies(t).filter(l => taskIds.has(l.taskId))])
+    );
+    const successors = new Map<string, { id: string; link: TaskDependencyLink }[]>();
+    for (const task of sortedTasks) {
+        for (const link of links.get(task.id)!) {
+            if (!successors.has(link.taskId)) successors.set(link.taskId, []);
+            successors.get(link.taskId)!.push({ id: task.id, link });
+        }
+    }
+
+    const constraints = sortedTasks.map(t => toDayNumber(t.startDate));
+    const estimates = sortedTasks.map(task => {
+        const planned = measureTaskDuration(task, dayIndex);
+        const fixed = task.type === 'milestone' || task.status === 'completed' || task.progress >= 100;
+        const estimate = getThreePointEstimate(task, planned);
+        return fixed ? { optimistic: planned, mostLikely: planned, pessimistic: planned } : estimate;
+    });
+
+    const activeRisks = risks.filter(r =>
+        r.status !== 'resolved' && (r.scheduleImpactDays || 0) > 0 &&
+        (r.relatedTaskIds || []).some(id => taskIds.has(id)));
+    const riskLikelihood = activeRisks.map(r => getRiskOccurrenceProbability(r.probability));
+
+    const es: Record<string, number> = {};
+    const ef: Record<string, number> = {};
+    const ls: Record<string, number> = {};
+    const lf: Record<string, number> = {};
+
+    // 单次前向 / 反向计算，返回项目完成日序号
+    const runPass = (durations: number[], markCritical?: (taskIndex: number) => void): number => {
+        sortedTasks.forEach((task, i) => {
+            let start = constraints[i];
+            for (const link of links.get(task.id)!) {
+                start = Math.max(start, getRequiredStart(link, es[link.taskId], ef[link.taskId], durations[i]));
+            }
+            es[task.id] = start;
+            ef[task.id] = start + durations[i];
+        });
+
+        const projectEnd = sortedTasks.reduce((max, t) => Math.max(max, ef[t.id]), -Infinity);
+        if (!markCritical) return projectEnd;
+
+        for (let i = sortedTasks.length - 1; i >= 0; i--) {
+            const task = sortedTasks[i];
+            let finish = projectEnd;
+            for (const { id, link } of successors.get(task.id) || []) {
+                finish = Math.min(finish, getAllowedFinish(link, ls[id], lf[id], durations[i]));
+            }
+            lf[task.id] = finish;
+            ls[task.id] = finish - durations[i];
+            if (ls[task.id] - es[task.id] <= 0) markCritical(i);
+        }
+        return projectEnd;
+    };
+
+    const milestoneIndexes = sortedTasks
+        .map((task, i) => task.type === 'milestone' ? i : -1)
+        .filter(i => i >= 0);
+
+    const deterministicFinish = toDateString(runPass(estimates.map(e => Math.round(e.mostLikely))));
+
+    const random = createSeededRandom(seed);
+    const runs = Math.max(1, Math.floor(iterations));
+    const finishes: number[] = [];
+    const sampledDurations: number[][] = sortedTasks.map(() => []);
+    const riskOccurred: number[][] = activeRisks.map(() => []);
+    const milestoneFinishes: number[][] = milestoneIndexes.map(() => []);
+    const criticalCounts = sortedTasks.map(() => 0);
+
+    for (let run = 0; run < runs; run++) {
+        const durations = estimates.map(e => Math.round(sampleTriangular(e.optimistic, e.mostLikely, e.pessimistic, random())));
+
+        activeRisks.forEach((risk, r) => {
+            const occurred = random() < riskLikelihood[r];
+            riskOccurred[r].push(occurred ? 1 : 0);
+            if (!occurred) return;
+            sortedTasks.forEach((task, i) => {
+                if (risk.relatedTaskIds!.includes(task.id)) durations[i] += risk.scheduleImpactDays!;
+            });
+        });
+
+        finishes.push(runPass(durations, i => { criticalCounts[i]++; }));
+        durations.forEach((d, i) => sampledDurations[i].push(d));
+        milestoneIndexes.forEach((taskIndex, m) => milestoneFinishes[m].push(ef[sortedTasks[taskIndex].id]));
+    }
+
+    const sortedFinishes = [...finishes].sort((a, b) => a - b);
+    const toPercentiles = (sorted: number[]): FinishPercentiles => ({
+        p50: toDateString(percentile(sorted, 0.5)),
+        p80: toDateString(percentile(sorted, 0.8)),
+        p95: toDateString(percentile(sorted, 0.95))
+    });
+
+    const counts = new Map<number, number>();
+    sortedFinishes.forEach(day => counts.set(day, (counts.get(day) || 0) + 1));
+    let cumulative = 0;
+    const distribution = Array.from(counts.entries()).map(([day, count]) => {
+        cumulative += count;
+        return { date: toDateString(day), count, cumulative: cumulative / runs };
+    });
+
+    const milestones = milestoneIndexes.map((taskIndex, m) => {
+        const task = sortedTasks[taskIndex];
+        const plannedDate = task.endDate || task.startDate;
+        const deadline = toDayNumber(plannedDate);
+        return {
+            taskId: task.id,
+            name: task.name,
+            plannedDate,
+            ...toPercentiles([...milestoneFinishes[m]].sort((a, b) => a - b)),
+            onTimeProbability: milestoneFinishes[m].filter(day => day <= deadline).length / runs
+        };
+    });
+
+    const criticality = sortedTasks
+        .map((task, i) => ({ taskId: task.id, name: task.name, criticalityIndex: criticalCounts[i] / runs }))
+        .filter(item => item.criticalityIndex > 0)
+        .sort((a, b) => b.criticalityIndex - a.criticalityIndex);
+
+    const drivers: ScheduleDriver[] = [
+        ...sortedTasks.map((task, i) => ({
+            id: task.id,
+            name: task.name,
+            kind: 'task' as const,
+            correlation: correlation(sampledDurations[i], finishes)
+        })),
+        ...activeRisks.map((risk, r) => ({
+            id: risk.id,
+            name: risk.title,
+            kind: 'risk' as const,
+            correlation: correlation(riskOccurred[r], finishes)
+        }))
+    ]
+        .filter(d => Math.abs(d.correlation) >= 0.01)
+        .sort((a, b) => Math.abs(b.correlation) - Math.abs(a.correlation));
+
+    const targetDay = targetDate ? toDayNumber(targetDate) : undefined;
+
+    return {
+        iterations: runs,
+        seed,
+        deterministicFinish,
+        projectFinish: toPercentiles(sortedFinishes),
+        onTimeProbability: targetDay === undefined ? undefined : finishes.filter(day => day <= targetDay).length / runs,
+        distribution,
+        milestones,
+        criticality,
+        drivers
+    };
+};
@@ -0,0 +1,168 @@
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import type { MachineResource, SoftwareBaseline, SoftwareRolloutSlot } from '../types';
+import { getWindowConflicts, matchesVersionPattern } from './bayMachineCompatibility';
+
+/**
+ * 测试设备软件版本合规：按平台的批准基线判断版本漂移，并把升级活动排进机器的空闲日期
+ */
+
+export type SoftwareComplianceStatus = 'compliant' | 'outdated' | 'unapproved' | 'missing' | 'no_baseline';
+
+export const SOFTWARE_COMPLIANCE_LABELS: Record<SoftwareComplianceStatus, string> = {
+    compliant: '符合基线',
+    outdated: '版本落后',
+    unapproved: '未批准版本',
+    missing: '未部署',
+    no_baseline: '无基线'
+};
+
+export interface SoftwareComplianceItem {
+    machineId: string;
+    machineName: string;
+    model: string;
+    platform: string;
+    version?: string;
+    targetVersion?: string;
+    status: SoftwareComplianceStatus;
+}
+
+export interface SoftwareDriftReport {
+    items: SoftwareComplianceItem[];
+    counts: Record<SoftwareComplianceStatus, number>;
+    complianceRate: number; // 有基线的机器中符合基线的比例，0-1
+}
+
+export interface RolloutScheduleRequest {
+    machines: MachineResource[];
+    startDate: string;
+    endDate: string;
+    maxPerDay: number;
+}
+
+const DEFAULT_PLATFORM = 'General';
+
+/**
+ * 按数字段比较版本号（V2.10.0 > V2.9.3），非数字部分忽略
+ */
+export const compareVersions = (a: string, b: string): number => {
+    const parse = (version: string) => (version.match(/\d+/g) || []).map(Number);
+    const left = parse(a);
+    const right = parse(b);
+    for (let i = 0; i < Math.max(left.length, right.length); i++) {
+        const diff = (left[i] || 0) - (right[i] || 0);
+        if (diff !== 0) return diff;
+    }
+    return 0;
+};
+
+/**
+ * 版本是否满足要求（未声明要求时视为满足）
+ */
+export const matchesRequiredVersion = (version: string | undefined, required?: string) =>
+    !required || (!!version && matchesVersionPattern(required, version));
+
+export const getBaselineForPlatform = (baselines: SoftwareBaseline[], platform?: string) =>
+    baselines.find(b => b.platform === (platform || DEFAULT_PLATFORM));
+
+/**
+ * 判断单台机器相对平台基线的合规状态
+ */
+export const assessSoftwareCompliance = (
+    machine: MachineResource,
+    baselines: SoftwareBaseline[]
+): SoftwareComplianceItem => {
+    const baseline = getBaselineForPlatform(baselines, machine.platform);
+    const version = machine.softwareVersion;
+    let status: SoftwareComplianceStatus;
+
+    if (!baseline) {
+        status = 'no_baseline';
+    } else if (!version) {
+        status = 'missing';
+    } else if (version === baseline.targetVersion) {
+        status = 'compliant';
+    } else if (baseline.approvedVersions.some(p => matchesVersionPattern(p, version))) {
+        status = compareVersions(version, baseline.targetVersion) < 0 ? 'outdated' : 'compliant';
+    } else {
+        status = 'unapproved';
+    }
+
+    return {
+        machineId: machine.id,
+        machineName: machine.name,
+        model: machine.model,
+        platform: machine.platform || DEFAULT_PLATFORM,
+        version,
+        targetVersion: baseline?.targetVersion,
+        status
+    };
+};
+
+/**
+ * 版本漂移报告：未批准、落后与未部署的机器排在前面
+ */
+export const buildSoftwareDriftReport = (
+    machines: MachineResource[],
+    baselines: SoftwareBaseline[]
+): SoftwareDriftReport => {
+    const order: SoftwareComplianceStatus[] = ['unapproved', 'outdated', 'missing', 'no_baseline', 'compliant'];
+    const items = machines
+        .map(m => assessSoftwareCompliance(m, baselines))
+        .sort((a, b) => order.indexOf(a.status) - order.indexOf(b.status) || a.machineName.localeCompare(b.machineName));
+
+    const counts = order.reduce((acc, status) => ({ ...acc, [status]: 0 }), {} as Record<SoftwareComplianceStatus, number>);
+    items.forEach(item => { counts[item.status]++; });
+
+    const governed = items.length - counts.no_baseline;
+    return {
+        items,
+        counts,
+        complianceRate: governed > 0 ? counts.compliant / governed : 1
+    };
+};
+
+/**
+ * 需要升级到目标版本的机器（未批准、落后或未部署）
+ */
+export const getMachinesNeedingRollout = (
+    machines: MachineResource[],
+    baselines: SoftwareBaseline[],
+    platform: string
+) => machines.filter(m => {
+    if ((m.platform || DEFAULT_PLATFORM) !== platform) return false;
+    const status = assessSoftwareCompliance(m, baselines).status;
+    return status === 'unapproved' || status === 'outdated' || status === 'missing';
+});
+
+/**
+ * 把每台机器的升级排进窗口内第一个空闲日（无预约、无已批准维保），每天不超过 maxPerDay 台
+ */
+export const scheduleRolloutSlots = (request: RolloutScheduleRequest): SoftwareRolloutSlot[] => {
+    const start = parseISO(request.startDate);
+    const days = differenceInCalendarDays(parseISO(request.endDate), start) + 1;
+    const perDay = new Map<string, number>();
+    const maxPerDay = Math.max(1, request.maxPerDay);
+
+    return request.machines.map(machine => {
+        for (let offset = 0; offset < days; offset++) {
+            const day = format(addDays(start, offset), 'yyyy-MM-dd');
+            if ((perDay.get(day) || 0) >= maxPerDay) continue;
+            if (getWindowConflicts(machine, day, day).length > 0) continue;
+
+            perDay.set(day, (perDay.get(day) || 0) + 1);
+            return {
+                machineId: machine.id,
+                machineName: machine.name,
+                fromVersion: machine.softwareVersion,
+                plannedDate: day,
+                status: 'scheduled' as const
+            };
+        }
+        return {
+            machineId: machine.id,
+            machineName: machine.name,
+            fromVersion: machine.softwareVersion,
+            status: 'unschedulable' as const
+        };
+    });
+};
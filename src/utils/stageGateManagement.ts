@@ -1,4 +1,4 @@
-import type { ProjectStage, StageGate, GateStatus } from '../types';
+import type { ProjectStage, StageGate, GateStatus, Project, ProjectTypeDefinition } from '../types';
 
 /**
  * Default stage-gate templates for different project types
@@ -152,9 +152,83 @@ export const DEFAULT_STAGE_GATES: Record<string, StageGate[]> = {
             ],
             status: 'pending'
         }
+    ],
+    registration: [
+        {
+            id: 'reg-gate-1',
+            stage: 'initiation',
+            name: 'Gate 1: 变更评估',
+            description: '评估变更对已注册产品的影响并确定注册路径',
+            requirements: [
+                { id: 'reg-1-1', description: '变更内容与影响评估已完成', required: true, completed: false },
+                { id: 'reg-1-2', description: '注册路径已确认（许可事项变更 / 登记事项变更 / 备案）', required: true, completed: false },
+                { id: 'reg-1-3', description: '目标市场法规要求已识别', required: false, completed: false }
+            ],
+            status: 'pending'
+        },
+        {
+            id: 'reg-gate-2',
+            stage: 'planning',
+            name: 'Gate 2: 注册策略审批',
+            description: '注册策略、检测计划与资料清单',
+            requirements: [
+                { id: 'reg-2-1', description: '注册策略已制定', required: true, completed: false },
+                { id: 'reg-2-2', description: '型式检验 / 验证计划已完成', required: true, completed: false },
+                { id: 'reg-2-3', description: '注册资料清单与责任人已明确', required: true, completed: false },
+                { id: 'reg-2-4', description: '检测机构已确定', required: false, completed: false }
+            ],
+            status: 'pending'
+        },
+        {
+            id: 'reg-gate-3',
+            stage: 'execution',
+            name: 'Gate 3: 验证与检测',
+            description: '完成变更验证与注册检验',
+            requirements: [
+                { id: 'reg-3-1', description: '设计变更验证已完成', required: true, completed: false },
+                { id: 'reg-3-2', description: '注册检验报告已取得', required: true, completed: false },
+                { id: 'reg-3-3', description: '临床评价资料已更新', required: true, completed: false }
+            ],
+            status: 'pending'
+        },
+        {
+            id: 'reg-gate-4',
+            stage: 'monitoring',
+            name: 'Gate 4: 申报与审评',
+            description: '提交注册申报并跟踪技术审评',
+            requirements: [
+                { id: 'reg-4-1', description: '注册申报资料已提交', required: true, completed: false },
+                { id: 'reg-4-2', description: '补正资料已按期答复', required: false, completed: false }
+            ],
+            status: 'pending'
+        },
+        {
+            id: 'reg-gate-5',
+            stage: 'closing',
+            name: 'Gate 5: 取证与实施',
+            description: '取得变更注册证并落地实施',
+            requirements: [
+                { id: 'reg-5-1', description: '变更注册证 / 备案凭证已取得', required: true, completed: false },
+                { id: 'reg-5-2', description: '生产与标签变更已实施', required: true, completed: false },
+                { id: 'reg-5-3', description: '注册档案已归档', required: false, completed: false }
+            ],
+            status: 'pending'
+        }
     ]
 };
 
+export const STAGE_GATE_TEMPLATE_LABELS: Record<string, string> = {
+    standard: '标准研发流程',
+    registration: '注册变更流程'
+};
+
+export const STAGE_ORDER: ProjectStage[] = ['initiation', 'planning', 'execution', 'monitoring', 'closing'];
+
+// 项目状态进入前必须可进入的阶段：计划门径批准前不能转为执行中
+export const STATUS_ENTRY_STAGE: Partial<Record<Project['status'], ProjectStage>> = {
+    active: 'execution'
+};
+
 /**
  * Get stage name in Chinese
  */
@@ -173,10 +247,9 @@ export function getStageName(stage: ProjectStage): string {
  * Get next stage
  */
 export function getNextStage(currentStage: ProjectStage): ProjectStage | null {
-    const stages: ProjectStage[] = ['initiation', 'planning', 'execution', 'monitoring', 'closing'];
-    const currentIndex = stages.indexOf(currentStage);
-    if (currentIndex < stages.length - 1) {
-        return stages[currentIndex + 1];
+    const currentIndex = STAGE_ORDER.indexOf(currentStage);
+    if (currentIndex < STAGE_ORDER.length - 1) {
+        return STAGE_ORDER[currentIndex + 1];
     }
     return null;
 }
@@ -303,3 +376,81 @@ export function updateRequirement(
         )
     };
 }
+
+/**
+ * Fresh copy of a gate template: checklist unticked, no approval recorded
+ */
+export function instantiateGates(template: StageGate[]): StageGate[] {
+    return template.map(gate => ({
+        id: gate.id,
+        stage: gate.stage,
+        name: gate.name,
+        description: gate.description,
+        requirements: gate.requirements.map(req => ({
+            id: req.id,
+            description: req.description,
+            required: req.required,
+            completed: false
+        })),
+        status: 'pending'
+    }));
+}
+
+/**
+ * Gate template configured for a project type (standard template when none)
+ */
+export function getGateTemplate(projectTypes: ProjectTypeDefinition[], projectTypeId?: string): StageGate[] {
+    const type = projectTypeId ? projectTypes.find(t => t.id === projectTypeId) : undefined;
+    return type?.gateTemplate && type.gateTemplate.length > 0 ? type.gateTemplate : DEFAULT_STAGE_GATES.standard;
+}
+
+/**
+ * Gates of a project, instantiated from its type's template when not yet persisted
+ */
+export function getProjectGates(project: Project, projectTypes: ProjectTypeDefinition[]): StageGate[] {
+    return project.gates || instantiateGates(getGateTemplate(projectTypes, project.projectType));
+}
+
+/**
+ * Approved or conditionally approved
+ */
+export function isGatePassed(gate: StageGate): boolean {
+    return gate.status === 'approved' || gate.status === 'conditional';
+}
+
+/**
+ * First gate of an earlier stage that has not been passed, blocking entry to `stage`
+ */
+export function getStageEntryBlocker(gates: StageGate[], stage: ProjectStage): StageGate | undefined {
+    const stageIndex = STAGE_ORDER.indexOf(stage);
+    return gates
+        .filter(g => STAGE_ORDER.indexOf(g.stage) < stageIndex)
+        .sort((a, b) => STAGE_ORDER.indexOf(a.stage) - STAGE_ORDER.indexOf(b.stage))
+        .find(g => !isGatePassed(g));
+}
+
+/**
+ * Check a status or stage change against the gates; returns the reason when it is not allowed
+ */
+export function validateStageTransition(
+    project: Project,
+    updates: Pick<Partial<Project>, 'status' | 'currentStage'>,
+    projectTypes: ProjectTypeDefinition[]
+): string | null {
+    const gates = updates.status !== undefined || updates.currentStage !== undefined
+        ? getProjectGates(project, projectTypes)
+        : [];
+
+    const currentStage = project.currentStage || 'initiation';
+    if (updates.currentStage && STAGE_ORDER.indexOf(updates.currentStage) > STAGE_ORDER.indexOf(currentStage)) {
+        const blocker = getStageEntryBlocker(gates, updates.currentStage);
+        if (blocker) return `进入${getStageName(updates.currentStage)}阶段前需先通过「${blocker.name}」`;
+    }
+
+    const entryStage = updates.status && updates.status !== project.status ? STATUS_ENTRY_STAGE[updates.status] : undefined;
+    if (entryStage) {
+        const blocker = getStageEntryBlocker(gates, entryStage);
+        if (blocker) return `项目转为执行前需先通过「${blocker.name}」`;
+    }
+    return null;
+}
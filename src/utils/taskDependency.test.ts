@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { format } from 'date-fns';
+import type { Task, TaskDependencyLink } from '../types';
+import { adjustTaskDates, calculateCriticalPath, findDependencyCycle, topologicalSort } from './taskDependency';
+
+const task = (id: string, startDate: string, endDate: string, dependencies: TaskDependencyLink[] = []): Task => ({
+    id,
+    name: id,
+    type: 'task',
+    startDate,
+    endDate,
+    progress: 0,
+    dependencies
+});
+
+const day = (date: Date) => format(date, 'yyyy-MM-dd');
+
+describe('calculateCriticalPath', () => {
+    // A(3) -> B(2) -> C(4)，D(2) 与 A 并行且无后续
+    const tasks = [
+        task('A', '2026-03-02', '2026-03-05'),
+        task('B', '2026-03-02', '2026-03-04', [{ taskId: 'A', type: 'FS' }]),
+        task('C', '2026-03-02', '2026-03-06', [{ taskId: 'B', type: 'FS' }]),
+        task('D', '2026-03-02', '2026-03-04')
+    ];
+
+    it('computes early / late dates and slack on calendar days', () => {
+        const cpm = calculateCriticalPath(tasks);
+
+        expect(cpm.criticalPath).toEqual(['A', 'B', 'C']);
+        expect(day(cpm.earliestStart.B)).toBe('2026-03-05');
+        expect(day(cpm.earliestStart.C)).toBe('2026-03-07');
+        expect(day(cpm.projectFinish!)).toBe('2026-03-11');
+        expect(cpm.slack.D).toBe(7);
+        expect(cpm.freeSlack.D).toBe(7);
+        expect(day(cpm.latestStart.D)).toBe('2026-03-09');
+    });
+
+    it('applies lag and SS / FF links', () => {
+        const cpm = calculateCriticalPath([
+            task('A', '2026-03-02', '2026-03-05'),
+            task('B', '2026-03-02', '2026-03-04', [{ taskId: 'A', type: 'FS', lag: 2 }]),
+            task('C', '2026-03-02', '2026-03-03', [{ taskId: 'A', type: 'SS', lag: 1 }]),
+            task('E', '2026-03-02', '2026-03-03', [{ taskId: 'B', type: 'FF' }])
+        ]);
+
+        expect(day(cpm.earliestStart.B)).toBe('2026-03-07');
+        expect(day(cpm.earliestStart.C)).toBe('2026-03-03');
+        expect(day(cpm.earliestFinish.E)).toBe(day(cpm.earliestFinish.B));
+    });
+
+    it('reports a dependency cycle instead of computing', () => {
+        const cyclic = [
+            task('A', '2026-03-02', '2026-03-05', [{ taskId: 'C', type: 'FS' }]),
+            task('B', '2026-03-02', '2026-03-04', [{ taskId: 'A', type: 'FS' }]),
+            task('C', '2026-03-02', '2026-03-06', [{ taskId: 'B', type: 'FS' }]),
+            task('D', '2026-03-02', '2026-03-04')
+        ];
+        const cpm = calculateCriticalPath(cyclic);
+
+        expect(cpm.cycle).toBeDefined();
+        expect([...cpm.cycle!].sort()).toEqual(['A', 'B', 'C']);
+        expect(cpm.criticalPath).toEqual([]);
+        expect(cpm.projectFinish).toBeNull();
+        expect(findDependencyCycle(cyclic)).toEqual(cpm.cycle);
+        expect(topologicalSort(cyclic)).toBe(cyclic);
+        expect(adjustTaskDates(cyclic)).toEqual(cyclic);
+    });
+
+    it('finds no cycle in an acyclic network', () => {
+        const order = topologicalSort(tasks).map(t => t.id);
+        expect(findDependencyCycle(tasks)).toBeNull();
+        expect(order.indexOf('A')).toBeLessThan(order.indexOf('B'));
+        expect(order.indexOf('B')).toBeLessThan(order.indexOf('C'));
+    });
+});
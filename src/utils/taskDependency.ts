@@ -1,6 +1,8 @@
-import type { Task } from '../types';
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import type { Task, TaskDependencyLink, DependencyType, WorkingCalendar, CalendarException } from '../types';
+import { createWorkingDayIndex, type WorkingDayIndex } from './workingCalendar';
 
-export type DependencyType = 'FS' | 'SS' | 'FF' | 'SF';
+export type { DependencyType } from '../types';
 
 export interface TaskDependency {
     fromTaskId: string;
@@ -9,6 +11,52 @@ export interface TaskDependency {
     lag?: number; // 延迟天数，可为负数
 }
 
+/**
+ * 读取任务的前置依赖，兼容旧版本存储的纯 ID 数组（视为 FS 无延迟）
+ */
+export const getTaskDependencies = (task: Task): TaskDependencyLink[] => {
+    const raw = (task.dependencies || []) as (TaskDependencyLink | string)[];
+    return raw.map(dep =>
+        typeof dep === 'string'
+            ? { taskId: dep, type: 'FS' as const, lag: 0 }
+            : { ...dep, type: dep.type || 'FS', lag: dep.lag || 0 }
+    );
+};
+
+/**
+ * 获取任务直接前置任务的 ID 列表
+ */
+export const getPredecessorIds = (task: Task): string[] => {
+    return getTaskDependencies(task).map(dep => dep.taskId);
+};
+
+/**
+ * 将所有任务的依赖转换为 TaskDependency 边列表
+ */
+export const getDependencyEdges = (tasks: Task[]): TaskDependency[] => {
+    return tasks.flatMap(task =>
+        getTaskDependencies(task).map(dep => ({
+            fromTaskId: dep.taskId,
+            toTaskId: task.id,
+            type: dep.type,
+            lag: dep.lag
+        }))
+    );
+};
+
+/**
+ * 依赖类型的中文名称
+ */
+export const getDependencyTypeLabel = (type: DependencyType): string => {
+    const labels: Record<DependencyType, string> = {
+        FS: '完成-开始',
+        SS: '开始-开始',
+        FF: '完成-完成',
+        SF: '开始-完成'
+    };
+    return labels[type];
+};
+
 /**
  * 检测任务依赖中的循环引用
  */
@@ -17,181 +65,325 @@ export const detectCircularDependency = (
     fromTaskId: string,
     toTaskId: string
 ): boolean => {
-    const visited = new Set<string>();
-    const recursionStack = new Set<string>();
+    if (fromTaskId === toTaskId) return true;
+    if (!tasks.some(t => t.id === toTaskId)) return false;
 
-    const hasCycle = (taskId: string): boolean => {
-        if (recursionStack.has(taskId)) return true;
-        if (visited.has(taskId)) return false;
+    // 新依赖 from -> to 形成环，当且仅当 from 已经（间接）依赖 to
+    const visited = new Set<string>();
+    const stack = [fromTaskId];
 
+    while (stack.length > 0) {
+        const taskId = stack.pop()!;
+        if (taskId === toTaskId) return true;
+        if (visited.has(taskId)) continue;
         visited.add(taskId);
-        recursionStack.add(taskId);
 
         const task = tasks.find(t => t.id === taskId);
-        if (task?.dependencies) {
-            for (const depId of task.dependencies) {
-                if (hasCycle(depId)) return true;
-            }
-        }
-
-        recursionStack.delete(taskId);
-        return false;
-    };
-
-    // 临时添加新依赖来检测
-    const tempTask = tasks.find(t => t.id === toTaskId);
-    if (!tempTask) return false;
-
-    const originalDeps = tempTask.dependencies || [];
-    tempTask.dependencies = [...originalDeps, fromTaskId];
-
-    const result = hasCycle(toTaskId);
-
-    // 恢复原始依赖
-    tempTask.dependencies = originalDeps;
+        if (task) stack.push(...getPredecessorIds(task));
+    }
 
-    return result;
+    return false;
 };
 
 /**
- * 计算任务的拓扑排序（用于确定任务执行顺序）
+ * 按依赖关系做深度优先排序：前置任务先于后续任务；存在循环依赖时返回构成环的任务 ID
  */
-export const topologicalSort = (tasks: Task[]): Task[] => {
+const sortByDependencies = (tasks: Task[]): { sorted: Task[]; cycle: string[] | null } => {
     const sorted: Task[] = [];
     const visited = new Set<string>();
-    const temp = new Set<string>();
+    const path: string[] = [];
+    const taskMap = new Map(tasks.map(t => [t.id, t]));
 
-    const visit = (taskId: string): boolean => {
-        if (temp.has(taskId)) return false; // 检测到循环
-        if (visited.has(taskId)) return true;
+    const visit = (taskId: string): string[] | null => {
+        const onPath = path.indexOf(taskId);
+        if (onPath >= 0) return path.slice(onPath); // 检测到循环
+        if (visited.has(taskId)) return null;
 
-        temp.add(taskId);
+        path.push(taskId);
 
-        const task = tasks.find(t => t.id === taskId);
-        if (task?.dependencies) {
-            for (const depId of task.dependencies) {
-                if (!visit(depId)) return false;
+        const task = taskMap.get(taskId);
+        if (task) {
+            for (const depId of getPredecessorIds(task)) {
+                const cycle = visit(depId);
+                if (cycle) return cycle;
             }
         }
 
-        temp.delete(taskId);
+        path.pop();
         visited.add(taskId);
         if (task) sorted.push(task);
 
-        return true;
+        return null;
     };
 
     for (const task of tasks) {
         if (!visited.has(task.id)) {
-            if (!visit(task.id)) {
-                console.error('Circular dependency detected');
-                return tasks; // 返回原始顺序
-            }
+            const cycle = visit(task.id);
+            if (cycle) return { sorted, cycle };
         }
     }
 
-    return sorted.reverse();
+    // 前置任务先被访问，sorted 已是执行顺序
+    return { sorted, cycle: null };
+};
+
+/**
+ * 查找任务依赖中已存在的循环，返回构成环的任务 ID（按依赖方向），无循环时返回 null
+ */
+export const findDependencyCycle = (tasks: Task[]): string[] | null => sortByDependencies(tasks).cycle;
+
+/**
+ * 计算任务的拓扑排序（用于确定任务执行顺序）
+ *
+ * 存在循环依赖时无法排序，返回原始顺序；需要区分时先调用 findDependencyCycle。
+ */
+export const topologicalSort = (tasks: Task[]): Task[] => {
+    const { sorted, cycle } = sortByDependencies(tasks);
+    return cycle ? tasks : sorted;
+};
+
+const DAY_INDEX_EPOCH = new Date(2000, 0, 1);
+
+const CALENDAR_DAY_INDEX: WorkingDayIndex = {
+    toIndex: (date) => differenceInCalendarDays(typeof date === 'string' ? parseISO(date) : date, DAY_INDEX_EPOCH),
+    fromIndex: (index) => addDays(DAY_INDEX_EPOCH, index)
+};
+
+/**
+ * 构建任务日期的天数索引：未指定日历时按自然日，指定日历时按工作日
+ */
+export const createTaskDayIndex = (
+    tasks: Task[],
+    calendar?: WorkingCalendar,
+    exceptions: CalendarException[] = []
+): WorkingDayIndex => {
+    const dates = tasks.flatMap(t => [t.startDate, t.endDate]).filter(Boolean).sort();
+    if (!calendar || dates.length === 0) return CALENDAR_DAY_INDEX;
+    return createWorkingDayIndex(calendar, dates[0], dates[dates.length - 1], exceptions);
+};
+
+/**
+ * 按给定天数索引计算任务工期，里程碑为 0，普通任务至少 1 天
+ */
+export const measureTaskDuration = (task: Task, index: WorkingDayIndex): number => {
+    if (!task.startDate || !task.endDate) return task.type === 'milestone' ? 0 : 1;
+    const days = index.toIndex(task.endDate) - index.toIndex(task.startDate);
+    return task.type === 'milestone' ? Math.max(0, days) : Math.max(1, days);
+};
+
+/**
+ * 任务工期（天），里程碑为 0，普通任务至少 1 天。指定日历时按工作日计算
+ */
+export const getTaskDurationDays = (
+    task: Task,
+    calendar?: WorkingCalendar,
+    exceptions: CalendarException[] = []
+): number => {
+    return measureTaskDuration(task, createTaskDayIndex([task], calendar, exceptions));
+};
+
+/**
+ * 前向计算：依赖约束下后续任务的最早开始（d 为后续任务工期）
+ */
+export const getRequiredStart = (
+    link: TaskDependencyLink,
+    predecessorStart: number,
+    predecessorFinish: number,
+    d: number
+): number => {
+    const lag = link.lag || 0;
+    switch (link.type) {
+        case 'SS':
+            return predecessorStart + lag;
+        case 'FF':
+            return predecessorFinish + lag - d;
+        case 'SF':
+            return predecessorStart + lag - d;
+        case 'FS':
+        default:
+            return predecessorFinish + lag;
+    }
+};
+
+/**
+ * 反向计算：依赖约束下前置任务的最晚完成（d 为前置任务工期）
+ */
+export const getAllowedFinish = (
+    link: TaskDependencyLink,
+    successorStart: number,
+    successorFinish: number,
+    d: number
+): number => {
+    const lag = link.lag || 0;
+    switch (link.type) {
+        case 'SS':
+            return successorStart - lag + d;
+        case 'FF':
+            return successorFinish - lag;
+        case 'SF':
+            return successorFinish - lag + d;
+        case 'FS':
+        default:
+            return successorStart - lag;
+    }
 };
 
 /**
  * 计算关键路径（CPM - Critical Path Method）
+ *
+ * 支持 FS/SS/FF/SF 四种依赖类型及正负延迟。任务计划开始日期作为
+ * "不早于"约束参与前向计算；总浮动时间 <= 0 的任务位于关键路径上。
+ * 传入工作日历时，工期、延迟与浮动时间均以工作日计。
+ *
+ * 存在循环依赖时无法计算，返回空结果并在 cycle 中给出构成环的任务 ID。
  */
-export const calculateCriticalPath = (tasks: Task[]): {
+export const calculateCriticalPath = (
+    tasks: Task[],
+    calendar?: WorkingCalendar,
+    exceptions: CalendarException[] = []
+): {
     criticalPath: string[];
     earliestStart: Record<string, Date>;
+    earliestFinish: Record<string, Date>;
     latestStart: Record<string, Date>;
+    latestFinish: Record<string, Date>;
     slack: Record<string, number>;
+    freeSlack: Record<string, number>;
+    projectFinish: Date | null;
+    cycle?: string[];
 } => {
-    const earliestStart: Record<string, Date> = {};
-    const earliestFinish: Record<string, Date> = {};
-    const latestStart: Record<string, Date> = {};
-    const latestFinish: Record<string, Date> = {};
-    const slack: Record<string, number> = {};
+    const es: Record<string, number> = {};
+    const ef: Record<string, number> = {};
+    const ls: Record<string, number> = {};
+    const lf: Record<string, number> = {};
+    const duration: Record<string, number> = {};
+
+    const dayIndex = createTaskDayIndex(tasks, calendar, exceptions);
+    const toDayNumber = (date: string | undefined): number => dayIndex.toIndex(date || new Date());
+    const fromDayNumber = dayIndex.fromIndex;
+
+    const { sorted: sortedTasks, cycle } = sortByDependencies(tasks);
+    if (cycle) {
+        return {
+            criticalPath: [],
+            earliestStart: {},
+            earliestFinish: {},
+            latestStart: {},
+            latestFinish: {},
+            slack: {},
+            freeSlack: {},
+            projectFinish: null,
+            cycle
+        };
+    }
 
-    // 前向计算（最早开始时间）
-    const sortedTasks = topologicalSort(tasks);
+    const taskIds = new Set(tasks.map(t => t.id));
+    const successors = new Map<string, { task: Task; link: TaskDependencyLink }[]>();
 
     for (const task of sortedTasks) {
-        const taskStart = task.startDate ? new Date(task.startDate) : new Date();
-        const taskEnd = task.endDate ? new Date(task.endDate) : new Date();
-        const duration = Math.max(1, Math.ceil((taskEnd.getTime() - taskStart.getTime()) / (1000 * 60 * 60 * 24)));
-
-        if (!task.dependencies || task.dependencies.length === 0) {
-            earliestStart[task.id] = taskStart;
-        } else {
-            let maxFinish = taskStart;
-            for (const depId of task.dependencies) {
-                const depFinish = earliestFinish[depId];
-                if (depFinish && depFinish > maxFinish) {
-                    maxFinish = depFinish;
-                }
-            }
-            earliestStart[task.id] = maxFinish;
+        duration[task.id] = measureTaskDuration(task, dayIndex);
+        for (const link of getTaskDependencies(task)) {
+            if (!taskIds.has(link.taskId)) continue;
+            if (!successors.has(link.taskId)) successors.set(link.taskId, []);
+            successors.get(link.taskId)!.push({ task, link });
         }
+    }
+
+    // 前向计算（最早开始 / 最早完成）
+    for (const task of sortedTasks) {
+        const d = duration[task.id];
+        let start = toDayNumber(task.startDate);
 
-        earliestFinish[task.id] = new Date(earliestStart[task.id].getTime() + duration * 24 * 60 * 60 * 1000);
+        for (const link of getTaskDependencies(task)) {
+            if (es[link.taskId] === undefined) continue;
+            start = Math.max(start, getRequiredStart(link, es[link.taskId], ef[link.taskId], d));
+        }
+
+        es[task.id] = start;
+        ef[task.id] = start + d;
     }
 
-    // 反向计算（最晚开始时间）
-    const projectEnd = new Date(Math.max(...Object.values(earliestFinish).map(d => d.getTime())));
+    const finishes = Object.values(ef);
+    const projectEnd = finishes.length > 0 ? Math.max(...finishes) : 0;
 
+    // 反向计算（最晚开始 / 最晚完成）
     for (let i = sortedTasks.length - 1; i >= 0; i--) {
         const task = sortedTasks[i];
-        const taskStart = task.startDate ? new Date(task.startDate) : new Date();
-        const taskEnd = task.endDate ? new Date(task.endDate) : new Date();
-        const duration = Math.max(1, Math.ceil((taskEnd.getTime() - taskStart.getTime()) / (1000 * 60 * 60 * 24)));
-
-        // 找到所有依赖此任务的任务
-        const dependents = sortedTasks.filter(t => t.dependencies?.includes(task.id));
-
-        if (dependents.length === 0) {
-            latestFinish[task.id] = projectEnd;
-        } else {
-            let minStart = projectEnd;
-            for (const dep of dependents) {
-                const depStart = latestStart[dep.id];
-                if (depStart && depStart < minStart) {
-                    minStart = depStart;
-                }
-            }
-            latestFinish[task.id] = minStart;
+        const d = duration[task.id];
+        let finish = projectEnd;
+
+        for (const { task: succ, link } of successors.get(task.id) || []) {
+            finish = Math.min(finish, getAllowedFinish(link, ls[succ.id], lf[succ.id], d));
         }
 
-        latestStart[task.id] = new Date(latestFinish[task.id].getTime() - duration * 24 * 60 * 60 * 1000);
-        slack[task.id] = Math.ceil((latestStart[task.id].getTime() - earliestStart[task.id].getTime()) / (1000 * 60 * 60 * 24));
+        lf[task.id] = finish;
+        ls[task.id] = finish - d;
     }
 
-    // 找出关键路径（slack = 0 的任务）
+    const earliestStart: Record<string, Date> = {};
+    const earliestFinish: Record<string, Date> = {};
+    const latestStart: Record<string, Date> = {};
+    const latestFinish: Record<string, Date> = {};
+    const slack: Record<string, number> = {};
+    const freeSlack: Record<string, number> = {};
+
+    for (const task of sortedTasks) {
+        earliestStart[task.id] = fromDayNumber(es[task.id]);
+        earliestFinish[task.id] = fromDayNumber(ef[task.id]);
+        latestStart[task.id] = fromDayNumber(ls[task.id]);
+        latestFinish[task.id] = fromDayNumber(lf[task.id]);
+        slack[task.id] = ls[task.id] - es[task.id];
+
+        // 自由浮动：不影响任何后续任务最早开始的可推迟天数
+        let free = projectEnd - ef[task.id];
+        for (const { task: succ, link } of successors.get(task.id) || []) {
+            const required = getRequiredStart(link, es[task.id], ef[task.id], duration[succ.id]);
+            free = Math.min(free, es[succ.id] - required);
+        }
+        freeSlack[task.id] = Math.max(0, free);
+    }
+
+    // 找出关键路径（总浮动 <= 0 的任务）
     const criticalPath = sortedTasks
-        .filter(task => slack[task.id] === 0)
+        .filter(task => slack[task.id] <= 0)
         .map(task => task.id);
 
     return {
         criticalPath,
         earliestStart,
+        earliestFinish,
         latestStart,
-        slack
+        latestFinish,
+        slack,
+        freeSlack,
+        projectFinish: finishes.length > 0 ? fromDayNumber(projectEnd) : null
     };
 };
 
 /**
  * 根据依赖关系自动调整任务日期
+ *
+ * 只会将任务向后推迟以满足依赖约束，工期保持不变（指定日历时保持工作日工期）。
+ * 存在循环依赖时不做调整，原样返回。
  */
-export const adjustTaskDates = (tasks: Task[]): Task[] => {
-    const { earliestStart } = calculateCriticalPath(tasks);
+export const adjustTaskDates = (
+    tasks: Task[],
+    calendar?: WorkingCalendar,
+    exceptions: CalendarException[] = []
+): Task[] => {
+    const { earliestStart, earliestFinish } = calculateCriticalPath(tasks, calendar, exceptions);
 
     return tasks.map(task => {
         const newStart = earliestStart[task.id];
         if (!newStart || !task.startDate || !task.endDate) return task;
 
-        const originalStart = new Date(task.startDate);
-        const originalEnd = new Date(task.endDate);
-        const duration = originalEnd.getTime() - originalStart.getTime();
+        const newStartStr = format(newStart, 'yyyy-MM-dd');
+        if (newStartStr === task.startDate) return task;
 
         return {
             ...task,
-            startDate: newStart.toISOString().split('T')[0],
-            endDate: new Date(newStart.getTime() + duration).toISOString().split('T')[0]
+            startDate: newStartStr,
+            endDate: format(earliestFinish[task.id], 'yyyy-MM-dd')
         };
     });
 };
@@ -200,16 +392,20 @@ export const adjustTaskDates = (tasks: Task[]): Task[] => {
  * 获取任务的所有前置任务（递归）
  */
 export const getAllPredecessors = (taskId: string, tasks: Task[]): string[] => {
-    const task = tasks.find(t => t.id === taskId);
-    if (!task?.dependencies) return [];
-
-    const predecessors = new Set<string>(task.dependencies);
-
-    for (const depId of task.dependencies) {
-        const subPredecessors = getAllPredecessors(depId, tasks);
-        subPredecessors.forEach(id => predecessors.add(id));
-    }
+    const predecessors = new Set<string>();
+
+    const findPredecessors = (id: string) => {
+        const task = tasks.find(t => t.id === id);
+        if (!task) return;
+        for (const depId of getPredecessorIds(task)) {
+            if (!predecessors.has(depId)) {
+                predecessors.add(depId);
+                findPredecessors(depId);
+            }
+        }
+    };
 
+    findPredecessors(taskId);
     return Array.from(predecessors);
 };
 
@@ -220,7 +416,7 @@ export const getAllSuccessors = (taskId: string, tasks: Task[]): string[] => {
     const successors = new Set<string>();
 
     const findSuccessors = (id: string) => {
-        const dependents = tasks.filter(t => t.dependencies?.includes(id));
+        const dependents = tasks.filter(t => getPredecessorIds(t).includes(id));
         for (const dep of dependents) {
             if (!successors.has(dep.id)) {
                 successors.add(dep.id);
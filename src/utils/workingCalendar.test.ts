@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { format } from 'date-fns';
+import type { Task, WorkingCalendar } from '../types';
+import { COMPANY_CALENDAR_ID, addWorkingDays, countWorkingDays, createWorkingDayIndex, resolveCalendar, validateWorkingCalendar } from './workingCalendar';
+import { calculateCriticalPath, createTaskDayIndex, getTaskDurationDays } from './taskDependency';
+
+// 周一至周五，2026-03-04（周三）放假，2026-03-07（周六）补班
+const calendar: WorkingCalendar = {
+    id: 'cal-test',
+    name: '测试日历',
+    workingWeekdays: [1, 2, 3, 4, 5],
+    hoursPerDay: 8,
+    holidays: [{ date: '2026-03-04', name: '假日' }],
+    makeupWorkdays: [{ date: '2026-03-07', name: '补班' }]
+};
+
+const day = (date: Date) => format(date, 'yyyy-MM-dd');
+
+describe('createWorkingDayIndex', () => {
+    const index = createWorkingDayIndex(calendar, '2026-03-01', '2026-03-31');
+
+    it('numbers consecutive working days, skipping holidays and weekends', () => {
+        const monday = index.toIndex('2026-03-02');
+        expect(index.toIndex('2026-03-03')).toBe(monday + 1);
+        expect(index.toIndex('2026-03-05')).toBe(monday + 2);
+        expect(index.toIndex('2026-03-07')).toBe(monday + 4);
+        expect(index.toIndex('2026-03-09')).toBe(monday + 5);
+    });
+
+    it('maps non-working days to the next working day', () => {
+        expect(index.toIndex('2026-03-04')).toBe(index.toIndex('2026-03-05'));
+        expect(index.toIndex('2026-03-08')).toBe(index.toIndex('2026-03-09'));
+    });
+
+    it('round-trips indexes to dates, including beyond the built range', () => {
+        expect(day(index.fromIndex(index.toIndex('2026-03-05')))).toBe('2026-03-05');
+        const far = index.toIndex('2026-03-02') + 2000;
+        expect(day(index.fromIndex(far))).toBe(day(addWorkingDays('2026-03-02', 2000, calendar)));
+    });
+
+    it('agrees with countWorkingDays and addWorkingDays', () => {
+        expect(countWorkingDays('2026-03-02', '2026-03-08', calendar)).toBe(5);
+        expect(day(addWorkingDays('2026-03-03', 1, calendar))).toBe('2026-03-05');
+        expect(day(addWorkingDays('2026-03-09', -2, calendar))).toBe('2026-03-06');
+    });
+});
+
+describe('task day index', () => {
+    const tasks: Task[] = [
+        { id: 'A', name: 'A', type: 'task', startDate: '2026-03-02', endDate: '2026-03-09', progress: 0 },
+        { id: 'B', name: 'B', type: 'task', startDate: '2026-03-02', endDate: '2026-03-04', progress: 0, dependencies: [{ taskId: 'A', type: 'FS' }] }
+    ];
+
+    it('uses calendar days without a calendar and working days with one', () => {
+        expect(getTaskDurationDays(tasks[0])).toBe(7);
+        expect(getTaskDurationDays(tasks[0], calendar)).toBe(5);
+        const index = createTaskDayIndex(tasks, calendar);
+        expect(index.toIndex('2026-03-09') - index.toIndex('2026-03-02')).toBe(5);
+    });
+
+    it('schedules successors on working days', () => {
+        const cpm = calculateCriticalPath(tasks, calendar);
+        expect(day(cpm.earliestStart.B)).toBe('2026-03-09');
+        expect(day(cpm.earliestFinish.B)).toBe('2026-03-11');
+    });
+});
+
+describe('resolveCalendar', () => {
+    it('inherits holidays from the base calendar and falls back to the first calendar', () => {
+        const child: WorkingCalendar = { ...calendar, id: 'cal-child', baseCalendarId: 'cal-test', holidays: [], makeupWorkdays: [] };
+        const resolved = resolveCalendar([calendar, child], 'cal-child');
+        expect(resolved.holidays.map(h => h.date)).toEqual(['2026-03-04']);
+        expect(resolveCalendar([calendar, child], 'missing').id).toBe('cal-test');
+    });
+});
+
+describe('unusable calendars', () => {
+    const noWeekdays: WorkingCalendar = { ...calendar, workingWeekdays: [], makeupWorkdays: [] };
+    const noHours: WorkingCalendar = { ...calendar, id: COMPANY_CALENDAR_ID, hoursPerDay: 0 };
+
+    it('are rejected by validation', () => {
+        expect(validateWorkingCalendar(calendar)).toBeNull();
+        expect(validateWorkingCalendar(noWeekdays)).not.toBeNull();
+        expect(validateWorkingCalendar(noHours)).not.toBeNull();
+    });
+
+    it('resolve to the built-in company calendar', () => {
+        const resolved = resolveCalendar([noHours], COMPANY_CALENDAR_ID);
+        expect(resolved.hoursPerDay).toBe(8);
+        expect(resolved.workingWeekdays).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    it('schedule on the built-in calendar instead of throwing', () => {
+        const tasks: Task[] = [{ id: 'A', name: 'A', type: 'task', startDate: '2026-03-02', endDate: '2026-03-09', progress: 0 }];
+        expect(() => createWorkingDayIndex(noWeekdays, '2026-03-01', '2026-03-31')).not.toThrow();
+        expect(day(calculateCriticalPath(tasks, noHours).projectFinish!)).toBe('2026-03-09');
+    });
+});
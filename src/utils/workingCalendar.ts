@@ -0,0 +1,325 @@
+import { addDays, format, parseISO, isValid } from 'date-fns';
+import type { WorkingCalendar, CalendarException, CalendarDay } from '../types';
+
+const DATE_KEY = 'yyyy-MM-dd';
+
+// ==================== 内置日历 ====================
+
+/**
+ * 中国法定节假日（国务院办公厅发布，每年需维护）
+ */
+export const CHINA_PUBLIC_HOLIDAYS: CalendarDay[] = [
+    // 2025
+    { date: '2025-01-01', name: '元旦' },
+    ...['2025-01-28', '2025-01-29', '2025-01-30', '2025-01-31', '2025-02-01', '2025-02-02', '2025-02-03', '2025-02-04']
+        .map(date => ({ date, name: '春节' })),
+    ...['2025-04-04', '2025-04-05', '2025-04-06'].map(date => ({ date, name: '清明节' })),
+    ...['2025-05-01', '2025-05-02', '2025-05-03', '2025-05-04', '2025-05-05'].map(date => ({ date, name: '劳动节' })),
+    ...['2025-05-31', '2025-06-01', '2025-06-02'].map(date => ({ date, name: '端午节' })),
+    ...['2025-10-01', '2025-10-02', '2025-10-03', '2025-10-04', '2025-10-05', '2025-10-06', '2025-10-07', '2025-10-08']
+        .map(date => ({ date, name: '国庆节、中秋节' })),
+    // 2026
+    ...['2026-01-01', '2026-01-02', '2026-01-03'].map(date => ({ date, name: '元旦' })),
+    ...['2026-02-15', '2026-02-16', '2026-02-17', '2026-02-18', '2026-02-19', '2026-02-20', '2026-02-21', '2026-02-22', '2026-02-23']
+        .map(date => ({ date, name: '春节' })),
+    ...['2026-04-04', '2026-04-05', '2026-04-06'].map(date => ({ date, name: '清明节' })),
+    ...['2026-05-01', '2026-05-02', '2026-05-03', '2026-05-04', '2026-05-05'].map(date => ({ date, name: '劳动节' })),
+    ...['2026-06-19', '2026-06-20', '2026-06-21'].map(date => ({ date, name: '端午节' })),
+    ...['2026-09-25', '2026-09-26', '2026-09-27'].map(date => ({ date, name: '中秋节' })),
+    ...['2026-10-01', '2026-10-02', '2026-10-03', '2026-10-04', '2026-10-05', '2026-10-06', '2026-10-07']
+        .map(date => ({ date, name: '国庆节' })),
+];
+
+/**
+ * 调休补班日（周末上班）
+ */
+export const CHINA_MAKEUP_WORKDAYS: CalendarDay[] = [
+    // 2025
+    { date: '2025-01-26', name: '春节调休' },
+    { date: '2025-02-08', name: '春节调休' },
+    { date: '2025-04-27', name: '劳动节调休' },
+    { date: '2025-09-28', name: '国庆节调休' },
+    { date: '2025-10-11', name: '国庆节调休' },
+    // 2026
+    { date: '2026-01-04', name: '元旦调休' },
+    { date: '2026-02-14', name: '春节调休' },
+    { date: '2026-02-28', name: '春节调休' },
+    { date: '2026-05-09', name: '劳动节调休' },
+    { date: '2026-09-20', name: '国庆节调休' },
+    { date: '2026-10-10', name: '国庆节调休' },
+];
+
+export const COMPANY_CALENDAR_ID = 'cal-company';
+
+export const DEFAULT_WORKING_CALENDARS: WorkingCalendar[] = [
+    {
+        id: COMPANY_CALENDAR_ID,
+        name: '公司标准日历',
+        description: '周一至周五 8 小时，含中国法定节假日及调休',
+        workingWeekdays: [1, 2, 3, 4, 5],
+        hoursPerDay: 8,
+        holidays: CHINA_PUBLIC_HOLIDAYS,
+        makeupWorkdays: CHINA_MAKEUP_WORKDAYS,
+    },
+    {
+        id: 'cal-lab-two-shift',
+        name: '实验室两班倒',
+        description: '周一至周六两班，节假日同公司日历',
+        baseCalendarId: COMPANY_CALENDAR_ID,
+        workingWeekdays: [1, 2, 3, 4, 5, 6],
+        hoursPerDay: 16,
+        shifts: [
+            { id: 'shift-day', name: '白班', startTime: '08:00', endTime: '16:30', hours: 8 },
+            { id: 'shift-night', name: '夜班', startTime: '16:30', endTime: '01:00', hours: 8 },
+        ],
+        holidays: [],
+        makeupWorkdays: [],
+    },
+];
+
+// ==================== 日历解析 ====================
+
+/**
+ * 校验日历配置：至少一个工作日，未定义班次时每日工时不少于 1 小时；合法时返回 null
+ */
+export const validateWorkingCalendar = (
+    calendar: Pick<WorkingCalendar, 'workingWeekdays' | 'hoursPerDay' | 'shifts'>
+): string | null => {
+    if (calendar.workingWeekdays.length === 0) return '至少需要一个工作日';
+    const dailyHours = calendar.shifts && calendar.shifts.length > 0
+        ? calendar.shifts.reduce((sum, s) => sum + s.hours, 0)
+        : calendar.hoursPerDay;
+    if (!(dailyHours >= 1) || dailyHours > 24) return '每日工时需在 1 到 24 小时之间';
+    return null;
+};
+
+const toDateKey = (date: string | Date): string => {
+    if (typeof date === 'string') return date.slice(0, 10);
+    return format(date, DATE_KEY);
+};
+
+const toDate = (date: string | Date): Date => {
+    if (typeof date !== 'string') return date;
+    const parsed = parseISO(date.slice(0, 10));
+    return isValid(parsed) ? parsed : new Date(date);
+};
+
+/**
+ * 解析日历继承关系，合并基础日历的节假日与补班日
+ */
+export const resolveCalendar = (
+    calendars: WorkingCalendar[],
+    calendarId?: string
+): WorkingCalendar => {
+    const fallback = calendars.find(c => c.id === COMPANY_CALENDAR_ID) || calendars[0] || DEFAULT_WORKING_CALENDARS[0];
+    const requested = (calendarId && calendars.find(c => c.id === calendarId)) || fallback;
+    // 配置无效（无工作日或工时为 0）的日历不参与排期，改用内置公司日历
+    const calendar = validateWorkingCalendar(requested) ? DEFAULT_WORKING_CALENDARS[0] : requested;
+
+    const visited = new Set<string>([calendar.id]);
+    let holidays = [...calendar.holidays];
+    let makeupWorkdays = [...calendar.makeupWorkdays];
+    let base = calendar.baseCalendarId ? calendars.find(c => c.id === calendar.baseCalendarId) : undefined;
+
+    while (base && !visited.has(base.id)) {
+        visited.add(base.id);
+        holidays = [...holidays, ...base.holidays];
+        makeupWorkdays = [...makeupWorkdays, ...base.makeupWorkdays];
+        base = base.baseCalendarId ? calendars.find(c => c.id === base!.baseCalendarId) : undefined;
+    }
+
+    return { ...calendar, holidays, makeupWorkdays };
+};
+
+/**
+ * 为团队或成员选择日历：成员日历 > 团队日历 > 公司日历
+ */
+export const getCalendarIdFor = (
+    resource?: { calendarId?: string },
+    member?: { calendarId?: string }
+): string | undefined => {
+    return member?.calendarId || resource?.calendarId;
+};
+
+/**
+ * 筛选适用于某个团队/成员的日历例外（成员例外优先于团队例外）
+ */
+export const getExceptionsFor = (
+    exceptions: CalendarException[],
+    target: { teamId?: string; memberId?: string }
+): CalendarException[] => {
+    const memberExceptions = exceptions.filter(e => e.scope === 'member' && e.targetId === target.memberId);
+    const teamExceptions = exceptions.filter(e => e.scope === 'team' && e.targetId === target.teamId);
+    return [...memberExceptions, ...teamExceptions];
+};
+
+// ==================== 工作时间计算 ====================
+
+/**
+ * 日历某天的标准工时（不含例外）
+ */
+const getCalendarHours = (dateKey: string, weekday: number, calendar: WorkingCalendar): number => {
+    const dailyHours = calendar.shifts && calendar.shifts.length > 0
+        ? calendar.shifts.reduce((sum, s) => sum + s.hours, 0)
+        : calendar.hoursPerDay;
+
+    if (calendar.makeupWorkdays.some(d => d.date === dateKey)) return dailyHours;
+    if (calendar.holidays.some(d => d.date === dateKey)) return 0;
+    return calendar.workingWeekdays.includes(weekday) ? dailyHours : 0;
+};
+
+/**
+ * 获取某天的可用工时（考虑节假日、补班、团队/成员例外）
+ */
+export const getWorkingHoursOnDate = (
+    date: string | Date,
+    calendar: WorkingCalendar,
+    exceptions: CalendarException[] = []
+): number => {
+    const dateKey = toDateKey(date);
+    const exception = exceptions.find(e => e.startDate <= dateKey && e.endDate >= dateKey);
+
+    if (exception) {
+        if (exception.type === 'leave') return 0;
+        if (exception.type === 'shift' || exception.type === 'workday') {
+            return exception.hoursPerDay ?? calendar.hoursPerDay;
+        }
+    }
+
+    return getCalendarHours(dateKey, toDate(date).getDay(), calendar);
+};
+
+/**
+ * 判断是否为工作日
+ */
+export const isWorkingDay = (
+    date: string | Date,
+    calendar: WorkingCalendar,
+    exceptions: CalendarException[] = []
+): boolean => {
+    return getWorkingHoursOnDate(date, calendar, exceptions) > 0;
+};
+
+/**
+ * 统计区间内的工作日数量（包含首尾两天）
+ */
+export const countWorkingDays = (
+    startDate: string | Date,
+    endDate: string | Date,
+    calendar: WorkingCalendar,
+    exceptions: CalendarException[] = []
+): number => {
+    const end = toDate(endDate);
+    let current = toDate(startDate);
+    let count = 0;
+
+    while (current <= end) {
+        if (isWorkingDay(current, calendar, exceptions)) count++;
+        current = addDays(current, 1);
+    }
+
+    return count;
+};
+
+/**
+ * 统计区间内的可用工时（包含首尾两天）
+ */
+export const getWorkingHoursBetween = (
+    startDate: string | Date,
+    endDate: string | Date,
+    calendar: WorkingCalendar,
+    exceptions: CalendarException[] = []
+): number => {
+    const end = toDate(endDate);
+    let current = toDate(startDate);
+    let hours = 0;
+
+    while (current <= end) {
+        hours += getWorkingHoursOnDate(current, calendar, exceptions);
+        current = addDays(current, 1);
+    }
+
+    return hours;
+};
+
+/**
+ * 在日期上增加（或减少）若干个工作日，非工作日的起点先顺延到下一个工作日
+ */
+export const addWorkingDays = (
+    date: string | Date,
+    days: number,
+    calendar: WorkingCalendar,
+    exceptions: CalendarException[] = []
+): Date => {
+    let current = toDate(date);
+    const step = days >= 0 ? 1 : -1;
+    let remaining = Math.abs(Math.round(days));
+    let guard = 0;
+
+    while (!isWorkingDay(current, calendar, exceptions) && guard++ < 3660) {
+        current = addDays(current, step);
+    }
+
+    while (remaining > 0 && guard++ < 3660 * 5) {
+        current = addDays(current, step);
+        if (isWorkingDay(current, calendar, exceptions)) remaining--;
+    }
+
+    return current;
+};
+
+export interface WorkingDayIndex {
+    /** 日期 -> 工作日序号（非工作日映射到其后的第一个工作日） */
+    toIndex: (date: string | Date) => number;
+    /** 工作日序号 -> 日期 */
+    fromIndex: (index: number) => Date;
+}
+
+/**
+ * 构建工作日序号索引，供 CPM 等需要大量日期运算的算法使用
+ */
+export const createWorkingDayIndex = (
+    calendar: WorkingCalendar,
+    rangeStart: string | Date,
+    rangeEnd: string | Date,
+    exceptions: CalendarException[] = []
+): WorkingDayIndex => {
+    // 前后各留出余量，允许推迟后的日期超出原始范围
+    const anchor = addDays(toDate(rangeStart), -366);
+    const limit = addDays(toDate(rangeEnd), 3 * 366);
+    const workingDays: number[] = [];
+
+    for (let current = anchor; current <= limit; current = addDays(current, 1)) {
+        if (isWorkingDay(current, calendar, exceptions)) workingDays.push(current.getTime());
+    }
+
+    if (workingDays.length === 0) {
+        // 日历（含例外）在范围内没有任何工作日时按内置公司日历排期，避免排期视图在渲染时抛错
+        if (calendar !== DEFAULT_WORKING_CALENDARS[0] || exceptions.length > 0) {
+            return createWorkingDayIndex(DEFAULT_WORKING_CALENDARS[0], rangeStart, rangeEnd);
+        }
+        throw new Error(`Calendar "${calendar.name}" has no working days`);
+    }
+
+    const toIndex = (date: string | Date): number => {
+        const time = toDate(date).getTime();
+        let lo = 0;
+        let hi = workingDays.length;
+        while (lo < hi) {
+            const mid = (lo + hi) >> 1;
+            if (workingDays[mid] < time) lo = mid + 1;
+            else hi = mid;
+        }
+        return lo;
+    };
+
+    const fromIndex = (index: number): Date => {
+        if (index < 0) return addWorkingDays(new Date(workingDays[0]), index, calendar, exceptions);
+        if (index >= workingDays.length) {
+            return addWorkingDays(new Date(workingDays[workingDays.length - 1]), index - workingDays.length + 1, calendar, exceptions);
+        }
+        return new Date(workingDays[index]);
+    };
+
+    return { toIndex, fromIndex };
+};